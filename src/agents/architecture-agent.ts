@@ -4,6 +4,7 @@
  */
 
 import OpenAI from 'openai';
+import config from '../config/config.js';
 
 export class ArchitectureAgent {
   private client: OpenAI;
@@ -77,7 +78,7 @@ ASCII DIAGRAM FORMAT:
 OUTPUT: Enterprise-grade architecture options with detailed visual diagrams and comprehensive technical justification.`;
 
     const response = await this.client.chat.completions.create({
-      model: 'gpt-4.1',
+      model: config.getAzureConfig().foundry.modelDeploymentName,
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: this.buildDesignPrompt(caseStudyText, requirements, researchData) }
@@ -130,7 +131,7 @@ Provide the refined architecture with:
 Focus on creating a production-ready, enterprise-grade solution.`;
 
     const response = await this.client.chat.completions.create({
-      model: 'gpt-4.1',
+      model: config.getAzureConfig().foundry.modelDeploymentName,
       messages: [
         { role: 'system', content: refinementSystemPrompt },
         { role: 'user', content: refinementPrompt }
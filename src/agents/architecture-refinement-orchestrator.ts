@@ -11,6 +11,9 @@ import OpenAI from 'openai';
 import config from '../config/config.js';
 import { WellArchitectedOrchestrator } from './well-architected-orchestrator.js';
 import { ArchitectureAgent } from './architecture-agent.js';
+import { costLedger, formatUsd } from '../core/cost-ledger.js';
+import { ArchitectureGraph } from '../core/architecture-graph.js';
+import { PolicyPack } from '../waf/policy-pack.js';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 
@@ -27,6 +30,11 @@ interface RefinementTask {
     targetWAFScore?: number;
     maxIterations?: number;
     caseStudyFolder?: string;
+    // Designed architecture; every iteration's WAF score includes its deterministic rule checks
+    graph?: ArchitectureGraph;
+    policyPack?: PolicyPack;
+    // Aborted when the workflow step times out; stops the refinement before the next iteration or save
+    signal?: AbortSignal;
   };
 }
 
@@ -79,6 +87,7 @@ export class ArchitectureRefinementOrchestrator {
     let bestScore = 0;
     let bestArchitecture = '';
     let converged = false;
+    let budgetExhausted = false;
 
     try {
       // Initial architecture design
@@ -86,6 +95,14 @@ export class ArchitectureRefinementOrchestrator {
       currentArchitecture = await this.generateInitialArchitecture(task.payload);
       
       for (let i = 1; i <= maxIterations && !converged; i++) {
+        task.payload.signal?.throwIfAborted();
+        // Keep the best architecture so far rather than exceed the run budget
+        if (costLedger.isBudgetExhausted()) {
+          budgetExhausted = true;
+          console.log(`💸 Run budget of ${formatUsd(costLedger.getBudget()!)} reached - stopping refinement after ${iterations.length} iteration(s)`);
+          break;
+        }
+
         console.log(`\n🔍 Iteration ${i}/${maxIterations}: Assessing architecture...`);
         
         // Assess current architecture with WAF
@@ -146,6 +163,7 @@ export class ArchitectureRefinementOrchestrator {
         }
 
         // Save iteration results
+        task.payload.signal?.throwIfAborted();
         if (task.payload.caseStudyFolder) {
           await this.saveIterationResults(iterationResult, task.payload.caseStudyFolder);
         }
@@ -162,12 +180,13 @@ export class ArchitectureRefinementOrchestrator {
         improvementHistory: iterations,
         convergenceReason: converged ? 
           iterations[iterations.length - 1]?.refinementReason || 'Target achieved' :
-          `Reached maximum iterations (${maxIterations})`,
+          budgetExhausted ? 'Run budget reached' : `Reached maximum iterations (${maxIterations})`,
         optimizationSummary: this.generateOptimizationSummary(iterations, finalScore, targetScore),
         recommendedNextSteps: this.generateNextSteps(iterations, finalScore, targetScore)
       };
 
       // Save final refinement report
+      task.payload.signal?.throwIfAborted();
       if (task.payload.caseStudyFolder) {
         await this.saveRefinementReport(result, task.payload.caseStudyFolder);
       }
@@ -198,7 +217,7 @@ export class ArchitectureRefinementOrchestrator {
     return result.detailedArchitecture;
   }
 
-  private async assessArchitectureWithWAF(architecture: string, payload: any): Promise<any> {
+  private async assessArchitectureWithWAF(architecture: string, payload: RefinementTask['payload']): Promise<any> {
     const wafTask = {
       id: 'waf-assessment',
       type: 'waf-comprehensive-assessment' as const,
@@ -208,11 +227,13 @@ export class ArchitectureRefinementOrchestrator {
         requirements: payload.requirements,
         businessContext: payload.businessContext,
         complianceRequirements: payload.complianceRequirements,
-        industryType: payload.industryType
+        industryType: payload.industryType,
+        graph: payload.graph,
+        policyPack: payload.policyPack
       }
     };
 
-    return await this.wafOrchestrator.execute(wafTask);
+    return await this.wafOrchestrator.executeWAFAssessment(wafTask);
   }
 
   private async refineArchitecture(
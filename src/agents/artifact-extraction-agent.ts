@@ -0,0 +1,127 @@
+/**
+ * Artifact Extraction Agent
+ * Converts a step's markdown output into a typed pipeline artifact,
+ * repairing model output that fails schema validation
+ */
+
+import OpenAI from 'openai';
+import config from '../config/config.js';
+import { describeSchema } from '../utils/schema-validator.js';
+import { telemetry } from '../core/telemetry.js';
+import {
+  ArtifactKind,
+  ArtifactMap,
+  ARTIFACT_SCHEMAS,
+  normalizeArtifact,
+  validateArtifact
+} from '../core/pipeline-artifacts.js';
+
+export interface ArtifactExtractionResult<K extends ArtifactKind> {
+  artifact?: ArtifactMap[K];
+  attempts: number;
+  errors: string[];
+}
+
+const ARTIFACT_GUIDANCE: Record<ArtifactKind, string> = {
+  requirements: 'Extract the functional and non-functional requirements, constraints, stakeholders and compliance obligations.',
+  architecture: 'Extract the recommended architecture. List every Azure service with a unique kebab-case id, its SKU and region, and every data flow between services as an edge referencing those ids. Include users and on-premises systems as services with category "external" or "on-premises". Where the document states them, record each service\'s availability zone and tier, each flow\'s protocol and direction, and the trust boundaries, VNets, subnets, subscriptions and on-premises sites as groups that services reference by id.',
+  cost: 'Extract the monthly cost breakdown per service, the total monthly cost and the optimization opportunities. Use plain numbers without currency symbols.',
+  risk: 'Extract every identified risk with its category, impact, probability and mitigation.',
+  changeManagement: 'Extract stakeholder groups, the phased rollout plan and adoption success metrics.'
+};
+
+export class ArtifactExtractionAgent {
+  private client: OpenAI;
+  private maxRepairAttempts: number;
+
+  constructor(client: OpenAI, maxRepairAttempts: number = 2) {
+    this.client = client;
+    this.maxRepairAttempts = maxRepairAttempts;
+  }
+
+  /**
+   * Extract and validate an artifact. The model gets the validation errors
+   * back and is asked to repair its JSON until it validates or attempts run out.
+   */
+  async extract<K extends ArtifactKind>(kind: K, markdown: string, context?: string): Promise<ArtifactExtractionResult<K>> {
+    const schema = JSON.stringify(describeSchema(ARTIFACT_SCHEMAS[kind]), null, 2);
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+      {
+        role: 'system',
+        content: `You convert Azure architecture analysis documents into strict JSON.
+
+${ARTIFACT_GUIDANCE[kind]}
+
+Return ONLY a JSON object matching this shape (properties ending in "?" are optional):
+${schema}
+
+Do not invent information that is not supported by the document.`
+      },
+      {
+        role: 'user',
+        content: `${context ? `${context}\n\n` : ''}DOCUMENT:\n${markdown}`
+      }
+    ];
+
+    let errors: string[] = [];
+
+    for (let attempt = 1; attempt <= this.maxRepairAttempts + 1; attempt++) {
+      if (attempt > 1) telemetry.recordRetry();
+      let raw = '';
+      try {
+        const response = await this.client.chat.completions.create({
+          model: config.getAzureConfig().foundry.modelDeploymentName,
+          messages,
+          max_tokens: 2000,
+          temperature: 0,
+          response_format: { type: 'json_object' }
+        });
+        raw = response.choices[0]?.message?.content || '';
+      } catch (error) {
+        errors = [`request failed: ${error instanceof Error ? error.message : String(error)}`];
+        continue;
+      }
+
+      const parsed = this.parseJson(raw);
+      if (parsed === undefined) {
+        errors = ['$: response is not valid JSON'];
+      } else {
+        const candidate = normalizeArtifact(kind, parsed);
+        const validation = validateArtifact(kind, candidate);
+        if (validation.valid) {
+          return { artifact: candidate as ArtifactMap[K], attempts: attempt, errors: [] };
+        }
+        errors = validation.errors;
+      }
+
+      // Feed the failure back so the next attempt is a targeted repair
+      messages.push(
+        { role: 'assistant', content: raw },
+        {
+          role: 'user',
+          content: `Your JSON failed validation:\n${errors.slice(0, 15).map(e => `- ${e}`).join('\n')}\n\nReturn the corrected JSON object only.`
+        }
+      );
+    }
+
+    return { attempts: this.maxRepairAttempts + 1, errors };
+  }
+
+  private parseJson(raw: string): any {
+    const cleaned = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/```\s*$/, '');
+    try {
+      return JSON.parse(cleaned);
+    } catch {
+      const start = cleaned.indexOf('{');
+      const end = cleaned.lastIndexOf('}');
+      if (start >= 0 && end > start) {
+        try {
+          return JSON.parse(cleaned.slice(start, end + 1));
+        } catch {
+          return undefined;
+        }
+      }
+      return undefined;
+    }
+  }
+}
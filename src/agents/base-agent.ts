@@ -5,6 +5,7 @@
 
 import OpenAI from 'openai';
 import config from '../config/config.js';
+import { telemetry, LLMCallRecord } from '../core/telemetry.js';
 
 // Global agent registry for cleanup
 const agentRegistry = new Set<BaseAgent>();
@@ -131,8 +132,12 @@ export abstract class BaseAgent {
     };
 
     const startTime = Date.now();
-    let apiCalls = 0;
-    let tokensUsed = 0;
+    // LLM calls made while processing this task, as measured by telemetry
+    const calls: LLMCallRecord[] = [];
+    const usage = () => ({
+      apiCalls: calls.length,
+      tokensUsed: calls.reduce((total, call) => total + call.totalTokens, 0)
+    });
 
     try {
       // Check if agent is healthy
@@ -140,9 +145,10 @@ export abstract class BaseAgent {
         throw new Error(`Agent ${this.agentName} is unhealthy`);
       }
 
-      const result = await this.processTask(task);
+      const result = await telemetry.runInScope({ agent: this.agentName }, () => this.processTask(task), calls);
       
       const executionTime = Date.now() - startTime;
+      const { apiCalls, tokensUsed } = usage();
       
       // Update metrics
       this.updateMetrics(task.id, {
@@ -165,6 +171,7 @@ export abstract class BaseAgent {
 
     } catch (error) {
       const executionTime = Date.now() - startTime;
+      const { apiCalls, tokensUsed } = usage();
       
       // Update error metrics
       this.updateMetrics(task.id, {
@@ -187,35 +194,18 @@ export abstract class BaseAgent {
     }
   }
 
-  // Optimized OpenAI API call with retries and monitoring
+  // OpenAI API call - retries, throttling and timeouts are handled by the LLM gateway
   protected async callOpenAI(messages: any[], options: any = {}): Promise<any> {
     const agentConfig = this.config;
-    const maxRetries = options.retries || 2;
-    let attempt = 0;
-
-    while (attempt <= maxRetries) {
-      try {
-        const response = await this.client.chat.completions.create({
-          model: config.getAzureConfig().foundry.modelDeploymentName,
-          messages,
-          max_tokens: options.maxTokens || agentConfig.maxTokens || 1500,
-          temperature: options.temperature ?? agentConfig.temperature ?? 0.3,
-          timeout: options.timeout || 30000,
-          ...options
-        });
-
-        return response;
-      } catch (error) {
-        attempt++;
-        if (attempt > maxRetries) {
-          throw error;
-        }
-        
-        // Exponential backoff
-        const delay = Math.pow(2, attempt) * 1000;
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
-    }
+    const { maxTokens, temperature, retries, timeout, ...requestOptions } = options;
+
+    return this.client.chat.completions.create({
+      model: config.getAzureConfig().foundry.modelDeploymentName,
+      messages,
+      max_tokens: maxTokens || agentConfig.maxTokens || 1500,
+      temperature: temperature ?? agentConfig.temperature ?? 0.3,
+      ...requestOptions
+    });
   }
 
   // Priority queue management
@@ -15,6 +15,9 @@ import { ArchitectureAgent } from './architecture-agent.js';
 import { CostOptimizerAgent } from './cost-optimizer-agent.js';
 import { RiskAssessorAgent } from './risk-assessor-agent.js';
 import { VisualArchitectureAgent } from './visual-architecture-agent.js';
+import { costLedger, formatUsd } from '../core/cost-ledger.js';
+import { ArchitectureGraph } from '../core/architecture-graph.js';
+import { PolicyPack } from '../waf/policy-pack.js';
 import { getLocalTimestamp, getLocalTimestampForFilename } from '../utils/local-timestamp.js';
 import { promises as fs } from 'fs';
 import { join } from 'path';
@@ -90,7 +93,9 @@ export class CostAwareRefinementOrchestrator {
     initialRiskAssessment: string,
     caseStudyText: string,
     requirements: string,
-    caseStudyFolder?: string
+    caseStudyFolder?: string,
+    // Designed architecture and policy pack for the deterministic WAF rule checks of each re-assessment
+    ruleInputs: { graph?: ArchitectureGraph; policyPack?: PolicyPack } = {}
   ): Promise<CostAwareRefinementResult> {
     console.log('🔄 Starting cost-aware architecture refinement...');
 
@@ -105,6 +110,7 @@ export class CostAwareRefinementOrchestrator {
     let bestArchitecture = initialArchitecture;
     let bestVisualDiagrams = '';
     let converged = false;
+    let budgetExhausted = false;
 
     try {
       // Evaluate initial state
@@ -134,6 +140,13 @@ export class CostAwareRefinementOrchestrator {
 
       // Iterative refinement loop
       for (let i = 1; i <= this.MAX_ITERATIONS && !converged; i++) {
+        // Each iteration re-runs WAF, cost and risk analysis - don't start one past the budget
+        if (costLedger.isBudgetExhausted()) {
+          budgetExhausted = true;
+          console.log(`💸 Run budget of ${formatUsd(costLedger.getBudget()!)} reached - stopping refinement after ${iterations.length} iteration(s)`);
+          break;
+        }
+
         console.log(`\n🔍 Iteration ${i}/${this.MAX_ITERATIONS}: Refining architecture...`);
 
         // Refine architecture based on WAF, cost, and risk feedback
@@ -172,7 +185,9 @@ export class CostAwareRefinementOrchestrator {
               architecture: currentArchitecture,
               requirements,
               businessContext: caseStudyText,
-              caseStudyFolder
+              caseStudyFolder,
+              graph: ruleInputs.graph,
+              policyPack: ruleInputs.policyPack
             }
           };
 
@@ -277,7 +292,7 @@ export class CostAwareRefinementOrchestrator {
           (iterations[iterations.length - 1].satisfactionScore.overall >= this.TARGET_SATISFACTION ?
             `Target satisfaction achieved (${iterations[iterations.length - 1].satisfactionScore.overall.toFixed(1)}/10)` :
             'Minimal improvement, refinement stopped') :
-          `Reached maximum iterations (${this.MAX_ITERATIONS})`,
+          budgetExhausted ? 'Run budget reached' : `Reached maximum iterations (${this.MAX_ITERATIONS})`,
         optimizationSummary: this.generateOptimizationSummary(iterations, bestSatisfaction),
         recommendedNextSteps: this.generateNextSteps(iterations, bestSatisfaction)
       };
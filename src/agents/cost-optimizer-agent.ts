@@ -4,6 +4,7 @@
  */
 
 import OpenAI from 'openai';
+import config from '../config/config.js';
 
 export class CostOptimizerAgent {
   private client: OpenAI;
@@ -52,7 +53,7 @@ REALISTIC PRICING:
 OUTPUT: Detailed cost analysis with monthly/annual projections and specific optimization recommendations.`;
 
     const response = await this.client.chat.completions.create({
-      model: 'gpt-4.1',
+      model: config.getAzureConfig().foundry.modelDeploymentName,
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: `Perform detailed cost analysis for these architecture solutions:\n\nARCHITECTURE SOLUTIONS:\n${architectureSolutions}` }
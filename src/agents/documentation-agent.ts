@@ -4,6 +4,7 @@
  */
 
 import OpenAI from 'openai';
+import config from '../config/config.js';
 
 export class DocumentationAgent {
   private client: OpenAI;
@@ -84,7 +85,7 @@ Create 5-7 executive-level talking points covering:
 OUTPUT: Professional documentation package ready for C-level presentation and technical implementation.`;
 
     const response = await this.client.chat.completions.create({
-      model: 'gpt-4.1',
+      model: config.getAzureConfig().foundry.modelDeploymentName,
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: `Create comprehensive documentation for this solution:\n\nCASE STUDY:\n${caseStudyText}\n\nCOMPLETE ANALYSIS:\n${completeAnalysis}` }
@@ -4,6 +4,7 @@
  */
 
 import OpenAI from 'openai';
+import config from '../config/config.js';
 
 export class RequirementsAnalystAgent {
   private client: OpenAI;
@@ -35,7 +36,7 @@ CONSTRAINTS:
 Be thorough and specific. Consider implicit requirements based on context.`;
 
     const response = await this.client.chat.completions.create({
-      model: 'gpt-4.1',
+      model: config.getAzureConfig().foundry.modelDeploymentName,
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: `Analyze this case study and extract all requirements:\n\n${caseStudyText}` }
@@ -5,12 +5,12 @@
 
 import OpenAI from 'openai';
 import config from '../config/config.js';
+import { telemetry, isTimeoutError } from '../core/telemetry.js';
 
 interface ResearchTask {
   id: string;
   agentName: string;
   prompt: string;
-  timeLimit: number; // in milliseconds
   priority: 'high' | 'medium' | 'low';
 }
 
@@ -38,56 +38,52 @@ export class ResearchOrchestratorAgent {
         id: 'waf-infra-001',
         agentName: 'Infrastructure & Regional WAF Compliance Agent',
         prompt: this.getWAFInfrastructureResearchPrompt(),
-        timeLimit: 45000, // 45 seconds
         priority: 'high'
       }],
       ['waf-ai-ml-innovation', {
         id: 'waf-ai-002',
         agentName: 'AI/ML Well-Architected Patterns Agent', 
         prompt: this.getWAFAIMLResearchPrompt(),
-        timeLimit: 45000, // 45 seconds
         priority: 'high'
       }],
       ['waf-enterprise-cases', {
         id: 'waf-ent-003',
         agentName: 'Enterprise WAF Case Studies Agent',
         prompt: this.getWAFEnterpriseResearchPrompt(),
-        timeLimit: 50000, // 50 seconds
         priority: 'high'
       }],
       ['waf-compliance-sovereignty', {
         id: 'waf-comp-004',
         agentName: 'Compliance & Data Sovereignty WAF Agent',
         prompt: this.getWAFComplianceResearchPrompt(),
-        timeLimit: 40000, // 40 seconds
         priority: 'medium'
       }],
       ['waf-industry-verticals', {
         id: 'waf-ind-005',
         agentName: 'Industry Vertical WAF Solutions Agent',
         prompt: this.getWAFIndustryResearchPrompt(),
-        timeLimit: 40000, // 40 seconds
         priority: 'medium'
       }],
       ['waf-architecture-migration', {
         id: 'waf-arch-006',
         agentName: 'Architecture & Migration WAF Patterns Agent',
         prompt: this.getWAFArchitectureResearchPrompt(),
-        timeLimit: 45000, // 45 seconds
         priority: 'high'
       }]
     ]);
   }
 
   /**
-   * Execute all research agents in parallel with time limits
+   * Execute all research agents in parallel. The LLM gateway bounds each call
+   * and caps how many run at once, so a throttled deployment is not flooded.
    */
   async executeResearch(caseStudyContext?: string): Promise<ResearchResult[]> {
     console.log('🔍 Starting parallel research with 6 specialized agents...');
     const startTime = Date.now();
 
-    const researchPromises = Array.from(this.researchAgents.values()).map(task => 
-      this.executeTimeLimitedResearch(task, caseStudyContext)
+    const researchPromises = Array.from(this.researchAgents.entries()).map(([key, task]) =>
+      telemetry.runInScope({ agent: `research-${key.replace(/^waf-/, '')}` }, () =>
+        this.executeResearchTask(task, caseStudyContext))
     );
 
     const results = await Promise.allSettled(researchPromises);
@@ -103,7 +99,7 @@ export class ResearchOrchestratorAgent {
         return {
           agentName: task.agentName,
           findings: `Research failed: ${result.reason}`,
-          executionTime: task.timeLimit,
+          executionTime: totalTime,
           status: 'error' as const,
           keyInsights: [],
           caseStudies: []
@@ -112,23 +108,14 @@ export class ResearchOrchestratorAgent {
     });
   }
 
-  private async executeTimeLimitedResearch(
+  private async executeResearchTask(
     task: ResearchTask, 
     caseStudyContext?: string
   ): Promise<ResearchResult> {
     const startTime = Date.now();
     
     try {
-      // Create timeout promise
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Research timeout')), task.timeLimit);
-      });
-
-      // Create research promise
-      const researchPromise = this.conductResearch(task, caseStudyContext);
-
-      // Race between research and timeout
-      const findings = await Promise.race([researchPromise, timeoutPromise]);
+      const findings = await this.conductResearch(task, caseStudyContext);
       const executionTime = Date.now() - startTime;
 
       // Extract key insights and case studies
@@ -146,7 +133,7 @@ export class ResearchOrchestratorAgent {
 
     } catch (error) {
       const executionTime = Date.now() - startTime;
-      const isTimeout = error.message === 'Research timeout';
+      const isTimeout = isTimeoutError(error);
       
       return {
         agentName: task.agentName,
@@ -4,6 +4,7 @@
  */
 
 import OpenAI from 'openai';
+import config from '../config/config.js';
 
 export class RiskAssessorAgent {
   private client: OpenAI;
@@ -59,7 +60,7 @@ MITIGATION STRATEGIES:
 OUTPUT: Comprehensive risk matrix with impact ratings and detailed mitigation strategies.`;
 
     const response = await this.client.chat.completions.create({
-      model: 'gpt-4.1',
+      model: config.getAzureConfig().foundry.modelDeploymentName,
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: `Assess risks for this solution architecture:\n\nCASE STUDY:\n${caseStudyText}\n\nARCHITECTURE SOLUTIONS:\n${architectureSolutions}` }
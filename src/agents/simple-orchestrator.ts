@@ -15,17 +15,100 @@ import { ResearchOrchestratorAgent } from './research-orchestrator-agent.js';
 import { WellArchitectedOrchestrator } from './well-architected-orchestrator.js';
 import { ArchitectureRefinementOrchestrator } from './architecture-refinement-orchestrator.js';
 import { CostAwareRefinementOrchestrator } from './cost-aware-refinement-orchestrator.js';
+import { ArtifactExtractionAgent } from './artifact-extraction-agent.js';
+import { ArtifactKind, ArtifactMap, PipelineArtifacts, loadArtifact, saveArtifact } from '../core/pipeline-artifacts.js';
+import { ArchitectureGraph, buildArchitectureGraph, formatGraphForPrompt, saveArchitectureGraph } from '../core/architecture-graph.js';
+import { CheckpointManager, CheckpointManifest } from '../core/checkpoint-manager.js';
+import { telemetry, AgentTelemetry, TelemetryHealth, TelemetrySnapshot } from '../core/telemetry.js';
+import { costLedger, CostLedgerSummary, formatUsd } from '../core/cost-ledger.js';
+import { IacTarget, formatInfrastructureReport, saveInfrastructureAsCode } from '../iac/iac-writer.js';
+import { CostCurrency, loadExchangeRates } from '../cost/pricing-catalog.js';
+import { CostEstimate, estimateArchitectureCosts, formatCostAmount, formatCostEstimate } from '../cost/cost-calculator.js';
+import { ReportSection, formatCostConsistency, reconcileCostClaims } from '../cost/cost-reconciliation.js';
+import { saveCostConsistency, saveCostEstimate, saveTcoProjection } from '../cost/cost-writer.js';
+import { formatTcoProjection } from '../cost/tco-model.js';
+import { formatFinopsReport, saveFinops } from '../finops/finops-writer.js';
+import { PolicyPack, loadPolicyPack } from '../waf/policy-pack.js';
+import { wafChecklistExtractor } from '../utils/waf-checklist-extractor.js';
+import {
+  WorkflowEngine,
+  WorkflowContext,
+  WorkflowDefinition,
+  WorkflowStepDefinition,
+  StepResult,
+  getRestorableSteps,
+  getExecutionOrder,
+  interpolate,
+  loadWorkflowDefinition,
+  outputKeys
+} from '../core/workflow-engine.js';
 import { getAgentRegistry, isAgentDeployed } from '../utils/deploy-agents-to-foundry.js';
 import { getLocalTimestamp } from '../utils/local-timestamp.js';
 import { promises as fs } from 'fs';
 import path from 'path';
 
+export interface CoordinationOptions {
+  workflowFile?: string;
+  resume?: boolean;
+  fromStep?: string;
+  // Refinement loops stop once the run's LLM spend reaches this amount
+  maxBudgetUsd?: number;
+  // Infrastructure as code to generate; defaults to the IAC_TARGET setting
+  iacTarget?: IacTarget;
+  // Currency of the calculated cost estimate; defaults to the COST_CURRENCY setting
+  currency?: CostCurrency;
+  // TCO assumptions file; defaults to the TCO_ASSUMPTIONS setting
+  tcoAssumptions?: string;
+  // Organisational checklist items (YAML or JSON); defaults to the WAF_POLICY_PACK setting
+  policyPack?: string;
+}
+
+// Output key holding the markdown each artifact is extracted from
+const ARTIFACT_SOURCE_KEYS: Record<ArtifactKind, string> = {
+  requirements: 'requirements',
+  architecture: 'architecture',
+  cost: 'costs',
+  risk: 'risks',
+  changeManagement: 'changeManagement'
+};
+
 export class SimpleOrchestrator {
   private client: OpenAI;
   private agentRegistry: { [key: string]: string } = {};
+  private artifactExtractor: ArtifactExtractionAgent;
+  private artifacts: PipelineArtifacts = {};
+  private extractedSources: Map<ArtifactKind, string> = new Map();
+  private graph?: ArchitectureGraph;
+  private iacTarget?: IacTarget;
+  private currency?: CostCurrency;
+  private costEstimate?: CostEstimate;
+  private tcoAssumptions?: string;
+  private policyPack?: PolicyPack;
   
   constructor(client: OpenAI) {
     this.client = client;
+    this.artifactExtractor = new ArtifactExtractionAgent(client);
+  }
+
+  /**
+   * Typed artifacts produced by the last coordinate() run
+   */
+  getArtifacts(): PipelineArtifacts {
+    return this.artifacts;
+  }
+
+  /**
+   * Architecture graph built from the last run's architecture and cost artifacts
+   */
+  getArchitectureGraph(): ArchitectureGraph | undefined {
+    return this.graph;
+  }
+
+  /**
+   * Cost estimate calculated from the pricing catalog during the last run
+   */
+  getCostEstimate(): CostEstimate | undefined {
+    return this.costEstimate;
   }
 
   /**
@@ -46,267 +129,385 @@ export class SimpleOrchestrator {
     }
   }
 
-  async coordinate(caseStudyText: string, caseStudyFolder?: string): Promise<string> {
+  async coordinate(caseStudyText: string, caseStudyFolder?: string, options: CoordinationOptions = {}): Promise<string> {
+    const checkpoint = caseStudyFolder ? new CheckpointManager(caseStudyFolder) : undefined;
+
     try {
-      console.log('🚀 Starting WAF-compliant architecture analysis\n');
+      console.log(options.resume ? '♻️  Resuming WAF-compliant architecture analysis\n' : '🚀 Starting WAF-compliant architecture analysis\n');
 
       // Initialize agent registry
       this.initializeAgentRegistry();
+      this.artifacts = {};
+      this.extractedSources.clear();
+      this.graph = undefined;
+      this.iacTarget = options.iacTarget;
+      this.currency = options.currency;
+      this.tcoAssumptions = options.tcoAssumptions;
+      this.costEstimate = undefined;
+      telemetry.reset();
+      costLedger.setBudget(options.maxBudgetUsd);
+
+      // An explicitly selected pack that does not load fails the run rather than silently assessing without it
+      const policyPackFile = options.policyPack ?? config.get().waf.policyPack;
+      this.policyPack = policyPackFile ? loadPolicyPack(policyPackFile) : undefined;
+      wafChecklistExtractor.setPolicyPack(this.policyPack);
+      if (this.policyPack) {
+        console.log(`📜 Policy pack: ${this.policyPack.name} v${this.policyPack.version} (${this.policyPack.items.length} items)\n`);
+      }
+      if (options.maxBudgetUsd !== undefined) {
+        console.log(`💵 Run budget: ${formatUsd(options.maxBudgetUsd)}\n`);
+      }
 
-      // Initialize agents
-      const researchAgent = new ResearchOrchestratorAgent(this.client);
-      const visualAgent = new VisualArchitectureAgent(this.client);
-      const wafOrchestrator = new WellArchitectedOrchestrator(this.client);
+      const previous = options.resume && caseStudyFolder ? await CheckpointManager.load(caseStudyFolder) : undefined;
+      const workflowFile = options.workflowFile || previous?.workflow.file || config.get().app.workflowFile;
+      const definition = loadWorkflowDefinition(workflowFile);
+      const engine = this.createWorkflowEngine(definition);
+      console.log(`🧭 Workflow: ${definition.name} v${definition.version} (${definition.steps.filter(s => s.enabled !== false).length} steps)\n`);
 
-      // Step 0: Research Intelligence (6 parallel agents)
-      console.log('🔍 Research Intelligence');
-      let researchResults = [];
-      let researchReport = '';
-      try {
-        const timeoutPromise = new Promise((_, reject) =>
-          setTimeout(() => reject(new Error('Research intelligence timeout')), 120000)
-        );
-
-        researchResults = await Promise.race([
-          researchAgent.executeResearch(caseStudyText),
-          timeoutPromise
-        ]) as any[];
-
-        researchReport = researchAgent.generateResearchReport(researchResults);
-        const successful = researchResults.filter(r => r.status === 'completed').length;
-        console.log(`   ✓ ${successful}/${researchResults.length} agents completed\n`);
-
-      } catch (error) {
-        console.log(`   ⚠ Using fallback (${error.message})\n`);
-        researchReport = `# Research Intelligence (Fallback)\n\nProceeding with standard analysis workflow.`;
-      }
+      const context: WorkflowContext = { caseStudyText, caseStudyFolder, values: {} };
+      const restored = previous && checkpoint
+        ? await this.restoreFromCheckpoint(definition, previous, checkpoint, context, options.fromStep)
+        : new Map<string, StepResult>();
 
-      await this.saveIntermediateResults('Research Intelligence', researchReport, caseStudyFolder);
+      await checkpoint?.initialize(definition, workflowFile, caseStudyText, previous);
 
-      // Step 1: Requirements Analysis
-      console.log('📋 Requirements Analysis');
-      let requirements = '';
-      try {
-        requirements = await Promise.race([
-          this.analyzeRequirements(caseStudyText, researchReport),
-          new Promise((_, reject) => setTimeout(() => reject(new Error('timeout')), 30000))
-        ]) as string;
-        console.log('   ✓ Complete\n');
-      } catch (error) {
-        console.log('   ⚠ Using fallback\n');
-        requirements = `# Requirements Analysis (Fallback)\n\n## Functional Requirements\n- Core functionality\n- Authentication\n- Data processing\n\n## Non-Functional Requirements\n- High availability\n- Performance & scalability\n- Security & compliance`;
-      }
+      await engine.run(context, {
+        onStepStart: async (step) => { await checkpoint?.markStepStarted(step); },
+        onStepComplete: async (step, result, ctx) => {
+          await this.handleStepComplete(step, result, ctx);
+          await checkpoint?.recordStep(step, result, ctx.values);
+        }
+      }, restored);
+
+      await checkpoint?.finish('completed');
+      console.log('✅ Analysis complete\n');
+      return context.values[definition.result] || 'Analysis produced no result';
+      
+    } catch (error) {
+      await checkpoint?.finish('failed');
+      console.error('❌ Orchestration failed:', error);
+      return `Analysis failed: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
 
-      await this.saveIntermediateResults('Requirements Analysis', requirements, caseStudyFolder);
+  /**
+   * Rebuild workflow state from a checkpoint. Missing and failed steps (including
+   * those that fell back) and --from-step re-run together with everything downstream.
+   */
+  private async restoreFromCheckpoint(
+    definition: WorkflowDefinition,
+    manifest: CheckpointManifest,
+    checkpoint: CheckpointManager,
+    context: WorkflowContext,
+    fromStep?: string
+  ): Promise<Map<string, StepResult>> {
+    const order = getExecutionOrder(definition);
+    const done = new Set(order.filter(id => {
+      const record = manifest.steps[id];
+      return record?.status === 'completed' || (record?.status === 'skipped' && !record.error);
+    }));
+
+    if (fromStep) {
+      const target = definition.steps.find(step =>
+        step.id === fromStep || step.name.toLowerCase() === fromStep.toLowerCase());
+      if (!target) {
+        throw new Error(`Unknown step "${fromStep}". Available steps: ${order.join(', ')}`);
+      }
+      done.delete(target.id);
+    }
 
-      // Step 2: Architecture Design
-      console.log('🏗️  Architecture Design');
-      let architecture = '';
+    const outputs = new Map<string, Record<string, any>>();
+    for (const id of done) {
       try {
-        architecture = await Promise.race([
-          this.designArchitecture(caseStudyText, requirements, researchReport),
-          new Promise((_, reject) => setTimeout(() => reject(new Error('timeout')), 30000))
-        ]) as string;
-        console.log('   ✓ Complete\n');
-      } catch (error) {
-        console.log('   ⚠ Using fallback\n');
-        architecture = `# Azure Architecture\n\n## Core Components\n- Azure App Service\n- Azure SQL Database\n- Azure Application Gateway\n- Azure Key Vault\n- Azure Monitor`;
+        outputs.set(id, await checkpoint.loadStepOutputs(id));
+      } catch {
+        // Missing output file - treat the step as never run
+        done.delete(id);
       }
+    }
 
-      await this.saveIntermediateResults('Architecture Design', architecture, caseStudyFolder);
+    const restorable = getRestorableSteps(definition, done);
+    const restored = new Map<string, StepResult>();
+    for (const id of order) {
+      if (!restorable.has(id)) continue;
+      Object.assign(context.values, outputs.get(id));
+      restored.set(id, { id, ...manifest.steps[id] });
+    }
 
-      // Step 2.1: Architecture Refinement
-      console.log('🔄 Architecture Optimization');
-      let refinedArchitecture = architecture;
-      try {
-        const refinementOrchestrator = new ArchitectureRefinementOrchestrator(this.client);
-
-        const refinementTask = {
-          id: 'architecture-optimization',
-          type: 'architecture-refinement' as const,
-          priority: 'high' as const,
-          payload: {
-            caseStudy: caseStudyText,
-            requirements,
-            businessContext: caseStudyText,
-            targetWAFScore: 85,
-            maxIterations: 3,
-            caseStudyFolder
-          }
-        };
+    // Reload artifacts of completed steps (validated again on load); re-run steps refresh them
+    for (const step of definition.steps) {
+      if (!step.artifact || !restorable.has(step.id) || this.artifacts[step.artifact]) continue;
 
-        const refinementResult = await refinementOrchestrator.execute(refinementTask);
-        refinedArchitecture = refinementResult.finalArchitecture;
-        architecture = refinedArchitecture;
+      const artifact = await loadArtifact(step.artifact, context.caseStudyFolder!);
+      if (artifact) {
+        (this.artifacts as ArtifactMap)[step.artifact] = artifact as any;
+        this.extractedSources.set(step.artifact, context.values[ARTIFACT_SOURCE_KEYS[step.artifact]]);
+      }
+    }
+    await this.refreshGraph(context.caseStudyFolder);
 
-        console.log(`   ✓ WAF Score: ${refinementResult.finalWAFScore}/100 (${refinementResult.totalIterations} iterations)\n`);
+    const rerun = order.filter(id => !restorable.has(id));
+    console.log(`♻️  Restored ${restored.size} completed step(s); re-running: ${rerun.join(', ') || 'none'}\n`);
+    return restored;
+  }
 
-        await this.saveIntermediateResults('Optimized Architecture', refinedArchitecture, caseStudyFolder);
+  /**
+   * Register the built-in step handlers. Workflow definitions reference these by name;
+   * the generic "prompt" handler lets a definition add LLM stages without code changes.
+   */
+  private createWorkflowEngine(definition: WorkflowDefinition): WorkflowEngine {
+    const engine = new WorkflowEngine(definition);
 
-      } catch (error) {
-        console.log('   ⚠ Using initial design\n');
-      }
+    engine.registerHandler('research', async (ctx) => {
+      const researchAgent = new ResearchOrchestratorAgent(this.client);
+      const researchResults = await researchAgent.executeResearch(ctx.caseStudyText);
+      const successful = researchResults.filter(r => r.status === 'completed').length;
+      console.log(`   ✓ ${successful}/${researchResults.length} research agents completed`);
+      return researchAgent.generateResearchReport(researchResults);
+    });
 
-      // Step 2.5: Visual Diagrams (increased timeout for diagram generation)
-      console.log('🎨 Architecture Diagrams');
-      let visualDiagrams = '';
-      try {
-        visualDiagrams = await Promise.race([
-          visualAgent.generateDetailedDiagram(architecture, caseStudyText, caseStudyFolder),
-          new Promise((_, reject) => setTimeout(() => reject(new Error('timeout')), 60000)) // 60s for diagrams
-        ]) as string;
-        console.log('   ✓ Complete (includes ASCII diagrams)\n');
-      } catch (error) {
-        console.log(`   ⚠ Using fallback (${error.message})\n`);
-        visualDiagrams = `[Visual diagrams unavailable - timeout or error]\n\n${architecture}`;
-      }
+    engine.registerHandler('requirements', (ctx) =>
+      this.analyzeRequirements(ctx.caseStudyText, ctx.values.researchReport));
+
+    engine.registerHandler('architecture-design', (ctx) =>
+      this.designArchitecture(ctx.caseStudyText, ctx.values.requirements, ctx.values.researchReport));
+
+    engine.registerHandler('architecture-refinement', async (ctx, step) => {
+      const refinementOrchestrator = new ArchitectureRefinementOrchestrator(this.client);
+      const refinementResult = await refinementOrchestrator.execute({
+        id: 'architecture-optimization',
+        type: 'architecture-refinement' as const,
+        priority: 'high' as const,
+        payload: {
+          caseStudy: ctx.caseStudyText,
+          requirements: ctx.values.requirements,
+          businessContext: ctx.caseStudyText,
+          targetWAFScore: step.options?.targetWAFScore ?? 85,
+          maxIterations: step.options?.maxIterations ?? 3,
+          caseStudyFolder: ctx.caseStudyFolder,
+          graph: this.graph,
+          policyPack: this.policyPack,
+          signal: ctx.signal
+        }
+      });
+      console.log(`   ✓ WAF Score: ${refinementResult.finalWAFScore}/100 (${refinementResult.totalIterations} iterations)`);
+      return refinementResult.finalArchitecture;
+    });
 
-      await this.saveIntermediateResults('Visual Architecture Diagrams', visualDiagrams, caseStudyFolder);
+    engine.registerHandler('visual-diagrams', (ctx) => {
+      const visualAgent = new VisualArchitectureAgent(this.client);
+      return visualAgent.generateDetailedDiagram(ctx.values.architecture, ctx.caseStudyText, ctx.caseStudyFolder, this.graph);
+    });
 
-      // Step 4: Well-Architected Framework Assessment
-      console.log('🏗️  WAF Assessment');
-      let wafAssessment;
-      try {
-        const wafTask = {
-          id: 'waf-assessment',
-          type: 'waf-comprehensive-assessment' as const,
-          priority: 'high' as const,
-          payload: {
-            architecture,
-            requirements,
-            businessContext: caseStudyText,
-            caseStudyFolder
-          }
-        };
+    engine.registerHandler('waf-assessment', async (ctx) => {
+      const wafOrchestrator = new WellArchitectedOrchestrator(this.client);
+      const wafAssessment = await wafOrchestrator.executeWAFAssessment({
+        id: 'waf-assessment',
+        type: 'waf-comprehensive-assessment' as const,
+        priority: 'high' as const,
+        payload: {
+          architecture: ctx.values.architecture + this.formatGraph(),
+          requirements: ctx.values.requirements,
+          businessContext: ctx.caseStudyText,
+          complianceRequirements: this.artifacts.requirements?.complianceRequirements.join('\n'),
+          caseStudyFolder: ctx.caseStudyFolder,
+          graph: this.graph,
+          policyPack: this.policyPack,
+          signal: ctx.signal
+        }
+      });
+      console.log(`   ✓ Score: ${wafAssessment.overallScore}/100`);
+      return wafAssessment;
+    });
 
-        wafAssessment = await Promise.race([
-          wafOrchestrator.executeWAFAssessment(wafTask),
-          new Promise((_, reject) => setTimeout(() => reject(new Error('timeout')), 180000))
-        ]);
+    // Handlers check their step's signal before writing orchestrator state or
+    // files, so a step abandoned after its timeout leaves the fallback in place
+    engine.registerHandler('cost-analysis', async (ctx) => {
+      if (this.graph) {
+        ctx.signal.throwIfAborted();
+        this.costEstimate = await saveCostEstimate(this.graph, ctx.caseStudyFolder, { currency: this.currency });
+      }
+      if (this.costEstimate) {
+        console.log(`   ✓ Calculated baseline: ${formatCostAmount(this.costEstimate.totals.payg, this.costEstimate.currency)}/month pay-as-you-go (${this.costEstimate.lines.length} priced, ${this.costEstimate.unpriced.length} not priced)`);
+      }
+      const projection = this.costEstimate
+        ? await saveTcoProjection(this.costEstimate, ctx.caseStudyFolder, this.tcoAssumptions)
+        : undefined;
+      const expected = projection?.scenarios.find(scenario => scenario.name === 'expected');
+      if (projection && expected) {
+        console.log(`   ✓ TCO (${projection.years} years, expected): ${formatCostAmount(expected.tco, projection.currency)}, break-even ${expected.breakEvenMonth ? `month ${expected.breakEvenMonth}` : 'not reached'}`);
+      }
 
-        console.log(`   ✓ Score: ${wafAssessment.overallScore}/100\n`);
+      const baseline = this.costEstimate ? formatCostEstimate(this.costEstimate) : undefined;
+      const tcoProjection = projection ? formatTcoProjection(projection) : '';
+      const analysis = await this.analyzeCosts(ctx.values.architecture, baseline, tcoProjection || undefined);
+      ctx.signal.throwIfAborted();
+      // The projection stays out of costs: the report appends it once, as written
+      return {
+        costs: [analysis, baseline].filter(Boolean).join('\n\n'),
+        tcoProjection
+      };
+    });
 
-      } catch (error) {
-        console.log('   ⚠ Using fallback\n');
-        wafAssessment = {
-          overallScore: 70.0,
-          assessmentSummary: 'Assessment unavailable',
-          wafReport: 'WAF assessment in final report'
+    engine.registerHandler('risk-assessment', (ctx) =>
+      this.assessRisks(ctx.values.architecture));
+
+    engine.registerHandler('change-management', (ctx) =>
+      this.developChangeStrategy(ctx.caseStudyText, ctx.values.architecture));
+
+    engine.registerHandler('cost-aware-refinement', async (ctx) => {
+      const costAwareOrchestrator = new CostAwareRefinementOrchestrator(this.client);
+      const refinementResult = await costAwareOrchestrator.execute(
+        ctx.values.architecture,
+        ctx.values.wafAssessment,
+        ctx.values.costs,
+        ctx.values.risks,
+        ctx.caseStudyText,
+        ctx.values.requirements,
+        ctx.caseStudyFolder,
+        { graph: this.graph, policyPack: this.policyPack }
+      );
+
+      // Use refined architecture and diagrams only if improvement achieved
+      if (refinementResult.totalIterations > 0 &&
+          refinementResult.finalSatisfactionScore.overall > 7.0) {
+        console.log(`   ✓ Satisfaction: ${refinementResult.finalSatisfactionScore.overall.toFixed(1)}/10 (${refinementResult.totalIterations} iterations)`);
+        console.log(`      WAF: ${refinementResult.finalSatisfactionScore.waf.toFixed(1)}/10, Cost: ${refinementResult.finalSatisfactionScore.cost.toFixed(1)}/10, Risk: ${refinementResult.finalSatisfactionScore.risk.toFixed(1)}/10`);
+
+        return {
+          architecture: refinementResult.finalArchitecture,
+          visualDiagrams: refinementResult.finalVisualDiagrams || ctx.values.visualDiagrams,
+          refinementReport: `\n## Cost-Aware Refinement Results\n${refinementResult.optimizationSummary}\n\nFinal Satisfaction Score: ${refinementResult.finalSatisfactionScore.overall.toFixed(1)}/10`
         };
       }
-      await this.saveIntermediateResults('Well-Architected Framework Assessment', wafAssessment.wafReport || wafAssessment.assessmentSummary, caseStudyFolder);
-
-      // Step 5: Parallel Analysis with individual timeouts
-      console.log('⚡ Cost, Risk & Change Analysis');
-      let costs, risks, changeManagement;
 
-      try {
-        const timeout = (ms: number) => new Promise((_, reject) =>
-          setTimeout(() => reject(new Error('timeout')), ms)
-        );
-
-        [costs, risks, changeManagement] = await Promise.all([
-          Promise.race([this.analyzeCosts(architecture), timeout(30000)])
-            .catch(err => {
-              console.log('   ⚠ Cost analysis timeout');
-              return '# Cost Analysis\n\n*Analysis unavailable - timeout exceeded*';
-            }),
-          Promise.race([this.assessRisks(architecture), timeout(30000)])
-            .catch(err => {
-              console.log('   ⚠ Risk assessment timeout');
-              return '# Risk Assessment\n\n*Assessment unavailable - timeout exceeded*';
-            }),
-          Promise.race([this.developChangeStrategy(caseStudyText, architecture), timeout(30000)])
-            .catch(err => {
-              console.log('   ⚠ Change strategy timeout');
-              return '# Change Management\n\n*Strategy unavailable - timeout exceeded*';
-            })
-        ]) as [string, string, string];
-
-        console.log('   ✓ Complete\n');
-      } catch (error) {
-        console.log('   ✗ Failed\n');
-        costs = `# Cost Analysis\n\n*Unavailable*`;
-        risks = `# Risk Assessment\n\n*Unavailable*`;
-        changeManagement = `# Change Management\n\n*Unavailable*`;
+      if (refinementResult.convergenceReason === 'Run budget reached') {
+        console.log('   ⚠ Run budget reached - keeping the current architecture');
+        return { refinementReport: `\n## Cost-Aware Refinement Results\nSkipped: the run budget of ${formatUsd(costLedger.getBudget()!)} was reached.` };
       }
 
-      await this.saveIntermediateResults('Cost Analysis', costs, caseStudyFolder);
-      await this.saveIntermediateResults('Risk Assessment', risks, caseStudyFolder);
-      await this.saveIntermediateResults('Change Management Strategy', changeManagement, caseStudyFolder);
+      console.log('   ✓ Initial architecture satisfactory (no refinement needed)');
+      return { refinementReport: '' };
+    });
 
-      // Step 5.5: Cost-Aware Refinement Loop (NEW)
-      console.log('🔄 Cost-Aware Refinement');
-      let finalArchitecture = architecture;
-      let finalVisualDiagrams = visualDiagrams;
-      let refinementReport = '';
+    engine.registerHandler('infrastructure-as-code', async (ctx) => {
+      if (!this.graph) {
+        console.log('   ⚠ No architecture graph available - skipping infrastructure as code');
+        return '';
+      }
+      ctx.signal.throwIfAborted();
+      const infrastructure = await saveInfrastructureAsCode(this.graph, ctx.caseStudyFolder, { target: this.iacTarget });
+      const generated = [infrastructure.bicep && 'Bicep', infrastructure.terraform && 'Terraform'].filter(Boolean).join(' + ');
+      console.log(`   ✓ ${generated}: ${infrastructure.plan.resources.length} services, ${infrastructure.plan.skipped.length} not generated`);
+      return formatInfrastructureReport(infrastructure);
+    });
 
-      try {
-        const costAwareOrchestrator = new CostAwareRefinementOrchestrator(this.client);
-
-        const refinementResult = await costAwareOrchestrator.execute(
-          architecture,
-          wafAssessment,
-          costs,
-          risks,
-          caseStudyText,
-          requirements,
-          caseStudyFolder
-        );
-
-        // Use refined architecture and diagrams if improvement achieved
-        if (refinementResult.totalIterations > 0 &&
-            refinementResult.finalSatisfactionScore.overall > 7.0) {
-          finalArchitecture = refinementResult.finalArchitecture;
-          finalVisualDiagrams = refinementResult.finalVisualDiagrams || visualDiagrams;
-
-          console.log(`   ✓ Satisfaction: ${refinementResult.finalSatisfactionScore.overall.toFixed(1)}/10 (${refinementResult.totalIterations} iterations)`);
-          console.log(`      WAF: ${refinementResult.finalSatisfactionScore.waf.toFixed(1)}/10, Cost: ${refinementResult.finalSatisfactionScore.cost.toFixed(1)}/10, Risk: ${refinementResult.finalSatisfactionScore.risk.toFixed(1)}/10\n`);
-
-          refinementReport = `\n## Cost-Aware Refinement Results\n${refinementResult.optimizationSummary}\n\nFinal Satisfaction Score: ${refinementResult.finalSatisfactionScore.overall.toFixed(1)}/10`;
-        } else {
-          console.log(`   ✓ Initial architecture satisfactory (no refinement needed)\n`);
+    engine.registerHandler('finops', async (ctx) => {
+      if (!this.graph) {
+        console.log('   ⚠ No architecture graph available - skipping FinOps tagging and chargeback');
+        return '';
+      }
+      // A resumed run restores the cost analysis without its estimate
+      let estimate = this.costEstimate;
+      if (!estimate) {
+        try {
+          estimate = estimateArchitectureCosts(this.graph, { currency: this.currency });
+        } catch {
+          // Charged back from the costs on the graph instead
         }
+      }
+      ctx.signal.throwIfAborted();
+      const finops = await saveFinops(this.graph, ctx.caseStudyFolder, {
+        estimate,
+        regulated: (this.artifacts.requirements?.complianceRequirements.length ?? 0) > 0
+      });
+      if (!finops) return '';
+      console.log(`   ✓ ${finops.taxonomy.tags.filter(tag => tag.required).length} required tags, ${finops.chargeback.units.length} cost centers, ${finops.policies.definitions.length} tag policies`);
+      return formatFinopsReport(finops);
+    });
 
-      } catch (error) {
-        console.log(`   ⚠ Refinement loop skipped (${error instanceof Error ? error.message : 'error'})\n`);
-        refinementReport = '\n## Cost-Aware Refinement\n*Refinement loop skipped - using initial architecture*';
+    engine.registerHandler('cost-reconciliation', async (ctx) => {
+      if (!this.graph) {
+        console.log('   ⚠ No architecture graph available - skipping cost reconciliation');
+        return { costConsistency: '' };
       }
+      // The sections as they reach the documentation step, after cost-aware refinement
+      const sections: ReportSection[] = [
+        { key: 'architecture', title: 'Architecture', text: ctx.values.architecture },
+        { key: 'visualDiagrams', title: 'Diagrams', text: ctx.values.visualDiagrams },
+        { key: 'costs', title: 'Cost analysis', text: ctx.values.costs },
+        { key: 'refinementReport', title: 'Refinement', text: ctx.values.refinementReport }
+      ].filter(section => typeof section.text === 'string' && section.text.length > 0);
+
+      const report = reconcileCostClaims(this.graph, sections, { currency: this.currency ?? this.costEstimate?.currency });
+      ctx.signal.throwIfAborted();
+      if (ctx.caseStudyFolder) await saveCostConsistency(report, ctx.caseStudyFolder);
+      const rewritten = report.inconsistencies.filter(inconsistency => inconsistency.rewritten).length;
+      console.log(`   ✓ ${report.claims.length} cost claims, ${report.inconsistencies.length} inconsistent${rewritten > 0 ? `, ${rewritten} rewritten` : ''}`);
+      return { ...report.rewritten, costConsistency: formatCostConsistency(report) };
+    });
 
-      // Update architecture and diagrams with refined versions
-      architecture = finalArchitecture;
-      visualDiagrams = finalVisualDiagrams;
+    engine.registerHandler('documentation', async (ctx) => {
+      const report = await this.generateReport(ctx.caseStudyText, {
+        researchReport: ctx.values.researchReport,
+        requirements: ctx.values.requirements,
+        architecture: ctx.values.architecture,
+        visualDiagrams: ctx.values.visualDiagrams,
+        wafAssessment: ctx.values.wafAssessment,
+        costs: ctx.values.costs,
+        risks: ctx.values.risks,
+        changeManagement: ctx.values.changeManagement,
+        refinementReport: ctx.values.refinementReport,
+        costConsistency: ctx.values.costConsistency,
+        artifacts: this.artifacts
+      });
+      // Appended as written so the calculated and reconciled figures are not paraphrased
+      return [report, ctx.values.tcoProjection, ctx.values.costConsistency].filter(Boolean).join('\n\n');
+    });
 
-      // Step 6: Generate Documentation
-      console.log('📝 Documentation');
-      let report;
-      try {
-        report = await Promise.race([
-          this.generateReport(caseStudyText, {
-            researchReport,
-            requirements,
-            architecture,
-            visualDiagrams,
-            wafAssessment,
-            costs,
-            risks,
-            changeManagement,
-            refinementReport
-          }),
-          new Promise((_, reject) => setTimeout(() => reject(new Error('timeout')), 30000))
-        ]);
-        console.log('   ✓ Complete\n');
-      } catch (error) {
-        console.log('   ⚠ Using fallback\n');
-        report = `# Azure Architecture Analysis\n\n${caseStudyText}\n\n## Requirements\n${requirements}\n\n## Architecture\n${architecture}\n\n${refinementReport}\n\n## Diagrams\n${visualDiagrams}\n\n## Cost\n${costs}\n\n## Risk\n${risks}\n\n## Change\n${changeManagement}`;
+    engine.registerHandler('prompt', async (ctx, step) => {
+      const prompt = step.options || {};
+      if (!prompt.user) {
+        throw new Error(`Step "${step.id}" uses the prompt handler without options.user`);
       }
+      const response = await this.client.chat.completions.create({
+        model: config.getAzureConfig().foundry.modelDeploymentName,
+        messages: [
+          ...(prompt.system ? [{ role: 'system' as const, content: interpolate(prompt.system, ctx) }] : []),
+          { role: 'user' as const, content: interpolate(prompt.user, ctx) }
+        ],
+        max_tokens: prompt.maxTokens ?? 1000,
+        temperature: prompt.temperature ?? 0.2
+      });
+      return response.choices[0]?.message?.content || '';
+    });
 
-      console.log('✅ Analysis complete\n');
-      return report;
-      
-    } catch (error) {
-      console.error('❌ Orchestration failed:', error);
-      return `Analysis failed: ${error instanceof Error ? error.message : String(error)}`;
+    return engine;
+  }
+
+  /**
+   * Persist the step's report and refresh its typed artifact before dependents start
+   */
+  private async handleStepComplete(step: WorkflowStepDefinition, result: StepResult, context: WorkflowContext): Promise<void> {
+    if (result.status === 'skipped' || result.status === 'failed') return;
+
+    const reportKey = step.report === undefined ? outputKeys(step)[0] : step.report;
+    if (reportKey) {
+      const value = context.values[reportKey];
+      const content = typeof value === 'string'
+        ? value
+        : value?.wafReport || value?.assessmentSummary || JSON.stringify(value ?? '', null, 2);
+      await this.saveIntermediateResults(step.name, content, context.caseStudyFolder);
+    }
+
+    if (step.artifact) {
+      const markdown = context.values[ARTIFACT_SOURCE_KEYS[step.artifact]];
+      // Skip re-extraction when a refinement step left its input unchanged
+      if (typeof markdown === 'string' && this.extractedSources.get(step.artifact) !== markdown) {
+        this.extractedSources.set(step.artifact, markdown);
+        await telemetry.runInScope({ agent: 'artifact-extraction' }, () =>
+          this.extractArtifact(step.artifact!, markdown, context.caseStudyFolder));
+      }
     }
   }
 
@@ -393,7 +594,50 @@ Focus on comprehensive visual diagrams with practical, interview-ready architect
     return response.choices[0]?.message?.content || 'Architecture design failed';
   }
 
-  private async analyzeCosts(architecture: string): Promise<string> {
+  /**
+   * Extract a typed artifact from a step's markdown and keep it for downstream steps
+   */
+  private async extractArtifact<K extends ArtifactKind>(kind: K, markdown: string, caseStudyFolder?: string): Promise<void> {
+    try {
+      const result = await this.artifactExtractor.extract(kind, markdown);
+      if (result.artifact) {
+        (this.artifacts as ArtifactMap)[kind] = result.artifact;
+        await saveArtifact(kind, result.artifact, caseStudyFolder);
+        console.log(`   ✓ ${kind} artifact validated${result.attempts > 1 ? ` (repaired after ${result.attempts} attempts)` : ''}`);
+      } else {
+        delete this.artifacts[kind];
+        console.log(`   ⚠ ${kind} artifact failed validation: ${result.errors[0] || 'unknown error'}`);
+      }
+      if (kind === 'architecture' || kind === 'cost') {
+        await this.refreshGraph(caseStudyFolder);
+      }
+    } catch (error) {
+      console.log(`   ⚠ ${kind} artifact extraction failed (${error instanceof Error ? error.message : error})`);
+    }
+  }
+
+  /**
+   * Rebuild the architecture graph from the current architecture and cost artifacts
+   */
+  private async refreshGraph(caseStudyFolder?: string): Promise<void> {
+    if (!this.artifacts.architecture) {
+      this.graph = undefined;
+      return;
+    }
+    this.graph = buildArchitectureGraph(this.artifacts.architecture, this.artifacts.cost, {
+      exchangeRates: loadExchangeRates(config.get().cost.pricingCatalog)
+    });
+    await saveArchitectureGraph(this.graph, caseStudyFolder);
+  }
+
+  /**
+   * Render the architecture graph for prompts so downstream steps work from the same inventory
+   */
+  private formatGraph(): string {
+    return this.graph ? `\n\n${formatGraphForPrompt(this.graph)}` : '';
+  }
+
+  private async analyzeCosts(architecture: string, baseline?: string, tcoProjection?: string): Promise<string> {
     const response = await this.client.chat.completions.create({
       model: config.getAzureConfig().foundry.modelDeploymentName,
       messages: [
@@ -404,15 +648,17 @@ Focus on comprehensive visual diagrams with practical, interview-ready architect
 Provide concise cost analysis:
 1. Monthly/annual cost estimates for each major service
 2. Reserved instance savings opportunities (up to 72%)
-3. 3-year TCO projection
+3. ${tcoProjection ? 'Commentary on the provided TCO projection: drivers of the break-even and the scenario spread (do not recompute it)' : '3-year TCO projection'}
 4. ROI based on business value
 5. Quick wins for cost reduction
 
-Format: Service name, SKU, monthly cost, optimization tip.`
+Format: Service name, SKU, monthly cost, optimization tip.${baseline ? `
+
+A calculated cost baseline from the offline pricing catalog is provided. Use its figures and currency for every service it prices; do not invent different amounts. Estimate only the services it lists as not priced.` : ''}`
         },
         {
           role: 'user',
-          content: `Analyze costs:\n\n${architecture}`
+          content: `Analyze costs:\n\n${architecture}${this.formatGraph()}${baseline ? `\n\n${baseline}` : ''}${tcoProjection ? `\n\n${tcoProjection}` : ''}`
         }
       ],
       max_tokens: 800,
@@ -441,7 +687,7 @@ Format: Risk name, Impact (H/M/L), Probability (H/M/L), Mitigation.`
         },
         {
           role: 'user',
-          content: `Assess risks:\n\n${architecture}`
+          content: `Assess risks:\n\n${architecture}${this.formatGraph()}`
         }
       ],
       max_tokens: 600,
@@ -534,44 +780,27 @@ Create a comprehensive report that includes all visual diagrams, Well-Architecte
     return response.choices[0]?.message?.content || 'Report generation failed';
   }
 
-  getMetrics() {
-    // Return metrics for all agents used in the workflow
-    return {
-      'research-orchestrator': { tasksCompleted: 1, averageResponseTime: 45000, errorRate: 0, status: 'healthy' },
-      'research-infrastructure': { tasksCompleted: 1, averageResponseTime: 8000, errorRate: 0, status: 'healthy' },
-      'research-ai-ml': { tasksCompleted: 1, averageResponseTime: 8000, errorRate: 0, status: 'healthy' },
-      'research-case-studies': { tasksCompleted: 1, averageResponseTime: 8000, errorRate: 0, status: 'healthy' },
-      'research-compliance': { tasksCompleted: 1, averageResponseTime: 8000, errorRate: 0, status: 'healthy' },
-      'research-industry': { tasksCompleted: 1, averageResponseTime: 8000, errorRate: 0, status: 'healthy' },
-      'research-architecture': { tasksCompleted: 1, averageResponseTime: 8000, errorRate: 0, status: 'healthy' },
-      'requirements-analyzer': { tasksCompleted: 1, averageResponseTime: 5000, errorRate: 0, status: 'healthy' },
-      'architecture-designer': { tasksCompleted: 1, averageResponseTime: 12000, errorRate: 0, status: 'healthy' },
-      'waf-orchestrator': { tasksCompleted: 1, averageResponseTime: 30000, errorRate: 0, status: 'healthy' },
-      'waf-reliability': { tasksCompleted: 1, averageResponseTime: 6000, errorRate: 0, status: 'healthy' },
-      'waf-security': { tasksCompleted: 1, averageResponseTime: 6000, errorRate: 0, status: 'healthy' },
-      'waf-performance': { tasksCompleted: 1, averageResponseTime: 6000, errorRate: 0, status: 'healthy' },
-      'waf-operational': { tasksCompleted: 1, averageResponseTime: 6000, errorRate: 0, status: 'healthy' },
-      'waf-cost': { tasksCompleted: 1, averageResponseTime: 6000, errorRate: 0, status: 'healthy' },
-      'visual-architecture': { tasksCompleted: 1, averageResponseTime: 15000, errorRate: 0, status: 'healthy' },
-      'cost-analyzer': { tasksCompleted: 1, averageResponseTime: 8000, errorRate: 0, status: 'healthy' },
-      'risk-assessor': { tasksCompleted: 1, averageResponseTime: 8000, errorRate: 0, status: 'healthy' },
-      'change-management': { tasksCompleted: 1, averageResponseTime: 8000, errorRate: 0, status: 'healthy' },
-      'cost-aware-refinement': { tasksCompleted: 1, averageResponseTime: 20000, errorRate: 0, status: 'healthy' },
-      orchestrator: { tasksCompleted: 1, averageResponseTime: 1000, errorRate: 0, status: 'healthy' }
-    };
+  /**
+   * Measured per-agent metrics for the last coordinate() run
+   */
+  getMetrics(): Record<string, AgentTelemetry> {
+    return telemetry.getAgentMetrics();
+  }
+
+  getHealth(): TelemetryHealth {
+    return telemetry.getHealth();
   }
 
-  getHealth() {
-    return {
-      totalAgents: 20,
-      tasksCompleted: 20,
-      averageResponseTime: 8500,
-      errorRate: 0,
-      status: 'healthy'
-    };
+  getTelemetry(): TelemetrySnapshot {
+    return telemetry.snapshot();
   }
 
-  // Phase 2 Structurizr DSL functionality removed - using ASCII diagrams only
+  /**
+   * LLM spend of the last coordinate() run, per step, agent and model
+   */
+  getRunCost(): CostLedgerSummary {
+    return costLedger.summarize();
+  }
 
   /**
    * Save intermediate results with streaming for large content
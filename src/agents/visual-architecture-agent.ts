@@ -1,21 +1,43 @@
 /**
  * Visual Architecture Agent
- * Specialized in creating detailed ASCII architecture diagrams for Azure solutions
+ * Specialized in creating detailed ASCII architecture diagrams for Azure solutions.
+ * Diagrams are linted and repaired before they are saved.
  */
 
 import OpenAI from 'openai';
 import config from '../config/config.js';
 import { promises as fs } from 'fs';
 import path from 'path';
+import { ArchitectureGraph, formatGraphForPrompt } from '../core/architecture-graph.js';
+import { telemetry } from '../core/telemetry.js';
+import {
+  ASCII_MAX_WIDTH,
+  AsciiDefect,
+  AsciiRepairResult,
+  formatAsciiDefects,
+  lintAsciiDiagrams,
+  repairAsciiDiagrams
+} from '../diagrams/ascii-diagram-linter.js';
+import { DRAWIO_FILE, GeneratedDiagrams, PNG_FILE, STRUCTURIZR_FILE, SVG_FILE, generateGraphDiagrams, saveGraphDiagrams } from '../diagrams/diagram-writer.js';
+
+export interface AsciiLintReport {
+  diagrams: number;
+  defectsFound: number;
+  autoFixed: number;
+  repairPrompts: number;
+  remaining: AsciiDefect[];
+}
 
 export class VisualArchitectureAgent {
   private client: OpenAI;
+  private maxRepairAttempts: number;
 
-  constructor(client: OpenAI) {
+  constructor(client: OpenAI, maxRepairAttempts: number = 1) {
     this.client = client;
+    this.maxRepairAttempts = maxRepairAttempts;
   }
 
-  async generateDetailedDiagram(architecture: string, caseStudyText: string, caseStudyFolder?: string): Promise<string> {
+  async generateDetailedDiagram(architecture: string, caseStudyText: string, caseStudyFolder?: string, graph?: ArchitectureGraph): Promise<string> {
     try {
     const systemPrompt = `You are an expert Visual Architecture Designer specializing in ASCII diagrams for Azure solutions.
 
@@ -37,29 +59,29 @@ ASCII DIAGRAM REQUIREMENTS:
 8. **Integration Points**: Highlight APIs, connectors, and data pipelines
 
 DIAGRAM STRUCTURE TEMPLATE:
-┌─────────────────────────────────────────────────────────────────────────────────────┐
-│                           [SOLUTION NAME] ARCHITECTURE                              │
-├─────────────────────────────────────────────────────────────────────────────────────┤
-│  ON-PREMISES                    │              AZURE CLOUD (Region)                  │
-│  [════════════════════════════] │ [══════════════════════════════════════════════] │
-│                                 │                                                   │
-│  [External Users] ○             │                                                   │
-│         │                       │                                                   │
-│  ┌─────────────────┐           │    ┌─────────────────┐    ┌─────────────────┐    │
-│  │   Legacy        │           │    │   Azure         │    │   Service       │    │
-│  │   System        │◄──────────┼───►│   Gateway       │◄──►│   (SKU: xxx)   │    │
-│  │   (PACS/ERP)    │           │    │   (Standard)    │    │   $xxx/month    │    │
-│  │                 │           │    │   $xxx/month    │    │                 │    │
-│  └─────────────────┘           │    └─────────────────┘    └─────────────────┘    │
-│         │                       │           │                       │               │
-│         ▼                       │           ▼                       ▼               │
-│  ┌─────────────────┐           │    ┌─────────────────┐    ┌─────────────────┐    │
-│  │   Edge Device   │           │    │   Data Store    │    │   AI Service    │    │
-│  │   Stack Edge    │           │    │   (SKU: xxx)    │    │   (SKU: xxx)    │    │
-│  │   GPU Pro       │           │    │   $xxx/month    │    │   $xxx/month    │    │
-│  │   $xxx/month    │           │    │                 │    │                 │    │
-│  └─────────────────┘           │    └─────────────────┘    └─────────────────┘    │
-└─────────────────────────────────────────────────────────────────────────────────────┘
+┌───────────────────────────────────────────────────────────────────────────────────┐
+│                           [SOLUTION NAME] ARCHITECTURE                            │
+├───────────────────────────────────────────────────────────────────────────────────┤
+│  ON-PREMISES                    │              AZURE CLOUD (Region)               │
+│  [════════════════════════════] │ [═════════════════════════════════════════════] │
+│                                 │                                                 │
+│  [External Users] ○             │                                                 │
+│         │                       │                                                 │
+│  ┌─────────────────┐            │   ┌─────────────────┐    ┌─────────────────┐    │
+│  │   Legacy        │            │   │   Azure         │    │   Service       │    │
+│  │   System        │◄───────────┼──►│   Gateway       │◄──►│   (SKU: xxx)    │    │
+│  │   (PACS/ERP)    │            │   │   (Standard)    │    │   $xxx/month    │    │
+│  │                 │            │   │   $xxx/month    │    │                 │    │
+│  └─────────────────┘            │   └─────────────────┘    └─────────────────┘    │
+│         │                       │           │                       │             │
+│         ▼                       │           ▼                       ▼             │
+│  ┌─────────────────┐            │   ┌─────────────────┐    ┌─────────────────┐    │
+│  │   Edge Device   │            │   │   Data Store    │    │   AI Service    │    │
+│  │   Stack Edge    │            │   │   (SKU: xxx)    │    │   (SKU: xxx)    │    │
+│  │   GPU Pro       │            │   │   $xxx/month    │    │   $xxx/month    │    │
+│  │   $xxx/month    │            │   │                 │    │                 │    │
+│  └─────────────────┘            │   └─────────────────┘    └─────────────────┘    │
+└───────────────────────────────────────────────────────────────────────────────────┘
 
 ADDITIONAL REQUIREMENTS:
 - Include specific Azure service SKUs (e.g., "Azure ML Standard_DS3_v2")
@@ -87,9 +109,7 @@ EXAMPLE FORMAT:
 
 OUTPUT: Create comprehensive ASCII architecture diagrams with detailed service specifications and cost breakdowns.`;
 
-    const response = await this.client.chat.completions.create({
-      model: config.getAzureConfig().foundry.modelDeploymentName,
-      messages: [
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
         { role: 'system', content: systemPrompt },
         { 
           role: 'user', 
@@ -100,7 +120,7 @@ ${caseStudyText}
 
 ARCHITECTURE DESIGN:
 ${architecture}
-
+${graph ? `\n${formatGraphForPrompt(graph)}\n\nDraw exactly the nodes, flows and groups of this graph: one box per node (name, SKU, monthly cost), one arrow per flow in its direction, one [════] boundary per group.\n` : ''}
 CRITICAL: Create ONLY ASCII art diagrams using the template format above.
 
 MANDATORY REQUIREMENTS:
@@ -116,24 +136,136 @@ Create 2-3 detailed ASCII diagrams:
 2. **DATA FLOW** - How information moves through the system
 3. **SECURITY ZONES** - Access patterns and security boundaries` 
         }
-      ],
+    ];
+
+    const response = await this.client.chat.completions.create({
+      model: config.getAzureConfig().foundry.modelDeploymentName,
+      messages,
       max_tokens: 4000,
       temperature: 0.3
     });
 
-    const diagrams = response.choices[0]?.message?.content || 'Visual diagram generation failed';
+    const { diagrams, report } = await this.lintAndRepair(response.choices[0]?.message?.content || 'Visual diagram generation failed', messages);
     
     // Save ASCII diagrams to separate file in case study folder
-    if (caseStudyFolder && diagrams.includes('┌')) {
+    if (caseStudyFolder && report.diagrams > 0) {
       await this.saveAsciiDiagrams(diagrams, caseStudyFolder);
     }
     
-    return diagrams;
+    return diagrams + this.lintSection(report) + await this.graphDiagramSection(graph, caseStudyFolder);
     
     } catch (error) {
       console.error('❌ Visual diagram generation failed:', error);
-      return `Visual diagram generation failed: ${error.message}\n\n[PLACEHOLDER: ASCII diagram would be generated here]`;
+      return `Visual diagram generation failed: ${error.message}\n\n[PLACEHOLDER: ASCII diagram would be generated here]`
+        + await this.graphDiagramSection(graph, caseStudyFolder);
+    }
+  }
+
+  /**
+   * Apply the linter's mechanical fixes, then send the defects that are left back
+   * to the model with their exact positions. A repaired answer is only kept when
+   * it still has diagrams and fewer defects.
+   */
+  private async lintAndRepair(
+    text: string,
+    messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[]
+  ): Promise<{ diagrams: string; report: AsciiLintReport }> {
+    const initial = lintAsciiDiagrams(text);
+    let current: AsciiRepairResult = repairAsciiDiagrams(text);
+    const report: AsciiLintReport = {
+      diagrams: initial.diagrams,
+      defectsFound: initial.defects.length,
+      autoFixed: current.fixed.length,
+      repairPrompts: 0,
+      remaining: current.remaining
+    };
+
+    for (let attempt = 1; attempt <= this.maxRepairAttempts && initial.diagrams > 0 && current.remaining.length > 0; attempt++) {
+      telemetry.recordRetry();
+      report.repairPrompts++;
+      let candidate = '';
+      try {
+        const response = await this.client.chat.completions.create({
+          model: config.getAzureConfig().foundry.modelDeploymentName,
+          messages: [
+            ...messages,
+            { role: 'assistant', content: current.text },
+            {
+              role: 'user',
+              content: `Your ASCII diagrams have these defects (line and column numbers refer to your previous answer):
+${formatAsciiDefects(current.remaining)}
+
+Fix exactly these defects: every box closed with matching ┌ ┐ └ ┘ corners, walls in the same column on every line, every arrow connected to a line and pointing at a box or label, every [════] boundary closed, and no line wider than ${ASCII_MAX_WIDTH} characters.
+Return the complete corrected answer, otherwise unchanged.`
+            }
+          ],
+          max_tokens: 4000,
+          temperature: 0
+        });
+        candidate = response.choices[0]?.message?.content || '';
+      } catch (error) {
+        console.warn('⚠️ ASCII diagram repair request failed:', error instanceof Error ? error.message : error);
+        break;
+      }
+
+      const repaired = repairAsciiDiagrams(candidate);
+      const diagramCount = lintAsciiDiagrams(repaired.text).diagrams;
+      if (diagramCount === 0 || repaired.remaining.length >= current.remaining.length) break;
+      report.diagrams = diagramCount;
+      report.autoFixed += repaired.fixed.length;
+      current = repaired;
+      report.remaining = repaired.remaining;
+    }
+
+    if (report.defectsFound > 0) {
+      console.log(`   ✓ ASCII diagrams linted: ${report.defectsFound} defects, ${report.remaining.length} remaining`);
+    }
+    return { diagrams: current.text, report };
+  }
+
+  /**
+   * Lint summary appended to the agent report
+   */
+  private lintSection(report: AsciiLintReport): string {
+    if (report.diagrams === 0) {
+      return '\n\n## ASCII Diagram Lint\n\n⚠️ No box diagrams found in the response.';
     }
+
+    const lines = [
+      '',
+      '',
+      '## ASCII Diagram Lint',
+      '',
+      `- Diagrams checked: ${report.diagrams}`,
+      `- Defects found: ${report.defectsFound}`,
+      `- Fixed automatically: ${report.autoFixed}`,
+      `- Repair prompts sent: ${report.repairPrompts}`,
+      `- Remaining defects: ${report.remaining.length}${report.remaining.length === 0 ? ' ✅' : ''}`
+    ];
+    if (report.remaining.length > 0) {
+      lines.push('', 'Line numbers refer to the diagrams above:', formatAsciiDefects(report.remaining));
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Mermaid, Structurizr C4, SVG and draw.io diagrams generated from the architecture graph
+   * (no LLM call), saved next to the ASCII files and appended to the report
+   */
+  private async graphDiagramSection(graph?: ArchitectureGraph, caseStudyFolder?: string): Promise<string> {
+    if (!graph) return '';
+
+    const generated: GeneratedDiagrams = caseStudyFolder
+      ? await saveGraphDiagrams(graph, caseStudyFolder)
+      : generateGraphDiagrams(graph);
+
+    const c4 = generated.structurizrErrors.length === 0
+      ? `\n\nStructurizr C4 workspace (system context, container and deployment views): \`${STRUCTURIZR_FILE}\``
+      : '';
+    const rendered = caseStudyFolder
+      ? `\n\nRendered diagram with Azure icons: \`${SVG_FILE}\`${generated.png ? ` and \`${PNG_FILE}\`` : ''} (editable in draw.io: \`${DRAWIO_FILE}\`)`
+      : '';
+    return `\n\n## Architecture Flowchart\n\n\`\`\`mermaid\n${generated.mermaid}\n\`\`\`${c4}${rendered}`;
   }
 
   /**
@@ -0,0 +1,321 @@
+/**
+ * Well-Architected Cost Optimization Agent
+ * Specialized agent for Azure Well-Architected Framework Cost Optimization pillar
+ * Focus: Cost model, spending guardrails, rate and usage optimization (CO:01 - CO:14)
+ */
+
+import OpenAI from 'openai';
+import config from '../config/config.js';
+import { AgentTask, BaseAgent } from './base-agent.js';
+import { telemetry } from '../core/telemetry.js';
+import { PolicyPackItem } from '../waf/policy-pack.js';
+import { promises as fs } from 'fs';
+import { existsSync } from 'fs';
+
+interface CostOptimizationTask {
+  id: string;
+  type: 'cost-optimization-assessment';
+  priority: 'high' | 'medium' | 'low';
+  payload: {
+    architecture: string;
+    requirements: string;
+    budgetConstraints?: string;
+    // Organisational policy pack items, assessed and scored like the CO items
+    policyItems?: PolicyPackItem[];
+  };
+}
+
+interface CostChecklistItem {
+  id: string;
+  title: string;
+  description: string;
+  keyFocus?: string[];
+}
+
+export type CostChecklistStatus = 'met' | 'partial' | 'gap' | 'not-applicable';
+
+export interface CostOptimizationFinding {
+  checklistId: string; // e.g. "CO:05", or a policy pack item such as "FS:02"
+  title: string;
+  status: CostChecklistStatus;
+  finding: string;
+  recommendation: string;
+}
+
+export interface CostOptimizationResult {
+  costOptimizationScore?: number; // 0-100, from the checklist statuses; unset when no item was assessed
+  checklistFindings: CostOptimizationFinding[];
+  checklistCoverage: number; // Share of CO (and policy pack) items the assessment addressed, 0-100
+  keyFindings: string[];
+  recommendations: string[];
+  azureServices: string[];
+  wellArchitectedCompliance: string;
+  criticalIssues: string[];
+}
+
+const KNOWLEDGE_PATH = 'waf-knowledge-base/cost-optimization-knowledge.json';
+
+// Credit per status; not-applicable items are left out of the score
+const STATUS_CREDIT: Record<Exclude<CostChecklistStatus, 'not-applicable'>, number> = { met: 1, partial: 0.5, gap: 0 };
+
+// "| CO:05 | Partial | finding | recommendation |", as requested in the prompt
+const FINDING_ROW = /^\|?\s*\**([A-Z]{2,6}:\d{2})\**\s*\|\s*\**(met|partial|gap|n\/a|not applicable)\**\s*\|([^|]+)\|([^|]+)\|?\s*$/i;
+
+/**
+ * One row of the checklist table; the title is left to the caller
+ */
+export function parseFindingRow(line: string): Omit<CostOptimizationFinding, 'title'> | undefined {
+  const match = line.trim().match(FINDING_ROW);
+  if (!match) return undefined;
+  const status = match[2].toLowerCase();
+  return {
+    checklistId: match[1],
+    status: status === 'n/a' || status === 'not applicable' ? 'not-applicable' : status as CostChecklistStatus,
+    finding: match[3].trim(),
+    recommendation: match[4].trim().replace(/^[-–]$/, '')
+  };
+}
+
+/**
+ * Share of credit over the applicable items, 0-100; undefined when none applies
+ */
+export function scoreChecklistFindings(findings: CostOptimizationFinding[]): number | undefined {
+  const scored = findings.filter(finding => finding.status !== 'not-applicable');
+  if (scored.length === 0) return undefined;
+  const credit = scored.reduce((total, finding) => total + STATUS_CREDIT[finding.status as keyof typeof STATUS_CREDIT], 0);
+  return Math.round(credit / scored.length * 100);
+}
+
+export class WellArchitectedCostOptimizationAgent extends BaseAgent {
+  private checklist: CostChecklistItem[] = [];
+  private knowledgeLoaded: Promise<void>;
+
+  constructor(client: OpenAI) {
+    super(client);
+    this.knowledgeLoaded = this.loadWAFKnowledge();
+  }
+
+  /**
+   * Load official Microsoft WAF Cost Optimization knowledge base
+   */
+  private async loadWAFKnowledge(): Promise<void> {
+    try {
+      if (existsSync(KNOWLEDGE_PATH)) {
+        const knowledgeData = await fs.readFile(KNOWLEDGE_PATH, 'utf8');
+        this.checklist = JSON.parse(knowledgeData).checklistItems ?? [];
+        console.log(`💰 Cost Optimization Agent: Loaded official Microsoft WAF knowledge (${this.checklist.length} checklist items)`);
+      } else {
+        console.warn('⚠️ Cost Optimization Agent: WAF knowledge base not found - any CO item ID is accepted');
+      }
+    } catch (error) {
+      console.warn('⚠️ Cost Optimization Agent: Could not load WAF knowledge base:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  async execute(task: CostOptimizationTask): Promise<CostOptimizationResult> {
+    try {
+      await this.knowledgeLoaded;
+      console.log('💰 Analyzing cost optimization with WAF principles...');
+
+      const checklist = [...this.checklist, ...(task.payload.policyItems ?? [])];
+      const costAnalysis = await this.assessCostOptimization(
+        task.payload.architecture,
+        task.payload.requirements,
+        task.payload.budgetConstraints,
+        task.payload.policyItems
+      );
+
+      const result = this.parseCostAnalysis(costAnalysis, checklist);
+
+      console.log(`✅ Cost optimization assessment complete - Score: ${result.costOptimizationScore !== undefined ? `${result.costOptimizationScore}/100` : 'unavailable'} (${result.checklistCoverage}% of checklist assessed)`);
+      return result;
+
+    } catch (error) {
+      console.error('❌ Cost optimization assessment failed:', error);
+      telemetry.recordFallback();
+      return this.getCostOptimizationFallback();
+    }
+  }
+
+  protected async processTask(task: AgentTask): Promise<CostOptimizationResult> {
+    return this.execute(task as CostOptimizationTask);
+  }
+
+  protected getSystemPrompt(policyItems: PolicyPackItem[] = []): string {
+    const checklist = (this.checklist.length > 0
+      ? this.checklist.map(item => `- **${item.id} ${item.title}**: ${item.description}`).join('\n')
+      : '- CO:01 - CO:14 of the Microsoft Azure Well-Architected Framework Cost Optimization checklist') +
+      (policyItems.length > 0
+        ? `\n\n**ORGANISATIONAL POLICY ITEMS (assess like the official items):**\n${policyItems.map(item => `- **${item.id} ${item.title}**: ${item.description}`).join('\n')}`
+        : '');
+
+    return `You are a Well-Architected Cost Optimization Agent specializing in the Azure Well-Architected Framework Cost Optimization pillar.
+
+**OFFICIAL WAF COST OPTIMIZATION CHECKLIST:**
+${checklist}
+
+**ASSESSMENT INSTRUCTIONS:**
+1. Evaluate the architecture against every checklist item above
+2. Judge each item from what the architecture and requirements actually state, not from what a typical deployment would do
+3. Mark an item Met when the design addresses it, Partial when it is addressed incompletely, Gap when it is missing, N/A when it does not apply
+4. Recommend concrete Azure pricing models, tiers and services (reservations, savings plans, Azure Hybrid Benefit, autoscale, storage tiering, Cost Management budgets)
+5. Name the gaps that risk uncontrolled spend as critical issues
+
+**OUTPUT FORMAT:**
+Start with a markdown table with exactly one row per checklist item:
+
+| Item | Status | Finding | Recommendation |
+|------|--------|---------|----------------|
+| CO:01 | Met / Partial / Gap / N/A | What the architecture does | What to change |
+
+Then list:
+- **Critical Issues:** bullet points
+- **Azure Services:** the cost management and optimization services to use
+- **Well-Architected Cost Optimization:** one sentence on overall pillar alignment`;
+  }
+
+  private async assessCostOptimization(
+    architecture: string,
+    requirements: string,
+    budgetConstraints?: string,
+    policyItems?: PolicyPackItem[]
+  ): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: config.getAzureConfig().foundry.modelDeploymentName,
+      messages: [
+        { role: 'system', content: this.getSystemPrompt(policyItems) },
+        {
+          role: 'user',
+          content: `Conduct a cost optimization assessment following the Azure Well-Architected Framework:
+
+**Architecture:**
+${architecture}
+
+**Requirements:**
+${requirements}
+
+${budgetConstraints ? `**Budget Constraints:**\n${budgetConstraints}\n` : ''}
+Assess every checklist item${policyItems?.length ? ' and organisational policy item' : ''} in the table format.`
+        }
+      ],
+      max_tokens: 2000,
+      temperature: 0.1
+    });
+
+    return response.choices[0]?.message?.content || 'Cost optimization assessment failed';
+  }
+
+  private parseCostAnalysis(analysis: string, checklist: CostChecklistItem[]): CostOptimizationResult {
+    const checklistFindings = this.extractChecklistFindings(analysis, checklist);
+
+    const gaps = checklistFindings.filter(finding => finding.status === 'gap');
+    const partial = checklistFindings.filter(finding => finding.status === 'partial');
+    const keyFindings = [...gaps, ...partial, ...checklistFindings.filter(finding => finding.status === 'met')]
+      .map(finding => `${finding.checklistId} ${finding.title} (${finding.status}): ${finding.finding}`);
+    const recommendations = [...gaps, ...partial]
+      .filter(finding => finding.recommendation)
+      .map(finding => `${finding.checklistId}: ${finding.recommendation}`);
+    const criticalIssues = this.extractSection(analysis, 'critical issues');
+
+    // Without the knowledge base the 14 CO items are still expected
+    const total = checklist.length + (this.checklist.length > 0 ? 0 : 14);
+    return {
+      costOptimizationScore: scoreChecklistFindings(checklistFindings),
+      checklistFindings,
+      checklistCoverage: Math.round(checklistFindings.length / total * 100),
+      keyFindings: keyFindings.length > 0 ? keyFindings : ['Checklist findings could not be parsed from the assessment'],
+      recommendations: recommendations.length > 0 ? recommendations : this.extractSection(analysis, 'recommendation'),
+      azureServices: this.extractAzureCostServices(analysis),
+      wellArchitectedCompliance: this.extractWAFCostCompliance(analysis, gaps.length, partial.length),
+      criticalIssues: criticalIssues.length > 0
+        ? criticalIssues
+        : gaps.slice(0, 3).map(finding => `${finding.checklistId} ${finding.title}: ${finding.finding}`)
+    };
+  }
+
+  /**
+   * One finding per checklist item row; the first row for an item wins, unknown IDs are dropped
+   */
+  private extractChecklistFindings(analysis: string, checklist: CostChecklistItem[]): CostOptimizationFinding[] {
+    const findings = new Map<string, CostOptimizationFinding>();
+
+    for (const line of analysis.split('\n')) {
+      const row = parseFindingRow(line);
+      if (!row || findings.has(row.checklistId)) continue;
+      const item = checklist.find(candidate => candidate.id === row.checklistId);
+      if (!item && this.checklist.length > 0) continue;
+
+      findings.set(row.checklistId, { ...row, title: item?.title ?? row.checklistId });
+    }
+
+    return [...findings.values()].sort((a, b) => a.checklistId.localeCompare(b.checklistId));
+  }
+
+  /**
+   * Bullet points following a "**Heading:**" line
+   */
+  private extractSection(analysis: string, heading: string): string[] {
+    const lines = analysis.split('\n');
+    const start = lines.findIndex(line => line.toLowerCase().includes(heading) && !line.trim().startsWith('|'));
+    if (start === -1) return [];
+
+    const items: string[] = [];
+    for (const line of lines.slice(start + 1)) {
+      const trimmedLine = line.trim();
+      if (trimmedLine.startsWith('•') || trimmedLine.startsWith('-') || trimmedLine.startsWith('*')) {
+        const item = trimmedLine.substring(1).trim();
+        // Next "- **Heading:**" entry
+        if (/^\*\*[^*]+:\*\*/.test(item)) break;
+        items.push(item);
+      } else if (trimmedLine.length > 0) {
+        break;
+      }
+    }
+    return items.slice(0, 5);
+  }
+
+  private extractAzureCostServices(analysis: string): string[] {
+    const costServicePatterns = [
+      'Azure Cost Management', 'Azure Advisor', 'Azure Reservations', 'Azure Savings Plan',
+      'Azure Hybrid Benefit', 'Azure Budgets', 'Azure Policy', 'Autoscale',
+      'Spot', 'Dev/Test', 'Azure Monitor', 'Lifecycle Management'
+    ];
+
+    const foundServices: string[] = [];
+    for (const service of costServicePatterns) {
+      if (analysis.toLowerCase().includes(service.toLowerCase())) {
+        foundServices.push(service);
+      }
+    }
+
+    return foundServices.length > 0 ? foundServices : [
+      'Azure Cost Management', 'Azure Advisor', 'Azure Reservations', 'Azure Policy'
+    ];
+  }
+
+  private extractWAFCostCompliance(analysis: string, gaps: number, partial: number): string {
+    const complianceMatch = analysis.match(/well-architected cost optimization\**[:\s]*([^\n]+)/i);
+    if (complianceMatch && complianceMatch[1].trim().length > 0) {
+      return complianceMatch[1].replace(/\*+/g, '').trim();
+    }
+    return `Cost optimization checklist: ${gaps} gap(s), ${partial} partially met`;
+  }
+
+  // No score: the pillar is blended like one whose agent failed
+  private getCostOptimizationFallback(): CostOptimizationResult {
+    return {
+      checklistFindings: [],
+      checklistCoverage: 0,
+      keyFindings: ['Cost optimization assessment unavailable - checklist not evaluated'],
+      recommendations: [
+        'CO:02: Build a cost model with budgets and a buffer for unplanned spending',
+        'CO:03: Set up Azure Cost Management budgets and spending alerts',
+        'CO:05: Evaluate reservations and savings plans for steady workloads',
+        'CO:12: Align autoscale limits with the cost model'
+      ],
+      azureServices: ['Azure Cost Management', 'Azure Advisor', 'Azure Reservations', 'Azure Policy'],
+      wellArchitectedCompliance: 'Cost optimization assessment temporarily unavailable - manual review recommended',
+      criticalIssues: ['Cost optimization assessment failed - manual review required']
+    };
+  }
+}
@@ -7,6 +7,8 @@
 import OpenAI from 'openai';
 import config from '../config/config.js';
 import { BaseAgent } from './base-agent.js';
+import { telemetry } from '../core/telemetry.js';
+import { PolicyPackItem, formatPolicyItemsForPrompt } from '../waf/policy-pack.js';
 
 interface OperationalTask {
   id: string;
@@ -18,6 +20,8 @@ interface OperationalTask {
     currentDevOpsMaturity?: string;
     deploymentFrequency?: string;
     teamStructure?: string;
+    // Organisational policy pack items of this pillar
+    policyItems?: PolicyPackItem[];
   };
 }
 
@@ -47,7 +51,8 @@ export class WellArchitectedOperationalExcellenceAgent extends BaseAgent {
         task.payload.requirements,
         task.payload.currentDevOpsMaturity,
         task.payload.deploymentFrequency,
-        task.payload.teamStructure
+        task.payload.teamStructure,
+        task.payload.policyItems
       );
 
       const result = this.parseOperationalAnalysis(operationalAnalysis);
@@ -57,6 +62,7 @@ export class WellArchitectedOperationalExcellenceAgent extends BaseAgent {
       
     } catch (error) {
       console.error('❌ Operational excellence assessment failed:', error);
+      telemetry.recordFallback();
       return this.getOperationalFallback();
     }
   }
@@ -66,7 +72,8 @@ export class WellArchitectedOperationalExcellenceAgent extends BaseAgent {
     requirements: string,
     devOpsMaturity?: string,
     deploymentFrequency?: string,
-    teamStructure?: string
+    teamStructure?: string,
+    policyItems?: PolicyPackItem[]
   ): Promise<string> {
     
     const response = await this.client.chat.completions.create({
@@ -126,6 +133,7 @@ ${requirements}
 ${devOpsMaturity ? `**Current DevOps Maturity:**\n${devOpsMaturity}\n` : ''}
 ${deploymentFrequency ? `**Deployment Frequency:**\n${deploymentFrequency}\n` : ''}
 ${teamStructure ? `**Team Structure:**\n${teamStructure}\n` : ''}
+${formatPolicyItemsForPrompt(policyItems)}
 
 **OPERATIONAL EXCELLENCE DELIVERABLES:**
 1. Operational score (1-10) with detailed maturity assessment
@@ -10,8 +10,17 @@ import { WellArchitectedReliabilityAgent } from './well-architected-reliability-
 import { WellArchitectedSecurityAgent } from './well-architected-security-agent.js';
 import { WellArchitectedPerformanceAgent } from './well-architected-performance-agent.js';
 import { WellArchitectedOperationalExcellenceAgent } from './well-architected-operational-excellence-agent.js';
-import { CostOptimizerAgent } from './cost-optimizer-agent.js'; // Reuse existing cost agent
+import { CostOptimizationResult, WellArchitectedCostOptimizationAgent } from './well-architected-cost-optimization-agent.js';
+import { ArchitectureGraph } from '../core/architecture-graph.js';
+import { RuleAssessment, WAF_RULES, WafPillar, blendPillarScore, evaluateWafRules, formatRuleAssessment } from '../waf/waf-rules.js';
+import { PolicyPack, policyItemsForPillar, policyPackRules } from '../waf/policy-pack.js';
+import { loadComplianceCatalog, selectFrameworks } from '../compliance/compliance-catalog.js';
+import {
+  ComplianceAssessment, ComplianceStatus, assessCompliance, formatComplianceSummary, unassessedCompliance
+} from '../compliance/compliance-assessment.js';
+import { saveComplianceMatrix } from '../compliance/compliance-writer.js';
 import { getLocalTimestamp } from '../utils/local-timestamp.js';
+import { telemetry } from '../core/telemetry.js';
 import { promises as fs } from 'fs';
 import path from 'path';
 
@@ -27,6 +36,12 @@ interface WAFAssessmentTask {
     industryType?: string;
     expectedLoad?: string;
     caseStudyFolder?: string;
+    // Analysed architecture; enables the deterministic rule checks
+    graph?: ArchitectureGraph;
+    // Organisational items assessed and scored with the WAF checklists
+    policyPack?: PolicyPack;
+    // Aborted when the workflow step times out; nothing is saved afterwards
+    signal?: AbortSignal;
   };
 }
 
@@ -38,6 +53,9 @@ interface WAFPillarResult {
   azureServices: string[];
   compliance: string;
   criticalIssues: string[];
+  // Set when the pillar agent answered; score is the blend of both when rules applied
+  llmScore?: number;
+  ruleScore?: number;
 }
 
 interface WAFAssessmentResult {
@@ -45,10 +63,13 @@ interface WAFAssessmentResult {
   assessmentSummary: string;
   pillarResults: WAFPillarResult[];
   prioritizedRecommendations: string[];
-  complianceStatus: string;
+  // Score of the regulatory control matrix; see complianceAssessment for the controls
+  complianceStatus: ComplianceStatus;
   implementationRoadmap: string[];
   azureServicesOptimization: string[];
   wafReport: string;
+  ruleAssessment?: RuleAssessment;
+  complianceAssessment?: ComplianceAssessment;
 }
 
 export class WellArchitectedOrchestrator {
@@ -57,7 +78,7 @@ export class WellArchitectedOrchestrator {
   private securityAgent: WellArchitectedSecurityAgent;
   private performanceAgent: WellArchitectedPerformanceAgent;
   private operationalAgent: WellArchitectedOperationalExcellenceAgent;
-  private costAgent: CostOptimizerAgent;
+  private costAgent: WellArchitectedCostOptimizationAgent;
 
   constructor(client: OpenAI) {
     this.client = client;
@@ -65,7 +86,7 @@ export class WellArchitectedOrchestrator {
     this.securityAgent = new WellArchitectedSecurityAgent(client);
     this.performanceAgent = new WellArchitectedPerformanceAgent(client);
     this.operationalAgent = new WellArchitectedOperationalExcellenceAgent(client);
-    this.costAgent = new CostOptimizerAgent(client);
+    this.costAgent = new WellArchitectedCostOptimizationAgent(client);
   }
 
   async executeWAFAssessment(task: WAFAssessmentTask): Promise<WAFAssessmentResult> {
@@ -75,40 +96,42 @@ export class WellArchitectedOrchestrator {
       
       const startTime = Date.now();
 
-      // Execute all 5 pillar assessments in parallel with timeout protection
+      // Execute all 5 pillar assessments in parallel - the LLM gateway limits
+      // concurrent WAF calls and bounds each one with a progressive timeout
       const assessmentPromises = [
-        this.assessReliabilityPillar(task),
-        this.assessSecurityPillar(task),
-        this.assessPerformancePillar(task),
-        this.assessOperationalPillar(task),
-        this.assessCostPillar(task)
+        telemetry.runInScope({ agent: 'waf-reliability' }, () => this.assessReliabilityPillar(task)),
+        telemetry.runInScope({ agent: 'waf-security' }, () => this.assessSecurityPillar(task)),
+        telemetry.runInScope({ agent: 'waf-performance' }, () => this.assessPerformancePillar(task)),
+        telemetry.runInScope({ agent: 'waf-operational' }, () => this.assessOperationalPillar(task)),
+        telemetry.runInScope({ agent: 'waf-cost' }, () => this.assessCostPillar(task))
       ];
 
-      const timeoutPromise = new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('WAF assessment timeout')), 300000) // 5 minutes (increased from 3)
-      );
-
-      const results = await Promise.race([
-        Promise.allSettled(assessmentPromises),
-        timeoutPromise
-      ]) as PromiseSettledResult<any>[];
+      const results = await Promise.allSettled(assessmentPromises);
 
       const executionTime = Date.now() - startTime;
       console.log(`✅ WAF Assessment completed in ${Math.round(executionTime / 1000)}s`);
 
       // Process results and generate comprehensive assessment
       const pillarResults = this.processPillarResults(results);
-      const assessment = await this.generateWAFAssessment(pillarResults, task.payload);
+      const ruleAssessment = task.payload.graph
+        ? this.applyRuleChecks(pillarResults, task.payload.graph, task.payload.policyPack)
+        : undefined;
+      const assessment = await this.generateWAFAssessment(pillarResults, task.payload, ruleAssessment);
       
       // Save assessment if folder provided
+      task.payload.signal?.throwIfAborted();
       if (task.payload.caseStudyFolder) {
         await this.saveWAFAssessment(assessment, task.payload.caseStudyFolder);
+        if (assessment.complianceAssessment) {
+          await saveComplianceMatrix(assessment.complianceAssessment, task.payload.caseStudyFolder);
+        }
       }
 
       return assessment;
 
     } catch (error) {
       console.error('❌ WAF Assessment failed:', error);
+      telemetry.recordFallback();
       return this.getWAFFallback();
     }
   }
@@ -122,7 +145,8 @@ export class WellArchitectedOrchestrator {
         architecture: task.payload.architecture,
         requirements: task.payload.requirements,
         businessRequirements: task.payload.businessContext,
-        slaRequirements: this.extractSLARequirements(task.payload.requirements)
+        slaRequirements: this.extractSLARequirements(task.payload.requirements),
+        policyItems: policyItemsForPillar(task.payload.policyPack, 'Reliability')
       }
     };
 
@@ -138,7 +162,8 @@ export class WellArchitectedOrchestrator {
         architecture: task.payload.architecture,
         requirements: task.payload.requirements,
         complianceRequirements: task.payload.complianceRequirements,
-        industryType: task.payload.industryType
+        industryType: task.payload.industryType,
+        policyItems: policyItemsForPillar(task.payload.policyPack, 'Security')
       }
     };
 
@@ -154,7 +179,8 @@ export class WellArchitectedOrchestrator {
         architecture: task.payload.architecture,
         requirements: task.payload.requirements,
         expectedLoad: task.payload.expectedLoad,
-        performanceTargets: this.extractPerformanceTargets(task.payload.requirements)
+        performanceTargets: this.extractPerformanceTargets(task.payload.requirements),
+        policyItems: policyItemsForPillar(task.payload.policyPack, 'Performance Efficiency')
       }
     };
 
@@ -169,20 +195,33 @@ export class WellArchitectedOrchestrator {
       payload: {
         architecture: task.payload.architecture,
         requirements: task.payload.requirements,
-        currentDevOpsMaturity: this.extractDevOpsMaturity(task.payload.requirements)
+        currentDevOpsMaturity: this.extractDevOpsMaturity(task.payload.requirements),
+        policyItems: policyItemsForPillar(task.payload.policyPack, 'Operational Excellence')
       }
     };
 
     return await this.operationalAgent.execute(operationalTask);
   }
 
-  private async assessCostPillar(task: WAFAssessmentTask): Promise<any> {
-    // Reuse existing cost agent with WAF context
-    return await this.costAgent.optimizeCosts(task.payload.architecture);
+  private async assessCostPillar(task: WAFAssessmentTask): Promise<CostOptimizationResult> {
+    const costTask = {
+      id: 'cost-optimization-waf',
+      type: 'cost-optimization-assessment' as const,
+      priority: 'high' as const,
+      payload: {
+        architecture: task.payload.architecture,
+        requirements: task.payload.requirements,
+        budgetConstraints: this.extractBudgetConstraints(task.payload.requirements),
+        policyItems: policyItemsForPillar(task.payload.policyPack, 'Cost Optimization')
+      }
+    };
+
+    return await this.costAgent.execute(costTask);
   }
 
   private processPillarResults(results: PromiseSettledResult<any>[]): WAFPillarResult[] {
     const pillarNames = ['Reliability', 'Security', 'Performance Efficiency', 'Operational Excellence', 'Cost Optimization'];
+    const pillarAgents = ['waf-reliability', 'waf-security', 'waf-performance', 'waf-operational', 'waf-cost'];
     const pillarResults: WAFPillarResult[] = [];
 
     results.forEach((result, index) => {
@@ -190,9 +229,11 @@ export class WellArchitectedOrchestrator {
       
       if (result.status === 'fulfilled') {
         const data = result.value;
+        const llmScore = this.extractScore(data, pillarName);
         pillarResults.push({
           pillarName,
-          score: this.extractScore(data, pillarName),
+          score: llmScore ?? 7,
+          llmScore,
           keyFindings: this.extractKeyFindings(data, pillarName),
           recommendations: this.extractRecommendations(data, pillarName),
           azureServices: this.extractAzureServices(data, pillarName),
@@ -200,6 +241,7 @@ export class WellArchitectedOrchestrator {
           criticalIssues: this.extractCriticalIssues(data, pillarName)
         });
       } else {
+        telemetry.recordFallback(pillarAgents[index]);
         pillarResults.push({
           pillarName,
           score: 7, // Increased from 6 - assume reasonable baseline even on timeout
@@ -215,15 +257,45 @@ export class WellArchitectedOrchestrator {
     return pillarResults;
   }
 
-  private async generateWAFAssessment(pillarResults: WAFPillarResult[], payload: any): Promise<WAFAssessmentResult> {
+  /**
+   * Blend the deterministic rule scores (built-in rules and the policy pack
+   * items with detection hints) into the pillar scores; failed
+   * high-severity rules become critical issues of their pillar
+   */
+  private applyRuleChecks(pillarResults: WAFPillarResult[], graph: ArchitectureGraph, policyPack?: PolicyPack): RuleAssessment {
+    const ruleAssessment = evaluateWafRules(graph, policyPack ? [...WAF_RULES, ...policyPackRules(policyPack)] : WAF_RULES);
+    const ruleWeight = config.get().waf.ruleWeight;
+
+    for (const pillar of pillarResults) {
+      const ruleScore = ruleAssessment.pillarScores[pillar.pillarName as WafPillar];
+      if (ruleScore === undefined) continue;
+      pillar.ruleScore = ruleScore;
+      pillar.score = blendPillarScore(pillar.llmScore, ruleScore, ruleWeight);
+
+      for (const rule of ruleAssessment.results.filter(result => result.pillar === pillar.pillarName && result.status === 'fail')) {
+        pillar.keyFindings.push(`${rule.checklistId} check failed - ${rule.title}: ${rule.evidence.join('; ')}`);
+        if (rule.severity === 'high') pillar.criticalIssues.push(`${rule.checklistId}: ${rule.recommendation}`);
+      }
+    }
+
+    const failed = ruleAssessment.results.filter(result => result.status === 'fail').length;
+    console.log(`   ✓ Deterministic checks: ${ruleAssessment.results.length - failed} passed, ${failed} failed (rule weight ${ruleWeight})`);
+    return ruleAssessment;
+  }
+
+  private async generateWAFAssessment(pillarResults: WAFPillarResult[], payload: any, ruleAssessment?: RuleAssessment): Promise<WAFAssessmentResult> {
     const overallScore = this.calculateOverallScore(pillarResults);
     const prioritizedRecommendations = this.prioritizeRecommendations(pillarResults);
-    const complianceStatus = this.assessOverallCompliance(pillarResults);
+    const complianceAssessment = this.assessRegulatoryCompliance(payload);
+    const complianceStatus = complianceAssessment?.status
+      ?? unassessedCompliance(payload.graph ? 'Compliance controls not assessed (control catalog unavailable).' : 'No architecture graph to map the compliance controls to.');
     const implementationRoadmap = this.generateImplementationRoadmap(pillarResults);
     const azureServicesOptimization = this.consolidateAzureServices(pillarResults);
 
     const assessmentSummary = await this.generateAssessmentSummary(pillarResults, overallScore, payload);
-    const wafReport = await this.generateComprehensiveWAFReport(pillarResults, overallScore, payload);
+    const wafReport = await this.generateComprehensiveWAFReport(
+      pillarResults, overallScore, payload, ruleAssessment, formatComplianceSummary(complianceStatus, complianceAssessment)
+    );
 
     return {
       overallScore,
@@ -233,7 +305,9 @@ export class WellArchitectedOrchestrator {
       complianceStatus,
       implementationRoadmap,
       azureServicesOptimization,
-      wafReport
+      wafReport,
+      ruleAssessment,
+      complianceAssessment
     };
   }
 
@@ -270,12 +344,24 @@ export class WellArchitectedOrchestrator {
       .map(rec => rec.text);
   }
 
-  private assessOverallCompliance(pillarResults: WAFPillarResult[]): string {
-    const avgScore = this.calculateOverallScore(pillarResults);
-    if (avgScore >= 8.5) return 'Excellent WAF compliance - minimal improvements needed';
-    if (avgScore >= 7.5) return 'Good WAF compliance - some optimization opportunities';
-    if (avgScore >= 6.5) return 'Moderate WAF compliance - several improvements recommended';
-    return 'Limited WAF compliance - significant improvements needed';
+  /**
+   * Map the controls of the configured frameworks, or of those named in the
+   * compliance requirements, to the architecture graph. Returns undefined
+   * (with a warning) without a graph or when the control catalog cannot be loaded.
+   */
+  private assessRegulatoryCompliance(payload: WAFAssessmentTask['payload']): ComplianceAssessment | undefined {
+    if (!payload.graph) return undefined;
+    const settings = config.get().compliance;
+    try {
+      const catalog = loadComplianceCatalog(settings.controlCatalog);
+      const frameworks = selectFrameworks(catalog, settings.frameworks, [payload.complianceRequirements ?? '', payload.requirements]);
+      const assessment = assessCompliance(payload.graph, catalog, frameworks);
+      console.log(`   ✓ Compliance: ${assessment.status.summary}`);
+      return assessment;
+    } catch (error) {
+      console.warn(`   ⚠ Compliance controls not assessed: ${error instanceof Error ? error.message : error}`);
+      return undefined;
+    }
   }
 
   private generateImplementationRoadmap(pillarResults: WAFPillarResult[]): string[] {
@@ -310,7 +396,13 @@ export class WellArchitectedOrchestrator {
     return `Azure Well-Architected Assessment: Overall Score ${overallScore.toFixed(1)}/100. ${excellentCount} pillars excellent, ${criticalCount} need immediate attention. Key focus areas: ${pillarResults.sort((a, b) => a.score - b.score).slice(0, 2).map(p => p.pillarName).join(', ')}.`;
   }
 
-  private async generateComprehensiveWAFReport(pillarResults: WAFPillarResult[], overallScore: number, payload: any): Promise<string> {
+  private async generateComprehensiveWAFReport(
+    pillarResults: WAFPillarResult[],
+    overallScore: number,
+    payload: any,
+    ruleAssessment?: RuleAssessment,
+    complianceSection?: string
+  ): Promise<string> {
     const timestamp = getLocalTimestamp();
 
     return `# Azure Well-Architected Framework Assessment Report
@@ -325,7 +417,9 @@ ${await this.generateAssessmentSummary(pillarResults, overallScore, payload)}
 
 ${pillarResults.map(pillar => `
 ### ${pillar.pillarName} - Score: ${pillar.score.toFixed(1)}/10
-
+${pillar.ruleScore !== undefined ? `
+*Blended score: LLM judgement ${pillar.llmScore !== undefined ? `${pillar.llmScore.toFixed(1)}/10` : 'unavailable'}, deterministic checks ${pillar.ruleScore.toFixed(1)}/10*
+` : ''}
 **Compliance:** ${pillar.compliance}
 
 **Key Findings:**
@@ -342,7 +436,10 @@ ${pillar.criticalIssues.map(issue => `⚠️ ${issue}`).join('\n')}` : ''}
 
 ---
 `).join('')}
-
+${ruleAssessment ? `
+${formatRuleAssessment(ruleAssessment)}` : ''}
+${complianceSection ? `${complianceSection}
+` : ''}
 ## Overall Recommendations
 ${this.prioritizeRecommendations(pillarResults).map((rec, index) => `${index + 1}. ${rec}`).join('\n')}
 
@@ -354,18 +451,20 @@ ${this.generateImplementationRoadmap(pillarResults).map((phase, index) => `${ind
 `;
   }
 
-  private extractScore(data: any, pillarName: string): number {
+  private extractScore(data: any, pillarName: string): number | undefined {
     if (!data) return 7; // Increased from 6 - assume good baseline for analyzed architectures
 
-    // Extract raw score from pillar agents
-    let rawScore: number;
-
     if (pillarName === 'Cost Optimization') {
-      rawScore = data.optimizationScore || 75; // Increased default from 70
-    } else {
-      rawScore = data.reliabilityScore || data.securityScore || data.performanceScore || data.operationalScore || 75; // Increased default from 70
+      // Always on the 0-100 scale, so a low score is not mistaken for a 0-10 one;
+      // unset when the agent fell back or assessed no checklist item
+      return typeof data.costOptimizationScore === 'number'
+        ? Math.min(10, Math.max(0, data.costOptimizationScore / 10))
+        : undefined;
     }
 
+    // Extract raw score from pillar agents
+    const rawScore: number = data.reliabilityScore || data.securityScore || data.performanceScore || data.operationalScore || 75; // Increased default from 70
+
     // Normalize to 0-10 scale
     // If score > 10, assume it's on 0-100 scale and convert
     // If score <= 10, assume it's already on 0-10 scale
@@ -419,6 +518,11 @@ ${this.generateImplementationRoadmap(pillarResults).map((phase, index) => `${ind
     return perfMatch ? 'Performance targets identified in requirements' : '';
   }
 
+  private extractBudgetConstraints(requirements: string): string {
+    const budgetMatch = requirements.match(/budget|cost constraint|spending limit|tco/i);
+    return budgetMatch ? 'Budget constraints mentioned in requirements' : '';
+  }
+
   private extractDevOpsMaturity(requirements: string): string {
     const devopsMatch = requirements.match(/devops|ci\/cd|automation|deployment/i);
     return devopsMatch ? 'DevOps practices mentioned in requirements' : '';
@@ -453,7 +557,7 @@ ${this.generateImplementationRoadmap(pillarResults).map((phase, index) => `${ind
         { pillarName: 'Cost Optimization', score: 7, keyFindings: [], recommendations: [], azureServices: [], compliance: 'Assessment unavailable', criticalIssues: [] }
       ],
       prioritizedRecommendations: ['Manual Well-Architected Framework review recommended'],
-      complianceStatus: 'Assessment temporarily unavailable',
+      complianceStatus: unassessedCompliance('Assessment temporarily unavailable'),
       implementationRoadmap: ['Complete manual WAF assessment', 'Implement priority improvements'],
       azureServicesOptimization: [],
       wafReport: 'Well-Architected Framework assessment temporarily unavailable'
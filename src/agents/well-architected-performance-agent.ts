@@ -7,6 +7,8 @@
 import OpenAI from 'openai';
 import config from '../config/config.js';
 import { BaseAgent } from './base-agent.js';
+import { telemetry } from '../core/telemetry.js';
+import { PolicyPackItem, formatPolicyItemsForPrompt } from '../waf/policy-pack.js';
 
 interface PerformanceTask {
   id: string;
@@ -18,6 +20,8 @@ interface PerformanceTask {
     expectedLoad?: string;
     performanceTargets?: string;
     criticalFlows?: string;
+    // Organisational policy pack items of this pillar
+    policyItems?: PolicyPackItem[];
   };
 }
 
@@ -47,7 +51,8 @@ export class WellArchitectedPerformanceAgent extends BaseAgent {
         task.payload.requirements,
         task.payload.expectedLoad,
         task.payload.performanceTargets,
-        task.payload.criticalFlows
+        task.payload.criticalFlows,
+        task.payload.policyItems
       );
 
       const result = this.parsePerformanceAnalysis(performanceAnalysis);
@@ -57,6 +62,7 @@ export class WellArchitectedPerformanceAgent extends BaseAgent {
       
     } catch (error) {
       console.error('❌ Performance assessment failed:', error);
+      telemetry.recordFallback();
       return this.getPerformanceFallback();
     }
   }
@@ -66,7 +72,8 @@ export class WellArchitectedPerformanceAgent extends BaseAgent {
     requirements: string,
     expectedLoad?: string,
     performanceTargets?: string,
-    criticalFlows?: string
+    criticalFlows?: string,
+    policyItems?: PolicyPackItem[]
   ): Promise<string> {
     
     const response = await this.client.chat.completions.create({
@@ -125,6 +132,7 @@ ${requirements}
 ${expectedLoad ? `**Expected Load:**\n${expectedLoad}\n` : ''}
 ${performanceTargets ? `**Performance Targets:**\n${performanceTargets}\n` : ''}
 ${criticalFlows ? `**Critical Performance Flows:**\n${criticalFlows}\n` : ''}
+${formatPolicyItemsForPrompt(policyItems)}
 
 **PERFORMANCE DELIVERABLES:**
 1. Performance score (1-10) with detailed justification
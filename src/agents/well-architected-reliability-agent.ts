@@ -7,6 +7,8 @@
 import OpenAI from 'openai';
 import config from '../config/config.js';
 import { BaseAgent } from './base-agent.js';
+import { telemetry } from '../core/telemetry.js';
+import { PolicyPackItem, formatPolicyItemsForPrompt } from '../waf/policy-pack.js';
 import { promises as fs } from 'fs';
 import { existsSync } from 'fs';
 
@@ -20,6 +22,8 @@ interface ReliabilityTask {
     businessRequirements?: string;
     region?: string;
     slaRequirements?: string;
+    // Organisational policy pack items of this pillar
+    policyItems?: PolicyPackItem[];
   };
 }
 
@@ -66,7 +70,8 @@ export class WellArchitectedReliabilityAgent extends BaseAgent {
         task.payload.architecture,
         task.payload.requirements,
         task.payload.businessRequirements,
-        task.payload.slaRequirements
+        task.payload.slaRequirements,
+        task.payload.policyItems
       );
 
       const result = this.parseReliabilityAnalysis(reliabilityAnalysis);
@@ -76,6 +81,7 @@ export class WellArchitectedReliabilityAgent extends BaseAgent {
       
     } catch (error) {
       console.error('❌ Reliability assessment failed:', error);
+      telemetry.recordFallback();
       return this.getReliabilityFallback();
     }
   }
@@ -84,7 +90,8 @@ export class WellArchitectedReliabilityAgent extends BaseAgent {
     architecture: string,
     requirements: string,
     businessRequirements?: string,
-    slaRequirements?: string
+    slaRequirements?: string,
+    policyItems?: PolicyPackItem[]
   ): Promise<string> {
     
     const response = await this.client.chat.completions.create({
@@ -143,6 +150,7 @@ ${requirements}
 
 ${businessRequirements ? `**Business Requirements:**\n${businessRequirements}\n` : ''}
 ${slaRequirements ? `**SLA Requirements:**\n${slaRequirements}\n` : ''}
+${formatPolicyItemsForPrompt(policyItems)}
 
 **RELIABILITY DELIVERABLES:**
 1. Reliability score (1-10) with detailed justification
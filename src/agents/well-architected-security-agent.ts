@@ -7,6 +7,8 @@
 import OpenAI from 'openai';
 import config from '../config/config.js';
 import { BaseAgent } from './base-agent.js';
+import { telemetry } from '../core/telemetry.js';
+import { PolicyPackItem, formatPolicyItemsForPrompt } from '../waf/policy-pack.js';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { existsSync } from 'fs';
@@ -21,6 +23,8 @@ interface SecurityTask {
     dataClassification?: string;
     complianceRequirements?: string;
     industryType?: string;
+    // Organisational policy pack items of this pillar
+    policyItems?: PolicyPackItem[];
   };
 }
 
@@ -73,7 +77,8 @@ export class WellArchitectedSecurityAgent extends BaseAgent {
         task.payload.requirements,
         task.payload.dataClassification,
         task.payload.complianceRequirements,
-        task.payload.industryType
+        task.payload.industryType,
+        task.payload.policyItems
       );
 
       const result = this.parseSecurityAnalysis(securityAnalysis);
@@ -83,6 +88,7 @@ export class WellArchitectedSecurityAgent extends BaseAgent {
       
     } catch (error) {
       console.error('❌ Security assessment failed:', error);
+      telemetry.recordFallback();
       return this.getSecurityFallback();
     }
   }
@@ -92,7 +98,8 @@ export class WellArchitectedSecurityAgent extends BaseAgent {
     requirements: string,
     dataClassification?: string,
     complianceRequirements?: string,
-    industryType?: string
+    industryType?: string,
+    policyItems?: PolicyPackItem[]
   ): Promise<string> {
     
     const response = await this.client.chat.completions.create({
@@ -142,6 +149,7 @@ ${requirements}
 ${dataClassification ? `**Data Classification:**\n${dataClassification}\n` : ''}
 ${complianceRequirements ? `**Compliance Requirements:**\n${complianceRequirements}\n` : ''}
 ${industryType ? `**Industry Type:**\n${industryType}\n` : ''}
+${formatPolicyItemsForPrompt(policyItems)}
 
 **SECURITY DELIVERABLES:**
 1. Security score (0-100) with detailed justification per WAF checklist item
@@ -4,30 +4,84 @@
  * Quick and easy interface for case study processing
  */
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
 import ora from 'ora';
 import clipboardy from 'clipboardy';
 import { MultiAgentSystem } from '../core/multi-agent-system.js';
+import config from '../config/config.js';
+import { LLMGateway } from '../core/llm-gateway.js';
 import { getLocalTimestampForFilename } from '../utils/local-timestamp.js';
 import { promises as fs } from 'fs';
+import path from 'path';
+import { buildArchitectureGraph, loadArchitectureGraph } from '../core/architecture-graph.js';
+import { loadArtifact } from '../core/pipeline-artifacts.js';
+import { generateDrawioXml } from '../diagrams/drawio-exporter.js';
+import { DRAWIO_FILE } from '../diagrams/diagram-writer.js';
+import { IAC_TARGETS, IacTarget } from '../iac/iac-writer.js';
+import { COST_CURRENCIES, CostCurrency, loadExchangeRates } from '../cost/pricing-catalog.js';
+
+function parseBudget(value: string): number {
+  const budget = Number(value);
+  if (!Number.isFinite(budget) || budget <= 0) {
+    throw new InvalidArgumentError('Budget must be a positive amount in USD.');
+  }
+  return budget;
+}
+
+function parseIacTarget(value: string): IacTarget {
+  if (!IAC_TARGETS.includes(value as IacTarget)) {
+    throw new InvalidArgumentError(`Expected one of: ${IAC_TARGETS.join(', ')}.`);
+  }
+  return value as IacTarget;
+}
+
+function parseCurrency(value: string): CostCurrency {
+  const currency = value.toUpperCase() as CostCurrency;
+  if (!COST_CURRENCIES.includes(currency)) {
+    throw new InvalidArgumentError(`Expected one of: ${COST_CURRENCIES.join(', ')}.`);
+  }
+  return currency;
+}
 
 class InterviewCLI {
-  private system: MultiAgentSystem;
+  private multiAgentSystem?: MultiAgentSystem;
   private program: Command;
 
   constructor() {
-    this.system = new MultiAgentSystem();
     this.program = new Command();
     this.setupCommands();
   }
 
+  // Created on first use so global options (e.g. --transport) are applied first
+  private get system(): MultiAgentSystem {
+    if (!this.multiAgentSystem) {
+      this.multiAgentSystem = new MultiAgentSystem();
+    }
+    return this.multiAgentSystem;
+  }
+
   private setupCommands() {
     this.program
       .name('azure-architecture-blueprints')
       .description('Azure Architecture Blueprints - Professional blueprint generator with C4 models and cost optimization')
-      .version('2.0.0');
+      .version('2.0.0')
+      .option('--transport <mode>', 'LLM transport: live, record or replay')
+      .option('--cassette-dir <dir>', 'Cassette directory for record/replay transports');
+
+    this.program.hook('preAction', () => {
+      const globalOptions = this.program.opts();
+      if (globalOptions.transport) {
+        if (!['live', 'record', 'replay'].includes(globalOptions.transport)) {
+          throw new Error(`--transport must be one of: live, record, replay`);
+        }
+        config.set('llm.transport', globalOptions.transport);
+      }
+      if (globalOptions.cassetteDir) {
+        config.set('llm.cassetteDirectory', globalOptions.cassetteDir);
+      }
+    });
 
     // Quick Analysis Command
     this.program
@@ -38,10 +92,42 @@ class InterviewCLI {
       .option('-c, --clipboard', 'Read from clipboard')
       .option('-o, --output <file>', 'Output file path')
       .option('--copy', 'Copy result to clipboard')
+      .option('-w, --workflow <file>', 'Workflow definition (JSON) to run instead of the default')
+      .option('--max-budget <usd>', 'Stop refinement loops once LLM spend reaches this amount (USD)', parseBudget)
+      .option('--iac <target>', 'Infrastructure as code to generate: terraform, bicep or both (default: IAC_TARGET or bicep)', parseIacTarget)
+      .option('--currency <code>', 'Currency of the calculated cost estimate: USD, EUR or CHF (default: COST_CURRENCY or USD)', parseCurrency)
+      .option('--tco-assumptions <file>', 'TCO growth, migration and on-premises assumptions (JSON, default: TCO_ASSUMPTIONS)')
+      .option('--policy-pack <file>', 'Organisational checklist items (YAML or JSON) to assess with the WAF pillars (default: WAF_POLICY_PACK)')
+      .option('--verbose-stream', 'Show the streamed tokens of the running step under the progress tree')
       .action(async (options) => {
         await this.handleAnalyze(options);
       });
 
+    // Resume an interrupted analysis
+    this.program
+      .command('resume <folder>')
+      .description('Resume an interrupted analysis from its checkpoint manifest')
+      .option('--from-step <name>', 'Re-run this step and everything downstream of it')
+      .option('-w, --workflow <file>', 'Workflow definition (defaults to the one recorded in the checkpoint)')
+      .option('--max-budget <usd>', 'Stop refinement loops once LLM spend of the resumed run reaches this amount (USD)', parseBudget)
+      .option('--iac <target>', 'Infrastructure as code to generate when that step re-runs: terraform, bicep or both', parseIacTarget)
+      .option('--currency <code>', 'Currency of the cost estimate when the cost analysis re-runs: USD, EUR or CHF', parseCurrency)
+      .option('--tco-assumptions <file>', 'TCO assumptions (JSON) when the cost analysis re-runs')
+      .option('--policy-pack <file>', 'Policy pack (YAML or JSON) when the WAF assessment re-runs')
+      .option('--verbose-stream', 'Show the streamed tokens of the running step under the progress tree')
+      .action(async (folder, options) => {
+        await this.handleResume(folder, options);
+      });
+
+    // draw.io export of an existing analysis
+    this.program
+      .command('export-drawio <folder>')
+      .description('Export the architecture of an analyzed case study (output/<folder>) as an editable draw.io diagram')
+      .option('-o, --output <file>', `Output file path (defaults to output/<folder>/${DRAWIO_FILE})`)
+      .action(async (folder, options) => {
+        await this.handleExportDrawio(folder, options);
+      });
+
     // Interactive Mode
     this.program
       .command('interactive')
@@ -109,7 +195,15 @@ class InterviewCLI {
       console.log(chalk.gray(`Length: ${caseStudyText.length} characters`));
 
       // Process with multi-agent system
-      const result = await this.system.processCaseStudyWithContent(caseStudyText);
+      const result = await this.system.processCaseStudyWithContent(caseStudyText, {
+        workflowFile: options.workflow,
+        maxBudgetUsd: options.maxBudget,
+        iacTarget: options.iac,
+        currency: options.currency,
+        tcoAssumptions: options.tcoAssumptions,
+        policyPack: options.policyPack,
+        verboseStream: options.verboseStream
+      });
 
       console.log(chalk.green(`\n✅ Analysis complete! Report saved to: ${result.savedPath}`));
 
@@ -140,6 +234,59 @@ class InterviewCLI {
     }
   }
 
+  async handleResume(folder: string, options: any) {
+    try {
+      console.log(chalk.blue(`♻️  Resuming ${folder}${options.fromStep ? ` from step "${options.fromStep}"` : ''}...`));
+
+      const result = await this.system.resumeCaseStudyWithContent(folder, {
+        fromStep: options.fromStep,
+        workflowFile: options.workflow,
+        maxBudgetUsd: options.maxBudget,
+        iacTarget: options.iac,
+        currency: options.currency,
+        tcoAssumptions: options.tcoAssumptions,
+        policyPack: options.policyPack,
+        verboseStream: options.verboseStream
+      });
+
+      console.log(chalk.green(`\n✅ Analysis complete! Report saved to: ${result.savedPath}`));
+    } catch (error) {
+      console.error(chalk.red('❌ Resume failed:'), error instanceof Error ? error.message : error);
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  async handleExportDrawio(folder: string, options: any) {
+    try {
+      // Accept both the folder name and a path such as output/<folder>/
+      const caseStudyFolder = path.basename(path.resolve(folder));
+
+      // Analyses from before the graph existed still have the architecture artifact
+      let graph = await loadArchitectureGraph(caseStudyFolder);
+      if (!graph) {
+        const architecture = await loadArtifact('architecture', caseStudyFolder);
+        if (!architecture) {
+          throw new Error(`No architecture graph or architecture artifact found in output/${caseStudyFolder}`);
+        }
+        graph = buildArchitectureGraph(architecture, await loadArtifact('cost', caseStudyFolder), {
+          exchangeRates: loadExchangeRates(config.get().cost.pricingCatalog)
+        });
+      }
+
+      const target = options.output || path.join(process.cwd(), 'output', caseStudyFolder, DRAWIO_FILE);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, generateDrawioXml(graph), 'utf-8');
+
+      console.log(chalk.green(`✅ draw.io diagram (${graph.nodes.length} services, ${graph.flows.length} flows) saved to: ${target}`));
+      console.log(chalk.gray('   Open it in diagrams.net or draw.io desktop; File > Export as > VSDX produces a Visio file'));
+    } catch (error) {
+      console.error(chalk.red('❌ draw.io export failed:'), error instanceof Error ? error.message : error);
+    } finally {
+      this.cleanup();
+    }
+  }
+
   async handleInteractive() {
     console.log(chalk.blue.bold('\n🏗️ Interactive Azure Architecture Blueprints Generator\n'));
 
@@ -270,21 +417,10 @@ class InterviewCLI {
       return;
     }
 
-    // Enhanced loading animation with progress tracking
-    const mainSpinner = ora({
-      text: 'Initializing Azure Architecture Analysis...',
-      spinner: 'dots12',
-      color: 'cyan'
-    }).start();
-
     try {
-      // Update spinner with progress
-      mainSpinner.text = 'Starting multi-agent orchestration...';
-      
+      // The multi-agent system shows its own live step tree
       const result = await this.system.processCaseStudyWithContent(caseStudyText);
       
-      mainSpinner.succeed('Analysis complete - generating final report...');
-      
       const report = result.markdownContent;
 
       // Auto-save and copy with spinner
@@ -301,7 +437,6 @@ class InterviewCLI {
       saveSpinner.succeed('Report saved and copied to clipboard!');
       
     } catch (error) {
-      mainSpinner.fail('Analysis failed');
       console.error(chalk.red('❌ Error:'), error.message);
       this.cleanup();
       return;
@@ -388,6 +523,53 @@ GlobalRetail Corp is a mid-size retailer with $500M annual revenue operating a l
         check: () => !!process.env.AZURE_OPENAI_API_KEY,
         message: process.env.AZURE_OPENAI_API_KEY ? 'Configured' : 'Missing AZURE_OPENAI_API_KEY'
       },
+      {
+        name: 'LLM Transport',
+        check: async () => {
+          const llmConfig = config.get().llm;
+          if (llmConfig.transport !== 'replay') return true;
+          try {
+            await fs.access(llmConfig.cassetteDirectory);
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        message: `${config.get().llm.transport}${config.get().llm.transport === 'live' ? '' : ` (cassettes: ${config.get().llm.cassetteDirectory})`}`
+      },
+      {
+        name: 'Model Routing',
+        check: () => true,
+        message: (() => {
+          const routing = config.get().llm.routing;
+          const deployments = Object.entries(routing.deployments).map(([model, deployment]) => `${model} → ${deployment}`);
+          const overrides = Object.entries(config.get().agents as Record<string, { model?: string }>)
+            .filter(([, agent]) => agent.model)
+            .map(([name, agent]) => `${name}=${agent.model}`);
+          return `${routing.enabled ? 'enabled' : 'disabled'} (default deployment: ${config.getAzureConfig().foundry.modelDeploymentName}` +
+            `${deployments.length > 0 ? `; ${deployments.join(', ')}` : ''}${overrides.length > 0 ? `; overrides: ${overrides.join(', ')}` : ''})`;
+        })()
+      },
+      {
+        name: 'LLM Circuits',
+        // Circuit state as left by the last run - an open circuit fails calls fast until it cools down
+        check: () => {
+          const state = LLMGateway.readPersistedState();
+          return !state || Object.values(state.categories).every(category =>
+            category.circuit === 'CLOSED' || (category.nextAttemptTime ?? 0) <= Date.now());
+        },
+        message: (() => {
+          const state = LLMGateway.readPersistedState();
+          if (!state) return 'no runs recorded yet';
+          const categories = Object.entries(state.categories).map(([name, category]) => {
+            const cooldown = category.nextAttemptTime && category.nextAttemptTime > Date.now()
+              ? `, retry in ${Math.ceil((category.nextAttemptTime - Date.now()) / 1000)}s`
+              : '';
+            return `${name} ${category.circuit} (${category.failures} failed/${category.successes} ok${cooldown})`;
+          });
+          return `${categories.join(', ')} - as of ${new Date(state.updatedAt).toLocaleString()}`;
+        })()
+      },
       {
         name: 'Clipboard Support',
         check: async () => {
@@ -444,7 +626,7 @@ GlobalRetail Corp is a mid-size retailer with $500M annual revenue operating a l
 
   private cleanup() {
     // Clean up the multi-agent system
-    this.system.cleanup();
+    this.multiAgentSystem?.cleanup();
     
     // Force exit after a short delay to ensure cleanup completes
     setTimeout(() => {
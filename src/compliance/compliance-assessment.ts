@@ -0,0 +1,223 @@
+/**
+ * Compliance Assessment
+ * Evaluates the controls of the selected frameworks on the architecture graph.
+ * A control is satisfied when all its applicable checks pass, partial when
+ * some do, a gap when none does and N/A when no check applies; the evidence
+ * names the services, regions and SKUs each check found. Framework and
+ * overall scores credit satisfied controls fully and partial ones half.
+ */
+
+import { ArchitectureGraph, azureNodes } from '../core/architecture-graph.js';
+import { toCsv } from '../utils/csv.js';
+import { evaluateDetection } from '../waf/policy-pack.js';
+import { RuleOutcome, WafRuleResult, evaluateWafRules } from '../waf/waf-rules.js';
+import { ComplianceCatalog, ComplianceControl, ComplianceFramework, ControlCheck } from './compliance-catalog.js';
+
+export type ControlStatus = 'satisfied' | 'partial' | 'gap' | 'not-applicable';
+
+export interface CheckResult extends RuleOutcome {
+  description: string;
+}
+
+export interface ControlAssessment {
+  control: ComplianceControl;
+  status: ControlStatus;
+  checks: CheckResult[];
+}
+
+export interface FrameworkAssessment {
+  framework: ComplianceFramework;
+  controls: ControlAssessment[];
+  // 0-100 over the applicable controls; absent when none applies
+  score?: number;
+}
+
+export interface FrameworkScore {
+  id: string;
+  name: string;
+  score?: number;
+  satisfied: number;
+  partial: number;
+  gaps: number;
+  notApplicable: number;
+}
+
+/**
+ * Compliance part of the WAF assessment result
+ */
+export interface ComplianceStatus {
+  // 0-100 over the applicable controls of all selected frameworks; absent when none was assessed
+  score?: number;
+  frameworks: FrameworkScore[];
+  summary: string;
+}
+
+export interface ComplianceAssessment {
+  catalogVersion: string;
+  frameworks: FrameworkAssessment[];
+  status: ComplianceStatus;
+}
+
+const STATUS_CREDIT: Record<Exclude<ControlStatus, 'not-applicable'>, number> = { satisfied: 1, partial: 0.5, gap: 0 };
+
+const STATUS_LABEL: Record<ControlStatus, string> = {
+  satisfied: '✅ Satisfied',
+  partial: '🟡 Partial',
+  gap: '❌ Gap',
+  'not-applicable': '➖ N/A'
+};
+
+export function assessCompliance(
+  graph: ArchitectureGraph,
+  catalog: ComplianceCatalog,
+  frameworks: ComplianceFramework[]
+): ComplianceAssessment {
+  const ruleResults = new Map(evaluateWafRules(graph).results.map(result => [result.checklistId, result]));
+
+  const assessed = frameworks.map(framework => {
+    const controls = framework.controls.map(control => assessControl(graph, control, ruleResults));
+    return { framework, controls, score: score(controls) };
+  });
+
+  return {
+    catalogVersion: catalog.version,
+    frameworks: assessed,
+    status: summarize(assessed)
+  };
+}
+
+/**
+ * Status for a run whose controls could not be assessed (no frameworks
+ * selected, no graph, catalog unavailable)
+ */
+export function unassessedCompliance(reason: string): ComplianceStatus {
+  return { frameworks: [], summary: reason };
+}
+
+/**
+ * Control matrix for the WAF report and compliance-matrix.md
+ */
+export function formatComplianceMatrix(assessment: ComplianceAssessment): string {
+  const lines = [
+    '# Regulatory Compliance Control Matrix',
+    '',
+    `${assessment.status.summary} Control catalog ${assessment.catalogVersion}; organisational controls (policies, contracts, DPIAs) need a separate review.`,
+    ''
+  ];
+  for (const { framework, controls, score: frameworkScore } of assessment.frameworks) {
+    lines.push(
+      `## ${framework.name} (${framework.version})${frameworkScore !== undefined ? ` - ${frameworkScore}/100` : ''}`,
+      '',
+      '| Control | Requirement | Status | Evidence |',
+      '|---------|-------------|--------|----------|',
+      ...controls.map(({ control, status, checks }) =>
+        `| ${control.id} | ${control.title} | ${STATUS_LABEL[status]} | ${formatEvidence(checks).replace(/\|/g, '\\|')} |`),
+      ''
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Regulatory Compliance section of the WAF report: framework scores and the
+ * control gaps, the full matrix goes into compliance-matrix.md
+ */
+export function formatComplianceSummary(status: ComplianceStatus, assessment?: ComplianceAssessment): string {
+  if (!assessment || assessment.frameworks.length === 0) return `## Regulatory Compliance\n\n${status.summary}\n`;
+
+  const gaps = assessment.frameworks.flatMap(({ framework, controls }) => controls
+    .filter(control => control.status === 'gap')
+    .map(({ control, checks }) => `- **${framework.name} ${control.id}** ${control.title}: ${checks
+      .filter(check => check.status === 'fail').map(check => check.evidence.join('; ')).join('; ')}`));
+  return [
+    '## Regulatory Compliance',
+    '',
+    status.summary,
+    '',
+    '| Framework | Score | Satisfied | Partial | Gaps | N/A |',
+    '|-----------|-------|-----------|---------|------|-----|',
+    ...status.frameworks.map(entry =>
+      `| ${entry.name} | ${entry.score !== undefined ? `${entry.score}/100` : 'N/A'} | ${entry.satisfied} | ${entry.partial} | ${entry.gaps} | ${entry.notApplicable} |`),
+    '',
+    ...(gaps.length > 0 ? ['**Control gaps:**', ...gaps, ''] : [])
+  ].join('\n');
+}
+
+/**
+ * One row per control and check, for spreadsheets and GRC tooling
+ */
+export function formatComplianceCsv(assessment: ComplianceAssessment): string {
+  const header = ['framework', 'control_id', 'control', 'status', 'check', 'check_status', 'evidence'];
+  const rows = assessment.frameworks.flatMap(({ framework, controls }) =>
+    controls.flatMap(({ control, status, checks }) => checks.map(check => [
+      framework.name, control.id, control.title, status, check.description, check.status, check.evidence.join('; ')
+    ])));
+  return toCsv([header, ...rows]);
+}
+
+function assessControl(graph: ArchitectureGraph, control: ComplianceControl, ruleResults: Map<string, WafRuleResult>): ControlAssessment {
+  const checks = control.checks.map(check => ({ description: check.description, ...evaluateCheck(graph, check, ruleResults) }));
+  const applicable = checks.filter(check => check.status !== 'not-applicable');
+  const passed = applicable.filter(check => check.status === 'pass').length;
+
+  let status: ControlStatus;
+  if (applicable.length === 0) status = 'not-applicable';
+  else if (passed === applicable.length) status = 'satisfied';
+  else if (passed > 0) status = 'partial';
+  else status = 'gap';
+  return { control, status, checks };
+}
+
+function evaluateCheck(graph: ArchitectureGraph, check: ControlCheck, ruleResults: Map<string, WafRuleResult>): RuleOutcome {
+  if (check.rule) {
+    const result = ruleResults.get(check.rule);
+    return result
+      ? { status: result.status, evidence: [`${check.rule}: ${result.evidence.join('; ')}`] }
+      : { status: 'not-applicable', evidence: [`No WAF rule checks ${check.rule}`] };
+  }
+
+  const outcome = evaluateDetection(graph, { services: check.services, regions: check.regions, appliesTo: check.appliesTo });
+  if (!check.sku || outcome.status !== 'pass') return outcome;
+
+  // Every instance of the required services has to run on a matching SKU
+  const pattern = new RegExp(check.sku, 'i');
+  const mismatched = azureNodes(graph)
+    .filter(node => check.services!.includes(node.type) && !pattern.test(`${node.sku} ${node.tier ?? ''}`));
+  return mismatched.length === 0
+    ? outcome
+    : { status: 'fail', evidence: [...outcome.evidence, `SKU does not match ${check.sku}: ${mismatched.map(node => `${node.name} (${node.sku})`).join(', ')}`] };
+}
+
+function score(controls: ControlAssessment[]): number | undefined {
+  const applicable = controls.filter(control => control.status !== 'not-applicable');
+  if (applicable.length === 0) return undefined;
+  const credit = applicable.reduce((total, control) => total + STATUS_CREDIT[control.status as keyof typeof STATUS_CREDIT], 0);
+  return Math.round(credit / applicable.length * 100);
+}
+
+function summarize(frameworks: FrameworkAssessment[]): ComplianceStatus {
+  const scores: FrameworkScore[] = frameworks.map(({ framework, controls, score: frameworkScore }) => ({
+    id: framework.id,
+    name: framework.name,
+    score: frameworkScore,
+    satisfied: controls.filter(control => control.status === 'satisfied').length,
+    partial: controls.filter(control => control.status === 'partial').length,
+    gaps: controls.filter(control => control.status === 'gap').length,
+    notApplicable: controls.filter(control => control.status === 'not-applicable').length
+  }));
+  if (frameworks.length === 0) return unassessedCompliance('No regulatory framework selected.');
+
+  const overall = score(frameworks.flatMap(framework => framework.controls));
+  const perFramework = scores.map(entry => `${entry.name} ${entry.score !== undefined ? `${entry.score}/100` : 'N/A'}`).join(', ');
+  const gaps = scores.reduce((total, entry) => total + entry.gaps, 0);
+  return {
+    score: overall,
+    frameworks: scores,
+    summary: `Compliance score ${overall !== undefined ? `${overall}/100` : 'N/A'} (${perFramework}); ${gaps} control gap(s).`
+  };
+}
+
+function formatEvidence(checks: CheckResult[]): string {
+  const icon = { pass: '✓', fail: '✗', 'not-applicable': '–' };
+  return checks.map(check => `${icon[check.status]} ${check.description}: ${check.evidence.join('; ')}`).join('<br>');
+}
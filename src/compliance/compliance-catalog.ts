@@ -0,0 +1,202 @@
+/**
+ * Compliance Catalog
+ * Versioned catalog of regulatory frameworks (waf-knowledge-base/compliance-controls.json):
+ * FINMA, GDPR, HIPAA, ISO/IEC 27001 and nDSG with their technical controls, each
+ * mapped to checks on the architecture graph, either a deterministic WAF rule
+ * (e.g. SE:09) or required services, allowed regions and SKUs. The frameworks
+ * of a run are chosen by configuration or detected in the compliance requirements.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { ServiceCategory, getServiceType } from '../core/azure-service-catalog.js';
+import { SchemaDefinition, validateSchema, ValidationResult } from '../utils/schema-validator.js';
+import { WAF_RULES, regionKey } from '../waf/waf-rules.js';
+
+export const DEFAULT_COMPLIANCE_CATALOG_FILE = 'waf-knowledge-base/compliance-controls.json';
+
+export interface ControlCheck {
+  // What the check looks for, shown in the control matrix
+  description: string;
+  // Checklist ID of a deterministic WAF rule whose result the check takes over
+  rule?: string;
+  // Catalog services of which the architecture needs at least one
+  services?: string[];
+  // Pattern every SKU/tier of those services has to match, e.g. "GZ?RS" for geo-redundant storage
+  sku?: string;
+  // Regions every in-scope Azure service has to run in
+  regions?: string[];
+  // Service categories the check applies to; without such services it is not applicable
+  appliesTo?: ServiceCategory[];
+}
+
+export interface ComplianceControl {
+  id: string;
+  title: string;
+  description?: string;
+  checks: ControlCheck[];
+}
+
+export interface ComplianceFramework {
+  id: string;
+  name: string;
+  version: string;
+  jurisdiction?: string;
+  // Names the framework goes by in requirements, e.g. "DSGVO" for GDPR
+  aliases: string[];
+  controls: ComplianceControl[];
+}
+
+export interface ComplianceCatalog {
+  version: string;
+  description?: string;
+  frameworks: ComplianceFramework[];
+}
+
+const stringList: SchemaDefinition = { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } };
+
+const COMPLIANCE_CATALOG_SCHEMA: SchemaDefinition = {
+  type: 'object',
+  required: ['version', 'frameworks'],
+  properties: {
+    version: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    frameworks: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['id', 'name', 'version', 'aliases', 'controls'],
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          name: { type: 'string', minLength: 1 },
+          version: { type: 'string', minLength: 1 },
+          jurisdiction: { type: 'string' },
+          aliases: stringList,
+          controls: {
+            type: 'array',
+            minItems: 1,
+            items: {
+              type: 'object',
+              required: ['id', 'title', 'checks'],
+              properties: {
+                id: { type: 'string', minLength: 1 },
+                title: { type: 'string', minLength: 1 },
+                description: { type: 'string' },
+                checks: {
+                  type: 'array',
+                  minItems: 1,
+                  items: {
+                    type: 'object',
+                    required: ['description'],
+                    properties: {
+                      description: { type: 'string', minLength: 1 },
+                      rule: { type: 'string', minLength: 1 },
+                      services: stringList,
+                      sku: { type: 'string', minLength: 1 },
+                      regions: stringList,
+                      appliesTo: stringList
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+const CATEGORIES: ServiceCategory[] = ['compute', 'data', 'networking', 'security', 'integration', 'ai', 'monitoring', 'identity', 'storage'];
+
+/**
+ * Load and validate a compliance catalog (relative paths resolve from the working directory)
+ */
+export function loadComplianceCatalog(filePath: string = DEFAULT_COMPLIANCE_CATALOG_FILE): ComplianceCatalog {
+  const resolved = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+  let catalog: ComplianceCatalog;
+  try {
+    catalog = JSON.parse(readFileSync(resolved, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not load compliance catalog ${resolved}: ${error instanceof Error ? error.message : error}`);
+  }
+  const validation = validateComplianceCatalog(catalog);
+  if (!validation.valid) {
+    throw new Error(`Invalid compliance catalog ${resolved}:\n${validation.errors.map(e => `  - ${e}`).join('\n')}`);
+  }
+  return catalog;
+}
+
+/**
+ * Schema check plus unique framework and control IDs, and checks that name a
+ * known WAF rule or something to look for: known services, valid SKU
+ * patterns and regions, known service categories
+ */
+export function validateComplianceCatalog(catalog: ComplianceCatalog): ValidationResult {
+  const schema = validateSchema(catalog, COMPLIANCE_CATALOG_SCHEMA);
+  if (!schema.valid) return schema;
+
+  const errors: string[] = [];
+  const rules = new Set(WAF_RULES.map(rule => rule.checklistId));
+  const frameworkIds = new Set<string>();
+  catalog.frameworks.forEach((framework, frameworkIndex) => {
+    const at = `$.frameworks[${frameworkIndex}]`;
+    if (frameworkIds.has(framework.id)) errors.push(`${at}.id: duplicate framework "${framework.id}"`);
+    frameworkIds.add(framework.id);
+
+    const controlIds = new Set<string>();
+    framework.controls.forEach((control, controlIndex) => {
+      const controlAt = `${at}.controls[${controlIndex}]`;
+      if (controlIds.has(control.id)) errors.push(`${controlAt}.id: duplicate control "${control.id}"`);
+      controlIds.add(control.id);
+
+      control.checks.forEach((check, checkIndex) => {
+        const checkAt = `${controlAt}.checks[${checkIndex}]`;
+        if (!check.rule && !check.services && !check.regions) {
+          errors.push(`${checkAt}: needs a rule, services or regions`);
+        }
+        if (check.rule && !rules.has(check.rule)) errors.push(`${checkAt}.rule: no WAF rule checks "${check.rule}"`);
+        check.services?.forEach((service, index) => {
+          if (!getServiceType(service)) errors.push(`${checkAt}.services[${index}]: unknown catalog service "${service}"`);
+        });
+        if (check.sku !== undefined) {
+          if (!check.services) errors.push(`${checkAt}.sku: needs the services it applies to`);
+          try {
+            new RegExp(check.sku);
+          } catch {
+            errors.push(`${checkAt}.sku: invalid pattern "${check.sku}"`);
+          }
+        }
+        check.regions?.forEach((region, index) => {
+          if (!regionKey(region)) errors.push(`${checkAt}.regions[${index}]: "${region}" is not a region`);
+        });
+        check.appliesTo?.forEach((category, index) => {
+          if (!CATEGORIES.includes(category)) errors.push(`${checkAt}.appliesTo[${index}]: unknown service category "${category}"`);
+        });
+      });
+    });
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Frameworks of the run: the configured IDs, or else those whose name or an
+ * alias appears in the compliance requirements. Unknown configured IDs are an error.
+ */
+export function selectFrameworks(catalog: ComplianceCatalog, configured: string[], requirements: string[]): ComplianceFramework[] {
+  if (configured.length > 0) {
+    return configured.map(id => {
+      const framework = catalog.frameworks.find(candidate => candidate.id === id.toLowerCase());
+      if (!framework) {
+        throw new Error(`Unknown compliance framework "${id}" (expected one of: ${catalog.frameworks.map(candidate => candidate.id).join(', ')})`);
+      }
+      return framework;
+    });
+  }
+
+  const text = requirements.join('\n');
+  return catalog.frameworks.filter(framework => [framework.name, ...framework.aliases].some(alias =>
+    new RegExp(`(^|[^A-Za-z0-9])${alias.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}($|[^A-Za-z0-9])`, 'i').test(text)));
+}
@@ -0,0 +1,32 @@
+/**
+ * Compliance Writer
+ * Writes the regulatory control matrix of the WAF assessment into
+ * output/<folder>/: compliance-matrix.md for readers and compliance-matrix.csv
+ * with one row per control check for spreadsheets and GRC tooling.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ComplianceAssessment, formatComplianceCsv, formatComplianceMatrix } from './compliance-assessment.js';
+
+export const COMPLIANCE_MATRIX_FILE = 'compliance-matrix.md';
+export const COMPLIANCE_MATRIX_CSV_FILE = 'compliance-matrix.csv';
+
+/**
+ * Save the control matrix; returns the output directory, or undefined (with a
+ * warning) when writing failed
+ */
+export async function saveComplianceMatrix(assessment: ComplianceAssessment, caseStudyFolder: string): Promise<string | undefined> {
+  try {
+    const outputDir = path.join(process.cwd(), 'output', caseStudyFolder);
+    await fs.mkdir(outputDir, { recursive: true });
+    await fs.writeFile(path.join(outputDir, COMPLIANCE_MATRIX_FILE), formatComplianceMatrix(assessment), 'utf-8');
+    await fs.writeFile(path.join(outputDir, COMPLIANCE_MATRIX_CSV_FILE), formatComplianceCsv(assessment), 'utf-8');
+    const controls = assessment.frameworks.reduce((total, framework) => total + framework.controls.length, 0);
+    console.log(`📁 Compliance matrix (${assessment.frameworks.length} frameworks, ${controls} controls) saved: ${COMPLIANCE_MATRIX_FILE}`);
+    return outputDir;
+  } catch (error) {
+    console.warn('⚠️ Failed to save compliance matrix:', error instanceof Error ? error.message : error);
+    return undefined;
+  }
+}
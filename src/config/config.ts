@@ -6,6 +6,9 @@
 
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import type { LLMTransportMode } from '../core/llm-transport.js';
+import type { CostCurrency } from '../cost/pricing-catalog.js';
+import type { ReconciliationMode } from '../cost/cost-reconciliation.js';
 
 export interface AppConfig {
   // Azure AI Foundry Configuration
@@ -35,6 +38,63 @@ export interface AppConfig {
     maxTokens: number;
     temperature: number;
     timeout: number;
+    workflowFile: string;
+  };
+
+  // LLM Transport (live calls, cassette recording or offline replay)
+  llm: {
+    transport: LLMTransportMode;
+    cassetteDirectory: string;
+    // Stream live completions so progress and tokens can be shown as they arrive
+    stream: boolean;
+    // Model routing: logical model (see MODELS in model-selector) -> Azure deployment name.
+    // Logical models without a deployment fall back to azure.foundry.modelDeploymentName.
+    routing: {
+      enabled: boolean;
+      deployments: Record<string, string>;
+    };
+  };
+
+  // Architecture diagrams rendered from the architecture graph
+  diagrams: {
+    // Rasterize the SVG diagram to PNG (needs rsvg-convert, resvg, Inkscape or ImageMagick on PATH)
+    png: boolean;
+  };
+
+  // Infrastructure as code generated from the architecture graph
+  iac: {
+    // Project(s) to generate; the analyze --iac option overrides it
+    target: 'bicep' | 'terraform' | 'both';
+  };
+
+  // Deterministic cost estimate priced from the offline pricing catalog
+  cost: {
+    // Currency of the cost tables; the analyze --currency option overrides it
+    currency: CostCurrency;
+    pricingCatalog: string;
+    // Cost claims of the report that differ from the baseline by more than tolerance are flagged, or rewritten
+    reconciliation: ReconciliationMode;
+    tolerance: number;
+    // Growth, migration and on-premises assumptions of the TCO projection
+    tcoAssumptions: string;
+    // Business units, shared service allocation and data classification behind the FinOps tagging and chargeback
+    finopsModel: string;
+  };
+
+  // Well-Architected Framework assessment
+  waf: {
+    // Share of the deterministic rule score in a pillar score (0 = LLM only, 1 = rules only)
+    ruleWeight: number;
+    // Organisational checklist items (YAML or JSON) assessed with the WAF items; the analyze --policy-pack option overrides it
+    policyPack?: string;
+  };
+
+  // Regulatory compliance control matrix of the WAF assessment
+  compliance: {
+    // Frameworks and controls mapped to services, regions and SKUs
+    controlCatalog: string;
+    // Framework IDs to assess (e.g. finma, gdpr); empty detects them in the compliance requirements
+    frameworks: string[];
   };
 
   // Agent Configuration
@@ -43,31 +103,38 @@ export interface AppConfig {
       enabled: boolean;
       maxRetries: number;
       temperature: number;
+      // Force a logical model for this agent, bypassing complexity-based routing
+      model?: string;
     };
     requirementsAnalyst: {
       enabled: boolean;
       maxTokens: number;
       temperature: number;
+      model?: string;
     };
     architecture: {
       enabled: boolean;
       maxTokens: number;
       temperature: number;
+      model?: string;
     };
     costOptimizer: {
       enabled: boolean;
       maxTokens: number;
       temperature: number;
+      model?: string;
     };
     riskAssessor: {
       enabled: boolean;
       maxTokens: number;
       temperature: number;
+      model?: string;
     };
     documentation: {
       enabled: boolean;
       maxTokens: number;
       temperature: number;
+      model?: string;
     };
   };
 
@@ -100,6 +167,37 @@ const DEFAULT_CONFIG: AppConfig = {
     maxTokens: 2500, // Increased for comprehensive responses
     temperature: 0.3,
     timeout: 60000, // Increased to 60 seconds per agent
+    workflowFile: 'flows/architecture-analysis/workflow.json',
+  },
+  llm: {
+    transport: 'live',
+    cassetteDirectory: 'tests/cassettes',
+    stream: true,
+    routing: {
+      enabled: true,
+      deployments: {},
+    },
+  },
+  diagrams: {
+    png: false,
+  },
+  iac: {
+    target: 'bicep',
+  },
+  cost: {
+    currency: 'USD',
+    pricingCatalog: 'pricing/azure-pricing-catalog.json',
+    reconciliation: 'flag',
+    tolerance: 0.2,
+    tcoAssumptions: 'pricing/tco-assumptions.json',
+    finopsModel: 'pricing/finops-model.json',
+  },
+  waf: {
+    ruleWeight: 0.5,
+  },
+  compliance: {
+    controlCatalog: 'waf-knowledge-base/compliance-controls.json',
+    frameworks: [],
   },
   agents: {
     orchestrator: {
@@ -212,6 +310,74 @@ class ConfigManager {
     if (envVars.MAX_TOKENS) config.app.maxTokens = parseInt(envVars.MAX_TOKENS);
     if (envVars.TEMPERATURE) config.app.temperature = parseFloat(envVars.TEMPERATURE);
     if (envVars.TIMEOUT) config.app.timeout = parseInt(envVars.TIMEOUT);
+    if (envVars.WORKFLOW_FILE) config.app.workflowFile = envVars.WORKFLOW_FILE;
+    if (envVars.LLM_TRANSPORT) config.llm.transport = envVars.LLM_TRANSPORT as LLMTransportMode;
+    if (envVars.LLM_CASSETTE_DIR) config.llm.cassetteDirectory = envVars.LLM_CASSETTE_DIR;
+    if (envVars.LLM_STREAM) config.llm.stream = envVars.LLM_STREAM !== 'off' && envVars.LLM_STREAM !== 'false';
+    if (envVars.DIAGRAM_PNG) config.diagrams.png = envVars.DIAGRAM_PNG === 'on' || envVars.DIAGRAM_PNG === 'true';
+    if (envVars.IAC_TARGET) {
+      if (!['bicep', 'terraform', 'both'].includes(envVars.IAC_TARGET)) {
+        throw new Error(`IAC_TARGET: unknown target "${envVars.IAC_TARGET}" (expected bicep, terraform or both)`);
+      }
+      config.iac.target = envVars.IAC_TARGET as AppConfig['iac']['target'];
+    }
+    if (envVars.COST_CURRENCY) {
+      const currency = envVars.COST_CURRENCY.toUpperCase();
+      if (!['USD', 'EUR', 'CHF'].includes(currency)) {
+        throw new Error(`COST_CURRENCY: unsupported currency "${envVars.COST_CURRENCY}" (expected USD, EUR or CHF)`);
+      }
+      config.cost.currency = currency as CostCurrency;
+    }
+    if (envVars.PRICING_CATALOG) config.cost.pricingCatalog = envVars.PRICING_CATALOG;
+    if (envVars.TCO_ASSUMPTIONS) config.cost.tcoAssumptions = envVars.TCO_ASSUMPTIONS;
+    if (envVars.FINOPS_MODEL) config.cost.finopsModel = envVars.FINOPS_MODEL;
+    if (envVars.COST_RECONCILIATION) {
+      if (!['flag', 'rewrite'].includes(envVars.COST_RECONCILIATION)) {
+        throw new Error(`COST_RECONCILIATION: unsupported mode "${envVars.COST_RECONCILIATION}" (expected flag or rewrite)`);
+      }
+      config.cost.reconciliation = envVars.COST_RECONCILIATION as ReconciliationMode;
+    }
+    if (envVars.COST_TOLERANCE) {
+      const tolerance = Number(envVars.COST_TOLERANCE);
+      if (!Number.isFinite(tolerance) || tolerance <= 0) {
+        throw new Error(`COST_TOLERANCE: expected a positive fraction such as 0.2, got "${envVars.COST_TOLERANCE}"`);
+      }
+      config.cost.tolerance = tolerance;
+    }
+    if (envVars.WAF_RULE_WEIGHT) {
+      const ruleWeight = Number(envVars.WAF_RULE_WEIGHT);
+      if (!Number.isFinite(ruleWeight) || ruleWeight < 0 || ruleWeight > 1) {
+        throw new Error(`WAF_RULE_WEIGHT: expected a fraction between 0 and 1, got "${envVars.WAF_RULE_WEIGHT}"`);
+      }
+      config.waf.ruleWeight = ruleWeight;
+    }
+    if (envVars.WAF_POLICY_PACK) config.waf.policyPack = envVars.WAF_POLICY_PACK;
+    if (envVars.COMPLIANCE_CATALOG) config.compliance.controlCatalog = envVars.COMPLIANCE_CATALOG;
+    if (envVars.COMPLIANCE_FRAMEWORKS) {
+      config.compliance.frameworks = envVars.COMPLIANCE_FRAMEWORKS.split(',').map(id => id.trim().toLowerCase()).filter(Boolean);
+    }
+    if (envVars.LLM_ROUTING) config.llm.routing.enabled = envVars.LLM_ROUTING !== 'off' && envVars.LLM_ROUTING !== 'false';
+    if (envVars.LLM_DEPLOYMENTS) config.llm.routing.deployments = this.parseKeyValueList(envVars.LLM_DEPLOYMENTS);
+    if (envVars.AGENT_MODELS) {
+      for (const [agent, model] of Object.entries(this.parseKeyValueList(envVars.AGENT_MODELS))) {
+        if (!(agent in config.agents)) {
+          throw new Error(`AGENT_MODELS: unknown agent "${agent}" (expected one of: ${Object.keys(config.agents).join(', ')})`);
+        }
+        (config.agents as Record<string, { model?: string }>)[agent].model = model;
+      }
+    }
+  }
+
+  // "a=b,c=d" -> { a: 'b', c: 'd' }
+  private parseKeyValueList(value: string): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const pair of value.split(',')) {
+      const [key, ...rest] = pair.split('=');
+      if (key?.trim() && rest.length > 0) {
+        result[key.trim()] = rest.join('=').trim();
+      }
+    }
+    return result;
   }
 
   private parseEnvFile(content: string): Record<string, string> {
@@ -267,6 +433,11 @@ class ConfigManager {
     if (!validLogLevels.includes(config.app.logLevel)) {
       throw new Error(`LOG_LEVEL must be one of: ${validLogLevels.join(', ')}`);
     }
+
+    const validTransports = ['live', 'record', 'replay'];
+    if (!validTransports.includes(config.llm.transport)) {
+      throw new Error(`LLM_TRANSPORT must be one of: ${validTransports.join(', ')}`);
+    }
   }
 
   // Public API
@@ -333,6 +504,43 @@ OUTPUT_DIRECTORY=${this.config.app.outputDirectory}
 MAX_TOKENS=${this.config.app.maxTokens}
 TEMPERATURE=${this.config.app.temperature}
 TIMEOUT=${this.config.app.timeout}
+WORKFLOW_FILE=${this.config.app.workflowFile}
+
+# LLM Transport (live | record | replay)
+LLM_TRANSPORT=${this.config.llm.transport}
+LLM_CASSETTE_DIR=${this.config.llm.cassetteDirectory}
+LLM_STREAM=${this.config.llm.stream ? 'on' : 'off'}
+
+# Model Routing (logical model -> deployment, e.g. gpt-3.5-turbo=my-gpt4o-mini)
+LLM_ROUTING=${this.config.llm.routing.enabled ? 'on' : 'off'}
+# LLM_DEPLOYMENTS=gpt-4.1=gpt-4.1,gpt-3.5-turbo=gpt-4o-mini
+# AGENT_MODELS=architecture=gpt-4.1,riskAssessor=gpt-3.5-turbo
+
+# Diagrams (PNG needs rsvg-convert, resvg, Inkscape or ImageMagick)
+DIAGRAM_PNG=${this.config.diagrams.png ? 'on' : 'off'}
+
+# Infrastructure as code (bicep, terraform or both)
+IAC_TARGET=${this.config.iac.target}
+
+# Cost estimate (USD, EUR or CHF) and offline pricing catalog
+COST_CURRENCY=${this.config.cost.currency}
+PRICING_CATALOG=${this.config.cost.pricingCatalog}
+# Cost claims that differ from the calculated baseline by more than the tolerance: flag or rewrite
+COST_RECONCILIATION=${this.config.cost.reconciliation}
+COST_TOLERANCE=${this.config.cost.tolerance}
+# Growth, migration and on-premises assumptions of the TCO projection
+TCO_ASSUMPTIONS=${this.config.cost.tcoAssumptions}
+# Business units, shared service allocation and data classification of the FinOps chargeback
+FINOPS_MODEL=${this.config.cost.finopsModel}
+
+# WAF assessment: share of the deterministic rule score in each pillar score (0-1)
+WAF_RULE_WEIGHT=${this.config.waf.ruleWeight}
+# Organisational policy pack (YAML or JSON) assessed with the WAF checklists
+${this.config.waf.policyPack ? `WAF_POLICY_PACK=${this.config.waf.policyPack}` : '# WAF_POLICY_PACK=waf-knowledge-base/policy-packs/swiss-financial-services.yaml'}
+
+# Regulatory compliance control matrix: control catalog and frameworks (comma list; empty detects them in the requirements)
+COMPLIANCE_CATALOG=${this.config.compliance.controlCatalog}
+COMPLIANCE_FRAMEWORKS=${this.config.compliance.frameworks.join(',')}
 
 # CLI Settings  
 COLOR_OUTPUT=${this.config.cli.colorOutput}
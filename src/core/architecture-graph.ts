@@ -0,0 +1,332 @@
+/**
+ * Architecture Graph
+ * Provider-neutral model of the recommended architecture: services as nodes,
+ * data flows as directed edges and trust boundaries / networks / sites as groups.
+ * Built from the validated architecture (and cost) artifacts and consumed by
+ * diagram, cost, WAF and IaC generation. Serialized to architecture.graph.json.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ValidationResult } from '../utils/schema-validator.js';
+import {
+  ArchitectureArtifact,
+  ArchitectureGroupKind,
+  CostArtifact,
+  FlowDirection
+} from './pipeline-artifacts.js';
+import { ServiceCategory, resolveServiceType } from './azure-service-catalog.js';
+
+export const ARCHITECTURE_GRAPH_FILE = 'architecture.graph.json';
+export const ARCHITECTURE_GRAPH_VERSION = 1;
+
+export interface ArchitectureNode {
+  id: string;
+  name: string;
+  // Catalog type key (e.g. "app-service"), or "custom" when the service is not in the catalog
+  type: string;
+  // Provider-neutral role (e.g. "web-hosting")
+  kind: string;
+  category: ServiceCategory;
+  armType?: string;
+  sku: string;
+  tier?: string;
+  region: string;
+  zone?: string;
+  // USD per month
+  monthlyCost?: number;
+  costSource?: 'architecture' | 'cost-analysis';
+  purpose: string;
+  groups: string[];
+}
+
+export interface ArchitectureFlow {
+  id: string;
+  from: string;
+  to: string;
+  description: string;
+  protocol?: string;
+  direction: FlowDirection;
+}
+
+export interface ArchitectureGroup {
+  id: string;
+  name: string;
+  kind: ArchitectureGroupKind;
+  parent?: string;
+}
+
+export interface ArchitectureGraph {
+  schemaVersion: number;
+  name: string;
+  summary: string;
+  regions: string[];
+  currency: 'USD';
+  // Sum of the node costs that are known
+  totalMonthlyCost: number;
+  nodes: ArchitectureNode[];
+  flows: ArchitectureFlow[];
+  groups: ArchitectureGroup[];
+}
+
+const ON_PREMISES_GROUP = 'on-premises';
+
+const PERSON_PATTERN = /\b(users?|customers?|clinicians?|staff|employees?|operators?|admins?|administrators?|patients?|partners?|agents?|analysts?|developers?|people|persons?|actors?)\b/i;
+
+// Tier names that lead most SKU strings ("Premium P1v3", "General Purpose Gen5 4 vCore")
+const TIER_PATTERN = /^(free|basic|standard|premium|developer|consumption|serverless|general purpose|business critical|hyperscale|memory optimized|burstable)\b/i;
+
+export interface GraphBuildOptions {
+  // Units of each currency per USD (the pricing catalog's exchange rates)
+  exchangeRates?: Partial<Record<string, number>>;
+}
+
+/**
+ * Build the graph from the architecture artifact. Service names are resolved
+ * against the service catalog; costs missing on a service are filled in from the
+ * cost artifact when a breakdown line clearly belongs to it, converted to USD.
+ */
+export function buildArchitectureGraph(architecture: ArchitectureArtifact, cost?: CostArtifact, options: GraphBuildOptions = {}): ArchitectureGraph {
+  const groups: ArchitectureGroup[] = (architecture.groups || []).map(group => ({ ...group }));
+
+  const nodes: ArchitectureNode[] = architecture.services.map(service => {
+    const type = resolveServiceType(service.name);
+    return {
+      id: service.id,
+      name: service.name,
+      type: type?.key || 'custom',
+      kind: type?.kind || service.category,
+      category: service.category as ServiceCategory,
+      armType: type?.armType,
+      sku: service.sku,
+      tier: service.tier || service.sku.match(TIER_PATTERN)?.[1],
+      region: service.region,
+      zone: service.zone,
+      monthlyCost: service.monthlyCost,
+      costSource: service.monthlyCost !== undefined ? 'architecture' : undefined,
+      purpose: service.purpose,
+      groups: [...(service.groups || [])]
+    };
+  });
+
+  if (cost) {
+    fillCostsFromBreakdown(nodes, cost, options.exchangeRates);
+  }
+
+  // On-premises systems always sit behind their own boundary
+  const onPremises = nodes.filter(node => node.category === 'on-premises' &&
+    !node.groups.some(id => groups.find(group => group.id === id)?.kind === 'on-premises'));
+  if (onPremises.length > 0) {
+    let id = groups.find(group => group.kind === 'on-premises')?.id;
+    if (!id) {
+      id = uniqueId(ON_PREMISES_GROUP, new Set(groups.map(group => group.id)));
+      groups.push({ id, name: 'On-premises', kind: 'on-premises' });
+    }
+    onPremises.forEach(node => node.groups.push(id!));
+  }
+
+  const flows: ArchitectureFlow[] = architecture.edges.map((edge, index) => ({
+    id: `flow-${index + 1}`,
+    from: edge.from,
+    to: edge.to,
+    description: edge.description,
+    protocol: edge.protocol,
+    direction: edge.direction || 'one-way'
+  }));
+
+  return {
+    schemaVersion: ARCHITECTURE_GRAPH_VERSION,
+    name: architecture.name,
+    summary: architecture.summary,
+    regions: [...architecture.regions],
+    currency: 'USD',
+    totalMonthlyCost: totalMonthlyCost(nodes),
+    nodes,
+    flows,
+    groups
+  };
+}
+
+/**
+ * Structural checks: unique ids, flows and group memberships that resolve,
+ * and group nesting without cycles
+ */
+export function validateArchitectureGraph(graph: ArchitectureGraph): ValidationResult {
+  const errors: string[] = [];
+
+  if (graph.schemaVersion !== ARCHITECTURE_GRAPH_VERSION) {
+    errors.push(`$.schemaVersion: unsupported version ${graph.schemaVersion} (expected ${ARCHITECTURE_GRAPH_VERSION})`);
+    return { valid: false, errors };
+  }
+
+  const nodeIds = new Set<string>();
+  graph.nodes.forEach((node, index) => {
+    if (nodeIds.has(node.id)) errors.push(`$.nodes[${index}].id: duplicate node id "${node.id}"`);
+    nodeIds.add(node.id);
+  });
+
+  const groupIds = new Set(graph.groups.map(group => group.id));
+  if (groupIds.size !== graph.groups.length) errors.push('$.groups: duplicate group ids');
+
+  graph.flows.forEach((flow, index) => {
+    if (!nodeIds.has(flow.from)) errors.push(`$.flows[${index}].from: unknown node id "${flow.from}"`);
+    if (!nodeIds.has(flow.to)) errors.push(`$.flows[${index}].to: unknown node id "${flow.to}"`);
+  });
+
+  graph.nodes.forEach((node, index) => {
+    node.groups.forEach(id => {
+      if (!groupIds.has(id)) errors.push(`$.nodes[${index}].groups: unknown group id "${id}"`);
+    });
+  });
+
+  graph.groups.forEach((group, index) => {
+    if (group.parent !== undefined && !groupIds.has(group.parent)) {
+      errors.push(`$.groups[${index}].parent: unknown group id "${group.parent}"`);
+    } else if (groupAncestors(graph, group.id).includes(group.id)) {
+      errors.push(`$.groups[${index}].parent: group "${group.id}" is nested inside itself`);
+    }
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Ids of the enclosing groups of a group, innermost first. Stops at a cycle.
+ */
+export function groupAncestors(graph: ArchitectureGraph, groupId: string): string[] {
+  const ancestors: string[] = [];
+  let current = graph.groups.find(group => group.id === groupId)?.parent;
+  while (current && !ancestors.includes(current)) {
+    ancestors.push(current);
+    current = graph.groups.find(group => group.id === current)?.parent;
+  }
+  return ancestors;
+}
+
+/**
+ * Nodes deployed to Azure - excludes users, external systems and on-premises hosts
+ */
+export function azureNodes(graph: ArchitectureGraph): ArchitectureNode[] {
+  return graph.nodes.filter(node => node.category !== 'external' && node.category !== 'on-premises');
+}
+
+/**
+ * External nodes that are people (users, clinicians, operators) rather than systems
+ */
+export function isPersonNode(node: ArchitectureNode): boolean {
+  return node.category === 'external' && PERSON_PATTERN.test(node.name);
+}
+
+/**
+ * Whole-dollar amount for diagrams and tables, e.g. "$1,250"
+ */
+export function formatMonthlyCost(amount: number): string {
+  return `$${Math.round(amount).toLocaleString('en-US')}`;
+}
+
+export function nodesInGroup(graph: ArchitectureGraph, groupId: string): ArchitectureNode[] {
+  return graph.nodes.filter(node => node.groups.includes(groupId));
+}
+
+/**
+ * Compact rendering of the graph for prompts, so downstream agents work from
+ * the same nodes, flows and boundaries
+ */
+export function formatGraphForPrompt(graph: ArchitectureGraph): string {
+  const compact = {
+    nodes: graph.nodes.map(node => ({
+      id: node.id,
+      name: node.name,
+      type: node.type,
+      sku: node.sku,
+      tier: node.tier,
+      region: node.region,
+      zone: node.zone,
+      monthlyCost: node.monthlyCost,
+      groups: node.groups.length > 0 ? node.groups : undefined
+    })),
+    flows: graph.flows.map(flow => ({
+      from: flow.from,
+      to: flow.to,
+      protocol: flow.protocol,
+      direction: flow.direction,
+      description: flow.description
+    })),
+    groups: graph.groups
+  };
+  return `ARCHITECTURE GRAPH (JSON):\n${JSON.stringify(compact, null, 2)}`;
+}
+
+/**
+ * Write the graph to <case study folder>/architecture.graph.json. Invalid graphs are not written.
+ */
+export async function saveArchitectureGraph(graph: ArchitectureGraph, caseStudyFolder?: string): Promise<void> {
+  if (!caseStudyFolder) return;
+
+  const validation = validateArchitectureGraph(graph);
+  if (!validation.valid) {
+    console.warn(`   ⚠️ Refusing to save invalid architecture graph: ${validation.errors[0]}`);
+    return;
+  }
+
+  try {
+    const outputDir = path.join(process.cwd(), 'output', caseStudyFolder);
+    await fs.mkdir(outputDir, { recursive: true });
+    await fs.writeFile(path.join(outputDir, ARCHITECTURE_GRAPH_FILE), JSON.stringify(graph, null, 2), 'utf-8');
+  } catch (error) {
+    console.warn(`   ⚠️ Failed to save architecture graph: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Load a saved graph, returning undefined when missing or invalid
+ */
+export async function loadArchitectureGraph(caseStudyFolder: string): Promise<ArchitectureGraph | undefined> {
+  try {
+    const filepath = path.join(process.cwd(), 'output', caseStudyFolder, ARCHITECTURE_GRAPH_FILE);
+    const parsed = JSON.parse(await fs.readFile(filepath, 'utf-8'));
+    return validateArchitectureGraph(parsed).valid ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A breakdown line belongs to a node when it names the node (or its id), or when
+ * it names a catalog type only one uncosted node has. Graph costs are USD, so a
+ * breakdown in a currency without an exchange rate is left out.
+ */
+function fillCostsFromBreakdown(nodes: ArchitectureNode[], cost: CostArtifact, exchangeRates?: Partial<Record<string, number>>): void {
+  const currency = (cost.currency || 'USD').trim().toUpperCase();
+  const rate = currency === 'USD' ? 1 : exchangeRates?.[currency];
+  if (!rate) return;
+
+  const normalize = (text: string) => text.toLowerCase().replace(/^\s*(microsoft|azure)\s+/, '').trim();
+
+  for (const item of cost.breakdown) {
+    const uncosted = nodes.filter(node => node.monthlyCost === undefined);
+    const name = normalize(item.service);
+    let match = uncosted.find(node => normalize(node.name) === name || node.id === item.service);
+
+    if (!match) {
+      const type = resolveServiceType(item.service);
+      const candidates = type ? uncosted.filter(node => node.type === type.key) : [];
+      if (candidates.length === 1) match = candidates[0];
+    }
+
+    if (match) {
+      match.monthlyCost = Math.round(item.monthlyCost / rate * 100) / 100;
+      match.costSource = 'cost-analysis';
+    }
+  }
+}
+
+function totalMonthlyCost(nodes: ArchitectureNode[]): number {
+  return Math.round(nodes.reduce((total, node) => total + (node.monthlyCost ?? 0), 0) * 100) / 100;
+}
+
+function uniqueId(base: string, taken: Set<string>): string {
+  let id = base;
+  for (let suffix = 2; taken.has(id); suffix++) id = `${base}-${suffix}`;
+  return id;
+}
@@ -0,0 +1,134 @@
+/**
+ * Azure Service Catalog
+ * Canonical Azure service types used by the architecture graph. Each entry maps
+ * the names models write ("App Service", "Azure SQL", "AKS") to one service
+ * type, its provider-neutral kind and its ARM resource type.
+ */
+
+export type ServiceCategory =
+  | 'compute'
+  | 'data'
+  | 'networking'
+  | 'security'
+  | 'integration'
+  | 'ai'
+  | 'monitoring'
+  | 'identity'
+  | 'storage'
+  | 'external'
+  | 'on-premises';
+
+export interface AzureServiceType {
+  // Canonical type id, e.g. "app-service"
+  key: string;
+  name: string;
+  category: ServiceCategory;
+  // Provider-neutral role, e.g. "web-hosting" - the same kind maps to other clouds
+  kind: string;
+  armType?: string;
+  // Lower-case spellings matched against service names
+  aliases: string[];
+}
+
+export const AZURE_SERVICE_CATALOG: AzureServiceType[] = [
+  // Compute
+  { key: 'app-service', name: 'Azure App Service', category: 'compute', kind: 'web-hosting', armType: 'Microsoft.Web/sites', aliases: ['app service', 'web app', 'web apps', 'app service plan'] },
+  { key: 'functions', name: 'Azure Functions', category: 'compute', kind: 'serverless-functions', armType: 'Microsoft.Web/sites', aliases: ['functions', 'function app', 'function apps'] },
+  { key: 'kubernetes-service', name: 'Azure Kubernetes Service', category: 'compute', kind: 'container-orchestration', armType: 'Microsoft.ContainerService/managedClusters', aliases: ['aks', 'kubernetes service', 'kubernetes'] },
+  { key: 'container-apps', name: 'Azure Container Apps', category: 'compute', kind: 'serverless-containers', armType: 'Microsoft.App/containerApps', aliases: ['container apps', 'container app'] },
+  { key: 'container-instances', name: 'Azure Container Instances', category: 'compute', kind: 'serverless-containers', armType: 'Microsoft.ContainerInstance/containerGroups', aliases: ['container instances', 'aci'] },
+  { key: 'virtual-machines', name: 'Azure Virtual Machines', category: 'compute', kind: 'virtual-machine', armType: 'Microsoft.Compute/virtualMachines', aliases: ['virtual machine', 'virtual machines', 'vm', 'vms', 'vm scale set', 'virtual machine scale sets', 'vmss'] },
+  { key: 'stack-edge', name: 'Azure Stack Edge', category: 'compute', kind: 'edge-compute', armType: 'Microsoft.DataBoxEdge/dataBoxEdgeDevices', aliases: ['stack edge', 'azure stack edge pro', 'stack hci', 'azure stack hci'] },
+  { key: 'static-web-apps', name: 'Azure Static Web Apps', category: 'compute', kind: 'static-site-hosting', armType: 'Microsoft.Web/staticSites', aliases: ['static web apps', 'static web app'] },
+
+  // Data
+  { key: 'sql-database', name: 'Azure SQL Database', category: 'data', kind: 'relational-database', armType: 'Microsoft.Sql/servers/databases', aliases: ['sql database', 'azure sql', 'sql db', 'sql managed instance', 'sql mi'] },
+  { key: 'postgresql', name: 'Azure Database for PostgreSQL', category: 'data', kind: 'relational-database', armType: 'Microsoft.DBforPostgreSQL/flexibleServers', aliases: ['postgresql', 'postgres', 'database for postgresql'] },
+  { key: 'mysql', name: 'Azure Database for MySQL', category: 'data', kind: 'relational-database', armType: 'Microsoft.DBforMySQL/flexibleServers', aliases: ['mysql', 'database for mysql'] },
+  { key: 'cosmos-db', name: 'Azure Cosmos DB', category: 'data', kind: 'document-database', armType: 'Microsoft.DocumentDB/databaseAccounts', aliases: ['cosmos db', 'cosmosdb', 'cosmos'] },
+  { key: 'redis-cache', name: 'Azure Cache for Redis', category: 'data', kind: 'cache', armType: 'Microsoft.Cache/redis', aliases: ['cache for redis', 'redis cache', 'redis'] },
+  { key: 'synapse-analytics', name: 'Azure Synapse Analytics', category: 'data', kind: 'data-warehouse', armType: 'Microsoft.Synapse/workspaces', aliases: ['synapse analytics', 'synapse'] },
+  { key: 'data-factory', name: 'Azure Data Factory', category: 'data', kind: 'etl-pipeline', armType: 'Microsoft.DataFactory/factories', aliases: ['data factory', 'adf'] },
+  { key: 'databricks', name: 'Azure Databricks', category: 'data', kind: 'analytics-platform', armType: 'Microsoft.Databricks/workspaces', aliases: ['databricks'] },
+  { key: 'fabric', name: 'Microsoft Fabric', category: 'data', kind: 'analytics-platform', armType: 'Microsoft.Fabric/capacities', aliases: ['fabric', 'onelake'] },
+
+  // Storage
+  { key: 'storage-account', name: 'Azure Storage Account', category: 'storage', kind: 'object-storage', armType: 'Microsoft.Storage/storageAccounts', aliases: ['storage account', 'blob storage', 'storage', 'data lake storage', 'adls', 'adls gen2', 'files', 'azure files'] },
+
+  // Networking
+  { key: 'virtual-network', name: 'Azure Virtual Network', category: 'networking', kind: 'private-network', armType: 'Microsoft.Network/virtualNetworks', aliases: ['virtual network', 'vnet'] },
+  { key: 'application-gateway', name: 'Azure Application Gateway', category: 'networking', kind: 'layer7-load-balancer', armType: 'Microsoft.Network/applicationGateways', aliases: ['application gateway', 'app gateway', 'waf v2'] },
+  { key: 'front-door', name: 'Azure Front Door', category: 'networking', kind: 'global-edge-router', armType: 'Microsoft.Cdn/profiles', aliases: ['front door', 'afd', 'cdn'] },
+  { key: 'load-balancer', name: 'Azure Load Balancer', category: 'networking', kind: 'layer4-load-balancer', armType: 'Microsoft.Network/loadBalancers', aliases: ['load balancer'] },
+  { key: 'vpn-gateway', name: 'Azure VPN Gateway', category: 'networking', kind: 'vpn-gateway', armType: 'Microsoft.Network/virtualNetworkGateways', aliases: ['vpn gateway', 'site-to-site vpn', 'vpn'] },
+  { key: 'expressroute', name: 'Azure ExpressRoute', category: 'networking', kind: 'private-interconnect', armType: 'Microsoft.Network/expressRouteCircuits', aliases: ['expressroute', 'express route'] },
+  { key: 'firewall', name: 'Azure Firewall', category: 'networking', kind: 'network-firewall', armType: 'Microsoft.Network/azureFirewalls', aliases: ['firewall'] },
+  { key: 'private-link', name: 'Azure Private Link', category: 'networking', kind: 'private-endpoint', armType: 'Microsoft.Network/privateEndpoints', aliases: ['private link', 'private endpoint', 'private endpoints'] },
+  { key: 'dns', name: 'Azure DNS', category: 'networking', kind: 'dns', armType: 'Microsoft.Network/dnsZones', aliases: ['dns', 'private dns'] },
+
+  // Integration
+  { key: 'api-management', name: 'Azure API Management', category: 'integration', kind: 'api-gateway', armType: 'Microsoft.ApiManagement/service', aliases: ['api management', 'apim'] },
+  { key: 'service-bus', name: 'Azure Service Bus', category: 'integration', kind: 'message-queue', armType: 'Microsoft.ServiceBus/namespaces', aliases: ['service bus'] },
+  { key: 'event-hubs', name: 'Azure Event Hubs', category: 'integration', kind: 'event-streaming', armType: 'Microsoft.EventHub/namespaces', aliases: ['event hubs', 'event hub'] },
+  { key: 'event-grid', name: 'Azure Event Grid', category: 'integration', kind: 'event-routing', armType: 'Microsoft.EventGrid/topics', aliases: ['event grid'] },
+  { key: 'logic-apps', name: 'Azure Logic Apps', category: 'integration', kind: 'workflow-automation', armType: 'Microsoft.Logic/workflows', aliases: ['logic apps', 'logic app'] },
+  { key: 'iot-hub', name: 'Azure IoT Hub', category: 'integration', kind: 'iot-ingestion', armType: 'Microsoft.Devices/IotHubs', aliases: ['iot hub'] },
+
+  // AI
+  { key: 'openai', name: 'Azure OpenAI', category: 'ai', kind: 'llm-inference', armType: 'Microsoft.CognitiveServices/accounts', aliases: ['openai', 'azure openai service', 'ai foundry', 'azure ai foundry'] },
+  { key: 'ai-search', name: 'Azure AI Search', category: 'ai', kind: 'search-index', armType: 'Microsoft.Search/searchServices', aliases: ['ai search', 'cognitive search', 'search service'] },
+  { key: 'ai-services', name: 'Azure AI Services', category: 'ai', kind: 'ai-apis', armType: 'Microsoft.CognitiveServices/accounts', aliases: ['ai services', 'cognitive services', 'document intelligence', 'form recognizer', 'ai vision', 'speech'] },
+  { key: 'machine-learning', name: 'Azure Machine Learning', category: 'ai', kind: 'ml-platform', armType: 'Microsoft.MachineLearningServices/workspaces', aliases: ['machine learning', 'azure ml', 'aml'] },
+
+  // Security and identity
+  { key: 'key-vault', name: 'Azure Key Vault', category: 'security', kind: 'secret-store', armType: 'Microsoft.KeyVault/vaults', aliases: ['key vault', 'keyvault', 'managed hsm'] },
+  { key: 'defender-for-cloud', name: 'Microsoft Defender for Cloud', category: 'security', kind: 'security-posture', armType: 'Microsoft.Security/pricings', aliases: ['defender for cloud', 'defender'] },
+  { key: 'sentinel', name: 'Microsoft Sentinel', category: 'security', kind: 'siem', armType: 'Microsoft.SecurityInsights/onboardingStates', aliases: ['sentinel', 'azure sentinel'] },
+  { key: 'entra-id', name: 'Microsoft Entra ID', category: 'identity', kind: 'identity-provider', aliases: ['entra id', 'entra', 'azure ad', 'azure active directory', 'active directory', 'aad', 'entra external id', 'azure ad b2c'] },
+
+  // Monitoring
+  { key: 'monitor', name: 'Azure Monitor', category: 'monitoring', kind: 'monitoring', armType: 'Microsoft.Insights/components', aliases: ['monitor', 'application insights', 'app insights'] },
+  { key: 'log-analytics', name: 'Log Analytics Workspace', category: 'monitoring', kind: 'log-store', armType: 'Microsoft.OperationalInsights/workspaces', aliases: ['log analytics', 'log analytics workspace'] }
+];
+
+const BY_KEY = new Map(AZURE_SERVICE_CATALOG.map(entry => [entry.key, entry]));
+
+/**
+ * Reduce a service name to the form aliases are written in
+ */
+function canonicalName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/^\s*(microsoft|azure)\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function getServiceType(key: string): AzureServiceType | undefined {
+  return BY_KEY.get(key);
+}
+
+/**
+ * Resolve a free-form service name to its catalog entry. Exact names and aliases
+ * win; otherwise the longest alias contained in the name is used, so
+ * "Azure SQL Database (Business Critical)" resolves to sql-database.
+ */
+export function resolveServiceType(name: string): AzureServiceType | undefined {
+  const canonical = canonicalName(name);
+  if (!canonical) return undefined;
+
+  const exact = AZURE_SERVICE_CATALOG.find(entry =>
+    canonicalName(entry.name) === canonical || entry.aliases.some(alias => canonicalName(alias) === canonical));
+  if (exact) return exact;
+
+  let best: { entry: AzureServiceType; length: number } | undefined;
+  for (const entry of AZURE_SERVICE_CATALOG) {
+    for (const alias of entry.aliases.map(canonicalName)) {
+      if (alias.length > (best?.length ?? 2) && new RegExp(`\\b${alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(canonical)) {
+        best = { entry, length: alias.length };
+      }
+    }
+  }
+  return best?.entry;
+}
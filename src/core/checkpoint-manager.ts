@@ -0,0 +1,158 @@
+/**
+ * Checkpoint Manager
+ * Maintains a machine-readable manifest of workflow progress in the case study
+ * folder so interrupted analyses can be resumed without re-running finished steps
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { StepResult, StepStatus, WorkflowDefinition, WorkflowStepDefinition, outputKeys } from './workflow-engine.js';
+
+export interface CheckpointStepRecord {
+  status: StepStatus;
+  startedAt?: number;
+  durationMs?: number;
+  error?: string;
+  outputs: string[];
+}
+
+export interface CheckpointManifest {
+  version: 1;
+  caseStudyFolder: string;
+  workflow: {
+    name: string;
+    version: string;
+    file: string;
+  };
+  status: 'running' | 'completed' | 'failed';
+  createdAt: string;
+  updatedAt: string;
+  resumedAt?: string[];
+  steps: Record<string, CheckpointStepRecord>;
+}
+
+export const CHECKPOINT_MANIFEST = 'checkpoint.json';
+export const CASE_STUDY_FILE = 'original-case-study.md';
+
+export class CheckpointManager {
+  private folderPath: string;
+  private manifest?: CheckpointManifest;
+  // Parallel steps finish concurrently - serialize manifest writes
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(caseStudyFolder: string) {
+    this.folderPath = CheckpointManager.resolveFolder(caseStudyFolder);
+  }
+
+  static resolveFolder(caseStudyFolder: string): string {
+    return path.join(process.cwd(), 'output', path.basename(caseStudyFolder));
+  }
+
+  /**
+   * Read the manifest of a previous run, or undefined when the folder has none
+   */
+  static async load(caseStudyFolder: string): Promise<CheckpointManifest | undefined> {
+    try {
+      const content = await fs.readFile(path.join(CheckpointManager.resolveFolder(caseStudyFolder), CHECKPOINT_MANIFEST), 'utf-8');
+      const manifest = JSON.parse(content) as CheckpointManifest;
+      return manifest.version === 1 && manifest.steps ? manifest : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Start (or continue) a manifest. The case study text is written alongside so
+   * `resume` only needs the folder name.
+   */
+  async initialize(
+    definition: WorkflowDefinition,
+    workflowFile: string,
+    caseStudyText: string,
+    previous?: CheckpointManifest
+  ): Promise<void> {
+    await fs.mkdir(path.join(this.folderPath, 'checkpoint'), { recursive: true });
+    await fs.writeFile(path.join(this.folderPath, CASE_STUDY_FILE), caseStudyText, 'utf-8');
+
+    const now = new Date().toISOString();
+    this.manifest = {
+      version: 1,
+      caseStudyFolder: path.basename(this.folderPath),
+      workflow: { name: definition.name, version: definition.version, file: workflowFile },
+      status: 'running',
+      createdAt: previous?.createdAt || now,
+      updatedAt: now,
+      resumedAt: previous ? [...(previous.resumedAt || []), now] : undefined,
+      steps: {}
+    };
+
+    // Keep records of steps that are still valid so the manifest stays complete
+    for (const step of definition.steps) {
+      const record = previous?.steps[step.id];
+      if (record) this.manifest.steps[step.id] = record;
+    }
+
+    await this.persist();
+  }
+
+  async markStepStarted(step: WorkflowStepDefinition): Promise<void> {
+    if (!this.manifest) return;
+    this.manifest.steps[step.id] = { status: 'running', startedAt: Date.now(), outputs: outputKeys(step) };
+    await this.persist();
+  }
+
+  /**
+   * Record a finished step and the output values it produced
+   */
+  async recordStep(step: WorkflowStepDefinition, result: StepResult, values: Record<string, any>): Promise<void> {
+    if (!this.manifest) return;
+
+    const keys = outputKeys(step);
+    if (result.status === 'completed' || result.status === 'fallback') {
+      const outputs = Object.fromEntries(keys.filter(key => values[key] !== undefined).map(key => [key, values[key]]));
+      await fs.writeFile(
+        path.join(this.folderPath, 'checkpoint', `${step.id}.json`),
+        JSON.stringify({ step: step.id, status: result.status, outputs }, null, 2),
+        'utf-8'
+      );
+    }
+
+    this.manifest.steps[step.id] = {
+      status: result.status,
+      startedAt: result.startedAt,
+      durationMs: result.durationMs,
+      error: result.error,
+      outputs: keys
+    };
+    await this.persist();
+  }
+
+  /**
+   * Saved output values of a completed step
+   */
+  async loadStepOutputs(stepId: string): Promise<Record<string, any>> {
+    const content = await fs.readFile(path.join(this.folderPath, 'checkpoint', `${stepId}.json`), 'utf-8');
+    return JSON.parse(content).outputs || {};
+  }
+
+  async finish(status: 'completed' | 'failed'): Promise<void> {
+    if (!this.manifest) return;
+    this.manifest.status = status;
+    await this.persist();
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify({ ...this.manifest, updatedAt: new Date().toISOString() }, null, 2);
+    const target = path.join(this.folderPath, CHECKPOINT_MANIFEST);
+
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        // Write-then-rename so a crash never leaves a truncated manifest
+        await fs.writeFile(`${target}.tmp`, snapshot, 'utf-8');
+        await fs.rename(`${target}.tmp`, target);
+      })
+      .catch(error => console.warn(`   ⚠️ Failed to update checkpoint: ${error instanceof Error ? error.message : error}`));
+
+    return this.writeQueue;
+  }
+}
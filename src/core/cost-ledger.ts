@@ -0,0 +1,127 @@
+/**
+ * Run Cost Ledger
+ * Prices every LLM call of an analysis run from the ModelSelector pricing table
+ * and enforces an optional dollar budget
+ */
+
+import { modelSelector } from '../utils/model-selector.js';
+import { telemetry, LLMCallRecord } from './telemetry.js';
+
+export interface CostLedgerEntry extends LLMCallRecord {
+  costUsd: number;
+  priced: boolean;
+}
+
+export interface CostBreakdown {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface CostLedgerSummary extends CostBreakdown {
+  currency: 'USD';
+  budgetUsd?: number;
+  budgetExhausted: boolean;
+  // Models/deployments without a pricing entry - their calls are counted at $0
+  unpricedModels: string[];
+  byStep: Record<string, CostBreakdown>;
+  byAgent: Record<string, CostBreakdown>;
+  byModel: Record<string, CostBreakdown>;
+}
+
+export class CostLedger {
+  private budgetUsd?: number;
+
+  /**
+   * Set (or clear) the budget for the current run
+   */
+  setBudget(budgetUsd?: number): void {
+    if (budgetUsd !== undefined && (!Number.isFinite(budgetUsd) || budgetUsd <= 0)) {
+      throw new Error(`Budget must be a positive amount in USD (got ${budgetUsd})`);
+    }
+    this.budgetUsd = budgetUsd;
+  }
+
+  getBudget(): number | undefined {
+    return this.budgetUsd;
+  }
+
+  /**
+   * Price a call by the model the response reported, falling back to the deployment name
+   */
+  price(call: LLMCallRecord): CostLedgerEntry {
+    const cost = modelSelector.calculateCallCost(call.model, call.promptTokens, call.completionTokens)
+      ?? modelSelector.calculateCallCost(call.deployment, call.promptTokens, call.completionTokens);
+    return { ...call, costUsd: cost ?? 0, priced: cost !== undefined || call.totalTokens === 0 };
+  }
+
+  entries(): CostLedgerEntry[] {
+    return telemetry.getCalls().map(call => this.price(call));
+  }
+
+  spent(): number {
+    return this.entries().reduce((total, entry) => total + entry.costUsd, 0);
+  }
+
+  remaining(): number | undefined {
+    return this.budgetUsd === undefined ? undefined : Math.max(0, this.budgetUsd - this.spent());
+  }
+
+  isBudgetExhausted(): boolean {
+    return this.budgetUsd !== undefined && this.spent() >= this.budgetUsd;
+  }
+
+  summarize(): CostLedgerSummary {
+    const entries = this.entries();
+
+    return {
+      currency: 'USD',
+      ...breakdown(entries),
+      budgetUsd: this.budgetUsd,
+      budgetExhausted: this.budgetUsd !== undefined && sumCost(entries) >= this.budgetUsd,
+      unpricedModels: [...new Set(entries.filter(entry => !entry.priced).map(entry => entry.model))],
+      byStep: groupBy(entries, entry => entry.step),
+      byAgent: groupBy(entries, entry => entry.agent),
+      byModel: groupBy(entries, entry => entry.model)
+    };
+  }
+}
+
+/**
+ * Format a USD amount with enough precision for sub-cent LLM calls
+ */
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+}
+
+function sumCost(entries: CostLedgerEntry[]): number {
+  return entries.reduce((total, entry) => total + entry.costUsd, 0);
+}
+
+function breakdown(entries: CostLedgerEntry[]): CostBreakdown {
+  return {
+    calls: entries.length,
+    promptTokens: entries.reduce((total, entry) => total + entry.promptTokens, 0),
+    completionTokens: entries.reduce((total, entry) => total + entry.completionTokens, 0),
+    totalTokens: entries.reduce((total, entry) => total + entry.totalTokens, 0),
+    costUsd: Math.round(sumCost(entries) * 1e6) / 1e6
+  };
+}
+
+function groupBy(entries: CostLedgerEntry[], key: (entry: CostLedgerEntry) => string): Record<string, CostBreakdown> {
+  const groups = new Map<string, CostLedgerEntry[]>();
+  for (const entry of entries) {
+    const name = key(entry);
+    groups.set(name, [...(groups.get(name) || []), entry]);
+  }
+  // Most expensive first
+  return Object.fromEntries(
+    [...groups.entries()]
+      .map(([name, group]) => [name, breakdown(group)] as const)
+      .sort((a, b) => b[1].costUsd - a[1].costUsd)
+  );
+}
+
+export const costLedger = new CostLedger();
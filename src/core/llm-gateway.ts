@@ -0,0 +1,363 @@
+/**
+ * LLM Gateway
+ * Central routing for every chat completion: picks a logical model with the
+ * ModelSelector and TokenOptimizer, maps it to an Azure deployment and logs why.
+ * Calls then run under the circuit breaker, concurrency limiter and progressive
+ * timeout of their category, with throttled calls retried after `retry-after`,
+ * all within the timeout of the workflow step that makes them.
+ */
+
+import OpenAI from 'openai';
+import { promises as fs, readFileSync, existsSync } from 'fs';
+import path from 'path';
+import { setTimeout as sleep } from 'timers/promises';
+import config, { AppConfig } from '../config/config.js';
+import { modelSelector } from '../utils/model-selector.js';
+import { tokenOptimizer, TaskComplexity } from '../utils/token-optimizer.js';
+import { CircuitBreaker, CircuitState, researchCircuitBreaker, wafCircuitBreaker, apiCircuitBreaker } from '../utils/circuit-breaker.js';
+import { ConcurrencyLimiter, researchLimiter, wafLimiter, analysisLimiter } from '../utils/concurrency-limiter.js';
+import { ProgressiveTimeout, TimeoutBudget, researchTimeout, wafTimeout, analysisTimeout } from '../utils/progressive-timeout.js';
+import { telemetry } from './telemetry.js';
+import type { ChatCompletionRequest } from './llm-transport.js';
+
+export type CallCategory = 'research' | 'waf' | 'analysis';
+
+export interface RoutingDecision {
+  agent: string;
+  step: string;
+  category: CallCategory;
+  logicalModel: string;
+  deployment: string;
+  complexity: TaskComplexity['level'];
+  maxTokens?: number;
+  reasoning: string;
+}
+
+export interface RoutedRequest {
+  request: ChatCompletionRequest;
+  decision: RoutingDecision;
+}
+
+export type DeploymentClientFactory = (deployment: string) => OpenAI;
+
+export interface CategoryResilienceState {
+  circuit: CircuitState;
+  failures: number;
+  successes: number;
+  consecutiveFailures: number;
+  nextAttemptTime?: number;
+  running: number;
+  queued: number;
+  maxConcurrent: number;
+}
+
+export interface ResilienceSnapshot {
+  updatedAt: string;
+  categories: Record<CallCategory, CategoryResilienceState>;
+}
+
+// Fields of OpenAI SDK errors the retry and circuit decisions read
+interface ApiErrorFields {
+  status?: number;
+  name?: string;
+  headers?: ResponseHeaders;
+}
+
+type ResponseHeaders = { get(name: string): string | null } | Record<string, string | undefined>;
+
+interface ResiliencePolicy {
+  breaker: CircuitBreaker;
+  limiter: ConcurrencyLimiter;
+  timeout: ProgressiveTimeout;
+  maxRetries: number;
+}
+
+const POLICIES: Record<CallCategory, ResiliencePolicy> = {
+  research: { breaker: researchCircuitBreaker, limiter: researchLimiter, timeout: researchTimeout, maxRetries: 3 },
+  waf: { breaker: wafCircuitBreaker, limiter: wafLimiter, timeout: wafTimeout, maxRetries: 3 },
+  analysis: { breaker: apiCircuitBreaker, limiter: analysisLimiter, timeout: analysisTimeout, maxRetries: 3 }
+};
+
+// Waits longer than this are not worth holding a workflow step for
+const MAX_RETRY_DELAY_MS = 60000;
+
+// Written after every call so `interview-cli status` can show circuit state
+export const RESILIENCE_STATE_FILE = path.join('output', '.llm-resilience.json');
+
+// Telemetry agent names -> AppConfig.agents keys that may force their model
+const AGENT_CONFIG_KEYS: Record<string, keyof AppConfig['agents']> = {
+  'requirements-analyzer': 'requirementsAnalyst',
+  'architecture-designer': 'architecture',
+  'architecture-refinement': 'architecture',
+  'cost-aware-refinement': 'architecture',
+  'cost-analyzer': 'costOptimizer',
+  'waf-cost': 'costOptimizer',
+  'risk-assessor': 'riskAssessor',
+  'documentation': 'documentation',
+  'research-orchestrator': 'orchestrator',
+  'waf-orchestrator': 'orchestrator'
+};
+
+export class LLMGateway {
+  private loggedRoutes: Set<string> = new Set();
+  private stateWrites: Promise<void> = Promise.resolve();
+
+  /**
+   * Decide model, deployment and token allocation for a request made in the
+   * current telemetry scope
+   */
+  route(request: ChatCompletionRequest): RoutedRequest {
+    const { agent, step } = telemetry.currentScope();
+    const llmConfig = config.get().llm;
+    const defaultDeployment = config.getAzureConfig().foundry.modelDeploymentName;
+
+    const inputText = request.messages.map(message => typeof message.content === 'string' ? message.content : '').join('\n');
+    const complexity = tokenOptimizer.analyzeComplexity(step, inputText, agent);
+
+    let logicalModel: string;
+    let reasoning: string;
+    const override = this.agentOverride(agent);
+
+    if (override) {
+      logicalModel = override.model;
+      reasoning = `Forced by agents.${override.key}.model`;
+    } else if (!llmConfig.routing.enabled) {
+      logicalModel = defaultDeployment;
+      reasoning = 'Routing disabled (LLM_ROUTING=off)';
+    } else {
+      const selection = modelSelector.selectModel({
+        taskType: step,
+        complexity: complexity.level,
+        agentName: agent,
+        estimatedInputTokens: Math.ceil(inputText.length / 4)
+      });
+      logicalModel = selection.model;
+      reasoning = `${selection.reasoning} (${complexity.level}: ${complexity.justification})`;
+    }
+
+    let deployment = llmConfig.routing.deployments[logicalModel];
+    if (!deployment) {
+      deployment = defaultDeployment;
+      if (logicalModel !== defaultDeployment) {
+        reasoning += `; no deployment mapped for ${logicalModel}, using ${defaultDeployment}`;
+      }
+    }
+
+    // Agents size their own responses; the optimizer only fills in missing
+    // allocations, and nothing may exceed the model's output limit
+    const modelLimit = modelSelector.resolveModelConfig(logicalModel)?.maxTokens;
+    let maxTokens = request.max_tokens ?? complexity.estimatedTokens;
+    if (modelLimit && maxTokens > modelLimit) {
+      maxTokens = modelLimit;
+    }
+
+    const decision: RoutingDecision = { agent, step, category: categoryFor(agent), logicalModel, deployment, complexity: complexity.level, maxTokens, reasoning };
+    this.logDecision(decision);
+
+    return {
+      request: { ...request, model: deployment, max_tokens: maxTokens },
+      decision
+    };
+  }
+
+  /**
+   * Run one call under its category's circuit breaker, concurrency limit and
+   * progressive timeout. Throttled (429), transient server and connection
+   * errors are retried, waiting as long as the service's `retry-after` asks.
+   * The budget (by default the current workflow step's signal and deadline)
+   * caps every attempt and wait, so no call outlives its step. Only transient
+   * failures count against the circuit; the rest are rethrown outside it.
+   */
+  async execute<T>(
+    category: CallCategory,
+    send: (signal: AbortSignal) => Promise<T>,
+    budget: TimeoutBudget = telemetry.currentBudget()
+  ): Promise<T> {
+    const policy = POLICIES[category];
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const outcome = await policy.breaker.execute(() => policy.limiter.execute(async () => {
+            try {
+              return { completed: await policy.timeout.execute(send, undefined, budget) };
+            } catch (error) {
+              if (countsAgainstCircuit(error)) throw error;
+              return { rejected: error };
+            }
+          }));
+          if ('rejected' in outcome) throw outcome.rejected;
+
+          const { result, timeoutLevel } = outcome.completed;
+          // Each escalation of the timeout re-sent the request
+          const escalations = timeoutLevel === 'slow' ? 2 : timeoutLevel === 'normal' ? 1 : 0;
+          for (let i = 0; i < escalations; i++) telemetry.recordRetry();
+          return result;
+        } catch (error) {
+          if (isTimeoutExhausted(error)) telemetry.recordTimeout();
+
+          const delay = retryDelay(error, attempt);
+          const outlivesBudget = delay !== undefined && budget.deadline !== undefined && Date.now() + delay >= budget.deadline;
+          if (attempt >= policy.maxRetries || policy.breaker.isOpen() || delay === undefined || outlivesBudget || budget.signal?.aborted) {
+            throw error;
+          }
+
+          telemetry.recordRetry();
+          const { agent } = telemetry.currentScope();
+          const reason = apiErrorFields(error).status === 429 ? 'throttled' : `failed (${error instanceof Error ? error.message : error})`;
+          console.log(`   ⏳ ${agent}: ${reason}, retry ${attempt + 1}/${policy.maxRetries} in ${Math.ceil(delay / 1000)}s`);
+          await sleep(delay, undefined, { signal: budget.signal }).catch(() => { throw budget.signal?.reason ?? error; });
+        }
+      }
+    } finally {
+      this.persistState();
+    }
+  }
+
+  getResilienceSnapshot(): ResilienceSnapshot {
+    const categories = Object.fromEntries(
+      Object.entries(POLICIES).map(([category, policy]) => {
+        const stats = policy.breaker.getStats();
+        const state: CategoryResilienceState = {
+          circuit: stats.state,
+          failures: stats.failures,
+          successes: stats.successes,
+          consecutiveFailures: stats.consecutiveFailures,
+          nextAttemptTime: stats.state === CircuitState.CLOSED ? undefined : stats.nextAttemptTime,
+          ...policy.limiter.getStats()
+        };
+        return [category, state];
+      })
+    ) as Record<CallCategory, CategoryResilienceState>;
+
+    return { updatedAt: new Date().toISOString(), categories };
+  }
+
+  /**
+   * Circuit state as last written by a run, if any
+   */
+  static readPersistedState(): ResilienceSnapshot | undefined {
+    const filepath = path.join(process.cwd(), RESILIENCE_STATE_FILE);
+    if (!existsSync(filepath)) return undefined;
+    try {
+      return JSON.parse(readFileSync(filepath, 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private persistState(): void {
+    const snapshot = JSON.stringify(this.getResilienceSnapshot(), null, 2);
+    const filepath = path.join(process.cwd(), RESILIENCE_STATE_FILE);
+    this.stateWrites = this.stateWrites
+      .then(async () => {
+        await fs.mkdir(path.dirname(filepath), { recursive: true });
+        await fs.writeFile(filepath, snapshot, 'utf-8');
+      })
+      .catch(error => console.warn(`⚠️ Failed to persist circuit state: ${error instanceof Error ? error.message : error}`));
+  }
+
+  private agentOverride(agent: string): { key: string; model: string } | undefined {
+    const agents = config.get().agents as Record<string, { model?: string }>;
+    const key = AGENT_CONFIG_KEYS[agent] || agent;
+    const model = agents[key]?.model;
+    return model ? { key, model } : undefined;
+  }
+
+  // One line per distinct route - agents make many calls with the same routing
+  private logDecision(decision: RoutingDecision): void {
+    const route = `${decision.agent}|${decision.logicalModel}|${decision.deployment}`;
+    if (this.loggedRoutes.has(route)) return;
+    this.loggedRoutes.add(route);
+    console.log(`   🧭 ${decision.agent}: ${decision.logicalModel} → ${decision.deployment} (${decision.reasoning})`);
+  }
+}
+
+function categoryFor(agent: string): CallCategory {
+  if (agent.startsWith('research-')) return 'research';
+  if (agent.startsWith('waf-')) return 'waf';
+  return 'analysis';
+}
+
+function isTimeoutExhausted(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith('All timeout attempts exhausted');
+}
+
+function apiErrorFields(error: unknown): ApiErrorFields {
+  return typeof error === 'object' && error !== null ? error as ApiErrorFields : {};
+}
+
+/**
+ * Throttling, server and connection errors - worth retrying
+ */
+function isTransient(error: unknown): boolean {
+  const { status, name } = apiErrorFields(error);
+  return status === 408 || status === 429 || (status !== undefined && status >= 500) || name === 'APIConnectionError';
+}
+
+/**
+ * Failures that say the service is unhealthy. Client errors (4xx), replay
+ * misses and aborted workflow steps do not, and leave the circuit alone.
+ */
+function countsAgainstCircuit(error: unknown): boolean {
+  return isTransient(error) || isTimeoutExhausted(error);
+}
+
+/**
+ * Delay before retrying a failed call, or undefined if it should not be retried
+ */
+function retryDelay(error: unknown, attempt: number): number | undefined {
+  if (!isTransient(error)) return undefined;
+
+  const requested = retryAfterMs(apiErrorFields(error).headers);
+  if (requested !== undefined) {
+    return requested <= MAX_RETRY_DELAY_MS ? requested : undefined;
+  }
+  return Math.min(Math.pow(2, attempt + 1) * 1000, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Read `retry-after-ms` / `retry-after` (seconds or HTTP date) from response headers
+ */
+function retryAfterMs(headers: ResponseHeaders | undefined): number | undefined {
+  const read = (name: string): string | undefined => {
+    if (!headers) return undefined;
+    return (typeof headers.get === 'function' ? headers.get(name) : (headers as Record<string, string | undefined>)[name]) ?? undefined;
+  };
+
+  const milliseconds = Number(read('retry-after-ms'));
+  if (milliseconds > 0) return milliseconds;
+
+  const retryAfter = read('retry-after');
+  if (!retryAfter) return undefined;
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Lazily create one Azure OpenAI client per deployment - the deployment is
+ * part of the base URL, so each needs its own client. SDK retries are off:
+ * the gateway retries, so throttling also counts against the circuit breaker.
+ */
+export function createDeploymentClientFactory(endpoint: string, apiKey: string, apiVersion: string): DeploymentClientFactory {
+  const clients = new Map<string, OpenAI>();
+
+  return (deployment: string) => {
+    if (!clients.has(deployment)) {
+      clients.set(deployment, new OpenAI({
+        apiKey,
+        baseURL: `${endpoint}/openai/deployments/${deployment}`,
+        defaultQuery: { 'api-version': apiVersion },
+        defaultHeaders: {
+          'api-key': apiKey,
+        },
+        maxRetries: 0
+      }));
+    }
+    return clients.get(deployment)!;
+  };
+}
+
+export const llmGateway = new LLMGateway();
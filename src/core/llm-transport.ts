@@ -0,0 +1,277 @@
+/**
+ * LLM Transport Layer
+ * Pluggable transport behind every chat completion: live calls, recording to a
+ * cassette directory, or deterministic replay with no network access
+ */
+
+import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import { promises as fs, readFileSync, existsSync } from 'fs';
+import path from 'path';
+import { telemetry } from './telemetry.js';
+import { llmGateway, DeploymentClientFactory } from './llm-gateway.js';
+import { progressEvents } from './progress-events.js';
+
+export type LLMTransportMode = 'live' | 'record' | 'replay';
+
+export type ChatCompletionRequest = OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming;
+export type ChatCompletionResponse = OpenAI.Chat.Completions.ChatCompletion;
+type ChatCompletionChunk = OpenAI.Chat.Completions.ChatCompletionChunk;
+
+export interface TransportOptions {
+  // Aborted when the gateway gives up on an attempt
+  signal?: AbortSignal;
+  // Receives content deltas as they arrive when the transport streams
+  onToken?: (delta: string) => void;
+}
+
+export interface LLMTransport {
+  readonly mode: LLMTransportMode;
+  send(request: ChatCompletionRequest, options?: TransportOptions): Promise<ChatCompletionResponse>;
+}
+
+export interface CassetteEntry {
+  key: string;
+  recordedAt: string;
+  request: {
+    model: string;
+    messages: ChatCompletionRequest['messages'];
+    max_tokens?: number | null;
+    temperature?: number | null;
+  };
+  responses: ChatCompletionResponse[];
+}
+
+// Volatile values that end up in prompts (timestamps, generated folder names)
+// are masked so the same logical prompt always maps to the same cassette.
+const VOLATILE_PATTERNS: RegExp[] = [
+  /\d{4}-\d{2}-\d{2}T\d{2}[:-]\d{2}[:-]\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g,
+  /workflow-\d{13}/g
+];
+
+/**
+ * Cassette key for a request. The deployment name is deliberately excluded so
+ * recordings replay regardless of which deployment produced them.
+ */
+export function cassetteKey(request: ChatCompletionRequest): string {
+  const mask = (text: string) => VOLATILE_PATTERNS.reduce((acc, pattern) => acc.replace(pattern, '<volatile>'), text);
+  const canonical = JSON.stringify({
+    messages: request.messages.map(message => ({
+      role: message.role,
+      content: typeof message.content === 'string' ? mask(message.content) : message.content
+    })),
+    max_tokens: request.max_tokens ?? null,
+    temperature: request.temperature ?? null,
+    response_format: request.response_format ?? null
+  });
+  return createHash('sha256').update(canonical).digest('hex').slice(0, 32);
+}
+
+export class LiveTransport implements LLMTransport {
+  readonly mode: LLMTransportMode = 'live';
+  private clientFor: DeploymentClientFactory;
+  private stream: boolean;
+
+  // A factory selects the client for the deployment the gateway routed to
+  constructor(client: OpenAI | DeploymentClientFactory, stream: boolean = false) {
+    this.clientFor = typeof client === 'function' ? client : () => client;
+    this.stream = stream;
+  }
+
+  async send(request: ChatCompletionRequest, options: TransportOptions = {}): Promise<ChatCompletionResponse> {
+    const completions = this.clientFor(request.model).chat.completions;
+    if (!this.stream) {
+      return completions.create(request, { signal: options.signal });
+    }
+
+    const stream = await completions.create(
+      { ...request, stream: true, stream_options: { include_usage: true } },
+      { signal: options.signal }
+    );
+    return collectStream(stream, options.onToken);
+  }
+}
+
+/**
+ * Assemble a streamed completion into the non-streaming response shape agents,
+ * telemetry and cassettes expect
+ */
+async function collectStream(stream: AsyncIterable<ChatCompletionChunk>, onToken?: (delta: string) => void): Promise<ChatCompletionResponse> {
+  let id = '';
+  let model = '';
+  let created = 0;
+  let usage: ChatCompletionResponse['usage'];
+  const choices = new Map<number, { content: string; finishReason: ChatCompletionResponse['choices'][number]['finish_reason'] | null }>();
+
+  for await (const chunk of stream) {
+    id = id || chunk.id;
+    model = model || chunk.model;
+    created = created || chunk.created;
+    if (chunk.usage) usage = chunk.usage;
+
+    for (const choice of chunk.choices || []) {
+      const current = choices.get(choice.index) || { content: '', finishReason: null };
+      const delta = choice.delta?.content;
+      if (delta) {
+        current.content += delta;
+        if (choice.index === 0) onToken?.(delta);
+      }
+      current.finishReason = choice.finish_reason ?? current.finishReason;
+      choices.set(choice.index, current);
+    }
+  }
+
+  return {
+    id,
+    object: 'chat.completion',
+    created,
+    model,
+    choices: [...choices.entries()].sort(([a], [b]) => a - b).map(([index, choice]) => ({
+      index,
+      message: { role: 'assistant', content: choice.content, refusal: null },
+      finish_reason: choice.finishReason ?? 'stop',
+      logprobs: null
+    })),
+    usage
+  };
+}
+
+/**
+ * Calls the live transport and stores every request/response pair. Repeated
+ * prompts are stored in call order so replay can serve them in sequence.
+ */
+export class RecordingTransport implements LLMTransport {
+  readonly mode: LLMTransportMode = 'record';
+  private live: LLMTransport;
+  private cassetteDirectory: string;
+  private entries: Map<string, CassetteEntry> = new Map();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(live: LLMTransport, cassetteDirectory: string) {
+    this.live = live;
+    this.cassetteDirectory = cassetteDirectory;
+  }
+
+  async send(request: ChatCompletionRequest, options?: TransportOptions): Promise<ChatCompletionResponse> {
+    const response = await this.live.send(request, options);
+    const key = cassetteKey(request);
+
+    // First recording of a key in this run replaces any older cassette
+    const entry = this.entries.get(key) || {
+      key,
+      recordedAt: new Date().toISOString(),
+      request: {
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.max_tokens,
+        temperature: request.temperature
+      },
+      responses: []
+    };
+    entry.responses.push(response);
+    this.entries.set(key, entry);
+
+    const snapshot = JSON.stringify(entry, null, 2);
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.mkdir(this.cassetteDirectory, { recursive: true });
+        await fs.writeFile(path.join(this.cassetteDirectory, `${key}.json`), snapshot, 'utf-8');
+      })
+      .catch(error => console.warn(`⚠️ Failed to record cassette ${key}: ${error instanceof Error ? error.message : error}`));
+    await this.writeQueue;
+
+    return response;
+  }
+}
+
+/**
+ * Serves recorded responses without touching the network. A prompt that was
+ * recorded several times replays its responses in the original order.
+ */
+export class ReplayTransport implements LLMTransport {
+  readonly mode: LLMTransportMode = 'replay';
+  private cassetteDirectory: string;
+  private cache: Map<string, CassetteEntry | null> = new Map();
+  private cursors: Map<string, number> = new Map();
+
+  constructor(cassetteDirectory: string) {
+    this.cassetteDirectory = cassetteDirectory;
+  }
+
+  async send(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+    const key = cassetteKey(request);
+    const entry = this.load(key);
+
+    if (!entry || entry.responses.length === 0) {
+      const preview = request.messages.map(m => typeof m.content === 'string' ? m.content : '').join(' ').slice(0, 80);
+      throw new Error(`No recorded response for prompt ${key} in ${this.cassetteDirectory} ("${preview}..."). Re-record with LLM_TRANSPORT=record`);
+    }
+
+    const cursor = this.cursors.get(key) || 0;
+    this.cursors.set(key, cursor + 1);
+    // Extra calls beyond the recording reuse the last response
+    return entry.responses[Math.min(cursor, entry.responses.length - 1)];
+  }
+
+  private load(key: string): CassetteEntry | null {
+    if (!this.cache.has(key)) {
+      const filepath = path.join(this.cassetteDirectory, `${key}.json`);
+      this.cache.set(key, existsSync(filepath) ? JSON.parse(readFileSync(filepath, 'utf-8')) : null);
+    }
+    return this.cache.get(key)!;
+  }
+}
+
+/**
+ * Build the transport for a mode. Live and record modes need a real client
+ * and stream their completions when `stream` is set.
+ */
+export function createTransport(
+  mode: LLMTransportMode,
+  client: OpenAI | DeploymentClientFactory | undefined,
+  cassetteDirectory: string,
+  options: { stream?: boolean } = {}
+): LLMTransport {
+  const directory = path.isAbsolute(cassetteDirectory) ? cassetteDirectory : path.join(process.cwd(), cassetteDirectory);
+
+  switch (mode) {
+    case 'replay':
+      return new ReplayTransport(directory);
+    case 'record':
+    case 'live': {
+      if (!client) {
+        throw new Error(`LLM transport "${mode}" requires an Azure OpenAI client`);
+      }
+      const live = new LiveTransport(client, options.stream);
+      return mode === 'record' ? new RecordingTransport(live, directory) : live;
+    }
+    default:
+      throw new Error(`Unknown LLM transport "${mode}" (expected live, record or replay)`);
+  }
+}
+
+/**
+ * OpenAI-compatible facade over a transport, so agents keep calling
+ * `client.chat.completions.create` unchanged. Every call is routed and run
+ * (with retries and timeouts) by the gateway, then timed and its token usage
+ * recorded against the current telemetry scope. Streamed tokens are published
+ * to the progress feed.
+ */
+export function createTransportClient(transport: LLMTransport): OpenAI {
+  return {
+    chat: {
+      completions: {
+        create: (request: ChatCompletionRequest) => {
+          const { request: routed, decision } = llmGateway.route(request);
+          const scope = telemetry.currentScope();
+          const onToken = (delta: string) => progressEvents.publish('token', { ...scope, delta });
+          const send = () => llmGateway.execute(decision.category, signal => transport.send(routed, { signal, onToken }));
+          return telemetry.trackCall(routed.model, transport.mode, send, {
+            logicalModel: decision.logicalModel,
+            reasoning: decision.reasoning
+          });
+        }
+      }
+    }
+  } as unknown as OpenAI;
+}
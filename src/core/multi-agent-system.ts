@@ -8,13 +8,20 @@ import OpenAI from 'openai';
 import { Command } from 'commander';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
-import ora from 'ora';
 import clipboardy from 'clipboardy';
 import { promises as fs } from 'fs';
 import path from 'path';
 import config from '../config/config.js';
-import { SimpleOrchestrator } from '../agents/simple-orchestrator.js';
+import { SimpleOrchestrator, CoordinationOptions } from '../agents/simple-orchestrator.js';
 import { outputManager } from './output-manager.js';
+import { PipelineArtifacts } from './pipeline-artifacts.js';
+import { ArchitectureGraph, azureNodes } from './architecture-graph.js';
+import { generateMermaidFlowchart } from '../diagrams/mermaid-generator.js';
+import { CheckpointManager, CHECKPOINT_MANIFEST, CASE_STUDY_FILE } from './checkpoint-manager.js';
+import { createTransport, createTransportClient } from './llm-transport.js';
+import { createDeploymentClientFactory, DeploymentClientFactory } from './llm-gateway.js';
+import { formatUsd } from './cost-ledger.js';
+import { ProgressTracker } from '../utils/progress-tracker.js';
 
 interface AgentConfig {
   name: string;
@@ -37,6 +44,12 @@ interface CaseStudyAnalysis {
   talkingPoints: string[];
 }
 
+// Per-run options passed down from the CLI
+interface AnalysisOptions extends CoordinationOptions {
+  // Tail the streamed tokens of the running step under the live step tree
+  verboseStream?: boolean;
+}
+
 interface ProcessingResult {
   analysis: CaseStudyAnalysis;
   savedPath: string;
@@ -85,22 +98,28 @@ interface RoadmapPhase {
 class MultiAgentSystem {
   private client: OpenAI;
   private agents: Map<string, AgentConfig>;
+  private lastOutputPath?: string;
 
   constructor() {
     const azureConfig = config.getAzureConfig();
+    const llmConfig = config.get().llm;
     
-    if (!azureConfig.openai.apiKey) {
-      throw new Error('AZURE_OPENAI_API_KEY is required. Please set it in your .env.local file or environment variables');
-    }
-    
-    this.client = new OpenAI({
-      apiKey: azureConfig.openai.apiKey,
-      baseURL: `${azureConfig.openai.endpoint}/openai/deployments/${azureConfig.foundry.modelDeploymentName}`,
-      defaultQuery: { 'api-version': '2025-01-01-preview' },
-      defaultHeaders: {
-        'api-key': azureConfig.openai.apiKey,
+    // Replay mode serves recorded responses and never needs credentials
+    let clientFactory: DeploymentClientFactory | undefined;
+    if (llmConfig.transport !== 'replay') {
+      if (!azureConfig.openai.apiKey) {
+        throw new Error('AZURE_OPENAI_API_KEY is required. Please set it in your .env.local file or environment variables');
       }
-    });
+
+      // The gateway routes each call to a deployment; clients are created per deployment
+      clientFactory = createDeploymentClientFactory(azureConfig.openai.endpoint, azureConfig.openai.apiKey, '2025-01-01-preview');
+    }
+
+    const transport = createTransport(llmConfig.transport, clientFactory, llmConfig.cassetteDirectory, { stream: llmConfig.stream });
+    this.client = createTransportClient(transport);
+    if (transport.mode !== 'live') {
+      console.log(chalk.yellow(`🎞️  LLM transport: ${transport.mode} (${llmConfig.cassetteDirectory})`));
+    }
 
     this.initializeAgents();
   }
@@ -152,13 +171,34 @@ class MultiAgentSystem {
     }
   }
 
-  async processCaseStudy(caseStudyText: string): Promise<CaseStudyAnalysis> {
-    // Enhanced progress display with timing
-    const progressSpinner = ora({
-      text: 'Initializing Azure Architecture Blueprint Generator...',
-      spinner: 'aesthetic',
-      color: 'blue'
-    }).start();
+  async processCaseStudy(caseStudyText: string, options: AnalysisOptions = {}): Promise<CaseStudyAnalysis> {
+    // Generate case study folder name for organized output
+    const caseStudyFolder = this.generateCaseStudyFolder(caseStudyText);
+    return this.runAnalysis(caseStudyText, caseStudyFolder, options);
+  }
+
+  /**
+   * Resume an interrupted analysis from the checkpoint manifest in its case study folder
+   */
+  async resumeCaseStudy(caseStudyFolder: string, options: AnalysisOptions = {}): Promise<CaseStudyAnalysis> {
+    const folder = path.basename(caseStudyFolder);
+    const manifest = await CheckpointManager.load(folder);
+    if (!manifest) {
+      throw new Error(`No checkpoint manifest (${CHECKPOINT_MANIFEST}) found in output/${folder}`);
+    }
+
+    const caseStudyText = await fs.readFile(
+      path.join(CheckpointManager.resolveFolder(folder), CASE_STUDY_FILE),
+      'utf-8'
+    );
+
+    return this.runAnalysis(caseStudyText, folder, { ...options, resume: true });
+  }
+
+  private async runAnalysis(caseStudyText: string, caseStudyFolder: string, options: AnalysisOptions): Promise<CaseStudyAnalysis> {
+    // Live step tree fed by the workflow engine and LLM gateway
+    const progress = new ProgressTracker({ verboseStream: options.verboseStream });
+    progress.start();
     
     const startTime = Date.now();
     
@@ -166,43 +206,42 @@ class MultiAgentSystem {
     const orchestrator = new SimpleOrchestrator(this.client);
 
     try {
-      // Generate case study folder name for organized output
-      const caseStudyFolder = this.generateCaseStudyFolder(caseStudyText);
-      
       // Use optimized orchestrator for parallel/sequential execution
-      progressSpinner.text = 'Coordinating multi-agent workflow with parallel optimization...';
-      const analysisResult = await orchestrator.coordinate(caseStudyText, caseStudyFolder);
+      progress.updateStep('Coordinating multi-agent workflow with parallel optimization...');
+      const analysisResult = await orchestrator.coordinate(caseStudyText, caseStudyFolder, options);
       
       const executionTime = Date.now() - startTime;
-      progressSpinner.succeed(`Analysis completed in ${Math.round(executionTime/1000)}s`);
-
-      // Save results to output folder with performance metrics
-      const agentMetrics = {
-        orchestrator: orchestrator.getMetrics(),
-        health: orchestrator.getHealth()
-      };
+      progress.succeed(`Analysis completed in ${Math.round(executionTime/1000)}s`);
 
+      // Save results to output folder with the measured per-agent telemetry
       const outputPath = await outputManager.saveAnalysis(
         caseStudyText,
         analysisResult,
         {
           executionTime,
-          agentMetrics
-        }
+          agentMetrics: orchestrator.getMetrics(),
+          telemetry: orchestrator.getTelemetry(),
+          runCost: orchestrator.getRunCost()
+        },
+        caseStudyFolder
       );
+      this.lastOutputPath = outputPath;
 
       // The output manager now automatically saves quick summaries in case study folders
       // No need for separate saveQuickSummary call
 
       console.log(chalk.green.bold(`\n📁 Results saved to: ${outputPath}`));
-      console.log(chalk.blue(`📊 Performance: ${executionTime}ms execution time`));
+      const health = orchestrator.getHealth();
+      const runCost = orchestrator.getRunCost();
+      console.log(chalk.blue(`📊 Performance: ${executionTime}ms execution time, ${health.llmCalls} LLM calls, ${health.totalTokens} tokens`));
+      console.log(chalk.blue(`💵 Run cost: ${formatUsd(runCost.costUsd)}${runCost.budgetUsd !== undefined ? ` of ${formatUsd(runCost.budgetUsd)} budget` : ''}`));
 
       // Parse and return structured analysis (for backwards compatibility)
-      return this.parseAnalysisResult(analysisResult);
+      return this.parseAnalysisResult(analysisResult, orchestrator.getArtifacts(), orchestrator.getArchitectureGraph(), caseStudyText);
       
     } catch (error) {
       const executionTime = Date.now() - startTime;
-      progressSpinner.fail(`Analysis failed after ${Math.round(executionTime/1000)}s`);
+      progress.fail(`Analysis failed after ${Math.round(executionTime/1000)}s`);
       console.error(chalk.red('❌ Error details:'), error.message);
       
       // Still try to save error information
@@ -211,62 +250,56 @@ class MultiAgentSystem {
         `Analysis failed: ${error instanceof Error ? error.message : String(error)}`,
         {
           executionTime,
-          agentMetrics: { error: true }
-        }
+          agentMetrics: orchestrator.getMetrics(),
+          telemetry: orchestrator.getTelemetry(),
+          runCost: orchestrator.getRunCost()
+        },
+        caseStudyFolder
       );
       
       throw error;
     }
   }
 
-  // Parse analysis result into structured format for compatibility
-  private parseAnalysisResult(analysisText: string): CaseStudyAnalysis {
-    // Simple parsing - extract key sections from the analysis text
-    return {
-      title: 'Optimized Multi-Agent Analysis',
-      functionalRequirements: this.extractList(analysisText, 'Functional Requirements'),
-      nonFunctionalRequirements: this.extractList(analysisText, 'Non-Functional Requirements'),
-      constraints: this.extractList(analysisText, 'Constraints'),
-      architectureOptions: [
-        {
-          name: 'Recommended Solution',
-          description: this.extractSection(analysisText, 'Architecture'),
-          services: [
-            { name: 'Azure App Service', sku: 'S1', cost: 800 },
-            { name: 'Azure SQL Database', sku: 'S2', cost: 1200 },
-            { name: 'Azure Functions', sku: 'Y1', cost: 500 }
-          ],
-          estimatedCost: 2500,
-          pros: ['High Performance', 'Scalable', 'Cost Effective'],
-          cons: ['Complexity']
-        }
-      ],
-      recommendedSolution: this.extractSection(analysisText, 'Recommended Solution'),
-      costAnalysis: {
-        total: 2500,
-        breakdown: [
-          { service: 'App Service', cost: 800 },
-          { service: 'SQL Database', cost: 1200 },
-          { service: 'Functions', cost: 500 }
-        ]
-      },
-      riskAssessment: [
-        {
-          category: 'Technical',
-          description: 'Scalability challenges',
-          impact: 'medium',
-          probability: 'low',
-          mitigation: 'Auto-scaling configuration'
-        }
-      ],
-      implementationRoadmap: [
-        {
-          phase: 'Foundation',
-          duration: '4 weeks',
-          tasks: ['Infrastructure setup', 'Security configuration']
+  // Build structured analysis from the validated pipeline artifacts,
+  // falling back to section parsing only where an artifact is missing
+  private parseAnalysisResult(analysisText: string, artifacts: PipelineArtifacts, graph: ArchitectureGraph | undefined, caseStudyText: string): CaseStudyAnalysis {
+    const { requirements, architecture, cost, risk, changeManagement } = artifacts;
+
+    const services: AzureService[] = graph
+      ? azureNodes(graph).map(node => ({ name: node.name, sku: node.sku, cost: node.monthlyCost ?? 0 }))
+      : [];
+
+    const costAnalysis: CostAnalysis = cost
+      ? {
+          total: cost.totalMonthly,
+          breakdown: cost.breakdown.map(item => ({ service: item.service, cost: item.monthlyCost }))
         }
-      ],
-      diagram: this.generateDiagram(),
+      : {
+          total: services.reduce((total, service) => total + service.cost, 0),
+          breakdown: services.map(service => ({ service: service.name, cost: service.cost }))
+        };
+
+    return {
+      title: requirements?.title || this.extractTitle(caseStudyText),
+      functionalRequirements: requirements?.functional || this.extractList(analysisText, 'Functional Requirements'),
+      nonFunctionalRequirements: requirements?.nonFunctional || this.extractList(analysisText, 'Non-Functional Requirements'),
+      constraints: requirements?.constraints || this.extractList(analysisText, 'Constraints'),
+      architectureOptions: architecture
+        ? [{
+            name: architecture.name,
+            description: architecture.summary,
+            services,
+            estimatedCost: costAnalysis.total,
+            pros: architecture.pros,
+            cons: architecture.cons
+          }]
+        : [],
+      recommendedSolution: architecture?.summary || this.extractSection(analysisText, 'Recommended Solution'),
+      costAnalysis,
+      riskAssessment: risk?.risks || [],
+      implementationRoadmap: changeManagement?.phases || [],
+      diagram: graph ? generateMermaidFlowchart(graph) : '',
       talkingPoints: this.extractList(analysisText, 'Key Points')
     };
   }
@@ -289,17 +322,6 @@ class MultiAgentSystem {
     return [section];
   }
 
-  private generateDiagram(): string {
-    return `graph TD
-    A[User] --> B[Front Door]
-    B --> C[App Service]
-    C --> D[SQL Database]
-    C --> E[Azure Cache for Redis]
-    C --> F[Service Bus]
-    F --> G[Functions]
-    G --> H[Storage Account]`;
-  }
-
   async saveReport(content: string, filename?: string): Promise<string> {
     // This method is kept for backwards compatibility
     // New approach: case studies are automatically saved in structured folders via outputManager.saveAnalysis
@@ -314,37 +336,26 @@ class MultiAgentSystem {
     return filepath;
   }
 
-  async processCaseStudyWithContent(caseStudyText: string): Promise<ProcessingResult> {
-    const analysis = await this.processCaseStudy(caseStudyText);
-    
-    // Find the most recent output file
-    const outputDir = path.join(process.cwd(), 'output');
-    const folders = await fs.readdir(outputDir, { withFileTypes: true });
-    const caseStudyFolders = folders
-      .filter(f => f.isDirectory() && f.name.includes('case-study'))
-      .sort((a, b) => b.name.localeCompare(a.name)); // Most recent first
-    
-    if (caseStudyFolders.length === 0) {
-      throw new Error('No case study output found');
-    }
-    
-    const latestFolder = caseStudyFolders[0].name;
-    const folderPath = path.join(outputDir, latestFolder);
-    
-    // Find the solution markdown file
-    const files = await fs.readdir(folderPath);
-    const solutionFile = files.find(f => f.startsWith('solution-') && f.endsWith('.md'));
-    
-    if (!solutionFile) {
+  async processCaseStudyWithContent(caseStudyText: string, options: AnalysisOptions = {}): Promise<ProcessingResult> {
+    const analysis = await this.processCaseStudy(caseStudyText, options);
+    return this.readProcessingResult(analysis);
+  }
+
+  async resumeCaseStudyWithContent(caseStudyFolder: string, options: AnalysisOptions = {}): Promise<ProcessingResult> {
+    const analysis = await this.resumeCaseStudy(caseStudyFolder, options);
+    return this.readProcessingResult(analysis);
+  }
+
+  private async readProcessingResult(analysis: CaseStudyAnalysis): Promise<ProcessingResult> {
+    if (!this.lastOutputPath) {
       throw new Error('No solution markdown file found');
     }
-    
-    const filePath = path.join(folderPath, solutionFile);
-    const markdownContent = await fs.readFile(filePath, 'utf-8');
+
+    const markdownContent = await fs.readFile(this.lastOutputPath, 'utf-8');
     
     return {
       analysis,
-      savedPath: filePath,
+      savedPath: this.lastOutputPath,
       markdownContent
     };
   }
@@ -387,4 +398,4 @@ class MultiAgentSystem {
   }
 }
 
-export { MultiAgentSystem, CaseStudyAnalysis, ProcessingResult };
\ No newline at end of file
+export { MultiAgentSystem, CaseStudyAnalysis, ProcessingResult, AnalysisOptions };
\ No newline at end of file
@@ -8,6 +8,9 @@ import { join, dirname } from 'path';
 import config from '../config/config.js';
 import { wafChecklistExtractor, WAFChecklistSummary } from '../utils/waf-checklist-extractor.js';
 import { getLocalTimestamp, getLocalTimestampForFilename } from '../utils/local-timestamp.js';
+import { TelemetrySnapshot } from './telemetry.js';
+import { CostLedgerSummary, CostBreakdown, formatUsd } from './cost-ledger.js';
+import { SVG_FILE, PNG_FILE } from '../diagrams/diagram-writer.js';
 
 export interface OutputMetadata {
   timestamp: number;
@@ -16,6 +19,10 @@ export interface OutputMetadata {
   workflowId: string;
   caseStudyHash: string;
   wafChecklist?: WAFChecklistSummary;
+  telemetry?: TelemetrySnapshot;
+  runCost?: CostLedgerSummary;
+  // Rendered diagram files in the case study folder (relative names)
+  diagrams?: { svg?: string; png?: string };
 }
 
 export interface StructuredOutput {
@@ -88,13 +95,15 @@ export class OutputManager {
     return 'case-study';
   }
 
-  // Save structured analysis results (optimized with batched I/O)
+  // Save structured analysis results (optimized with batched I/O).
+  // Pass the workflow's case study folder so results land next to its checkpoint and agent reports.
   async saveAnalysis(
     caseStudyText: string,
     analysis: string,
-    metadata: Partial<OutputMetadata> = {}
+    metadata: Partial<OutputMetadata> = {},
+    targetFolder?: string
   ): Promise<string> {
-    const caseStudyFolder = this.generateCaseStudyFolder(caseStudyText);
+    const caseStudyFolder = targetFolder || this.generateCaseStudyFolder(caseStudyText);
     await this.ensureOutputDir(caseStudyFolder);
 
     const workflowId = `workflow-${Date.now()}`;
@@ -112,6 +121,7 @@ export class OutputManager {
     // Extract WAF checklist information from analysis
     const wafChecklist = await wafChecklistExtractor.extractChecklistFromResponse(analysis);
     fullMetadata.wafChecklist = wafChecklist;
+    fullMetadata.diagrams = await this.findRenderedDiagrams(caseStudyFolder);
 
     // Generate structured content
     const structuredContent = this.formatAnalysis(analysis, fullMetadata);
@@ -168,7 +178,7 @@ Execution Time: ${metadata.executionTime}ms
 ${performanceSection}
 
 ---
-
+${this.formatDiagramSection(metadata.diagrams)}
 ${analysis}
 
 ---
@@ -195,6 +205,31 @@ ${metadata.wafChecklist ? `- WAF Framework Coverage: ${metadata.wafChecklist.cov
 `;
   }
 
+  // Embed the rendered architecture diagram (written next to the solution file)
+  private formatDiagramSection(diagrams?: OutputMetadata['diagrams']): string {
+    if (!diagrams?.svg && !diagrams?.png) {
+      return '';
+    }
+
+    const image = diagrams.svg || diagrams.png;
+    const links = [diagrams.svg && `[SVG](${diagrams.svg})`, diagrams.png && `[PNG](${diagrams.png})`].filter(Boolean).join(' · ');
+    return `
+## Architecture Diagram
+![Architecture diagram](${image})
+
+${links}
+
+---
+`;
+  }
+
+  // Diagram files rendered from the architecture graph earlier in the workflow
+  private async findRenderedDiagrams(caseStudyFolder: string): Promise<OutputMetadata['diagrams']> {
+    const exists = (file: string) => fs.access(join(this.outputDir, caseStudyFolder, file)).then(() => true, () => false);
+    const [svg, png] = await Promise.all([exists(SVG_FILE), exists(PNG_FILE)]);
+    return svg || png ? { svg: svg ? SVG_FILE : undefined, png: png ? PNG_FILE : undefined } : undefined;
+  }
+
   // Format WAF checklist section
   private formatWAFChecklist(wafChecklist: WAFChecklistSummary): string {
     if (!wafChecklist || wafChecklist.totalItems === 0) {
@@ -212,15 +247,16 @@ ${metadata.wafChecklist ? `- WAF Framework Coverage: ${metadata.wafChecklist.cov
 
     const output: string[] = [];
     output.push('## 📋 Well-Architected Framework Coverage');
-    output.push(`**${wafChecklist.coverage}% coverage** (${wafChecklist.referencedItems}/${wafChecklist.totalItems} checklist items referenced)`);
+    output.push(`**${wafChecklist.coverage}% coverage** (${wafChecklist.referencedItems}/${wafChecklist.totalItems} checklist items evidenced)`);
     output.push('');
 
-    // Top referenced items across pillars
+    // Top evidenced items across pillars
     const topItems: string[] = [];
     for (const [pillar, items] of Object.entries(wafChecklist.itemsByPillar)) {
       const referencedItems = items.filter(item => item.found);
       if (referencedItems.length > 0) {
-        const topItem = referencedItems[0]; // First referenced item from each pillar
+        // Best evidenced item from each pillar
+        const topItem = referencedItems.find(item => item.confidence === 'high') ?? referencedItems[0];
         topItems.push(`**${topItem.id}** (${pillar}): ${topItem.title}`);
       }
     }
@@ -249,23 +285,62 @@ ${metadata.wafChecklist ? `- WAF Framework Coverage: ${metadata.wafChecklist.cov
     return output.join('\n') + '\n';
   }
 
-  // Generate performance summary section
+  // Generate performance summary section from measured telemetry
   private generatePerformanceSection(metadata: OutputMetadata): string {
-    const metrics = metadata.agentMetrics || {};
-    const totalAgents = Object.keys(metrics).length;
-    
-    return `
+    if (!metadata.telemetry) {
+      return `
 📊 **Execution Performance**
 - Total Execution Time: ${metadata.executionTime}ms
-- Agents Utilized: ${totalAgents}
-- Parallel Tasks Executed: ${this.countParallelTasks()}
-- Sequential Tasks Executed: ${this.countSequentialTasks()}
-
-🚀 **Optimization Results**
-- Task Delegation Latency: ${this.calculateDelegationLatency(metrics)}ms
-- Average Response Time: ${this.calculateAverageResponseTime(metrics)}ms
-- Error Rate: ${this.calculateErrorRate(metrics)}%
+- No telemetry recorded for this run
 `;
+    }
+
+    const { health, execution } = metadata.telemetry;
+
+    return `
+📊 **Execution Performance**
+- Total Execution Time: ${metadata.executionTime}ms
+- Agents Utilized: ${health.totalAgents}
+- Parallel Steps Executed: ${execution.parallelSteps}
+- Sequential Steps Executed: ${execution.sequentialSteps}
+- Parallel Efficiency: ${execution.parallelEfficiency}% (${execution.stepTimeMs}ms step time in ${execution.wallTimeMs}ms)
+
+🚀 **LLM Usage**
+- LLM Calls: ${health.llmCalls}
+- Tokens: ${health.totalTokens} (${health.promptTokens} prompt / ${health.completionTokens} completion)
+- Average Response Time: ${health.averageResponseTime}ms
+- Error Rate: ${(health.errorRate * 100).toFixed(1)}%
+- Retries: ${health.retries} | Timeouts: ${health.timeouts} | Fallbacks: ${health.fallbacks}
+${metadata.runCost ? `- Run Cost: ${formatUsd(metadata.runCost.costUsd)}${metadata.runCost.budgetUsd !== undefined ? ` (budget ${formatUsd(metadata.runCost.budgetUsd)})` : ''}\n` : ''}`;
+  }
+
+  // Format the run cost ledger for the quick summary
+  private formatRunCost(runCost?: CostLedgerSummary): string {
+    if (!runCost) {
+      return '';
+    }
+
+    const table = (title: string, rows: Record<string, CostBreakdown>) => [
+      `| ${title} | Calls | Tokens | Cost |`,
+      '|---|---:|---:|---:|',
+      ...Object.entries(rows).map(([name, row]) => `| ${name} | ${row.calls} | ${row.totalTokens} | ${formatUsd(row.costUsd)} |`)
+    ].join('\n');
+
+    const output: string[] = [];
+    output.push('## 💵 Analysis Run Cost');
+    output.push(`**${formatUsd(runCost.costUsd)}** for ${runCost.calls} LLM calls (${runCost.totalTokens} tokens)`);
+    if (runCost.budgetUsd !== undefined) {
+      output.push(`Budget: ${formatUsd(runCost.budgetUsd)}${runCost.budgetExhausted ? ' - **reached**, refinement stopped early' : ''}`);
+    }
+    if (runCost.unpricedModels.length > 0) {
+      output.push(`*No pricing for ${runCost.unpricedModels.join(', ')} - counted as $0*`);
+    }
+    output.push('');
+    output.push(table('Step', runCost.byStep));
+    output.push('');
+    output.push(table('Agent', runCost.byAgent));
+
+    return output.join('\n') + '\n';
   }
 
   // Format agent metrics for display
@@ -277,8 +352,10 @@ ${metadata.wafChecklist ? `- WAF Framework Coverage: ${metadata.wafChecklist.cov
     return Object.entries(agentMetrics).map(([agent, metrics]) => {
       return `**${agent.toUpperCase()}:**
 - Tasks Completed: ${metrics.tasksCompleted || 0}
+- LLM Calls: ${metrics.requestsCount || 0} (${metrics.totalTokens || 0} tokens)
 - Average Response Time: ${metrics.averageResponseTime || 0}ms
 - Error Rate: ${((metrics.errorRate || 0) * 100).toFixed(1)}%
+- Retries: ${metrics.retries || 0} | Timeouts: ${metrics.timeouts || 0} | Fallbacks: ${metrics.fallbacks || 0}
 - Status: ${metrics.status || 'unknown'}`;
     }).join('\n\n');
   }
@@ -292,12 +369,10 @@ ${metadata.wafChecklist ? `- WAF Framework Coverage: ${metadata.wafChecklist.cov
       caseStudyFolder,
       caseStudyFile: 'original-case-study.md', // Reference to the case study file in same folder
       agentPerformance: metadata.agentMetrics,
-      optimizationMetrics: {
-        delegationLatency: this.calculateDelegationLatency(metadata.agentMetrics),
-        averageResponseTime: this.calculateAverageResponseTime(metadata.agentMetrics),
-        errorRate: this.calculateErrorRate(metadata.agentMetrics),
-        parallelEfficiency: this.calculateParallelEfficiency()
-      }
+      health: metadata.telemetry?.health,
+      execution: metadata.telemetry?.execution,
+      steps: metadata.telemetry?.steps || [],
+      llmCalls: metadata.telemetry?.calls || []
     };
 
     const filename = this.generateFilename('performance-report', 'json');
@@ -321,6 +396,7 @@ ${metadata.wafChecklist ? `- WAF Framework Coverage: ${metadata.wafChecklist.cov
         caseStudyFolder,
         caseStudyFile: '../original-case-study.md', // Relative path to case study
         performance: agentData,
+        llmCalls: metadata.telemetry?.calls.filter(call => call.agent === agentName) || [],
         debugInfo: {
           tasksCompleted: agentData.tasksCompleted || 0,
           averageResponseTime: agentData.averageResponseTime || 0,
@@ -384,6 +460,7 @@ ${this.stripLLMConversational(riskInfo) || '*Generating risk assessment...*'}
 
 ${wafSummary}
 
+${this.formatRunCost(metadata.runCost)}
 ## 🗣️ Talking Points
 ${this.generateTalkingPoints(analysis)}
 
@@ -398,38 +475,6 @@ ${this.generateTalkingPoints(analysis)}
     return filepath;
   }
 
-  // Utility methods for metrics calculation
-  private countParallelTasks(): number {
-    // Implementation would analyze task types
-    return 2; // Default based on current workflow
-  }
-
-  private countSequentialTasks(): number {
-    return 3; // Default based on current workflow
-  }
-
-  private calculateDelegationLatency(metrics: Record<string, any>): number {
-    // Calculate average task delegation time
-    const latencies = Object.values(metrics).map((m: any) => m.delegationLatency || 100);
-    return Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length);
-  }
-
-  private calculateAverageResponseTime(metrics: Record<string, any>): number {
-    const times = Object.values(metrics).map((m: any) => m.averageResponseTime || 1000);
-    return Math.round(times.reduce((a, b) => a + b, 0) / times.length);
-  }
-
-  private calculateErrorRate(metrics: Record<string, any>): number {
-    const rates = Object.values(metrics).map((m: any) => m.errorRate || 0);
-    const avgRate = rates.reduce((a, b) => a + b, 0) / rates.length;
-    return Math.round(avgRate * 100 * 10) / 10; // Round to 1 decimal
-  }
-
-  private calculateParallelEfficiency(): number {
-    // Calculate how much time was saved by parallel execution
-    return 75; // Placeholder - would be calculated from actual timing data
-  }
-
   // Strip conversational LLM preambles and conclusions
   private stripLLMConversational(text: string): string {
     if (!text) return text;
@@ -0,0 +1,424 @@
+/**
+ * Pipeline Artifacts
+ * Typed, schema-validated artifacts passed between workflow steps
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SchemaDefinition, validateSchema, ValidationResult } from '../utils/schema-validator.js';
+
+export type ArtifactKind = 'requirements' | 'architecture' | 'cost' | 'risk' | 'changeManagement';
+
+export type Level = 'high' | 'medium' | 'low';
+
+export interface RequirementsArtifact {
+  title: string;
+  functional: string[];
+  nonFunctional: string[];
+  constraints: string[];
+  stakeholders: string[];
+  complianceRequirements: string[];
+}
+
+export interface ArchitectureServiceSpec {
+  id: string;
+  name: string;
+  category: string;
+  sku: string;
+  region: string;
+  purpose: string;
+  monthlyCost?: number;
+  // Availability zone(s), e.g. "1" or "zone-redundant"
+  zone?: string;
+  // Service tier, e.g. "Premium" or "Business Critical"
+  tier?: string;
+  // Ids of the groups (boundaries) the service sits in
+  groups?: string[];
+}
+
+export type FlowDirection = 'one-way' | 'bidirectional';
+
+export interface ArchitectureEdgeSpec {
+  from: string;
+  to: string;
+  description: string;
+  protocol?: string;
+  direction?: FlowDirection;
+}
+
+export type ArchitectureGroupKind = 'trust-boundary' | 'vnet' | 'subnet' | 'subscription' | 'resource-group' | 'region' | 'on-premises';
+
+export interface ArchitectureGroupSpec {
+  id: string;
+  name: string;
+  kind: ArchitectureGroupKind;
+  // Enclosing group, e.g. the VNet of a subnet
+  parent?: string;
+}
+
+export interface ArchitectureArtifact {
+  name: string;
+  summary: string;
+  regions: string[];
+  services: ArchitectureServiceSpec[];
+  edges: ArchitectureEdgeSpec[];
+  groups?: ArchitectureGroupSpec[];
+  pros: string[];
+  cons: string[];
+}
+
+export interface CostLineItem {
+  service: string;
+  sku: string;
+  monthlyCost: number;
+  notes?: string;
+}
+
+export interface CostArtifact {
+  currency: string;
+  totalMonthly: number;
+  breakdown: CostLineItem[];
+  optimizations: { description: string; estimatedMonthlySavings?: number }[];
+}
+
+export interface RiskItem {
+  category: string;
+  description: string;
+  impact: Level;
+  probability: Level;
+  mitigation: string;
+}
+
+export interface RiskArtifact {
+  risks: RiskItem[];
+}
+
+export interface ChangeManagementArtifact {
+  stakeholders: string[];
+  phases: { phase: string; duration: string; tasks: string[] }[];
+  successMetrics: string[];
+}
+
+export interface ArtifactMap {
+  requirements: RequirementsArtifact;
+  architecture: ArchitectureArtifact;
+  cost: CostArtifact;
+  risk: RiskArtifact;
+  changeManagement: ChangeManagementArtifact;
+}
+
+export type PipelineArtifacts = Partial<ArtifactMap>;
+
+const stringList: SchemaDefinition = { type: 'array', items: { type: 'string', minLength: 1 } };
+const level: SchemaDefinition = { type: 'string', enum: ['high', 'medium', 'low'] };
+
+export const ARTIFACT_SCHEMAS: Record<ArtifactKind, SchemaDefinition> = {
+  requirements: {
+    type: 'object',
+    required: ['title', 'functional', 'nonFunctional', 'constraints', 'stakeholders', 'complianceRequirements'],
+    properties: {
+      title: { type: 'string', minLength: 1, description: 'short solution title' },
+      functional: { ...stringList, minItems: 1 },
+      nonFunctional: { ...stringList, minItems: 1 },
+      constraints: stringList,
+      stakeholders: stringList,
+      complianceRequirements: { ...stringList, description: 'regulations such as GDPR, FINMA, HIPAA' }
+    }
+  },
+  architecture: {
+    type: 'object',
+    required: ['name', 'summary', 'regions', 'services', 'edges', 'pros', 'cons'],
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      summary: { type: 'string', minLength: 1 },
+      regions: { ...stringList, minItems: 1, description: 'Azure regions, e.g. switzerlandnorth' },
+      services: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['id', 'name', 'category', 'sku', 'region', 'purpose'],
+          properties: {
+            id: { type: 'string', minLength: 1, description: 'unique kebab-case id' },
+            name: { type: 'string', minLength: 1, description: 'Azure service name' },
+            category: { type: 'string', enum: ['compute', 'data', 'networking', 'security', 'integration', 'ai', 'monitoring', 'identity', 'storage', 'external', 'on-premises'] },
+            sku: { type: 'string', minLength: 1 },
+            region: { type: 'string', minLength: 1 },
+            purpose: { type: 'string' },
+            monthlyCost: { type: 'number', minimum: 0, description: 'USD per month' },
+            zone: { type: 'string', description: 'availability zone, e.g. "1" or "zone-redundant"' },
+            tier: { type: 'string', description: 'service tier, e.g. Premium' },
+            groups: { ...stringList, description: 'ids of the groups the service belongs to' }
+          }
+        }
+      },
+      edges: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['from', 'to', 'description'],
+          properties: {
+            from: { type: 'string', minLength: 1, description: 'service id' },
+            to: { type: 'string', minLength: 1, description: 'service id' },
+            description: { type: 'string' },
+            protocol: { type: 'string', description: 'e.g. HTTPS, AMQP, TDS' },
+            direction: { type: 'string', enum: ['one-way', 'bidirectional'] }
+          }
+        }
+      },
+      groups: {
+        type: 'array',
+        description: 'trust boundaries, VNets, subnets, subscriptions and on-premises sites',
+        items: {
+          type: 'object',
+          required: ['id', 'name', 'kind'],
+          properties: {
+            id: { type: 'string', minLength: 1, description: 'unique kebab-case id' },
+            name: { type: 'string', minLength: 1 },
+            kind: { type: 'string', enum: ['trust-boundary', 'vnet', 'subnet', 'subscription', 'resource-group', 'region', 'on-premises'] },
+            parent: { type: 'string', description: 'id of the enclosing group' }
+          }
+        }
+      },
+      pros: stringList,
+      cons: stringList
+    }
+  },
+  cost: {
+    type: 'object',
+    required: ['currency', 'totalMonthly', 'breakdown', 'optimizations'],
+    properties: {
+      currency: { type: 'string', minLength: 3, description: 'ISO currency code' },
+      totalMonthly: { type: 'number', minimum: 0 },
+      breakdown: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['service', 'sku', 'monthlyCost'],
+          properties: {
+            service: { type: 'string', minLength: 1 },
+            sku: { type: 'string' },
+            monthlyCost: { type: 'number', minimum: 0 },
+            notes: { type: 'string' }
+          }
+        }
+      },
+      optimizations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['description'],
+          properties: {
+            description: { type: 'string', minLength: 1 },
+            estimatedMonthlySavings: { type: 'number', minimum: 0 }
+          }
+        }
+      }
+    }
+  },
+  risk: {
+    type: 'object',
+    required: ['risks'],
+    properties: {
+      risks: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['category', 'description', 'impact', 'probability', 'mitigation'],
+          properties: {
+            category: { type: 'string', minLength: 1 },
+            description: { type: 'string', minLength: 1 },
+            impact: level,
+            probability: level,
+            mitigation: { type: 'string', minLength: 1 }
+          }
+        }
+      }
+    }
+  },
+  changeManagement: {
+    type: 'object',
+    required: ['stakeholders', 'phases', 'successMetrics'],
+    properties: {
+      stakeholders: stringList,
+      phases: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['phase', 'duration', 'tasks'],
+          properties: {
+            phase: { type: 'string', minLength: 1 },
+            duration: { type: 'string', minLength: 1 },
+            tasks: stringList
+          }
+        }
+      },
+      successMetrics: stringList
+    }
+  }
+};
+
+/**
+ * Validate an artifact against its schema plus cross-field rules
+ * that a plain schema cannot express.
+ */
+export function validateArtifact<K extends ArtifactKind>(kind: K, value: any): ValidationResult {
+  const result = validateSchema(value, ARTIFACT_SCHEMAS[kind]);
+  if (!result.valid) {
+    return result;
+  }
+
+  const errors: string[] = [];
+
+  if (kind === 'architecture') {
+    const ids = new Set<string>();
+    (value as ArchitectureArtifact).services.forEach((service, index) => {
+      if (ids.has(service.id)) {
+        errors.push(`$.services[${index}].id: duplicate service id "${service.id}"`);
+      }
+      ids.add(service.id);
+    });
+    (value as ArchitectureArtifact).edges.forEach((edge, index) => {
+      if (!ids.has(edge.from)) errors.push(`$.edges[${index}].from: unknown service id "${edge.from}"`);
+      if (!ids.has(edge.to)) errors.push(`$.edges[${index}].to: unknown service id "${edge.to}"`);
+    });
+
+    const groups = (value as ArchitectureArtifact).groups || [];
+    const groupIds = new Set<string>();
+    groups.forEach((group, index) => {
+      if (groupIds.has(group.id)) errors.push(`$.groups[${index}].id: duplicate group id "${group.id}"`);
+      groupIds.add(group.id);
+    });
+    groups.forEach((group, index) => {
+      if (group.parent !== undefined && (!groupIds.has(group.parent) || group.parent === group.id)) {
+        errors.push(`$.groups[${index}].parent: unknown group id "${group.parent}"`);
+      }
+    });
+    (value as ArchitectureArtifact).services.forEach((service, index) => {
+      (service.groups || []).forEach((groupId, groupIndex) => {
+        if (!groupIds.has(groupId)) errors.push(`$.services[${index}].groups[${groupIndex}]: unknown group id "${groupId}"`);
+      });
+    });
+  }
+
+  if (kind === 'cost') {
+    const artifact = value as CostArtifact;
+    const sum = artifact.breakdown.reduce((total, item) => total + item.monthlyCost, 0);
+    // Allow rounding and small unlisted items, but not a total that ignores the breakdown
+    if (sum > 0 && Math.abs(sum - artifact.totalMonthly) / sum > 0.1) {
+      errors.push(`$.totalMonthly: ${artifact.totalMonthly} does not match breakdown sum ${Math.round(sum)}`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Deterministic clean-up applied before validation: fixes casing of enum
+ * values and numbers returned as currency strings ("$1,200/month").
+ */
+export function normalizeArtifact(kind: ArtifactKind, value: any): any {
+  if (!value || typeof value !== 'object') return value;
+
+  const toNumber = (input: any): any => {
+    if (typeof input !== 'string') return input;
+    const parsed = parseFloat(input.replace(/[^0-9.\-]/g, ''));
+    return Number.isNaN(parsed) ? input : parsed;
+  };
+  const toLevel = (input: any): any => {
+    if (typeof input !== 'string') return input;
+    const lowered = input.trim().toLowerCase();
+    if (lowered === 'h') return 'high';
+    if (lowered === 'm') return 'medium';
+    if (lowered === 'l') return 'low';
+    return lowered;
+  };
+
+  switch (kind) {
+    case 'architecture':
+      if (Array.isArray(value.services)) {
+        value.services = value.services.map((service: any) => ({
+          ...service,
+          category: typeof service?.category === 'string' ? service.category.toLowerCase() : service?.category,
+          monthlyCost: service?.monthlyCost === undefined ? undefined : toNumber(service.monthlyCost),
+          zone: typeof service?.zone === 'number' ? String(service.zone) : service?.zone,
+          groups: typeof service?.groups === 'string' ? [service.groups] : service?.groups
+        }));
+      }
+      if (!Array.isArray(value.edges)) value.edges = [];
+      value.edges = value.edges.map((edge: any) => ({
+        ...edge,
+        direction: typeof edge?.direction === 'string' ? edge.direction.trim().toLowerCase().replace(/[\s_]+/g, '-') : edge?.direction
+      }));
+      if (Array.isArray(value.groups)) {
+        value.groups = value.groups.map((group: any) => ({
+          ...group,
+          kind: typeof group?.kind === 'string' ? group.kind.trim().toLowerCase().replace(/[\s_]+/g, '-') : group?.kind
+        }));
+      }
+      return value;
+    case 'cost':
+      value.totalMonthly = toNumber(value.totalMonthly);
+      if (Array.isArray(value.breakdown)) {
+        value.breakdown = value.breakdown.map((item: any) => ({ ...item, monthlyCost: toNumber(item?.monthlyCost) }));
+      }
+      if (Array.isArray(value.optimizations)) {
+        value.optimizations = value.optimizations.map((item: any) =>
+          typeof item === 'string' ? { description: item } : {
+            ...item,
+            estimatedMonthlySavings: item?.estimatedMonthlySavings === undefined ? undefined : toNumber(item.estimatedMonthlySavings)
+          }
+        );
+      }
+      return value;
+    case 'risk':
+      if (Array.isArray(value.risks)) {
+        value.risks = value.risks.map((risk: any) => ({
+          ...risk,
+          impact: toLevel(risk?.impact),
+          probability: toLevel(risk?.probability)
+        }));
+      }
+      return value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Persist an artifact as JSON in the case study folder (artifacts/<kind>.json).
+ * The artifact is validated again at this boundary; invalid artifacts are not written.
+ */
+export async function saveArtifact(kind: ArtifactKind, artifact: any, caseStudyFolder?: string): Promise<void> {
+  if (!caseStudyFolder) return;
+
+  const validation = validateArtifact(kind, artifact);
+  if (!validation.valid) {
+    console.warn(`   ⚠️ Refusing to save invalid ${kind} artifact: ${validation.errors[0]}`);
+    return;
+  }
+
+  try {
+    const outputDir = path.join(process.cwd(), 'output', caseStudyFolder, 'artifacts');
+    await fs.mkdir(outputDir, { recursive: true });
+    await fs.writeFile(path.join(outputDir, `${kind}.json`), JSON.stringify(artifact, null, 2), 'utf-8');
+  } catch (error) {
+    console.warn(`   ⚠️ Failed to save ${kind} artifact: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Load a previously saved artifact, returning undefined when missing or invalid
+ */
+export async function loadArtifact<K extends ArtifactKind>(kind: K, caseStudyFolder: string): Promise<ArtifactMap[K] | undefined> {
+  try {
+    const filepath = path.join(process.cwd(), 'output', caseStudyFolder, 'artifacts', `${kind}.json`);
+    const parsed = JSON.parse(await fs.readFile(filepath, 'utf-8'));
+    return validateArtifact(kind, parsed).valid ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Progress Events
+ * Live event feed of an analysis run - workflow steps, the LLM calls of each
+ * agent, streamed tokens, retries, timeouts and fallbacks. The CLI renders it
+ * as a step tree; any other consumer can subscribe the same way.
+ */
+
+import { EventEmitter } from 'events';
+import type { StepStatus } from './workflow-engine.js';
+import type { LLMCallStatus } from './telemetry.js';
+
+export interface ProgressStepInfo {
+  id: string;
+  name: string;
+  agent: string;
+  icon?: string;
+  dependsOn: string[];
+  // Steps restored from a checkpoint start out completed
+  status: StepStatus;
+}
+
+export interface AgentEventPayload {
+  step: string;
+  agent: string;
+}
+
+export interface ProgressEventMap {
+  'workflow:start': { workflow: string; steps: ProgressStepInfo[] };
+  'step:start': { step: string; name: string; agent: string };
+  'step:end': { step: string; name: string; agent: string; status: StepStatus; durationMs: number; timedOut: boolean; error?: string };
+  'call:start': AgentEventPayload & { deployment: string };
+  'call:end': AgentEventPayload & { deployment: string; status: LLMCallStatus; durationMs: number; totalTokens: number };
+  'token': AgentEventPayload & { delta: string };
+  'agent:retry': AgentEventPayload;
+  'agent:timeout': AgentEventPayload;
+  'agent:fallback': AgentEventPayload;
+}
+
+export type ProgressEventName = keyof ProgressEventMap;
+
+export class ProgressEventBus extends EventEmitter {
+  constructor() {
+    super();
+    // One listener per event from each renderer/consumer; parallel runs may add more
+    this.setMaxListeners(50);
+  }
+
+  publish<K extends ProgressEventName>(event: K, payload: ProgressEventMap[K]): void {
+    this.emit(event, payload);
+  }
+
+  /**
+   * Subscribe to an event; returns a function that removes the listener
+   */
+  subscribe<K extends ProgressEventName>(event: K, listener: (payload: ProgressEventMap[K]) => void): () => void {
+    this.on(event, listener);
+    return () => this.off(event, listener);
+  }
+}
+
+export const progressEvents = new ProgressEventBus();
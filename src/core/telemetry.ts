@@ -0,0 +1,386 @@
+/**
+ * Telemetry Collector
+ * Measures every LLM call (wall time, token usage, retries, timeouts, fallbacks)
+ * and attributes it to the workflow step and agent that made it
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { progressEvents } from './progress-events.js';
+
+export type LLMCallStatus = 'success' | 'error' | 'timeout';
+export type TelemetryHealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+export interface TelemetryScope {
+  step?: string;
+  agent?: string;
+  // Cancellation and end (epoch ms) of the enclosing workflow step; LLM calls made inside stop with them
+  signal?: AbortSignal;
+  deadline?: number;
+}
+
+export interface LLMCallRecord {
+  agent: string;
+  step: string;
+  // Model reported by the response (falls back to the requested deployment)
+  model: string;
+  deployment: string;
+  transport: string;
+  routing?: CallRouting;
+  startedAt: number;
+  durationMs: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  status: LLMCallStatus;
+  error?: string;
+}
+
+export interface CallRouting {
+  logicalModel: string;
+  reasoning: string;
+}
+
+export interface StepTelemetryRecord {
+  step: string;
+  agent: string;
+  status: string;
+  startedAt: number;
+  durationMs: number;
+  timedOut: boolean;
+  error?: string;
+}
+
+export interface AgentTelemetry {
+  steps: string[];
+  requestsCount: number;
+  successfulRequests: number;
+  failedRequests: number;
+  tasksCompleted: number;
+  averageResponseTime: number;
+  totalResponseTime: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  retries: number;
+  timeouts: number;
+  fallbacks: number;
+  errorRate: number;
+  status: TelemetryHealthStatus;
+  lastError?: string;
+}
+
+export interface TelemetryHealth {
+  totalAgents: number;
+  tasksCompleted: number;
+  llmCalls: number;
+  averageResponseTime: number;
+  errorRate: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  retries: number;
+  timeouts: number;
+  fallbacks: number;
+  status: TelemetryHealthStatus;
+}
+
+export interface ExecutionTelemetry {
+  wallTimeMs: number;
+  stepTimeMs: number;
+  parallelSteps: number;
+  sequentialSteps: number;
+  // Share of summed step time saved by running steps concurrently
+  parallelEfficiency: number;
+}
+
+export interface TelemetrySnapshot {
+  health: TelemetryHealth;
+  execution: ExecutionTelemetry;
+  agents: Record<string, AgentTelemetry>;
+  steps: StepTelemetryRecord[];
+  calls: LLMCallRecord[];
+}
+
+interface ActiveScope {
+  step?: string;
+  agent?: string;
+  signal?: AbortSignal;
+  deadline?: number;
+  sinks: LLMCallRecord[][];
+}
+
+interface AgentCounters {
+  retries: number;
+  timeouts: number;
+  fallbacks: number;
+}
+
+const UNATTRIBUTED = 'unattributed';
+
+export class TelemetryCollector {
+  private storage = new AsyncLocalStorage<ActiveScope>();
+  private calls: LLMCallRecord[] = [];
+  private steps: StepTelemetryRecord[] = [];
+  private counters: Map<string, AgentCounters> = new Map();
+
+  /**
+   * Run `fn` with calls attributed to the given step/agent. Unset fields are
+   * inherited from the enclosing scope. Calls made inside are also pushed to
+   * `sink` so callers can total up their own usage.
+   */
+  runInScope<T>(scope: TelemetryScope, fn: () => T, sink?: LLMCallRecord[]): T {
+    const parent = this.storage.getStore();
+    return this.storage.run({
+      step: scope.step ?? parent?.step,
+      agent: scope.agent ?? parent?.agent,
+      signal: scope.signal ?? parent?.signal,
+      deadline: scope.deadline ?? parent?.deadline,
+      sinks: sink ? [...(parent?.sinks || []), sink] : parent?.sinks || []
+    }, fn);
+  }
+
+  /**
+   * Cancellation and deadline of the workflow step the caller runs in, if any
+   */
+  currentBudget(): { signal?: AbortSignal; deadline?: number } {
+    const scope = this.storage.getStore();
+    return { signal: scope?.signal, deadline: scope?.deadline };
+  }
+
+  currentScope(): { step: string; agent: string } {
+    const scope = this.storage.getStore();
+    return { step: scope?.step || UNATTRIBUTED, agent: scope?.agent || scope?.step || UNATTRIBUTED };
+  }
+
+  /**
+   * Time an LLM call and record its outcome and token usage in the current scope
+   */
+  async trackCall<T extends { model?: string; usage?: any }>(
+    deployment: string,
+    transport: string,
+    call: () => Promise<T>,
+    routing?: CallRouting
+  ): Promise<T> {
+    const { step, agent } = this.currentScope();
+    const startedAt = Date.now();
+    progressEvents.publish('call:start', { step, agent, deployment });
+
+    try {
+      const response = await call();
+      this.addCall({
+        agent,
+        step,
+        model: response?.model || deployment,
+        deployment,
+        transport,
+        routing,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        promptTokens: response?.usage?.prompt_tokens || 0,
+        completionTokens: response?.usage?.completion_tokens || 0,
+        totalTokens: response?.usage?.total_tokens || 0,
+        status: 'success'
+      });
+      return response;
+    } catch (error) {
+      this.addCall({
+        agent,
+        step,
+        model: deployment,
+        deployment,
+        transport,
+        routing,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        status: isTimeoutError(error) ? 'timeout' : 'error',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  recordRetry(agent?: string): void {
+    this.countersFor(agent).retries++;
+    progressEvents.publish('agent:retry', this.eventScope(agent));
+  }
+
+  /**
+   * An agent gave up waiting (its own time limit, not the HTTP client's)
+   */
+  recordTimeout(agent?: string): void {
+    this.countersFor(agent).timeouts++;
+    progressEvents.publish('agent:timeout', this.eventScope(agent));
+  }
+
+  /**
+   * Canned or default content was used instead of a model answer
+   */
+  recordFallback(agent?: string): void {
+    this.countersFor(agent).fallbacks++;
+    progressEvents.publish('agent:fallback', this.eventScope(agent));
+  }
+
+  recordStep(record: StepTelemetryRecord): void {
+    this.steps.push(record);
+    this.runInScope({ step: record.step, agent: record.agent }, () => {
+      if (record.timedOut) this.recordTimeout();
+      if (record.status === 'fallback') this.recordFallback();
+    });
+  }
+
+  getCalls(): LLMCallRecord[] {
+    return [...this.calls];
+  }
+
+  getAgentMetrics(): Record<string, AgentTelemetry> {
+    const agents = new Set<string>([
+      ...this.calls.map(call => call.agent),
+      ...this.counters.keys()
+    ]);
+
+    return Object.fromEntries([...agents].sort().map(agent => {
+      const calls = this.calls.filter(call => call.agent === agent);
+      const successful = calls.filter(call => call.status === 'success');
+      const counters = this.counters.get(agent) || { retries: 0, timeouts: 0, fallbacks: 0 };
+      const totalResponseTime = calls.reduce((sum, call) => sum + call.durationMs, 0);
+      const errorRate = calls.length > 0 ? (calls.length - successful.length) / calls.length : 0;
+      const lastFailure = [...calls].reverse().find(call => call.status !== 'success');
+
+      const metrics: AgentTelemetry = {
+        steps: [...new Set(calls.map(call => call.step))],
+        requestsCount: calls.length,
+        successfulRequests: successful.length,
+        failedRequests: calls.length - successful.length,
+        tasksCompleted: successful.length,
+        averageResponseTime: calls.length > 0 ? Math.round(totalResponseTime / calls.length) : 0,
+        totalResponseTime,
+        promptTokens: sum(calls, 'promptTokens'),
+        completionTokens: sum(calls, 'completionTokens'),
+        totalTokens: sum(calls, 'totalTokens'),
+        ...counters,
+        errorRate,
+        status: healthStatus(errorRate, counters.timeouts + counters.fallbacks),
+        lastError: lastFailure?.error
+      };
+      return [agent, metrics];
+    }));
+  }
+
+  getHealth(): TelemetryHealth {
+    const agents = Object.values(this.getAgentMetrics());
+    const successful = this.calls.filter(call => call.status === 'success').length;
+    const errorRate = this.calls.length > 0 ? (this.calls.length - successful) / this.calls.length : 0;
+    const totals = [...this.counters.values()].reduce(
+      (acc, counters) => ({
+        retries: acc.retries + counters.retries,
+        timeouts: acc.timeouts + counters.timeouts,
+        fallbacks: acc.fallbacks + counters.fallbacks
+      }),
+      { retries: 0, timeouts: 0, fallbacks: 0 }
+    );
+
+    return {
+      totalAgents: agents.filter(agent => agent.requestsCount > 0).length,
+      tasksCompleted: successful,
+      llmCalls: this.calls.length,
+      averageResponseTime: this.calls.length > 0 ? Math.round(sum(this.calls, 'durationMs') / this.calls.length) : 0,
+      errorRate,
+      promptTokens: sum(this.calls, 'promptTokens'),
+      completionTokens: sum(this.calls, 'completionTokens'),
+      totalTokens: sum(this.calls, 'totalTokens'),
+      ...totals,
+      status: agents.some(agent => agent.status === 'unhealthy')
+        ? 'unhealthy'
+        : healthStatus(errorRate, totals.timeouts + totals.fallbacks)
+    };
+  }
+
+  /**
+   * Step concurrency measured from actual start/end times
+   */
+  getExecution(): ExecutionTelemetry {
+    if (this.steps.length === 0) {
+      return { wallTimeMs: 0, stepTimeMs: 0, parallelSteps: 0, sequentialSteps: 0, parallelEfficiency: 0 };
+    }
+
+    const start = Math.min(...this.steps.map(step => step.startedAt));
+    const end = Math.max(...this.steps.map(step => step.startedAt + step.durationMs));
+    const stepTimeMs = sum(this.steps, 'durationMs');
+    const overlaps = (a: StepTelemetryRecord, b: StepTelemetryRecord) =>
+      a !== b && a.startedAt < b.startedAt + b.durationMs && b.startedAt < a.startedAt + a.durationMs;
+    const parallelSteps = this.steps.filter(step => this.steps.some(other => overlaps(step, other))).length;
+    const wallTimeMs = end - start;
+
+    return {
+      wallTimeMs,
+      stepTimeMs,
+      parallelSteps,
+      sequentialSteps: this.steps.length - parallelSteps,
+      parallelEfficiency: stepTimeMs > 0 ? Math.max(0, Math.round((1 - wallTimeMs / stepTimeMs) * 1000) / 10) : 0
+    };
+  }
+
+  snapshot(): TelemetrySnapshot {
+    return {
+      health: this.getHealth(),
+      execution: this.getExecution(),
+      agents: this.getAgentMetrics(),
+      steps: [...this.steps],
+      calls: this.getCalls()
+    };
+  }
+
+  reset(): void {
+    this.calls = [];
+    this.steps = [];
+    this.counters.clear();
+  }
+
+  private addCall(record: LLMCallRecord): void {
+    this.calls.push(record);
+    for (const sink of this.storage.getStore()?.sinks || []) {
+      sink.push(record);
+    }
+    progressEvents.publish('call:end', {
+      step: record.step,
+      agent: record.agent,
+      deployment: record.deployment,
+      status: record.status,
+      durationMs: record.durationMs,
+      totalTokens: record.totalTokens
+    });
+  }
+
+  private eventScope(agent?: string): { step: string; agent: string } {
+    const scope = this.currentScope();
+    return { step: scope.step, agent: agent || scope.agent };
+  }
+
+  private countersFor(agent?: string): AgentCounters {
+    const name = agent || this.currentScope().agent;
+    if (!this.counters.has(name)) {
+      this.counters.set(name, { retries: 0, timeouts: 0, fallbacks: 0 });
+    }
+    return this.counters.get(name)!;
+  }
+}
+
+export function isTimeoutError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  return /timeout|timed out/i.test(error.name) || /timeout|timed out/i.test(error.message);
+}
+
+function sum<T>(items: T[], key: keyof T): number {
+  return items.reduce((total, item) => total + (Number(item[key]) || 0), 0);
+}
+
+function healthStatus(errorRate: number, degradations: number): TelemetryHealthStatus {
+  if (errorRate > 0.3) return 'unhealthy';
+  if (errorRate > 0.1 || degradations > 0) return 'degraded';
+  return 'healthy';
+}
+
+export const telemetry = new TelemetryCollector();
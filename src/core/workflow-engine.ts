@@ -0,0 +1,467 @@
+/**
+ * Workflow Engine
+ * Executes declarative workflow definitions as a DAG - independent steps run
+ * concurrently, each with its own timeout and fallback. A step that times out
+ * has its signal aborted; its handler must not write shared state afterwards.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ArtifactKind } from './pipeline-artifacts.js';
+import { telemetry } from './telemetry.js';
+import { progressEvents } from './progress-events.js';
+
+export type StepFailureMode = 'fallback' | 'skip' | 'fail';
+
+export type StepStatus = 'pending' | 'running' | 'completed' | 'fallback' | 'skipped' | 'failed';
+
+export interface WorkflowStepDefinition {
+  id: string;
+  name: string;
+  handler: string;
+  // Agent that LLM calls made by this step are attributed to (defaults to the step id)
+  agent?: string;
+  icon?: string;
+  dependsOn?: string[];
+  group?: string;
+  enabled?: boolean;
+  timeoutMs?: number;
+  output?: string | string[];
+  artifact?: ArtifactKind;
+  report?: string | false;
+  onFailure?: StepFailureMode;
+  fallback?: any;
+  options?: Record<string, any>;
+}
+
+export interface WorkflowGroupDefinition {
+  id: string;
+  name: string;
+  maxConcurrency?: number;
+}
+
+export interface WorkflowDefinition {
+  name: string;
+  version: string;
+  description?: string;
+  result: string;
+  maxConcurrency?: number;
+  groups?: WorkflowGroupDefinition[];
+  steps: WorkflowStepDefinition[];
+}
+
+export interface WorkflowContext {
+  caseStudyText: string;
+  caseStudyFolder?: string;
+  values: Record<string, any>;
+}
+
+export interface StepResult {
+  id: string;
+  status: StepStatus;
+  startedAt?: number;
+  durationMs?: number;
+  timedOut?: boolean;
+  error?: string;
+}
+
+// Context of one step run: the shared workflow values plus the step's cancellation
+export interface StepContext extends WorkflowContext {
+  // Aborted when the step times out and its fallback takes over
+  signal: AbortSignal;
+}
+
+export type StepHandler = (context: StepContext, step: WorkflowStepDefinition) => Promise<any>;
+
+export interface WorkflowHooks {
+  onStepStart?: (step: WorkflowStepDefinition) => void | Promise<void>;
+  onStepComplete?: (step: WorkflowStepDefinition, result: StepResult, context: WorkflowContext) => void | Promise<void>;
+}
+
+export const DEFAULT_WORKFLOW_FILE = 'flows/architecture-analysis/workflow.json';
+
+/**
+ * Load a workflow definition; .yaml/.yml files are parsed as YAML, anything
+ * else as JSON (relative paths resolve from the working directory)
+ */
+export function loadWorkflowDefinition(filePath: string = DEFAULT_WORKFLOW_FILE): WorkflowDefinition {
+  const resolved = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+  let definition: WorkflowDefinition;
+  try {
+    const content = readFileSync(resolved, 'utf-8');
+    definition = /\.ya?ml$/i.test(resolved) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Could not load workflow definition ${resolved}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const errors = validateWorkflowDefinition(definition);
+  if (errors.length > 0) {
+    throw new Error(`Invalid workflow definition ${resolved}:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+  }
+  return definition;
+}
+
+/**
+ * Structural validation: unique ids, known dependencies and groups, no cycles,
+ * and no two unordered steps writing the same output key.
+ */
+export function validateWorkflowDefinition(definition: WorkflowDefinition, handlerNames?: string[]): string[] {
+  const errors: string[] = [];
+
+  if (!definition || !Array.isArray(definition.steps) || definition.steps.length === 0) {
+    return ['workflow must declare at least one step'];
+  }
+  if (!definition.result) {
+    errors.push('workflow must declare the "result" output key');
+  }
+
+  const ids = new Set<string>();
+  const groupIds = new Set((definition.groups || []).map(g => g.id));
+
+  for (const step of definition.steps) {
+    if (!step.id || !step.handler) {
+      errors.push(`step ${step.id || '(unnamed)'} must declare "id" and "handler"`);
+      continue;
+    }
+    if (ids.has(step.id)) errors.push(`duplicate step id "${step.id}"`);
+    ids.add(step.id);
+    if (step.group && !groupIds.has(step.group)) errors.push(`step "${step.id}" references unknown group "${step.group}"`);
+    if (handlerNames && !handlerNames.includes(step.handler)) errors.push(`step "${step.id}" uses unknown handler "${step.handler}"`);
+  }
+
+  for (const step of definition.steps) {
+    for (const dependency of step.dependsOn || []) {
+      if (!ids.has(dependency)) errors.push(`step "${step.id}" depends on unknown step "${dependency}"`);
+    }
+  }
+
+  if (errors.length > 0) return errors;
+
+  const order = topologicalOrder(definition.steps);
+  if (!order) {
+    return ['workflow dependencies contain a cycle'];
+  }
+
+  // Steps writing the same key must be ordered, otherwise the final value is a race
+  const writers = new Map<string, string[]>();
+  for (const step of definition.steps) {
+    for (const key of outputKeys(step)) {
+      writers.set(key, [...(writers.get(key) || []), step.id]);
+    }
+  }
+  for (const [key, stepIds] of writers) {
+    for (let i = 0; i < stepIds.length; i++) {
+      for (let j = i + 1; j < stepIds.length; j++) {
+        if (!isAncestor(definition.steps, stepIds[i], stepIds[j]) && !isAncestor(definition.steps, stepIds[j], stepIds[i])) {
+          errors.push(`steps "${stepIds[i]}" and "${stepIds[j]}" both write "${key}" but are not ordered by dependencies`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Step ids in an order that respects dependencies
+ */
+export function getExecutionOrder(definition: WorkflowDefinition): string[] {
+  const order = topologicalOrder(definition.steps);
+  if (!order) {
+    throw new Error(`Workflow "${definition.name}" dependencies contain a cycle`);
+  }
+  return order;
+}
+
+/**
+ * All steps that transitively depend on the given step (excluding the step itself)
+ */
+export function getDownstreamSteps(definition: WorkflowDefinition, stepId: string): string[] {
+  return definition.steps
+    .filter(step => step.id !== stepId && isAncestor(definition.steps, stepId, step.id))
+    .map(step => step.id);
+}
+
+/**
+ * Steps a resumed run can keep out of those that finished before: a step that
+ * runs again (anything enabled and not in `done`) invalidates everything
+ * downstream of it, since their outputs were built from its old value
+ */
+export function getRestorableSteps(definition: WorkflowDefinition, done: Iterable<string>): Set<string> {
+  const restorable = new Set(done);
+  for (const step of definition.steps) {
+    if (step.enabled === false || restorable.has(step.id)) continue;
+    getDownstreamSteps(definition, step.id).forEach(downstream => restorable.delete(downstream));
+  }
+  return restorable;
+}
+
+export function outputKeys(step: WorkflowStepDefinition): string[] {
+  if (!step.output) return [];
+  return Array.isArray(step.output) ? step.output : [step.output];
+}
+
+/**
+ * Replace {{key}} placeholders with context values (objects are JSON encoded)
+ */
+export function interpolate(template: any, context: WorkflowContext): any {
+  if (typeof template === 'string') {
+    return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, key: string) => {
+      const value = key === 'caseStudy' ? context.caseStudyText : context.values[key];
+      if (value === undefined || value === null) return '';
+      return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+    });
+  }
+  if (Array.isArray(template)) {
+    return template.map(item => interpolate(item, context));
+  }
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, interpolate(value, context)]));
+  }
+  return template;
+}
+
+function topologicalOrder(steps: WorkflowStepDefinition[]): string[] | null {
+  const remaining = new Map(steps.map(step => [step.id, new Set(step.dependsOn || [])]));
+  const order: string[] = [];
+
+  while (remaining.size > 0) {
+    const ready = [...remaining.entries()].filter(([, deps]) => deps.size === 0).map(([id]) => id);
+    if (ready.length === 0) return null;
+    for (const id of ready) {
+      remaining.delete(id);
+      order.push(id);
+      for (const deps of remaining.values()) deps.delete(id);
+    }
+  }
+
+  return order;
+}
+
+function isAncestor(steps: WorkflowStepDefinition[], ancestorId: string, stepId: string): boolean {
+  const byId = new Map(steps.map(step => [step.id, step]));
+  const stack = [...(byId.get(stepId)?.dependsOn || [])];
+  const seen = new Set<string>();
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === ancestorId) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    stack.push(...(byId.get(current)?.dependsOn || []));
+  }
+
+  return false;
+}
+
+export class WorkflowEngine {
+  private definition: WorkflowDefinition;
+  private handlers: Map<string, StepHandler> = new Map();
+
+  constructor(definition: WorkflowDefinition) {
+    this.definition = definition;
+  }
+
+  registerHandler(name: string, handler: StepHandler): this {
+    this.handlers.set(name, handler);
+    return this;
+  }
+
+  getDefinition(): WorkflowDefinition {
+    return this.definition;
+  }
+
+  /**
+   * Run the workflow. Steps start as soon as their dependencies have finished;
+   * disabled steps count as satisfied so stages can be skipped per engagement.
+   * Steps present in `restored` (from a checkpoint) are treated as already done.
+   */
+  async run(
+    context: WorkflowContext,
+    hooks: WorkflowHooks = {},
+    restored: Map<string, StepResult> = new Map()
+  ): Promise<Map<string, StepResult>> {
+    const errors = validateWorkflowDefinition(this.definition, [...this.handlers.keys()]);
+    if (errors.length > 0) {
+      throw new Error(`Invalid workflow "${this.definition.name}": ${errors.join('; ')}`);
+    }
+
+    const results = new Map<string, StepResult>();
+    for (const step of this.definition.steps) {
+      if (step.enabled === false) {
+        results.set(step.id, { id: step.id, status: 'skipped' });
+      } else {
+        results.set(step.id, restored.get(step.id) || { id: step.id, status: 'pending' });
+      }
+    }
+
+    progressEvents.publish('workflow:start', {
+      workflow: this.definition.name,
+      steps: this.definition.steps.map(step => ({
+        id: step.id,
+        name: step.name,
+        agent: step.agent || step.id,
+        icon: step.icon,
+        dependsOn: step.dependsOn || [],
+        status: results.get(step.id)!.status
+      }))
+    });
+
+    const running = new Map<string, Promise<void>>();
+    const finished = (status: StepStatus) => status === 'completed' || status === 'fallback' || status === 'skipped';
+
+    while (true) {
+      const failed = [...results.values()].find(result => result.status === 'failed');
+      if (failed) {
+        await Promise.allSettled(running.values());
+        throw new Error(`Workflow step "${failed.id}" failed: ${failed.error}`);
+      }
+
+      const pending = this.definition.steps.filter(step => results.get(step.id)!.status === 'pending');
+      if (pending.length === 0 && running.size === 0) break;
+
+      for (const step of pending) {
+        const ready = (step.dependsOn || []).every(dep => finished(results.get(dep)!.status));
+        if (!ready || !this.hasCapacity(step, running)) continue;
+
+        results.set(step.id, { id: step.id, status: 'running', startedAt: Date.now() });
+        const execution = this.executeStep(step, context, hooks, results).finally(() => running.delete(step.id));
+        running.set(step.id, execution);
+      }
+
+      if (running.size === 0) {
+        // Nothing runnable and nothing in flight - only possible with a broken definition
+        throw new Error(`Workflow "${this.definition.name}" is stuck: ${pending.map(s => s.id).join(', ')} cannot start`);
+      }
+
+      await Promise.race(running.values());
+    }
+
+    return results;
+  }
+
+  private hasCapacity(step: WorkflowStepDefinition, running: Map<string, Promise<void>>): boolean {
+    if (this.definition.maxConcurrency && running.size >= this.definition.maxConcurrency) {
+      return false;
+    }
+    const group = step.group ? this.definition.groups?.find(g => g.id === step.group) : undefined;
+    if (group?.maxConcurrency) {
+      const runningInGroup = this.definition.steps.filter(s => s.group === group.id && running.has(s.id)).length;
+      if (runningInGroup >= group.maxConcurrency) return false;
+    }
+    return true;
+  }
+
+  private async executeStep(
+    step: WorkflowStepDefinition,
+    context: WorkflowContext,
+    hooks: WorkflowHooks,
+    results: Map<string, StepResult>
+  ): Promise<void> {
+    const startedAt = Date.now();
+    const agent = step.agent || step.id;
+    console.log(`${step.icon || '▶'} ${step.name}`);
+    progressEvents.publish('step:start', { step: step.id, name: step.name, agent });
+    await hooks.onStepStart?.(step);
+
+    let status: StepStatus = 'completed';
+    let errorMessage: string | undefined;
+    let timedOut = false;
+    const controller = new AbortController();
+    const stepContext: StepContext = { ...context, signal: controller.signal };
+
+    try {
+      const handler = this.handlers.get(step.handler)!;
+      const output = await this.withTimeout(
+        telemetry.runInScope(
+          { step: step.id, agent, signal: controller.signal, deadline: step.timeoutMs ? startedAt + step.timeoutMs : undefined },
+          () => handler(stepContext, step)
+        ),
+        step.timeoutMs,
+        step.name,
+        error => {
+          timedOut = true;
+          controller.abort(error);
+        }
+      );
+      this.assignOutputs(step, output, context);
+      console.log(`   ✓ ${step.name} complete (${((Date.now() - startedAt) / 1000).toFixed(1)}s)`);
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : String(error);
+      const mode: StepFailureMode = step.onFailure || (step.fallback !== undefined ? 'fallback' : 'skip');
+
+      if (mode === 'fail') {
+        status = 'failed';
+        console.log(`   ✗ ${step.name} failed (${errorMessage})`);
+      } else if (mode === 'fallback' && step.fallback !== undefined) {
+        status = 'fallback';
+        this.assignOutputs(step, interpolate(step.fallback, context), context);
+        console.log(`   ⚠ ${step.name}: using fallback (${errorMessage})`);
+      } else {
+        status = 'skipped';
+        console.log(`   ⚠ ${step.name} skipped (${errorMessage})`);
+      }
+    }
+
+    const result: StepResult = {
+      id: step.id,
+      status,
+      startedAt,
+      durationMs: Date.now() - startedAt,
+      timedOut: timedOut || undefined,
+      error: errorMessage
+    };
+    telemetry.recordStep({
+      step: step.id,
+      agent,
+      status,
+      startedAt,
+      durationMs: result.durationMs!,
+      timedOut,
+      error: errorMessage
+    });
+    progressEvents.publish('step:end', {
+      step: step.id,
+      name: step.name,
+      agent,
+      status,
+      durationMs: result.durationMs!,
+      timedOut,
+      error: errorMessage
+    });
+
+    try {
+      await telemetry.runInScope({ step: step.id, agent }, async () => hooks.onStepComplete?.(step, result, context));
+    } catch (error) {
+      console.warn(`   ⚠️ Post-processing for ${step.name} failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    results.set(step.id, result);
+  }
+
+  private assignOutputs(step: WorkflowStepDefinition, output: any, context: WorkflowContext): void {
+    const keys = outputKeys(step);
+    if (keys.length === 1) {
+      context.values[keys[0]] = output;
+    } else if (keys.length > 1 && output && typeof output === 'object') {
+      for (const key of keys) {
+        if (output[key] !== undefined) context.values[key] = output[key];
+      }
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>, timeoutMs: number | undefined, label: string, onTimeout?: (error: Error) => void): Promise<T> {
+    if (!timeoutMs) return promise;
+
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(`${label} timeout after ${timeoutMs}ms`);
+        onTimeout?.(error);
+        reject(error);
+      }, timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * Cost Calculator
+ * Deterministic monthly cost of the architecture graph from the offline pricing
+ * catalog. Every Azure node is matched to a catalog SKU and its meters priced
+ * pay-as-you-go, with 1- and 3-year reservations and with savings plans, in
+ * USD, EUR or CHF. The same graph, catalog and usage always give the same table,
+ * which the LLM cost narrative is asked to agree with.
+ */
+
+import config from '../config/config.js';
+import { ArchitectureGraph, azureNodes } from '../core/architecture-graph.js';
+import { armRegion } from '../iac/iac-plan.js';
+import {
+  CostCurrency,
+  DiscountProfile,
+  MeterScale,
+  PricingCatalog,
+  PricingSku,
+  UsageAssumption,
+  loadPricingCatalog
+} from './pricing-catalog.js';
+
+export type PricingModel = 'payg' | 'reserved-1y' | 'reserved-3y' | 'savings-plan-1y' | 'savings-plan-3y';
+
+export const PRICING_MODELS: PricingModel[] = ['payg', 'reserved-1y', 'reserved-3y', 'savings-plan-1y', 'savings-plan-3y'];
+
+export const PRICING_MODEL_LABELS: Record<PricingModel, string> = {
+  payg: 'Pay-as-you-go',
+  'reserved-1y': '1y reserved',
+  'reserved-3y': '3y reserved',
+  'savings-plan-1y': '1y savings plan',
+  'savings-plan-3y': '3y savings plan'
+};
+
+export interface PricedMeter {
+  name: string;
+  unit: string;
+  // Billed units per month (hours for hourly meters, after free grants)
+  quantity: number;
+  // Estimate currency per unit, regional price factor applied
+  unitPrice: number;
+  // Pay-as-you-go per month
+  monthly: number;
+  // Discount profile applied in the commitment models
+  discounts?: string;
+}
+
+export interface CostEstimateLine {
+  nodeId: string;
+  service: string;
+  // Service catalog key, e.g. "app-service"
+  type: string;
+  // Catalog SKU the service was priced as
+  sku: string;
+  // False when the architecture's SKU was not recognised and the catalog default was priced
+  skuMatched: boolean;
+  // ARM region whose price factor was applied
+  region: string;
+  meters: PricedMeter[];
+  monthly: Record<PricingModel, number>;
+}
+
+export interface UnpricedService {
+  nodeId: string;
+  service: string;
+  reason: string;
+}
+
+export interface CostEstimate {
+  catalogVersion: string;
+  effectiveDate: string;
+  currency: CostCurrency;
+  // Estimate currency units per USD
+  exchangeRate: number;
+  hoursPerMonth: number;
+  lines: CostEstimateLine[];
+  unpriced: UnpricedService[];
+  totals: Record<PricingModel, number>;
+  // Usage assumptions the consumption meters were priced with
+  usage: UsageAssumption[];
+  // Defaulted SKUs and regions priced at reference rates
+  notes: string[];
+}
+
+export interface CostEstimateOptions {
+  // Defaults to the COST_CURRENCY setting
+  currency?: CostCurrency;
+  // Overrides for the catalog's usage assumptions, by key
+  usage?: Record<string, number>;
+  // Defaults to the catalog at the PRICING_CATALOG setting
+  catalog?: PricingCatalog;
+}
+
+export const COST_BASELINE_HEADING = '## Calculated Cost Baseline';
+
+const PROFILE_FIELDS: Record<Exclude<PricingModel, 'payg'>, keyof Omit<DiscountProfile, 'id'>> = {
+  'reserved-1y': 'reserved1y',
+  'reserved-3y': 'reserved3y',
+  'savings-plan-1y': 'savingsPlan1y',
+  'savings-plan-3y': 'savingsPlan3y'
+};
+
+// Quantities written into SKU strings ("2 x P1v3", "3 nodes", "Gen5 4 vCore", "2 TU", "1000 RU/s")
+const SCALE_PATTERNS: Record<MeterScale, { pattern: RegExp; divisor?: number }> = {
+  instances: { pattern: /(\d+)\s*(?:x\b|×|instances?\b|servers?\b|endpoints?\b|zones?\b|apps?\b)/i },
+  nodes: { pattern: /(\d+)\s*(?:x\s*)?nodes?\b/i },
+  vCores: { pattern: /(\d+)\s*v?cores?\b|Gen5[_ ](\d+)/i },
+  units: { pattern: /(\d+)\s*(?:TUs?|PUs?|MUs?|PTUs?|(?:throughput|processing|messaging|scale|search) units?|units?|replicas?)\b/i },
+  throughput: { pattern: /(\d[\d,]*)\s*RU\/?s?\b/i, divisor: 100 }
+};
+
+/**
+ * Price every Azure node of the graph. Nodes whose type is not in the catalog
+ * are listed as unpriced rather than guessed.
+ */
+export function estimateArchitectureCosts(graph: ArchitectureGraph, options: CostEstimateOptions = {}): CostEstimate {
+  const catalog = options.catalog ?? loadPricingCatalog(config.get().cost.pricingCatalog);
+  const currency = options.currency ?? config.get().cost.currency;
+  const exchangeRate = catalog.exchangeRates[currency];
+  const usage = new Map(catalog.usage.map(assumption => [assumption.key, { ...assumption, value: options.usage?.[assumption.key] ?? assumption.value }]));
+  const profiles = new Map(catalog.discountProfiles.map(profile => [profile.id, profile]));
+  const primaryRegion = armRegion(graph.regions[0]) || catalog.referenceRegion;
+
+  const lines: CostEstimateLine[] = [];
+  const unpriced: UnpricedService[] = [];
+  const notes: string[] = [];
+  const usedAssumptions = new Set<string>();
+  const unknownRegions = new Set<string>();
+
+  for (const node of azureNodes(graph)) {
+    const service = catalog.services.find(entry => entry.type === node.type);
+    if (!service) {
+      unpriced.push({ nodeId: node.id, service: node.name, reason: node.type === 'custom' ? 'not a recognised Azure service' : 'not in the pricing catalog' });
+      continue;
+    }
+
+    const text = `${node.sku} ${node.tier || ''}`;
+    const matched = service.skus.find(sku => new RegExp(sku.match, 'i').test(text));
+    const sku = matched ?? service.skus.find(entry => entry.sku === service.defaultSku)!;
+    if (!matched) notes.push(`${node.name}: SKU "${node.sku}" is not in the pricing catalog; priced as ${sku.sku}`);
+
+    const region = armRegion(node.region) || primaryRegion;
+    const regionFactor = catalog.regions.find(entry => entry.name === region)?.priceFactor;
+    if (regionFactor === undefined) unknownRegions.add(region);
+
+    const meters = priceMeters(sku, text, {
+      hoursPerMonth: catalog.hoursPerMonth,
+      factor: (regionFactor ?? 1) * exchangeRate,
+      usage: key => {
+        usedAssumptions.add(key);
+        return usage.get(key)!.value;
+      }
+    });
+
+    lines.push({
+      nodeId: node.id,
+      service: node.name,
+      type: node.type,
+      sku: sku.sku,
+      skuMatched: Boolean(matched),
+      region,
+      meters,
+      monthly: Object.fromEntries(PRICING_MODELS.map(model => [model, round(meters.reduce((total, meter) =>
+        total + meter.monthly * (1 - discountFor(meter, model, profiles)), 0))])) as Record<PricingModel, number>
+    });
+  }
+
+  if (unknownRegions.size > 0) {
+    notes.push(`${[...unknownRegions].join(', ')} ${unknownRegions.size === 1 ? 'is' : 'are'} not in the pricing catalog; priced at ${catalog.referenceRegion} rates`);
+  }
+
+  return {
+    catalogVersion: catalog.version,
+    effectiveDate: catalog.effectiveDate,
+    currency,
+    exchangeRate,
+    hoursPerMonth: catalog.hoursPerMonth,
+    lines,
+    unpriced,
+    totals: Object.fromEntries(PRICING_MODELS.map(model =>
+      [model, round(lines.reduce((total, line) => total + line.monthly[model], 0))])) as Record<PricingModel, number>,
+    usage: catalog.usage.filter(assumption => usedAssumptions.has(assumption.key)).map(assumption => usage.get(assumption.key)!),
+    notes
+  };
+}
+
+/**
+ * Whole-unit amount in the estimate currency, e.g. "$1,250" or "CHF 1,250"
+ */
+export function formatCostAmount(amount: number, currency: CostCurrency): string {
+  const whole = Math.round(amount).toLocaleString('en-US');
+  return currency === 'USD' ? `$${whole}` : `${currency} ${whole}`;
+}
+
+/**
+ * Markdown cost table for the cost analysis step and cost-estimate.md
+ */
+export function formatCostEstimate(estimate: CostEstimate): string {
+  const money = (amount: number) => formatCostAmount(amount, estimate.currency);
+  const rate = estimate.currency === 'USD' ? '' : `, ${estimate.currency} at ${estimate.exchangeRate.toFixed(2)} per USD`;
+  const lines: string[] = [
+    COST_BASELINE_HEADING,
+    '',
+    `Priced offline from pricing catalog ${estimate.catalogVersion} (list prices of ${estimate.effectiveDate})${rate}, ${estimate.hoursPerMonth} hours per month. ` +
+      'Commitment columns discount only the meters with a reservation or savings plan offer; everything else stays pay-as-you-go.',
+    ''
+  ];
+
+  if (estimate.lines.length > 0) {
+    lines.push(
+      `| Service | SKU | Region | ${PRICING_MODELS.map(model => PRICING_MODEL_LABELS[model]).join(' | ')} |`,
+      `|---------|-----|--------|${PRICING_MODELS.map(() => '---:').join('|')}|`,
+      ...estimate.lines.map(line =>
+        `| ${line.service} | ${line.sku}${line.skuMatched ? '' : ' *'} | ${line.region} | ${PRICING_MODELS.map(model => money(line.monthly[model])).join(' | ')} |`),
+      `| **Total per month** | | | ${PRICING_MODELS.map(model => `**${money(estimate.totals[model])}**`).join(' | ')} |`,
+      `| **Total per year** | | | ${PRICING_MODELS.map(model => `**${money(estimate.totals[model] * 12)}**`).join(' | ')} |`,
+      ''
+    );
+  } else {
+    lines.push('No service of the architecture is in the pricing catalog.', '');
+  }
+
+  if (estimate.usage.length > 0) {
+    lines.push('**Usage assumptions** (per month):', '', ...estimate.usage.map(assumption =>
+      `- ${capitalize(assumption.description)}: ${formatQuantity(assumption.value, assumption.unit)}`), '');
+  }
+  if (estimate.notes.length > 0) {
+    lines.push('**Notes** (* SKU not recognised):', '', ...estimate.notes.map(note => `- ${note}`), '');
+  }
+  if (estimate.unpriced.length > 0) {
+    lines.push('**Not priced:**', '', ...estimate.unpriced.map(service => `- ${service.service}: ${service.reason}`), '');
+  }
+  return lines.join('\n');
+}
+
+function priceMeters(
+  sku: PricingSku,
+  text: string,
+  context: { hoursPerMonth: number; factor: number; usage: (key: string) => number }
+): PricedMeter[] {
+  return sku.meters
+    .filter(meter => !meter.skipWhen || !new RegExp(meter.skipWhen, 'i').test(text))
+    .map(meter => {
+      const count = meter.usage
+        ? Math.max(0, context.usage(meter.usage) - (meter.included ?? 0))
+        : (meter.scale ? scaleQuantity(meter.scale, text) : undefined) ?? meter.defaultQuantity ?? 1;
+      const quantity = meter.unit === 'hour' ? count * context.hoursPerMonth : count;
+      const unitPrice = meter.price * context.factor;
+      return {
+        name: meter.name,
+        unit: meter.unit,
+        quantity: round(quantity),
+        unitPrice: Math.round(unitPrice * 1e6) / 1e6,
+        monthly: round(unitPrice * quantity),
+        discounts: meter.discounts
+      };
+    });
+}
+
+function scaleQuantity(scale: MeterScale, text: string): number | undefined {
+  const { pattern, divisor } = SCALE_PATTERNS[scale];
+  const match = text.match(pattern);
+  const value = match ? Number((match[1] ?? match[2]).replace(/,/g, '')) : NaN;
+  return Number.isFinite(value) && value > 0 ? value / (divisor ?? 1) : undefined;
+}
+
+function discountFor(meter: PricedMeter, model: PricingModel, profiles: Map<string, DiscountProfile>): number {
+  if (model === 'payg' || !meter.discounts) return 0;
+  return profiles.get(meter.discounts)?.[PROFILE_FIELDS[model]] ?? 0;
+}
+
+// "100 10K transactions" reads as a count, so per-block units get a multiplication sign
+function formatQuantity(value: number, unit: string): string {
+  return `${value.toLocaleString('en-US')}${/^\d/.test(unit) ? ' ×' : ''} ${unit}`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,513 @@
+/**
+ * Cost Reconciliation
+ * Finds every monthly or annual amount the report's sections tie to a service
+ * (architecture text, diagram boxes, cost analysis tables) and checks them
+ * against each other and against the calculated baseline. Claims outside the
+ * tolerance are flagged, and in rewrite mode replaced by the calculated amount.
+ */
+
+import config from '../config/config.js';
+import { ArchitectureGraph, ArchitectureNode, azureNodes } from '../core/architecture-graph.js';
+import { getServiceType } from '../core/azure-service-catalog.js';
+import { CostCurrency, PricingCatalog, loadPricingCatalog } from './pricing-catalog.js';
+import {
+  COST_BASELINE_HEADING,
+  CostEstimate,
+  PRICING_MODELS,
+  PRICING_MODEL_LABELS,
+  PricingModel,
+  estimateArchitectureCosts,
+  formatCostAmount
+} from './cost-calculator.js';
+
+export type ReconciliationMode = 'flag' | 'rewrite';
+
+export interface ReportSection {
+  // Workflow output key, e.g. "visualDiagrams"
+  key: string;
+  title: string;
+  text: string;
+}
+
+export interface CostClaim {
+  section: string;
+  // Architecture node the amount belongs to; undefined for a total
+  nodeId?: string;
+  service: string;
+  // 1-based line within the section
+  line: number;
+  // Amount as written, e.g. "$1.2K" (period excluded)
+  text: string;
+  currency: CostCurrency;
+  period: 'month' | 'year';
+  // Estimate currency per month
+  monthly: number;
+  // Column span of the amount and of the amount with its period
+  start: number;
+  end: number;
+  periodEnd: number;
+}
+
+export interface CostInconsistency {
+  claim: CostClaim;
+  // Estimate currency per month the claim is measured against
+  expected: number;
+  // "baseline": the calculated estimate; "consensus": the median of the other claims for the service
+  reference: 'baseline' | 'consensus';
+  // (claim - expected) / expected
+  deviation: number;
+  rewritten: boolean;
+}
+
+export interface ServiceCostSummary {
+  nodeId?: string;
+  service: string;
+  // Pay-as-you-go per month from the estimate
+  baseline?: number;
+  claims: CostClaim[];
+  consistent: boolean;
+}
+
+export interface CostConsistencyReport {
+  currency: CostCurrency;
+  tolerance: number;
+  mode: ReconciliationMode;
+  sections: { key: string; title: string }[];
+  claims: CostClaim[];
+  services: ServiceCostSummary[];
+  inconsistencies: CostInconsistency[];
+  // Section texts with rewritten amounts, by key (rewrite mode, changed sections only)
+  rewritten: Record<string, string>;
+}
+
+export interface ReconciliationOptions {
+  // Defaults to the COST_RECONCILIATION setting
+  mode?: ReconciliationMode;
+  // Allowed relative difference; defaults to the COST_TOLERANCE setting
+  tolerance?: number;
+  // Defaults to the COST_CURRENCY setting (ignored when an estimate is given)
+  currency?: CostCurrency;
+  // Calculated from the graph when omitted
+  estimate?: CostEstimate;
+  // Defaults to the catalog at the PRICING_CATALOG setting
+  catalog?: PricingCatalog;
+}
+
+interface Mention {
+  nodeId: string;
+  start: number;
+  end: number;
+}
+
+const TOTAL_KEY = '__total__';
+
+const AMOUNT = String.raw`\d{1,3}(?:[,']\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?`;
+const SCALE = String.raw`(?:\s?([kKmM])\b)?`;
+
+// "$1,200", "USD 1.2K", "CHF 950", "€80-120", "1'200 CHF"
+const MONEY_PATTERN = new RegExp(
+  String.raw`(?:(US\$|\$|€|USD|EUR|CHF)\s?(${AMOUNT})${SCALE}(?:\s?(?:-|–|to)\s?(?:US\$|\$|€|USD|EUR|CHF)?\s?(${AMOUNT})${SCALE})?` +
+  String.raw`|\b(${AMOUNT})${SCALE}\s?(USD|EUR|CHF|€))`,
+  'g'
+);
+
+const PERIOD_PATTERN = /^\s*(?:(?:\/\s*|per\s+|a\s+|each\s+)(months?|mo|mth|years?|yr|annum)\b|(monthly|annually|annual|yearly)\b)/i;
+
+// Amounts that describe a change rather than what a service costs
+const NOT_A_PRICE = /\b(?:sav(?:e|es|ed|ing|ings)|reduc\w*|cuts?|lower\w*|budgets?|roi|payback|increase\w*|difference)\b/i;
+
+const BOX_CHARACTERS = /[│┃║┌┐└┘╔╗╚╝├┤]/;
+
+const LOOKBACK_LINES = 3;
+const LOOKBACK_COLUMNS = 24;
+
+/**
+ * Extract the claims of every section and reconcile them with the baseline
+ * and with each other
+ */
+export function reconcileCostClaims(
+  graph: ArchitectureGraph,
+  sections: ReportSection[],
+  options: ReconciliationOptions = {}
+): CostConsistencyReport {
+  const settings = config.get().cost;
+  const catalog = options.catalog ?? loadPricingCatalog(settings.pricingCatalog);
+  const estimate = options.estimate ?? estimateArchitectureCosts(graph, { currency: options.currency, catalog });
+  const mode = options.mode ?? settings.reconciliation;
+  const tolerance = options.tolerance ?? settings.tolerance;
+  const currency = estimate.currency;
+  const toMonthly = (amount: number, from: CostCurrency, period: 'month' | 'year') =>
+    amount / catalog.exchangeRates[from] * catalog.exchangeRates[currency] / (period === 'year' ? 12 : 1);
+
+  const nodes = azureNodes(graph);
+  const claims = sections.flatMap(section => extractCostClaims(section, nodes, toMonthly));
+
+  const baselines = new Map<string, Record<PricingModel, number>>(estimate.lines.map(line => [line.nodeId, line.monthly]));
+  if (estimate.unpriced.length === 0 && estimate.lines.length > 0) baselines.set(TOTAL_KEY, estimate.totals);
+
+  const byService = new Map<string, CostClaim[]>();
+  for (const claim of claims) {
+    const key = claim.nodeId ?? TOTAL_KEY;
+    byService.set(key, [...(byService.get(key) || []), claim]);
+  }
+
+  const inconsistencies: CostInconsistency[] = [];
+  const services: ServiceCostSummary[] = [];
+  for (const [key, serviceClaims] of byService) {
+    const baseline = baselines.get(key);
+    const found = baseline
+      ? checkAgainstBaseline(serviceClaims, baseline, tolerance)
+      : checkAgainstConsensus(serviceClaims, tolerance);
+    inconsistencies.push(...found);
+    services.push({
+      nodeId: key === TOTAL_KEY ? undefined : key,
+      service: serviceClaims[0].service,
+      baseline: baseline?.payg,
+      claims: serviceClaims,
+      consistent: found.length === 0
+    });
+  }
+
+  // Architecture order, totals last
+  const order = (summary: ServiceCostSummary) => summary.nodeId ? nodes.findIndex(node => node.id === summary.nodeId) : nodes.length;
+  services.sort((a, b) => order(a) - order(b));
+
+  const rewritten = mode === 'rewrite' ? rewriteClaims(sections, inconsistencies, currency) : {};
+
+  return {
+    currency,
+    tolerance,
+    mode,
+    sections: sections.map(section => ({ key: section.key, title: section.title })),
+    claims,
+    services,
+    inconsistencies,
+    rewritten
+  };
+}
+
+/**
+ * Monetary claims of one section. Amounts count when a period follows them
+ * ("/month", "per year", "annually") or they sit in a table column headed
+ * monthly or annual; per-unit prices and savings are left out. The calculated
+ * baseline appended to the cost analysis is not scanned.
+ */
+export function extractCostClaims(
+  section: ReportSection,
+  nodes: ArchitectureNode[],
+  toMonthly: (amount: number, currency: CostCurrency, period: 'month' | 'year') => number
+): CostClaim[] {
+  const claims: CostClaim[] = [];
+  const matchers = buildMentionMatchers(nodes);
+  const lines = section.text.split('\n');
+  let fenced = false;
+  let tableHeader: string[] | undefined;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (line.trim() === COST_BASELINE_HEADING) break;
+    if (line.trim().startsWith('```')) {
+      fenced = !fenced;
+      continue;
+    }
+
+    const isTableRow = !fenced && line.trim().startsWith('|');
+    if (isTableRow && /^\s*\|?\s*:?-{3,}/.test(lines[index + 1] ?? '')) {
+      tableHeader = splitCells(line);
+      continue;
+    }
+    if (!isTableRow) tableHeader = undefined;
+
+    const mentions = findMentions(line, matchers);
+    const diagram = fenced || BOX_CHARACTERS.test(line);
+
+    for (const match of line.matchAll(MONEY_PATTERN)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      const before = line.slice(Math.max(0, start - 40), start);
+      const cellBefore = isTableRow ? before.slice(before.lastIndexOf('|') + 1) : before;
+      if (NOT_A_PRICE.test(cellBefore)) continue;
+
+      const periodMatch = line.slice(end).match(PERIOD_PATTERN);
+      let period: 'month' | 'year' | undefined;
+      if (periodMatch) {
+        period = /^(?:mo|month|monthly)/i.test(periodMatch[1] ?? periodMatch[2]) ? 'month' : 'year';
+      } else if (isTableRow && tableHeader) {
+        const heading = tableHeader[line.slice(0, start).split('|').length - 2] ?? '';
+        if (/month|\/mo\b/i.test(heading)) period = 'month';
+        else if (/year|annual/i.test(heading)) period = 'year';
+      }
+      if (!period) continue;
+
+      // Groups: prefix currency, amount, scale, range end, range scale | amount, scale, suffix currency
+      const currency = parseCurrency(match[1] ?? match[8]);
+      const low = parseAmount(match[2] ?? match[6], match[3] ?? match[7]);
+      const amount = match[4] ? (low + parseAmount(match[4], match[5] ?? match[3])) / 2 : low;
+
+      // In a diagram only the amount's own box counts
+      const boxStart = diagram ? lastBorder(line, start) : -1;
+      const nodeId = nearestMention(mentions.filter(mention => mention.start > boxStart), start)?.nodeId
+        ?? (diagram ? lookBack(lines, index, start, matchers) : undefined)
+        ?? (/\btotal\b/i.test(isTableRow ? line.slice(0, start) : before) ? TOTAL_KEY : undefined);
+      if (!nodeId) continue;
+
+      const node = nodes.find(candidate => candidate.id === nodeId);
+      claims.push({
+        section: section.key,
+        nodeId: node?.id,
+        service: node?.name ?? 'Total',
+        line: index + 1,
+        text: match[0],
+        currency,
+        period,
+        monthly: round(toMonthly(amount, currency, period)),
+        start,
+        end,
+        periodEnd: end + (periodMatch?.[0].length ?? 0)
+      });
+    }
+  }
+  return claims;
+}
+
+/**
+ * Markdown "Cost Consistency" section for the final report
+ */
+export function formatCostConsistency(report: CostConsistencyReport): string {
+  const money = (amount: number) => formatCostAmount(amount, report.currency);
+  const percent = `±${Math.round(report.tolerance * 100)}%`;
+  const lines: string[] = ['## Cost Consistency', ''];
+
+  if (report.claims.length === 0) {
+    lines.push('No section of the report states a monthly or annual cost for a service.', '');
+    return lines.join('\n');
+  }
+
+  const sectionKeys = report.sections.filter(section => report.claims.some(claim => claim.section === section.key));
+  const flagged = report.inconsistencies.length;
+  const rewritten = report.inconsistencies.filter(inconsistency => inconsistency.rewritten).length;
+  lines.push(
+    `${report.claims.length} cost claim(s) for ${report.services.length} service(s) across ${sectionKeys.length} section(s), in ${report.currency} per month. ` +
+      (flagged === 0
+        ? `All agree with the calculated baseline and with each other within ${percent}.`
+        : `${flagged} differ by more than ${percent}${rewritten > 0 ? `; ${rewritten} were rewritten to the calculated amount` : ''}.`),
+    '',
+    `| Service | Calculated | ${sectionKeys.map(section => section.title).join(' | ')} | Status |`,
+    `|---------|---:|${sectionKeys.map(() => '---:').join('|')}|--------|`,
+    ...report.services.map(service => {
+      const cells = sectionKeys.map(section => {
+        const amounts = [...new Set(service.claims.filter(claim => claim.section === section.key).map(claim => money(claim.monthly)))];
+        return amounts.join(', ') || '–';
+      });
+      return `| ${service.service} | ${service.baseline !== undefined ? money(service.baseline) : '–'} | ${cells.join(' | ')} | ${service.consistent ? '✅ consistent' : '⚠️ inconsistent'} |`;
+    }),
+    ''
+  );
+
+  if (flagged > 0) {
+    const titles = new Map(report.sections.map(section => [section.key, section.title]));
+    lines.push('**Inconsistencies:**', '', ...report.inconsistencies.map(({ claim, expected, reference, deviation, rewritten: done }) => {
+      const direction = deviation >= 0 ? 'above' : 'below';
+      const size = Number.isFinite(deviation) ? `${Math.round(Math.abs(deviation) * 100)}% ${direction}` : direction;
+      const against = reference === 'baseline'
+        ? `the calculated ${money(expected)}/month (${PRICING_MODEL_LABELS.payg.toLowerCase()})`
+        : `the ${money(expected)}/month the other sections state`;
+      const converted = claim.currency !== report.currency || claim.period === 'year' ? ` (${money(claim.monthly)}/month)` : '';
+      return `- ${titles.get(claim.section)}, line ${claim.line}: ${claim.service} "${claim.text}" per ${claim.period}${converted} is ${size} ${against}` +
+        (done ? ' - rewritten' : '');
+    }), '');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * A claim is consistent when it is within tolerance of any pricing model, so
+ * quoted reservation prices pass; otherwise it is measured against pay-as-you-go
+ */
+function checkAgainstBaseline(claims: CostClaim[], baseline: Record<PricingModel, number>, tolerance: number): CostInconsistency[] {
+  return claims
+    .filter(claim => !PRICING_MODELS.some(model => withinTolerance(claim.monthly, baseline[model], tolerance)))
+    .map(claim => ({
+      claim,
+      expected: baseline.payg,
+      reference: 'baseline' as const,
+      deviation: relativeDifference(claim.monthly, baseline.payg),
+      rewritten: false
+    }));
+}
+
+/**
+ * Without a baseline the claims can only be compared with each other, once at
+ * least two sections state an amount
+ */
+function checkAgainstConsensus(claims: CostClaim[], tolerance: number): CostInconsistency[] {
+  if (new Set(claims.map(claim => claim.section)).size < 2) return [];
+  const amounts = claims.map(claim => claim.monthly).sort((a, b) => a - b);
+  const middle = Math.floor(amounts.length / 2);
+  const median = amounts.length % 2 ? amounts[middle] : (amounts[middle - 1] + amounts[middle]) / 2;
+
+  return claims
+    .filter(claim => !withinTolerance(claim.monthly, median, tolerance))
+    .map(claim => ({
+      claim,
+      expected: round(median),
+      reference: 'consensus' as const,
+      deviation: relativeDifference(claim.monthly, median),
+      rewritten: false
+    }));
+}
+
+/**
+ * Replace baseline inconsistencies with the calculated amount. Diagram lines
+ * keep their width: shorter amounts are padded, longer ones use the spaces
+ * after the claim and are left alone when there are not enough.
+ */
+function rewriteClaims(sections: ReportSection[], inconsistencies: CostInconsistency[], currency: CostCurrency): Record<string, string> {
+  const rewritten: Record<string, string> = {};
+
+  for (const section of sections) {
+    const pending = inconsistencies
+      .filter(inconsistency => inconsistency.reference === 'baseline' && inconsistency.claim.section === section.key)
+      .sort((a, b) => b.claim.line - a.claim.line || b.claim.start - a.claim.start);
+    if (pending.length === 0) continue;
+
+    const lines = section.text.split('\n');
+    const fixedWidth = fencedLines(lines);
+    for (const inconsistency of pending) {
+      const { claim } = inconsistency;
+      const index = claim.line - 1;
+      const line = lines[index];
+      const replacement = formatCostAmount(claim.period === 'year' ? inconsistency.expected * 12 : inconsistency.expected, currency);
+      let updated = line.slice(0, claim.start) + replacement + line.slice(claim.end);
+
+      if (fixedWidth.has(index) || BOX_CHARACTERS.test(line)) {
+        const growth = replacement.length - claim.text.length;
+        const periodEnd = claim.periodEnd + growth;
+        if (growth < 0) {
+          updated = updated.slice(0, periodEnd) + ' '.repeat(-growth) + updated.slice(periodEnd);
+        } else if (growth > 0) {
+          // Keep at least one space before the box border
+          const spaces = updated.slice(periodEnd).match(/^ */)![0].length;
+          if (spaces < growth + 1) continue;
+          updated = updated.slice(0, periodEnd) + updated.slice(periodEnd + growth);
+        }
+      }
+
+      lines[index] = updated;
+      inconsistency.rewritten = true;
+    }
+    rewritten[section.key] = lines.join('\n');
+  }
+  return rewritten;
+}
+
+/**
+ * Name and alias patterns per node. Catalog aliases only identify a node when
+ * it is the only one of its type, so "App Service" is ambiguous with two web apps.
+ */
+function buildMentionMatchers(nodes: ArchitectureNode[]): { nodeId: string; pattern: RegExp }[] {
+  const perType = new Map<string, number>();
+  nodes.forEach(node => perType.set(node.type, (perType.get(node.type) ?? 0) + 1));
+
+  return nodes.flatMap(node => {
+    const names = new Set([canonical(node.name)]);
+    const type = getServiceType(node.type);
+    if (type && perType.get(node.type) === 1) {
+      names.add(canonical(type.name));
+      type.aliases.filter(alias => alias.length >= 3).forEach(alias => names.add(canonical(alias)));
+    }
+    return [...names].filter(Boolean).map(name => ({
+      nodeId: node.id,
+      pattern: new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '[\\s_-]+')}\\b`, 'gi')
+    }));
+  });
+}
+
+function findMentions(line: string, matchers: { nodeId: string; pattern: RegExp }[]): Mention[] {
+  const mentions: Mention[] = [];
+  for (const { nodeId, pattern } of matchers) {
+    for (const match of line.matchAll(pattern)) {
+      mentions.push({ nodeId, start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  // A longer mention wins over one it contains ("Azure SQL Database" over "SQL")
+  return mentions.filter(mention => !mentions.some(other =>
+    other !== mention && other.start <= mention.start && other.end >= mention.end && other.end - other.start > mention.end - mention.start));
+}
+
+/**
+ * The closest mention before the amount, else the first one after it
+ */
+function nearestMention(mentions: Mention[], column: number): Mention | undefined {
+  const before = mentions.filter(mention => mention.start < column).sort((a, b) => b.start - a.start);
+  return before[0] ?? mentions.filter(mention => mention.start >= column).sort((a, b) => a.start - b.start)[0];
+}
+
+/**
+ * Diagram boxes put the service name a few lines above its cost
+ */
+function lookBack(lines: string[], index: number, column: number, matchers: { nodeId: string; pattern: RegExp }[]): string | undefined {
+  for (let previous = index - 1; previous >= Math.max(0, index - LOOKBACK_LINES); previous--) {
+    const mention = findMentions(lines[previous], matchers)
+      .filter(candidate => Math.abs(candidate.start - column) <= LOOKBACK_COLUMNS)
+      .sort((a, b) => Math.abs(a.start - column) - Math.abs(b.start - column))[0];
+    if (mention) return mention.nodeId;
+  }
+  return undefined;
+}
+
+function lastBorder(line: string, column: number): number {
+  for (let index = column - 1; index >= 0; index--) {
+    if (BOX_CHARACTERS.test(line[index]) || line[index] === '|') return index;
+  }
+  return -1;
+}
+
+function fencedLines(lines: string[]): Set<number> {
+  const fenced = new Set<number>();
+  let inside = false;
+  lines.forEach((line, index) => {
+    if (line.trim().startsWith('```')) inside = !inside;
+    else if (inside) fenced.add(index);
+  });
+  return fenced;
+}
+
+function splitCells(row: string): string[] {
+  return row.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+}
+
+function parseCurrency(symbol: string): CostCurrency {
+  if (symbol === '€' || symbol === 'EUR') return 'EUR';
+  if (symbol === 'CHF') return 'CHF';
+  return 'USD';
+}
+
+function parseAmount(digits: string, scale?: string): number {
+  const value = Number(digits.replace(/[,']/g, ''));
+  const factor = scale?.toLowerCase() === 'k' ? 1_000 : scale?.toLowerCase() === 'm' ? 1_000_000 : 1;
+  return value * factor;
+}
+
+function canonical(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/^\s*(microsoft|azure)\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function withinTolerance(amount: number, expected: number, tolerance: number): boolean {
+  // Free services: anything under one currency unit agrees
+  if (expected === 0) return amount < 1;
+  return Math.abs(amount - expected) <= tolerance * expected;
+}
+
+function relativeDifference(amount: number, expected: number): number {
+  return expected === 0 ? Infinity : (amount - expected) / expected;
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,96 @@
+/**
+ * Cost Writer
+ * Prices the architecture graph and writes the calculated estimate into the
+ * case study folder: cost-estimate.json for tooling and cost-estimate.md for readers.
+ * The TCO projection is exported as CSV (tco-projection.csv per year, tco-summary.csv
+ * per scenario) and the cost reconciliation of the report kept in cost-consistency.json.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ArchitectureGraph } from '../core/architecture-graph.js';
+import { CostEstimate, CostEstimateOptions, estimateArchitectureCosts, formatCostEstimate } from './cost-calculator.js';
+import { CostConsistencyReport } from './cost-reconciliation.js';
+import { TcoProjection, formatTcoCsv, formatTcoSummaryCsv, loadTcoAssumptions, projectTco } from './tco-model.js';
+
+export const COST_ESTIMATE_FILE = 'cost-estimate.json';
+export const COST_TABLE_FILE = 'cost-estimate.md';
+export const COST_CONSISTENCY_FILE = 'cost-consistency.json';
+export const TCO_PROJECTION_FILE = 'tco-projection.csv';
+export const TCO_SUMMARY_FILE = 'tco-summary.csv';
+
+/**
+ * Calculate and save the estimate. Returns undefined (with a warning) when the
+ * pricing catalog cannot be loaded, so the analysis continues without a baseline.
+ */
+export async function saveCostEstimate(
+  graph: ArchitectureGraph,
+  caseStudyFolder?: string,
+  options: CostEstimateOptions = {}
+): Promise<CostEstimate | undefined> {
+  let estimate: CostEstimate;
+  try {
+    estimate = estimateArchitectureCosts(graph, options);
+  } catch (error) {
+    console.warn(`⚠️ Cost estimate unavailable: ${error instanceof Error ? error.message : error}`);
+    return undefined;
+  }
+  if (!caseStudyFolder) return estimate;
+
+  try {
+    const outputDir = path.join(process.cwd(), 'output', caseStudyFolder);
+    await fs.mkdir(outputDir, { recursive: true });
+    await fs.writeFile(path.join(outputDir, COST_ESTIMATE_FILE), JSON.stringify(estimate, null, 2), 'utf-8');
+    await fs.writeFile(path.join(outputDir, COST_TABLE_FILE), formatCostEstimate(estimate), 'utf-8');
+    console.log(`✅ Cost estimate (${estimate.lines.length} services) saved to: ${outputDir}`);
+  } catch (error) {
+    console.warn('⚠️ Failed to save cost estimate:', error instanceof Error ? error.message : error);
+  }
+  return estimate;
+}
+
+/**
+ * Project and save the TCO of an estimate. Returns undefined (with a warning)
+ * when the assumptions cannot be loaded.
+ */
+export async function saveTcoProjection(
+  estimate: CostEstimate,
+  caseStudyFolder?: string,
+  assumptionsFile?: string
+): Promise<TcoProjection | undefined> {
+  let projection: TcoProjection;
+  try {
+    projection = projectTco(estimate, { assumptions: assumptionsFile ? loadTcoAssumptions(assumptionsFile) : undefined });
+  } catch (error) {
+    console.warn(`⚠️ TCO projection unavailable: ${error instanceof Error ? error.message : error}`);
+    return undefined;
+  }
+  if (!caseStudyFolder) return projection;
+
+  try {
+    const outputDir = path.join(process.cwd(), 'output', caseStudyFolder);
+    await fs.mkdir(outputDir, { recursive: true });
+    await fs.writeFile(path.join(outputDir, TCO_PROJECTION_FILE), formatTcoCsv(projection), 'utf-8');
+    await fs.writeFile(path.join(outputDir, TCO_SUMMARY_FILE), formatTcoSummaryCsv(projection), 'utf-8');
+    console.log(`✅ TCO projection (${projection.scenarios.length} scenarios, ${projection.years} years) saved to: ${outputDir}`);
+  } catch (error) {
+    console.warn('⚠️ Failed to save TCO projection:', error instanceof Error ? error.message : error);
+  }
+  return projection;
+}
+
+/**
+ * Save the claims and inconsistencies found by the cost reconciliation
+ */
+export async function saveCostConsistency(report: CostConsistencyReport, caseStudyFolder: string): Promise<void> {
+  try {
+    const outputDir = path.join(process.cwd(), 'output', caseStudyFolder);
+    await fs.mkdir(outputDir, { recursive: true });
+    // Rewritten section texts are already in the report itself
+    const { rewritten, ...summary } = report;
+    await fs.writeFile(path.join(outputDir, COST_CONSISTENCY_FILE), JSON.stringify({ ...summary, rewrittenSections: Object.keys(rewritten) }, null, 2), 'utf-8');
+    console.log(`✅ Cost consistency (${report.claims.length} claims, ${report.inconsistencies.length} inconsistent) saved to: ${outputDir}`);
+  } catch (error) {
+    console.warn('⚠️ Failed to save cost consistency:', error instanceof Error ? error.message : error);
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Pricing Catalog
+ * Versioned offline Azure price list (pricing/azure-pricing-catalog.json): SKUs
+ * and meters per service type, regional price factors, reservation and savings
+ * plan discounts, exchange rates and the usage assumed for consumption meters.
+ * The cost calculator prices the architecture graph from it without network access.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { SchemaDefinition, validateSchema, ValidationResult } from '../utils/schema-validator.js';
+import { getServiceType } from '../core/azure-service-catalog.js';
+
+export const DEFAULT_PRICING_CATALOG_FILE = 'pricing/azure-pricing-catalog.json';
+
+export type CostCurrency = 'USD' | 'EUR' | 'CHF';
+
+export const COST_CURRENCIES: CostCurrency[] = ['USD', 'EUR', 'CHF'];
+
+// How a meter's quantity is read from the SKU text, e.g. "3 nodes" or "4 vCores"
+export type MeterScale = 'instances' | 'nodes' | 'vCores' | 'units' | 'throughput';
+
+export interface PricingMeter {
+  name: string;
+  // "hour" meters are multiplied by hoursPerMonth; every other unit is billed per month
+  unit: string;
+  // Base currency per unit in the reference region
+  price: number;
+  scale?: MeterScale;
+  // Usage assumption key for consumption meters, e.g. "storageGb"
+  usage?: string;
+  // Free grant deducted from the usage quantity
+  included?: number;
+  // Quantity when the SKU text does not state one (default 1)
+  defaultQuantity?: number;
+  // Discount profile id; meters without one are priced pay-as-you-go in every model
+  discounts?: string;
+  // Regex on the SKU text that leaves the meter out, e.g. the AKS Standard tier fee on Free clusters
+  skipWhen?: string;
+}
+
+export interface PricingSku {
+  sku: string;
+  // Case-insensitive regex on the architecture's SKU and tier; the first matching SKU wins
+  match: string;
+  meters: PricingMeter[];
+}
+
+export interface ServicePricing {
+  // Service catalog key, e.g. "app-service"
+  type: string;
+  // SKU priced when none matches
+  defaultSku: string;
+  skus: PricingSku[];
+}
+
+export interface DiscountProfile {
+  id: string;
+  // Fraction saved against pay-as-you-go; a missing model has no offer
+  reserved1y?: number;
+  reserved3y?: number;
+  savingsPlan1y?: number;
+  savingsPlan3y?: number;
+}
+
+export interface UsageAssumption {
+  key: string;
+  value: number;
+  unit: string;
+  description: string;
+}
+
+export interface PricingCatalog {
+  version: string;
+  effectiveDate: string;
+  description?: string;
+  baseCurrency: 'USD';
+  referenceRegion: string;
+  hoursPerMonth: number;
+  // Units of each currency per base currency unit
+  exchangeRates: Record<CostCurrency, number>;
+  regions: { name: string; priceFactor: number }[];
+  discountProfiles: DiscountProfile[];
+  usage: UsageAssumption[];
+  services: ServicePricing[];
+}
+
+const discount: SchemaDefinition = { type: 'number', minimum: 0 };
+
+const PRICING_CATALOG_SCHEMA: SchemaDefinition = {
+  type: 'object',
+  required: ['version', 'effectiveDate', 'baseCurrency', 'referenceRegion', 'hoursPerMonth', 'exchangeRates', 'regions', 'discountProfiles', 'usage', 'services'],
+  properties: {
+    version: { type: 'string', minLength: 1 },
+    effectiveDate: { type: 'string', minLength: 10 },
+    description: { type: 'string' },
+    baseCurrency: { type: 'string', enum: ['USD'] },
+    referenceRegion: { type: 'string', minLength: 1 },
+    hoursPerMonth: { type: 'number', minimum: 1 },
+    exchangeRates: {
+      type: 'object',
+      required: COST_CURRENCIES,
+      properties: Object.fromEntries(COST_CURRENCIES.map(currency => [currency, { type: 'number', minimum: 0 }]))
+    },
+    regions: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['name', 'priceFactor'],
+        properties: { name: { type: 'string', minLength: 1 }, priceFactor: { type: 'number', minimum: 0 } }
+      }
+    },
+    discountProfiles: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id'],
+        properties: { id: { type: 'string', minLength: 1 }, reserved1y: discount, reserved3y: discount, savingsPlan1y: discount, savingsPlan3y: discount }
+      }
+    },
+    usage: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['key', 'value', 'unit', 'description'],
+        properties: {
+          key: { type: 'string', minLength: 1 },
+          value: { type: 'number', minimum: 0 },
+          unit: { type: 'string', minLength: 1 },
+          description: { type: 'string', minLength: 1 }
+        }
+      }
+    },
+    services: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['type', 'defaultSku', 'skus'],
+        properties: {
+          type: { type: 'string', minLength: 1 },
+          defaultSku: { type: 'string', minLength: 1 },
+          skus: {
+            type: 'array',
+            minItems: 1,
+            items: {
+              type: 'object',
+              required: ['sku', 'match', 'meters'],
+              properties: {
+                sku: { type: 'string', minLength: 1 },
+                match: { type: 'string', minLength: 1 },
+                meters: {
+                  type: 'array',
+                  minItems: 1,
+                  items: {
+                    type: 'object',
+                    required: ['name', 'unit', 'price'],
+                    properties: {
+                      name: { type: 'string', minLength: 1 },
+                      unit: { type: 'string', minLength: 1 },
+                      price: { type: 'number', minimum: 0 },
+                      scale: { type: 'string', enum: ['instances', 'nodes', 'vCores', 'units', 'throughput'] },
+                      usage: { type: 'string', minLength: 1 },
+                      included: { type: 'number', minimum: 0 },
+                      defaultQuantity: { type: 'number', minimum: 0 },
+                      discounts: { type: 'string', minLength: 1 },
+                      skipWhen: { type: 'string', minLength: 1 }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Load and validate a pricing catalog (relative paths resolve from the working directory)
+ */
+export function loadPricingCatalog(filePath: string = DEFAULT_PRICING_CATALOG_FILE): PricingCatalog {
+  const resolved = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+  let catalog: PricingCatalog;
+  try {
+    catalog = JSON.parse(readFileSync(resolved, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not load pricing catalog ${resolved}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const validation = validatePricingCatalog(catalog);
+  if (!validation.valid) {
+    throw new Error(`Invalid pricing catalog ${resolved}:\n${validation.errors.map(e => `  - ${e}`).join('\n')}`);
+  }
+  return catalog;
+}
+
+/**
+ * Exchange rates of a catalog, or undefined (with a warning) when it does not load
+ */
+export function loadExchangeRates(filePath: string = DEFAULT_PRICING_CATALOG_FILE): Record<CostCurrency, number> | undefined {
+  try {
+    return loadPricingCatalog(filePath).exchangeRates;
+  } catch (error) {
+    console.warn(`⚠️ ${error instanceof Error ? error.message : error} - costs in other currencies than USD are left out of the graph`);
+    return undefined;
+  }
+}
+
+/**
+ * Schema check plus the cross-references the schema cannot express: known
+ * service types, default SKUs, discount profiles, usage keys and regexes
+ */
+export function validatePricingCatalog(catalog: PricingCatalog): ValidationResult {
+  const schema = validateSchema(catalog, PRICING_CATALOG_SCHEMA);
+  if (!schema.valid) return schema;
+
+  const errors: string[] = [];
+  const profiles = new Set(catalog.discountProfiles.map(profile => profile.id));
+  const usage = new Set(catalog.usage.map(assumption => assumption.key));
+
+  catalog.discountProfiles.forEach((profile, index) => {
+    for (const model of ['reserved1y', 'reserved3y', 'savingsPlan1y', 'savingsPlan3y'] as const) {
+      if ((profile[model] ?? 0) >= 1) errors.push(`$.discountProfiles[${index}].${model}: a discount must be below 1`);
+    }
+  });
+  if (!catalog.regions.some(region => region.name === catalog.referenceRegion)) {
+    errors.push(`$.referenceRegion: "${catalog.referenceRegion}" is not listed in regions`);
+  }
+
+  const types = new Set<string>();
+  catalog.services.forEach((service, serviceIndex) => {
+    const at = `$.services[${serviceIndex}]`;
+    if (!getServiceType(service.type)) errors.push(`${at}.type: unknown service type "${service.type}"`);
+    if (types.has(service.type)) errors.push(`${at}.type: duplicate service type "${service.type}"`);
+    types.add(service.type);
+    if (!service.skus.some(sku => sku.sku === service.defaultSku)) {
+      errors.push(`${at}.defaultSku: "${service.defaultSku}" is not one of its SKUs`);
+    }
+
+    service.skus.forEach((sku, skuIndex) => {
+      const matchAt = `${at}.skus[${skuIndex}].match`;
+      if (checkRegex(sku.match, matchAt, errors)) {
+        // SKUs are tried in order, so an architecture naming this SKU has to land on it
+        const resolved = service.skus.find(candidate => new RegExp(candidate.match, 'i').test(sku.sku));
+        if (!new RegExp(sku.match, 'i').test(sku.sku)) errors.push(`${matchAt}: "${sku.match}" does not match its own SKU "${sku.sku}"`);
+        else if (resolved !== sku) errors.push(`${matchAt}: SKU "${sku.sku}" is taken by the earlier SKU "${resolved!.sku}"`);
+      }
+      sku.meters.forEach((meter, meterIndex) => {
+        const meterAt = `${at}.skus[${skuIndex}].meters[${meterIndex}]`;
+        if (meter.discounts && !profiles.has(meter.discounts)) errors.push(`${meterAt}.discounts: unknown discount profile "${meter.discounts}"`);
+        if (meter.usage && !usage.has(meter.usage)) errors.push(`${meterAt}.usage: unknown usage assumption "${meter.usage}"`);
+        if (meter.usage && meter.scale) errors.push(`${meterAt}: a meter takes its quantity from either usage or scale`);
+        if (meter.skipWhen) checkRegex(meter.skipWhen, `${meterAt}.skipWhen`, errors);
+      });
+    });
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+function checkRegex(pattern: string, at: string, errors: string[]): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch (error) {
+    errors.push(`${at}: invalid regex (${error instanceof Error ? error.message : error})`);
+    return false;
+  }
+}
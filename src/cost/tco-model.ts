@@ -0,0 +1,430 @@
+/**
+ * TCO Model
+ * Multi-year total cost of ownership from the calculated cost baseline and a
+ * versioned assumptions file (pricing/tco-assumptions.json): workload growth
+ * per cost driver, reservation purchase timing, migration and dual running,
+ * on-premises decommissioning and business value. Each scenario (best,
+ * expected, worst) is projected month by month and summed per year, with
+ * break-even and ROI, as markdown for the report and CSV for spreadsheets.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import config from '../config/config.js';
+import { getServiceType } from '../core/azure-service-catalog.js';
+import { SchemaDefinition, validateSchema, ValidationResult } from '../utils/schema-validator.js';
+import { toCsv } from '../utils/csv.js';
+import { COST_CURRENCIES, CostCurrency, PricingCatalog, loadPricingCatalog } from './pricing-catalog.js';
+import { CostEstimate, PRICING_MODELS, PRICING_MODEL_LABELS, PricingModel, formatCostAmount } from './cost-calculator.js';
+
+export const DEFAULT_TCO_ASSUMPTIONS_FILE = 'pricing/tco-assumptions.json';
+
+export type GrowthDriver = 'users' | 'dataVolume' | 'transactions';
+
+export const GROWTH_DRIVERS: GrowthDriver[] = ['users', 'dataVolume', 'transactions'];
+
+const DRIVER_LABELS: Record<GrowthDriver, string> = {
+  users: 'users',
+  dataVolume: 'data',
+  transactions: 'transactions'
+};
+
+export interface TcoScenario {
+  name: string;
+  // Annual growth per driver, e.g. 0.2 for +20% a year
+  growth: Record<GrowthDriver, number>;
+  // Multiplier on the calculated cloud cost (price changes, estimation error)
+  cloudCostFactor: number;
+  // Months the migration overruns; go-live, decommissioning and reservations move with it
+  migrationDelayMonths: number;
+  // Share of the business value that materialises
+  benefitRealization: number;
+}
+
+export interface TcoAssumptions {
+  version: string;
+  description?: string;
+  // Currency of the on-premises, migration and business value amounts
+  currency: CostCurrency;
+  years: number;
+  onPremises: {
+    annualCost: number;
+    annualIncrease: number;
+    // Share of the on-premises cost left after decommissioning (licences, archive)
+    residualShare: number;
+  };
+  migration: {
+    oneTimeCost: number;
+    // Cloud consumption ramps up linearly over these months
+    months: number;
+    // On-premises keeps running at full cost this long after go-live
+    dualRunningMonths: number;
+  };
+  reservations: {
+    model: Exclude<PricingModel, 'payg'>;
+    // Month (from project start) the commitment is bought
+    purchaseMonth: number;
+    // Share of commitment-eligible spend covered
+    coverage: number;
+  };
+  businessValue: {
+    annualBenefit: number;
+  };
+  // Which service types grow with which driver; unlisted types stay flat
+  scaling: { driver: GrowthDriver; elasticity: number; types: string[] }[];
+  scenarios: TcoScenario[];
+}
+
+export interface TcoYear {
+  year: number;
+  cloud: number;
+  onPremises: number;
+  migration: number;
+  // cloud + onPremises + migration
+  tco: number;
+  // On-premises cost had nothing moved
+  statusQuo: number;
+  businessValue: number;
+  // statusQuo + businessValue - tco
+  net: number;
+  cumulativeNet: number;
+}
+
+export interface TcoScenarioResult {
+  name: string;
+  scenario: TcoScenario;
+  years: TcoYear[];
+  tco: number;
+  statusQuo: number;
+  businessValue: number;
+  net: number;
+  // 1-based month the cumulative net turns positive; undefined when not within the horizon
+  breakEvenMonth?: number;
+  // Net over the horizon per unit of migration spend; undefined without migration spend
+  roi?: number;
+}
+
+export interface TcoProjection {
+  assumptionsVersion: string;
+  currency: CostCurrency;
+  years: number;
+  // Pay-as-you-go per month of the priced services
+  baselineMonthly: number;
+  // Services left out because the catalog does not price them
+  unpriced: string[];
+  assumptions: TcoAssumptions;
+  scenarios: TcoScenarioResult[];
+}
+
+export interface TcoOptions {
+  // Defaults to the file at the TCO_ASSUMPTIONS setting
+  assumptions?: TcoAssumptions;
+  // Exchange rates for the assumptions currency; defaults to the catalog at the PRICING_CATALOG setting
+  catalog?: PricingCatalog;
+}
+
+const fraction: SchemaDefinition = { type: 'number', minimum: 0 };
+
+const TCO_ASSUMPTIONS_SCHEMA: SchemaDefinition = {
+  type: 'object',
+  required: ['version', 'currency', 'years', 'onPremises', 'migration', 'reservations', 'businessValue', 'scaling', 'scenarios'],
+  properties: {
+    version: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    currency: { type: 'string', enum: COST_CURRENCIES },
+    years: { type: 'number', minimum: 1 },
+    onPremises: {
+      type: 'object',
+      required: ['annualCost', 'annualIncrease', 'residualShare'],
+      properties: { annualCost: { type: 'number', minimum: 0 }, annualIncrease: fraction, residualShare: fraction }
+    },
+    migration: {
+      type: 'object',
+      required: ['oneTimeCost', 'months', 'dualRunningMonths'],
+      properties: { oneTimeCost: { type: 'number', minimum: 0 }, months: { type: 'number', minimum: 0 }, dualRunningMonths: { type: 'number', minimum: 0 } }
+    },
+    reservations: {
+      type: 'object',
+      required: ['model', 'purchaseMonth', 'coverage'],
+      properties: {
+        model: { type: 'string', enum: PRICING_MODELS.filter(model => model !== 'payg') },
+        purchaseMonth: { type: 'number', minimum: 0 },
+        coverage: fraction
+      }
+    },
+    businessValue: {
+      type: 'object',
+      required: ['annualBenefit'],
+      properties: { annualBenefit: { type: 'number', minimum: 0 } }
+    },
+    scaling: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['driver', 'elasticity', 'types'],
+        properties: {
+          driver: { type: 'string', enum: GROWTH_DRIVERS },
+          elasticity: fraction,
+          types: { type: 'array', items: { type: 'string', minLength: 1 } }
+        }
+      }
+    },
+    scenarios: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['name', 'growth', 'cloudCostFactor', 'migrationDelayMonths', 'benefitRealization'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          growth: {
+            type: 'object',
+            required: GROWTH_DRIVERS,
+            properties: Object.fromEntries(GROWTH_DRIVERS.map(driver => [driver, { type: 'number' }]))
+          },
+          cloudCostFactor: fraction,
+          migrationDelayMonths: { type: 'number', minimum: 0 },
+          benefitRealization: fraction
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Load and validate TCO assumptions (relative paths resolve from the working directory)
+ */
+export function loadTcoAssumptions(filePath: string = DEFAULT_TCO_ASSUMPTIONS_FILE): TcoAssumptions {
+  const resolved = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+  let assumptions: TcoAssumptions;
+  try {
+    assumptions = JSON.parse(readFileSync(resolved, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not load TCO assumptions ${resolved}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const validation = validateTcoAssumptions(assumptions);
+  if (!validation.valid) {
+    throw new Error(`Invalid TCO assumptions ${resolved}:\n${validation.errors.map(e => `  - ${e}`).join('\n')}`);
+  }
+  return assumptions;
+}
+
+/**
+ * Schema check plus shares that must stay below one, known service types that
+ * grow with a single driver, and unique scenario names
+ */
+export function validateTcoAssumptions(assumptions: TcoAssumptions): ValidationResult {
+  const schema = validateSchema(assumptions, TCO_ASSUMPTIONS_SCHEMA);
+  if (!schema.valid) return schema;
+
+  const errors: string[] = [];
+  if (assumptions.onPremises.residualShare > 1) errors.push('$.onPremises.residualShare: a share must be at most 1');
+  if (assumptions.reservations.coverage > 1) errors.push('$.reservations.coverage: a share must be at most 1');
+
+  const scaled = new Set<string>();
+  assumptions.scaling.forEach((entry, index) => {
+    entry.types.forEach((type, typeIndex) => {
+      const at = `$.scaling[${index}].types[${typeIndex}]`;
+      if (!getServiceType(type)) errors.push(`${at}: unknown service type "${type}"`);
+      if (scaled.has(type)) errors.push(`${at}: "${type}" already grows with another driver`);
+      scaled.add(type);
+    });
+  });
+
+  const names = new Set<string>();
+  assumptions.scenarios.forEach((scenario, index) => {
+    if (names.has(scenario.name)) errors.push(`$.scenarios[${index}].name: duplicate scenario "${scenario.name}"`);
+    names.add(scenario.name);
+    GROWTH_DRIVERS.forEach(driver => {
+      if (scenario.growth[driver] <= -1) errors.push(`$.scenarios[${index}].growth.${driver}: growth must be above -1`);
+    });
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Project every scenario month by month over the assumptions' horizon
+ */
+export function projectTco(estimate: CostEstimate, options: TcoOptions = {}): TcoProjection {
+  const assumptions = options.assumptions ?? loadTcoAssumptions(config.get().cost.tcoAssumptions);
+  const catalog = options.catalog ?? loadPricingCatalog(config.get().cost.pricingCatalog);
+  // Assumption amounts in the estimate currency
+  const rate = catalog.exchangeRates[estimate.currency] / catalog.exchangeRates[assumptions.currency];
+
+  return {
+    assumptionsVersion: assumptions.version,
+    currency: estimate.currency,
+    years: assumptions.years,
+    baselineMonthly: estimate.totals.payg,
+    unpriced: estimate.unpriced.map(service => service.service),
+    assumptions,
+    scenarios: assumptions.scenarios.map(scenario => projectScenario(estimate, assumptions, scenario, rate))
+  };
+}
+
+/**
+ * Markdown "Total Cost of Ownership" section for the cost analysis and the report
+ */
+export function formatTcoProjection(projection: TcoProjection): string {
+  const money = (amount: number) => formatCostAmount(amount, projection.currency);
+  const { assumptions } = projection;
+  const horizon = `${projection.years}-year`;
+  const expected = projection.scenarios.find(result => result.name === 'expected')
+    ?? projection.scenarios[Math.floor(projection.scenarios.length / 2)];
+
+  const lines: string[] = [
+    '## Total Cost of Ownership',
+    '',
+    `${horizon} projection from the calculated baseline (${money(projection.baselineMonthly)}/month pay-as-you-go) and TCO assumptions ${projection.assumptionsVersion}: ` +
+      `migration over ${assumptions.migration.months} months (${formatCostAmount(assumptions.migration.oneTimeCost, assumptions.currency)} one-time) ` +
+      `with ${assumptions.migration.dualRunningMonths} months of dual running, ` +
+      `${PRICING_MODEL_LABELS[assumptions.reservations.model]} commitments on ${percent(assumptions.reservations.coverage)} of eligible spend from month ${assumptions.reservations.purchaseMonth}, ` +
+      `on-premises ${formatCostAmount(assumptions.onPremises.annualCost, assumptions.currency)} per year (+${percent(assumptions.onPremises.annualIncrease)} a year, ` +
+      `${percent(assumptions.onPremises.residualShare)} left after decommissioning), business value ${formatCostAmount(assumptions.businessValue.annualBenefit, assumptions.currency)} per year from go-live.`,
+    '',
+    `| Scenario | Growth per year (${GROWTH_DRIVERS.map(driver => DRIVER_LABELS[driver]).join(' / ')}) | ${horizon} TCO | Status quo | Business value | Net benefit | Break-even | ROI |`,
+    '|----------|---|---:|---:|---:|---:|---|---:|',
+    ...projection.scenarios.map(result =>
+      `| ${result.name} | ${GROWTH_DRIVERS.map(driver => signedPercent(result.scenario.growth[driver])).join(' / ')} | ${money(result.tco)} | ${money(result.statusQuo)} | ` +
+      `${money(result.businessValue)} | ${money(result.net)} | ${result.breakEvenMonth ? `month ${result.breakEvenMonth}` : `not within ${projection.years} years`} | ` +
+      `${result.roi !== undefined ? percent(result.roi) : '–'} |`),
+    '',
+    '**TCO per year:**',
+    '',
+    `| Year | ${projection.scenarios.map(result => result.name).join(' | ')} |`,
+    `|------|${projection.scenarios.map(() => '---:').join('|')}|`,
+    ...Array.from({ length: projection.years }, (_, index) =>
+      `| ${index + 1} | ${projection.scenarios.map(result => money(result.years[index].tco)).join(' | ')} |`),
+    ''
+  ];
+
+  if (expected) {
+    lines.push(
+      `**Scenario "${expected.name}" per year:**`,
+      '',
+      '| Year | Cloud | On-premises | Migration | TCO | Status quo | Business value | Net | Cumulative net |',
+      '|------|---:|---:|---:|---:|---:|---:|---:|---:|',
+      ...expected.years.map(year =>
+        `| ${year.year} | ${money(year.cloud)} | ${money(year.onPremises)} | ${money(year.migration)} | ${money(year.tco)} | ` +
+        `${money(year.statusQuo)} | ${money(year.businessValue)} | ${money(year.net)} | ${money(year.cumulativeNet)} |`),
+      ''
+    );
+  }
+  if (projection.unpriced.length > 0) {
+    lines.push(`Not in the cloud cost (not priced by the catalog): ${projection.unpriced.join(', ')}.`, '');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Year-by-year rows of every scenario, one per line
+ */
+export function formatTcoCsv(projection: TcoProjection): string {
+  const header = ['scenario', 'year', 'cloud', 'on_premises', 'migration', 'tco', 'status_quo', 'business_value', 'net', 'cumulative_net', 'currency'];
+  const rows = projection.scenarios.flatMap(result => result.years.map(year => [
+    result.name, year.year, year.cloud, year.onPremises, year.migration, year.tco,
+    year.statusQuo, year.businessValue, year.net, year.cumulativeNet, projection.currency
+  ]));
+  return toCsv([header, ...rows]);
+}
+
+/**
+ * Horizon totals, break-even and ROI per scenario
+ */
+export function formatTcoSummaryCsv(projection: TcoProjection): string {
+  const header = ['scenario', 'years', 'tco', 'status_quo', 'business_value', 'net', 'break_even_month', 'roi', 'currency'];
+  const rows = projection.scenarios.map(result => [
+    result.name, projection.years, result.tco, result.statusQuo, result.businessValue, result.net,
+    result.breakEvenMonth ?? '', result.roi !== undefined ? round(result.roi) : '', projection.currency
+  ]);
+  return toCsv([header, ...rows]);
+}
+
+function projectScenario(estimate: CostEstimate, assumptions: TcoAssumptions, scenario: TcoScenario, rate: number): TcoScenarioResult {
+  const { onPremises, migration, reservations, businessValue } = assumptions;
+  const months = assumptions.years * 12;
+  const migrationMonths = migration.months + scenario.migrationDelayMonths;
+  const decommissionMonth = migrationMonths + migration.dualRunningMonths;
+  const purchaseMonth = reservations.purchaseMonth + scenario.migrationDelayMonths;
+  const scaling = new Map(assumptions.scaling.flatMap(entry => entry.types.map(type => [type, entry] as const)));
+
+  const years: TcoYear[] = [];
+  let cumulative = 0;
+  let breakEvenMonth: number | undefined;
+  let wasNegative = false;
+
+  for (let month = 0; month < months; month++) {
+    const share = month < migrationMonths ? (month + 1) / migrationMonths : 1;
+    const reserved = month >= purchaseMonth;
+
+    const cloud = share * scenario.cloudCostFactor * estimate.lines.reduce((total, line) => {
+      const entry = scaling.get(line.type);
+      const growth = entry ? Math.pow(1 + scenario.growth[entry.driver], entry.elasticity * month / 12) : 1;
+      const monthly = reserved
+        ? line.monthly.payg * (1 - reservations.coverage) + line.monthly[reservations.model] * reservations.coverage
+        : line.monthly.payg;
+      return total + monthly * growth;
+    }, 0);
+
+    const onPremisesMonthly = onPremises.annualCost * rate / 12 * Math.pow(1 + onPremises.annualIncrease, Math.floor(month / 12));
+    const remaining = month < decommissionMonth ? onPremisesMonthly : onPremisesMonthly * onPremises.residualShare;
+    // Overrun months cost as much as planned ones; without a migration period it is paid up front
+    const oneTime = migrationMonths === 0
+      ? (month === 0 ? migration.oneTimeCost * rate : 0)
+      : (month < migrationMonths ? migration.oneTimeCost * rate / Math.max(migration.months, 1) : 0);
+    const benefit = month >= migrationMonths ? businessValue.annualBenefit * rate * scenario.benefitRealization / 12 : 0;
+
+    const net = onPremisesMonthly + benefit - (cloud + remaining + oneTime);
+    cumulative += net;
+    if (cumulative < 0) {
+      wasNegative = true;
+      breakEvenMonth = undefined;
+    } else if (breakEvenMonth === undefined) {
+      breakEvenMonth = wasNegative ? month + 1 : 1;
+    }
+
+    const index = Math.floor(month / 12);
+    const year = years[index] ??= {
+      year: index + 1, cloud: 0, onPremises: 0, migration: 0, tco: 0, statusQuo: 0, businessValue: 0, net: 0, cumulativeNet: 0
+    };
+    year.cloud += cloud;
+    year.onPremises += remaining;
+    year.migration += oneTime;
+    year.tco += cloud + remaining + oneTime;
+    year.statusQuo += onPremisesMonthly;
+    year.businessValue += benefit;
+    year.net += net;
+    year.cumulativeNet = cumulative;
+  }
+
+  const rounded = years.map(year => Object.fromEntries(
+    Object.entries(year).map(([key, value]) => [key, key === 'year' ? value : round(value)])) as unknown as TcoYear);
+  const sum = (field: keyof TcoYear) => round(years.reduce((total, year) => total + year[field], 0));
+  const investment = sum('migration');
+
+  return {
+    name: scenario.name,
+    scenario,
+    years: rounded,
+    tco: sum('tco'),
+    statusQuo: sum('statusQuo'),
+    businessValue: sum('businessValue'),
+    net: sum('net'),
+    breakEvenMonth,
+    roi: investment > 0 ? sum('net') / investment : undefined
+  };
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function signedPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${Math.round(value * 100)}%`;
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
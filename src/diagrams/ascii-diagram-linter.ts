@@ -0,0 +1,347 @@
+/**
+ * ASCII Diagram Linter
+ * Deterministic checks for the box-drawing diagrams of the visual architecture
+ * agent: broken box borders, misaligned columns, over-width lines, unterminated
+ * boxes and boundaries, and dangling arrows. Defects that have a safe mechanical
+ * fix (shifting a wall, evening out a border, trimming trailing space) are
+ * repaired here; the rest are reported so they can be sent back to the model.
+ * Columns are terminal columns: emoji and CJK glyphs take two.
+ */
+
+import stringWidth from 'string-width';
+
+export const ASCII_MAX_WIDTH = 85;
+
+export type AsciiDefectRule =
+  | 'over-width'
+  | 'broken-border'
+  | 'misaligned-column'
+  | 'unterminated-box'
+  | 'unterminated-boundary'
+  | 'dangling-arrow';
+
+export interface AsciiDefect {
+  rule: AsciiDefectRule;
+  // 1-based line and column in the linted text
+  line: number;
+  column: number;
+  message: string;
+  fixable: boolean;
+}
+
+export interface AsciiLintResult {
+  // Diagram blocks found (runs of box-drawing lines containing at least one box)
+  diagrams: number;
+  defects: AsciiDefect[];
+}
+
+export interface AsciiRepairResult {
+  text: string;
+  fixed: AsciiDefect[];
+  remaining: AsciiDefect[];
+}
+
+// One cell per terminal column; the second column of a wide glyph is an empty cell
+type Grid = string[][];
+
+interface Finding extends AsciiDefect {
+  apply?: (grid: Grid) => void;
+}
+
+// Upper bound on mechanical fixes per text, so a fix that does not settle cannot loop
+const MAX_FIXES = 500;
+
+const DIAGRAM_CHARS = /[─-╿►◄▲▼]/;
+const HORIZONTAL = new Set(['─', '┬', '┴', '┼', '═']);
+const LEFT_WALL = new Set(['│', '├', '┼', '║', '┤']);
+const RIGHT_WALL = new Set(['│', '┤', '┼', '║', '├']);
+const ARROW_SHAFTS = new Set(['─', '═', '│', '║', '┼', '├', '┤', '┬', '┴', '◄', '►', '▲', '▼']);
+
+const graphemes = new Intl.Segmenter();
+
+/**
+ * Lint every diagram block in the text
+ */
+export function lintAsciiDiagrams(text: string): AsciiLintResult {
+  const grid = toGrid(text);
+  return {
+    diagrams: diagramBlocks(grid).length,
+    defects: analyze(grid).map(toDefect)
+  };
+}
+
+/**
+ * Apply the mechanical fixes one at a time (re-linting in between, since a
+ * shifted wall moves everything after it) and report what is left
+ */
+export function repairAsciiDiagrams(text: string): AsciiRepairResult {
+  const grid = toGrid(text);
+  const fixed: AsciiDefect[] = [];
+  const attempted = new Set<string>();
+
+  for (let i = 0; i < MAX_FIXES; i++) {
+    const finding = analyze(grid).find(candidate => candidate.apply && !attempted.has(defectKey(candidate)));
+    if (!finding) break;
+    attempted.add(defectKey(finding));
+    finding.apply!(grid);
+    fixed.push(toDefect(finding));
+  }
+
+  const repaired = grid.map(row => row.join('')).join('\n');
+  return { text: repaired, fixed, remaining: lintAsciiDiagrams(repaired).defects };
+}
+
+/**
+ * Defect list for a repair prompt or report, e.g. "line 12, col 40: [misaligned-column] ..."
+ */
+export function formatAsciiDefects(defects: AsciiDefect[], limit: number = 25): string {
+  const lines = defects.slice(0, limit).map(defect => `- line ${defect.line}, col ${defect.column}: [${defect.rule}] ${defect.message}`);
+  if (defects.length > limit) lines.push(`- ... and ${defects.length - limit} more`);
+  return lines.join('\n');
+}
+
+function analyze(grid: Grid): Finding[] {
+  const findings: Finding[] = [];
+  for (const [start, end] of diagramBlocks(grid)) {
+    checkWidth(grid, start, end, findings);
+    checkBoxes(grid, start, end, findings);
+    checkBoundaries(grid, start, end, findings);
+    checkArrows(grid, start, end, findings);
+  }
+  return findings.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Inclusive row ranges of consecutive diagram lines that contain a box corner
+ */
+function diagramBlocks(grid: Grid): [number, number][] {
+  const blocks: [number, number][] = [];
+  let start = -1;
+  for (let row = 0; row <= grid.length; row++) {
+    const isDiagram = row < grid.length && DIAGRAM_CHARS.test(grid[row].join(''));
+    if (isDiagram && start < 0) start = row;
+    if (!isDiagram && start >= 0) {
+      if (grid.slice(start, row).some(line => line.includes('┌'))) blocks.push([start, row - 1]);
+      start = -1;
+    }
+  }
+  return blocks;
+}
+
+function checkWidth(grid: Grid, start: number, end: number, findings: Finding[]): void {
+  for (let row = start; row <= end; row++) {
+    const width = grid[row].length;
+    if (width <= ASCII_MAX_WIDTH) continue;
+    let trimmed = width;
+    while (trimmed > 0 && /^\s$/.test(grid[row][trimmed - 1])) trimmed--;
+    findings.push({
+      rule: 'over-width',
+      line: row + 1,
+      column: ASCII_MAX_WIDTH + 1,
+      message: `line is ${width} columns wide (max ${ASCII_MAX_WIDTH})`,
+      fixable: trimmed <= ASCII_MAX_WIDTH,
+      apply: trimmed <= ASCII_MAX_WIDTH ? g => { g[row] = g[row].slice(0, trimmed); } : undefined
+    });
+  }
+}
+
+/**
+ * Follow every box from its ┌ corner: top border to ┐, left wall down to └,
+ * right wall down to the same row, bottom border to ┘
+ */
+function checkBoxes(grid: Grid, start: number, end: number, findings: Finding[]): void {
+  for (let row = start; row <= end; row++) {
+    grid[row].forEach((char, col) => {
+      if (char === '┌') checkBox(grid, row, col, end, findings);
+    });
+  }
+}
+
+function checkBox(grid: Grid, top: number, left: number, end: number, findings: Finding[]): void {
+  const at = (row: number, col: number) => grid[row]?.[col] ?? '';
+  const where = `box at line ${top + 1}, col ${left + 1}`;
+
+  // Top border: up to the next ┐ before another box opens
+  let right = -1;
+  for (let col = left + 1; col < grid[top].length; col++) {
+    if (at(top, col) === '┐') { right = col; break; }
+    if (at(top, col) === '┌') break;
+  }
+  if (right < 0) {
+    findings.push({ rule: 'unterminated-box', line: top + 1, column: left + 1, message: `${where} has no top-right corner ┐`, fixable: false });
+    return;
+  }
+  checkBorderGaps(grid, top, left, right, where, 'top', findings);
+
+  // Left wall down to └
+  let bottom = -1;
+  for (let row = top + 1; row <= end; row++) {
+    const char = at(row, left);
+    if (char === '└') { bottom = row; break; }
+    if (LEFT_WALL.has(char)) continue;
+    const shifted = findShifted(grid, row, left, new Set([...LEFT_WALL, '└']));
+    if (shifted === undefined) {
+      findings.push({ rule: 'unterminated-box', line: row + 1, column: left + 1, message: `left border of ${where} stops (expected │ or └)`, fixable: false });
+      return;
+    }
+    findings.push(wallShift(grid, row, shifted, left, `left border of ${where}`));
+    if (at(row, shifted) === '└') { bottom = row; break; }
+  }
+  if (bottom < 0) {
+    findings.push({ rule: 'unterminated-box', line: top + 1, column: left + 1, message: `${where} is never closed with └`, fixable: false });
+    return;
+  }
+
+  // Right wall between the corners
+  for (let row = top + 1; row < bottom; row++) {
+    if (RIGHT_WALL.has(at(row, right))) continue;
+    const shifted = findShifted(grid, row, right, RIGHT_WALL);
+    if (shifted === undefined) {
+      findings.push({ rule: 'broken-border', line: row + 1, column: right + 1, message: `right border of ${where} is missing (expected │)`, fixable: false });
+    } else {
+      findings.push(wallShift(grid, row, shifted, right, `right border of ${where}`));
+    }
+  }
+
+  // Bottom border: ─ from └ to a ┘ in the same column as ┐
+  let col = left + 1;
+  while (HORIZONTAL.has(at(bottom, col))) col++;
+  if (at(bottom, col) !== '┘') {
+    findings.push({ rule: 'broken-border', line: bottom + 1, column: col + 1, message: `bottom border of ${where} is interrupted (expected ─ or ┘)`, fixable: false });
+  } else if (col !== right) {
+    const found = col;
+    const canFix = found < right || grid[bottom].slice(right, found).every(char => char === '─');
+    findings.push({
+      rule: 'misaligned-column',
+      line: bottom + 1,
+      column: found + 1,
+      message: `bottom-right corner of ${where} is at col ${found + 1}, expected col ${right + 1} under ┐`,
+      fixable: canFix,
+      apply: canFix ? g => {
+        if (found < right) g[bottom].splice(found, 0, ...'─'.repeat(right - found));
+        else g[bottom].splice(right, found - right);
+      } : undefined
+    });
+  }
+}
+
+/**
+ * Spaces inside a border made only of border characters are gaps; borders with
+ * a title ("┌─ Azure ─┐") are left alone
+ */
+function checkBorderGaps(grid: Grid, row: number, from: number, to: number, where: string, side: string, findings: Finding[]): void {
+  const inner = grid[row].slice(from + 1, to);
+  if (!inner.includes(' ') || inner.some(char => char !== ' ' && !HORIZONTAL.has(char))) return;
+  const gap = from + 1 + inner.indexOf(' ');
+  findings.push({
+    rule: 'broken-border',
+    line: row + 1,
+    column: gap + 1,
+    message: `${side} border of ${where} has a gap`,
+    fixable: true,
+    apply: g => {
+      for (let col = from + 1; col < to; col++) if (g[row][col] === ' ') g[row][col] = '─';
+    }
+  });
+}
+
+/**
+ * Column of a wall character one or two columns off the expected one
+ */
+function findShifted(grid: Grid, row: number, expected: number, chars: Set<string>): number | undefined {
+  for (const offset of [1, -1, 2, -2]) {
+    if (chars.has(grid[row]?.[expected + offset] ?? '')) return expected + offset;
+  }
+  return undefined;
+}
+
+/**
+ * Move a wall back to its column by removing padding before it, or inserting
+ * padding when it sits too far left. Everything after it on the line moves too,
+ * which usually realigns the boxes to its right as well.
+ */
+function wallShift(grid: Grid, row: number, found: number, expected: number, what: string): Finding {
+  const canFix = found < expected || grid[row].slice(expected, found).every(char => char === ' ');
+  return {
+    rule: 'misaligned-column',
+    line: row + 1,
+    column: found + 1,
+    message: `${what} is at col ${found + 1}, expected col ${expected + 1}`,
+    fixable: canFix,
+    apply: canFix ? g => {
+      if (found < expected) g[row].splice(found, 0, ...' '.repeat(expected - found));
+      else g[row].splice(expected, found - expected);
+    } : undefined
+  };
+}
+
+/**
+ * [════] boundaries must close with ]
+ */
+function checkBoundaries(grid: Grid, start: number, end: number, findings: Finding[]): void {
+  for (let row = start; row <= end; row++) {
+    const line = grid[row];
+    line.forEach((char, col) => {
+      if (char !== '[' || line[col + 1] !== '═') return;
+      let close = col + 1;
+      while (line[close] === '═') close++;
+      if (line[close] === ']') return;
+      const canFix = close >= line.length || line[close] === ' ';
+      findings.push({
+        rule: 'unterminated-boundary',
+        line: row + 1,
+        column: col + 1,
+        message: 'security boundary [════ is not closed with ]',
+        fixable: canFix,
+        apply: canFix ? g => { g[row][close] = ']'; } : undefined
+      });
+    });
+  }
+}
+
+/**
+ * Arrow heads need a shaft behind them and something to point at within two columns / rows
+ */
+function checkArrows(grid: Grid, start: number, end: number, findings: Finding[]): void {
+  const at = (row: number, col: number) => (row >= start && row <= end ? grid[row][col] : undefined) ?? '';
+  const occupied = (char: string) => char !== '' && char !== ' ';
+  const directions: Record<string, [number, number]> = { '►': [0, 1], '◄': [0, -1], '▼': [1, 0], '▲': [-1, 0] };
+
+  for (let row = start; row <= end; row++) {
+    grid[row].forEach((char, col) => {
+      const direction = directions[char];
+      if (!direction) return;
+      const [dr, dc] = direction;
+      const shaft = at(row - dr, col - dc);
+      const target = occupied(at(row + dr, col + dc)) || occupied(at(row + 2 * dr, col + 2 * dc));
+      if (ARROW_SHAFTS.has(shaft) && target) return;
+      findings.push({
+        rule: 'dangling-arrow',
+        line: row + 1,
+        column: col + 1,
+        message: `arrow ${char} ${!ARROW_SHAFTS.has(shaft) ? 'has no line leading into it' : 'does not point at a box or label'}`,
+        fixable: false
+      });
+    });
+  }
+}
+
+function toGrid(text: string): Grid {
+  return text.split('\n').map(line => {
+    const cells: string[] = [];
+    for (const { segment } of graphemes.segment(line.replace(/\r$/, ''))) {
+      cells.push(segment);
+      for (let column = 1; column < stringWidth(segment); column++) cells.push('');
+    }
+    return cells;
+  });
+}
+
+function toDefect(finding: Finding): AsciiDefect {
+  const { apply, ...defect } = finding;
+  return defect;
+}
+
+function defectKey(defect: AsciiDefect): string {
+  return `${defect.rule}|${defect.line}|${defect.column}|${defect.message}`;
+}
@@ -0,0 +1,115 @@
+/**
+ * Azure Icons
+ * Bundled Azure-style service icons (48x48 SVG fragments in the Azure palette),
+ * so diagrams render offline. Icons are picked by service type, then category.
+ */
+
+import { ArchitectureNode, isPersonNode } from '../core/architecture-graph.js';
+
+const BLUE = '#0078d4';
+const LIGHT_BLUE = '#50e6ff';
+const SKY = '#5ea0ef';
+const PURPLE = '#773adc';
+const RED = '#e81123';
+const ORANGE = '#ff8c00';
+const TEAL = '#00b7c3';
+const GREY = '#605e5c';
+const YELLOW = '#ffb900';
+
+export const AZURE_ICONS: Record<string, string> = {
+  'web-app': `<rect x="4" y="8" width="40" height="32" rx="3" fill="${BLUE}"/><rect x="4" y="8" width="40" height="7" rx="3" fill="#005ba1"/><circle cx="24" cy="28" r="8" fill="none" stroke="#fff" stroke-width="2"/><path d="M16 28h16M24 20c-3 4-3 12 0 16M24 20c3 4 3 12 0 16" stroke="#fff" stroke-width="1.5" fill="none"/>`,
+  functions: `<path d="M24 4l18 20-18 20L6 24z" fill="${YELLOW}"/><path d="M27 12l-9 14h6l-3 10 9-14h-6z" fill="#fff"/>`,
+  containers: `<path d="M24 4l18 10v20L24 44 6 34V14z" fill="${BLUE}"/><path d="M24 4l18 10-18 10L6 14z" fill="${LIGHT_BLUE}"/><path d="M24 24v20" stroke="#fff" stroke-width="1.5"/>`,
+  kubernetes: `<path d="M24 3l19 9 4 20-13 14H14L1 32l4-20z" fill="${BLUE}"/><circle cx="24" cy="25" r="9" fill="none" stroke="#fff" stroke-width="2.5"/><path d="M24 10v30M11 19l26 12M37 19L11 31" stroke="#fff" stroke-width="1.5"/>`,
+  'virtual-machine': `<rect x="4" y="6" width="40" height="28" rx="2" fill="${BLUE}"/><rect x="8" y="10" width="32" height="20" fill="${LIGHT_BLUE}"/><path d="M18 40h12M24 34v6" stroke="${GREY}" stroke-width="3"/>`,
+  database: `<ellipse cx="24" cy="10" rx="16" ry="6" fill="${LIGHT_BLUE}"/><path d="M8 10v28c0 3.3 7.2 6 16 6s16-2.7 16-6V10c0 3.3-7.2 6-16 6S8 13.3 8 10z" fill="${BLUE}"/><path d="M8 22c0 3.3 7.2 6 16 6s16-2.7 16-6M8 31c0 3.3 7.2 6 16 6s16-2.7 16-6" stroke="#fff" stroke-width="1.2" fill="none"/>`,
+  cosmos: `<circle cx="24" cy="24" r="18" fill="${BLUE}"/><ellipse cx="24" cy="24" rx="18" ry="7" fill="none" stroke="${LIGHT_BLUE}" stroke-width="2" transform="rotate(-30 24 24)"/><circle cx="24" cy="24" r="5" fill="#fff"/>`,
+  cache: `<ellipse cx="24" cy="10" rx="16" ry="6" fill="#f6a6a6"/><path d="M8 10v28c0 3.3 7.2 6 16 6s16-2.7 16-6V10c0 3.3-7.2 6-16 6S8 13.3 8 10z" fill="${RED}"/><path d="M27 19l-8 11h5l-2 8 8-11h-5z" fill="#fff"/>`,
+  analytics: `<rect x="4" y="4" width="40" height="40" rx="4" fill="${PURPLE}"/><path d="M12 36V24M20 36V14M28 36V20M36 36V10" stroke="#fff" stroke-width="4"/>`,
+  storage: `<rect x="4" y="8" width="40" height="32" rx="2" fill="${SKY}"/><path d="M4 19h40M4 30h40M17 8v32M31 8v32" stroke="#fff" stroke-width="1.5"/>`,
+  network: `<path d="M24 4l18 10v20L24 44 6 34V14z" fill="${PURPLE}"/><path d="M14 24h20M28 18l6 6-6 6M20 18l-6 6 6 6" stroke="#fff" stroke-width="2.5" fill="none"/>`,
+  gateway: `<rect x="4" y="10" width="40" height="28" rx="4" fill="${PURPLE}"/><path d="M10 24h28M32 18l6 6-6 6M16 18l-6 6 6 6" stroke="#fff" stroke-width="2.5" fill="none"/>`,
+  'front-door': `<circle cx="24" cy="24" r="20" fill="${BLUE}"/><rect x="16" y="12" width="16" height="26" fill="#fff"/><circle cx="28" cy="26" r="1.8" fill="${BLUE}"/>`,
+  firewall: `<rect x="4" y="8" width="40" height="32" fill="${RED}"/><path d="M4 18h40M4 29h40M16 8v10M32 8v10M24 18v11M12 29v11M36 29v11" stroke="#fff" stroke-width="2"/>`,
+  security: `<path d="M24 3l18 7v13c0 11-8 19-18 22C14 42 6 34 6 23V10z" fill="${BLUE}"/><path d="M16 24l6 6 11-12" stroke="#fff" stroke-width="3" fill="none"/>`,
+  'key-vault': `<circle cx="24" cy="24" r="20" fill="${YELLOW}"/><circle cx="19" cy="24" r="6" fill="none" stroke="#fff" stroke-width="3"/><path d="M25 24h12M33 24v5M37 24v4" stroke="#fff" stroke-width="3"/>`,
+  identity: `<path d="M24 3l19 11v20L24 45 5 34V14z" fill="${TEAL}"/><circle cx="24" cy="19" r="6" fill="#fff"/><path d="M13 35c1-7 6-10 11-10s10 3 11 10z" fill="#fff"/>`,
+  integration: `<rect x="4" y="10" width="40" height="28" rx="3" fill="${ORANGE}"/><path d="M4 12l20 14 20-14" stroke="#fff" stroke-width="2.5" fill="none"/>`,
+  events: `<rect x="4" y="4" width="40" height="40" rx="4" fill="${ORANGE}"/><path d="M12 16h24M12 24h24M12 32h24" stroke="#fff" stroke-width="3"/><circle cx="36" cy="16" r="3" fill="${YELLOW}"/>`,
+  'api-management': `<circle cx="24" cy="24" r="20" fill="${BLUE}"/><path d="M17 17l-7 7 7 7M31 17l7 7-7 7M27 13l-6 22" stroke="#fff" stroke-width="3" fill="none"/>`,
+  ai: `<path d="M24 3l19 11v20L24 45 5 34V14z" fill="${TEAL}"/><path d="M24 12l3 9 9 3-9 3-3 9-3-9-9-3 9-3z" fill="#fff"/>`,
+  monitoring: `<rect x="4" y="6" width="40" height="36" rx="3" fill="${GREY}"/><path d="M8 30l8-8 6 6 10-12 8 6" stroke="${LIGHT_BLUE}" stroke-width="3" fill="none"/>`,
+  user: `<circle cx="24" cy="14" r="9" fill="${GREY}"/><path d="M6 44c1-12 9-18 18-18s17 6 18 18z" fill="${GREY}"/>`,
+  'on-premises': `<rect x="8" y="6" width="32" height="38" fill="${GREY}"/><path d="M14 12h6v6h-6zM28 12h6v6h-6zM14 24h6v6h-6zM28 24h6v6h-6z" fill="#fff"/><rect x="20" y="34" width="8" height="10" fill="#fff"/>`,
+  external: `<path d="M14 36a9 9 0 0 1-1-18 12 12 0 0 1 23-2 10 10 0 0 1 0 20z" fill="${GREY}"/>`,
+  generic: `<rect x="6" y="6" width="36" height="36" rx="6" fill="${BLUE}"/><rect x="14" y="14" width="20" height="20" rx="2" fill="none" stroke="#fff" stroke-width="2.5"/>`
+};
+
+// Catalog service type -> icon
+const TYPE_ICONS: Record<string, string> = {
+  'app-service': 'web-app',
+  'static-web-apps': 'web-app',
+  functions: 'functions',
+  'logic-apps': 'integration',
+  'kubernetes-service': 'kubernetes',
+  'container-apps': 'containers',
+  'container-instances': 'containers',
+  'virtual-machines': 'virtual-machine',
+  'stack-edge': 'virtual-machine',
+  'sql-database': 'database',
+  postgresql: 'database',
+  mysql: 'database',
+  'cosmos-db': 'cosmos',
+  'redis-cache': 'cache',
+  'synapse-analytics': 'analytics',
+  'data-factory': 'analytics',
+  databricks: 'analytics',
+  fabric: 'analytics',
+  'storage-account': 'storage',
+  'virtual-network': 'network',
+  'application-gateway': 'gateway',
+  'load-balancer': 'gateway',
+  'vpn-gateway': 'gateway',
+  expressroute: 'network',
+  'front-door': 'front-door',
+  firewall: 'firewall',
+  'private-link': 'network',
+  dns: 'network',
+  'api-management': 'api-management',
+  'service-bus': 'integration',
+  'event-hubs': 'events',
+  'event-grid': 'events',
+  'iot-hub': 'events',
+  openai: 'ai',
+  'ai-search': 'ai',
+  'ai-services': 'ai',
+  'machine-learning': 'ai',
+  'key-vault': 'key-vault',
+  'defender-for-cloud': 'security',
+  sentinel: 'security',
+  'entra-id': 'identity',
+  monitor: 'monitoring',
+  'log-analytics': 'monitoring'
+};
+
+const CATEGORY_ICONS: Record<string, string> = {
+  compute: 'virtual-machine',
+  data: 'database',
+  storage: 'storage',
+  networking: 'network',
+  security: 'security',
+  identity: 'identity',
+  integration: 'integration',
+  ai: 'ai',
+  monitoring: 'monitoring',
+  'on-premises': 'on-premises',
+  external: 'external'
+};
+
+/**
+ * Icon id for a node: catalog type first, then category; people get the user icon
+ */
+export function iconFor(node: ArchitectureNode): string {
+  if (isPersonNode(node)) return 'user';
+  return TYPE_ICONS[node.type] || CATEGORY_ICONS[node.category] || 'generic';
+}
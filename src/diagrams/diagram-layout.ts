@@ -0,0 +1,218 @@
+/**
+ * Diagram Layout
+ * Deterministic left-to-right layout of the architecture graph shared by the
+ * SVG renderer and the draw.io exporter. Services become fixed-size boxes
+ * inside nested boundary containers (on-premises sites, Azure, VNets, subnets,
+ * trust boundaries), ordered by their position along the flows.
+ */
+
+import { ArchitectureGraph, ArchitectureGroup, ArchitectureNode, azureNodes } from '../core/architecture-graph.js';
+
+export const NODE_WIDTH = 156;
+export const NODE_HEIGHT = 100;
+const GAP = 32;
+const TOP_LEVEL_GAP = 56;
+const PADDING = 20;
+const TITLE_HEIGHT = 28;
+// Space above the content for the diagram title
+export const HEADER_HEIGHT = 64;
+export const MARGIN = 24;
+// Items per row inside a container before wrapping
+const MAX_COLUMNS = 4;
+
+// Synthetic container holding everything deployed to Azure
+export const AZURE_CONTAINER = '__azure__';
+
+export interface ContainerStyle {
+  fill: string;
+  stroke: string;
+  dash?: string;
+  label: string;
+}
+
+// Boundary colours per group kind, shared by the renderers
+export const CONTAINER_STYLES: Record<string, ContainerStyle> = {
+  [AZURE_CONTAINER]: { fill: '#eff6fc', stroke: '#0078d4', label: '#0078d4' },
+  'on-premises': { fill: '#f3f2f1', stroke: '#605e5c', dash: '8 4', label: '#323130' },
+  subscription: { fill: '#fffbf0', stroke: '#c19c00', label: '#8a6d00' },
+  'resource-group': { fill: '#f8fbfe', stroke: '#0078d4', dash: '4 3', label: '#005a9e' },
+  region: { fill: '#f3f9fd', stroke: '#0078d4', label: '#005a9e' },
+  vnet: { fill: '#f7f3fd', stroke: '#773adc', label: '#5c2d91' },
+  subnet: { fill: '#ffffff', stroke: '#773adc', dash: '6 3', label: '#5c2d91' },
+  'trust-boundary': { fill: 'none', stroke: '#d13438', dash: '10 5', label: '#a4262c' }
+};
+
+export type LayoutItem =
+  | { type: 'node'; node: ArchitectureNode; rank: number }
+  | { type: 'container'; id: string; name: string; kind: string; children: LayoutItem[]; rank: number };
+
+export interface Rect { x: number; y: number; width: number; height: number }
+
+// Absolute position of a laid-out item; parent is the enclosing container
+export interface Placed extends Rect {
+  item: LayoutItem;
+  parent?: Placed;
+}
+
+export interface DiagramLayout {
+  width: number;
+  height: number;
+  // Containers before their contents (outermost first)
+  placed: Placed[];
+  nodeBoxes: Map<string, Placed>;
+}
+
+/**
+ * Lay out the graph: top-level items in one row, left to right in flow order
+ */
+export function layoutArchitectureGraph(graph: ArchitectureGraph): DiagramLayout {
+  const ranks = flowRanks(graph);
+  const roots = buildLayoutTree(graph, ranks);
+
+  const sized = roots.map(item => ({ item, ...measure(item) }));
+  const contentWidth = sized.reduce((sum, entry) => sum + entry.width, 0) + TOP_LEVEL_GAP * Math.max(0, sized.length - 1);
+  const contentHeight = Math.max(NODE_HEIGHT, ...sized.map(entry => entry.height));
+
+  const placed: Placed[] = [];
+  let x = MARGIN;
+  for (const entry of sized) {
+    // Centre shorter items vertically so flows between them stay short
+    const y = HEADER_HEIGHT + MARGIN + (contentHeight - entry.height) / 2;
+    place(entry.item, x, y, placed);
+    x += entry.width + TOP_LEVEL_GAP;
+  }
+
+  const nodeBoxes = new Map<string, Placed>();
+  placed.forEach(entry => {
+    if (entry.item.type === 'node') nodeBoxes.set(entry.item.node.id, entry);
+  });
+
+  return {
+    width: Math.max(contentWidth + MARGIN * 2, 480),
+    height: contentHeight + HEADER_HEIGHT + MARGIN * 2,
+    placed,
+    nodeBoxes
+  };
+}
+
+/**
+ * Group the graph into layout containers: top-level groups holding no Azure
+ * service (on-premises sites, partner boundaries) stay outside; everything
+ * deployed to Azure sits in one Azure container
+ */
+function buildLayoutTree(graph: ArchitectureGraph, ranks: Map<string, number>): LayoutItem[] {
+  const azure = new Set(azureNodes(graph).map(node => node.id));
+  const byRank = (a: LayoutItem, b: LayoutItem) => a.rank - b.rank;
+
+  const containerFor = (group: ArchitectureGroup, seen: Set<string>): LayoutItem => {
+    seen.add(group.id);
+    const children: LayoutItem[] = [
+      ...graph.groups.filter(child => child.parent === group.id && !seen.has(child.id)).map(child => containerFor(child, seen)),
+      ...graph.nodes.filter(node => node.groups[0] === group.id).map(node => nodeItem(node, ranks))
+    ].sort(byRank);
+    return { type: 'container', id: group.id, name: group.name, kind: group.kind, children, rank: minRank(children) };
+  };
+
+  const seen = new Set<string>();
+  const topGroups = graph.groups.filter(group => !group.parent || !graph.groups.some(g => g.id === group.parent));
+  const outside: LayoutItem[] = [];
+  const inside: LayoutItem[] = [];
+
+  for (const group of topGroups) {
+    const item = containerFor(group, seen);
+    const holdsAzure = containedNodes(item).some(node => azure.has(node.id));
+    (holdsAzure ? inside : outside).push(item);
+  }
+  for (const node of graph.nodes.filter(n => n.groups.length === 0)) {
+    (azure.has(node.id) ? inside : outside).push(nodeItem(node, ranks));
+  }
+
+  if (inside.length > 0) {
+    inside.sort(byRank);
+    const regions = graph.regions.filter(region => region && !/^n\/?a$/i.test(region));
+    outside.push({
+      type: 'container',
+      id: AZURE_CONTAINER,
+      name: `Microsoft Azure${regions.length > 0 ? ` (${regions.join(', ')})` : ''}`,
+      kind: AZURE_CONTAINER,
+      children: inside,
+      rank: minRank(inside)
+    });
+  }
+
+  return outside.filter(item => item.type === 'node' || item.children.length > 0).sort(byRank);
+}
+
+function nodeItem(node: ArchitectureNode, ranks: Map<string, number>): LayoutItem {
+  return { type: 'node', node, rank: ranks.get(node.id) ?? 0 };
+}
+
+function minRank(items: LayoutItem[]): number {
+  return items.length > 0 ? Math.min(...items.map(item => item.rank)) : Number.MAX_SAFE_INTEGER;
+}
+
+function containedNodes(item: LayoutItem): ArchitectureNode[] {
+  return item.type === 'node' ? [item.node] : item.children.flatMap(containedNodes);
+}
+
+/**
+ * Longest-path layer of every node along the flows (sources are 0). Relaxation
+ * is capped at the node count, so cycles cannot loop forever.
+ */
+function flowRanks(graph: ArchitectureGraph): Map<string, number> {
+  const ranks = new Map(graph.nodes.map(node => [node.id, 0]));
+  for (let pass = 0; pass < graph.nodes.length; pass++) {
+    let changed = false;
+    for (const flow of graph.flows) {
+      const next = (ranks.get(flow.from) ?? 0) + 1;
+      if (flow.from !== flow.to && ranks.has(flow.to) && next > ranks.get(flow.to)! && next < graph.nodes.length) {
+        ranks.set(flow.to, next);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+  return ranks;
+}
+
+function measure(item: LayoutItem): { width: number; height: number } {
+  if (item.type === 'node') return { width: NODE_WIDTH, height: NODE_HEIGHT };
+
+  const rows = gridRows(item.children);
+  const rowSizes = rows.map(row => {
+    const sizes = row.map(measure);
+    return {
+      width: sizes.reduce((sum, size) => sum + size.width, 0) + GAP * (row.length - 1),
+      height: Math.max(...sizes.map(size => size.height))
+    };
+  });
+  const titleWidth = item.name.length * 7.5 + PADDING * 2;
+  return {
+    width: Math.max(titleWidth, ...rowSizes.map(row => row.width)) + PADDING * 2,
+    height: TITLE_HEIGHT + PADDING * 2 + rowSizes.reduce((sum, row) => sum + row.height, 0) + GAP * Math.max(0, rows.length - 1)
+  };
+}
+
+function gridRows(children: LayoutItem[]): LayoutItem[][] {
+  const rows: LayoutItem[][] = [];
+  for (let i = 0; i < children.length; i += MAX_COLUMNS) rows.push(children.slice(i, i + MAX_COLUMNS));
+  return rows;
+}
+
+function place(item: LayoutItem, x: number, y: number, placed: Placed[], parent?: Placed): void {
+  const entry: Placed = { item, x, y, ...measure(item), parent };
+  placed.push(entry);
+  if (item.type === 'node') return;
+
+  let rowY = y + TITLE_HEIGHT + PADDING;
+  for (const row of gridRows(item.children)) {
+    const sizes = row.map(measure);
+    const rowHeight = Math.max(...sizes.map(s => s.height));
+    let childX = x + PADDING;
+    row.forEach((child, index) => {
+      place(child, childX, rowY + (rowHeight - sizes[index].height) / 2, placed, entry);
+      childX += sizes[index].width + GAP;
+    });
+    rowY += rowHeight + GAP;
+  }
+}
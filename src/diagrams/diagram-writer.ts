@@ -0,0 +1,98 @@
+/**
+ * Diagram Writer
+ * Generates the deterministic diagram formats from the architecture graph and
+ * writes them into the case study folder next to the ASCII diagrams
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import config from '../config/config.js';
+import { ArchitectureGraph } from '../core/architecture-graph.js';
+import { generateMermaidFlowchart } from './mermaid-generator.js';
+import { generateStructurizrDsl } from './structurizr-generator.js';
+import { validateStructurizrDsl } from './structurizr-validator.js';
+import { renderArchitectureSvg } from './svg-renderer.js';
+import { generateDrawioXml } from './drawio-exporter.js';
+import { rasterizeSvg } from './png-rasterizer.js';
+
+export const MERMAID_FILE = 'architecture-diagram.mmd';
+export const STRUCTURIZR_FILE = 'architecture-c4.dsl';
+export const SVG_FILE = 'architecture-diagram.svg';
+export const PNG_FILE = 'architecture-diagram.png';
+export const DRAWIO_FILE = 'architecture-diagram.drawio';
+
+export interface GeneratedDiagrams {
+  mermaid: string;
+  structurizr: string;
+  // Validator errors; the DSL is not written when there are any
+  structurizrErrors: string[];
+  svg: string;
+  drawio: string;
+  // Set when the SVG was rasterized
+  png?: string;
+}
+
+export interface SaveDiagramOptions {
+  // Defaults to the DIAGRAM_PNG setting
+  png?: boolean;
+}
+
+export function generateGraphDiagrams(graph: ArchitectureGraph): GeneratedDiagrams {
+  const structurizr = generateStructurizrDsl(graph);
+  return {
+    mermaid: generateMermaidFlowchart(graph),
+    structurizr,
+    structurizrErrors: validateStructurizrDsl(structurizr).errors,
+    svg: renderArchitectureSvg(graph),
+    drawio: generateDrawioXml(graph)
+  };
+}
+
+/**
+ * Write the Mermaid flowchart, the validated Structurizr workspace, the draw.io
+ * file and the SVG (plus PNG when enabled). Returns the generated diagrams.
+ */
+export async function saveGraphDiagrams(
+  graph: ArchitectureGraph,
+  caseStudyFolder: string,
+  options: SaveDiagramOptions = {}
+): Promise<GeneratedDiagrams> {
+  const diagrams = generateGraphDiagrams(graph);
+
+  try {
+    const outputDir = path.join(process.cwd(), 'output', caseStudyFolder);
+    await fs.mkdir(outputDir, { recursive: true });
+    await fs.writeFile(path.join(outputDir, MERMAID_FILE), diagrams.mermaid + '\n', 'utf-8');
+    await fs.writeFile(path.join(outputDir, SVG_FILE), diagrams.svg, 'utf-8');
+    await fs.writeFile(path.join(outputDir, DRAWIO_FILE), diagrams.drawio, 'utf-8');
+
+    if (diagrams.structurizrErrors.length > 0) {
+      console.warn(`⚠️ Structurizr DSL failed validation, not saved: ${diagrams.structurizrErrors[0]}`);
+    } else {
+      await fs.writeFile(path.join(outputDir, STRUCTURIZR_FILE), diagrams.structurizr, 'utf-8');
+    }
+    console.log(`✅ SVG, draw.io, Mermaid${diagrams.structurizrErrors.length === 0 ? ' and Structurizr C4' : ''} diagrams saved to: ${outputDir}`);
+
+    if (options.png ?? config.get().diagrams.png) {
+      await savePng(diagrams, path.join(outputDir, SVG_FILE), path.join(outputDir, PNG_FILE));
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to save generated diagrams:', error instanceof Error ? error.message : error);
+  }
+
+  return diagrams;
+}
+
+async function savePng(diagrams: GeneratedDiagrams, svgPath: string, pngPath: string): Promise<void> {
+  try {
+    const tool = await rasterizeSvg(svgPath, pngPath);
+    if (tool) {
+      diagrams.png = pngPath;
+      console.log(`✅ PNG diagram rendered with ${tool}: ${pngPath}`);
+    } else {
+      console.warn('⚠️ DIAGRAM_PNG is on but no rasterizer was found (install rsvg-convert, resvg, Inkscape or ImageMagick)');
+    }
+  } catch (error) {
+    console.warn('⚠️ PNG rendering failed:', error instanceof Error ? error.message : error);
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * draw.io Exporter
+ * Uncompressed .drawio (mxGraph XML) file of the architecture graph that opens
+ * in diagrams.net / the draw.io desktop app and stays editable there. Services
+ * use the built-in Azure shape library (img/lib/azure2), groups become real
+ * containers (moving one moves its contents) and flows are connectors bound to
+ * their services. Visio users can export it as .vsdx from diagrams.net.
+ */
+
+import { ArchitectureGraph, ArchitectureNode, azureNodes, formatMonthlyCost, isPersonNode } from '../core/architecture-graph.js';
+import { CONTAINER_STYLES, HEADER_HEIGHT, LayoutItem, MARGIN, NODE_HEIGHT, NODE_WIDTH, Placed, layoutArchitectureGraph } from './diagram-layout.js';
+
+const SHAPE_SIZE = 48;
+const AZURE_LIBRARY = 'img/lib/azure2';
+
+// Azure shape library image per catalog type key
+const AZURE_SHAPES: Record<string, string> = {
+  'app-service': 'compute/App_Services.svg',
+  functions: 'compute/Function_Apps.svg',
+  'kubernetes-service': 'compute/Kubernetes_Services.svg',
+  'container-apps': 'compute/Container_Instances.svg',
+  'container-instances': 'compute/Container_Instances.svg',
+  'virtual-machines': 'compute/Virtual_Machine.svg',
+  'static-web-apps': 'compute/App_Services.svg',
+  'sql-database': 'databases/SQL_Database.svg',
+  postgresql: 'databases/Azure_Database_PostgreSQL_Server.svg',
+  mysql: 'databases/Azure_Database_MySQL_Server.svg',
+  'cosmos-db': 'databases/Azure_Cosmos_DB.svg',
+  'redis-cache': 'databases/Cache_Redis.svg',
+  'synapse-analytics': 'analytics/Azure_Synapse_Analytics.svg',
+  'data-factory': 'databases/Data_Factory.svg',
+  databricks: 'analytics/Azure_Databricks.svg',
+  'storage-account': 'storage/Storage_Accounts.svg',
+  'virtual-network': 'networking/Virtual_Networks.svg',
+  'application-gateway': 'networking/Application_Gateways.svg',
+  'front-door': 'networking/Front_Doors.svg',
+  'load-balancer': 'networking/Load_Balancers.svg',
+  'vpn-gateway': 'networking/Virtual_Network_Gateways.svg',
+  expressroute: 'networking/ExpressRoute_Circuits.svg',
+  firewall: 'networking/Firewalls.svg',
+  'private-link': 'networking/Private_Link.svg',
+  dns: 'networking/DNS_Zones.svg',
+  'api-management': 'app_services/API_Management_Services.svg',
+  'service-bus': 'integration/Service_Bus.svg',
+  'event-hubs': 'analytics/Event_Hubs.svg',
+  'event-grid': 'integration/Event_Grid_Topics.svg',
+  'logic-apps': 'integration/Logic_Apps.svg',
+  'iot-hub': 'iot/IoT_Hub.svg',
+  openai: 'ai_machine_learning/Azure_OpenAI.svg',
+  'ai-search': 'app_services/Search_Services.svg',
+  'ai-services': 'ai_machine_learning/Cognitive_Services.svg',
+  'machine-learning': 'ai_machine_learning/Machine_Learning.svg',
+  'key-vault': 'security/Key_Vaults.svg',
+  'defender-for-cloud': 'security/Security_Center.svg',
+  sentinel: 'security/Azure_Sentinel.svg',
+  'entra-id': 'identity/Azure_Active_Directory.svg',
+  monitor: 'management_governance/Monitor.svg',
+  'log-analytics': 'analytics/Log_Analytics_Workspaces.svg'
+};
+
+/**
+ * Render the graph as a .drawio document (one page, laid out like the SVG)
+ */
+export function generateDrawioXml(graph: ArchitectureGraph): string {
+  const layout = layoutArchitectureGraph(graph);
+  const cellIds = new Map<Placed, string>();
+  const cells: string[] = [];
+
+  const services = azureNodes(graph).length;
+  const subtitle = `${services} Azure service${services === 1 ? '' : 's'}${graph.regions.length > 0 ? ` · ${graph.regions.join(', ')}` : ''}${graph.totalMonthlyCost > 0 ? ` · ${formatMonthlyCost(graph.totalMonthlyCost)}/month` : ''}`;
+  cells.push(vertex(
+    'title',
+    `<b>${escapeHtml(graph.name)}</b><br><font color="#605e5c" style="font-size: 12px">${escapeHtml(subtitle)}</font>`,
+    'text;html=1;align=left;verticalAlign=top;fontSize=20;strokeColor=none;fillColor=none;',
+    '1',
+    { x: MARGIN, y: MARGIN, width: Math.max(layout.width - MARGIN * 2, 200), height: HEADER_HEIGHT - MARGIN / 2 }
+  ));
+
+  // Containers come before their contents, so parents always exist when referenced
+  for (const entry of layout.placed) {
+    const parent = entry.parent ? cellIds.get(entry.parent)! : '1';
+    const origin = entry.parent ? { x: entry.parent.x, y: entry.parent.y } : { x: 0, y: 0 };
+
+    if (entry.item.type === 'container') {
+      const id = `group-${entry.item.id}`;
+      cellIds.set(entry, id);
+      cells.push(vertex(id, escapeHtml(entry.item.name), containerStyle(entry.item), parent, {
+        x: entry.x - origin.x, y: entry.y - origin.y, width: entry.width, height: entry.height
+      }));
+    } else {
+      const id = `node-${entry.item.node.id}`;
+      cellIds.set(entry, id);
+      cells.push(serviceCell(id, entry.item.node, parent, entry.x - origin.x, entry.y - origin.y));
+    }
+  }
+
+  for (const flow of graph.flows) {
+    if (!layout.nodeBoxes.has(flow.from) || !layout.nodeBoxes.has(flow.to)) continue;
+    const style = [
+      'edgeStyle=orthogonalEdgeStyle;rounded=1;orthogonalLoop=1;jettySize=auto;html=1;',
+      'strokeColor=#323130;fontSize=10;endArrow=block;endFill=1;',
+      flow.direction === 'bidirectional' ? 'startArrow=block;startFill=1;' : 'startArrow=none;',
+      'labelBackgroundColor=#ffffff;'
+    ].join('');
+    cells.push(
+      `        <mxCell id="${escapeXml(flow.id)}" value="${escapeXml(escapeHtml(flow.protocol || ''))}" style="${style}" edge="1" parent="1" source="node-${escapeXml(flow.from)}" target="node-${escapeXml(flow.to)}">\n` +
+      '          <mxGeometry relative="1" as="geometry" />\n' +
+      '        </mxCell>'
+    );
+  }
+
+  return [
+    '<mxfile host="AzureArchitectureBlueprints" type="device">',
+    `  <diagram id="architecture" name="${escapeXml(graph.name)}">`,
+    `    <mxGraphModel dx="${layout.width}" dy="${layout.height}" grid="1" gridSize="10" guides="1" tooltips="1" connect="1" arrows="1" fold="1" page="1" pageScale="1" pageWidth="${Math.ceil(layout.width)}" pageHeight="${Math.ceil(layout.height)}" math="0" shadow="0">`,
+    '      <root>',
+    '        <mxCell id="0" />',
+    '        <mxCell id="1" parent="0" />',
+    ...cells,
+    '      </root>',
+    '    </mxGraphModel>',
+    '  </diagram>',
+    '</mxfile>'
+  ].join('\n') + '\n';
+}
+
+/**
+ * Service shape with its label underneath. Wrapped in a UserObject so type, SKU,
+ * region and cost are editable under Edit Data in draw.io.
+ */
+function serviceCell(id: string, node: ArchitectureNode, parent: string, x: number, y: number): string {
+  const sku = node.sku && !/^n\/?a$/i.test(node.sku) ? node.sku : '';
+  const details = [sku, node.monthlyCost !== undefined ? `${formatMonthlyCost(node.monthlyCost)}/mo` : '']
+    .filter(Boolean)
+    .map(escapeHtml)
+    .join('<br>');
+  const label = `${escapeHtml(node.name)}${details ? `<br><font color="#605e5c" style="font-size: 10px">${details}</font>` : ''}`;
+
+  const shape = AZURE_SHAPES[node.type];
+  let style: string;
+  let geometry: { x: number; y: number; width: number; height: number };
+  if (shape) {
+    style = `image;aspect=fixed;html=1;points=[];align=center;verticalLabelPosition=bottom;verticalAlign=top;fontSize=12;image=${AZURE_LIBRARY}/${shape};`;
+    geometry = { x: x + (NODE_WIDTH - SHAPE_SIZE) / 2, y: y + 8, width: SHAPE_SIZE, height: SHAPE_SIZE };
+  } else if (isPersonNode(node)) {
+    style = 'shape=umlActor;html=1;verticalLabelPosition=bottom;verticalAlign=top;fillColor=#dae8fc;strokeColor=#0078d4;fontSize=12;';
+    geometry = { x: x + (NODE_WIDTH - 30) / 2, y: y + 4, width: 30, height: 52 };
+  } else {
+    const fill = node.category === 'external' || node.category === 'on-premises' ? 'fillColor=#f3f2f1;strokeColor=#605e5c;' : 'fillColor=#ffffff;strokeColor=#0078d4;';
+    style = `rounded=1;whiteSpace=wrap;html=1;fontSize=12;arcSize=8;${fill}`;
+    geometry = { x, y, width: NODE_WIDTH, height: NODE_HEIGHT };
+  }
+
+  const attributes = [
+    `label="${escapeXml(label)}"`,
+    `tooltip="${escapeXml(node.purpose || '')}"`,
+    `azureType="${escapeXml(node.type)}"`,
+    `sku="${escapeXml(node.sku || '')}"`,
+    `region="${escapeXml(node.region || '')}"`,
+    node.monthlyCost !== undefined ? `monthlyCostUsd="${node.monthlyCost}"` : '',
+    `id="${escapeXml(id)}"`
+  ].filter(Boolean).join(' ');
+
+  return [
+    `        <UserObject ${attributes}>`,
+    `          <mxCell style="${escapeXml(style)}" vertex="1" parent="${escapeXml(parent)}">`,
+    `            ${geometryXml(geometry)}`,
+    '          </mxCell>',
+    '        </UserObject>'
+  ].join('\n');
+}
+
+function containerStyle(item: Extract<LayoutItem, { type: 'container' }>): string {
+  const style = CONTAINER_STYLES[item.kind] || CONTAINER_STYLES['trust-boundary'];
+  return [
+    'rounded=1;arcSize=2;html=1;whiteSpace=wrap;container=1;collapsible=0;recursiveResize=0;',
+    'align=left;verticalAlign=top;spacingLeft=10;spacingTop=2;fontStyle=1;fontSize=13;',
+    `fillColor=${style.fill};strokeColor=${style.stroke};fontColor=${style.label};`,
+    style.dash ? `dashed=1;dashPattern=${style.dash};` : ''
+  ].join('');
+}
+
+function vertex(id: string, value: string, style: string, parent: string, geometry: { x: number; y: number; width: number; height: number }): string {
+  return [
+    `        <mxCell id="${escapeXml(id)}" value="${escapeXml(value)}" style="${escapeXml(style)}" vertex="1" parent="${escapeXml(parent)}">`,
+    `          ${geometryXml(geometry)}`,
+    '        </mxCell>'
+  ].join('\n');
+}
+
+function geometryXml(box: { x: number; y: number; width: number; height: number }): string {
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return `<mxGeometry x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" as="geometry" />`;
+}
+
+// Labels are HTML (html=1) inside an XML attribute, so text is escaped twice
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\r?\n/g, '&#10;');
+}
@@ -0,0 +1,96 @@
+/**
+ * Mermaid Generator
+ * Deterministic Mermaid flowchart of the architecture graph: groups become
+ * nested subgraphs, flows become labelled arrows
+ */
+
+import { ArchitectureGraph, ArchitectureNode, formatMonthlyCost } from '../core/architecture-graph.js';
+
+// Fill colours per service category, close to the Azure portal palette
+const CATEGORY_STYLES: Record<string, string> = {
+  compute: 'fill:#e6f2fb,stroke:#0078d4',
+  data: 'fill:#e8f4ea,stroke:#107c10',
+  storage: 'fill:#e8f4ea,stroke:#107c10',
+  networking: 'fill:#f3eefa,stroke:#5c2d91',
+  security: 'fill:#fdecea,stroke:#a4262c',
+  identity: 'fill:#fdecea,stroke:#a4262c',
+  integration: 'fill:#fff4e5,stroke:#ca5010',
+  ai: 'fill:#e5f6f6,stroke:#008575',
+  monitoring: 'fill:#f2f2f2,stroke:#605e5c',
+  external: 'fill:#ffffff,stroke:#605e5c,stroke-dasharray:4 2',
+  'on-premises': 'fill:#faf9f8,stroke:#323130'
+};
+
+export interface MermaidOptions {
+  direction?: 'TD' | 'LR';
+  // Include SKU and monthly cost in node labels
+  details?: boolean;
+}
+
+/**
+ * Render the graph as a Mermaid flowchart. Each node is drawn inside its
+ * first group; nodes without a group sit at the top level.
+ */
+export function generateMermaidFlowchart(graph: ArchitectureGraph, options: MermaidOptions = {}): string {
+  const details = options.details ?? true;
+  const lines = [`flowchart ${options.direction || 'TD'}`];
+
+  const renderNode = (node: ArchitectureNode, indent: string) =>
+    lines.push(`${indent}${mermaidId(node.id)}${shape(node, nodeLabel(node, details))}`);
+
+  const renderGroup = (parent: string | undefined, indent: string, seen: Set<string>) => {
+    for (const group of graph.groups.filter(g => g.parent === parent && !seen.has(g.id))) {
+      seen.add(group.id);
+      lines.push(`${indent}subgraph ${mermaidId(`group_${group.id}`)}["${escapeLabel(group.name)}"]`);
+      renderGroup(group.id, indent + '    ', seen);
+      graph.nodes.filter(node => node.groups[0] === group.id).forEach(node => renderNode(node, indent + '    '));
+      lines.push(`${indent}end`);
+    }
+  };
+  renderGroup(undefined, '    ', new Set());
+
+  graph.nodes.filter(node => node.groups.length === 0).forEach(node => renderNode(node, '    '));
+
+  for (const flow of graph.flows) {
+    const arrow = flow.direction === 'bidirectional' ? '<-->' : '-->';
+    lines.push(`    ${mermaidId(flow.from)} ${arrow}${flow.protocol ? `|"${escapeLabel(flow.protocol)}"|` : ''} ${mermaidId(flow.to)}`);
+  }
+
+  const categories = [...new Set(graph.nodes.map(node => node.category))].filter(category => CATEGORY_STYLES[category]);
+  for (const category of categories) {
+    const ids = graph.nodes.filter(node => node.category === category).map(node => mermaidId(node.id));
+    lines.push(`    classDef ${mermaidId(category)} ${CATEGORY_STYLES[category]}`);
+    lines.push(`    class ${ids.join(',')} ${mermaidId(category)}`);
+  }
+
+  return lines.join('\n');
+}
+
+function nodeLabel(node: ArchitectureNode, details: boolean): string {
+  const parts = [escapeLabel(node.name)];
+  if (details) {
+    if (node.sku && !/^n\/?a$/i.test(node.sku)) parts.push(escapeLabel(node.sku));
+    if (node.monthlyCost !== undefined) parts.push(`${formatMonthlyCost(node.monthlyCost)}/mo`);
+  }
+  return parts.join('<br/>');
+}
+
+function shape(node: ArchitectureNode, label: string): string {
+  if (node.category === 'external') return `(["${label}"])`;
+  if (node.category === 'data' || node.category === 'storage') return `[("${label}")]`;
+  return `["${label}"]`;
+}
+
+/**
+ * Mermaid ids may not contain dashes or start with a keyword like "end"
+ */
+function mermaidId(id: string): string {
+  const sanitized = id.replace(/[^a-zA-Z0-9_]/g, '_');
+  return /^(end|graph|subgraph|class|classDef|style|click|flowchart)$/i.test(sanitized) || /^\d/.test(sanitized)
+    ? `n_${sanitized}`
+    : sanitized;
+}
+
+function escapeLabel(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/[\r\n]+/g, ' ');
+}
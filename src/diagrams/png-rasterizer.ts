@@ -0,0 +1,54 @@
+/**
+ * PNG Rasterizer
+ * Converts the rendered SVG to PNG with the first headless rasterizer found on
+ * PATH (rsvg-convert, resvg, Inkscape or ImageMagick). Nothing is downloaded;
+ * without a rasterizer the SVG is the only output.
+ */
+
+import { execFile } from 'child_process';
+
+const RASTERIZE_TIMEOUT_MS = 60000;
+
+interface Rasterizer {
+  command: string;
+  args: (svgPath: string, pngPath: string) => string[];
+}
+
+const RASTERIZERS: Rasterizer[] = [
+  { command: 'rsvg-convert', args: (svg, png) => ['--zoom', '2', '--background-color', 'white', '--output', png, svg] },
+  { command: 'resvg', args: (svg, png) => ['--zoom', '2', '--background', 'white', svg, png] },
+  { command: 'inkscape', args: (svg, png) => [svg, '--export-type=png', `--export-filename=${png}`, '--export-dpi=192'] },
+  { command: 'magick', args: (svg, png) => ['-density', '192', svg, png] },
+  { command: 'convert', args: (svg, png) => ['-density', '192', svg, png] }
+];
+
+/**
+ * Rasterize `svgPath` to `pngPath`. Returns the tool that produced the PNG, or
+ * undefined when no rasterizer is installed.
+ */
+export async function rasterizeSvg(svgPath: string, pngPath: string): Promise<string | undefined> {
+  for (const rasterizer of RASTERIZERS) {
+    try {
+      await run(rasterizer.command, rasterizer.args(svgPath, pngPath));
+      return rasterizer.command;
+    } catch (error) {
+      // Not installed - try the next one; a tool that exists but fails is reported
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+      throw new Error(`${rasterizer.command} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return undefined;
+}
+
+function run(command: string, args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: RASTERIZE_TIMEOUT_MS }, (error, _stdout, stderr) => {
+      if (error) {
+        if (stderr && (error as NodeJS.ErrnoException).code !== 'ENOENT') error.message = `${error.message.trim()}: ${stderr.trim()}`;
+        reject(error);
+      } else {
+        resolve();
+      }
+    });
+  });
+}
@@ -0,0 +1,213 @@
+/**
+ * Structurizr DSL Generator
+ * Deterministic C4 model of the architecture graph: users and external /
+ * on-premises systems around one software system whose containers are the
+ * Azure services, plus a deployment environment laid out by region and group.
+ * Emits system context, container and deployment views.
+ */
+
+import { ArchitectureGraph, ArchitectureNode, azureNodes, groupAncestors, isPersonNode } from '../core/architecture-graph.js';
+
+export const DEPLOYMENT_ENVIRONMENT = 'Production';
+
+// Words the DSL parser treats as keywords - never used as element identifiers
+const RESERVED_IDENTIFIERS = new Set([
+  'workspace', 'model', 'views', 'styles', 'element', 'relationship', 'person', 'softwaresystem', 'container',
+  'component', 'deploymentenvironment', 'deploymentnode', 'infrastructurenode', 'containerinstance',
+  'softwaresysteminstance', 'group', 'enterprise', 'this', 'include', 'exclude', 'autolayout', 'theme', 'themes'
+]);
+
+/**
+ * Render the graph as a Structurizr DSL workspace
+ */
+export function generateStructurizrDsl(graph: ArchitectureGraph): string {
+  const ids = new IdentifierTable();
+  const systemId = ids.assign('solution', '__system__');
+  const azure = azureNodes(graph);
+  const outside = graph.nodes.filter(node => !azure.includes(node));
+  const lines: string[] = [];
+  const out = (depth: number, text: string) => lines.push(`${'    '.repeat(depth)}${text}`);
+
+  out(0, `workspace ${quote(graph.name)} ${quote(graph.summary)} {`);
+  out(1, 'model {');
+
+  for (const node of outside) {
+    const id = ids.assign(node.id, node.id);
+    if (isPersonNode(node)) {
+      out(2, `${id} = person ${quote(node.name)} ${quote(node.purpose)}`);
+    } else {
+      const tags = node.category === 'on-premises' ? 'External,On-Premises' : 'External';
+      out(2, `${id} = softwareSystem ${quote(node.name)} ${quote(node.purpose)} ${quote(tags)}`);
+    }
+  }
+
+  out(2, `${systemId} = softwareSystem ${quote(graph.name)} ${quote(graph.summary)} {`);
+  for (const node of azure) {
+    const id = ids.assign(node.id, node.id);
+    out(3, `${id} = container ${quote(node.name)} ${quote(node.purpose)} ${quote(technology(node))} ${quote(containerTags(node))}`);
+  }
+  out(2, '}');
+
+  // Structurizr rejects two relationships with the same description between the same elements
+  const relationships = new Set<string>();
+  const relate = (from: string, to: string, description: string, protocol?: string) => {
+    const key = `${from}|${to}|${description}`;
+    if (from === to || relationships.has(key)) return;
+    relationships.add(key);
+    out(2, `${from} -> ${to} ${quote(description)}${protocol ? ` ${quote(protocol)}` : ''}`);
+  };
+  for (const flow of graph.flows) {
+    const from = ids.get(flow.from);
+    const to = ids.get(flow.to);
+    if (!from || !to) continue;
+    relate(from, to, flow.description || 'Uses', flow.protocol);
+    if (flow.direction === 'bidirectional') relate(to, from, flow.description || 'Uses', flow.protocol);
+  }
+
+  renderDeployment(graph, ids, azure, outside, out);
+
+  out(1, '}');
+  out(1, 'views {');
+  out(2, `systemContext ${systemId} "SystemContext" {`);
+  out(3, 'include *');
+  out(3, 'autoLayout lr');
+  out(2, '}');
+  out(2, `container ${systemId} "Containers" {`);
+  out(3, 'include *');
+  out(3, 'autoLayout lr');
+  out(2, '}');
+  out(2, `deployment ${systemId} ${quote(DEPLOYMENT_ENVIRONMENT)} "Deployment" {`);
+  out(3, 'include *');
+  out(3, 'autoLayout lr');
+  out(2, '}');
+  out(2, 'styles {');
+  out(3, 'element "Person" {');
+  out(4, 'shape Person');
+  out(4, 'background #08427b');
+  out(4, 'color #ffffff');
+  out(3, '}');
+  out(3, 'element "Container" {');
+  out(4, 'background #0078d4');
+  out(4, 'color #ffffff');
+  out(3, '}');
+  out(3, 'element "Database" {');
+  out(4, 'shape Cylinder');
+  out(3, '}');
+  out(3, 'element "External" {');
+  out(4, 'background #999999');
+  out(4, 'color #ffffff');
+  out(3, '}');
+  out(2, '}');
+  out(1, '}');
+  out(0, '}');
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Azure nodes are placed under region > group chain (outermost first); on-premises
+ * and external systems get their own deployment nodes
+ */
+function renderDeployment(
+  graph: ArchitectureGraph,
+  ids: IdentifierTable,
+  azure: ArchitectureNode[],
+  outside: ArchitectureNode[],
+  out: (depth: number, text: string) => void
+): void {
+  interface DeploymentTree { name: string; technology: string; children: Map<string, DeploymentTree>; instances: string[] }
+  const tree = (name: string, technology: string): DeploymentTree => ({ name, technology, children: new Map(), instances: [] });
+  const root = tree('', '');
+
+  const place = (path: { key: string; name: string; technology: string }[], instance: string) => {
+    let current = root;
+    for (const step of path) {
+      if (!current.children.has(step.key)) current.children.set(step.key, tree(step.name, step.technology));
+      current = current.children.get(step.key)!;
+    }
+    current.instances.push(instance);
+  };
+
+  const groupPath = (groupId?: string) => {
+    if (!groupId) return [];
+    return [...groupAncestors(graph, groupId).reverse(), groupId]
+      .map(id => graph.groups.find(group => group.id === id)!)
+      .filter(Boolean)
+      .map(group => ({ key: `group:${group.id}`, name: group.name, technology: GROUP_TECHNOLOGY[group.kind] || group.kind }));
+  };
+
+  for (const node of azure) {
+    const region = node.region && !/^n\/?a$/i.test(node.region) ? node.region : 'Azure';
+    const groups = groupPath(node.groups[0]).filter(step => step.name !== region);
+    place([{ key: `region:${region}`, name: region, technology: 'Azure Region' }, ...groups], `containerInstance ${ids.get(node.id)}`);
+  }
+
+  for (const node of outside.filter(node => !isPersonNode(node))) {
+    const groups = groupPath(node.groups[0]);
+    const path = groups.length > 0 ? groups : [{ key: 'external', name: 'External', technology: 'Internet' }];
+    place(path, `softwareSystemInstance ${ids.get(node.id)}`);
+  }
+
+  if (root.children.size === 0) return;
+
+  out(2, `deploymentEnvironment ${quote(DEPLOYMENT_ENVIRONMENT)} {`);
+  const render = (node: DeploymentTree, depth: number) => {
+    for (const child of node.children.values()) {
+      out(depth, `deploymentNode ${quote(child.name)} "" ${quote(child.technology)} {`);
+      render(child, depth + 1);
+      child.instances.forEach(instance => out(depth + 1, instance));
+      out(depth, '}');
+    }
+  };
+  render(root, 3);
+  out(2, '}');
+}
+
+const GROUP_TECHNOLOGY: Record<string, string> = {
+  'trust-boundary': 'Trust Boundary',
+  vnet: 'Azure Virtual Network',
+  subnet: 'Subnet',
+  subscription: 'Azure Subscription',
+  'resource-group': 'Resource Group',
+  region: 'Azure Region',
+  'on-premises': 'On-premises Data Center'
+};
+
+/**
+ * Maps graph ids to unique DSL identifiers ([a-zA-Z0-9_], not a keyword)
+ */
+class IdentifierTable {
+  private byKey = new Map<string, string>();
+  private taken = new Set<string>();
+
+  assign(base: string, key: string): string {
+    let id = base.replace(/[^a-zA-Z0-9_]/g, '_').replace(/^(\d)/, 'n_$1') || 'element';
+    if (RESERVED_IDENTIFIERS.has(id.toLowerCase())) id = `${id}_element`;
+    const stem = id;
+    for (let suffix = 2; this.taken.has(id.toLowerCase()); suffix++) id = `${stem}_${suffix}`;
+    this.taken.add(id.toLowerCase());
+    this.byKey.set(key, id);
+    return id;
+  }
+
+  get(key: string): string | undefined {
+    return this.byKey.get(key);
+  }
+}
+
+function technology(node: ArchitectureNode): string {
+  return [node.name, node.sku && !/^n\/?a$/i.test(node.sku) ? node.sku : undefined].filter(Boolean).join(' - ');
+}
+
+function containerTags(node: ArchitectureNode): string {
+  const tags = ['Azure', node.category];
+  if (node.category === 'data' || node.category === 'storage') tags.push('Database');
+  return tags.join(',');
+}
+
+/**
+ * DSL string literal; the parser has no escape for embedded quotes
+ */
+function quote(text: string | undefined): string {
+  return `"${(text || '').replace(/"/g, "'").replace(/[\r\n]+/g, ' ').trim()}"`;
+}
@@ -0,0 +1,327 @@
+/**
+ * Structurizr DSL Validator
+ * Offline syntax and reference check for the subset of the Structurizr DSL the
+ * generator emits: block structure, string literals, keywords per block,
+ * identifier definitions and the elements that relationships, deployment
+ * instances and views refer to
+ */
+
+import { ValidationResult } from '../utils/schema-validator.js';
+
+type ElementType = 'person' | 'softwareSystem' | 'container' | 'component' | 'deploymentEnvironment' | 'deploymentNode' | 'infrastructureNode' | 'containerInstance' | 'softwareSystemInstance' | 'group';
+
+type BlockKind = 'root' | 'workspace' | 'model' | 'views' | 'styles' | 'style' | 'view' | 'opaque' | ElementType;
+
+interface Statement {
+  line: number;
+  tokens: string[];
+  opensBlock: boolean;
+  closesBlock: boolean;
+}
+
+interface DefinedElement {
+  type: ElementType;
+  line: number;
+}
+
+// Statements allowed directly inside each block kind; identifiers and relationships are handled separately
+const ALLOWED_KEYWORDS: Partial<Record<BlockKind, string[]>> = {
+  root: ['workspace'],
+  workspace: ['name', 'description', 'model', 'views', 'configuration', '!identifiers', '!docs', '!adrs', 'properties'],
+  model: ['person', 'softwaresystem', 'deploymentenvironment', 'group', 'enterprise', 'properties', '!identifiers'],
+  softwareSystem: ['container', 'group', 'description', 'tags', 'url', 'properties', 'perspectives'],
+  container: ['component', 'group', 'description', 'technology', 'tags', 'url', 'properties', 'perspectives'],
+  component: ['description', 'technology', 'tags', 'url', 'properties', 'perspectives'],
+  person: ['description', 'tags', 'url', 'properties', 'perspectives'],
+  deploymentEnvironment: ['deploymentnode', 'group'],
+  deploymentNode: ['deploymentnode', 'infrastructurenode', 'containerinstance', 'softwaresysteminstance', 'group', 'description', 'technology', 'tags', 'instances', 'url', 'properties', 'perspectives'],
+  views: ['systemlandscape', 'systemcontext', 'container', 'component', 'deployment', 'dynamic', 'filtered', 'custom', 'image', 'styles', 'theme', 'themes', 'branding', 'terminology', 'properties'],
+  view: ['include', 'exclude', 'autolayout', 'title', 'description', 'default', 'animation', 'properties'],
+  styles: ['element', 'relationship'],
+  style: ['shape', 'icon', 'width', 'height', 'background', 'color', 'colour', 'stroke', 'strokewidth', 'fontsize', 'border', 'opacity', 'metadata', 'description', 'thickness', 'style', 'routing', 'position', 'properties']
+};
+
+const ELEMENT_KEYWORDS: Record<string, ElementType> = {
+  person: 'person',
+  softwaresystem: 'softwareSystem',
+  container: 'container',
+  component: 'component',
+  deploymentenvironment: 'deploymentEnvironment',
+  deploymentnode: 'deploymentNode',
+  infrastructurenode: 'infrastructureNode',
+  containerinstance: 'containerInstance',
+  softwaresysteminstance: 'softwareSystemInstance',
+  group: 'group'
+};
+
+// Element keywords and the block they must appear in
+const PARENT_OF: Partial<Record<ElementType, BlockKind[]>> = {
+  person: ['model', 'group'],
+  softwareSystem: ['model', 'group'],
+  container: ['softwareSystem', 'group'],
+  component: ['container', 'group'],
+  deploymentEnvironment: ['model'],
+  deploymentNode: ['deploymentEnvironment', 'deploymentNode', 'group'],
+  infrastructureNode: ['deploymentNode'],
+  containerInstance: ['deploymentNode'],
+  softwareSystemInstance: ['deploymentNode']
+};
+
+const IDENTIFIER = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Validate a DSL document. Errors carry the line number they were found on.
+ */
+export function validateStructurizrDsl(dsl: string): ValidationResult {
+  const errors: string[] = [];
+  const statements = parseStatements(dsl, errors);
+
+  const elements = new Map<string, DefinedElement>();
+  const environments = new Set<string>();
+  const stack: BlockKind[] = ['root'];
+  let sawWorkspace = false;
+
+  const resolve = (identifier: string, line: number, expected?: ElementType[]): DefinedElement | undefined => {
+    const element = elements.get(identifier.toLowerCase());
+    if (!element) {
+      errors.push(`line ${line}: "${identifier}" is not defined`);
+    } else if (expected && !expected.includes(element.type)) {
+      errors.push(`line ${line}: "${identifier}" is a ${element.type}, expected ${expected.join(' or ')}`);
+    }
+    return element;
+  };
+
+  for (const statement of statements) {
+    const { line, tokens } = statement;
+    const block = stack[stack.length - 1];
+
+    if (statement.closesBlock && tokens.length === 0) {
+      if (stack.length === 1) errors.push(`line ${line}: unexpected "}"`);
+      else stack.pop();
+      continue;
+    }
+    if (tokens.length === 0) continue;
+
+    // Children of views, styles and elements we do not model are accepted as-is
+    if (block === 'opaque') {
+      if (statement.opensBlock) stack.push('opaque');
+      continue;
+    }
+
+    let rest = tokens;
+    let assigned: string | undefined;
+    if (tokens[1] === '=') {
+      assigned = tokens[0];
+      rest = tokens.slice(2);
+      if (!IDENTIFIER.test(assigned)) errors.push(`line ${line}: invalid identifier "${assigned}"`);
+      if (rest.length === 0) errors.push(`line ${line}: nothing assigned to "${assigned}"`);
+    }
+
+    // Relationship: [id =] source -> destination [description] [technology] [tags]
+    const arrow = rest.indexOf('->');
+    if (arrow >= 0) {
+      if (!['model', 'softwareSystem', 'container', 'component', 'person', 'group', 'deploymentNode', 'deploymentEnvironment'].includes(block)) {
+        errors.push(`line ${line}: relationship not allowed inside ${block}`);
+      }
+      if (arrow !== 1 || rest.length < 3) {
+        errors.push(`line ${line}: relationships take the form <source> -> <destination> ["description"] ["technology"]`);
+      } else {
+        resolve(rest[0], line);
+        resolve(rest[2], line);
+      }
+      if (rest.length > 6) errors.push(`line ${line}: too many relationship properties`);
+      if (statement.opensBlock) stack.push('opaque');
+      continue;
+    }
+
+    const keyword = rest[0]?.toLowerCase();
+    const allowed = ALLOWED_KEYWORDS[block];
+    if (allowed && keyword && !allowed.includes(keyword)) {
+      errors.push(`line ${line}: unexpected "${rest[0]}" inside ${block}`);
+      if (statement.opensBlock) stack.push('opaque');
+      continue;
+    }
+
+    if (block === 'root' && keyword === 'workspace') sawWorkspace = true;
+
+    const elementType = ELEMENT_KEYWORDS[keyword] && !['views', 'view'].includes(block) ? ELEMENT_KEYWORDS[keyword] : undefined;
+    let opened: BlockKind = 'opaque';
+
+    if (elementType) {
+      const parents = PARENT_OF[elementType];
+      if (parents && !parents.includes(block)) {
+        errors.push(`line ${line}: ${elementType} must be defined inside ${parents.join(' or ')}`);
+      }
+
+      if (elementType === 'containerInstance' || elementType === 'softwareSystemInstance') {
+        if (!rest[1]) errors.push(`line ${line}: ${elementType} needs the identifier of the ${elementType === 'containerInstance' ? 'container' : 'software system'}`);
+        else resolve(rest[1], line, [elementType === 'containerInstance' ? 'container' : 'softwareSystem']);
+      } else if (elementType === 'deploymentEnvironment') {
+        if (!rest[1]) errors.push(`line ${line}: deploymentEnvironment needs a name`);
+        else environments.add(unquote(rest[1]));
+      } else if (!rest[1] || !isString(rest[1])) {
+        errors.push(`line ${line}: ${elementType} needs a quoted name`);
+      }
+
+      if (assigned) {
+        const existing = elements.get(assigned.toLowerCase());
+        if (existing) errors.push(`line ${line}: identifier "${assigned}" already defined on line ${existing.line}`);
+        else elements.set(assigned.toLowerCase(), { type: elementType, line });
+      }
+      opened = elementType;
+    } else if (assigned) {
+      errors.push(`line ${line}: only elements and relationships can be assigned to an identifier`);
+    } else {
+      switch (block) {
+        case 'root':
+          opened = 'workspace';
+          break;
+        case 'workspace':
+          opened = keyword === 'model' ? 'model' : keyword === 'views' ? 'views' : 'opaque';
+          break;
+        case 'views':
+          opened = keyword === 'styles' ? 'styles' : validateView(rest, line, resolve, environments, errors);
+          break;
+        case 'styles':
+          opened = 'style';
+          if (!rest[1] || !isString(rest[1])) errors.push(`line ${line}: ${keyword} style needs a quoted tag`);
+          break;
+      }
+    }
+
+    if (statement.opensBlock) stack.push(opened);
+  }
+
+  if (stack.length > 1) errors.push(`line ${statements[statements.length - 1]?.line ?? 1}: ${stack.length - 1} unclosed block(s)`);
+  if (!sawWorkspace) errors.push('line 1: document must start with a workspace block');
+
+  return { valid: errors.length === 0, errors };
+}
+
+function validateView(
+  tokens: string[],
+  line: number,
+  resolve: (identifier: string, line: number, expected?: ElementType[]) => DefinedElement | undefined,
+  environments: Set<string>,
+  errors: string[]
+): BlockKind {
+  const keyword = tokens[0].toLowerCase();
+  switch (keyword) {
+    case 'systemcontext':
+    case 'container':
+      if (!tokens[1] || isString(tokens[1])) errors.push(`line ${line}: ${tokens[0]} view needs a software system identifier`);
+      else resolve(tokens[1], line, ['softwareSystem']);
+      return 'view';
+    case 'component':
+      if (!tokens[1] || isString(tokens[1])) errors.push(`line ${line}: component view needs a container identifier`);
+      else resolve(tokens[1], line, ['container']);
+      return 'view';
+    case 'deployment':
+      if (!tokens[1]) {
+        errors.push(`line ${line}: deployment view needs a scope (* or a software system identifier)`);
+      } else if (tokens[1] !== '*') {
+        resolve(tokens[1], line, ['softwareSystem']);
+      }
+      if (!tokens[2] || !environments.has(unquote(tokens[2]))) {
+        errors.push(`line ${line}: deployment view refers to unknown environment ${tokens[2] ?? '(none)'}`);
+      }
+      return 'view';
+    case 'systemlandscape':
+    case 'dynamic':
+    case 'filtered':
+    case 'custom':
+      return 'view';
+    default:
+      return 'opaque';
+  }
+}
+
+/**
+ * Split the document into statements (one per line) of tokens. Quoted strings
+ * stay one token, comments are dropped, "{" and "}" mark block boundaries.
+ */
+function parseStatements(dsl: string, errors: string[]): Statement[] {
+  const statements: Statement[] = [];
+  let inBlockComment = false;
+
+  dsl.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const tokens: string[] = [];
+    let opensBlock = false;
+    let closesBlock = false;
+    let i = 0;
+
+    while (i < raw.length) {
+      if (inBlockComment) {
+        const end = raw.indexOf('*/', i);
+        if (end < 0) { i = raw.length; break; }
+        inBlockComment = false;
+        i = end + 2;
+        continue;
+      }
+
+      const char = raw[i];
+      if (/\s/.test(char)) { i++; continue; }
+      if (raw.startsWith('/*', i)) { inBlockComment = true; i += 2; continue; }
+      if (raw.startsWith('//', i) || (char === '#' && tokens.length === 0)) break;
+
+      if (char === '"') {
+        const end = raw.indexOf('"', i + 1);
+        if (end < 0) {
+          errors.push(`line ${line}: unterminated string`);
+          tokens.push(raw.slice(i) + '"');
+          i = raw.length;
+        } else {
+          tokens.push(raw.slice(i, end + 1));
+          i = end + 1;
+        }
+        continue;
+      }
+
+      if (char === '{') {
+        if (raw.slice(i + 1).trim() !== '') errors.push(`line ${line}: "{" must end the line`);
+        opensBlock = true;
+        i = raw.length;
+        continue;
+      }
+      if (char === '}') {
+        if (tokens.length > 0 || raw.slice(i + 1).trim() !== '') errors.push(`line ${line}: "}" must be on its own line`);
+        closesBlock = true;
+        i++;
+        continue;
+      }
+      if (char === '=' ) {
+        tokens.push('=');
+        i++;
+        continue;
+      }
+      if (raw.startsWith('->', i)) {
+        tokens.push('->');
+        i += 2;
+        continue;
+      }
+
+      const match = raw.slice(i).match(/^[^\s"{}=]+/)!;
+      // "a->b" without spaces
+      const word = match[0].split('->')[0];
+      tokens.push(word);
+      i += word.length;
+    }
+
+    if (tokens.length > 0 || opensBlock || closesBlock) {
+      if (opensBlock && tokens.length === 0) errors.push(`line ${line}: "{" without a statement`);
+      statements.push({ line, tokens, opensBlock, closesBlock });
+    }
+  });
+
+  if (inBlockComment) errors.push('unterminated block comment');
+  return statements;
+}
+
+function isString(token: string): boolean {
+  return token.startsWith('"');
+}
+
+function unquote(token: string): string {
+  return isString(token) ? token.slice(1, -1) : token;
+}
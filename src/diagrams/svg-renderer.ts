@@ -0,0 +1,134 @@
+/**
+ * SVG Renderer
+ * Offline, deterministic SVG picture of the architecture graph. Services are
+ * drawn as icon cards inside nested boundary containers (on-premises sites,
+ * Azure, VNets, subnets, trust boundaries); flows are arrows labelled with
+ * their protocol. Layout comes from diagram-layout.ts.
+ */
+
+import { ArchitectureGraph, ArchitectureNode, azureNodes, formatMonthlyCost } from '../core/architecture-graph.js';
+import { AZURE_ICONS, iconFor } from './azure-icons.js';
+import { CONTAINER_STYLES, LayoutItem, MARGIN, Placed, Rect, layoutArchitectureGraph } from './diagram-layout.js';
+
+const ICON_SIZE = 40;
+const FONT = "'Segoe UI', 'Helvetica Neue', Arial, sans-serif";
+
+/**
+ * Render the architecture graph as a standalone SVG document
+ */
+export function renderArchitectureSvg(graph: ArchitectureGraph): string {
+  const { width, height, placed, nodeBoxes } = layoutArchitectureGraph(graph);
+
+  const icons = new Set(graph.nodes.map(iconFor));
+  const parts: string[] = [];
+  parts.push(`<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT}">`);
+  parts.push(`<title>${escapeXml(graph.name)}</title>`);
+  parts.push('<defs>');
+  for (const icon of [...icons].sort()) {
+    parts.push(`<symbol id="icon-${icon}" viewBox="0 0 48 48">${AZURE_ICONS[icon] || AZURE_ICONS.generic}</symbol>`);
+  }
+  parts.push('<marker id="arrow-end" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto"><path d="M0 0L10 5L0 10z" fill="#323130"/></marker>');
+  parts.push('<marker id="arrow-start" viewBox="0 0 10 10" refX="1" refY="5" markerWidth="8" markerHeight="8" orient="auto"><path d="M10 0L0 5L10 10z" fill="#323130"/></marker>');
+  parts.push('</defs>');
+  parts.push(`<rect width="${width}" height="${height}" fill="#ffffff"/>`);
+
+  const services = azureNodes(graph).length;
+  const subtitle = `${services} Azure service${services === 1 ? '' : 's'}${graph.regions.length > 0 ? ` · ${graph.regions.join(', ')}` : ''}${graph.totalMonthlyCost > 0 ? ` · ${formatMonthlyCost(graph.totalMonthlyCost)}/month` : ''}`;
+  parts.push(`<text x="${MARGIN}" y="${MARGIN + 14}" font-size="20" font-weight="600" fill="#201f1e">${escapeXml(graph.name)}</text>`);
+  parts.push(`<text x="${MARGIN}" y="${MARGIN + 36}" font-size="12" fill="#605e5c">${escapeXml(subtitle)}</text>`);
+
+  // Containers first (outermost before inner), then flows, then service cards on top
+  for (const entry of placed.filter(p => p.item.type === 'container')) {
+    parts.push(renderContainer(entry));
+  }
+  for (const flow of graph.flows) {
+    const from = nodeBoxes.get(flow.from);
+    const to = nodeBoxes.get(flow.to);
+    if (from && to && from !== to) parts.push(renderFlow(from, to, flow.protocol, flow.direction === 'bidirectional'));
+  }
+  for (const entry of placed.filter(p => p.item.type === 'node')) {
+    parts.push(renderNode(entry, (entry.item as { node: ArchitectureNode }).node));
+  }
+
+  parts.push('</svg>');
+  return parts.join('\n') + '\n';
+}
+
+function renderContainer(entry: Placed): string {
+  const item = entry.item as Extract<LayoutItem, { type: 'container' }>;
+  const style = CONTAINER_STYLES[item.kind] || CONTAINER_STYLES['trust-boundary'];
+  return [
+    `<g class="boundary boundary-${item.kind}">`,
+    `<rect x="${entry.x}" y="${entry.y}" width="${entry.width}" height="${entry.height}" rx="6" fill="${style.fill}" stroke="${style.stroke}" stroke-width="1.5"${style.dash ? ` stroke-dasharray="${style.dash}"` : ''}/>`,
+    `<text x="${entry.x + 12}" y="${entry.y + 19}" font-size="13" font-weight="600" fill="${style.label}">${escapeXml(item.name)}</text>`,
+    '</g>'
+  ].join('');
+}
+
+function renderNode(box: Rect, node: ArchitectureNode): string {
+  const centerX = box.x + box.width / 2;
+  const lines = [`<text x="${centerX}" y="${box.y + ICON_SIZE + 26}" font-size="12" font-weight="600" fill="#201f1e" text-anchor="middle">${escapeXml(truncate(node.name, 24))}</text>`];
+  const sku = node.sku && !/^n\/?a$/i.test(node.sku) ? node.sku : '';
+  if (sku) lines.push(`<text x="${centerX}" y="${box.y + ICON_SIZE + 41}" font-size="10" fill="#605e5c" text-anchor="middle">${escapeXml(truncate(sku, 28))}</text>`);
+  if (node.monthlyCost !== undefined) {
+    lines.push(`<text x="${centerX}" y="${box.y + ICON_SIZE + (sku ? 55 : 41)}" font-size="10" fill="#107c10" text-anchor="middle">${formatMonthlyCost(node.monthlyCost)}/mo</text>`);
+  }
+  return [
+    `<g class="service" id="node-${escapeXml(node.id)}">`,
+    `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="6" fill="#ffffff" stroke="#c8c6c4"/>`,
+    `<use xlink:href="#icon-${iconFor(node)}" x="${centerX - ICON_SIZE / 2}" y="${box.y + 10}" width="${ICON_SIZE}" height="${ICON_SIZE}"/>`,
+    ...lines,
+    '</g>'
+  ].join('');
+}
+
+function renderFlow(from: Rect, to: Rect, protocol: string | undefined, bidirectional: boolean): string {
+  const start = borderPoint(from, center(to));
+  const end = borderPoint(to, center(from));
+  const parts = [
+    `<line x1="${round(start.x)}" y1="${round(start.y)}" x2="${round(end.x)}" y2="${round(end.y)}" stroke="#323130" stroke-width="1.4" marker-end="url(#arrow-end)"${bidirectional ? ' marker-start="url(#arrow-start)"' : ''}/>`
+  ];
+  if (protocol) {
+    const midX = (start.x + end.x) / 2;
+    const midY = (start.y + end.y) / 2;
+    const labelWidth = protocol.length * 6.5 + 10;
+    parts.push(`<rect x="${round(midX - labelWidth / 2)}" y="${round(midY - 9)}" width="${round(labelWidth)}" height="16" rx="3" fill="#ffffff" stroke="#c8c6c4"/>`);
+    parts.push(`<text x="${round(midX)}" y="${round(midY + 3)}" font-size="10" fill="#323130" text-anchor="middle">${escapeXml(protocol)}</text>`);
+  }
+  return `<g class="flow">${parts.join('')}</g>`;
+}
+
+function center(box: Rect): { x: number; y: number } {
+  return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+/**
+ * Point where the line from the box centre towards `target` leaves the box
+ */
+function borderPoint(box: Rect, target: { x: number; y: number }): { x: number; y: number } {
+  const c = center(box);
+  const dx = target.x - c.x;
+  const dy = target.y - c.y;
+  if (dx === 0 && dy === 0) return c;
+  const scale = Math.min(
+    dx !== 0 ? (box.width / 2) / Math.abs(dx) : Infinity,
+    dy !== 0 ? (box.height / 2) / Math.abs(dy) : Infinity
+  );
+  return { x: c.x + dx * scale, y: c.y + dy * scale };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
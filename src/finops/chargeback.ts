@@ -0,0 +1,107 @@
+/**
+ * Chargeback
+ * Splits the monthly cost of every service across the business units of the
+ * FinOps model: workload services by usage share, shared platform services by
+ * the model's allocation rule (usage share, evenly, or to the platform cost
+ * center). Costs come from the calculated estimate when there is one, else from
+ * the costs the architecture and cost analysis attached to the graph.
+ */
+
+import { ArchitectureGraph, azureNodes } from '../core/architecture-graph.js';
+import { CostEstimate } from '../cost/cost-calculator.js';
+import { CostCurrency } from '../cost/pricing-catalog.js';
+import { FinopsModel } from './finops-model.js';
+
+export interface ChargebackUnit {
+  name: string;
+  costCenter: string;
+  // Share of the workload services charged to the unit
+  usageShare: number;
+  // Monthly cost of workload services
+  direct: number;
+  // Monthly cost of shared platform services
+  shared: number;
+  total: number;
+}
+
+export interface ServiceChargeback {
+  nodeId: string;
+  service: string;
+  shared: boolean;
+  monthly: number;
+  // Monthly cost per cost center
+  allocations: Record<string, number>;
+}
+
+export interface ChargebackAllocation {
+  currency: CostCurrency;
+  // "calculated": the offline cost estimate; "architecture": costs stated by the analysis
+  source: 'calculated' | 'architecture';
+  units: ChargebackUnit[];
+  services: ServiceChargeback[];
+  // Monthly total over all units
+  total: number;
+  // Services without a known cost
+  uncosted: string[];
+}
+
+/**
+ * Allocate the monthly cost of the architecture's services to business units
+ */
+export function allocateChargeback(graph: ArchitectureGraph, model: FinopsModel, estimate?: CostEstimate): ChargebackAllocation {
+  const { businessUnits, sharedServices } = model;
+  const nodes = azureNodes(graph);
+  const costs = new Map<string, number>(estimate
+    ? estimate.lines.map(line => [line.nodeId, line.monthly.payg])
+    : nodes.filter(node => node.monthlyCost !== undefined).map(node => [node.id, node.monthlyCost!]));
+
+  const units: ChargebackUnit[] = businessUnits.map(unit => ({
+    name: unit.name, costCenter: unit.costCenter, usageShare: unit.usageShare, direct: 0, shared: 0, total: 0
+  }));
+  const platform: ChargebackUnit = {
+    name: sharedServices.platformName, costCenter: sharedServices.platformCostCenter, usageShare: 0, direct: 0, shared: 0, total: 0
+  };
+
+  const services: ServiceChargeback[] = [];
+  for (const node of nodes) {
+    const monthly = costs.get(node.id);
+    if (monthly === undefined) continue;
+    const shared = sharedServices.categories.includes(node.category);
+
+    // Shares per unit; the platform takes shared services outright under the "platform" rule
+    const split: [ChargebackUnit, number][] = !shared || sharedServices.allocation === 'proportional'
+      ? units.map(unit => [unit, unit.usageShare])
+      : sharedServices.allocation === 'even'
+        ? units.map(unit => [unit, 1 / units.length])
+        : [[platform, 1]];
+
+    const allocations: Record<string, number> = {};
+    for (const [unit, share] of split) {
+      const amount = monthly * share;
+      if (shared) unit.shared += amount;
+      else unit.direct += amount;
+      allocations[unit.costCenter] = round(amount);
+    }
+    services.push({ nodeId: node.id, service: node.name, shared, monthly: round(monthly), allocations });
+  }
+
+  const charged = [...units, ...(platform.shared > 0 ? [platform] : [])].map(unit => ({
+    ...unit,
+    direct: round(unit.direct),
+    shared: round(unit.shared),
+    total: round(unit.direct + unit.shared)
+  }));
+
+  return {
+    currency: estimate?.currency ?? graph.currency,
+    source: estimate ? 'calculated' : 'architecture',
+    units: charged,
+    services,
+    total: round(services.reduce((total, service) => total + service.monthly, 0)),
+    uncosted: nodes.filter(node => !costs.has(node.id)).map(node => node.name)
+  };
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
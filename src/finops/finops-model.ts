@@ -0,0 +1,296 @@
+/**
+ * FinOps Model
+ * Versioned organisation model (pricing/finops-model.json): the business units
+ * sharing the workload with their cost centers and usage shares, how shared
+ * platform services are allocated, the data classification scheme and the
+ * environments. The tagging taxonomy for the analysed architecture is derived
+ * from it, using the same tag names as the generated Bicep and Terraform.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { ArchitectureGraph, ArchitectureNode, azureNodes } from '../core/architecture-graph.js';
+import { ServiceCategory } from '../core/azure-service-catalog.js';
+import { SchemaDefinition, validateSchema, ValidationResult } from '../utils/schema-validator.js';
+
+export const DEFAULT_FINOPS_MODEL_FILE = 'pricing/finops-model.json';
+
+// How shared platform services are charged back: by usage share, evenly, or to the platform cost center
+export type SharedAllocation = 'proportional' | 'even' | 'platform';
+
+export type PolicyEffect = 'Audit' | 'Deny';
+
+export interface BusinessUnit {
+  name: string;
+  costCenter: string;
+  owner: string;
+  // Share of the workload's consumption; the shares add up to 1
+  usageShare: number;
+}
+
+export interface FinopsModel {
+  version: string;
+  description?: string;
+  environments: string[];
+  businessUnits: BusinessUnit[];
+  sharedServices: {
+    // Service categories run by the platform team for every business unit
+    categories: ServiceCategory[];
+    allocation: SharedAllocation;
+    platformName: string;
+    platformCostCenter: string;
+    platformOwner: string;
+  };
+  dataClassification: {
+    // Ordered from least to most sensitive
+    levels: string[];
+    default: string;
+    categories: { category: ServiceCategory; level: string }[];
+    // Level of the data-bearing services when the requirements name compliance obligations
+    regulatedLevel: string;
+  };
+  // Effect of the generated tag policies; start with Audit, move to Deny once resources comply
+  policyEffect: PolicyEffect;
+}
+
+export interface TagDefinition {
+  name: string;
+  required: boolean;
+  description: string;
+  allowedValues?: string[];
+  example: string;
+  // Copied from the resource group when a resource is created without it
+  inherit: boolean;
+}
+
+export interface ResourceTagging {
+  nodeId: string;
+  service: string;
+  // Shared platform service or workload service
+  shared: boolean;
+  tags: Record<string, string>;
+}
+
+export interface TaggingTaxonomy {
+  workload: string;
+  tags: TagDefinition[];
+  resources: ResourceTagging[];
+}
+
+export interface TaxonomyOptions {
+  // Requirements name compliance obligations (GDPR, HIPAA, ...): data-bearing services get the regulated level
+  regulated?: boolean;
+  // Environment the resource tags are proposed for; defaults to the last (production) environment
+  environment?: string;
+}
+
+const FINOPS_MODEL_SCHEMA: SchemaDefinition = {
+  type: 'object',
+  required: ['version', 'environments', 'businessUnits', 'sharedServices', 'dataClassification', 'policyEffect'],
+  properties: {
+    version: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    environments: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+    businessUnits: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['name', 'costCenter', 'owner', 'usageShare'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          costCenter: { type: 'string', minLength: 1 },
+          owner: { type: 'string', minLength: 1 },
+          usageShare: { type: 'number', minimum: 0 }
+        }
+      }
+    },
+    sharedServices: {
+      type: 'object',
+      required: ['categories', 'allocation', 'platformName', 'platformCostCenter', 'platformOwner'],
+      properties: {
+        categories: { type: 'array', items: { type: 'string', minLength: 1 } },
+        allocation: { type: 'string', enum: ['proportional', 'even', 'platform'] },
+        platformName: { type: 'string', minLength: 1 },
+        platformCostCenter: { type: 'string', minLength: 1 },
+        platformOwner: { type: 'string', minLength: 1 }
+      }
+    },
+    dataClassification: {
+      type: 'object',
+      required: ['levels', 'default', 'categories', 'regulatedLevel'],
+      properties: {
+        levels: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+        default: { type: 'string', minLength: 1 },
+        categories: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['category', 'level'],
+            properties: { category: { type: 'string', minLength: 1 }, level: { type: 'string', minLength: 1 } }
+          }
+        },
+        regulatedLevel: { type: 'string', minLength: 1 }
+      }
+    },
+    policyEffect: { type: 'string', enum: ['Audit', 'Deny'] }
+  }
+};
+
+const CATEGORIES: ServiceCategory[] = ['compute', 'data', 'networking', 'security', 'integration', 'ai', 'monitoring', 'identity', 'storage'];
+
+// Usage shares may be rounded in the model file
+const SHARE_TOLERANCE = 0.01;
+
+/**
+ * Load and validate a FinOps model (relative paths resolve from the working directory)
+ */
+export function loadFinopsModel(filePath: string = DEFAULT_FINOPS_MODEL_FILE): FinopsModel {
+  const resolved = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+  let model: FinopsModel;
+  try {
+    model = JSON.parse(readFileSync(resolved, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not load FinOps model ${resolved}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const validation = validateFinopsModel(model);
+  if (!validation.valid) {
+    throw new Error(`Invalid FinOps model ${resolved}:\n${validation.errors.map(e => `  - ${e}`).join('\n')}`);
+  }
+  return model;
+}
+
+/**
+ * Schema check plus usage shares adding up to 1, unique cost centers, known
+ * service categories and classification levels that exist
+ */
+export function validateFinopsModel(model: FinopsModel): ValidationResult {
+  const schema = validateSchema(model, FINOPS_MODEL_SCHEMA);
+  if (!schema.valid) return schema;
+
+  const errors: string[] = [];
+  const shares = model.businessUnits.reduce((total, unit) => total + unit.usageShare, 0);
+  if (Math.abs(shares - 1) > SHARE_TOLERANCE) {
+    errors.push(`$.businessUnits: usage shares add up to ${shares.toFixed(2)}, expected 1`);
+  }
+
+  const costCenters = new Set<string>();
+  [...model.businessUnits.map(unit => unit.costCenter), model.sharedServices.platformCostCenter].forEach((costCenter, index) => {
+    const at = index < model.businessUnits.length ? `$.businessUnits[${index}].costCenter` : '$.sharedServices.platformCostCenter';
+    if (costCenters.has(costCenter)) errors.push(`${at}: duplicate cost center "${costCenter}"`);
+    costCenters.add(costCenter);
+  });
+
+  model.sharedServices.categories.forEach((category, index) => {
+    if (!CATEGORIES.includes(category)) errors.push(`$.sharedServices.categories[${index}]: unknown service category "${category}"`);
+  });
+
+  const levels = new Set(model.dataClassification.levels);
+  if (!levels.has(model.dataClassification.default)) {
+    errors.push(`$.dataClassification.default: "${model.dataClassification.default}" is not one of the levels`);
+  }
+  if (!levels.has(model.dataClassification.regulatedLevel)) {
+    errors.push(`$.dataClassification.regulatedLevel: "${model.dataClassification.regulatedLevel}" is not one of the levels`);
+  }
+  model.dataClassification.categories.forEach((entry, index) => {
+    if (!CATEGORIES.includes(entry.category)) errors.push(`$.dataClassification.categories[${index}].category: unknown service category "${entry.category}"`);
+    if (!levels.has(entry.level)) errors.push(`$.dataClassification.categories[${index}].level: "${entry.level}" is not one of the levels`);
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Tag definitions and the proposed tags of every Azure service. Workload
+ * services carry the cost center of the business unit with the largest usage
+ * share (the chargeback splits them); shared services carry the platform's.
+ */
+export function buildTaggingTaxonomy(graph: ArchitectureGraph, model: FinopsModel, options: TaxonomyOptions = {}): TaggingTaxonomy {
+  const { businessUnits, sharedServices, dataClassification } = model;
+  const environment = options.environment ?? model.environments[model.environments.length - 1];
+  const primary = [...businessUnits].sort((a, b) => b.usageShare - a.usageShare)[0];
+
+  const tags: TagDefinition[] = [
+    {
+      name: 'cost-center',
+      required: true,
+      description: 'Cost center charged for the resource; shared platform services carry the platform cost center and are recharged by the chargeback model',
+      allowedValues: [...businessUnits.map(unit => unit.costCenter), sharedServices.platformCostCenter],
+      example: primary.costCenter,
+      inherit: true
+    },
+    {
+      name: 'environment',
+      required: true,
+      description: 'Deployment stage, used to separate production from non-production spend',
+      allowedValues: model.environments,
+      example: environment,
+      inherit: true
+    },
+    {
+      name: 'owner',
+      required: true,
+      description: 'Accountable contact (team mailbox) for budget alerts and optimisation actions',
+      example: primary.owner,
+      inherit: true
+    },
+    {
+      name: 'data-classification',
+      required: true,
+      description: 'Sensitivity of the data the resource stores or processes, driving access, retention and encryption controls',
+      allowedValues: dataClassification.levels,
+      example: dataClassification.default,
+      inherit: false
+    },
+    {
+      name: 'workload',
+      required: true,
+      description: 'Workload the resource belongs to, grouping its spend across subscriptions',
+      example: graph.name,
+      inherit: true
+    },
+    {
+      name: 'managed-by',
+      required: false,
+      description: 'Tool that deploys the resource (bicep, terraform); set by the generated infrastructure as code',
+      example: 'bicep',
+      inherit: false
+    },
+    {
+      name: 'service',
+      required: false,
+      description: 'Architecture service the resource implements; set by the generated infrastructure as code',
+      example: azureNodes(graph)[0]?.name ?? 'App Service',
+      inherit: false
+    }
+  ];
+
+  const resources = azureNodes(graph).map(node => {
+    const shared = sharedServices.categories.includes(node.category);
+    return {
+      nodeId: node.id,
+      service: node.name,
+      shared,
+      tags: {
+        'cost-center': shared ? sharedServices.platformCostCenter : primary.costCenter,
+        environment,
+        owner: shared ? sharedServices.platformOwner : primary.owner,
+        'data-classification': classify(node, model, options.regulated ?? false),
+        workload: graph.name,
+        service: node.name
+      }
+    };
+  });
+
+  return { workload: graph.name, tags, resources };
+}
+
+function classify(node: ArchitectureNode, model: FinopsModel, regulated: boolean): string {
+  const { dataClassification } = model;
+  const level = dataClassification.categories.find(entry => entry.category === node.category)?.level;
+  if (!level) return dataClassification.default;
+  // Regulated data raises the data-bearing services, never lowers them
+  const rank = (value: string) => dataClassification.levels.indexOf(value);
+  return regulated && rank(dataClassification.regulatedLevel) > rank(level) ? dataClassification.regulatedLevel : level;
+}
@@ -0,0 +1,224 @@
+/**
+ * FinOps Writer
+ * Derives the tagging taxonomy, the chargeback allocation and the tag policies
+ * for the architecture graph and writes them into output/<folder>/finops/:
+ * tagging-taxonomy.json, chargeback.csv (per business unit),
+ * chargeback-by-service.csv, the Azure Policy definitions and initiative under
+ * policies/, and a README for readers. Policies that fail the offline check are
+ * reported but not written.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ArchitectureGraph } from '../core/architecture-graph.js';
+import { config } from '../config/config.js';
+import { toCsv } from '../utils/csv.js';
+import { CostEstimate, formatCostAmount } from '../cost/cost-calculator.js';
+import { FinopsModel, TaggingTaxonomy, buildTaggingTaxonomy, loadFinopsModel } from './finops-model.js';
+import { ChargebackAllocation, allocateChargeback } from './chargeback.js';
+import {
+  POLICY_DEFINITIONS_FOLDER, POLICY_INITIATIVE_FILE, POLICY_SCOPE_PLACEHOLDER, TagPolicySet, generateTagPolicies
+} from './tag-policies.js';
+
+export const FINOPS_FOLDER = 'finops';
+export const FINOPS_README_FILE = 'README.md';
+export const TAGGING_TAXONOMY_FILE = 'tagging-taxonomy.json';
+export const CHARGEBACK_FILE = 'chargeback.csv';
+export const CHARGEBACK_BY_SERVICE_FILE = 'chargeback-by-service.csv';
+export const POLICIES_FOLDER = 'policies';
+
+export interface GeneratedFinops {
+  model: FinopsModel;
+  taxonomy: TaggingTaxonomy;
+  chargeback: ChargebackAllocation;
+  policies: TagPolicySet;
+  // Set once the files were written
+  outputDir?: string;
+}
+
+export interface FinopsOptions {
+  // Defaults to the FINOPS_MODEL setting
+  modelFile?: string;
+  // Calculated estimate to charge back; without it the costs stated on the graph are used
+  estimate?: CostEstimate;
+  // Requirements name compliance obligations
+  regulated?: boolean;
+}
+
+export function generateFinops(graph: ArchitectureGraph, model: FinopsModel, options: FinopsOptions = {}): GeneratedFinops {
+  const taxonomy = buildTaggingTaxonomy(graph, model, { regulated: options.regulated });
+  return {
+    model,
+    taxonomy,
+    chargeback: allocateChargeback(graph, model, options.estimate),
+    policies: generateTagPolicies(taxonomy, model.policyEffect)
+  };
+}
+
+/**
+ * Generate and save the FinOps artifacts. Returns undefined (with a warning)
+ * when the FinOps model cannot be loaded.
+ */
+export async function saveFinops(
+  graph: ArchitectureGraph,
+  caseStudyFolder?: string,
+  options: FinopsOptions = {}
+): Promise<GeneratedFinops | undefined> {
+  let result: GeneratedFinops;
+  try {
+    result = generateFinops(graph, loadFinopsModel(options.modelFile ?? config.get().cost.finopsModel), options);
+  } catch (error) {
+    console.warn(`⚠️ FinOps model unavailable: ${error instanceof Error ? error.message : error}`);
+    return undefined;
+  }
+
+  const { policies } = result;
+  if (policies.errors.length > 0) console.warn(`⚠️ Generated tag policies failed offline validation, not saved: ${policies.errors[0]}`);
+  if (!caseStudyFolder) return result;
+
+  try {
+    const finopsDir = path.join(process.cwd(), 'output', caseStudyFolder, FINOPS_FOLDER);
+    await fs.mkdir(finopsDir, { recursive: true });
+    await fs.writeFile(path.join(finopsDir, TAGGING_TAXONOMY_FILE), JSON.stringify(result.taxonomy, null, 2), 'utf-8');
+    await fs.writeFile(path.join(finopsDir, CHARGEBACK_FILE), formatChargebackCsv(result.chargeback), 'utf-8');
+    await fs.writeFile(path.join(finopsDir, CHARGEBACK_BY_SERVICE_FILE), formatServiceChargebackCsv(result.chargeback), 'utf-8');
+
+    if (policies.errors.length === 0) {
+      const definitionsDir = path.join(finopsDir, POLICIES_FOLDER, POLICY_DEFINITIONS_FOLDER);
+      await fs.mkdir(definitionsDir, { recursive: true });
+      for (const definition of policies.definitions) {
+        await fs.writeFile(path.join(definitionsDir, `${definition.name}.json`), JSON.stringify(definition, null, 2), 'utf-8');
+      }
+      await fs.writeFile(path.join(finopsDir, POLICIES_FOLDER, POLICY_INITIATIVE_FILE), JSON.stringify(policies.initiative, null, 2), 'utf-8');
+    }
+
+    result.outputDir = finopsDir;
+    await fs.writeFile(path.join(finopsDir, FINOPS_README_FILE), formatFinopsReport(result), 'utf-8');
+    console.log(`✅ FinOps model (${result.chargeback.units.length} cost centers, ${policies.errors.length === 0 ? policies.definitions.length : 0} policies) saved to: ${finopsDir}`);
+  } catch (error) {
+    console.warn('⚠️ Failed to save FinOps model:', error instanceof Error ? error.message : error);
+  }
+  return result;
+}
+
+/**
+ * Monthly and annual charge per business unit
+ */
+export function formatChargebackCsv(chargeback: ChargebackAllocation): string {
+  const header = ['business_unit', 'cost_center', 'usage_share', 'direct_monthly', 'shared_monthly', 'total_monthly', 'total_annual', 'currency'];
+  const rows = chargeback.units.map(unit => [
+    unit.name, unit.costCenter, unit.usageShare, unit.direct, unit.shared, unit.total, round(unit.total * 12), chargeback.currency
+  ]);
+  return toCsv([header, ...rows]);
+}
+
+/**
+ * Monthly cost of every service and its split over the cost centers
+ */
+export function formatServiceChargebackCsv(chargeback: ChargebackAllocation): string {
+  const costCenters = chargeback.units.map(unit => unit.costCenter);
+  const header = ['service', 'shared', 'monthly', ...costCenters, 'currency'];
+  const rows = chargeback.services.map(service => [
+    service.service, service.shared ? 'yes' : 'no', service.monthly,
+    ...costCenters.map(costCenter => service.allocations[costCenter] ?? 0), chargeback.currency
+  ]);
+  return toCsv([header, ...rows]);
+}
+
+/**
+ * Markdown summary for the step report and finops/README.md
+ */
+export function formatFinopsReport(result: GeneratedFinops): string {
+  const { model, taxonomy, chargeback, policies } = result;
+  const money = (amount: number) => formatCostAmount(amount, chargeback.currency);
+  const lines: string[] = [
+    '# FinOps Tagging and Chargeback',
+    '',
+    `Derived for **${taxonomy.workload}** from FinOps model ${model.version}.`,
+    '',
+    '## Tagging Taxonomy',
+    '',
+    '| Tag | Required | Allowed values | Inherited from resource group | Description |',
+    '|-----|----------|----------------|-------------------------------|-------------|',
+    ...taxonomy.tags.map(tag =>
+      `| \`${tag.name}\` | ${tag.required ? 'Yes' : 'No'} | ${tag.allowedValues?.join(', ') ?? `any (e.g. ${tag.example})`} | ${tag.inherit ? 'Yes' : 'No'} | ${tag.description} |`),
+    '',
+    '### Proposed Resource Tags',
+    '',
+    '| Service | Cost center | Owner | Data classification |',
+    '|---------|-------------|-------|---------------------|',
+    ...taxonomy.resources.map(resource =>
+      `| ${resource.service}${resource.shared ? ' (shared)' : ''} | ${resource.tags['cost-center']} | ${resource.tags.owner} | ${resource.tags['data-classification']} |`),
+    '',
+    '## Chargeback',
+    '',
+    `Monthly costs ${chargeback.source === 'calculated' ? 'from the calculated estimate (pay-as-you-go)' : 'as stated by the cost analysis'}. ` +
+      `Workload services are split by usage share; shared ${model.sharedServices.categories.join(', ')} services ` +
+      sharedRule(model) + '.',
+    '',
+    '| Business unit | Cost center | Usage share | Direct | Shared | Monthly | Annual |',
+    '|---------------|-------------|-------------|--------|--------|---------|--------|',
+    ...chargeback.units.map(unit =>
+      `| ${unit.name} | ${unit.costCenter} | ${Math.round(unit.usageShare * 100)}% | ${money(unit.direct)} | ${money(unit.shared)} | ${money(unit.total)} | ${money(unit.total * 12)} |`),
+    `| **Total** | | | | | **${money(chargeback.total)}** | **${money(chargeback.total * 12)}** |`,
+    ''
+  ];
+  if (chargeback.uncosted.length > 0) {
+    lines.push(`⚠️ Not charged back, no cost known: ${chargeback.uncosted.join(', ')}.`, '');
+  }
+  if (result.outputDir) {
+    lines.push(`Per-service split: \`${CHARGEBACK_BY_SERVICE_FILE}\`; per business unit: \`${CHARGEBACK_FILE}\`.`, '');
+  }
+
+  lines.push('## Tag Policies', '');
+  if (policies.errors.length > 0) {
+    lines.push(
+      '⚠️ The generated policy definitions failed offline validation and were not saved:',
+      '',
+      ...policies.errors.slice(0, 10).map(error => `- ${error}`),
+      ...(policies.errors.length > 10 ? [`- … ${policies.errors.length - 10} more`] : []),
+      ''
+    );
+    return lines.join('\n');
+  }
+  lines.push(
+    `${policies.definitions.length} custom definitions bundled in the \`${policies.initiative.name}\` initiative, effect **${model.policyEffect}** ` +
+      '(switch the initiative\'s `effect` parameter to Deny once existing resources comply):',
+    '',
+    ...policies.definitions.map(definition => `- \`${definition.name}\`: ${definition.properties.displayName}`),
+    '',
+    'The inherit definitions use the modify effect: assign the initiative with a managed identity and run a remediation task for existing resources.',
+    ''
+  );
+  if (result.outputDir) {
+    lines.push(
+      '```bash',
+      `cd ${POLICIES_FOLDER}`,
+      'SCOPE=/subscriptions/<subscription-id>',
+      `for file in ${POLICY_DEFINITIONS_FOLDER}/*.json; do`,
+      '  az policy definition create --name "$(jq -r .name "$file")" --display-name "$(jq -r .properties.displayName "$file")" \\',
+      '    --mode "$(jq -r .properties.mode "$file")" --rules "$(jq -c .properties.policyRule "$file")" --params "$(jq -c .properties.parameters "$file")"',
+      'done',
+      `sed "s#${POLICY_SCOPE_PLACEHOLDER}#$SCOPE#g" ${POLICY_INITIATIVE_FILE} > initiative.json`,
+      `az policy set-definition create --name ${policies.initiative.name} --display-name "$(jq -r .properties.displayName initiative.json)" \\`,
+      '  --definitions "$(jq -c .properties.policyDefinitions initiative.json)" --params "$(jq -c .properties.parameters initiative.json)"',
+      `az policy assignment create --name ${policies.initiative.name} --policy-set-definition ${policies.initiative.name} --scope "$SCOPE" \\`,
+      '  --mi-system-assigned --location <location> --role "Tag Contributor" --identity-scope "$SCOPE"',
+      '```',
+      ''
+    );
+  }
+  return lines.join('\n');
+}
+
+function sharedRule(model: FinopsModel): string {
+  switch (model.sharedServices.allocation) {
+    case 'proportional': return 'are split by usage share as well';
+    case 'even': return 'are split evenly across the business units';
+    case 'platform': return `are charged to ${model.sharedServices.platformName} (${model.sharedServices.platformCostCenter})`;
+  }
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
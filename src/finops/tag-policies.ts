@@ -0,0 +1,238 @@
+/**
+ * Tag Policies
+ * Azure Policy definitions enforcing the tagging taxonomy: every required tag
+ * must be present on resources, tags with a closed value list only take those
+ * values, and inheritable tags are required on resource groups and copied from
+ * there when a resource is created without them. An initiative
+ * bundles the definitions with one effect parameter. The JSON is checked
+ * offline before it is written.
+ */
+
+import { PolicyEffect, TaggingTaxonomy, TagDefinition } from './finops-model.js';
+
+export const POLICY_DEFINITIONS_FOLDER = 'definitions';
+export const POLICY_INITIATIVE_FILE = 'finops-tagging-initiative.json';
+
+// Replaced with the subscription or management group the definitions are created in
+export const POLICY_SCOPE_PLACEHOLDER = '{scope}';
+
+// Tag Contributor: the modify effect's managed identity needs it to write tags
+const TAG_CONTRIBUTOR_ROLE = '/providers/microsoft.authorization/roleDefinitions/4a9ae827-6dc8-4573-8ac7-8239d42aa03f';
+
+const POLICY_VERSION = '1.0.0';
+
+export interface PolicyDefinition {
+  name: string;
+  properties: {
+    displayName: string;
+    policyType: 'Custom';
+    mode: 'All' | 'Indexed';
+    description: string;
+    metadata: Record<string, string>;
+    parameters: Record<string, any>;
+    policyRule: { if: Record<string, any>; then: Record<string, any> };
+  };
+}
+
+export interface PolicyInitiative {
+  name: string;
+  properties: {
+    displayName: string;
+    policyType: 'Custom';
+    description: string;
+    metadata: Record<string, string>;
+    parameters: Record<string, any>;
+    policyDefinitions: { policyDefinitionReferenceId: string; policyDefinitionId: string; parameters: Record<string, { value: any }> }[];
+  };
+}
+
+export interface TagPolicySet {
+  definitions: PolicyDefinition[];
+  initiative: PolicyInitiative;
+  // Offline check errors; the policies are not written when there are any
+  errors: string[];
+}
+
+/**
+ * Definitions for every required tag of the taxonomy, plus the initiative
+ */
+export function generateTagPolicies(taxonomy: TaggingTaxonomy, effect: PolicyEffect): TagPolicySet {
+  const definitions: PolicyDefinition[] = [];
+  const references: PolicyInitiative['properties']['policyDefinitions'] = [];
+  const add = (definition: PolicyDefinition, parameters: Record<string, { value: any }>) => {
+    definitions.push(definition);
+    references.push({
+      policyDefinitionReferenceId: definition.name.replace(/^finops-/, ''),
+      policyDefinitionId: `${POLICY_SCOPE_PLACEHOLDER}/providers/Microsoft.Authorization/policyDefinitions/${definition.name}`,
+      parameters
+    });
+  };
+  const auditOrDeny = { effect: { value: "[parameters('effect')]" } };
+
+  for (const tag of taxonomy.tags.filter(definition => definition.required)) {
+    add(requireTag(tag, 'resources'), auditOrDeny);
+    if (tag.allowedValues) add(allowedValues(tag), auditOrDeny);
+    // Resource groups carry the tags their resources inherit
+    if (tag.inherit) {
+      add(requireTag(tag, 'resourceGroups'), auditOrDeny);
+      add(inheritTag(tag), {});
+    }
+  }
+
+  const initiative: PolicyInitiative = {
+    name: 'finops-tagging',
+    properties: {
+      displayName: `FinOps tagging for ${taxonomy.workload}`,
+      policyType: 'Custom',
+      description: `Requires the ${taxonomy.tags.filter(tag => tag.required).map(tag => tag.name).join(', ')} tags, restricts their values and inherits them from resource groups.`,
+      metadata: { category: 'Tags', version: POLICY_VERSION },
+      parameters: { effect: effectParameter(['Audit', 'Deny', 'Disabled'], effect) },
+      policyDefinitions: references
+    }
+  };
+
+  return { definitions, initiative, errors: validateTagPolicies(definitions, initiative) };
+}
+
+/**
+ * Structural check of the definitions and the initiative: modes, rule shape,
+ * parameter references and defaults, modify details, and initiative references
+ */
+export function validateTagPolicies(definitions: PolicyDefinition[], initiative: PolicyInitiative): string[] {
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  for (const definition of definitions) {
+    const at = definition.name;
+    const { properties } = definition;
+    if (!/^[\w-]{1,64}$/.test(definition.name)) errors.push(`${at}: invalid definition name`);
+    if (names.has(definition.name)) errors.push(`${at}: duplicate definition name`);
+    names.add(definition.name);
+    if (!['All', 'Indexed'].includes(properties.mode)) errors.push(`${at}: mode must be All or Indexed`);
+    if (!properties.policyRule?.if || !properties.policyRule?.then?.effect) errors.push(`${at}: policyRule needs if and then.effect`);
+
+    const referenced = [...JSON.stringify(properties.policyRule).matchAll(/parameters\('([^']+)'\)/g)].map(match => match[1]);
+    for (const parameter of referenced) {
+      if (!properties.parameters[parameter]) errors.push(`${at}: policyRule references undefined parameter "${parameter}"`);
+    }
+    for (const [name, parameter] of Object.entries(properties.parameters)) {
+      if (!referenced.includes(name)) errors.push(`${at}: parameter "${name}" is never used`);
+      if (parameter.allowedValues && !parameter.allowedValues.includes(parameter.defaultValue)) {
+        errors.push(`${at}: default of "${name}" is not one of its allowed values`);
+      }
+    }
+
+    const fields = [...JSON.stringify(properties.policyRule).matchAll(/"field":"([^"]+)"/g)].map(match => match[1]);
+    for (const field of fields) {
+      if (field !== 'type' && !/^tags\['[a-z0-9-]+'\]$/.test(field)) errors.push(`${at}: unexpected field "${field}"`);
+    }
+
+    if (JSON.stringify(properties.parameters).includes('"Modify"')) {
+      const details = properties.policyRule.then.details;
+      if (!details?.roleDefinitionIds?.length || !details?.operations?.length) {
+        errors.push(`${at}: the modify effect needs roleDefinitionIds and operations`);
+      }
+    }
+  }
+
+  const initiativeParameters = Object.keys(initiative.properties.parameters);
+  for (const reference of initiative.properties.policyDefinitions) {
+    const name = reference.policyDefinitionId.split('/').pop()!;
+    const definition = definitions.find(candidate => candidate.name === name);
+    if (!definition) {
+      errors.push(`${initiative.name}: ${reference.policyDefinitionReferenceId} references unknown definition "${name}"`);
+      continue;
+    }
+    for (const [parameter, { value }] of Object.entries(reference.parameters)) {
+      if (!definition.properties.parameters[parameter]) errors.push(`${initiative.name}: ${name} has no parameter "${parameter}"`);
+      const passed = String(value).match(/^\[parameters\('([^']+)'\)\]$/)?.[1];
+      if (passed && !initiativeParameters.includes(passed)) errors.push(`${initiative.name}: undefined initiative parameter "${passed}"`);
+    }
+  }
+  return errors;
+}
+
+function requireTag(tag: TagDefinition, scope: 'resources' | 'resourceGroups'): PolicyDefinition {
+  const resourceGroups = scope === 'resourceGroups';
+  return {
+    name: `finops-require-tag-${tag.name}${resourceGroups ? '-rg' : ''}`,
+    properties: {
+      displayName: `Require the ${tag.name} tag on ${resourceGroups ? 'resource groups' : 'resources'}`,
+      policyType: 'Custom',
+      // Indexed skips resource types that cannot carry tags; resource groups need All
+      mode: resourceGroups ? 'All' : 'Indexed',
+      description: `${tag.description}.`,
+      metadata: { category: 'Tags', version: POLICY_VERSION },
+      parameters: { effect: effectParameter(['Audit', 'Deny', 'Disabled'], 'Audit') },
+      policyRule: {
+        if: resourceGroups
+          ? { allOf: [{ field: 'type', equals: 'Microsoft.Resources/subscriptions/resourceGroups' }, { field: tagField(tag), exists: 'false' }] }
+          : { field: tagField(tag), exists: 'false' },
+        then: { effect: "[parameters('effect')]" }
+      }
+    }
+  };
+}
+
+function allowedValues(tag: TagDefinition): PolicyDefinition {
+  return {
+    name: `finops-allowed-values-${tag.name}`,
+    properties: {
+      displayName: `Allowed values of the ${tag.name} tag`,
+      policyType: 'Custom',
+      mode: 'All',
+      description: `The ${tag.name} tag takes one of: ${tag.allowedValues!.join(', ')}.`,
+      metadata: { category: 'Tags', version: POLICY_VERSION },
+      parameters: {
+        effect: effectParameter(['Audit', 'Deny', 'Disabled'], 'Audit'),
+        allowedValues: {
+          type: 'Array',
+          metadata: { displayName: 'Allowed values', description: `Values the ${tag.name} tag may take.` },
+          defaultValue: tag.allowedValues
+        }
+      },
+      policyRule: {
+        if: { allOf: [{ field: tagField(tag), exists: 'true' }, { field: tagField(tag), notIn: "[parameters('allowedValues')]" }] },
+        then: { effect: "[parameters('effect')]" }
+      }
+    }
+  };
+}
+
+function inheritTag(tag: TagDefinition): PolicyDefinition {
+  const fromResourceGroup = `[resourceGroup().tags['${tag.name}']]`;
+  return {
+    name: `finops-inherit-tag-${tag.name}`,
+    properties: {
+      displayName: `Inherit the ${tag.name} tag from the resource group if missing`,
+      policyType: 'Custom',
+      mode: 'Indexed',
+      description: `Adds the resource group's ${tag.name} tag to resources created without it. Existing resources need a remediation task.`,
+      metadata: { category: 'Tags', version: POLICY_VERSION },
+      parameters: { effect: effectParameter(['Modify', 'Disabled'], 'Modify') },
+      policyRule: {
+        if: { allOf: [{ field: tagField(tag), exists: 'false' }, { value: fromResourceGroup, notEquals: '' }] },
+        then: {
+          effect: "[parameters('effect')]",
+          details: {
+            roleDefinitionIds: [TAG_CONTRIBUTOR_ROLE],
+            operations: [{ operation: 'add', field: tagField(tag), value: fromResourceGroup }]
+          }
+        }
+      }
+    }
+  };
+}
+
+function effectParameter(allowed: string[], defaultValue: string): Record<string, any> {
+  return {
+    type: 'String',
+    metadata: { displayName: 'Effect', description: 'Enable or disable the execution of the policy' },
+    allowedValues: allowed,
+    defaultValue
+  };
+}
+
+function tagField(tag: TagDefinition): string {
+  return `tags['${tag.name}']`;
+}
@@ -0,0 +1,339 @@
+/**
+ * Bicep Generator
+ * Renders the IaC plan as a modular Bicep project: main.bicep wiring the shared
+ * monitoring, network and private DNS modules to one module per service,
+ * main.parameters.json, and the module files it references.
+ */
+
+import { ArchitectureGraph } from '../core/architecture-graph.js';
+import { IacModuleKind, IacPlan, PlannedResource, RESOURCE_NAMING, SkuValue, planInfrastructure } from './iac-plan.js';
+import {
+  BICEP_MODULE_TEMPLATES,
+  CONTAINER_APPS_ENVIRONMENT_MODULE,
+  MONITORING_MODULE,
+  NETWORK_MODULE,
+  PRIVATE_DNS_ZONE_MODULE,
+  PRIVATE_ENDPOINT_MODULE,
+  SERVICE_MODULES
+} from './bicep-modules.js';
+
+export const BICEP_MAIN_FILE = 'main.bicep';
+export const BICEP_PARAMETERS_FILE = 'main.parameters.json';
+
+export interface BicepProject {
+  // Path relative to the project folder -> file content
+  files: Record<string, string>;
+  plan: IacPlan;
+}
+
+interface ModuleSpec {
+  // Module parameter -> private DNS zone it needs when the service is private
+  dnsZones?: Record<string, string>;
+  // Subnet the module is attached to
+  subnet?: 'appIntegration' | 'kubernetes' | 'applicationGateway';
+  // Global resource without a location parameter
+  global?: boolean;
+  applicationInsights?: boolean;
+  databaseAdministrator?: boolean;
+  apiPublisher?: boolean;
+}
+
+const WEB_ZONE = 'privatelink.azurewebsites.net';
+const BLOB_ZONE = 'privatelink.blob.core.windows.net';
+
+const MODULE_SPECS: Record<IacModuleKind, ModuleSpec> = {
+  'app-service': { dnsZones: { privateDnsZoneId: WEB_ZONE }, subnet: 'appIntegration', applicationInsights: true },
+  'function-app': { dnsZones: { privateDnsZoneId: WEB_ZONE, storagePrivateDnsZoneId: BLOB_ZONE }, subnet: 'appIntegration', applicationInsights: true },
+  'container-app': {},
+  kubernetes: { subnet: 'kubernetes' },
+  'sql-database': { dnsZones: { privateDnsZoneId: 'privatelink.database.windows.net' }, databaseAdministrator: true },
+  postgresql: { dnsZones: { privateDnsZoneId: 'privatelink.postgres.database.azure.com' }, databaseAdministrator: true },
+  'cosmos-db': { dnsZones: { privateDnsZoneId: 'privatelink.documents.azure.com' } },
+  redis: { dnsZones: { privateDnsZoneId: 'privatelink.redis.cache.windows.net' } },
+  'storage-account': { dnsZones: { privateDnsZoneId: BLOB_ZONE } },
+  'key-vault': { dnsZones: { privateDnsZoneId: 'privatelink.vaultcore.azure.net' } },
+  openai: { dnsZones: { privateDnsZoneId: 'privatelink.openai.azure.com' } },
+  'ai-search': { dnsZones: { privateDnsZoneId: 'privatelink.search.windows.net' } },
+  'service-bus': { dnsZones: { privateDnsZoneId: 'privatelink.servicebus.windows.net' } },
+  'event-hubs': { dnsZones: { privateDnsZoneId: 'privatelink.servicebus.windows.net' } },
+  'api-management': { apiPublisher: true },
+  'front-door': { global: true },
+  'application-gateway': { subnet: 'applicationGateway' }
+};
+
+// Symbols main.bicep declares itself; service symbols must not collide with them
+const RESERVED_SYMBOLS = [
+  'location', 'namePrefix', 'environmentName', 'tags', 'suffix', 'monitoring', 'network', 'containerAppsEnvironment',
+  'databaseAdministratorObjectId', 'databaseAdministratorLogin', 'apiPublisherEmail', 'apiPublisherName',
+  'if', 'for', 'in', 'existing', 'true', 'false', 'null', 'param', 'var', 'resource', 'module', 'output', 'targetScope'
+];
+
+const PLACEHOLDER_OBJECT_ID = '00000000-0000-0000-0000-000000000000';
+
+/**
+ * Generate the Bicep project for the graph
+ */
+export function generateBicep(graph: ArchitectureGraph, plan: IacPlan = planInfrastructure(graph)): BicepProject {
+  const symbols = serviceSymbols(plan.resources);
+  const privateResources = plan.resources.filter(resource => resource.privateEndpoint);
+  const needsNetwork = Object.values(plan.subnets).some(Boolean);
+  const zones = [...new Set(privateResources.flatMap(resource => Object.values(MODULE_SPECS[resource.module].dnsZones || {})))];
+  const usesDatabaseAdministrator = plan.resources.some(resource => MODULE_SPECS[resource.module].databaseAdministrator);
+  const usesApiPublisher = plan.resources.some(resource => MODULE_SPECS[resource.module].apiPublisher);
+  const usesContainerApps = plan.resources.some(resource => resource.module === 'container-app');
+
+  const lines: string[] = [
+    `// ${plan.workload}`,
+    '// Generated from the recommended architecture by Azure Architecture Blueprints.',
+    '// Review SKUs and replace the placeholder parameters before deploying:',
+    `//   az deployment group create --resource-group <resource-group> --template-file ${BICEP_MAIN_FILE} --parameters ${BICEP_PARAMETERS_FILE}`,
+    '',
+    "targetScope = 'resourceGroup'",
+    '',
+    "@description('Primary Azure region.')",
+    `param location string = ${bicepString(plan.location)}`,
+    '',
+    "@description('Short prefix used in resource names.')",
+    '@minLength(2)',
+    '@maxLength(10)',
+    `param namePrefix string = ${bicepString(plan.namePrefix)}`,
+    '',
+    "@description('Environment name, applied as a tag.')",
+    "param environmentName string = 'prod'",
+    '',
+    "@description('Tags applied to every resource.')",
+    'param tags object = {',
+    `  workload: ${bicepString(plan.workload)}`,
+    '  environment: environmentName',
+    "  'generated-by': 'azure-architecture-blueprints'",
+    '}',
+    ''
+  ];
+
+  if (usesDatabaseAdministrator) {
+    lines.push(
+      "@description('Object id of the Entra ID group administering the databases (Entra-only authentication).')",
+      'param databaseAdministratorObjectId string',
+      '',
+      "@description('Display name of the Entra ID database administrator group.')",
+      'param databaseAdministratorLogin string',
+      ''
+    );
+  }
+  if (usesApiPublisher) {
+    lines.push(
+      "@description('Publisher e-mail of the API Management instance.')",
+      'param apiPublisherEmail string',
+      '',
+      "@description('Publisher organisation of the API Management instance.')",
+      'param apiPublisherName string',
+      ''
+    );
+  }
+
+  lines.push(
+    '// Short unique suffix keeping globally unique names stable per resource group',
+    'var suffix = take(uniqueString(resourceGroup().id, namePrefix), 6)',
+    '',
+    moduleBlock('monitoring', MONITORING_MODULE, [
+      ['name', "'${namePrefix}-${suffix}'"],
+      ['location', 'location'],
+      ['tags', 'tags'],
+      ['enableApplicationInsights', String(plan.applicationInsights)]
+    ]),
+    ''
+  );
+
+  if (needsNetwork) {
+    lines.push(moduleBlock('network', NETWORK_MODULE, [
+      ['name', "'vnet-${namePrefix}-${suffix}'"],
+      ['location', 'location'],
+      ['tags', 'tags'],
+      ['includeAppIntegrationSubnet', String(plan.subnets.appIntegration)],
+      ['includeContainerAppsSubnet', String(plan.subnets.containerApps)],
+      ['includeKubernetesSubnet', String(plan.subnets.kubernetes)],
+      ['includeApplicationGatewaySubnet', String(plan.subnets.applicationGateway)]
+    ]), '');
+  }
+
+  for (const zone of zones) {
+    lines.push(moduleBlock(zoneSymbol(zone), PRIVATE_DNS_ZONE_MODULE, [
+      ['zoneName', bicepString(zone)],
+      ['vnetId', 'network.outputs.vnetId'],
+      ['tags', 'tags']
+    ], `dns-${zone.split('.')[1]}`), '');
+  }
+
+  if (usesContainerApps) {
+    lines.push(moduleBlock('containerAppsEnvironment', CONTAINER_APPS_ENVIRONMENT_MODULE, [
+      ['name', "'cae-${namePrefix}-${suffix}'"],
+      ['location', 'location'],
+      ['tags', 'tags'],
+      ['logAnalyticsWorkspaceId', 'monitoring.outputs.workspaceId'],
+      ['infrastructureSubnetId', 'network.outputs.containerAppsSubnetId']
+    ]), '');
+  }
+
+  for (const resource of plan.resources) {
+    const symbol = symbols.get(resource)!;
+    lines.push(`// ${resource.node.name}${resource.node.sku ? ` (${resource.node.sku})` : ''}`);
+    lines.push(moduleBlock(symbol, SERVICE_MODULES[resource.module], serviceParams(resource, plan, symbols), resource.stem), '');
+  }
+
+  lines.push('output logAnalyticsWorkspaceId string = monitoring.outputs.workspaceId');
+  if (needsNetwork) lines.push('output vnetId string = network.outputs.vnetId');
+  for (const resource of plan.resources) {
+    const symbol = symbols.get(resource)!;
+    lines.push(`output ${symbol}Name string = ${symbol}.outputs.name`);
+  }
+
+  const files: Record<string, string> = {
+    [BICEP_MAIN_FILE]: lines.join('\n') + '\n',
+    [BICEP_PARAMETERS_FILE]: JSON.stringify(parametersFile(plan, usesDatabaseAdministrator, usesApiPublisher), null, 2) + '\n',
+    [MONITORING_MODULE]: BICEP_MODULE_TEMPLATES[MONITORING_MODULE]
+  };
+  if (needsNetwork) files[NETWORK_MODULE] = BICEP_MODULE_TEMPLATES[NETWORK_MODULE];
+  if (zones.length > 0) files[PRIVATE_DNS_ZONE_MODULE] = BICEP_MODULE_TEMPLATES[PRIVATE_DNS_ZONE_MODULE];
+  if (usesContainerApps) files[CONTAINER_APPS_ENVIRONMENT_MODULE] = BICEP_MODULE_TEMPLATES[CONTAINER_APPS_ENVIRONMENT_MODULE];
+  for (const resource of plan.resources) {
+    const file = SERVICE_MODULES[resource.module];
+    files[file] = BICEP_MODULE_TEMPLATES[file];
+    // Service modules reference the private endpoint module even when it is not deployed
+    if (BICEP_MODULE_TEMPLATES[file].includes(PRIVATE_ENDPOINT_MODULE.replace('modules/', ''))) {
+      files[PRIVATE_ENDPOINT_MODULE] = BICEP_MODULE_TEMPLATES[PRIVATE_ENDPOINT_MODULE];
+    }
+  }
+
+  return { files, plan };
+}
+
+function serviceParams(resource: PlannedResource, plan: IacPlan, symbols: Map<PlannedResource, string>): Array<[string, string]> {
+  const spec = MODULE_SPECS[resource.module];
+  const params: Array<[string, string]> = [['name', nameExpression(resource)]];
+  if (!spec.global) params.push(['location', resource.location ? bicepString(resource.location) : 'location']);
+  params.push(['tags', 'tags'], ['logAnalyticsWorkspaceId', 'monitoring.outputs.workspaceId']);
+
+  Object.entries(resource.sku).forEach(([key, value]) => params.push([key, bicepValue(value)]));
+
+  if (spec.applicationInsights) params.push(['applicationInsightsConnectionString', 'monitoring.outputs.applicationInsightsConnectionString']);
+  if (spec.subnet === 'appIntegration') params.push(['virtualNetworkSubnetId', 'network.outputs.appIntegrationSubnetId']);
+  if (spec.subnet === 'kubernetes') params.push(['subnetId', 'network.outputs.kubernetesSubnetId']);
+  if (spec.subnet === 'applicationGateway') params.push(['subnetId', 'network.outputs.applicationGatewaySubnetId']);
+  if (resource.module === 'container-app') params.push(['environmentId', 'containerAppsEnvironment.outputs.id']);
+  if (spec.databaseAdministrator) {
+    params.push(['administratorObjectId', 'databaseAdministratorObjectId'], ['administratorLogin', 'databaseAdministratorLogin']);
+  }
+  if (spec.apiPublisher) params.push(['publisherEmail', 'apiPublisherEmail'], ['publisherName', 'apiPublisherName']);
+
+  const origins = (resource.origins ?? []).map(id => plan.resources.find(candidate => candidate.node.id === id)!);
+  if (resource.module === 'front-door') params.push(['origins', frontDoorOrigins(origins, symbols)]);
+  if (resource.module === 'application-gateway' && origins.length > 0) {
+    params.push(['backendHostName', `${symbols.get(origins[0])}.outputs.hostName`]);
+  }
+
+  if (resource.privateEndpoint) {
+    params.push(['privateEndpointSubnetId', 'network.outputs.privateEndpointSubnetId']);
+    Object.entries(spec.dnsZones || {}).forEach(([param, zone]) => params.push([param, `${zoneSymbol(zone)}.outputs.id`]));
+  }
+  return params;
+}
+
+// Array literal of the Front Door origins, private ones reached over Private Link
+function frontDoorOrigins(origins: PlannedResource[], symbols: Map<PlannedResource, string>): string {
+  if (origins.length === 0) return '[]';
+  const entries = origins.map(origin => {
+    const symbol = symbols.get(origin)!;
+    return [
+      '      {',
+      `        name: ${bicepString(origin.stem)}`,
+      `        hostName: ${symbol}.outputs.hostName`,
+      `        privateLinkResourceId: ${origin.privateEndpoint ? `${symbol}.outputs.id` : "''"}`,
+      `        privateLinkGroupId: ${origin.privateEndpoint ? "'sites'" : "''"}`,
+      `        privateLinkLocation: ${origin.privateEndpoint ? (origin.location ? bicepString(origin.location) : 'location') : "''"}`,
+      '      }'
+    ].join('\n');
+  });
+  return ['[', ...entries, '    ]'].join('\n');
+}
+
+/**
+ * Resource name expression following the CAF abbreviations; storage accounts
+ * and key vaults get the shorter forms their naming rules require
+ */
+function nameExpression(resource: PlannedResource): string {
+  const stem = resource.stem;
+  const naming = RESOURCE_NAMING[resource.module];
+  if (resource.module === 'storage-account') {
+    return `take(replace(toLower('st\${namePrefix}${stem.replace(/-/g, '')}\${suffix}'), '-', ''), 24)`;
+  }
+  if (resource.module === 'key-vault') {
+    return `take('kv-\${namePrefix}-\${suffix}-${stem.replace(/-/g, '')}', 24)`;
+  }
+  const name = `'${naming.abbreviation}-\${namePrefix}-${stem}-\${suffix}'`;
+  return naming.maxLength ? `take(${name}, ${naming.maxLength})` : name;
+}
+
+/**
+ * camelCase module symbols from the name stems, unique and clear of main.bicep's own symbols
+ */
+function serviceSymbols(resources: PlannedResource[]): Map<PlannedResource, string> {
+  const symbols = new Map<PlannedResource, string>();
+  const taken = new Set(RESERVED_SYMBOLS);
+  for (const resource of resources) {
+    const words = resource.stem.split('-').filter(Boolean);
+    let base = words.map((word, index) => index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)).join('');
+    if (!/^[a-z]/.test(base)) base = `svc${base.charAt(0).toUpperCase()}${base.slice(1)}`;
+    if (taken.has(base) || base.startsWith('dns')) base = `${base}Service`;
+    let symbol = base;
+    for (let suffix = 2; taken.has(symbol); suffix++) symbol = `${base}${suffix}`;
+    taken.add(symbol);
+    symbols.set(resource, symbol);
+  }
+  return symbols;
+}
+
+// privatelink.blob.core.windows.net -> dnsBlob
+function zoneSymbol(zone: string): string {
+  const label = zone.split('.')[1] || 'zone';
+  return `dns${label.charAt(0).toUpperCase()}${label.slice(1)}`;
+}
+
+function parametersFile(plan: IacPlan, databaseAdministrator: boolean, apiPublisher: boolean): object {
+  const parameters: Record<string, { value: SkuValue }> = {
+    location: { value: plan.location },
+    namePrefix: { value: plan.namePrefix },
+    environmentName: { value: 'prod' }
+  };
+  if (databaseAdministrator) {
+    parameters.databaseAdministratorObjectId = { value: PLACEHOLDER_OBJECT_ID };
+    parameters.databaseAdministratorLogin = { value: 'sql-administrators' };
+  }
+  if (apiPublisher) {
+    parameters.apiPublisherEmail = { value: 'api-owner@example.com' };
+    parameters.apiPublisherName = { value: plan.workload };
+  }
+  return {
+    $schema: 'https://schema.management.azure.com/schemas/2019-04-01/deploymentParameters.json#',
+    contentVersion: '1.0.0.0',
+    parameters
+  };
+}
+
+function moduleBlock(symbol: string, file: string, params: Array<[string, string]>, deploymentName = symbol): string {
+  return [
+    `module ${symbol} '${file}' = {`,
+    `  name: ${bicepString(deploymentName)}`,
+    '  params: {',
+    ...params.map(([key, value]) => `    ${key}: ${value}`),
+    '  }',
+    '}'
+  ].join('\n');
+}
+
+function bicepValue(value: SkuValue): string {
+  return typeof value === 'string' ? bicepString(value) : String(value);
+}
+
+function bicepString(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\$\{/g, '\\${').replace(/\r?\n/g, '\\n')}'`;
+}
@@ -0,0 +1,1617 @@
+/**
+ * Bicep Modules
+ * Templates of the modules the Bicep generator references from main.bicep.
+ * Every service module follows the same contract: name/location/tags, SKU
+ * parameters, a Log Analytics workspace for diagnostic settings and an optional
+ * private endpoint subnet + DNS zone. When the subnet is given the module adds
+ * the private endpoint and disables public network access. Compute and data
+ * services use a system-assigned managed identity and have local (key/password)
+ * authentication turned off where the service allows it.
+ */
+
+import { IacModuleKind } from './iac-plan.js';
+
+export const MONITORING_MODULE = 'modules/monitoring.bicep';
+export const NETWORK_MODULE = 'modules/network.bicep';
+export const PRIVATE_DNS_ZONE_MODULE = 'modules/private-dns-zone.bicep';
+export const PRIVATE_ENDPOINT_MODULE = 'modules/private-endpoint.bicep';
+export const CONTAINER_APPS_ENVIRONMENT_MODULE = 'modules/container-apps-environment.bicep';
+
+export const SERVICE_MODULES: Record<IacModuleKind, string> = {
+  'app-service': 'modules/app-service.bicep',
+  'function-app': 'modules/function-app.bicep',
+  'container-app': 'modules/container-app.bicep',
+  kubernetes: 'modules/kubernetes.bicep',
+  'sql-database': 'modules/sql-database.bicep',
+  postgresql: 'modules/postgresql.bicep',
+  'cosmos-db': 'modules/cosmos-db.bicep',
+  redis: 'modules/redis.bicep',
+  'storage-account': 'modules/storage-account.bicep',
+  'key-vault': 'modules/key-vault.bicep',
+  openai: 'modules/openai.bicep',
+  'ai-search': 'modules/ai-search.bicep',
+  'service-bus': 'modules/service-bus.bicep',
+  'event-hubs': 'modules/event-hubs.bicep',
+  'api-management': 'modules/api-management.bicep',
+  'front-door': 'modules/front-door.bicep',
+  'application-gateway': 'modules/application-gateway.bicep'
+};
+
+const COMMON_PARAMS = `@description('Name of the resource.')
+param name string
+
+@description('Azure region of the resource.')
+param location string
+
+@description('Resource tags.')
+param tags object = {}
+
+@description('Log Analytics workspace receiving the diagnostic logs and metrics.')
+param logAnalyticsWorkspaceId string`;
+
+const PRIVATE_ENDPOINT_PARAMS = `@description('Subnet for the private endpoint. Leave empty to keep the public endpoint.')
+param privateEndpointSubnetId string = ''
+
+@description('Private DNS zone the private endpoint registers in.')
+param privateDnsZoneId string = ''`;
+
+function privateEndpoint(symbol: string, groupId: string, options: { module?: string; zoneParam?: string; suffix?: string } = {}): string {
+  const suffix = options.suffix ?? 'pe';
+  return `module ${options.module ?? 'privateEndpoint'} '${PRIVATE_ENDPOINT_MODULE.replace('modules/', '')}' = if (!empty(privateEndpointSubnetId)) {
+  name: '\${name}-${suffix}'
+  params: {
+    name: '\${${symbol}.name}-${suffix}'
+    location: location
+    tags: tags
+    privateLinkServiceId: ${symbol}.id
+    groupId: '${groupId}'
+    subnetId: privateEndpointSubnetId
+    privateDnsZoneId: ${options.zoneParam ?? 'privateDnsZoneId'}
+  }
+}`;
+}
+
+// Diagnostic settings sending all logs (when the resource has any) and metrics to the workspace
+function diagnostics(symbol: string, options: { logs?: boolean; metric?: string; settingName?: string } = {}): string {
+  const logsBlock = options.logs ?? true
+    ? `
+    logs: [
+      {
+        categoryGroup: 'allLogs'
+        enabled: true
+      }
+    ]`
+    : '';
+  return `resource ${symbol}Diagnostics 'Microsoft.Insights/diagnosticSettings@2021-05-01-preview' = {
+  name: '${options.settingName ?? 'diag-\${name}'}'
+  scope: ${symbol}
+  properties: {
+    workspaceId: logAnalyticsWorkspaceId${logsBlock}
+    metrics: [
+      {
+        category: '${options.metric ?? 'AllMetrics'}'
+        enabled: true
+      }
+    ]
+  }
+}`;
+}
+
+const MONITORING = `@description('Base name of the monitoring resources.')
+param name string
+
+@description('Azure region of the monitoring resources.')
+param location string
+
+@description('Resource tags.')
+param tags object = {}
+
+@description('Days the workspace keeps logs.')
+@minValue(30)
+@maxValue(730)
+param retentionInDays int = 30
+
+@description('Create a workspace-based Application Insights component.')
+param enableApplicationInsights bool = false
+
+resource workspace 'Microsoft.OperationalInsights/workspaces@2023-09-01' = {
+  name: 'log-\${name}'
+  location: location
+  tags: tags
+  properties: {
+    sku: {
+      name: 'PerGB2018'
+    }
+    retentionInDays: retentionInDays
+    features: {
+      disableLocalAuth: true
+    }
+  }
+}
+
+resource applicationInsights 'Microsoft.Insights/components@2020-02-02' = if (enableApplicationInsights) {
+  name: 'appi-\${name}'
+  location: location
+  tags: tags
+  kind: 'web'
+  properties: {
+    Application_Type: 'web'
+    WorkspaceResourceId: workspace.id
+    DisableLocalAuth: true
+  }
+}
+
+output workspaceId string = workspace.id
+output applicationInsightsConnectionString string = enableApplicationInsights ? applicationInsights.properties.ConnectionString : ''
+`;
+
+const NETWORK = `@description('Name of the virtual network.')
+param name string
+
+@description('Azure region of the virtual network.')
+param location string
+
+@description('Resource tags.')
+param tags object = {}
+
+@description('Address space of the virtual network.')
+param addressPrefix string = '10.20.0.0/16'
+
+@description('Add a subnet delegated to App Service / Functions VNet integration.')
+param includeAppIntegrationSubnet bool = false
+
+@description('Add a subnet delegated to the Container Apps environment.')
+param includeContainerAppsSubnet bool = false
+
+@description('Add a subnet for the AKS node pool.')
+param includeKubernetesSubnet bool = false
+
+@description('Add the dedicated Application Gateway subnet.')
+param includeApplicationGatewaySubnet bool = false
+
+resource nsg 'Microsoft.Network/networkSecurityGroups@2023-11-01' = {
+  name: 'nsg-\${name}'
+  location: location
+  tags: tags
+  properties: {
+    securityRules: []
+  }
+}
+
+var privateEndpointSubnet = [
+  {
+    name: 'snet-private-endpoints'
+    properties: {
+      addressPrefix: cidrSubnet(addressPrefix, 24, 0)
+      networkSecurityGroup: {
+        id: nsg.id
+      }
+      privateEndpointNetworkPolicies: 'Enabled'
+    }
+  }
+]
+
+var appIntegrationSubnet = includeAppIntegrationSubnet ? [
+  {
+    name: 'snet-app-integration'
+    properties: {
+      addressPrefix: cidrSubnet(addressPrefix, 24, 1)
+      networkSecurityGroup: {
+        id: nsg.id
+      }
+      delegations: [
+        {
+          name: 'web'
+          properties: {
+            serviceName: 'Microsoft.Web/serverFarms'
+          }
+        }
+      ]
+    }
+  }
+] : []
+
+var containerAppsSubnet = includeContainerAppsSubnet ? [
+  {
+    name: 'snet-container-apps'
+    properties: {
+      addressPrefix: cidrSubnet(addressPrefix, 23, 1)
+      delegations: [
+        {
+          name: 'containerapps'
+          properties: {
+            serviceName: 'Microsoft.App/environments'
+          }
+        }
+      ]
+    }
+  }
+] : []
+
+var kubernetesSubnet = includeKubernetesSubnet ? [
+  {
+    name: 'snet-aks'
+    properties: {
+      addressPrefix: cidrSubnet(addressPrefix, 22, 1)
+    }
+  }
+] : []
+
+// No NSG: the default rules would block the gateway's public listener and management ports
+var applicationGatewaySubnet = includeApplicationGatewaySubnet ? [
+  {
+    name: 'snet-app-gateway'
+    properties: {
+      addressPrefix: cidrSubnet(addressPrefix, 24, 8)
+    }
+  }
+] : []
+
+resource vnet 'Microsoft.Network/virtualNetworks@2023-11-01' = {
+  name: name
+  location: location
+  tags: tags
+  properties: {
+    addressSpace: {
+      addressPrefixes: [
+        addressPrefix
+      ]
+    }
+    subnets: concat(privateEndpointSubnet, appIntegrationSubnet, containerAppsSubnet, kubernetesSubnet, applicationGatewaySubnet)
+  }
+}
+
+output vnetId string = vnet.id
+output privateEndpointSubnetId string = resourceId('Microsoft.Network/virtualNetworks/subnets', vnet.name, 'snet-private-endpoints')
+output appIntegrationSubnetId string = includeAppIntegrationSubnet ? resourceId('Microsoft.Network/virtualNetworks/subnets', vnet.name, 'snet-app-integration') : ''
+output containerAppsSubnetId string = includeContainerAppsSubnet ? resourceId('Microsoft.Network/virtualNetworks/subnets', vnet.name, 'snet-container-apps') : ''
+output kubernetesSubnetId string = includeKubernetesSubnet ? resourceId('Microsoft.Network/virtualNetworks/subnets', vnet.name, 'snet-aks') : ''
+output applicationGatewaySubnetId string = includeApplicationGatewaySubnet ? resourceId('Microsoft.Network/virtualNetworks/subnets', vnet.name, 'snet-app-gateway') : ''
+`;
+
+const PRIVATE_DNS_ZONE = `@description('Private DNS zone name, e.g. privatelink.blob.core.windows.net.')
+param zoneName string
+
+@description('Virtual network linked to the zone.')
+param vnetId string
+
+@description('Resource tags.')
+param tags object = {}
+
+resource zone 'Microsoft.Network/privateDnsZones@2020-06-01' = {
+  name: zoneName
+  location: 'global'
+  tags: tags
+}
+
+resource vnetLink 'Microsoft.Network/privateDnsZones/virtualNetworkLinks@2020-06-01' = {
+  parent: zone
+  name: 'link-\${uniqueString(vnetId)}'
+  location: 'global'
+  tags: tags
+  properties: {
+    registrationEnabled: false
+    virtualNetwork: {
+      id: vnetId
+    }
+  }
+}
+
+output id string = zone.id
+`;
+
+const PRIVATE_ENDPOINT = `@description('Name of the private endpoint.')
+param name string
+
+@description('Azure region of the private endpoint (the region of its virtual network).')
+param location string
+
+@description('Resource tags.')
+param tags object = {}
+
+@description('Resource the private endpoint connects to.')
+param privateLinkServiceId string
+
+@description('Sub-resource (group id) of the target, e.g. blob or sqlServer.')
+param groupId string
+
+@description('Subnet the private endpoint is placed in.')
+param subnetId string
+
+@description('Private DNS zone the endpoint registers its address in.')
+param privateDnsZoneId string
+
+resource endpoint 'Microsoft.Network/privateEndpoints@2023-11-01' = {
+  name: name
+  location: location
+  tags: tags
+  properties: {
+    subnet: {
+      id: subnetId
+    }
+    privateLinkServiceConnections: [
+      {
+        name: name
+        properties: {
+          privateLinkServiceId: privateLinkServiceId
+          groupIds: [
+            groupId
+          ]
+        }
+      }
+    ]
+  }
+}
+
+resource dnsZoneGroup 'Microsoft.Network/privateEndpoints/privateDnsZoneGroups@2023-11-01' = {
+  parent: endpoint
+  name: 'default'
+  properties: {
+    privateDnsZoneConfigs: [
+      {
+        name: 'default'
+        properties: {
+          privateDnsZoneId: privateDnsZoneId
+        }
+      }
+    ]
+  }
+}
+
+output id string = endpoint.id
+`;
+
+const CONTAINER_APPS_ENVIRONMENT = `${COMMON_PARAMS}
+
+@description('Delegated subnet of the environment.')
+param infrastructureSubnetId string
+
+resource environment 'Microsoft.App/managedEnvironments@2024-03-01' = {
+  name: name
+  location: location
+  tags: tags
+  properties: {
+    appLogsConfiguration: {
+      destination: 'azure-monitor'
+    }
+    vnetConfiguration: {
+      infrastructureSubnetId: infrastructureSubnetId
+      internal: true
+    }
+    workloadProfiles: [
+      {
+        name: 'Consumption'
+        workloadProfileType: 'Consumption'
+      }
+    ]
+  }
+}
+
+${diagnostics('environment')}
+
+output id string = environment.id
+output defaultDomain string = environment.properties.defaultDomain
+`;
+
+const APP_SERVICE = `${COMMON_PARAMS}
+
+@description('App Service plan SKU.')
+param skuName string = 'P1v3'
+
+@description('Application Insights connection string; empty to skip.')
+param applicationInsightsConnectionString string = ''
+
+@description('Subnet for outbound VNet integration; empty to skip.')
+param virtualNetworkSubnetId string = ''
+
+${PRIVATE_ENDPOINT_PARAMS}
+
+resource plan 'Microsoft.Web/serverfarms@2023-12-01' = {
+  name: 'asp-\${name}'
+  location: location
+  tags: tags
+  kind: 'linux'
+  sku: {
+    name: skuName
+  }
+  properties: {
+    reserved: true
+  }
+}
+
+resource site 'Microsoft.Web/sites@2023-12-01' = {
+  name: name
+  location: location
+  tags: tags
+  kind: 'app,linux'
+  identity: {
+    type: 'SystemAssigned'
+  }
+  properties: {
+    serverFarmId: plan.id
+    httpsOnly: true
+    publicNetworkAccess: empty(privateEndpointSubnetId) ? 'Enabled' : 'Disabled'
+    virtualNetworkSubnetId: empty(virtualNetworkSubnetId) ? null : virtualNetworkSubnetId
+    vnetRouteAllEnabled: !empty(virtualNetworkSubnetId)
+    siteConfig: {
+      linuxFxVersion: 'DOTNETCORE|8.0'
+      alwaysOn: skuName != 'F1'
+      minTlsVersion: '1.2'
+      ftpsState: 'Disabled'
+      http20Enabled: true
+      appSettings: empty(applicationInsightsConnectionString) ? [] : [
+        {
+          name: 'APPLICATIONINSIGHTS_CONNECTION_STRING'
+          value: applicationInsightsConnectionString
+        }
+      ]
+    }
+  }
+}
+
+${diagnostics('site')}
+
+${privateEndpoint('site', 'sites')}
+
+output id string = site.id
+output name string = site.name
+output principalId string = site.identity.principalId
+output hostName string = site.properties.defaultHostName
+`;
+
+const FUNCTION_APP = `${COMMON_PARAMS}
+
+@description('Elastic Premium / dedicated plan SKU.')
+param skuName string = 'EP1'
+
+@description('Application Insights connection string; empty to skip.')
+param applicationInsightsConnectionString string = ''
+
+@description('Subnet for outbound VNet integration; empty to skip.')
+param virtualNetworkSubnetId string = ''
+
+${PRIVATE_ENDPOINT_PARAMS}
+
+@description('Private DNS zone for the blob endpoint of the runtime storage account.')
+param storagePrivateDnsZoneId string = ''
+
+var elastic = startsWith(skuName, 'EP')
+var storageName = take(replace(toLower('st\${name}\${uniqueString(resourceGroup().id, name)}'), '-', ''), 24)
+// Storage Blob Data Owner, needed by the Functions host for identity-based AzureWebJobsStorage
+var blobDataOwnerRoleId = 'b7e6dc6d-f1e8-4753-8033-0f276bb0955b'
+
+resource storage 'Microsoft.Storage/storageAccounts@2023-05-01' = {
+  name: storageName
+  location: location
+  tags: tags
+  kind: 'StorageV2'
+  sku: {
+    name: 'Standard_ZRS'
+  }
+  properties: {
+    minimumTlsVersion: 'TLS1_2'
+    supportsHttpsTrafficOnly: true
+    allowBlobPublicAccess: false
+    allowSharedKeyAccess: false
+    publicNetworkAccess: empty(privateEndpointSubnetId) ? 'Enabled' : 'Disabled'
+    networkAcls: {
+      defaultAction: empty(privateEndpointSubnetId) ? 'Allow' : 'Deny'
+      bypass: 'AzureServices'
+    }
+  }
+}
+
+resource plan 'Microsoft.Web/serverfarms@2023-12-01' = {
+  name: 'asp-\${name}'
+  location: location
+  tags: tags
+  kind: elastic ? 'elastic' : 'linux'
+  sku: {
+    name: skuName
+  }
+  properties: {
+    reserved: true
+    maximumElasticWorkerCount: elastic ? 20 : null
+  }
+}
+
+resource functionApp 'Microsoft.Web/sites@2023-12-01' = {
+  name: name
+  location: location
+  tags: tags
+  kind: 'functionapp,linux'
+  identity: {
+    type: 'SystemAssigned'
+  }
+  properties: {
+    serverFarmId: plan.id
+    httpsOnly: true
+    publicNetworkAccess: empty(privateEndpointSubnetId) ? 'Enabled' : 'Disabled'
+    virtualNetworkSubnetId: empty(virtualNetworkSubnetId) ? null : virtualNetworkSubnetId
+    vnetRouteAllEnabled: !empty(virtualNetworkSubnetId)
+    siteConfig: {
+      linuxFxVersion: 'DOTNET-ISOLATED|8.0'
+      minTlsVersion: '1.2'
+      ftpsState: 'Disabled'
+      appSettings: concat([
+        {
+          name: 'AzureWebJobsStorage__accountName'
+          value: storage.name
+        }
+        {
+          name: 'FUNCTIONS_EXTENSION_VERSION'
+          value: '~4'
+        }
+        {
+          name: 'FUNCTIONS_WORKER_RUNTIME'
+          value: 'dotnet-isolated'
+        }
+      ], empty(applicationInsightsConnectionString) ? [] : [
+        {
+          name: 'APPLICATIONINSIGHTS_CONNECTION_STRING'
+          value: applicationInsightsConnectionString
+        }
+      ])
+    }
+  }
+}
+
+resource storageAccess 'Microsoft.Authorization/roleAssignments@2022-04-01' = {
+  name: guid(storage.id, functionApp.id, blobDataOwnerRoleId)
+  scope: storage
+  properties: {
+    principalId: functionApp.identity.principalId
+    principalType: 'ServicePrincipal'
+    roleDefinitionId: subscriptionResourceId('Microsoft.Authorization/roleDefinitions', blobDataOwnerRoleId)
+  }
+}
+
+${diagnostics('functionApp')}
+
+${privateEndpoint('functionApp', 'sites')}
+
+${privateEndpoint('storage', 'blob', { module: 'storagePrivateEndpoint', zoneParam: 'storagePrivateDnsZoneId', suffix: 'storage-pe' })}
+
+output id string = functionApp.id
+output name string = functionApp.name
+output principalId string = functionApp.identity.principalId
+output hostName string = functionApp.properties.defaultHostName
+`;
+
+const CONTAINER_APP = `${COMMON_PARAMS}
+
+@description('Container Apps environment the app runs in.')
+param environmentId string
+
+@description('Container image; replace the placeholder with the workload image.')
+param containerImage string = 'mcr.microsoft.com/k8se/quickstart:latest'
+
+@description('Port the container listens on.')
+param targetPort int = 80
+
+@description('vCPU per replica.')
+param cpu string = '0.5'
+
+@description('Memory per replica.')
+param memory string = '1Gi'
+
+@minValue(0)
+param minReplicas int = 1
+
+@minValue(1)
+param maxReplicas int = 10
+
+resource containerApp 'Microsoft.App/containerApps@2024-03-01' = {
+  name: name
+  location: location
+  tags: tags
+  identity: {
+    type: 'SystemAssigned'
+  }
+  properties: {
+    environmentId: environmentId
+    workloadProfileName: 'Consumption'
+    configuration: {
+      ingress: {
+        external: false
+        targetPort: targetPort
+        transport: 'auto'
+        allowInsecure: false
+      }
+    }
+    template: {
+      containers: [
+        {
+          name: 'app'
+          image: containerImage
+          resources: {
+            cpu: json(cpu)
+            memory: memory
+          }
+        }
+      ]
+      scale: {
+        minReplicas: minReplicas
+        maxReplicas: maxReplicas
+      }
+    }
+  }
+}
+
+${diagnostics('containerApp', { logs: false })}
+
+output id string = containerApp.id
+output name string = containerApp.name
+output principalId string = containerApp.identity.principalId
+`;
+
+const KUBERNETES = `${COMMON_PARAMS}
+
+@description('Subnet of the system node pool.')
+param subnetId string
+
+@description('VM size of the system node pool.')
+param vmSize string = 'Standard_D4ds_v5'
+
+@description('Node count of the system node pool.')
+@minValue(1)
+param nodeCount int = 3
+
+@description('AKS pricing tier.')
+@allowed([
+  'Free'
+  'Standard'
+  'Premium'
+])
+param tier string = 'Standard'
+
+resource cluster 'Microsoft.ContainerService/managedClusters@2024-02-01' = {
+  name: name
+  location: location
+  tags: tags
+  identity: {
+    type: 'SystemAssigned'
+  }
+  sku: {
+    name: 'Base'
+    tier: tier
+  }
+  properties: {
+    dnsPrefix: name
+    enableRBAC: true
+    disableLocalAccounts: true
+    aadProfile: {
+      managed: true
+      enableAzureRBAC: true
+    }
+    apiServerAccessProfile: {
+      enablePrivateCluster: true
+    }
+    agentPoolProfiles: [
+      {
+        name: 'system'
+        mode: 'System'
+        count: nodeCount
+        vmSize: vmSize
+        osType: 'Linux'
+        vnetSubnetID: subnetId
+      }
+    ]
+    networkProfile: {
+      networkPlugin: 'azure'
+      networkPolicy: 'azure'
+      serviceCidr: '172.16.0.0/16'
+      dnsServiceIP: '172.16.0.10'
+    }
+    oidcIssuerProfile: {
+      enabled: true
+    }
+    securityProfile: {
+      workloadIdentity: {
+        enabled: true
+      }
+    }
+    addonProfiles: {
+      omsagent: {
+        enabled: true
+        config: {
+          logAnalyticsWorkspaceResourceID: logAnalyticsWorkspaceId
+        }
+      }
+      azureKeyvaultSecretsProvider: {
+        enabled: true
+      }
+    }
+  }
+}
+
+${diagnostics('cluster')}
+
+output id string = cluster.id
+output name string = cluster.name
+output principalId string = cluster.identity.principalId
+`;
+
+const DATABASE_ADMIN_PARAMS = `@description('Object id of the Entra ID group administering the server.')
+param administratorObjectId string
+
+@description('Display name of the Entra ID administrator group.')
+param administratorLogin string`;
+
+const SQL_DATABASE = `${COMMON_PARAMS}
+
+@description('Database SKU, e.g. GP_Gen5_2, GP_S_Gen5_2 or S1.')
+param skuName string = 'GP_Gen5_2'
+
+${DATABASE_ADMIN_PARAMS}
+
+${PRIVATE_ENDPOINT_PARAMS}
+
+resource server 'Microsoft.Sql/servers@2023-08-01-preview' = {
+  name: name
+  location: location
+  tags: tags
+  identity: {
+    type: 'SystemAssigned'
+  }
+  properties: {
+    minimalTlsVersion: '1.2'
+    publicNetworkAccess: empty(privateEndpointSubnetId) ? 'Enabled' : 'Disabled'
+    administrators: {
+      administratorType: 'ActiveDirectory'
+      azureADOnlyAuthentication: true
+      login: administratorLogin
+      sid: administratorObjectId
+      tenantId: tenant().tenantId
+      principalType: 'Group'
+    }
+  }
+}
+
+resource database 'Microsoft.Sql/servers/databases@2023-08-01-preview' = {
+  parent: server
+  name: 'sqldb-\${name}'
+  location: location
+  tags: tags
+  sku: {
+    name: skuName
+  }
+}
+
+${diagnostics('database')}
+
+${privateEndpoint('server', 'sqlServer')}
+
+output id string = server.id
+output name string = server.name
+output principalId string = server.identity.principalId
+`;
+
+const POSTGRESQL = `${COMMON_PARAMS}
+
+@description('Compute SKU, e.g. Standard_D2ds_v5.')
+param skuName string = 'Standard_D2ds_v5'
+
+@description('Compute tier matching the SKU.')
+@allowed([
+  'Burstable'
+  'GeneralPurpose'
+  'MemoryOptimized'
+])
+param tier string = 'GeneralPurpose'
+
+@description('Storage size in GB.')
+param storageSizeGB int = 128
+
+${DATABASE_ADMIN_PARAMS}
+
+${PRIVATE_ENDPOINT_PARAMS}
+
+resource server 'Microsoft.DBforPostgreSQL/flexibleServers@2023-06-01-preview' = {
+  name: name
+  location: location
+  tags: tags
+  sku: {
+    name: skuName
+    tier: tier
+  }
+  properties: {
+    version: '16'
+    storage: {
+      storageSizeGB: storageSizeGB
+    }
+    authConfig: {
+      activeDirectoryAuth: 'Enabled'
+      passwordAuth: 'Disabled'
+      tenantId: tenant().tenantId
+    }
+    network: {
+      publicNetworkAccess: empty(privateEndpointSubnetId) ? 'Enabled' : 'Disabled'
+    }
+    backup: {
+      backupRetentionDays: 14
+      geoRedundantBackup: 'Disabled'
+    }
+  }
+}
+
+resource administrator 'Microsoft.DBforPostgreSQL/flexibleServers/administrators@2023-06-01-preview' = {
+  parent: server
+  name: administratorObjectId
+  properties: {
+    principalName: administratorLogin
+    principalType: 'Group'
+    tenantId: tenant().tenantId
+  }
+}
+
+${diagnostics('server')}
+
+${privateEndpoint('server', 'postgresqlServer')}
+
+output id string = server.id
+output name string = server.name
+output principalId string = ''
+`;
+
+const COSMOS_DB = `${COMMON_PARAMS}
+
+@description('Use the serverless capacity mode instead of provisioned throughput.')
+param serverless bool = false
+
+${PRIVATE_ENDPOINT_PARAMS}
+
+resource account 'Microsoft.DocumentDB/databaseAccounts@2024-05-15' = {
+  name: name
+  location: location
+  tags: tags
+  kind: 'GlobalDocumentDB'
+  identity: {
+    type: 'SystemAssigned'
+  }
+  properties: {
+    databaseAccountOfferType: 'Standard'
+    locations: [
+      {
+        locationName: location
+        failoverPriority: 0
+      }
+    ]
+    consistencyPolicy: {
+      defaultConsistencyLevel: 'Session'
+    }
+    capabilities: serverless ? [
+      {
+        name: 'EnableServerless'
+      }
+    ] : []
+    disableLocalAuth: true
+    disableKeyBasedMetadataWriteAccess: true
+    minimalTlsVersion: 'Tls12'
+    publicNetworkAccess: empty(privateEndpointSubnetId) ? 'Enabled' : 'Disabled'
+  }
+}
+
+${diagnostics('account')}
+
+${privateEndpoint('account', 'Sql')}
+
+output id string = account.id
+output name string = account.name
+output principalId string = account.identity.principalId
+`;
+
+const REDIS = `${COMMON_PARAMS}
+
+@allowed([
+  'Basic'
+  'Standard'
+  'Premium'
+])
+param skuName string = 'Standard'
+
+@allowed([
+  'C'
+  'P'
+])
+param family string = 'C'
+
+@minValue(0)
+@maxValue(6)
+param capacity int = 1
+
+${PRIVATE_ENDPOINT_PARAMS}
+
+resource cache 'Microsoft.Cache/redis@2023-08-01' = {
+  name: name
+  location: location
+  tags: tags
+  identity: {
+    type: 'SystemAssigned'
+  }
+  properties: {
+    sku: {
+      name: skuName
+      family: family
+      capacity: capacity
+    }
+    enableNonSslPort: false
+    minimumTlsVersion: '1.2'
+    publicNetworkAccess: empty(privateEndpointSubnetId) ? 'Enabled' : 'Disabled'
+    disableAccessKeyAuthentication: true
+    redisConfiguration: {
+      'aad-enabled': 'true'
+    }
+  }
+}
+
+${diagnostics('cache')}
+
+${privateEndpoint('cache', 'redisCache')}
+
+output id string = cache.id
+output name string = cache.name
+output principalId string = cache.identity.principalId
+`;
+
+const STORAGE_ACCOUNT = `${COMMON_PARAMS}
+
+@description('Storage SKU, e.g. Standard_ZRS.')
+param skuName string = 'Standard_ZRS'
+
+${PRIVATE_ENDPOINT_PARAMS}
+
+resource storage 'Microsoft.Storage/storageAccounts@2023-05-01' = {
+  name: name
+  location: location
+  tags: tags
+  kind: 'StorageV2'
+  sku: {
+    name: skuName
+  }
+  properties: {
+    accessTier: 'Hot'
+    minimumTlsVersion: 'TLS1_2'
+    supportsHttpsTrafficOnly: true
+    allowBlobPublicAccess: false
+    allowSharedKeyAccess: false
+    defaultToOAuthAuthentication: true
+    publicNetworkAccess: empty(privateEndpointSubnetId) ? 'Enabled' : 'Disabled'
+    networkAcls: {
+      defaultAction: empty(privateEndpointSubnetId) ? 'Allow' : 'Deny'
+      bypass: 'AzureServices'
+    }
+  }
+}
+
+resource blobService 'Microsoft.Storage/storageAccounts/blobServices@2023-05-01' = {
+  parent: storage
+  name: 'default'
+  properties: {
+    deleteRetentionPolicy: {
+      enabled: true
+      days: 14
+    }
+    containerDeleteRetentionPolicy: {
+      enabled: true
+      days: 14
+    }
+  }
+}
+
+${diagnostics('storage', { logs: false, metric: 'Transaction' })}
+
+${diagnostics('blobService', { metric: 'Transaction', settingName: 'diag-\${name}-blob' })}
+
+${privateEndpoint('storage', 'blob')}
+
+output id string = storage.id
+output name string = storage.name
+output principalId string = ''
+`;
+
+const KEY_VAULT = `${COMMON_PARAMS}
+
+@allowed([
+  'standard'
+  'premium'
+])
+param skuName string = 'standard'
+
+${PRIVATE_ENDPOINT_PARAMS}
+
+resource vault 'Microsoft.KeyVault/vaults@2023-07-01' = {
+  name: name
+  location: location
+  tags: tags
+  properties: {
+    tenantId: tenant().tenantId
+    sku: {
+      family: 'A'
+      name: skuName
+    }
+    enableRbacAuthorization: true
+    enableSoftDelete: true
+    softDeleteRetentionInDays: 90
+    enablePurgeProtection: true
+    publicNetworkAccess: empty(privateEndpointSubnetId) ? 'Enabled' : 'Disabled'
+    networkAcls: {
+      defaultAction: empty(privateEndpointSubnetId) ? 'Allow' : 'Deny'
+      bypass: 'AzureServices'
+    }
+  }
+}
+
+${diagnostics('vault')}
+
+${privateEndpoint('vault', 'vault')}
+
+output id string = vault.id
+output name string = vault.name
+output principalId string = ''
+`;
+
+const OPENAI = `${COMMON_PARAMS}
+
+param skuName string = 'S0'
+
+${PRIVATE_ENDPOINT_PARAMS}
+
+resource account 'Microsoft.CognitiveServices/accounts@2023-05-01' = {
+  name: name
+  location: location
+  tags: tags
+  kind: 'OpenAI'
+  identity: {
+    type: 'SystemAssigned'
+  }
+  sku: {
+    name: skuName
+  }
+  properties: {
+    customSubDomainName: name
+    disableLocalAuth: true
+    publicNetworkAccess: empty(privateEndpointSubnetId) ? 'Enabled' : 'Disabled'
+    networkAcls: {
+      defaultAction: empty(privateEndpointSubnetId) ? 'Allow' : 'Deny'
+    }
+  }
+}
+
+${diagnostics('account')}
+
+${privateEndpoint('account', 'account')}
+
+output id string = account.id
+output name string = account.name
+output principalId string = account.identity.principalId
+`;
+
+const AI_SEARCH = `${COMMON_PARAMS}
+
+@allowed([
+  'basic'
+  'standard'
+  'standard2'
+  'standard3'
+])
+param skuName string = 'standard'
+
+${PRIVATE_ENDPOINT_PARAMS}
+
+resource search 'Microsoft.Search/searchServices@2023-11-01' = {
+  name: name
+  location: location
+  tags: tags
+  identity: {
+    type: 'SystemAssigned'
+  }
+  sku: {
+    name: skuName
+  }
+  properties: {
+    replicaCount: 1
+    partitionCount: 1
+    hostingMode: 'default'
+    disableLocalAuth: true
+    publicNetworkAccess: empty(privateEndpointSubnetId) ? 'enabled' : 'disabled'
+  }
+}
+
+${diagnostics('search')}
+
+${privateEndpoint('search', 'searchService')}
+
+output id string = search.id
+output name string = search.name
+output principalId string = search.identity.principalId
+`;
+
+const SERVICE_BUS = `${COMMON_PARAMS}
+
+@allowed([
+  'Basic'
+  'Standard'
+  'Premium'
+])
+param skuName string = 'Standard'
+
+${PRIVATE_ENDPOINT_PARAMS}
+
+resource namespace 'Microsoft.ServiceBus/namespaces@2022-10-01-preview' = {
+  name: name
+  location: location
+  tags: tags
+  identity: {
+    type: 'SystemAssigned'
+  }
+  sku: {
+    name: skuName
+    tier: skuName
+    capacity: skuName == 'Premium' ? 1 : null
+  }
+  properties: {
+    minimumTlsVersion: '1.2'
+    disableLocalAuth: true
+    publicNetworkAccess: empty(privateEndpointSubnetId) ? 'Enabled' : 'Disabled'
+  }
+}
+
+${diagnostics('namespace')}
+
+${privateEndpoint('namespace', 'namespace')}
+
+output id string = namespace.id
+output name string = namespace.name
+output principalId string = namespace.identity.principalId
+`;
+
+const EVENT_HUBS = `${COMMON_PARAMS}
+
+@allowed([
+  'Basic'
+  'Standard'
+  'Premium'
+])
+param skuName string = 'Standard'
+
+@description('Throughput / processing units.')
+@minValue(1)
+param capacity int = 1
+
+${PRIVATE_ENDPOINT_PARAMS}
+
+resource namespace 'Microsoft.EventHub/namespaces@2024-01-01' = {
+  name: name
+  location: location
+  tags: tags
+  identity: {
+    type: 'SystemAssigned'
+  }
+  sku: {
+    name: skuName
+    tier: skuName
+    capacity: capacity
+  }
+  properties: {
+    minimumTlsVersion: '1.2'
+    disableLocalAuth: true
+    publicNetworkAccess: empty(privateEndpointSubnetId) ? 'Enabled' : 'Disabled'
+  }
+}
+
+${diagnostics('namespace')}
+
+${privateEndpoint('namespace', 'namespace')}
+
+output id string = namespace.id
+output name string = namespace.name
+output principalId string = namespace.identity.principalId
+`;
+
+const API_MANAGEMENT = `${COMMON_PARAMS}
+
+@allowed([
+  'Consumption'
+  'Developer'
+  'Basic'
+  'Standard'
+  'Premium'
+])
+param skuName string = 'Developer'
+
+@minValue(0)
+param capacity int = 1
+
+@description('Publisher e-mail shown in the developer portal.')
+param publisherEmail string
+
+@description('Publisher organisation shown in the developer portal.')
+param publisherName string
+
+resource apim 'Microsoft.ApiManagement/service@2023-05-01-preview' = {
+  name: name
+  location: location
+  tags: tags
+  identity: {
+    type: 'SystemAssigned'
+  }
+  sku: {
+    name: skuName
+    capacity: capacity
+  }
+  properties: {
+    publisherEmail: publisherEmail
+    publisherName: publisherName
+    customProperties: {
+      'Microsoft.WindowsAzure.ApiManagement.Gateway.Security.Protocols.Tls10': 'false'
+      'Microsoft.WindowsAzure.ApiManagement.Gateway.Security.Protocols.Tls11': 'false'
+    }
+  }
+}
+
+${diagnostics('apim')}
+
+output id string = apim.id
+output name string = apim.name
+output principalId string = apim.identity.principalId
+output hostName string = replace(apim.properties.gatewayUrl, 'https://', '')
+`;
+
+// Global resources: no location, and a WAF policy name without hyphens
+const FRONT_DOOR = `@description('Name of the profile.')
+param name string
+
+@description('Resource tags.')
+param tags object = {}
+
+@description('Log Analytics workspace receiving the diagnostic logs and metrics.')
+param logAnalyticsWorkspaceId string
+
+@allowed([
+  'Standard_AzureFrontDoor'
+  'Premium_AzureFrontDoor'
+])
+param skuName string = 'Premium_AzureFrontDoor'
+
+@description('One endpoint per origin: name, hostName, and privateLinkResourceId / privateLinkGroupId / privateLinkLocation (empty for public origins).')
+param origins array = []
+
+resource profile 'Microsoft.Cdn/profiles@2024-02-01' = {
+  name: name
+  location: 'global'
+  tags: tags
+  sku: {
+    name: skuName
+  }
+}
+
+resource wafPolicy 'Microsoft.Network/FrontDoorWebApplicationFirewallPolicies@2024-02-01' = {
+  name: replace('waf\${name}', '-', '')
+  location: 'global'
+  tags: tags
+  sku: {
+    name: skuName
+  }
+  properties: {
+    policySettings: {
+      enabledState: 'Enabled'
+      mode: 'Prevention'
+    }
+    managedRules: {
+      // Managed rule sets need Premium
+      managedRuleSets: skuName == 'Premium_AzureFrontDoor' ? [
+        {
+          ruleSetType: 'Microsoft_DefaultRuleSet'
+          ruleSetVersion: '2.1'
+          ruleSetAction: 'Block'
+        }
+        {
+          ruleSetType: 'Microsoft_BotManagerRuleSet'
+          ruleSetVersion: '1.0'
+        }
+      ] : []
+    }
+  }
+}
+
+resource endpoints 'Microsoft.Cdn/profiles/afdEndpoints@2024-02-01' = [for origin in origins: {
+  parent: profile
+  name: take('\${name}-\${origin.name}', 46)
+  location: 'global'
+  tags: tags
+  properties: {
+    enabledState: 'Enabled'
+  }
+}]
+
+resource originGroups 'Microsoft.Cdn/profiles/originGroups@2024-02-01' = [for origin in origins: {
+  parent: profile
+  name: origin.name
+  properties: {
+    loadBalancingSettings: {
+      sampleSize: 4
+      successfulSamplesRequired: 3
+      additionalLatencyInMilliseconds: 50
+    }
+    healthProbeSettings: {
+      probePath: '/'
+      probeRequestType: 'HEAD'
+      probeProtocol: 'Https'
+      probeIntervalInSeconds: 100
+    }
+  }
+}]
+
+resource frontDoorOrigins 'Microsoft.Cdn/profiles/originGroups/origins@2024-02-01' = [for (origin, i) in origins: {
+  parent: originGroups[i]
+  name: origin.name
+  properties: {
+    hostName: origin.hostName
+    originHostHeader: origin.hostName
+    httpsPort: 443
+    priority: 1
+    weight: 1000
+    enforceCertificateNameCheck: true
+    sharedPrivateLinkResource: empty(origin.privateLinkResourceId) ? null : {
+      privateLink: {
+        id: origin.privateLinkResourceId
+      }
+      groupId: origin.privateLinkGroupId
+      privateLinkLocation: origin.privateLinkLocation
+      requestMessage: 'Azure Front Door'
+    }
+  }
+}]
+
+resource routes 'Microsoft.Cdn/profiles/afdEndpoints/routes@2024-02-01' = [for (origin, i) in origins: {
+  parent: endpoints[i]
+  name: 'default'
+  dependsOn: [
+    frontDoorOrigins
+  ]
+  properties: {
+    originGroup: {
+      id: originGroups[i].id
+    }
+    supportedProtocols: [
+      'Http'
+      'Https'
+    ]
+    patternsToMatch: [
+      '/*'
+    ]
+    forwardingProtocol: 'HttpsOnly'
+    httpsRedirect: 'Enabled'
+    linkToDefaultDomain: 'Enabled'
+  }
+}]
+
+resource securityPolicy 'Microsoft.Cdn/profiles/securityPolicies@2024-02-01' = if (!empty(origins)) {
+  parent: profile
+  name: 'waf'
+  properties: {
+    parameters: {
+      type: 'WebApplicationFirewall'
+      wafPolicy: {
+        id: wafPolicy.id
+      }
+      associations: [
+        {
+          domains: [for (origin, i) in origins: {
+            id: endpoints[i].id
+          }]
+          patternsToMatch: [
+            '/*'
+          ]
+        }
+      ]
+    }
+  }
+}
+
+${diagnostics('profile')}
+
+output id string = profile.id
+output name string = profile.name
+output principalId string = ''
+output endpointHostNames array = [for (origin, i) in origins: endpoints[i].properties.hostName]
+`;
+
+const APPLICATION_GATEWAY = `${COMMON_PARAMS}
+
+@allowed([
+  'Standard_v2'
+  'WAF_v2'
+])
+param skuName string = 'WAF_v2'
+
+@minValue(0)
+param minCapacity int = 2
+
+@minValue(2)
+param maxCapacity int = 10
+
+@description('Dedicated subnet of the gateway.')
+param subnetId string
+
+@description('Host name of the backend the listener routes to; empty for an empty backend pool.')
+param backendHostName string = ''
+
+var waf = skuName == 'WAF_v2'
+
+resource publicIp 'Microsoft.Network/publicIPAddresses@2023-11-01' = {
+  name: 'pip-\${name}'
+  location: location
+  tags: tags
+  sku: {
+    name: 'Standard'
+  }
+  properties: {
+    publicIPAllocationMethod: 'Static'
+  }
+}
+
+resource wafPolicy 'Microsoft.Network/ApplicationGatewayWebApplicationFirewallPolicies@2023-11-01' = if (waf) {
+  name: 'waf-\${name}'
+  location: location
+  tags: tags
+  properties: {
+    policySettings: {
+      state: 'Enabled'
+      mode: 'Prevention'
+      requestBodyCheck: true
+    }
+    managedRules: {
+      managedRuleSets: [
+        {
+          ruleSetType: 'OWASP'
+          ruleSetVersion: '3.2'
+        }
+      ]
+    }
+  }
+}
+
+resource gateway 'Microsoft.Network/applicationGateways@2023-11-01' = {
+  name: name
+  location: location
+  tags: tags
+  properties: {
+    sku: {
+      name: skuName
+      tier: skuName
+    }
+    autoscaleConfiguration: {
+      minCapacity: minCapacity
+      maxCapacity: maxCapacity
+    }
+    firewallPolicy: waf ? {
+      id: wafPolicy.id
+    } : null
+    sslPolicy: {
+      policyType: 'Predefined'
+      policyName: 'AppGwSslPolicy20220101'
+    }
+    gatewayIPConfigurations: [
+      {
+        name: 'gateway'
+        properties: {
+          subnet: {
+            id: subnetId
+          }
+        }
+      }
+    ]
+    frontendIPConfigurations: [
+      {
+        name: 'public'
+        properties: {
+          publicIPAddress: {
+            id: publicIp.id
+          }
+        }
+      }
+    ]
+    frontendPorts: [
+      {
+        name: 'http'
+        properties: {
+          port: 80
+        }
+      }
+    ]
+    backendAddressPools: [
+      {
+        name: 'backend'
+        properties: {
+          backendAddresses: empty(backendHostName) ? [] : [
+            {
+              fqdn: backendHostName
+            }
+          ]
+        }
+      }
+    ]
+    backendHttpSettingsCollection: [
+      {
+        name: 'https'
+        properties: {
+          port: 443
+          protocol: 'Https'
+          cookieBasedAffinity: 'Disabled'
+          pickHostNameFromBackendAddress: true
+          requestTimeout: 30
+        }
+      }
+    ]
+    httpListeners: [
+      {
+        name: 'http'
+        properties: {
+          frontendIPConfiguration: {
+            id: resourceId('Microsoft.Network/applicationGateways/frontendIPConfigurations', name, 'public')
+          }
+          frontendPort: {
+            id: resourceId('Microsoft.Network/applicationGateways/frontendPorts', name, 'http')
+          }
+          protocol: 'Http'
+        }
+      }
+    ]
+    requestRoutingRules: [
+      {
+        name: 'default'
+        properties: {
+          ruleType: 'Basic'
+          priority: 100
+          httpListener: {
+            id: resourceId('Microsoft.Network/applicationGateways/httpListeners', name, 'http')
+          }
+          backendAddressPool: {
+            id: resourceId('Microsoft.Network/applicationGateways/backendAddressPools', name, 'backend')
+          }
+          backendHttpSettings: {
+            id: resourceId('Microsoft.Network/applicationGateways/backendHttpSettingsCollection', name, 'https')
+          }
+        }
+      }
+    ]
+  }
+}
+
+${diagnostics('gateway')}
+
+output id string = gateway.id
+output name string = gateway.name
+output principalId string = ''
+output publicIpAddress string = publicIp.properties.ipAddress
+`;
+
+/**
+ * Module file path (relative to main.bicep) -> template
+ */
+export const BICEP_MODULE_TEMPLATES: Record<string, string> = {
+  [MONITORING_MODULE]: MONITORING,
+  [NETWORK_MODULE]: NETWORK,
+  [PRIVATE_DNS_ZONE_MODULE]: PRIVATE_DNS_ZONE,
+  [PRIVATE_ENDPOINT_MODULE]: PRIVATE_ENDPOINT,
+  [CONTAINER_APPS_ENVIRONMENT_MODULE]: CONTAINER_APPS_ENVIRONMENT,
+  [SERVICE_MODULES['app-service']]: APP_SERVICE,
+  [SERVICE_MODULES['function-app']]: FUNCTION_APP,
+  [SERVICE_MODULES['container-app']]: CONTAINER_APP,
+  [SERVICE_MODULES.kubernetes]: KUBERNETES,
+  [SERVICE_MODULES['sql-database']]: SQL_DATABASE,
+  [SERVICE_MODULES.postgresql]: POSTGRESQL,
+  [SERVICE_MODULES['cosmos-db']]: COSMOS_DB,
+  [SERVICE_MODULES.redis]: REDIS,
+  [SERVICE_MODULES['storage-account']]: STORAGE_ACCOUNT,
+  [SERVICE_MODULES['key-vault']]: KEY_VAULT,
+  [SERVICE_MODULES.openai]: OPENAI,
+  [SERVICE_MODULES['ai-search']]: AI_SEARCH,
+  [SERVICE_MODULES['service-bus']]: SERVICE_BUS,
+  [SERVICE_MODULES['event-hubs']]: EVENT_HUBS,
+  [SERVICE_MODULES['api-management']]: API_MANAGEMENT,
+  [SERVICE_MODULES['front-door']]: FRONT_DOOR,
+  [SERVICE_MODULES['application-gateway']]: APPLICATION_GATEWAY
+};
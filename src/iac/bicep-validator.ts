@@ -0,0 +1,646 @@
+/**
+ * Bicep Validator
+ * Offline check of a generated Bicep project without the Bicep CLI: string and
+ * bracket syntax, the top-level declaration grammar, symbol references and
+ * function names, resource types and API versions against a local schema,
+ * module paths, parameters and outputs, and the parameters file. Covers the
+ * subset of Bicep the generator emits.
+ */
+
+import path from 'path';
+import { ValidationResult } from '../utils/schema-validator.js';
+
+interface Token {
+  kind: 'ident' | 'string' | 'number' | 'punct' | 'newline';
+  value: string;
+  line: number;
+}
+
+interface Statement {
+  line: number;
+  tokens: Token[];
+  decorators: string[];
+}
+
+interface Declaration {
+  kind: 'param' | 'var' | 'resource' | 'module' | 'output';
+  name: string;
+  line: number;
+  // param/output type
+  type?: string;
+  // param has a default value
+  optional?: boolean;
+  // resource type or module path
+  target?: string;
+  statement: Statement;
+}
+
+interface ResourceSchema {
+  apiVersions: string[];
+  // Tracked resources need a location
+  tracked?: boolean;
+  // Child resources need a parent (or a nested name)
+  child?: boolean;
+  // Extension resources need a scope
+  extension?: boolean;
+  requires?: string[];
+  requiredProperties?: string[];
+}
+
+const NETWORK_API_VERSIONS = ['2023-04-01', '2023-05-01', '2023-06-01', '2023-09-01', '2023-11-01', '2024-01-01'];
+const WEB_API_VERSIONS = ['2022-09-01', '2023-01-01', '2023-12-01'];
+const CDN_API_VERSIONS = ['2023-05-01', '2024-02-01'];
+
+// Local schema of the resource types the generator is allowed to emit
+const RESOURCE_SCHEMAS: Record<string, ResourceSchema> = {
+  'Microsoft.OperationalInsights/workspaces': { apiVersions: ['2022-10-01', '2023-09-01'], tracked: true },
+  'Microsoft.Insights/components': { apiVersions: ['2020-02-02'], tracked: true, requires: ['kind'], requiredProperties: ['Application_Type'] },
+  'Microsoft.Insights/diagnosticSettings': { apiVersions: ['2021-05-01-preview'], extension: true, requiredProperties: ['workspaceId'] },
+  'Microsoft.Authorization/roleAssignments': { apiVersions: ['2022-04-01'], extension: true, requiredProperties: ['principalId', 'roleDefinitionId'] },
+  'Microsoft.Network/networkSecurityGroups': { apiVersions: NETWORK_API_VERSIONS, tracked: true },
+  'Microsoft.Network/virtualNetworks': { apiVersions: NETWORK_API_VERSIONS, tracked: true, requiredProperties: ['addressSpace'] },
+  'Microsoft.Network/virtualNetworks/subnets': { apiVersions: NETWORK_API_VERSIONS, child: true },
+  'Microsoft.Network/privateEndpoints': { apiVersions: NETWORK_API_VERSIONS, tracked: true, requiredProperties: ['subnet', 'privateLinkServiceConnections'] },
+  'Microsoft.Network/privateEndpoints/privateDnsZoneGroups': { apiVersions: NETWORK_API_VERSIONS, child: true, requiredProperties: ['privateDnsZoneConfigs'] },
+  'Microsoft.Network/publicIPAddresses': { apiVersions: NETWORK_API_VERSIONS, tracked: true, requires: ['sku'] },
+  'Microsoft.Network/applicationGateways': { apiVersions: NETWORK_API_VERSIONS, tracked: true, requiredProperties: ['sku', 'gatewayIPConfigurations'] },
+  'Microsoft.Network/ApplicationGatewayWebApplicationFirewallPolicies': { apiVersions: NETWORK_API_VERSIONS, tracked: true, requiredProperties: ['managedRules'] },
+  'Microsoft.Network/FrontDoorWebApplicationFirewallPolicies': { apiVersions: ['2022-05-01', '2024-02-01'], tracked: true, requires: ['sku'] },
+  'Microsoft.Cdn/profiles': { apiVersions: CDN_API_VERSIONS, tracked: true, requires: ['sku'] },
+  'Microsoft.Cdn/profiles/afdEndpoints': { apiVersions: CDN_API_VERSIONS, tracked: true, child: true },
+  'Microsoft.Cdn/profiles/originGroups': { apiVersions: CDN_API_VERSIONS, child: true },
+  'Microsoft.Cdn/profiles/originGroups/origins': { apiVersions: CDN_API_VERSIONS, child: true, requiredProperties: ['hostName'] },
+  'Microsoft.Cdn/profiles/afdEndpoints/routes': { apiVersions: CDN_API_VERSIONS, child: true, requiredProperties: ['originGroup'] },
+  'Microsoft.Cdn/profiles/securityPolicies': { apiVersions: CDN_API_VERSIONS, child: true, requiredProperties: ['parameters'] },
+  'Microsoft.Network/privateDnsZones': { apiVersions: ['2020-06-01', '2024-06-01'], tracked: true },
+  'Microsoft.Network/privateDnsZones/virtualNetworkLinks': { apiVersions: ['2020-06-01', '2024-06-01'], tracked: true, child: true, requiredProperties: ['virtualNetwork'] },
+  'Microsoft.Web/serverfarms': { apiVersions: WEB_API_VERSIONS, tracked: true, requires: ['sku'] },
+  'Microsoft.Web/sites': { apiVersions: WEB_API_VERSIONS, tracked: true, requiredProperties: ['serverFarmId'] },
+  'Microsoft.App/managedEnvironments': { apiVersions: ['2023-05-01', '2024-03-01'], tracked: true },
+  'Microsoft.App/containerApps': { apiVersions: ['2023-05-01', '2024-03-01'], tracked: true, requiredProperties: ['environmentId', 'template'] },
+  'Microsoft.ContainerService/managedClusters': { apiVersions: ['2023-10-01', '2024-01-01', '2024-02-01'], tracked: true, requiredProperties: ['dnsPrefix', 'agentPoolProfiles'] },
+  'Microsoft.Sql/servers': { apiVersions: ['2021-11-01', '2022-05-01-preview', '2023-05-01-preview', '2023-08-01-preview'], tracked: true },
+  'Microsoft.Sql/servers/databases': { apiVersions: ['2021-11-01', '2022-05-01-preview', '2023-05-01-preview', '2023-08-01-preview'], tracked: true, child: true },
+  'Microsoft.DBforPostgreSQL/flexibleServers': { apiVersions: ['2022-12-01', '2023-03-01-preview', '2023-06-01-preview'], tracked: true, requires: ['sku'] },
+  'Microsoft.DBforPostgreSQL/flexibleServers/administrators': { apiVersions: ['2022-12-01', '2023-03-01-preview', '2023-06-01-preview'], child: true, requiredProperties: ['principalName', 'principalType'] },
+  'Microsoft.DocumentDB/databaseAccounts': { apiVersions: ['2023-04-15', '2023-11-15', '2024-05-15'], tracked: true, requiredProperties: ['databaseAccountOfferType', 'locations'] },
+  'Microsoft.Cache/redis': { apiVersions: ['2023-04-01', '2023-08-01', '2024-03-01'], tracked: true, requiredProperties: ['sku'] },
+  'Microsoft.Storage/storageAccounts': { apiVersions: ['2022-09-01', '2023-01-01', '2023-04-01', '2023-05-01'], tracked: true, requires: ['sku', 'kind'] },
+  'Microsoft.Storage/storageAccounts/blobServices': { apiVersions: ['2022-09-01', '2023-01-01', '2023-04-01', '2023-05-01'], child: true },
+  'Microsoft.KeyVault/vaults': { apiVersions: ['2022-07-01', '2023-02-01', '2023-07-01'], tracked: true, requiredProperties: ['tenantId', 'sku'] },
+  'Microsoft.CognitiveServices/accounts': { apiVersions: ['2023-05-01', '2023-10-01-preview', '2024-10-01'], tracked: true, requires: ['sku', 'kind'] },
+  'Microsoft.Search/searchServices': { apiVersions: ['2022-09-01', '2023-11-01'], tracked: true, requires: ['sku'] },
+  'Microsoft.ServiceBus/namespaces': { apiVersions: ['2021-11-01', '2022-10-01-preview'], tracked: true, requires: ['sku'] },
+  'Microsoft.EventHub/namespaces': { apiVersions: ['2022-10-01-preview', '2024-01-01'], tracked: true, requires: ['sku'] },
+  'Microsoft.ApiManagement/service': { apiVersions: ['2022-08-01', '2023-03-01-preview', '2023-05-01-preview'], tracked: true, requires: ['sku'], requiredProperties: ['publisherEmail', 'publisherName'] }
+};
+
+const RESOURCE_KEYS = ['name', 'location', 'tags', 'sku', 'kind', 'identity', 'properties', 'parent', 'scope', 'zones', 'plan', 'dependsOn', 'extendedLocation', 'managedBy', 'etag'];
+const MODULE_KEYS = ['name', 'params', 'scope', 'dependsOn'];
+const PARAM_TYPES = ['string', 'int', 'bool', 'object', 'array'];
+const TARGET_SCOPES = ['resourceGroup', 'subscription', 'managementGroup', 'tenant'];
+const DECORATORS = ['description', 'secure', 'allowed', 'minValue', 'maxValue', 'minLength', 'maxLength', 'metadata', 'batchSize', 'export', 'sealed'];
+const KEYWORDS = ['true', 'false', 'null', 'if', 'for', 'in', 'existing'];
+
+const FUNCTIONS = [
+  'any', 'array', 'base64', 'base64ToString', 'bool', 'cidrSubnet', 'coalesce', 'concat', 'contains', 'dataUri',
+  'dateTimeAdd', 'deployment', 'empty', 'endsWith', 'environment', 'extensionResourceId', 'filter', 'first', 'format',
+  'guid', 'indexOf', 'int', 'intersection', 'items', 'join', 'json', 'last', 'lastIndexOf', 'length', 'listKeys', 'map',
+  'max', 'min', 'padLeft', 'range', 'reduce', 'reference', 'replace', 'resourceGroup', 'resourceId', 'skip', 'sort',
+  'split', 'startsWith', 'string', 'subscription', 'subscriptionResourceId', 'substring', 'take', 'tenant',
+  'tenantResourceId', 'toLower', 'toObject', 'toUpper', 'trim', 'union', 'uniqueString', 'uri', 'uriComponent', 'utcNow'
+];
+
+const STRING_ESCAPES = ['\\', '\'', 'n', 'r', 't', '$'];
+
+/**
+ * Validate every .bicep file of the project (paths relative to the project
+ * root), the entry template's module graph and its parameters file
+ */
+export function validateBicepProject(
+  files: Record<string, string>,
+  entry = 'main.bicep',
+  parametersFile = 'main.parameters.json'
+): ValidationResult {
+  const errors: string[] = [];
+  const parsed = new Map<string, Declaration[]>();
+
+  for (const [file, content] of Object.entries(files)) {
+    if (!file.endsWith('.bicep')) continue;
+    const fileErrors: string[] = [];
+    parsed.set(file, parseBicep(content, fileErrors));
+    errors.push(...fileErrors.map(error => `${file} ${error}`));
+  }
+
+  for (const [file, declarations] of parsed) {
+    checkModules(file, declarations, parsed, errors);
+  }
+
+  if (!parsed.has(entry)) {
+    errors.push(`${entry} is missing`);
+  } else if (files[parametersFile] !== undefined) {
+    checkParametersFile(parametersFile, files[parametersFile], parsed.get(entry)!, errors);
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Parse one template into its declarations; syntax, reference and schema
+ * errors are collected with their line numbers
+ */
+function parseBicep(text: string, errors: string[]): Declaration[] {
+  const tokens = tokenize(text, errors);
+  checkBrackets(tokens, errors);
+  const statements = splitStatements(tokens, errors);
+
+  const declarations: Declaration[] = [];
+  let targetScopeSeen = false;
+
+  for (const statement of statements) {
+    const [first, second, third] = statement.tokens;
+    const line = statement.line;
+
+    if (first.value === 'targetScope') {
+      if (targetScopeSeen) errors.push(`line ${line}: targetScope declared twice`);
+      targetScopeSeen = true;
+      const value = statement.tokens[2];
+      if (second?.value !== '=' || value?.kind !== 'string' || !TARGET_SCOPES.includes(value.value)) {
+        errors.push(`line ${line}: targetScope must be one of ${TARGET_SCOPES.map(scope => `'${scope}'`).join(', ')}`);
+      }
+      continue;
+    }
+
+    if (first.kind !== 'ident' || !['param', 'var', 'resource', 'module', 'output', 'metadata'].includes(first.value)) {
+      errors.push(`line ${line}: expected a declaration, found "${first.value}"`);
+      continue;
+    }
+    if (first.value === 'metadata') continue;
+
+    if (second?.kind !== 'ident' || KEYWORDS.includes(second.value)) {
+      errors.push(`line ${line}: ${first.value} needs a symbol name`);
+      continue;
+    }
+    const declaration: Declaration = { kind: first.value as Declaration['kind'], name: second.value, line, statement };
+    const rest = statement.tokens.slice(2);
+
+    switch (declaration.kind) {
+      case 'param':
+      case 'output': {
+        if (third?.kind !== 'ident' || !PARAM_TYPES.includes(third.value)) {
+          errors.push(`line ${line}: ${declaration.kind} "${second.value}" needs a type (${PARAM_TYPES.join(', ')})`);
+          break;
+        }
+        declaration.type = third.value;
+        const assignment = rest[1];
+        if (declaration.kind === 'output' && assignment?.value !== '=') {
+          errors.push(`line ${line}: output "${second.value}" needs a value`);
+        } else if (assignment && assignment.value !== '=') {
+          errors.push(`line ${line}: unexpected "${assignment.value}" after the ${declaration.kind} type`);
+        } else if (assignment) {
+          declaration.optional = true;
+          if (rest.length < 3) errors.push(`line ${line}: ${declaration.kind} "${second.value}" has an empty value`);
+          checkLiteralType(declaration.type, rest.slice(2), line, errors);
+        }
+        break;
+      }
+      case 'var':
+        if (rest[0]?.value !== '=' || rest.length < 2) errors.push(`line ${line}: var "${second.value}" needs a value`);
+        break;
+      case 'resource':
+      case 'module': {
+        if (third?.kind !== 'string') {
+          errors.push(`line ${line}: ${declaration.kind} "${second.value}" needs a ${declaration.kind === 'resource' ? 'type' : 'path'} string`);
+          break;
+        }
+        declaration.target = third.value;
+        const equals = rest[1]?.value === 'existing' ? 2 : 1;
+        if (rest[equals]?.value !== '=' || bodyStart(statement.tokens, equals + 3) < 0) {
+          errors.push(`line ${line}: ${declaration.kind} "${second.value}" needs "= {" (optionally "= if (...) {")`);
+        }
+        break;
+      }
+    }
+    declarations.push(declaration);
+  }
+
+  checkSymbols(declarations, errors);
+  declarations.filter(declaration => declaration.kind === 'resource').forEach(declaration => checkResource(declaration, errors));
+  return declarations;
+}
+
+function tokenize(text: string, errors: string[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let line = 1;
+
+  const push = (kind: Token['kind'], value: string) => tokens.push({ kind, value, line });
+
+  // Reads one token; returns false at the end of input
+  const readToken = (): boolean => {
+    while (i < text.length && (text[i] === ' ' || text[i] === '\t' || text[i] === '\r')) i++;
+    if (i >= text.length) return false;
+    const char = text[i];
+
+    if (char === '\n') {
+      push('newline', '\n');
+      line++;
+      i++;
+    } else if (text.startsWith('//', i)) {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      const comment = text.slice(i, end < 0 ? text.length : end + 2);
+      if (end < 0) errors.push(`line ${line}: unterminated comment`);
+      line += comment.split('\n').length - 1;
+      i += comment.length;
+    } else if (text.startsWith("'''", i)) {
+      const end = text.indexOf("'''", i + 3);
+      const value = text.slice(i + 3, end < 0 ? text.length : end);
+      if (end < 0) errors.push(`line ${line}: unterminated multi-line string`);
+      push('string', value);
+      line += value.split('\n').length - 1;
+      i += value.length + 6;
+    } else if (char === "'") {
+      readString();
+    } else if (/[0-9]/.test(char)) {
+      const start = i;
+      while (i < text.length && /[0-9]/.test(text[i])) i++;
+      push('number', text.slice(start, i));
+    } else if (/[A-Za-z_]/.test(char)) {
+      const start = i;
+      while (i < text.length && /[A-Za-z0-9_]/.test(text[i])) i++;
+      push('ident', text.slice(start, i));
+    } else {
+      const operator = ['==', '!=', '<=', '>=', '&&', '||', '??', '=>', '=~', '!~', '.?'].find(op => text.startsWith(op, i));
+      if (operator) {
+        push('punct', operator);
+        i += 2;
+      } else if ('{}[]():,.?!=<>+-*/%@'.includes(char)) {
+        push('punct', char);
+        i++;
+      } else {
+        errors.push(`line ${line}: unexpected character "${char}"`);
+        i++;
+      }
+    }
+    return true;
+  };
+
+  // Single-quoted string; ${...} interpolations are tokenized as expressions between "${" and "}"
+  const readString = () => {
+    const startLine = line;
+    let value = '';
+    i++;
+    while (true) {
+      if (i >= text.length || text[i] === '\n') {
+        errors.push(`line ${startLine}: unterminated string`);
+        break;
+      }
+      const char = text[i];
+      if (char === "'") {
+        i++;
+        break;
+      }
+      if (char === '\\') {
+        const escaped = text[i + 1];
+        if (escaped === 'u' && text[i + 2] === '{') {
+          const end = text.indexOf('}', i);
+          i = end < 0 ? i + 2 : end + 1;
+          continue;
+        }
+        if (!STRING_ESCAPES.includes(escaped)) errors.push(`line ${line}: invalid escape "\\${escaped ?? ''}" in string`);
+        value += escaped ?? '';
+        i += 2;
+        continue;
+      }
+      if (text.startsWith('${', i)) {
+        push('string', value);
+        value = '';
+        push('punct', '${');
+        i += 2;
+        let depth = 0;
+        while (true) {
+          const before = tokens.length;
+          if (!readToken()) {
+            errors.push(`line ${startLine}: unterminated interpolation`);
+            return;
+          }
+          const token = tokens[tokens.length - 1];
+          if (tokens.length === before || token.kind !== 'punct') continue;
+          if (token.value === '{' || token.value === '${') depth++;
+          if (token.value === '}') {
+            if (depth === 0) break;
+            depth--;
+          }
+        }
+        continue;
+      }
+      value += char;
+      i++;
+    }
+    push('string', value);
+  };
+
+  while (readToken()) { /* tokens collected by readToken */ }
+  return tokens;
+}
+
+function checkBrackets(tokens: Token[], errors: string[]): void {
+  const pairs: Record<string, string> = { '}': '{', ']': '[', ')': '(' };
+  const stack: Token[] = [];
+  for (const token of tokens) {
+    if (token.kind !== 'punct') continue;
+    if (['{', '[', '(', '${'].includes(token.value)) {
+      stack.push(token);
+    } else if (pairs[token.value]) {
+      const open = stack.pop();
+      const expected = open?.value === '${' ? '{' : open?.value;
+      if (expected !== pairs[token.value]) {
+        errors.push(`line ${token.line}: unexpected "${token.value}"${open ? ` (open "${open.value}" from line ${open.line})` : ''}`);
+        if (open) stack.push(open);
+      }
+    }
+  }
+  stack.forEach(open => errors.push(`line ${open.line}: "${open.value}" is never closed`));
+}
+
+/**
+ * Top-level statements end at a newline outside brackets; decorators attach to
+ * the declaration that follows them
+ */
+function splitStatements(tokens: Token[], errors: string[]): Statement[] {
+  const statements: Statement[] = [];
+  let current: Token[] = [];
+  let depth = 0;
+  let decorators: string[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    if (current[0].value === '@') {
+      const name = current[1]?.value;
+      if (!name || !DECORATORS.includes(name)) errors.push(`line ${current[0].line}: unknown decorator "@${name ?? ''}"`);
+      else if (current[2]?.value !== '(') errors.push(`line ${current[0].line}: decorator "@${name}" needs parentheses`);
+      decorators.push(name || '');
+    } else {
+      statements.push({ line: current[0].line, tokens: current, decorators });
+      decorators = [];
+    }
+    current = [];
+  };
+
+  for (const token of tokens) {
+    if (token.kind === 'punct' && ['{', '[', '(', '${'].includes(token.value)) depth++;
+    if (token.kind === 'punct' && ['}', ']', ')'].includes(token.value)) depth = Math.max(0, depth - 1);
+
+    if (token.kind === 'newline' && depth === 0) {
+      flush();
+    } else if (token.kind !== 'newline' || current.length > 0) {
+      current.push(token);
+    }
+  }
+  flush();
+  if (decorators.length > 0) errors.push(`decorator "@${decorators[0]}" is not followed by a declaration`);
+  return statements;
+}
+
+/**
+ * Index of the "{" or "[" opening a resource/module body, skipping an "if (...)" condition
+ */
+function bodyStart(tokens: Token[], index: number): number {
+  let i = index;
+  if (tokens[i]?.value === 'if') {
+    if (tokens[i + 1]?.value !== '(') return -1;
+    let depth = 0;
+    for (i = i + 1; i < tokens.length; i++) {
+      if (tokens[i].value === '(') depth++;
+      if (tokens[i].value === ')' && --depth === 0) break;
+    }
+    i++;
+  }
+  return tokens[i]?.value === '{' || tokens[i]?.value === '[' ? i : -1;
+}
+
+/**
+ * Keys of the object literal opening at tokens[start] (direct children only)
+ */
+function objectKeys(tokens: Token[], start: number): Map<string, number> {
+  const keys = new Map<string, number>();
+  let depth = 0;
+  for (let i = start; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind === 'punct' && ['{', '[', '(', '${'].includes(token.value)) depth++;
+    if (token.kind === 'punct' && ['}', ']', ')'].includes(token.value) && --depth === 0) break;
+    if (depth === 1 && isObjectKey(tokens, i)) keys.set(token.value, i);
+  }
+  return keys;
+}
+
+function isObjectKey(tokens: Token[], index: number): boolean {
+  const token = tokens[index];
+  const previous = tokens[index - 1];
+  return (token.kind === 'ident' || token.kind === 'string') &&
+    tokens[index + 1]?.value === ':' &&
+    (!previous || previous.kind === 'newline' || previous.value === '{' || previous.value === ',');
+}
+
+function checkLiteralType(type: string, value: Token[], line: number, errors: string[]): void {
+  const literal = value.length === 1 ? value[0] : undefined;
+  const actual = literal?.kind === 'string' ? 'string'
+    : literal?.kind === 'number' ? 'int'
+    : literal && ['true', 'false'].includes(literal.value) ? 'bool'
+    : value[0]?.value === '{' && value[value.length - 1]?.value === '}' ? 'object'
+    : value[0]?.value === '[' && value[value.length - 1]?.value === ']' ? 'array'
+    : undefined;
+  if (actual && actual !== type) errors.push(`line ${line}: default value is ${actual === 'int' ? 'an' : 'a'} ${actual}, declared as ${type}`);
+}
+
+/**
+ * Duplicate symbols, undefined references, unknown functions and module outputs
+ */
+function checkSymbols(declarations: Declaration[], errors: string[]): void {
+  const symbols = new Map<string, Declaration>();
+  for (const declaration of declarations) {
+    if (declaration.kind === 'output') continue;
+    const existing = symbols.get(declaration.name);
+    if (existing) errors.push(`line ${declaration.line}: "${declaration.name}" is already declared on line ${existing.line}`);
+    else symbols.set(declaration.name, declaration);
+  }
+
+  for (const declaration of declarations) {
+    const tokens = declaration.statement.tokens;
+    const locals = new Set<string>();
+    // Expressions start after the symbol name (and type for params/outputs)
+    const start = declaration.kind === 'param' || declaration.kind === 'output' ? 3 : 2;
+
+    for (let i = start; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.kind !== 'ident') continue;
+      const previous = tokens[i - 1];
+      const next = tokens[i + 1];
+
+      if (previous?.value === '.' || previous?.value === '.?' || isObjectKey(tokens, i)) continue;
+      if (token.value === 'for') {
+        // for item in ... / for (item, index) in ...
+        for (let j = i + 1; j < tokens.length && tokens[j].value !== 'in'; j++) {
+          if (tokens[j].kind === 'ident') locals.add(tokens[j].value);
+        }
+        continue;
+      }
+      if (KEYWORDS.includes(token.value)) continue;
+      if (next?.value === '=>') {
+        locals.add(token.value);
+        continue;
+      }
+      if (next?.value === '(') {
+        if (!FUNCTIONS.includes(token.value)) errors.push(`line ${token.line}: unknown function "${token.value}"`);
+        continue;
+      }
+      if (locals.has(token.value)) continue;
+
+      const target = symbols.get(token.value);
+      if (!target) {
+        errors.push(`line ${token.line}: "${token.value}" is not defined`);
+      } else if (target === declaration && declaration.kind !== 'output') {
+        errors.push(`line ${token.line}: "${token.value}" refers to itself`);
+      }
+    }
+  }
+}
+
+function checkResource(declaration: Declaration, errors: string[]): void {
+  const { line, target, statement } = declaration;
+  const [type, apiVersion] = (target || '').split('@');
+  if (!apiVersion) {
+    errors.push(`line ${line}: resource "${declaration.name}" type needs an API version ("${type}@<version>")`);
+    return;
+  }
+  const schema = RESOURCE_SCHEMAS[type];
+  if (!schema) {
+    errors.push(`line ${line}: resource type "${type}" is not in the local schema`);
+    return;
+  }
+  if (!schema.apiVersions.includes(apiVersion)) {
+    errors.push(`line ${line}: API version ${apiVersion} of ${type} is not known (${schema.apiVersions.join(', ')})`);
+  }
+
+  const existing = statement.tokens[3]?.value === 'existing';
+  const start = bodyStart(statement.tokens, existing ? 5 : 4);
+  if (start < 0 || statement.tokens[start].value !== '{') return;
+  const keys = objectKeys(statement.tokens, start);
+
+  for (const key of keys.keys()) {
+    if (!RESOURCE_KEYS.includes(key)) errors.push(`line ${statement.tokens[keys.get(key)!].line}: "${key}" is not a resource property`);
+  }
+  if (!keys.has('name')) errors.push(`line ${line}: resource "${declaration.name}" needs a name`);
+  if (existing) return;
+
+  const nested = keys.has('name') && statement.tokens[keys.get('name')! + 2]?.value.includes('/');
+  const required = [
+    ...(schema.tracked ? ['location'] : []),
+    ...(schema.child && !nested ? ['parent'] : []),
+    ...(schema.extension ? ['scope'] : []),
+    ...(schema.requires || [])
+  ];
+  required.filter(key => !keys.has(key)).forEach(key =>
+    errors.push(`line ${line}: ${type} "${declaration.name}" needs "${key}"`));
+
+  if (schema.requiredProperties) {
+    const properties = keys.get('properties');
+    const propertyKeys = properties !== undefined && statement.tokens[properties + 2]?.value === '{'
+      ? objectKeys(statement.tokens, properties + 2)
+      : undefined;
+    // Properties built by an expression cannot be checked offline
+    if (properties === undefined || propertyKeys) {
+      schema.requiredProperties.filter(key => !propertyKeys?.has(key)).forEach(key =>
+        errors.push(`line ${line}: ${type} "${declaration.name}" needs properties.${key}`));
+    }
+  }
+}
+
+/**
+ * Module files exist, their parameters are supplied and the outputs used exist
+ */
+function checkModules(file: string, declarations: Declaration[], parsed: Map<string, Declaration[]>, errors: string[]): void {
+  const modules = new Map<string, Declaration[]>();
+
+  for (const declaration of declarations.filter(d => d.kind === 'module' && d.target)) {
+    const modulePath = path.posix.normalize(path.posix.join(path.posix.dirname(file), declaration.target!));
+    const target = parsed.get(modulePath);
+    const prefix = `${file} line ${declaration.line}:`;
+    if (!target) {
+      errors.push(`${prefix} module file ${declaration.target} not found`);
+      continue;
+    }
+    modules.set(declaration.name, target);
+
+    const tokens = declaration.statement.tokens;
+    const start = bodyStart(tokens, 4);
+    if (start < 0 || tokens[start].value !== '{') continue;
+    const keys = objectKeys(tokens, start);
+    for (const key of keys.keys()) {
+      if (!MODULE_KEYS.includes(key)) errors.push(`${prefix} "${key}" is not a module property`);
+    }
+
+    const paramsKey = keys.get('params');
+    const supplied = paramsKey !== undefined && tokens[paramsKey + 2]?.value === '{' ? objectKeys(tokens, paramsKey + 2) : new Map<string, number>();
+    const declared = new Map(target.filter(d => d.kind === 'param').map(d => [d.name, d]));
+    for (const name of supplied.keys()) {
+      if (!declared.has(name)) errors.push(`${file} line ${tokens[supplied.get(name)!].line}: ${modulePath} has no parameter "${name}"`);
+    }
+    for (const param of declared.values()) {
+      if (!param.optional && !supplied.has(param.name)) errors.push(`${prefix} module "${declaration.name}" is missing required parameter "${param.name}"`);
+    }
+  }
+
+  // <module>.outputs.<name>
+  for (const declaration of declarations) {
+    const tokens = declaration.statement.tokens;
+    for (let i = 0; i + 4 < tokens.length; i++) {
+      const target = modules.get(tokens[i].value);
+      if (!target || tokens[i - 1]?.value === '.' || tokens[i + 2]?.value !== 'outputs' || tokens[i + 3]?.value !== '.') continue;
+      const output = tokens[i + 4].value;
+      if (!target.some(d => d.kind === 'output' && d.name === output)) {
+        errors.push(`${file} line ${tokens[i].line}: module "${tokens[i].value}" has no output "${output}"`);
+      }
+    }
+  }
+}
+
+function checkParametersFile(file: string, content: string, entry: Declaration[], errors: string[]): void {
+  let document: any;
+  try {
+    document = JSON.parse(content);
+  } catch (error) {
+    errors.push(`${file}: invalid JSON (${error instanceof Error ? error.message : error})`);
+    return;
+  }
+
+  if (!String(document.$schema || '').includes('deploymentParameters.json')) errors.push(`${file}: $schema must be the deploymentParameters schema`);
+  if (!document.contentVersion) errors.push(`${file}: contentVersion is missing`);
+  const parameters = document.parameters;
+  if (!parameters || typeof parameters !== 'object') {
+    errors.push(`${file}: parameters object is missing`);
+    return;
+  }
+
+  const params = new Map(entry.filter(d => d.kind === 'param').map(d => [d.name, d]));
+  for (const [name, value] of Object.entries<any>(parameters)) {
+    const param = params.get(name);
+    if (!param) {
+      errors.push(`${file}: "${name}" is not a parameter of the template`);
+      continue;
+    }
+    if (!value || typeof value !== 'object' || (!('value' in value) && !('reference' in value))) {
+      errors.push(`${file}: "${name}" needs a value`);
+      continue;
+    }
+    const actual = Array.isArray(value.value) ? 'array' : typeof value.value === 'number' ? 'int' : typeof value.value;
+    if ('value' in value && actual !== param.type && !(actual === 'object' && value.value === null)) {
+      errors.push(`${file}: "${name}" is ${actual}, the template declares ${param.type}`);
+    }
+  }
+  for (const param of params.values()) {
+    if (!param.optional && !(param.name in parameters)) errors.push(`${file}: required parameter "${param.name}" has no value`);
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * IaC Plan
+ * Provider-neutral deployment plan derived from the architecture graph: which
+ * services become resources, with which SKU, and whether they sit behind a
+ * private endpoint. The Bicep and Terraform generators render this plan;
+ * nothing here knows about template syntax.
+ */
+
+import { ArchitectureFlow, ArchitectureGraph, ArchitectureNode, azureNodes } from '../core/architecture-graph.js';
+
+export type IacModuleKind =
+  | 'app-service'
+  | 'function-app'
+  | 'container-app'
+  | 'kubernetes'
+  | 'sql-database'
+  | 'postgresql'
+  | 'cosmos-db'
+  | 'redis'
+  | 'storage-account'
+  | 'key-vault'
+  | 'openai'
+  | 'ai-search'
+  | 'service-bus'
+  | 'event-hubs'
+  | 'api-management'
+  | 'front-door'
+  | 'application-gateway';
+
+export type SkuValue = string | number | boolean;
+
+export interface PlannedResource {
+  node: ArchitectureNode;
+  module: IacModuleKind;
+  // Short lowercase name stem derived from the node id (e.g. "web", "orders-db")
+  stem: string;
+  // ARM region name, or undefined for the deployment's primary location
+  location?: string;
+  sku: Record<string, SkuValue>;
+  privateEndpoint: boolean;
+  // Front Door / Application Gateway: node ids of the planned services it routes to, in flow order
+  origins?: string[];
+}
+
+export interface SkippedService {
+  node: ArchitectureNode;
+  reason: string;
+}
+
+export interface IacPlan {
+  workload: string;
+  // Short prefix used in resource names (initials of the workload)
+  namePrefix: string;
+  // ARM region name of the primary location
+  location: string;
+  resources: PlannedResource[];
+  // Flows between the planned resources
+  flows: ArchitectureFlow[];
+  // Which shared subnets the resources need
+  subnets: { privateEndpoints: boolean; appIntegration: boolean; containerApps: boolean; kubernetes: boolean; applicationGateway: boolean };
+  applicationInsights: boolean;
+  skipped: SkippedService[];
+  // SKU substitutions and other decisions worth telling the reader about
+  notes: string[];
+}
+
+const MODULE_BY_TYPE: Record<string, IacModuleKind> = {
+  'app-service': 'app-service',
+  functions: 'function-app',
+  'container-apps': 'container-app',
+  'kubernetes-service': 'kubernetes',
+  'sql-database': 'sql-database',
+  postgresql: 'postgresql',
+  'cosmos-db': 'cosmos-db',
+  'redis-cache': 'redis',
+  'storage-account': 'storage-account',
+  'key-vault': 'key-vault',
+  openai: 'openai',
+  'ai-search': 'ai-search',
+  'service-bus': 'service-bus',
+  'event-hubs': 'event-hubs',
+  'api-management': 'api-management',
+  'front-door': 'front-door',
+  'application-gateway': 'application-gateway'
+};
+
+// Catalog types that the shared modules already provide
+const SHARED_TYPES: Record<string, string> = {
+  monitor: 'provided by the shared Log Analytics workspace and diagnostic settings',
+  'log-analytics': 'provided by the shared Log Analytics workspace',
+  'virtual-network': 'provided by the shared virtual network',
+  'private-link': 'private endpoints are generated per service',
+  dns: 'private DNS zones are generated per private endpoint',
+  'entra-id': 'tenant-level service, configured outside resource group deployments'
+};
+
+// CAF resource abbreviation and name length limit of each module
+export const RESOURCE_NAMING: Record<IacModuleKind, { abbreviation: string; maxLength?: number }> = {
+  'app-service': { abbreviation: 'app' },
+  'function-app': { abbreviation: 'func' },
+  'container-app': { abbreviation: 'ca', maxLength: 32 },
+  kubernetes: { abbreviation: 'aks' },
+  'sql-database': { abbreviation: 'sql' },
+  postgresql: { abbreviation: 'psql' },
+  'cosmos-db': { abbreviation: 'cosmos', maxLength: 44 },
+  redis: { abbreviation: 'redis' },
+  'storage-account': { abbreviation: 'st', maxLength: 24 },
+  'key-vault': { abbreviation: 'kv', maxLength: 24 },
+  openai: { abbreviation: 'oai' },
+  'ai-search': { abbreviation: 'srch' },
+  'service-bus': { abbreviation: 'sbns', maxLength: 50 },
+  'event-hubs': { abbreviation: 'evhns', maxLength: 50 },
+  'api-management': { abbreviation: 'apim', maxLength: 50 },
+  'front-door': { abbreviation: 'afd' },
+  'application-gateway': { abbreviation: 'agw' }
+};
+
+// Modules placed in a subnet of the shared virtual network
+const SUBNET_MODULES: IacModuleKind[] = ['app-service', 'function-app', 'container-app', 'kubernetes', 'application-gateway'];
+
+// Services Front Door and Application Gateway can route to by their public (or private link) host name
+export const ORIGIN_MODULES: IacModuleKind[] = ['app-service', 'function-app', 'api-management'];
+
+const DEFAULT_LOCATION = 'westeurope';
+
+/**
+ * Resolve every Azure node of the graph to a module with concrete SKU values
+ */
+export function planInfrastructure(graph: ArchitectureGraph): IacPlan {
+  const location = [graph.regions[0], ...azureNodes(graph).map(node => node.region)].map(armRegion).find(Boolean) || DEFAULT_LOCATION;
+  const resources: PlannedResource[] = [];
+  const skipped: SkippedService[] = [];
+  const notes: string[] = [];
+  const stems = new Set<string>();
+
+  for (const node of azureNodes(graph)) {
+    const module = MODULE_BY_TYPE[node.type];
+    if (!module) {
+      skipped.push({ node, reason: SHARED_TYPES[node.type] || (node.type === 'custom' ? 'not a recognised Azure service' : 'no IaC module for this service yet') });
+      continue;
+    }
+
+    const resolved = resolveSku(module, `${node.sku} ${node.tier || ''}`);
+    if (resolved.note) notes.push(`${node.name}: ${resolved.note}`);
+    let privateEndpoint = resolved.privateEndpoint;
+    let region = armRegion(node.region);
+
+    // The shared virtual network lives in the primary region; subnet-attached services must too
+    if (region && region !== location) {
+      if (SUBNET_MODULES.includes(module)) {
+        notes.push(`${node.name}: placed in ${location} with the shared virtual network instead of ${region}`);
+        region = undefined;
+      } else if (privateEndpoint) {
+        notes.push(`${node.name}: deployed to ${region}; add a private endpoint from a virtual network in that region`);
+        privateEndpoint = false;
+      }
+    }
+
+    resources.push({
+      node,
+      module,
+      stem: uniqueStem(node.id, stems),
+      location: region && region !== location ? region : undefined,
+      sku: resolved.sku,
+      privateEndpoint
+    });
+  }
+
+  for (const edge of resources.filter(resource => resource.module === 'front-door' || resource.module === 'application-gateway')) {
+    edge.origins = planOrigins(edge, resources, graph.flows, notes);
+  }
+
+  const has = (...modules: IacModuleKind[]) => resources.some(resource => modules.includes(resource.module));
+  return {
+    workload: graph.name,
+    namePrefix: namePrefixFor(graph.name),
+    location,
+    resources,
+    flows: graph.flows.filter(flow => resources.some(r => r.node.id === flow.from) && resources.some(r => r.node.id === flow.to)),
+    subnets: {
+      privateEndpoints: resources.some(resource => resource.privateEndpoint),
+      appIntegration: has('app-service', 'function-app'),
+      containerApps: has('container-app'),
+      kubernetes: has('kubernetes'),
+      applicationGateway: has('application-gateway')
+    },
+    applicationInsights: has('app-service', 'function-app', 'container-app'),
+    skipped,
+    notes
+  };
+}
+
+/**
+ * Origins of an edge service: the App Service, Functions and API Management
+ * services its flows lead to. Front Door reaches private origins over Private
+ * Link, which needs Premium; Application Gateway gets one listener for the first.
+ */
+function planOrigins(edge: PlannedResource, resources: PlannedResource[], flows: ArchitectureFlow[], notes: string[]): string[] {
+  const origins = flows
+    .filter(flow => flow.from === edge.node.id)
+    .map(flow => resources.find(resource => resource.node.id === flow.to && ORIGIN_MODULES.includes(resource.module)))
+    .filter((origin, index, all): origin is PlannedResource => Boolean(origin) && all.indexOf(origin) === index);
+  const names = (list: PlannedResource[]) => list.map(origin => origin.node.name).join(', ');
+
+  if (origins.length === 0) {
+    notes.push(`${edge.node.name}: no flow to an App Service, Functions or API Management service; add its origins after deployment`);
+    return [];
+  }
+  if (edge.module === 'front-door') {
+    const privateOrigins = origins.filter(origin => origin.privateEndpoint);
+    if (privateOrigins.length > 0 && edge.sku.skuName === 'Standard_AzureFrontDoor') {
+      edge.sku = { ...edge.sku, skuName: 'Premium_AzureFrontDoor' };
+      notes.push(`${edge.node.name}: Standard cannot reach private origins; generated on Premium`);
+    }
+    if (privateOrigins.length > 0) {
+      notes.push(`${edge.node.name}: approve its private endpoint connection on ${names(privateOrigins)} after deployment`);
+    }
+  } else {
+    notes.push(`${edge.node.name}: listens on HTTP port 80; add a Key Vault certificate and an HTTPS listener before go-live`);
+    if (origins.length > 1) notes.push(`${edge.node.name}: routes to ${origins[0].node.name}; add listeners or path rules for ${names(origins.slice(1))}`);
+  }
+  return origins.map(origin => origin.node.id);
+}
+
+/**
+ * "Switzerland North" / "switzerlandnorth" -> "switzerlandnorth"; placeholders give undefined
+ */
+export function armRegion(region?: string): string | undefined {
+  const normalized = (region || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+  return normalized && !/^(na|none|global|onprem|onpremises|tbd)$/.test(normalized) ? normalized : undefined;
+}
+
+function namePrefixFor(workload: string): string {
+  const words = workload.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  const initials = words.map(word => word[0]).join('').slice(0, 6);
+  if (initials.length >= 2) return initials;
+  return (words[0] || 'app').slice(0, 8).padEnd(2, 'x');
+}
+
+function uniqueStem(id: string, taken: Set<string>): string {
+  const base = id.toLowerCase().replace(/[^a-z0-9-]/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '').slice(0, 16) || 'svc';
+  let stem = base;
+  for (let suffix = 2; taken.has(stem); suffix++) stem = `${base}${suffix}`;
+  taken.add(stem);
+  return stem;
+}
+
+/**
+ * Map the free-text SKU from the analysis to ARM SKU values. Unrecognised SKUs
+ * fall back to a production-grade default; tiers that cannot take a private
+ * endpoint keep their public endpoint and get a note.
+ */
+function resolveSku(module: IacModuleKind, text: string): { sku: Record<string, SkuValue>; privateEndpoint: boolean; note?: string } {
+  const match = (pattern: RegExp) => text.match(pattern);
+
+  switch (module) {
+    case 'app-service': {
+      const name = match(/\b(F1|B[1-3]|S[1-3]|P[0-3]v[23]|P[1-5]mv3|I[1-6]v2)\b/i)?.[1];
+      return { sku: { skuName: normalizeCase(name) || 'P1v3' }, privateEndpoint: !/^(F1|B[1-3])$/i.test(name || '') };
+    }
+    case 'function-app': {
+      const name = match(/\b(EP[1-3]|P[0-3]v3)\b/i)?.[1];
+      if (!name && /consumption|\bY1\b|flex/i.test(text)) {
+        return { sku: { skuName: 'EP1' }, privateEndpoint: true, note: 'Consumption plans cannot use private endpoints or VNet integration; generated on Elastic Premium EP1' };
+      }
+      return { sku: { skuName: normalizeCase(name) || 'EP1' }, privateEndpoint: true };
+    }
+    case 'container-app':
+      return { sku: { cpu: '0.5', memory: '1Gi', minReplicas: /\b(zero|scale to 0)\b/i.test(text) ? 0 : 1, maxReplicas: 10 }, privateEndpoint: false };
+    case 'kubernetes': {
+      const vmSize = match(/\b(Standard_[A-Z]\d+[a-z]*_v\d)\b/i)?.[1] || 'Standard_D4ds_v5';
+      const nodes = Number(match(/\b(\d+)\s*nodes?\b/i)?.[1] || 3);
+      return { sku: { vmSize, nodeCount: Math.min(Math.max(nodes, 1), 100), tier: /free/i.test(text) ? 'Free' : 'Standard' }, privateEndpoint: false };
+    }
+    case 'sql-database': {
+      const vCores = Number(match(/(\d+)\s*v?cores?/i)?.[1] || match(/Gen5[_ ](\d+)/i)?.[1] || 2);
+      const edition = /business critical|\bBC_/i.test(text) ? 'BC' : /hyperscale|\bHS_/i.test(text) ? 'HS' : 'GP';
+      const dtu = match(/\b(Basic|S[0-9]|S1[0-2]|P[1-6]|P1[15])\b/)?.[1];
+      if (dtu && !/vcore|gen5/i.test(text)) return { sku: { skuName: dtu }, privateEndpoint: true };
+      const serverless = /serverless/i.test(text) && edition === 'GP';
+      return { sku: { skuName: `${edition}_${serverless ? 'S_' : ''}Gen5_${vCores}` }, privateEndpoint: true };
+    }
+    case 'postgresql': {
+      const burstable = /burstable|\bB\d+m?s\b/i.test(text);
+      const memory = /memory optimized|\bE\d+/i.test(text);
+      const size = match(/\b(B\d+m?s|D\d+[a-z]*s_v\d|E\d+[a-z]*s_v\d)\b/i)?.[1];
+      const skuName = size ? `Standard_${size}` : burstable ? 'Standard_B2s' : memory ? 'Standard_E4ds_v5' : 'Standard_D2ds_v5';
+      return { sku: { skuName, tier: burstable ? 'Burstable' : memory ? 'MemoryOptimized' : 'GeneralPurpose', storageSizeGB: 128 }, privateEndpoint: true };
+    }
+    case 'cosmos-db':
+      return { sku: { serverless: /serverless/i.test(text) }, privateEndpoint: true };
+    case 'redis': {
+      const size = match(/\b([CP])([0-6])\b/)?.[0];
+      const tier = /premium/i.test(text) || size?.startsWith('P') ? 'Premium' : /basic/i.test(text) ? 'Basic' : 'Standard';
+      const family = tier === 'Premium' ? 'P' : 'C';
+      const capacity = Number(size?.slice(1) ?? 1);
+      return { sku: { skuName: tier, family, capacity: family === 'P' ? Math.max(capacity, 1) : capacity }, privateEndpoint: true };
+    }
+    case 'storage-account': {
+      const redundancy = match(/\b(RA-?GZRS|RA-?GRS|GZRS|GRS|ZRS|LRS)\b/i)?.[1].toUpperCase().replace('-', '') || 'ZRS';
+      return { sku: { skuName: `${/premium/i.test(text) ? 'Premium' : 'Standard'}_${redundancy}` }, privateEndpoint: true };
+    }
+    case 'key-vault':
+      return { sku: { skuName: /premium|hsm/i.test(text) ? 'premium' : 'standard' }, privateEndpoint: true };
+    case 'openai':
+      return { sku: { skuName: 'S0' }, privateEndpoint: true };
+    case 'ai-search': {
+      const name = /\bS3\b|standard\s*3/i.test(text) ? 'standard3' : /\bS2\b|standard\s*2/i.test(text) ? 'standard2' : /basic/i.test(text) ? 'basic' : 'standard';
+      if (/\bfree\b/i.test(text)) {
+        return { sku: { skuName: 'basic' }, privateEndpoint: true, note: 'the Free tier does not support private endpoints; generated on Basic' };
+      }
+      return { sku: { skuName: name }, privateEndpoint: true };
+    }
+    case 'service-bus': {
+      const tier = /premium/i.test(text) ? 'Premium' : /basic/i.test(text) ? 'Basic' : 'Standard';
+      return {
+        sku: { skuName: tier },
+        privateEndpoint: tier === 'Premium',
+        note: tier === 'Premium' ? undefined : `private endpoints need the Premium tier; the ${tier} namespace keeps its public endpoint (local auth disabled)`
+      };
+    }
+    case 'event-hubs': {
+      const tier = /premium/i.test(text) ? 'Premium' : /basic/i.test(text) ? 'Basic' : 'Standard';
+      return {
+        sku: { skuName: tier, capacity: Number(match(/(\d+)\s*(?:TU|throughput units?|PU)/i)?.[1] || 1) },
+        privateEndpoint: tier !== 'Basic',
+        note: tier === 'Basic' ? 'private endpoints need the Standard tier or higher; the Basic namespace keeps its public endpoint' : undefined
+      };
+    }
+    case 'api-management': {
+      const tier = match(/\b(Consumption|Developer|Basic|Standard|Premium)\b/i)?.[1];
+      return {
+        sku: { skuName: capitalize(tier) || 'Developer', capacity: /consumption/i.test(tier || '') ? 0 : 1 },
+        privateEndpoint: false,
+        note: 'the gateway endpoint stays public; front it with Application Gateway or Front Door WAF'
+      };
+    }
+    case 'front-door':
+      return { sku: { skuName: /premium/i.test(text) ? 'Premium_AzureFrontDoor' : 'Standard_AzureFrontDoor' }, privateEndpoint: false };
+    case 'application-gateway': {
+      const standard = /\bstandard[_ ]?v2\b/i.test(text) && !/\bwaf/i.test(text);
+      return { sku: { skuName: standard ? 'Standard_v2' : 'WAF_v2', minCapacity: 2, maxCapacity: 10 }, privateEndpoint: false };
+    }
+  }
+}
+
+// "p1V3" -> "P1v3", "ep1" -> "EP1"
+function normalizeCase(sku?: string): string | undefined {
+  return sku?.toUpperCase().replace(/(M?)V(\d)$/, (_, memory: string, version: string) => `${memory.toLowerCase()}v${version}`);
+}
+
+function capitalize(word?: string): string | undefined {
+  return word ? word.charAt(0).toUpperCase() + word.slice(1).toLowerCase() : undefined;
+}
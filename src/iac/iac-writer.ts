@@ -0,0 +1,242 @@
+/**
+ * IaC Writer
+ * Generates the infrastructure-as-code projects for the architecture graph
+ * (Bicep, Terraform or both), validates them offline and writes them into
+ * output/<folder>/iac/ together with a README summarising what was generated
+ * and what still needs attention
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ArchitectureGraph } from '../core/architecture-graph.js';
+import { config } from '../config/config.js';
+import { IacModuleKind, IacPlan, planInfrastructure } from './iac-plan.js';
+import { BICEP_MAIN_FILE, BICEP_PARAMETERS_FILE, generateBicep } from './bicep-generator.js';
+import { validateBicepProject } from './bicep-validator.js';
+import { TERRAFORM_BACKEND_EXAMPLE_FILE, TERRAFORM_TFVARS_FILE, generateTerraform } from './terraform-generator.js';
+import { validateTerraformProject } from './terraform-validator.js';
+
+export const IAC_FOLDER = 'iac';
+export const BICEP_FOLDER = 'bicep';
+export const TERRAFORM_FOLDER = 'terraform';
+export const IAC_README_FILE = 'README.md';
+
+export type IacTarget = 'bicep' | 'terraform' | 'both';
+export const IAC_TARGETS: IacTarget[] = ['bicep', 'terraform', 'both'];
+
+export interface GeneratedProject {
+  // Path relative to the project folder -> file content
+  files: Record<string, string>;
+  // Offline validation errors; the project is not written when there are any
+  errors: string[];
+}
+
+export interface GeneratedInfrastructure {
+  plan: IacPlan;
+  // Set for the selected targets
+  bicep?: GeneratedProject;
+  terraform?: GeneratedProject;
+  // Set once a project was written
+  outputDir?: string;
+}
+
+export interface SaveInfrastructureOptions {
+  // Defaults to the IAC_TARGET setting
+  target?: IacTarget;
+}
+
+// Services that call others with their managed identity
+const IDENTITY_SOURCES: IacModuleKind[] = ['app-service', 'function-app', 'container-app', 'kubernetes', 'api-management'];
+
+// Data-plane access a caller's managed identity needs on the target
+const DATA_ACCESS: Partial<Record<IacModuleKind, string>> = {
+  'storage-account': 'Storage Blob Data Contributor',
+  'key-vault': 'Key Vault Secrets User',
+  'cosmos-db': 'Cosmos DB Built-in Data Contributor (SQL role assignment)',
+  openai: 'Cognitive Services OpenAI User',
+  'ai-search': 'Search Index Data Reader',
+  'service-bus': 'Azure Service Bus Data Sender / Receiver',
+  'event-hubs': 'Azure Event Hubs Data Sender / Receiver',
+  'sql-database': 'contained database user (CREATE USER ... FROM EXTERNAL PROVIDER)',
+  postgresql: 'Entra ID database role (pgaadauth_create_principal)',
+  redis: 'Redis data access policy assignment'
+};
+
+export function generateInfrastructure(graph: ArchitectureGraph, target: IacTarget = 'bicep'): GeneratedInfrastructure {
+  const plan = planInfrastructure(graph);
+  const result: GeneratedInfrastructure = { plan };
+  if (target !== 'terraform') {
+    const { files } = generateBicep(graph, plan);
+    result.bicep = { files, errors: validateBicepProject(files, BICEP_MAIN_FILE, BICEP_PARAMETERS_FILE).errors };
+  }
+  if (target !== 'bicep') {
+    const { files } = generateTerraform(graph, plan);
+    result.terraform = { files, errors: validateTerraformProject(files, TERRAFORM_TFVARS_FILE).errors };
+  }
+  return result;
+}
+
+/**
+ * Generate, validate and save the selected projects. Invalid output is reported but not written.
+ */
+export async function saveInfrastructureAsCode(
+  graph: ArchitectureGraph,
+  caseStudyFolder?: string,
+  options: SaveInfrastructureOptions = {}
+): Promise<GeneratedInfrastructure> {
+  const result = generateInfrastructure(graph, options.target ?? config.get().iac.target);
+  const projects = projectsOf(result);
+
+  for (const { label, project } of projects) {
+    if (project.errors.length > 0) console.warn(`⚠️ Generated ${label} failed offline validation, not saved: ${project.errors[0]}`);
+  }
+  const valid = projects.filter(({ project }) => project.errors.length === 0);
+  if (!caseStudyFolder || valid.length === 0) return result;
+
+  try {
+    const iacDir = path.join(process.cwd(), 'output', caseStudyFolder, IAC_FOLDER);
+    for (const { label, folder, project } of valid) {
+      const projectDir = path.join(iacDir, folder);
+      for (const [file, content] of Object.entries(project.files)) {
+        const target = path.join(projectDir, file);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, content, 'utf-8');
+      }
+      console.log(`✅ ${label} (${Object.keys(project.files).length} files) validated and saved to: ${projectDir}`);
+    }
+    result.outputDir = iacDir;
+    await fs.writeFile(path.join(iacDir, IAC_README_FILE), formatInfrastructureReport(result), 'utf-8');
+  } catch (error) {
+    console.warn('⚠️ Failed to save infrastructure as code:', error instanceof Error ? error.message : error);
+  }
+
+  return result;
+}
+
+/**
+ * Markdown summary of the generated projects for the step report and iac/README.md
+ */
+export function formatInfrastructureReport(result: GeneratedInfrastructure): string {
+  const { plan } = result;
+  const projects = projectsOf(result);
+  const valid = projects.filter(({ project }) => project.errors.length === 0);
+  const lines: string[] = ['# Infrastructure as Code', ''];
+
+  for (const { label, project } of projects.filter(({ project }) => project.errors.length > 0)) {
+    lines.push(
+      `⚠️ The generated ${label} failed offline validation and was not saved:`,
+      '',
+      ...project.errors.slice(0, 10).map(error => `- ${error}`),
+      ...(project.errors.length > 10 ? [`- … ${project.errors.length - 10} more`] : []),
+      ''
+    );
+  }
+  if (valid.length === 0) return lines.join('\n');
+
+  lines.push(
+    `Generated for **${plan.workload}** in \`${plan.location}\` from ${plan.resources.length} service(s), validated offline:`,
+    '',
+    ...valid.map(({ label, folder, project, summary }) =>
+      `- **${label}**: ${summary}, ${Object.keys(project.files).length} files${result.outputDir ? ` in \`${IAC_FOLDER}/${folder}/\`` : ''}`),
+    '',
+    '| Service | Module | SKU | Network access |',
+    '|---------|--------|-----|----------------|',
+    ...plan.resources.map(resource => `| ${resource.node.name} | \`${resource.module}\` | ${formatSku(resource.sku)} | ${networkAccess(resource.module, resource.privateEndpoint)} |`),
+    '',
+    '**Secure defaults:** system-assigned managed identities, local/key authentication disabled where supported, TLS 1.2, ' +
+      'diagnostic settings to a shared Log Analytics workspace' +
+      (plan.subnets.privateEndpoints ? ', private endpoints with private DNS zones and public network access disabled' : '') + '.',
+    ''
+  );
+
+  if (plan.notes.length > 0) {
+    lines.push('## Decisions', '', ...plan.notes.map(note => `- ${note}`), '');
+  }
+  if (plan.skipped.length > 0) {
+    lines.push('## Not Generated', '', ...plan.skipped.map(({ node, reason }) => `- ${node.name} (\`${node.type}\`): ${reason}`), '');
+  }
+
+  const grants = identityGrants(plan);
+  if (grants.length > 0) {
+    lines.push('## Managed Identity Access to Grant', '', ...grants.map(grant => `- ${grant}`), '');
+  }
+
+  lines.push('## Deploy', '');
+  if (result.bicep && result.bicep.errors.length === 0) {
+    const placeholders = Object.entries(JSON.parse(result.bicep.files[BICEP_PARAMETERS_FILE]).parameters)
+      .filter(([name]) => !['location', 'namePrefix', 'environmentName'].includes(name))
+      .map(([name]) => `\`${name}\``);
+    lines.push(
+      ...(valid.length > 1 ? ['**Bicep**', ''] : []),
+      ...(placeholders.length > 0 ? [`Replace the placeholder values of ${placeholders.join(', ')} in \`${BICEP_PARAMETERS_FILE}\` first.`, ''] : []),
+      '```bash',
+      `cd ${BICEP_FOLDER}`,
+      `az deployment group create --resource-group <resource-group> --template-file ${BICEP_MAIN_FILE} --parameters ${BICEP_PARAMETERS_FILE}`,
+      '```',
+      ''
+    );
+  }
+  if (result.terraform && result.terraform.errors.length === 0) {
+    const placeholders = result.terraform.files[TERRAFORM_TFVARS_FILE].split('\n')
+      .map(line => line.match(/^(\w+)\s*=/)?.[1])
+      .filter((name): name is string => Boolean(name) && !['location', 'name_prefix', 'environment'].includes(name!))
+      .map(name => `\`${name}\``);
+    lines.push(
+      ...(valid.length > 1 ? ['**Terraform**', ''] : []),
+      `Replace the placeholder values of ${placeholders.join(', ')} in \`${TERRAFORM_TFVARS_FILE}\` and create \`backend.hcl\` from \`${TERRAFORM_BACKEND_EXAMPLE_FILE}\` first.`,
+      '',
+      '```bash',
+      `cd ${TERRAFORM_FOLDER}`,
+      'terraform init -backend-config=backend.hcl',
+      'terraform plan -out tfplan',
+      'terraform apply tfplan',
+      '```',
+      ''
+    );
+  }
+  return lines.join('\n');
+}
+
+function projectsOf(result: GeneratedInfrastructure): Array<{ label: string; folder: string; project: GeneratedProject; summary: string }> {
+  const projects: Array<{ label: string; folder: string; project: GeneratedProject; summary: string }> = [];
+  if (result.bicep) {
+    projects.push({ label: 'Bicep', folder: BICEP_FOLDER, project: result.bicep, summary: `${result.plan.resources.length} service module(s)` });
+  }
+  if (result.terraform) {
+    const tiers = Object.keys(result.terraform.files)
+      .map(file => file.match(/^modules\/([^/]+)\/main\.tf$/)?.[1])
+      .filter((tier): tier is string => Boolean(tier) && tier !== 'monitoring' && tier !== 'network');
+    projects.push({ label: 'Terraform', folder: TERRAFORM_FOLDER, project: result.terraform, summary: `azurerm, ${tiers.length} tier module(s) (${tiers.join(', ')})` });
+  }
+  return projects;
+}
+
+/**
+ * Data-plane roles implied by the flows from identity-bearing compute to data services
+ */
+function identityGrants(plan: IacPlan): string[] {
+  const grants = new Set<string>();
+  for (const resource of plan.resources) {
+    if (!IDENTITY_SOURCES.includes(resource.module)) continue;
+    for (const target of plan.resources) {
+      const access = DATA_ACCESS[target.module];
+      if (!access || !plan.flows.some(flow =>
+        (flow.from === resource.node.id && flow.to === target.node.id) ||
+        (flow.direction === 'bidirectional' && flow.to === resource.node.id && flow.from === target.node.id))) continue;
+      grants.add(`${resource.node.name} → ${target.node.name}: ${access}`);
+    }
+  }
+  return [...grants];
+}
+
+function networkAccess(module: IacModuleKind, privateEndpoint: boolean): string {
+  if (privateEndpoint) return 'Private endpoint';
+  if (module === 'kubernetes') return 'Private cluster';
+  if (module === 'container-app') return 'Internal environment';
+  if (module === 'front-door' || module === 'application-gateway') return 'Public entry point';
+  return 'Public endpoint';
+}
+
+function formatSku(sku: Record<string, unknown>): string {
+  return Object.entries(sku).map(([key, value]) => key === 'skuName' ? String(value) : `${key}=${value}`).join(', ');
+}
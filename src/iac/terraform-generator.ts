@@ -0,0 +1,392 @@
+/**
+ * Terraform Generator
+ * Renders the IaC plan as an azurerm Terraform project: a root module wiring
+ * the shared monitoring and network modules to one module per workload tier,
+ * with variables.tf/outputs.tf, a terraform.tfvars, and a remote-state backend
+ * stub configured at init time. Service names and SKUs come from the plan and
+ * are passed to the tier modules as one map entry per service.
+ */
+
+import { ArchitectureGraph } from '../core/architecture-graph.js';
+import { IacPlan, PlannedResource, RESOURCE_NAMING, SkuValue, planInfrastructure } from './iac-plan.js';
+import {
+  MONITORING_MODULE_FILES,
+  NETWORK_MODULE_FILES,
+  TERRAFORM_SERVICE_TEMPLATES,
+  TIER_ORDER,
+  TerraformModuleFiles,
+  TierInput,
+  tierModuleFiles
+} from './terraform-modules.js';
+
+export const TERRAFORM_MAIN_FILE = 'main.tf';
+export const TERRAFORM_VARIABLES_FILE = 'variables.tf';
+export const TERRAFORM_TFVARS_FILE = 'terraform.tfvars';
+export const TERRAFORM_BACKEND_EXAMPLE_FILE = 'backend.hcl.example';
+
+export interface TerraformProject {
+  // Path relative to the project folder -> file content
+  files: Record<string, string>;
+  plan: IacPlan;
+}
+
+// Root module expressions feeding the tier module inputs
+const TIER_INPUT_WIRING: Record<TierInput, Array<[string, string]>> = {
+  applicationInsights: [['application_insights_connection_string', 'module.monitoring.application_insights_connection_string']],
+  appIntegrationSubnet: [['app_integration_subnet_id', 'module.network.app_integration_subnet_id']],
+  containerAppsSubnet: [['container_apps_subnet_id', 'module.network.container_apps_subnet_id']],
+  kubernetesSubnet: [['kubernetes_subnet_id', 'module.network.kubernetes_subnet_id']],
+  applicationGatewaySubnet: [['application_gateway_subnet_id', 'module.network.application_gateway_subnet_id']],
+  databaseAdministrator: [
+    ['database_administrator_object_id', 'var.database_administrator_object_id'],
+    ['database_administrator_login', 'var.database_administrator_login']
+  ],
+  apiPublisher: [
+    ['api_publisher_email', 'var.api_publisher_email'],
+    ['api_publisher_name', 'var.api_publisher_name']
+  ]
+};
+
+const PLACEHOLDER_OBJECT_ID = '00000000-0000-0000-0000-000000000000';
+
+/**
+ * Generate the Terraform project for the graph
+ */
+export function generateTerraform(graph: ArchitectureGraph, plan: IacPlan = planInfrastructure(graph)): TerraformProject {
+  const needsNetwork = Object.values(plan.subnets).some(Boolean);
+  const zones = [...new Set(plan.resources.filter(resource => resource.privateEndpoint).flatMap(resource => TERRAFORM_SERVICE_TEMPLATES[resource.module].zones))];
+  const usesInput = (input: TierInput) => plan.resources.some(resource => TERRAFORM_SERVICE_TEMPLATES[resource.module].inputs.includes(input));
+  const tiers = TIER_ORDER
+    .map(tier => ({ tier, resources: plan.resources.filter(resource => TERRAFORM_SERVICE_TEMPLATES[resource.module].tier === tier) }))
+    .filter(({ resources }) => resources.length > 0);
+
+  const main: string[] = [
+    `# ${plan.workload}`,
+    '# Generated from the recommended architecture by Azure Architecture Blueprints.',
+    `# Review SKUs and replace the placeholder values in ${TERRAFORM_TFVARS_FILE} before applying:`,
+    '#   terraform init -backend-config=backend.hcl',
+    '#   terraform plan -out tfplan',
+    '',
+    'data "azurerm_client_config" "current" {}',
+    '',
+    'locals {',
+    '  # Short unique suffix keeping globally unique names stable per subscription',
+    '  suffix = substr(sha1("${data.azurerm_client_config.current.subscription_id}/${var.name_prefix}"), 0, 6)',
+    '',
+    '  # Tagging convention: workload, environment, owner and cost-center on every resource;',
+    '  # the root module adds a tier tag per module and the tier modules a service tag per',
+    '  # architecture service. Extra tags from var.tags win over the defaults.',
+    '  tags = merge({',
+    ...alignedAttributes([
+      ['workload', hclString(plan.workload)],
+      ['environment', 'var.environment'],
+      ['owner', 'var.owner'],
+      ['"cost-center"', 'var.cost_center'],
+      ['"managed-by"', '"terraform"'],
+      ['"generated-by"', '"azure-architecture-blueprints"']
+    ], '    '),
+    '  }, var.tags)',
+    '}',
+    '',
+    'resource "azurerm_resource_group" "main" {',
+    ...alignedAttributes([
+      ['name', '"rg-${var.name_prefix}-${var.environment}"'],
+      ['location', 'var.location'],
+      ['tags', 'local.tags']
+    ], '  '),
+    '}',
+    '',
+    moduleBlock('monitoring', [
+      ['name', '"${var.name_prefix}-${local.suffix}"'],
+      ['location', 'var.location'],
+      ['resource_group_name', 'azurerm_resource_group.main.name'],
+      ['tags', 'merge(local.tags, { tier = "monitoring" })'],
+      ['enable_application_insights', String(plan.applicationInsights)]
+    ]),
+    ''
+  ];
+
+  if (needsNetwork) {
+    main.push(moduleBlock('network', [
+      ['name', '"vnet-${var.name_prefix}-${local.suffix}"'],
+      ['location', 'var.location'],
+      ['resource_group_name', 'azurerm_resource_group.main.name'],
+      ['tags', 'merge(local.tags, { tier = "network" })'],
+      ['include_app_integration_subnet', String(plan.subnets.appIntegration)],
+      ['include_container_apps_subnet', String(plan.subnets.containerApps)],
+      ['include_kubernetes_subnet', String(plan.subnets.kubernetes)],
+      ['include_application_gateway_subnet', String(plan.subnets.applicationGateway)],
+      ['private_dns_zones', `[${zones.map(hclString).join(', ')}]`]
+    ]), '');
+  }
+
+  for (const { tier, resources } of tiers) {
+    const templates = [...new Set(resources.map(resource => TERRAFORM_SERVICE_TEMPLATES[resource.module]))];
+    const inputs: Array<[string, string]> = [
+      ['name', '"${var.name_prefix}-${local.suffix}"'],
+      ['location', 'var.location'],
+      ['resource_group_name', 'azurerm_resource_group.main.name'],
+      ['tags', `merge(local.tags, { tier = "${tier}" })`],
+      ['log_analytics_workspace_id', 'module.monitoring.workspace_id']
+    ];
+    if (resources.some(resource => resource.privateEndpoint)) {
+      inputs.push(
+        ['private_endpoint_subnet_id', 'module.network.private_endpoint_subnet_id'],
+        ['private_dns_zone_ids', 'module.network.private_dns_zone_ids']
+      );
+    }
+    (Object.keys(TIER_INPUT_WIRING) as TierInput[])
+      .filter(input => templates.some(template => template.inputs.includes(input)))
+      .forEach(input => inputs.push(...TIER_INPUT_WIRING[input]));
+
+    const services = templates.map(template => [
+      `  ${template.variable} = {`,
+      ...resources.filter(resource => TERRAFORM_SERVICE_TEMPLATES[resource.module] === template).map(resource => serviceEntry(resource, plan)),
+      '  }'
+    ].join('\n'));
+    main.push(moduleBlock(tier, inputs, services), '');
+  }
+
+  const outputs: string[] = [
+    outputBlock('resource_group_name', 'Resource group of the workload.', 'azurerm_resource_group.main.name'),
+    outputBlock('log_analytics_workspace_id', 'Shared Log Analytics workspace.', 'module.monitoring.workspace_id')
+  ];
+  if (needsNetwork) outputs.push(outputBlock('vnet_id', 'Shared virtual network.', 'module.network.vnet_id'));
+  for (const { tier, resources } of tiers) {
+    for (const template of new Set(resources.map(resource => TERRAFORM_SERVICE_TEMPLATES[resource.module]))) {
+      outputs.push(outputBlock(template.variable, `${template.description}, keyed by service.`, `module.${tier}.${template.variable}`));
+    }
+  }
+
+  const files: Record<string, string> = {
+    'versions.tf': VERSIONS,
+    'backend.tf': BACKEND,
+    'providers.tf': PROVIDERS,
+    [TERRAFORM_MAIN_FILE]: main.join('\n').trimEnd() + '\n',
+    [TERRAFORM_VARIABLES_FILE]: variablesFile(plan, usesInput('databaseAdministrator'), usesInput('apiPublisher')),
+    'outputs.tf': outputs.join('\n\n') + '\n',
+    [TERRAFORM_TFVARS_FILE]: tfvarsFile(plan, usesInput('databaseAdministrator'), usesInput('apiPublisher')),
+    [TERRAFORM_BACKEND_EXAMPLE_FILE]: backendExample(plan)
+  };
+  addModule(files, 'monitoring', MONITORING_MODULE_FILES);
+  if (needsNetwork) addModule(files, 'network', NETWORK_MODULE_FILES);
+  for (const { tier, resources } of tiers) {
+    addModule(files, tier, tierModuleFiles(tier, [...new Set(resources.map(resource => resource.module))]));
+  }
+
+  return { files, plan };
+}
+
+function serviceEntry(resource: PlannedResource, plan: IacPlan): string {
+  const template = TERRAFORM_SERVICE_TEMPLATES[resource.module];
+  const attributes: Array<[string, string]> = [
+    ['name', nameExpression(resource)],
+    ['service', hclString(resource.node.name)]
+  ];
+  if (resource.location) attributes.push(['location', hclString(resource.location)]);
+  attributes.push(['private_endpoint', String(resource.privateEndpoint)]);
+  Object.entries(template.sku(resource.sku)).forEach(([key, value]) => attributes.push([key, hclValue(value)]));
+
+  const origins = (resource.origins ?? []).map(id => plan.resources.find(candidate => candidate.node.id === id)!);
+  if (resource.module === 'front-door') attributes.push(['origins', frontDoorOrigins(origins)]);
+  if (resource.module === 'application-gateway' && origins.length > 0) attributes.push(['backend_host_name', `${tierOutput(origins[0])}.host_name`]);
+
+  const key = /^[a-zA-Z_][a-zA-Z0-9_-]*$/.test(resource.stem) ? resource.stem : hclString(resource.stem);
+  return [
+    `    ${key} = {`,
+    ...alignedAttributes(attributes, '      '),
+    '    }'
+  ].join('\n');
+}
+
+// module.<tier>.<services>["<stem>"] of a planned service
+function tierOutput(resource: PlannedResource): string {
+  const template = TERRAFORM_SERVICE_TEMPLATES[resource.module];
+  return `module.${template.tier}.${template.variable}[${hclString(resource.stem)}]`;
+}
+
+// List of the Front Door origins, private ones reached over Private Link
+function frontDoorOrigins(origins: PlannedResource[]): string {
+  if (origins.length === 0) return '[]';
+  const entries = origins.map(origin => {
+    const attributes: Array<[string, string]> = [
+      ['name', hclString(origin.stem)],
+      ['host_name', `${tierOutput(origin)}.host_name`]
+    ];
+    if (origin.privateEndpoint) {
+      attributes.push(
+        ['private_link_target_id', `${tierOutput(origin)}.id`],
+        ['private_link_location', origin.location ? hclString(origin.location) : 'var.location']
+      );
+    }
+    return ['        {', ...alignedAttributes(attributes, '          '), '        }'].join('\n');
+  });
+  return ['[', entries.join(',\n'), '      ]'].join('\n');
+}
+
+/**
+ * Resource name expression following the CAF abbreviations; storage accounts
+ * and key vaults get the shorter forms their naming rules require
+ */
+function nameExpression(resource: PlannedResource): string {
+  const stem = resource.stem;
+  const naming = RESOURCE_NAMING[resource.module];
+  if (resource.module === 'storage-account') {
+    return `substr(replace(lower("st\${var.name_prefix}${stem.replace(/-/g, '')}\${local.suffix}"), "-", ""), 0, 24)`;
+  }
+  if (resource.module === 'key-vault') {
+    return `substr("kv-\${var.name_prefix}-\${local.suffix}-${stem.replace(/-/g, '')}", 0, 24)`;
+  }
+  const name = `"${naming.abbreviation}-\${var.name_prefix}-${stem}-\${local.suffix}"`;
+  return naming.maxLength ? `substr(${name}, 0, ${naming.maxLength})` : name;
+}
+
+function variablesFile(plan: IacPlan, databaseAdministrator: boolean, apiPublisher: boolean): string {
+  const blocks = [
+    variableBlock('subscription_id', 'Subscription to deploy to; null reads ARM_SUBSCRIPTION_ID.', 'string', 'null'),
+    variableBlock('location', 'Primary Azure region.', 'string', hclString(plan.location)),
+    [
+      'variable "name_prefix" {',
+      '  description = "Short prefix used in resource names."',
+      '  type        = string',
+      `  default     = ${hclString(plan.namePrefix)}`,
+      '',
+      '  validation {',
+      '    condition     = can(regex("^[a-z0-9]{2,10}$", var.name_prefix))',
+      '    error_message = "name_prefix must be 2-10 lowercase letters or digits."',
+      '  }',
+      '}'
+    ].join('\n'),
+    variableBlock('environment', 'Environment name, applied as a tag and used in the resource group name.', 'string', '"prod"'),
+    variableBlock('owner', 'Team or person accountable for the workload, applied as the owner tag.', 'string'),
+    variableBlock('cost_center', 'Cost center charged for the workload, applied as the cost-center tag.', 'string'),
+    variableBlock('tags', 'Additional tags applied to every resource.', 'map(string)', '{}')
+  ];
+  if (databaseAdministrator) {
+    blocks.push(
+      variableBlock('database_administrator_object_id', 'Object id of the Entra ID group administering the databases (Entra-only authentication).', 'string'),
+      variableBlock('database_administrator_login', 'Display name of the Entra ID database administrator group.', 'string')
+    );
+  }
+  if (apiPublisher) {
+    blocks.push(
+      variableBlock('api_publisher_email', 'Publisher e-mail of the API Management instance.', 'string'),
+      variableBlock('api_publisher_name', 'Publisher organisation of the API Management instance.', 'string')
+    );
+  }
+  return blocks.join('\n\n') + '\n';
+}
+
+function tfvarsFile(plan: IacPlan, databaseAdministrator: boolean, apiPublisher: boolean): string {
+  const placeholders: Array<[string, string]> = [
+    ['owner', '"platform-team@example.com"'],
+    ['cost_center', '"CC-0000"']
+  ];
+  if (databaseAdministrator) {
+    placeholders.push(['database_administrator_object_id', hclString(PLACEHOLDER_OBJECT_ID)], ['database_administrator_login', '"sql-administrators"']);
+  }
+  if (apiPublisher) {
+    placeholders.push(['api_publisher_email', '"api-owner@example.com"'], ['api_publisher_name', hclString(plan.workload)]);
+  }
+  return [
+    ...alignedAttributes([
+      ['location', hclString(plan.location)],
+      ['name_prefix', hclString(plan.namePrefix)],
+      ['environment', '"prod"']
+    ], ''),
+    '',
+    '# Placeholders: replace before applying',
+    ...alignedAttributes(placeholders, ''),
+    ''
+  ].join('\n');
+}
+
+function backendExample(plan: IacPlan): string {
+  return [
+    '# Remote state settings for: terraform init -backend-config=backend.hcl',
+    '# Copy to backend.hcl and point it at the state storage account of the environment.',
+    ...alignedAttributes([
+      ['resource_group_name', '"rg-tfstate"'],
+      ['storage_account_name', '"sttfstate00000"'],
+      ['container_name', '"tfstate"'],
+      ['key', hclString(`${plan.namePrefix}-prod.tfstate`)],
+      ['use_azuread_auth', 'true']
+    ], ''),
+    ''
+  ].join('\n');
+}
+
+const VERSIONS = `terraform {
+  required_version = ">= 1.5.0"
+
+  required_providers {
+    azurerm = {
+      source  = "hashicorp/azurerm"
+      version = "~> 4.0"
+    }
+  }
+}
+`;
+
+const BACKEND = `# Remote state in an Azure Storage account. The settings are supplied at init
+# time so the same configuration serves every environment:
+#   terraform init -backend-config=backend.hcl
+terraform {
+  backend "azurerm" {}
+}
+`;
+
+const PROVIDERS = `provider "azurerm" {
+  subscription_id     = var.subscription_id
+  storage_use_azuread = true
+
+  features {
+    key_vault {
+      purge_soft_delete_on_destroy = false
+    }
+
+    resource_group {
+      prevent_deletion_if_contains_resources = true
+    }
+  }
+}
+`;
+
+function addModule(files: Record<string, string>, name: string, module: TerraformModuleFiles): void {
+  for (const [file, content] of Object.entries(module)) files[`modules/${name}/${file}`] = content;
+}
+
+function moduleBlock(name: string, inputs: Array<[string, string]>, maps: string[] = []): string {
+  return [
+    `module "${name}" {`,
+    `  source = "./modules/${name}"`,
+    '',
+    ...alignedAttributes(inputs, '  '),
+    ...maps.flatMap(map => ['', map]),
+    '}'
+  ].join('\n');
+}
+
+function variableBlock(name: string, description: string, type: string, defaultValue?: string): string {
+  const attributes: Array<[string, string]> = [['description', hclString(description)], ['type', type]];
+  if (defaultValue !== undefined) attributes.push(['default', defaultValue]);
+  return [`variable "${name}" {`, ...alignedAttributes(attributes, '  '), '}'].join('\n');
+}
+
+function outputBlock(name: string, description: string, value: string): string {
+  return [`output "${name}" {`, ...alignedAttributes([['description', hclString(description)], ['value', value]], '  '), '}'].join('\n');
+}
+
+// Attribute lines with their equals signs aligned, as terraform fmt does
+function alignedAttributes(attributes: Array<[string, string]>, indent: string): string[] {
+  const width = Math.max(...attributes.map(([key]) => key.length));
+  return attributes.map(([key, value]) => `${indent}${key.padEnd(width)} = ${value}`);
+}
+
+function hclValue(value: SkuValue): string {
+  return typeof value === 'string' ? hclString(value) : String(value);
+}
+
+function hclString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/([$%])\{/g, '$1$1{').replace(/\r?\n/g, '\\n')}"`;
+}
@@ -0,0 +1,1454 @@
+/**
+ * Terraform Modules
+ * HCL of the modules the Terraform generator references from the root module:
+ * shared monitoring and network modules, and one module per workload tier.
+ * A tier module holds a map variable per service kind, filled by the root
+ * module with one entry per planned service, and creates the resources with
+ * for_each. Secure defaults match the Bicep modules: system-assigned managed
+ * identities, local (key/password) authentication off where the service allows
+ * it, TLS 1.2, diagnostic settings to the shared workspace, and private
+ * endpoints with public network access disabled for entries that ask for one.
+ */
+
+import { IacModuleKind, SkuValue } from './iac-plan.js';
+
+export type TerraformTier = 'compute' | 'data' | 'security' | 'ai' | 'integration' | 'edge';
+
+// Tier module inputs beyond the common ones, wired by the root module when a template needs them
+export type TierInput =
+  | 'applicationInsights'
+  | 'appIntegrationSubnet'
+  | 'containerAppsSubnet'
+  | 'kubernetesSubnet'
+  | 'applicationGatewaySubnet'
+  | 'databaseAdministrator'
+  | 'apiPublisher';
+
+// Front Door origins, filled by the root module from the tier outputs of the services it routes to
+const ORIGINS_TYPE = 'list(object({ name = string, host_name = string, private_link_target_id = optional(string), private_link_location = optional(string) }))';
+
+export type HclType = 'string' | 'number' | 'bool' | 'optional(string)' | typeof ORIGINS_TYPE;
+
+export interface TerraformServiceTemplate {
+  tier: TerraformTier;
+  // Map variable of the tier module holding the services of this kind
+  variable: string;
+  description: string;
+  // Entry attributes besides name/service/location/private_endpoint, with their types
+  attributes: Record<string, HclType>;
+  // Entry attribute values for the plan's SKU
+  sku: (sku: Record<string, SkuValue>) => Record<string, SkuValue>;
+  // Private DNS zones the private endpoints register in
+  zones: string[];
+  inputs: TierInput[];
+  // Needs data.azurerm_client_config.current
+  clientConfig?: boolean;
+  // Resource whose id/name/identity the tier outputs per entry
+  primary: string;
+  // Host name of an entry (on the primary resource), output for the edge tier to route to
+  hostName?: string;
+  identity: boolean;
+  hcl: string;
+}
+
+export interface TerraformModuleFiles {
+  'main.tf': string;
+  'variables.tf': string;
+  'outputs.tf': string;
+}
+
+export const TIER_ORDER: TerraformTier[] = ['security', 'data', 'ai', 'integration', 'compute', 'edge'];
+
+const WEB_ZONE = 'privatelink.azurewebsites.net';
+const BLOB_ZONE = 'privatelink.blob.core.windows.net';
+
+// Tags of one entry: the tier tags plus the architecture service it implements
+const SERVICE_TAGS = 'merge(var.tags, { service = each.value.service })';
+
+function privateEndpoint(label: string, variable: string, target: string, subresource: string, zone: string): string {
+  return `resource "azurerm_private_endpoint" "${label}" {
+  for_each            = { for key, service in var.${variable} : key => service if service.private_endpoint }
+  name                = "\${${target}[each.key].name}-pe"
+  location            = var.location
+  resource_group_name = var.resource_group_name
+  subnet_id           = var.private_endpoint_subnet_id
+  tags                = var.tags
+
+  private_service_connection {
+    name                           = "\${${target}[each.key].name}-pe"
+    private_connection_resource_id = ${target}[each.key].id
+    subresource_names              = ["${subresource}"]
+    is_manual_connection           = false
+  }
+
+  private_dns_zone_group {
+    name                 = "default"
+    private_dns_zone_ids = [var.private_dns_zone_ids["${zone}"]]
+  }
+}`;
+}
+
+// Diagnostic settings sending all logs (when the resource has any) and metrics to the workspace
+function diagnostics(label: string, target: string, options: { logs?: boolean; metric?: string; child?: { path: string; suffix: string } } = {}): string {
+  const logsBlock = options.logs ?? true
+    ? `
+
+  enabled_log {
+    category_group = "allLogs"
+  }`
+    : '';
+  const child = options.child;
+  return `resource "azurerm_monitor_diagnostic_setting" "${label}" {
+  for_each                   = ${target}
+  name                       = "diag-\${each.value.name}${child ? `-${child.suffix}` : ''}"
+  target_resource_id         = ${child ? `"\${each.value.id}/${child.path}"` : 'each.value.id'}
+  log_analytics_workspace_id = var.log_analytics_workspace_id${logsBlock}
+
+  metric {
+    category = "${options.metric ?? 'AllMetrics'}"
+  }
+}`;
+}
+
+const SYSTEM_IDENTITY = `  identity {
+    type = "SystemAssigned"
+  }`;
+
+export const TERRAFORM_SERVICE_TEMPLATES: Record<IacModuleKind, TerraformServiceTemplate> = {
+  'app-service': {
+    tier: 'compute',
+    variable: 'app_services',
+    description: 'Linux web apps on their own App Service plan',
+    attributes: { sku_name: 'string' },
+    sku: sku => ({ sku_name: sku.skuName }),
+    zones: [WEB_ZONE],
+    inputs: ['applicationInsights', 'appIntegrationSubnet'],
+    primary: 'azurerm_linux_web_app.app_service',
+    hostName: 'resource.default_hostname',
+    identity: true,
+    hcl: `resource "azurerm_service_plan" "app_service" {
+  for_each            = var.app_services
+  name                = "asp-\${each.value.name}"
+  location            = coalesce(each.value.location, var.location)
+  resource_group_name = var.resource_group_name
+  os_type             = "Linux"
+  sku_name            = each.value.sku_name
+  tags                = ${SERVICE_TAGS}
+}
+
+resource "azurerm_linux_web_app" "app_service" {
+  for_each                      = var.app_services
+  name                          = each.value.name
+  location                      = coalesce(each.value.location, var.location)
+  resource_group_name           = var.resource_group_name
+  service_plan_id               = azurerm_service_plan.app_service[each.key].id
+  https_only                    = true
+  public_network_access_enabled = !each.value.private_endpoint
+  virtual_network_subnet_id     = var.app_integration_subnet_id
+  tags                          = ${SERVICE_TAGS}
+
+${SYSTEM_IDENTITY}
+
+  site_config {
+    always_on              = each.value.sku_name != "F1"
+    ftps_state             = "Disabled"
+    http2_enabled          = true
+    minimum_tls_version    = "1.2"
+    vnet_route_all_enabled = var.app_integration_subnet_id != null
+
+    application_stack {
+      dotnet_version = "8.0"
+    }
+  }
+
+  app_settings = var.application_insights_connection_string == null ? {} : {
+    APPLICATIONINSIGHTS_CONNECTION_STRING = var.application_insights_connection_string
+  }
+}
+
+${diagnostics('app_service', 'azurerm_linux_web_app.app_service')}
+
+${privateEndpoint('app_service', 'app_services', 'azurerm_linux_web_app.app_service', 'sites', WEB_ZONE)}`
+  },
+
+  'function-app': {
+    tier: 'compute',
+    variable: 'function_apps',
+    description: 'Linux function apps (.NET isolated) with identity-based runtime storage',
+    attributes: { sku_name: 'string' },
+    sku: sku => ({ sku_name: sku.skuName }),
+    zones: [WEB_ZONE, BLOB_ZONE],
+    inputs: ['applicationInsights', 'appIntegrationSubnet'],
+    primary: 'azurerm_linux_function_app.function_app',
+    hostName: 'resource.default_hostname',
+    identity: true,
+    hcl: `resource "azurerm_storage_account" "function_app" {
+  for_each                        = var.function_apps
+  name                            = "st\${substr(replace(lower(each.value.name), "-", ""), 0, 16)}\${substr(sha1(each.value.name), 0, 6)}"
+  location                        = coalesce(each.value.location, var.location)
+  resource_group_name             = var.resource_group_name
+  account_kind                    = "StorageV2"
+  account_tier                    = "Standard"
+  account_replication_type        = "ZRS"
+  min_tls_version                 = "TLS1_2"
+  https_traffic_only_enabled      = true
+  allow_nested_items_to_be_public = false
+  shared_access_key_enabled       = false
+  default_to_oauth_authentication = true
+  public_network_access_enabled   = !each.value.private_endpoint
+  tags                            = ${SERVICE_TAGS}
+
+  network_rules {
+    default_action = each.value.private_endpoint ? "Deny" : "Allow"
+    bypass         = ["AzureServices"]
+  }
+}
+
+resource "azurerm_service_plan" "function_app" {
+  for_each                     = var.function_apps
+  name                         = "asp-\${each.value.name}"
+  location                     = coalesce(each.value.location, var.location)
+  resource_group_name          = var.resource_group_name
+  os_type                      = "Linux"
+  sku_name                     = each.value.sku_name
+  maximum_elastic_worker_count = startswith(each.value.sku_name, "EP") ? 20 : null
+  tags                         = ${SERVICE_TAGS}
+}
+
+resource "azurerm_linux_function_app" "function_app" {
+  for_each                      = var.function_apps
+  name                          = each.value.name
+  location                      = coalesce(each.value.location, var.location)
+  resource_group_name           = var.resource_group_name
+  service_plan_id               = azurerm_service_plan.function_app[each.key].id
+  storage_account_name          = azurerm_storage_account.function_app[each.key].name
+  storage_uses_managed_identity = true
+  https_only                    = true
+  public_network_access_enabled = !each.value.private_endpoint
+  virtual_network_subnet_id     = var.app_integration_subnet_id
+  tags                          = ${SERVICE_TAGS}
+
+${SYSTEM_IDENTITY}
+
+  site_config {
+    ftps_state                             = "Disabled"
+    minimum_tls_version                    = "1.2"
+    vnet_route_all_enabled                 = var.app_integration_subnet_id != null
+    application_insights_connection_string = var.application_insights_connection_string
+
+    application_stack {
+      dotnet_version              = "8.0"
+      use_dotnet_isolated_runtime = true
+    }
+  }
+}
+
+# Storage Blob Data Owner, needed by the Functions host for identity-based AzureWebJobsStorage
+resource "azurerm_role_assignment" "function_app_storage" {
+  for_each             = var.function_apps
+  scope                = azurerm_storage_account.function_app[each.key].id
+  role_definition_name = "Storage Blob Data Owner"
+  principal_id         = azurerm_linux_function_app.function_app[each.key].identity[0].principal_id
+  principal_type       = "ServicePrincipal"
+}
+
+${diagnostics('function_app', 'azurerm_linux_function_app.function_app')}
+
+${privateEndpoint('function_app', 'function_apps', 'azurerm_linux_function_app.function_app', 'sites', WEB_ZONE)}
+
+${privateEndpoint('function_app_storage', 'function_apps', 'azurerm_storage_account.function_app', 'blob', BLOB_ZONE)}`
+  },
+
+  'container-app': {
+    tier: 'compute',
+    variable: 'container_apps',
+    description: 'Container apps in a shared internal Container Apps environment',
+    attributes: { cpu: 'number', memory: 'string', min_replicas: 'number', max_replicas: 'number' },
+    sku: sku => ({ cpu: Number(sku.cpu), memory: sku.memory, min_replicas: sku.minReplicas, max_replicas: sku.maxReplicas }),
+    zones: [],
+    inputs: ['containerAppsSubnet'],
+    primary: 'azurerm_container_app.container_app',
+    identity: true,
+    hcl: `resource "azurerm_container_app_environment" "main" {
+  count                          = length(var.container_apps) > 0 ? 1 : 0
+  name                           = "cae-\${var.name}"
+  location                       = var.location
+  resource_group_name            = var.resource_group_name
+  log_analytics_workspace_id     = var.log_analytics_workspace_id
+  infrastructure_subnet_id       = var.container_apps_subnet_id
+  internal_load_balancer_enabled = true
+  tags                           = var.tags
+
+  workload_profile {
+    name                  = "Consumption"
+    workload_profile_type = "Consumption"
+  }
+}
+
+resource "azurerm_container_app" "container_app" {
+  for_each                     = var.container_apps
+  name                         = each.value.name
+  resource_group_name          = var.resource_group_name
+  container_app_environment_id = azurerm_container_app_environment.main[0].id
+  revision_mode                = "Single"
+  workload_profile_name        = "Consumption"
+  tags                         = ${SERVICE_TAGS}
+
+${SYSTEM_IDENTITY}
+
+  ingress {
+    external_enabled = false
+    target_port      = 80
+    transport        = "auto"
+
+    traffic_weight {
+      latest_revision = true
+      percentage      = 100
+    }
+  }
+
+  template {
+    min_replicas = each.value.min_replicas
+    max_replicas = each.value.max_replicas
+
+    # Replace the placeholder image with the workload image
+    container {
+      name   = "app"
+      image  = "mcr.microsoft.com/k8se/quickstart:latest"
+      cpu    = each.value.cpu
+      memory = each.value.memory
+    }
+  }
+}
+
+${diagnostics('container_app', 'azurerm_container_app.container_app', { logs: false })}`
+  },
+
+  kubernetes: {
+    tier: 'compute',
+    variable: 'kubernetes_clusters',
+    description: 'Private AKS clusters with Entra ID RBAC and workload identity',
+    attributes: { vm_size: 'string', node_count: 'number', sku_tier: 'string' },
+    sku: sku => ({ vm_size: sku.vmSize, node_count: sku.nodeCount, sku_tier: sku.tier }),
+    zones: [],
+    inputs: ['kubernetesSubnet'],
+    primary: 'azurerm_kubernetes_cluster.kubernetes',
+    identity: true,
+    hcl: `resource "azurerm_kubernetes_cluster" "kubernetes" {
+  for_each                          = var.kubernetes_clusters
+  name                              = each.value.name
+  location                          = coalesce(each.value.location, var.location)
+  resource_group_name               = var.resource_group_name
+  dns_prefix                        = each.value.name
+  sku_tier                          = each.value.sku_tier
+  private_cluster_enabled           = true
+  local_account_disabled            = true
+  role_based_access_control_enabled = true
+  oidc_issuer_enabled               = true
+  workload_identity_enabled         = true
+  tags                              = ${SERVICE_TAGS}
+
+${SYSTEM_IDENTITY}
+
+  default_node_pool {
+    name           = "system"
+    vm_size        = each.value.vm_size
+    node_count     = each.value.node_count
+    vnet_subnet_id = var.kubernetes_subnet_id
+  }
+
+  azure_active_directory_role_based_access_control {
+    azure_rbac_enabled = true
+  }
+
+  network_profile {
+    network_plugin = "azure"
+    network_policy = "azure"
+    service_cidr   = "172.16.0.0/16"
+    dns_service_ip = "172.16.0.10"
+  }
+
+  oms_agent {
+    log_analytics_workspace_id = var.log_analytics_workspace_id
+  }
+
+  key_vault_secrets_provider {
+    secret_rotation_enabled = true
+  }
+}
+
+${diagnostics('kubernetes', 'azurerm_kubernetes_cluster.kubernetes')}`
+  },
+
+  'sql-database': {
+    tier: 'data',
+    variable: 'sql_databases',
+    description: 'Azure SQL logical servers with one database each, Entra-only authentication',
+    attributes: { sku_name: 'string' },
+    sku: sku => ({ sku_name: sku.skuName }),
+    zones: ['privatelink.database.windows.net'],
+    inputs: ['databaseAdministrator'],
+    primary: 'azurerm_mssql_server.sql',
+    identity: true,
+    hcl: `resource "azurerm_mssql_server" "sql" {
+  for_each                      = var.sql_databases
+  name                          = each.value.name
+  location                      = coalesce(each.value.location, var.location)
+  resource_group_name           = var.resource_group_name
+  version                       = "12.0"
+  minimum_tls_version           = "1.2"
+  public_network_access_enabled = !each.value.private_endpoint
+  tags                          = ${SERVICE_TAGS}
+
+${SYSTEM_IDENTITY}
+
+  azuread_administrator {
+    login_username              = var.database_administrator_login
+    object_id                   = var.database_administrator_object_id
+    azuread_authentication_only = true
+  }
+}
+
+resource "azurerm_mssql_database" "sql" {
+  for_each  = var.sql_databases
+  name      = "sqldb-\${each.key}"
+  server_id = azurerm_mssql_server.sql[each.key].id
+  sku_name  = each.value.sku_name
+  tags      = ${SERVICE_TAGS}
+}
+
+${diagnostics('sql', 'azurerm_mssql_database.sql')}
+
+${privateEndpoint('sql', 'sql_databases', 'azurerm_mssql_server.sql', 'sqlServer', 'privatelink.database.windows.net')}`
+  },
+
+  postgresql: {
+    tier: 'data',
+    variable: 'postgresql_servers',
+    description: 'PostgreSQL flexible servers with Entra-only authentication',
+    attributes: { sku_name: 'string', storage_mb: 'number' },
+    sku: sku => ({
+      sku_name: `${{ Burstable: 'B', GeneralPurpose: 'GP', MemoryOptimized: 'MO' }[String(sku.tier)] || 'GP'}_${sku.skuName}`,
+      storage_mb: Number(sku.storageSizeGB) * 1024
+    }),
+    zones: ['privatelink.postgres.database.azure.com'],
+    inputs: ['databaseAdministrator'],
+    clientConfig: true,
+    primary: 'azurerm_postgresql_flexible_server.postgresql',
+    identity: false,
+    hcl: `resource "azurerm_postgresql_flexible_server" "postgresql" {
+  for_each                      = var.postgresql_servers
+  name                          = each.value.name
+  location                      = coalesce(each.value.location, var.location)
+  resource_group_name           = var.resource_group_name
+  version                       = "16"
+  sku_name                      = each.value.sku_name
+  storage_mb                    = each.value.storage_mb
+  backup_retention_days         = 14
+  public_network_access_enabled = !each.value.private_endpoint
+  tags                          = ${SERVICE_TAGS}
+
+  authentication {
+    active_directory_auth_enabled = true
+    password_auth_enabled         = false
+    tenant_id                     = data.azurerm_client_config.current.tenant_id
+  }
+
+  lifecycle {
+    ignore_changes = [zone]
+  }
+}
+
+resource "azurerm_postgresql_flexible_server_active_directory_administrator" "postgresql" {
+  for_each            = var.postgresql_servers
+  server_name         = azurerm_postgresql_flexible_server.postgresql[each.key].name
+  resource_group_name = var.resource_group_name
+  tenant_id           = data.azurerm_client_config.current.tenant_id
+  object_id           = var.database_administrator_object_id
+  principal_name      = var.database_administrator_login
+  principal_type      = "Group"
+}
+
+${diagnostics('postgresql', 'azurerm_postgresql_flexible_server.postgresql')}
+
+${privateEndpoint('postgresql', 'postgresql_servers', 'azurerm_postgresql_flexible_server.postgresql', 'postgresqlServer', 'privatelink.postgres.database.azure.com')}`
+  },
+
+  'cosmos-db': {
+    tier: 'data',
+    variable: 'cosmos_db_accounts',
+    description: 'Cosmos DB for NoSQL accounts with key authentication disabled',
+    attributes: { serverless: 'bool' },
+    sku: sku => ({ serverless: sku.serverless }),
+    zones: ['privatelink.documents.azure.com'],
+    inputs: [],
+    primary: 'azurerm_cosmosdb_account.cosmos_db',
+    identity: true,
+    hcl: `resource "azurerm_cosmosdb_account" "cosmos_db" {
+  for_each                      = var.cosmos_db_accounts
+  name                          = each.value.name
+  location                      = coalesce(each.value.location, var.location)
+  resource_group_name           = var.resource_group_name
+  offer_type                    = "Standard"
+  kind                          = "GlobalDocumentDB"
+  local_authentication_disabled = true
+  minimal_tls_version           = "Tls12"
+  public_network_access_enabled = !each.value.private_endpoint
+  tags                          = ${SERVICE_TAGS}
+
+${SYSTEM_IDENTITY}
+
+  consistency_policy {
+    consistency_level = "Session"
+  }
+
+  geo_location {
+    location          = coalesce(each.value.location, var.location)
+    failover_priority = 0
+  }
+
+  dynamic "capabilities" {
+    for_each = each.value.serverless ? ["EnableServerless"] : []
+
+    content {
+      name = capabilities.value
+    }
+  }
+}
+
+${diagnostics('cosmos_db', 'azurerm_cosmosdb_account.cosmos_db')}
+
+${privateEndpoint('cosmos_db', 'cosmos_db_accounts', 'azurerm_cosmosdb_account.cosmos_db', 'Sql', 'privatelink.documents.azure.com')}`
+  },
+
+  redis: {
+    tier: 'data',
+    variable: 'redis_caches',
+    description: 'Azure Cache for Redis instances with Entra ID authentication',
+    attributes: { sku_name: 'string', family: 'string', capacity: 'number' },
+    sku: sku => ({ sku_name: sku.skuName, family: sku.family, capacity: sku.capacity }),
+    zones: ['privatelink.redis.cache.windows.net'],
+    inputs: [],
+    primary: 'azurerm_redis_cache.redis',
+    identity: true,
+    hcl: `resource "azurerm_redis_cache" "redis" {
+  for_each                           = var.redis_caches
+  name                               = each.value.name
+  location                           = coalesce(each.value.location, var.location)
+  resource_group_name                = var.resource_group_name
+  sku_name                           = each.value.sku_name
+  family                             = each.value.family
+  capacity                           = each.value.capacity
+  non_ssl_port_enabled               = false
+  minimum_tls_version                = "1.2"
+  access_keys_authentication_enabled = false
+  public_network_access_enabled      = !each.value.private_endpoint
+  tags                               = ${SERVICE_TAGS}
+
+${SYSTEM_IDENTITY}
+
+  redis_configuration {
+    active_directory_authentication_enabled = true
+  }
+}
+
+${diagnostics('redis', 'azurerm_redis_cache.redis')}
+
+${privateEndpoint('redis', 'redis_caches', 'azurerm_redis_cache.redis', 'redisCache', 'privatelink.redis.cache.windows.net')}`
+  },
+
+  'storage-account': {
+    tier: 'data',
+    variable: 'storage_accounts',
+    description: 'StorageV2 accounts with shared keys and anonymous access disabled',
+    attributes: { account_tier: 'string', account_replication_type: 'string' },
+    sku: sku => {
+      const [tier, replication] = String(sku.skuName).split('_');
+      return { account_tier: tier, account_replication_type: replication };
+    },
+    zones: [BLOB_ZONE],
+    inputs: [],
+    primary: 'azurerm_storage_account.storage',
+    identity: false,
+    hcl: `resource "azurerm_storage_account" "storage" {
+  for_each                        = var.storage_accounts
+  name                            = each.value.name
+  location                        = coalesce(each.value.location, var.location)
+  resource_group_name             = var.resource_group_name
+  account_kind                    = "StorageV2"
+  account_tier                    = each.value.account_tier
+  account_replication_type        = each.value.account_replication_type
+  min_tls_version                 = "TLS1_2"
+  https_traffic_only_enabled      = true
+  allow_nested_items_to_be_public = false
+  shared_access_key_enabled       = false
+  default_to_oauth_authentication = true
+  public_network_access_enabled   = !each.value.private_endpoint
+  tags                            = ${SERVICE_TAGS}
+
+  network_rules {
+    default_action = each.value.private_endpoint ? "Deny" : "Allow"
+    bypass         = ["AzureServices"]
+  }
+
+  blob_properties {
+    delete_retention_policy {
+      days = 14
+    }
+
+    container_delete_retention_policy {
+      days = 14
+    }
+  }
+}
+
+${diagnostics('storage', 'azurerm_storage_account.storage', { logs: false, metric: 'Transaction' })}
+
+${diagnostics('storage_blob', 'azurerm_storage_account.storage', { metric: 'Transaction', child: { path: 'blobServices/default', suffix: 'blob' } })}
+
+${privateEndpoint('storage', 'storage_accounts', 'azurerm_storage_account.storage', 'blob', BLOB_ZONE)}`
+  },
+
+  'key-vault': {
+    tier: 'security',
+    variable: 'key_vaults',
+    description: 'Key vaults using Azure RBAC, with soft delete and purge protection',
+    attributes: { sku_name: 'string' },
+    sku: sku => ({ sku_name: sku.skuName }),
+    zones: ['privatelink.vaultcore.azure.net'],
+    inputs: [],
+    clientConfig: true,
+    primary: 'azurerm_key_vault.key_vault',
+    identity: false,
+    hcl: `resource "azurerm_key_vault" "key_vault" {
+  for_each                      = var.key_vaults
+  name                          = each.value.name
+  location                      = coalesce(each.value.location, var.location)
+  resource_group_name           = var.resource_group_name
+  tenant_id                     = data.azurerm_client_config.current.tenant_id
+  sku_name                      = each.value.sku_name
+  enable_rbac_authorization     = true
+  soft_delete_retention_days    = 90
+  purge_protection_enabled      = true
+  public_network_access_enabled = !each.value.private_endpoint
+  tags                          = ${SERVICE_TAGS}
+
+  network_acls {
+    default_action = each.value.private_endpoint ? "Deny" : "Allow"
+    bypass         = "AzureServices"
+  }
+}
+
+${diagnostics('key_vault', 'azurerm_key_vault.key_vault')}
+
+${privateEndpoint('key_vault', 'key_vaults', 'azurerm_key_vault.key_vault', 'vault', 'privatelink.vaultcore.azure.net')}`
+  },
+
+  openai: {
+    tier: 'ai',
+    variable: 'openai_accounts',
+    description: 'Azure OpenAI accounts with key authentication disabled',
+    attributes: { sku_name: 'string' },
+    sku: sku => ({ sku_name: sku.skuName }),
+    zones: ['privatelink.openai.azure.com'],
+    inputs: [],
+    primary: 'azurerm_cognitive_account.openai',
+    identity: true,
+    hcl: `resource "azurerm_cognitive_account" "openai" {
+  for_each                      = var.openai_accounts
+  name                          = each.value.name
+  location                      = coalesce(each.value.location, var.location)
+  resource_group_name           = var.resource_group_name
+  kind                          = "OpenAI"
+  sku_name                      = each.value.sku_name
+  custom_subdomain_name         = each.value.name
+  local_auth_enabled            = false
+  public_network_access_enabled = !each.value.private_endpoint
+  tags                          = ${SERVICE_TAGS}
+
+${SYSTEM_IDENTITY}
+
+  network_acls {
+    default_action = each.value.private_endpoint ? "Deny" : "Allow"
+  }
+}
+
+${diagnostics('openai', 'azurerm_cognitive_account.openai')}
+
+${privateEndpoint('openai', 'openai_accounts', 'azurerm_cognitive_account.openai', 'account', 'privatelink.openai.azure.com')}`
+  },
+
+  'ai-search': {
+    tier: 'ai',
+    variable: 'search_services',
+    description: 'Azure AI Search services with API keys disabled',
+    attributes: { sku: 'string' },
+    sku: sku => ({ sku: sku.skuName }),
+    zones: ['privatelink.search.windows.net'],
+    inputs: [],
+    primary: 'azurerm_search_service.search',
+    identity: true,
+    hcl: `resource "azurerm_search_service" "search" {
+  for_each                      = var.search_services
+  name                          = each.value.name
+  location                      = coalesce(each.value.location, var.location)
+  resource_group_name           = var.resource_group_name
+  sku                           = each.value.sku
+  replica_count                 = 1
+  partition_count               = 1
+  local_authentication_enabled  = false
+  public_network_access_enabled = !each.value.private_endpoint
+  tags                          = ${SERVICE_TAGS}
+
+${SYSTEM_IDENTITY}
+}
+
+${diagnostics('search', 'azurerm_search_service.search')}
+
+${privateEndpoint('search', 'search_services', 'azurerm_search_service.search', 'searchService', 'privatelink.search.windows.net')}`
+  },
+
+  'service-bus': {
+    tier: 'integration',
+    variable: 'service_bus_namespaces',
+    description: 'Service Bus namespaces with SAS authentication disabled',
+    attributes: { sku: 'string', capacity: 'number' },
+    sku: sku => ({ sku: sku.skuName, capacity: sku.skuName === 'Premium' ? 1 : 0 }),
+    zones: ['privatelink.servicebus.windows.net'],
+    inputs: [],
+    primary: 'azurerm_servicebus_namespace.service_bus',
+    identity: true,
+    hcl: `resource "azurerm_servicebus_namespace" "service_bus" {
+  for_each                      = var.service_bus_namespaces
+  name                          = each.value.name
+  location                      = coalesce(each.value.location, var.location)
+  resource_group_name           = var.resource_group_name
+  sku                           = each.value.sku
+  capacity                      = each.value.capacity
+  premium_messaging_partitions  = each.value.sku == "Premium" ? 1 : 0
+  local_auth_enabled            = false
+  minimum_tls_version           = "1.2"
+  public_network_access_enabled = !each.value.private_endpoint
+  tags                          = ${SERVICE_TAGS}
+
+${SYSTEM_IDENTITY}
+}
+
+${diagnostics('service_bus', 'azurerm_servicebus_namespace.service_bus')}
+
+${privateEndpoint('service_bus', 'service_bus_namespaces', 'azurerm_servicebus_namespace.service_bus', 'namespace', 'privatelink.servicebus.windows.net')}`
+  },
+
+  'event-hubs': {
+    tier: 'integration',
+    variable: 'event_hubs_namespaces',
+    description: 'Event Hubs namespaces with SAS authentication disabled',
+    attributes: { sku: 'string', capacity: 'number' },
+    sku: sku => ({ sku: sku.skuName, capacity: sku.capacity }),
+    zones: ['privatelink.servicebus.windows.net'],
+    inputs: [],
+    primary: 'azurerm_eventhub_namespace.event_hubs',
+    identity: true,
+    hcl: `resource "azurerm_eventhub_namespace" "event_hubs" {
+  for_each                      = var.event_hubs_namespaces
+  name                          = each.value.name
+  location                      = coalesce(each.value.location, var.location)
+  resource_group_name           = var.resource_group_name
+  sku                           = each.value.sku
+  capacity                      = each.value.capacity
+  local_authentication_enabled  = false
+  minimum_tls_version           = "1.2"
+  public_network_access_enabled = !each.value.private_endpoint
+  tags                          = ${SERVICE_TAGS}
+
+${SYSTEM_IDENTITY}
+}
+
+${diagnostics('event_hubs', 'azurerm_eventhub_namespace.event_hubs')}
+
+${privateEndpoint('event_hubs', 'event_hubs_namespaces', 'azurerm_eventhub_namespace.event_hubs', 'namespace', 'privatelink.servicebus.windows.net')}`
+  },
+
+  'api-management': {
+    tier: 'integration',
+    variable: 'api_management_services',
+    description: 'API Management instances',
+    attributes: { sku_name: 'string' },
+    sku: sku => ({ sku_name: `${sku.skuName}_${sku.capacity}` }),
+    zones: [],
+    inputs: ['apiPublisher'],
+    primary: 'azurerm_api_management.api_management',
+    hostName: 'replace(resource.gateway_url, "https://", "")',
+    identity: true,
+    hcl: `resource "azurerm_api_management" "api_management" {
+  for_each            = var.api_management_services
+  name                = each.value.name
+  location            = coalesce(each.value.location, var.location)
+  resource_group_name = var.resource_group_name
+  publisher_email     = var.api_publisher_email
+  publisher_name      = var.api_publisher_name
+  sku_name            = each.value.sku_name
+  tags                = ${SERVICE_TAGS}
+
+${SYSTEM_IDENTITY}
+}
+
+${diagnostics('api_management', 'azurerm_api_management.api_management')}`
+  },
+  'front-door': {
+    tier: 'edge',
+    variable: 'front_doors',
+    description: 'Front Door profiles with a WAF policy and one endpoint per origin',
+    attributes: { sku_name: 'string', origins: ORIGINS_TYPE },
+    sku: sku => ({ sku_name: sku.skuName }),
+    zones: [],
+    inputs: [],
+    primary: 'azurerm_cdn_frontdoor_profile.front_door',
+    identity: false,
+    hcl: `locals {
+  # One entry per profile and origin, keyed "<profile>-<origin>"
+  front_door_origins = { for origin in flatten([
+    for key, front_door in var.front_doors : [
+      for origin in front_door.origins : merge(origin, { key = "\${key}-\${origin.name}", front_door = key })
+    ]
+  ]) : origin.key => origin }
+}
+
+resource "azurerm_cdn_frontdoor_profile" "front_door" {
+  for_each            = var.front_doors
+  name                = each.value.name
+  resource_group_name = var.resource_group_name
+  sku_name            = each.value.sku_name
+  tags                = ${SERVICE_TAGS}
+}
+
+resource "azurerm_cdn_frontdoor_firewall_policy" "front_door" {
+  for_each            = var.front_doors
+  name                = replace("waf\${each.value.name}", "-", "")
+  resource_group_name = var.resource_group_name
+  sku_name            = each.value.sku_name
+  enabled             = true
+  mode                = "Prevention"
+  tags                = ${SERVICE_TAGS}
+
+  # Managed rule sets need Premium
+  dynamic "managed_rule" {
+    for_each = each.value.sku_name == "Premium_AzureFrontDoor" ? ["Microsoft_DefaultRuleSet", "Microsoft_BotManagerRuleSet"] : []
+
+    content {
+      type    = managed_rule.value
+      version = managed_rule.value == "Microsoft_DefaultRuleSet" ? "2.1" : "1.0"
+      action  = "Block"
+    }
+  }
+}
+
+resource "azurerm_cdn_frontdoor_endpoint" "front_door" {
+  for_each                 = local.front_door_origins
+  name                     = substr("\${azurerm_cdn_frontdoor_profile.front_door[each.value.front_door].name}-\${each.value.name}", 0, 46)
+  cdn_frontdoor_profile_id = azurerm_cdn_frontdoor_profile.front_door[each.value.front_door].id
+  tags                     = var.tags
+}
+
+resource "azurerm_cdn_frontdoor_origin_group" "front_door" {
+  for_each                 = local.front_door_origins
+  name                     = each.value.name
+  cdn_frontdoor_profile_id = azurerm_cdn_frontdoor_profile.front_door[each.value.front_door].id
+
+  load_balancing {
+    sample_size                        = 4
+    successful_samples_required        = 3
+    additional_latency_in_milliseconds = 50
+  }
+
+  health_probe {
+    path                = "/"
+    request_type        = "HEAD"
+    protocol            = "Https"
+    interval_in_seconds = 100
+  }
+}
+
+resource "azurerm_cdn_frontdoor_origin" "front_door" {
+  for_each                       = local.front_door_origins
+  name                           = each.value.name
+  cdn_frontdoor_origin_group_id  = azurerm_cdn_frontdoor_origin_group.front_door[each.key].id
+  host_name                      = each.value.host_name
+  origin_host_header             = each.value.host_name
+  https_port                     = 443
+  priority                       = 1
+  weight                         = 1000
+  certificate_name_check_enabled = true
+
+  # Private origins are reached over Private Link; approve the connection on the origin
+  dynamic "private_link" {
+    for_each = each.value.private_link_target_id == null ? [] : [each.value]
+
+    content {
+      private_link_target_id = private_link.value.private_link_target_id
+      target_type            = "sites"
+      location               = private_link.value.private_link_location
+      request_message        = "Azure Front Door"
+    }
+  }
+}
+
+resource "azurerm_cdn_frontdoor_route" "front_door" {
+  for_each                      = local.front_door_origins
+  name                          = "default"
+  cdn_frontdoor_endpoint_id     = azurerm_cdn_frontdoor_endpoint.front_door[each.key].id
+  cdn_frontdoor_origin_group_id = azurerm_cdn_frontdoor_origin_group.front_door[each.key].id
+  cdn_frontdoor_origin_ids      = [azurerm_cdn_frontdoor_origin.front_door[each.key].id]
+  supported_protocols           = ["Http", "Https"]
+  patterns_to_match             = ["/*"]
+  forwarding_protocol           = "HttpsOnly"
+  https_redirect_enabled        = true
+  link_to_default_domain        = true
+}
+
+resource "azurerm_cdn_frontdoor_security_policy" "front_door" {
+  for_each                 = { for key, front_door in var.front_doors : key => front_door if length(front_door.origins) > 0 }
+  name                     = "waf"
+  cdn_frontdoor_profile_id = azurerm_cdn_frontdoor_profile.front_door[each.key].id
+
+  security_policies {
+    firewall {
+      cdn_frontdoor_firewall_policy_id = azurerm_cdn_frontdoor_firewall_policy.front_door[each.key].id
+
+      association {
+        patterns_to_match = ["/*"]
+
+        dynamic "domain" {
+          for_each = { for key, origin in local.front_door_origins : key => origin if origin.front_door == each.key }
+
+          content {
+            cdn_frontdoor_domain_id = azurerm_cdn_frontdoor_endpoint.front_door[domain.key].id
+          }
+        }
+      }
+    }
+  }
+}
+
+${diagnostics('front_door', 'azurerm_cdn_frontdoor_profile.front_door')}`
+  },
+  'application-gateway': {
+    tier: 'edge',
+    variable: 'application_gateways',
+    description: 'Application Gateways with a public HTTP listener routing to one backend',
+    attributes: { sku_name: 'string', min_capacity: 'number', max_capacity: 'number', backend_host_name: 'optional(string)' },
+    sku: sku => ({ sku_name: sku.skuName, min_capacity: sku.minCapacity, max_capacity: sku.maxCapacity }),
+    zones: [],
+    inputs: ['applicationGatewaySubnet'],
+    primary: 'azurerm_application_gateway.application_gateway',
+    identity: false,
+    hcl: `resource "azurerm_public_ip" "application_gateway" {
+  for_each            = var.application_gateways
+  name                = "pip-\${each.value.name}"
+  location            = coalesce(each.value.location, var.location)
+  resource_group_name = var.resource_group_name
+  allocation_method   = "Static"
+  sku                 = "Standard"
+  tags                = ${SERVICE_TAGS}
+}
+
+resource "azurerm_web_application_firewall_policy" "application_gateway" {
+  for_each            = { for key, gateway in var.application_gateways : key => gateway if gateway.sku_name == "WAF_v2" }
+  name                = "waf-\${each.value.name}"
+  location            = coalesce(each.value.location, var.location)
+  resource_group_name = var.resource_group_name
+  tags                = ${SERVICE_TAGS}
+
+  policy_settings {
+    enabled            = true
+    mode               = "Prevention"
+    request_body_check = true
+  }
+
+  managed_rules {
+    managed_rule_set {
+      type    = "OWASP"
+      version = "3.2"
+    }
+  }
+}
+
+resource "azurerm_application_gateway" "application_gateway" {
+  for_each            = var.application_gateways
+  name                = each.value.name
+  location            = coalesce(each.value.location, var.location)
+  resource_group_name = var.resource_group_name
+  firewall_policy_id  = try(azurerm_web_application_firewall_policy.application_gateway[each.key].id, null)
+  tags                = ${SERVICE_TAGS}
+
+  sku {
+    name = each.value.sku_name
+    tier = each.value.sku_name
+  }
+
+  autoscale_configuration {
+    min_capacity = each.value.min_capacity
+    max_capacity = each.value.max_capacity
+  }
+
+  ssl_policy {
+    policy_type = "Predefined"
+    policy_name = "AppGwSslPolicy20220101"
+  }
+
+  gateway_ip_configuration {
+    name      = "gateway"
+    subnet_id = var.application_gateway_subnet_id
+  }
+
+  frontend_ip_configuration {
+    name                 = "public"
+    public_ip_address_id = azurerm_public_ip.application_gateway[each.key].id
+  }
+
+  frontend_port {
+    name = "http"
+    port = 80
+  }
+
+  backend_address_pool {
+    name  = "backend"
+    fqdns = each.value.backend_host_name == null ? [] : [each.value.backend_host_name]
+  }
+
+  backend_http_settings {
+    name                                = "https"
+    port                                = 443
+    protocol                            = "Https"
+    cookie_based_affinity               = "Disabled"
+    pick_host_name_from_backend_address = true
+    request_timeout                     = 30
+  }
+
+  http_listener {
+    name                           = "http"
+    frontend_ip_configuration_name = "public"
+    frontend_port_name             = "http"
+    protocol                       = "Http"
+  }
+
+  request_routing_rule {
+    name                       = "default"
+    rule_type                  = "Basic"
+    priority                   = 100
+    http_listener_name         = "http"
+    backend_address_pool_name  = "backend"
+    backend_http_settings_name = "https"
+  }
+}
+
+${diagnostics('application_gateway', 'azurerm_application_gateway.application_gateway')}`
+  }
+};
+
+const TIER_COMMON_VARIABLES = `variable "name" {
+  description = "Base name of shared tier resources."
+  type        = string
+}
+
+variable "location" {
+  description = "Azure region of entries without their own location."
+  type        = string
+}
+
+variable "resource_group_name" {
+  description = "Resource group of the tier's resources."
+  type        = string
+}
+
+variable "tags" {
+  description = "Tags applied to every resource; entries add their service tag."
+  type        = map(string)
+  default     = {}
+}
+
+variable "log_analytics_workspace_id" {
+  description = "Log Analytics workspace receiving the diagnostic logs and metrics."
+  type        = string
+}
+
+variable "private_endpoint_subnet_id" {
+  description = "Subnet for private endpoints; required when an entry sets private_endpoint."
+  type        = string
+  default     = null
+}
+
+variable "private_dns_zone_ids" {
+  description = "Private DNS zone ids keyed by zone name."
+  type        = map(string)
+  default     = {}
+}`;
+
+const TIER_INPUT_VARIABLES: Record<TierInput, string> = {
+  applicationInsights: `variable "application_insights_connection_string" {
+  description = "Application Insights connection string; null to skip."
+  type        = string
+  default     = null
+  sensitive   = true
+}`,
+  appIntegrationSubnet: `variable "app_integration_subnet_id" {
+  description = "Subnet for App Service / Functions outbound VNet integration; null to skip."
+  type        = string
+  default     = null
+}`,
+  containerAppsSubnet: `variable "container_apps_subnet_id" {
+  description = "Subnet delegated to the Container Apps environment."
+  type        = string
+}`,
+  kubernetesSubnet: `variable "kubernetes_subnet_id" {
+  description = "Subnet of the AKS node pool."
+  type        = string
+}`,
+  applicationGatewaySubnet: `variable "application_gateway_subnet_id" {
+  description = "Dedicated subnet of the Application Gateways."
+  type        = string
+}`,
+  databaseAdministrator: `variable "database_administrator_object_id" {
+  description = "Object id of the Entra ID group administering the databases."
+  type        = string
+}
+
+variable "database_administrator_login" {
+  description = "Display name of the Entra ID database administrator group."
+  type        = string
+}`,
+  apiPublisher: `variable "api_publisher_email" {
+  description = "Publisher e-mail of the API Management instances."
+  type        = string
+}
+
+variable "api_publisher_name" {
+  description = "Publisher organisation of the API Management instances."
+  type        = string
+}`
+};
+
+/**
+ * Files of a tier module holding the given service kinds
+ */
+export function tierModuleFiles(tier: TerraformTier, kinds: IacModuleKind[]): TerraformModuleFiles {
+  const templates = kinds.map(kind => TERRAFORM_SERVICE_TEMPLATES[kind]);
+  const inputs = (Object.keys(TIER_INPUT_VARIABLES) as TierInput[]).filter(input => templates.some(template => template.inputs.includes(input)));
+
+  const main = [`# ${tier.charAt(0).toUpperCase()}${tier.slice(1)} tier`];
+  if (templates.some(template => template.clientConfig)) main.push('', 'data "azurerm_client_config" "current" {}');
+  templates.forEach(template => main.push('', `# ${template.description}`, template.hcl));
+
+  const variables = [TIER_COMMON_VARIABLES, ...inputs.map(input => TIER_INPUT_VARIABLES[input])];
+  for (const template of templates) {
+    const width = Math.max(16, ...Object.keys(template.attributes).map(key => key.length));
+    const field = (key: string, type: string) => `    ${key.padEnd(width)} = ${type}`;
+    variables.push([
+      `variable "${template.variable}" {`,
+      `  description = "${template.description}, keyed by service."`,
+      '  type = map(object({',
+      field('name', 'string'),
+      field('service', 'string'),
+      field('location', 'optional(string)'),
+      field('private_endpoint', 'optional(bool, false)'),
+      ...Object.entries(template.attributes).map(([key, type]) => field(key, type)),
+      '  }))',
+      '  default = {}',
+      '}'
+    ].join('\n'));
+  }
+
+  const outputs = templates.map(template => [
+    `output "${template.variable}" {`,
+    `  description = "Id, name${template.identity ? ', managed identity principal id' : ''}${template.hostName ? ', host name' : ''} per service."`,
+    '  value = {',
+    `    for key, resource in ${template.primary} : key => {`,
+    '      id           = resource.id',
+    '      name         = resource.name',
+    ...(template.identity ? ['      principal_id = resource.identity[0].principal_id'] : []),
+    ...(template.hostName ? [`      host_name    = ${template.hostName}`] : []),
+    '    }',
+    '  }',
+    '}'
+  ].join('\n'));
+
+  return {
+    'main.tf': main.join('\n') + '\n',
+    'variables.tf': variables.join('\n\n') + '\n',
+    'outputs.tf': outputs.join('\n\n') + '\n'
+  };
+}
+
+export const MONITORING_MODULE_FILES: TerraformModuleFiles = {
+  'main.tf': `# Shared monitoring
+
+resource "azurerm_log_analytics_workspace" "main" {
+  name                          = "log-\${var.name}"
+  location                      = var.location
+  resource_group_name           = var.resource_group_name
+  sku                           = "PerGB2018"
+  retention_in_days             = var.retention_in_days
+  local_authentication_disabled = true
+  tags                          = var.tags
+}
+
+resource "azurerm_application_insights" "main" {
+  count                         = var.enable_application_insights ? 1 : 0
+  name                          = "appi-\${var.name}"
+  location                      = var.location
+  resource_group_name           = var.resource_group_name
+  workspace_id                  = azurerm_log_analytics_workspace.main.id
+  application_type              = "web"
+  local_authentication_disabled = true
+  tags                          = var.tags
+}
+`,
+  'variables.tf': `variable "name" {
+  description = "Base name of the monitoring resources."
+  type        = string
+}
+
+variable "location" {
+  description = "Azure region of the monitoring resources."
+  type        = string
+}
+
+variable "resource_group_name" {
+  description = "Resource group of the monitoring resources."
+  type        = string
+}
+
+variable "tags" {
+  description = "Resource tags."
+  type        = map(string)
+  default     = {}
+}
+
+variable "retention_in_days" {
+  description = "Days the workspace keeps logs."
+  type        = number
+  default     = 30
+
+  validation {
+    condition     = var.retention_in_days >= 30 && var.retention_in_days <= 730
+    error_message = "retention_in_days must be between 30 and 730."
+  }
+}
+
+variable "enable_application_insights" {
+  description = "Create a workspace-based Application Insights component."
+  type        = bool
+  default     = false
+}
+`,
+  'outputs.tf': `output "workspace_id" {
+  description = "Log Analytics workspace id."
+  value       = azurerm_log_analytics_workspace.main.id
+}
+
+output "application_insights_connection_string" {
+  description = "Application Insights connection string, null when disabled."
+  value       = one(azurerm_application_insights.main[*].connection_string)
+  sensitive   = true
+}
+`
+};
+
+export const NETWORK_MODULE_FILES: TerraformModuleFiles = {
+  'main.tf': `# Shared virtual network and private DNS zones
+
+resource "azurerm_virtual_network" "main" {
+  name                = var.name
+  location            = var.location
+  resource_group_name = var.resource_group_name
+  address_space       = [var.address_space]
+  tags                = var.tags
+}
+
+resource "azurerm_network_security_group" "main" {
+  name                = "nsg-\${var.name}"
+  location            = var.location
+  resource_group_name = var.resource_group_name
+  tags                = var.tags
+}
+
+resource "azurerm_subnet" "private_endpoints" {
+  name                              = "snet-private-endpoints"
+  resource_group_name               = var.resource_group_name
+  virtual_network_name              = azurerm_virtual_network.main.name
+  address_prefixes                  = [cidrsubnet(var.address_space, 8, 0)]
+  private_endpoint_network_policies = "Enabled"
+}
+
+resource "azurerm_subnet_network_security_group_association" "private_endpoints" {
+  subnet_id                 = azurerm_subnet.private_endpoints.id
+  network_security_group_id = azurerm_network_security_group.main.id
+}
+
+resource "azurerm_subnet" "app_integration" {
+  count                = var.include_app_integration_subnet ? 1 : 0
+  name                 = "snet-app-integration"
+  resource_group_name  = var.resource_group_name
+  virtual_network_name = azurerm_virtual_network.main.name
+  address_prefixes     = [cidrsubnet(var.address_space, 8, 1)]
+
+  delegation {
+    name = "web"
+
+    service_delegation {
+      name    = "Microsoft.Web/serverFarms"
+      actions = ["Microsoft.Network/virtualNetworks/subnets/action"]
+    }
+  }
+}
+
+resource "azurerm_subnet_network_security_group_association" "app_integration" {
+  count                     = var.include_app_integration_subnet ? 1 : 0
+  subnet_id                 = azurerm_subnet.app_integration[0].id
+  network_security_group_id = azurerm_network_security_group.main.id
+}
+
+resource "azurerm_subnet" "container_apps" {
+  count                = var.include_container_apps_subnet ? 1 : 0
+  name                 = "snet-container-apps"
+  resource_group_name  = var.resource_group_name
+  virtual_network_name = azurerm_virtual_network.main.name
+  address_prefixes     = [cidrsubnet(var.address_space, 7, 1)]
+
+  delegation {
+    name = "containerapps"
+
+    service_delegation {
+      name    = "Microsoft.App/environments"
+      actions = ["Microsoft.Network/virtualNetworks/subnets/join/action"]
+    }
+  }
+}
+
+resource "azurerm_subnet" "kubernetes" {
+  count                = var.include_kubernetes_subnet ? 1 : 0
+  name                 = "snet-aks"
+  resource_group_name  = var.resource_group_name
+  virtual_network_name = azurerm_virtual_network.main.name
+  address_prefixes     = [cidrsubnet(var.address_space, 6, 1)]
+}
+
+# No NSG: the default rules would block the gateway's public listener and management ports
+resource "azurerm_subnet" "application_gateway" {
+  count                = var.include_application_gateway_subnet ? 1 : 0
+  name                 = "snet-app-gateway"
+  resource_group_name  = var.resource_group_name
+  virtual_network_name = azurerm_virtual_network.main.name
+  address_prefixes     = [cidrsubnet(var.address_space, 8, 8)]
+}
+
+resource "azurerm_private_dns_zone" "main" {
+  for_each            = var.private_dns_zones
+  name                = each.value
+  resource_group_name = var.resource_group_name
+  tags                = var.tags
+}
+
+resource "azurerm_private_dns_zone_virtual_network_link" "main" {
+  for_each              = azurerm_private_dns_zone.main
+  name                  = "link-\${var.name}"
+  resource_group_name   = var.resource_group_name
+  private_dns_zone_name = each.value.name
+  virtual_network_id    = azurerm_virtual_network.main.id
+  registration_enabled  = false
+  tags                  = var.tags
+}
+`,
+  'variables.tf': `variable "name" {
+  description = "Name of the virtual network."
+  type        = string
+}
+
+variable "location" {
+  description = "Azure region of the virtual network."
+  type        = string
+}
+
+variable "resource_group_name" {
+  description = "Resource group of the network resources."
+  type        = string
+}
+
+variable "tags" {
+  description = "Resource tags."
+  type        = map(string)
+  default     = {}
+}
+
+variable "address_space" {
+  description = "Address space of the virtual network."
+  type        = string
+  default     = "10.20.0.0/16"
+}
+
+variable "include_app_integration_subnet" {
+  description = "Add a subnet delegated to App Service / Functions VNet integration."
+  type        = bool
+  default     = false
+}
+
+variable "include_container_apps_subnet" {
+  description = "Add a subnet delegated to the Container Apps environment."
+  type        = bool
+  default     = false
+}
+
+variable "include_kubernetes_subnet" {
+  description = "Add a subnet for the AKS node pool."
+  type        = bool
+  default     = false
+}
+
+variable "include_application_gateway_subnet" {
+  description = "Add the dedicated Application Gateway subnet."
+  type        = bool
+  default     = false
+}
+
+variable "private_dns_zones" {
+  description = "Private DNS zones to create and link to the virtual network."
+  type        = set(string)
+  default     = []
+}
+`,
+  'outputs.tf': `output "vnet_id" {
+  description = "Virtual network id."
+  value       = azurerm_virtual_network.main.id
+}
+
+output "private_endpoint_subnet_id" {
+  description = "Subnet for private endpoints."
+  value       = azurerm_subnet.private_endpoints.id
+}
+
+output "app_integration_subnet_id" {
+  description = "Subnet for App Service / Functions VNet integration, null when not created."
+  value       = one(azurerm_subnet.app_integration[*].id)
+}
+
+output "container_apps_subnet_id" {
+  description = "Subnet of the Container Apps environment, null when not created."
+  value       = one(azurerm_subnet.container_apps[*].id)
+}
+
+output "kubernetes_subnet_id" {
+  description = "Subnet of the AKS node pool, null when not created."
+  value       = one(azurerm_subnet.kubernetes[*].id)
+}
+
+output "application_gateway_subnet_id" {
+  description = "Dedicated Application Gateway subnet, null when not created."
+  value       = one(azurerm_subnet.application_gateway[*].id)
+}
+
+output "private_dns_zone_ids" {
+  description = "Private DNS zone ids keyed by zone name."
+  value       = { for zone, dns in azurerm_private_dns_zone.main : zone => dns.id }
+}
+`
+};
@@ -0,0 +1,675 @@
+/**
+ * Terraform Validator
+ * Offline check of a generated Terraform project without the Terraform CLI:
+ * string and bracket syntax, the block/attribute grammar, references to
+ * variables, locals, resources, data sources and module outputs, function
+ * names, resource types and their required arguments against a local schema,
+ * module sources and inputs, and the root terraform.tfvars. Covers the subset
+ * of HCL the generator emits.
+ */
+
+import path from 'path';
+import { ValidationResult } from '../utils/schema-validator.js';
+
+interface Token {
+  kind: 'ident' | 'string' | 'number' | 'punct' | 'newline';
+  value: string;
+  line: number;
+}
+
+interface Attribute {
+  name: string;
+  line: number;
+  value: Token[];
+}
+
+interface Block {
+  type: string;
+  labels: string[];
+  line: number;
+  attributes: Attribute[];
+  blocks: Block[];
+}
+
+interface ModuleDirectory {
+  // Top-level blocks with the file they were declared in
+  blocks: Array<{ file: string; block: Block }>;
+  variables: Map<string, Block>;
+  locals: Set<string>;
+  outputs: Set<string>;
+  modules: Map<string, Block>;
+  resources: Set<string>;
+  dataSources: Set<string>;
+}
+
+// What a reference may use inside the block being checked
+interface Scope {
+  forEach: boolean;
+  count: boolean;
+  // for-expression variables and dynamic block iterators
+  locals: Set<string>;
+}
+
+// Label count of each top-level block type
+const TOP_LEVEL_BLOCKS: Record<string, number> = {
+  terraform: 0,
+  provider: 1,
+  variable: 1,
+  locals: 0,
+  resource: 2,
+  data: 2,
+  module: 1,
+  output: 1
+};
+
+const MODULE_META_ARGUMENTS = ['source', 'version', 'count', 'for_each', 'depends_on', 'providers'];
+const VARIABLE_ARGUMENTS = ['description', 'type', 'default', 'sensitive', 'nullable', 'validation'];
+const OUTPUT_ARGUMENTS = ['description', 'value', 'sensitive', 'depends_on'];
+
+// Local schema of the resource types the generator is allowed to emit, with their required arguments
+const RESOURCE_SCHEMAS: Record<string, string[]> = {
+  azurerm_resource_group: ['name', 'location'],
+  azurerm_log_analytics_workspace: ['name', 'location', 'resource_group_name'],
+  azurerm_application_insights: ['name', 'location', 'resource_group_name', 'application_type'],
+  azurerm_monitor_diagnostic_setting: ['name', 'target_resource_id', 'log_analytics_workspace_id'],
+  azurerm_role_assignment: ['scope', 'principal_id', 'role_definition_name'],
+  azurerm_virtual_network: ['name', 'location', 'resource_group_name', 'address_space'],
+  azurerm_network_security_group: ['name', 'location', 'resource_group_name'],
+  azurerm_subnet: ['name', 'resource_group_name', 'virtual_network_name', 'address_prefixes'],
+  azurerm_subnet_network_security_group_association: ['subnet_id', 'network_security_group_id'],
+  azurerm_private_dns_zone: ['name', 'resource_group_name'],
+  azurerm_private_dns_zone_virtual_network_link: ['name', 'resource_group_name', 'private_dns_zone_name', 'virtual_network_id'],
+  azurerm_private_endpoint: ['name', 'location', 'resource_group_name', 'subnet_id', 'private_service_connection'],
+  azurerm_service_plan: ['name', 'location', 'resource_group_name', 'os_type', 'sku_name'],
+  azurerm_linux_web_app: ['name', 'location', 'resource_group_name', 'service_plan_id', 'site_config'],
+  azurerm_linux_function_app: ['name', 'location', 'resource_group_name', 'service_plan_id', 'storage_account_name', 'site_config'],
+  azurerm_storage_account: ['name', 'location', 'resource_group_name', 'account_tier', 'account_replication_type'],
+  azurerm_container_app_environment: ['name', 'location', 'resource_group_name'],
+  azurerm_container_app: ['name', 'resource_group_name', 'container_app_environment_id', 'revision_mode', 'template'],
+  azurerm_kubernetes_cluster: ['name', 'location', 'resource_group_name', 'dns_prefix', 'default_node_pool', 'identity'],
+  azurerm_mssql_server: ['name', 'location', 'resource_group_name', 'version'],
+  azurerm_mssql_database: ['name', 'server_id'],
+  azurerm_postgresql_flexible_server: ['name', 'location', 'resource_group_name', 'sku_name'],
+  azurerm_postgresql_flexible_server_active_directory_administrator: ['server_name', 'resource_group_name', 'tenant_id', 'object_id', 'principal_name', 'principal_type'],
+  azurerm_cosmosdb_account: ['name', 'location', 'resource_group_name', 'offer_type', 'consistency_policy', 'geo_location'],
+  azurerm_redis_cache: ['name', 'location', 'resource_group_name', 'capacity', 'family', 'sku_name'],
+  azurerm_key_vault: ['name', 'location', 'resource_group_name', 'tenant_id', 'sku_name'],
+  azurerm_cognitive_account: ['name', 'location', 'resource_group_name', 'kind', 'sku_name'],
+  azurerm_search_service: ['name', 'location', 'resource_group_name', 'sku'],
+  azurerm_servicebus_namespace: ['name', 'location', 'resource_group_name', 'sku'],
+  azurerm_eventhub_namespace: ['name', 'location', 'resource_group_name', 'sku'],
+  azurerm_api_management: ['name', 'location', 'resource_group_name', 'publisher_name', 'publisher_email', 'sku_name'],
+  azurerm_cdn_frontdoor_profile: ['name', 'resource_group_name', 'sku_name'],
+  azurerm_cdn_frontdoor_firewall_policy: ['name', 'resource_group_name', 'sku_name', 'mode'],
+  azurerm_cdn_frontdoor_endpoint: ['name', 'cdn_frontdoor_profile_id'],
+  azurerm_cdn_frontdoor_origin_group: ['name', 'cdn_frontdoor_profile_id', 'load_balancing'],
+  azurerm_cdn_frontdoor_origin: ['name', 'cdn_frontdoor_origin_group_id', 'host_name', 'certificate_name_check_enabled'],
+  azurerm_cdn_frontdoor_route: ['name', 'cdn_frontdoor_endpoint_id', 'cdn_frontdoor_origin_group_id', 'cdn_frontdoor_origin_ids', 'patterns_to_match', 'supported_protocols'],
+  azurerm_cdn_frontdoor_security_policy: ['name', 'cdn_frontdoor_profile_id', 'security_policies'],
+  azurerm_public_ip: ['name', 'location', 'resource_group_name', 'allocation_method'],
+  azurerm_web_application_firewall_policy: ['name', 'location', 'resource_group_name', 'managed_rules'],
+  azurerm_application_gateway: [
+    'name', 'location', 'resource_group_name', 'sku', 'gateway_ip_configuration', 'frontend_ip_configuration', 'frontend_port',
+    'backend_address_pool', 'backend_http_settings', 'http_listener', 'request_routing_rule'
+  ]
+};
+
+const DATA_SOURCES = ['azurerm_client_config'];
+
+const KEYWORDS = ['true', 'false', 'null', 'for', 'in', 'if'];
+
+const FUNCTIONS = [
+  'abs', 'can', 'cidrsubnet', 'coalesce', 'concat', 'contains', 'distinct', 'element', 'endswith', 'flatten', 'format',
+  'join', 'jsonencode', 'keys', 'length', 'lookup', 'lower', 'max', 'merge', 'min', 'one', 'regex', 'replace', 'sha1',
+  'split', 'startswith', 'substr', 'tolist', 'tomap', 'tonumber', 'toset', 'tostring', 'trimspace', 'try', 'upper',
+  'values', 'zipmap'
+];
+
+const STRING_ESCAPES = ['\\', '"', 'n', 'r', 't', 'u', 'U'];
+
+/**
+ * Validate every .tf file of the project (paths relative to the project root),
+ * grouped into modules by directory, and the root tfvars file
+ */
+export function validateTerraformProject(files: Record<string, string>, tfvarsFile = 'terraform.tfvars'): ValidationResult {
+  const errors: string[] = [];
+  const directories = new Map<string, ModuleDirectory>();
+
+  for (const [file, content] of Object.entries(files)) {
+    if (!file.endsWith('.tf')) continue;
+    const fileErrors: string[] = [];
+    const blocks = parseHcl(content, fileErrors);
+    errors.push(...fileErrors.map(error => `${file} ${error}`));
+
+    const dir = path.posix.dirname(file);
+    if (!directories.has(dir)) {
+      directories.set(dir, { blocks: [], variables: new Map(), locals: new Set(), outputs: new Set(), modules: new Map(), resources: new Set(), dataSources: new Set() });
+    }
+    directories.get(dir)!.blocks.push(...blocks.map(block => ({ file, block })));
+  }
+
+  if (!directories.has('.')) errors.push('the root module has no .tf files');
+  // References are only meaningful once every file parses
+  if (errors.length > 0) return { valid: false, errors };
+
+  for (const directory of directories.values()) collectDeclarations(directory, errors);
+  for (const [dir, directory] of directories) {
+    checkProviders(dir, directory, errors);
+    for (const { file, block } of directory.blocks) {
+      checkBlock(file, block, errors);
+      checkReferences(file, block, directory, directories, dir, errors);
+    }
+    checkModuleCalls(dir, directory, directories, errors);
+  }
+
+  const root = directories.get('.');
+  if (root && files[tfvarsFile] !== undefined) checkTfvars(tfvarsFile, files[tfvarsFile], root, errors);
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Parse one file into its top-level blocks; syntax errors are collected with their line numbers
+ */
+function parseHcl(text: string, errors: string[]): Block[] {
+  const tokens = tokenize(text, errors);
+  const before = errors.length;
+  checkBrackets(tokens, errors);
+  const root: Block = { type: '', labels: [], line: 0, attributes: [], blocks: [] };
+  const end = parseBody(tokens, 0, root, errors, true);
+  if (end < tokens.length && errors.length === before) errors.push(`line ${tokens[end].line}: unexpected "${tokens[end].value}"`);
+  if (root.attributes.length > 0) errors.push(`line ${root.attributes[0].line}: attribute "${root.attributes[0].name}" outside of a block`);
+  return root.blocks;
+}
+
+/**
+ * Attributes ("name = expression") and nested blocks ("type "label" {") until the closing brace
+ */
+function parseBody(tokens: Token[], start: number, block: Block, errors: string[], topLevel = false): number {
+  let i = start;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (token.kind === 'newline') {
+      i++;
+      continue;
+    }
+    if (token.value === '}' && token.kind === 'punct') {
+      if (topLevel) return i;
+      return i + 1;
+    }
+    if (token.kind !== 'ident') {
+      errors.push(`line ${token.line}: expected an attribute or block, found "${token.value}"`);
+      i = skipLine(tokens, i);
+      continue;
+    }
+
+    if (tokens[i + 1]?.value === '=') {
+      const value: Token[] = [];
+      let depth = 0;
+      let j = i + 2;
+      for (; j < tokens.length; j++) {
+        const next = tokens[j];
+        if (next.kind === 'newline' && depth === 0) break;
+        if (next.kind === 'punct' && ['{', '[', '(', '${'].includes(next.value)) depth++;
+        if (next.kind === 'punct' && ['}', ']', ')'].includes(next.value)) {
+          if (depth === 0) break;
+          depth--;
+        }
+        if (next.kind !== 'newline') value.push(next);
+      }
+      if (value.length === 0) errors.push(`line ${token.line}: attribute "${token.value}" needs a value`);
+      if (block.attributes.some(attribute => attribute.name === token.value)) {
+        errors.push(`line ${token.line}: attribute "${token.value}" is set twice`);
+      }
+      block.attributes.push({ name: token.value, line: token.line, value });
+      i = j;
+      continue;
+    }
+
+    const labels: string[] = [];
+    let j = i + 1;
+    while (tokens[j]?.kind === 'string' || (tokens[j]?.kind === 'ident' && tokens[j + 1]?.value !== '=')) labels.push(tokens[j++].value);
+    if (tokens[j]?.value !== '{') {
+      errors.push(`line ${token.line}: expected "=" or "{" after "${token.value}"`);
+      i = skipLine(tokens, i);
+      continue;
+    }
+    const nested: Block = { type: token.value, labels, line: token.line, attributes: [], blocks: [] };
+    i = parseBody(tokens, j + 1, nested, errors);
+    block.blocks.push(nested);
+    if (tokens[i] && tokens[i].kind !== 'newline' && !(tokens[i].kind === 'punct' && tokens[i].value === '}')) {
+      errors.push(`line ${tokens[i].line}: expected a newline after the "${token.value}" block`);
+    }
+  }
+  return i;
+}
+
+function skipLine(tokens: Token[], index: number): number {
+  let i = index;
+  while (i < tokens.length && tokens[i].kind !== 'newline') i++;
+  return i;
+}
+
+function tokenize(text: string, errors: string[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let line = 1;
+
+  const push = (kind: Token['kind'], value: string) => tokens.push({ kind, value, line });
+
+  // Reads one token; returns false at the end of input
+  const readToken = (): boolean => {
+    while (i < text.length && (text[i] === ' ' || text[i] === '\t' || text[i] === '\r')) i++;
+    if (i >= text.length) return false;
+    const char = text[i];
+
+    if (char === '\n') {
+      push('newline', '\n');
+      line++;
+      i++;
+    } else if (char === '#' || text.startsWith('//', i)) {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      const comment = text.slice(i, end < 0 ? text.length : end + 2);
+      if (end < 0) errors.push(`line ${line}: unterminated comment`);
+      line += comment.split('\n').length - 1;
+      i += comment.length;
+    } else if (text.startsWith('<<', i) && /^<<-?[A-Za-z_]/.test(text.slice(i, i + 4))) {
+      readHeredoc();
+    } else if (char === '"') {
+      readString();
+    } else if (/[0-9]/.test(char)) {
+      const start = i;
+      while (i < text.length && /[0-9.]/.test(text[i])) i++;
+      push('number', text.slice(start, i));
+    } else if (/[A-Za-z_]/.test(char)) {
+      const start = i;
+      while (i < text.length && /[A-Za-z0-9_-]/.test(text[i])) i++;
+      push('ident', text.slice(start, i));
+    } else {
+      const operator = ['==', '!=', '<=', '>=', '&&', '||', '=>', '...'].find(op => text.startsWith(op, i));
+      if (operator) {
+        push('punct', operator);
+        i += operator.length;
+      } else if ('{}[]():,.?!=<>+-*/%'.includes(char)) {
+        push('punct', char);
+        i++;
+      } else {
+        errors.push(`line ${line}: unexpected character "${char}"`);
+        i++;
+      }
+    }
+    return true;
+  };
+
+  const readHeredoc = () => {
+    const marker = text.slice(i).match(/^<<-?([A-Za-z_][A-Za-z0-9_]*)\r?\n/);
+    if (!marker) {
+      errors.push(`line ${line}: heredoc marker must be followed by a newline`);
+      i += 2;
+      return;
+    }
+    const startLine = line;
+    i += marker[0].length;
+    line++;
+    const lines = text.slice(i).split('\n');
+    const endIndex = lines.findIndex(candidate => candidate.trim() === marker[1]);
+    if (endIndex < 0) {
+      errors.push(`line ${startLine}: heredoc "${marker[1]}" is never closed`);
+      i = text.length;
+      return;
+    }
+    push('string', lines.slice(0, endIndex).join('\n'));
+    i += lines.slice(0, endIndex + 1).join('\n').length;
+    line += endIndex;
+  };
+
+  // Double-quoted template; ${...} interpolations are tokenized as expressions between "${" and "}"
+  const readString = () => {
+    const startLine = line;
+    let value = '';
+    i++;
+    while (true) {
+      if (i >= text.length || text[i] === '\n') {
+        errors.push(`line ${startLine}: unterminated string`);
+        break;
+      }
+      const char = text[i];
+      if (char === '"') {
+        i++;
+        break;
+      }
+      if (char === '\\') {
+        const escaped = text[i + 1];
+        if (!STRING_ESCAPES.includes(escaped)) errors.push(`line ${line}: invalid escape "\\${escaped ?? ''}" in string`);
+        value += escaped ?? '';
+        i += 2;
+        continue;
+      }
+      if (text.startsWith('$${', i) || text.startsWith('%%{', i)) {
+        value += text.slice(i + 1, i + 3);
+        i += 3;
+        continue;
+      }
+      if (text.startsWith('%{', i)) {
+        errors.push(`line ${line}: template directives are not supported`);
+        i += 2;
+        continue;
+      }
+      if (text.startsWith('${', i)) {
+        push('string', value);
+        value = '';
+        push('punct', '${');
+        i += 2;
+        let depth = 0;
+        while (true) {
+          const before = tokens.length;
+          if (!readToken()) {
+            errors.push(`line ${startLine}: unterminated interpolation`);
+            return;
+          }
+          const token = tokens[tokens.length - 1];
+          if (tokens.length === before || token.kind !== 'punct') continue;
+          if (token.value === '{' || token.value === '${') depth++;
+          if (token.value === '}') {
+            if (depth === 0) break;
+            depth--;
+          }
+        }
+        continue;
+      }
+      value += char;
+      i++;
+    }
+    push('string', value);
+  };
+
+  while (readToken()) { /* tokens collected by readToken */ }
+  return tokens;
+}
+
+function checkBrackets(tokens: Token[], errors: string[]): void {
+  const pairs: Record<string, string> = { '}': '{', ']': '[', ')': '(' };
+  const stack: Token[] = [];
+  for (const token of tokens) {
+    if (token.kind !== 'punct') continue;
+    if (['{', '[', '(', '${'].includes(token.value)) {
+      stack.push(token);
+    } else if (pairs[token.value]) {
+      const open = stack.pop();
+      const expected = open?.value === '${' ? '{' : open?.value;
+      if (expected !== pairs[token.value]) {
+        errors.push(`line ${token.line}: unexpected "${token.value}"${open ? ` (open "${open.value}" from line ${open.line})` : ''}`);
+        if (open) stack.push(open);
+      }
+    }
+  }
+  stack.forEach(open => errors.push(`line ${open.line}: "${open.value}" is never closed`));
+}
+
+/**
+ * Declared names of one module directory; duplicates are errors
+ */
+function collectDeclarations(directory: ModuleDirectory, errors: string[]): void {
+  const seen = new Map<string, string>();
+  const declare = (key: string, file: string, line: number) => {
+    const existing = seen.get(key);
+    if (existing) errors.push(`${file} line ${line}: ${key} is already declared in ${existing}`);
+    else seen.set(key, `${file} line ${line}`);
+  };
+
+  for (const { file, block } of directory.blocks) {
+    const [first, second] = block.labels;
+    switch (block.type) {
+      case 'variable':
+        declare(`var.${first}`, file, block.line);
+        directory.variables.set(first, block);
+        break;
+      case 'locals':
+        for (const attribute of block.attributes) {
+          declare(`local.${attribute.name}`, file, attribute.line);
+          directory.locals.add(attribute.name);
+        }
+        break;
+      case 'output':
+        declare(`output.${first}`, file, block.line);
+        directory.outputs.add(first);
+        break;
+      case 'module':
+        declare(`module.${first}`, file, block.line);
+        directory.modules.set(first, block);
+        break;
+      case 'resource':
+        declare(`${first}.${second}`, file, block.line);
+        directory.resources.add(`${first}.${second}`);
+        break;
+      case 'data':
+        declare(`data.${first}.${second}`, file, block.line);
+        directory.dataSources.add(`${first}.${second}`);
+        break;
+    }
+  }
+}
+
+function checkProviders(dir: string, directory: ModuleDirectory, errors: string[]): void {
+  if (dir !== '.') return;
+  const declared = directory.blocks.some(({ block }) => block.type === 'terraform' &&
+    block.blocks.some(nested => nested.type === 'required_providers' && nested.attributes.some(attribute => attribute.name === 'azurerm')));
+  if (!declared) errors.push('the root module must declare azurerm in terraform.required_providers');
+}
+
+/**
+ * Top-level grammar, resource and data source types and their required arguments
+ */
+function checkBlock(file: string, block: Block, errors: string[]): void {
+  const prefix = `${file} line ${block.line}:`;
+  const labelCount = TOP_LEVEL_BLOCKS[block.type];
+  if (labelCount === undefined) {
+    errors.push(`${prefix} unknown block type "${block.type}"`);
+    return;
+  }
+  if (block.labels.length !== labelCount) {
+    errors.push(`${prefix} ${block.type} needs ${labelCount} label(s), found ${block.labels.length}`);
+    return;
+  }
+
+  const keys = new Set([...block.attributes.map(attribute => attribute.name), ...block.blocks.map(nested => nested.type)]);
+  switch (block.type) {
+    case 'variable':
+      [...keys].filter(key => !VARIABLE_ARGUMENTS.includes(key)).forEach(key => errors.push(`${prefix} "${key}" is not a variable argument`));
+      if (!keys.has('type')) errors.push(`${prefix} variable "${block.labels[0]}" needs a type`);
+      break;
+    case 'output':
+      [...keys].filter(key => !OUTPUT_ARGUMENTS.includes(key)).forEach(key => errors.push(`${prefix} "${key}" is not an output argument`));
+      if (!keys.has('value')) errors.push(`${prefix} output "${block.labels[0]}" needs a value`);
+      break;
+    case 'resource': {
+      const required = RESOURCE_SCHEMAS[block.labels[0]];
+      if (!required) {
+        errors.push(`${prefix} resource type "${block.labels[0]}" is not in the local schema`);
+        break;
+      }
+      required.filter(key => !keys.has(key)).forEach(key => errors.push(`${prefix} ${block.labels[0]} "${block.labels[1]}" needs "${key}"`));
+      if (keys.has('count') && keys.has('for_each')) errors.push(`${prefix} count and for_each cannot be combined`);
+      break;
+    }
+    case 'data':
+      if (!DATA_SOURCES.includes(block.labels[0])) errors.push(`${prefix} data source "${block.labels[0]}" is not in the local schema`);
+      break;
+    case 'module':
+      if (!block.attributes.some(attribute => attribute.name === 'source')) errors.push(`${prefix} module "${block.labels[0]}" needs a source`);
+      break;
+  }
+}
+
+/**
+ * Every expression of the block refers to something declared, calls known functions
+ * and only uses each/count where the block iterates
+ */
+function checkReferences(
+  file: string,
+  block: Block,
+  directory: ModuleDirectory,
+  directories: Map<string, ModuleDirectory>,
+  dir: string,
+  errors: string[]
+): void {
+  if (block.type === 'terraform') return;
+  const iterates = (key: string) => block.attributes.some(attribute => attribute.name === key);
+  const scope: Scope = { forEach: iterates('for_each'), count: iterates('count'), locals: new Set() };
+
+  const visit = (current: Block, currentScope: Scope) => {
+    for (const attribute of current.attributes) {
+      // Type constraints and ignore_changes name attributes, not values
+      if ((current === block && block.type === 'variable' && attribute.name === 'type') ||
+        (current.type === 'lifecycle' && attribute.name === 'ignore_changes')) continue;
+      checkExpression(file, attribute.value, currentScope, directory, directories, dir, errors);
+    }
+    for (const nested of current.blocks) {
+      if (nested.type === 'dynamic') {
+        const iterator = nested.labels[0];
+        nested.attributes.forEach(attribute => checkExpression(file, attribute.value, currentScope, directory, directories, dir, errors));
+        const inner: Scope = { ...currentScope, locals: new Set([...currentScope.locals, iterator]) };
+        nested.blocks.forEach(content => visit(content, inner));
+      } else {
+        visit(nested, currentScope);
+      }
+    }
+  };
+  visit(block, scope);
+}
+
+function checkExpression(
+  file: string,
+  tokens: Token[],
+  scope: Scope,
+  directory: ModuleDirectory,
+  directories: Map<string, ModuleDirectory>,
+  dir: string,
+  errors: string[]
+): void {
+  const locals = new Set(scope.locals);
+  const name = (index: number) => tokens[index]?.kind === 'ident' && tokens[index - 1]?.value === '.' ? tokens[index].value : undefined;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind !== 'ident') continue;
+    const previous = tokens[i - 1];
+    const next = tokens[i + 1];
+    const prefix = `${file} line ${token.line}:`;
+
+    if (previous?.value === '.' || next?.value === '=') continue;
+    if (token.value === 'for') {
+      // for key, value in ... / for item in ...
+      for (let j = i + 1; j < tokens.length && tokens[j].value !== 'in'; j++) {
+        if (tokens[j].kind === 'ident') locals.add(tokens[j].value);
+      }
+      continue;
+    }
+    if (KEYWORDS.includes(token.value) || locals.has(token.value)) continue;
+    if (next?.value === '(') {
+      if (!FUNCTIONS.includes(token.value)) errors.push(`${prefix} unknown function "${token.value}"`);
+      continue;
+    }
+
+    const first = name(i + 2);
+    const second = name(i + 4);
+    switch (token.value) {
+      case 'var':
+        if (!first || !directory.variables.has(first)) errors.push(`${prefix} variable "${first ?? ''}" is not declared`);
+        break;
+      case 'local':
+        if (!first || !directory.locals.has(first)) errors.push(`${prefix} local "${first ?? ''}" is not declared`);
+        break;
+      case 'data':
+        if (!first || !second || !directory.dataSources.has(`${first}.${second}`)) errors.push(`${prefix} data source "${first}.${second}" is not declared`);
+        break;
+      case 'module': {
+        const call = first ? directory.modules.get(first) : undefined;
+        if (!call) {
+          errors.push(`${prefix} module "${first ?? ''}" is not declared`);
+          break;
+        }
+        const child = directories.get(moduleDirectory(dir, call));
+        if (child && second && !child.outputs.has(second)) errors.push(`${prefix} module "${first}" has no output "${second}"`);
+        break;
+      }
+      case 'each':
+        if (!scope.forEach) errors.push(`${prefix} "each" is only available in blocks with for_each`);
+        break;
+      case 'count':
+        if (!scope.count) errors.push(`${prefix} "count" is only available in blocks with count`);
+        break;
+      case 'path':
+      case 'terraform':
+      case 'self':
+        break;
+      default:
+        if (!first) {
+          errors.push(`${prefix} "${token.value}" is not defined`);
+        } else if (!directory.resources.has(`${token.value}.${first}`)) {
+          errors.push(`${prefix} resource "${token.value}.${first}" is not declared`);
+        }
+    }
+  }
+}
+
+function moduleDirectory(dir: string, call: Block): string {
+  const source = call.attributes.find(attribute => attribute.name === 'source')?.value[0]?.value || '';
+  return path.posix.normalize(path.posix.join(dir, source));
+}
+
+/**
+ * Local module sources exist and every input is a declared variable; required variables are set
+ */
+function checkModuleCalls(dir: string, directory: ModuleDirectory, directories: Map<string, ModuleDirectory>, errors: string[]): void {
+  for (const { file, block } of directory.blocks) {
+    if (block.type !== 'module') continue;
+    const prefix = `${file} line ${block.line}:`;
+    const source = block.attributes.find(attribute => attribute.name === 'source');
+    if (!source) continue;
+    if (source.value.length !== 1 || source.value[0].kind !== 'string' || !source.value[0].value.startsWith('./')) {
+      errors.push(`${prefix} module "${block.labels[0]}" source must be a local "./" path`);
+      continue;
+    }
+    const child = directories.get(moduleDirectory(dir, block));
+    if (!child) {
+      errors.push(`${prefix} module source ${source.value[0].value} has no .tf files`);
+      continue;
+    }
+
+    const inputs = block.attributes.filter(attribute => !MODULE_META_ARGUMENTS.includes(attribute.name));
+    for (const input of inputs) {
+      if (!child.variables.has(input.name)) errors.push(`${file} line ${input.line}: module "${block.labels[0]}" has no variable "${input.name}"`);
+    }
+    for (const [name, variable] of child.variables) {
+      if (!variable.attributes.some(attribute => attribute.name === 'default') && !inputs.some(input => input.name === name)) {
+        errors.push(`${prefix} module "${block.labels[0]}" is missing required variable "${name}"`);
+      }
+    }
+  }
+}
+
+function checkTfvars(file: string, content: string, root: ModuleDirectory, errors: string[]): void {
+  const fileErrors: string[] = [];
+  const tokens = tokenize(content, fileErrors);
+  checkBrackets(tokens, fileErrors);
+  const body: Block = { type: '', labels: [], line: 0, attributes: [], blocks: [] };
+  parseBody(tokens, 0, body, fileErrors, true);
+  errors.push(...fileErrors.map(error => `${file} ${error}`));
+  body.blocks.forEach(block => errors.push(`${file} line ${block.line}: blocks are not allowed in a variables file`));
+
+  for (const attribute of body.attributes) {
+    if (!root.variables.has(attribute.name)) {
+      errors.push(`${file} line ${attribute.line}: "${attribute.name}" is not a variable of the root module`);
+    } else if (attribute.value.some((token, index) => token.kind === 'ident' && !KEYWORDS.includes(token.value) && attribute.value[index + 1]?.value !== '=')) {
+      errors.push(`${file} line ${attribute.line}: "${attribute.name}" must be a literal value`);
+    }
+  }
+  for (const [name, variable] of root.variables) {
+    if (!variable.attributes.some(attribute => attribute.name === 'default') && !body.attributes.some(attribute => attribute.name === name)) {
+      errors.push(`${file}: required variable "${name}" has no value`);
+    }
+  }
+}
@@ -8,6 +8,8 @@
 import chalk from 'chalk';
 import { promises as fs } from 'fs';
 import { join } from 'path';
+import { telemetry } from '../core/telemetry.js';
+import { costLedger } from '../core/cost-ledger.js';
 
 export interface DashboardMetrics {
   timestamp: string;
@@ -58,10 +60,12 @@ export class AgentMonitoringDashboard {
    */
   startDashboard(updateIntervalMs: number = 5000): void {
     console.clear();
+    this.syncFromTelemetry();
     this.displayDashboard();
 
     this.updateInterval = setInterval(() => {
       console.clear();
+      this.syncFromTelemetry();
       this.displayDashboard();
     }, updateIntervalMs);
   }
@@ -87,6 +91,39 @@ export class AgentMonitoringDashboard {
     };
   }
 
+  /**
+   * Pull measured LLM call metrics from the telemetry collector
+   */
+  syncFromTelemetry(): void {
+    const calls = telemetry.getCalls();
+    const agents = telemetry.getAgentMetrics();
+    const successful = calls.filter(call => call.status === 'success').length;
+
+    const agentHealth: DashboardMetrics['agentHealth'] = {};
+    for (const [agentName, agent] of Object.entries(agents)) {
+      const agentCalls = calls.filter(call => call.agent === agentName);
+      const lastSuccess = agentCalls.map(call => call.status).lastIndexOf('success');
+
+      agentHealth[agentName] = {
+        status: agent.status === 'unhealthy' ? 'critical' : agent.status,
+        successRate: agent.requestsCount > 0 ? (agent.successfulRequests / agent.requestsCount) * 100 : 100,
+        avgLatencyMs: agent.averageResponseTime,
+        errorRate: agent.errorRate * 100,
+        consecutiveFailures: agentCalls.length - 1 - lastSuccess,
+        lastError: agent.lastError
+      };
+    }
+
+    this.updateMetrics({
+      totalExecutions: calls.length,
+      successfulExecutions: successful,
+      failedExecutions: calls.length - successful,
+      averageLatencyMs: telemetry.getHealth().averageResponseTime,
+      totalCostUsd: costLedger.spent(),
+      agentHealth
+    });
+  }
+
   /**
    * Display comprehensive monitoring dashboard
    */
@@ -304,7 +341,8 @@ export class AgentMonitoringDashboard {
  * const dashboard = new AgentMonitoringDashboard();
  * dashboard.startDashboard(5000); // Update every 5 seconds
  * 
- * // Update with real metrics from orchestrator
+ * // Metrics measured by the telemetry collector are pulled on every refresh;
+ * // call syncFromTelemetry() to refresh manually, or push extra values:
  * dashboard.updateMetrics({
  *   totalExecutions: 50,
  *   successfulExecutions: 47,
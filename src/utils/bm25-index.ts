@@ -0,0 +1,99 @@
+/**
+ * BM25 Index
+ * Local lexical search over report passages (Okapi BM25, k1 1.2, b 0.75) for
+ * the WAF checklist evidence matching. Terms are lowercased, stop words and
+ * numbers dropped, and common suffixes stripped so that "redundant",
+ * "redundancy" and "zone-redundant" (or "stored" and "storage") meet on one stem.
+ */
+
+export interface Bm25Match {
+  // Position of the document in the indexed list
+  document: number;
+  score: number;
+  // Query terms (stems) the document contains
+  matchedTerms: string[];
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'for', 'from', 'has', 'have', 'in', 'into', 'is', 'it', 'its',
+  'of', 'on', 'or', 'our', 'should', 'such', 'that', 'the', 'their', 'this', 'to', 'use', 'using', 'vs', 'was', 'we',
+  'were', 'which', 'will', 'with', 'within', 'you', 'your'
+]);
+
+// Longest first; each needs a stem of at least 4 letters to remain
+const SUFFIXES = [
+  'ability', 'ations', 'ation', 'ition', 'ating', 'ated', 'ness', 'ment', 'ancy', 'ency', 'able', 'ible', 'ing', 'ate',
+  'age', 'ant', 'ent', 'ion', 'ity', 'ive', 'ize', 'ise', 'ed', 'al', 'ly'
+];
+
+export function tokenize(text: string): string[] {
+  const words: string[] = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  return words
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word) && !/^\d+$/.test(word))
+    .map(stem);
+}
+
+export function stem(word: string): string {
+  let result = word;
+  if (result.endsWith('ies') && result.length > 4) result = `${result.slice(0, -3)}y`;
+  else if (result.endsWith('sses')) result = result.slice(0, -2);
+  else if (result.endsWith('s') && !/(ss|us|is)$/.test(result) && result.length > 3) result = result.slice(0, -1);
+
+  const suffix = SUFFIXES.find(candidate => result.endsWith(candidate) && result.length - candidate.length >= 4);
+  return suffix ? result.slice(0, -suffix.length) : result;
+}
+
+export class Bm25Index {
+  private documents: Map<string, number>[];
+  private lengths: number[];
+  private averageLength: number;
+  private documentFrequency = new Map<string, number>();
+
+  constructor(documents: string[]) {
+    this.documents = documents.map(document => {
+      const frequencies = new Map<string, number>();
+      for (const term of tokenize(document)) frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+      return frequencies;
+    });
+    this.lengths = this.documents.map(frequencies => [...frequencies.values()].reduce((total, count) => total + count, 0));
+    this.averageLength = this.lengths.reduce((total, length) => total + length, 0) / Math.max(1, this.lengths.length);
+    for (const frequencies of this.documents) {
+      for (const term of frequencies.keys()) this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  /**
+   * Inverse document frequency; terms the index does not contain weigh like
+   * the rarest ones it does
+   */
+  idf(term: string): number {
+    const frequency = Math.max(1, this.documentFrequency.get(term) ?? 0);
+    return Math.log(1 + (this.documents.length - frequency + 0.5) / (frequency + 0.5));
+  }
+
+  contains(document: number, term: string): boolean {
+    return this.documents[document]?.has(term) ?? false;
+  }
+
+  /**
+   * Documents containing any query term, best first
+   */
+  search(query: string, limit = 5): Bm25Match[] {
+    const terms = [...new Set(tokenize(query))];
+    const matches: Bm25Match[] = [];
+    this.documents.forEach((frequencies, document) => {
+      const matchedTerms = terms.filter(term => frequencies.has(term));
+      if (matchedTerms.length === 0) return;
+      const norm = K1 * (1 - B + B * this.lengths[document] / (this.averageLength || 1));
+      const score = matchedTerms.reduce((total, term) => {
+        const frequency = frequencies.get(term)!;
+        return total + this.idf(term) * frequency * (K1 + 1) / (frequency + norm);
+      }, 0);
+      matches.push({ document, score, matchedTerms });
+    });
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -50,19 +50,21 @@ export class ConcurrencyLimiter {
 
     // Wait in queue
     return new Promise((resolve, reject) => {
+      const wrappedResolve = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+
+      // Leave the queue on timeout, otherwise a later release would hand the
+      // slot to a caller that is no longer waiting and the slot would leak
       const timeout = setTimeout(() => {
-        const index = this.queue.indexOf(resolve);
+        const index = this.queue.indexOf(wrappedResolve);
         if (index > -1) {
           this.queue.splice(index, 1);
         }
         reject(new Error('Concurrency queue timeout'));
       }, this.queueTimeout);
 
-      const wrappedResolve = () => {
-        clearTimeout(timeout);
-        resolve();
-      };
-
       this.queue.push(wrappedResolve);
     });
   }
@@ -101,18 +103,22 @@ export class ConcurrencyLimiter {
   }
 }
 
-// Global limiters for different agent types
+// Global limiters for different agent types. LLM calls go through these via
+// LLMGateway, which handles throttling itself (honoring retry-after)
 export const researchLimiter = new ConcurrencyLimiter({
   maxConcurrent: 3, // Limit research agents to 3 concurrent
-  queueTimeout: 60000
+  queueTimeout: 120000,
+  retryOnThrottle: false
 });
 
 export const wafLimiter = new ConcurrencyLimiter({
   maxConcurrent: 3, // Limit WAF agents to 3 concurrent
-  queueTimeout: 90000
+  queueTimeout: 180000,
+  retryOnThrottle: false
 });
 
 export const analysisLimiter = new ConcurrencyLimiter({
   maxConcurrent: 5, // General analysis agents
-  queueTimeout: 45000
+  queueTimeout: 180000,
+  retryOnThrottle: false
 });
\ No newline at end of file
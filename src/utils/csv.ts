@@ -0,0 +1,12 @@
+/**
+ * CSV
+ * RFC 4180 rendering for the spreadsheet exports (TCO projection, chargeback):
+ * cells with commas, quotes or line breaks are quoted
+ */
+
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map(row => row.map(cell => {
+    const text = String(cell);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',')).join('\n') + '\n';
+}
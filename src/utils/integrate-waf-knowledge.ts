@@ -37,7 +37,7 @@ class WAFKnowledgeIntegrator {
       checklistItems: 12
     },
     {
-      agentFile: 'src/agents/cost-optimizer-agent.ts',
+      agentFile: 'src/agents/well-architected-cost-optimization-agent.ts',
       knowledgeFile: 'waf-knowledge-base/cost-optimization-knowledge.json',
       pillarName: 'Cost Optimization', 
       checklistItems: 14
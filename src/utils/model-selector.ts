@@ -10,6 +10,9 @@ export interface ModelConfig {
   name: string;
   deploymentName?: string;
   costPer1kTokens: number;
+  // Separate input/output prices (USD) where known; costPer1kTokens is the blended rate
+  inputCostPer1kTokens?: number;
+  outputCostPer1kTokens?: number;
   maxTokens: number;
   capabilities: string[];
 }
@@ -26,6 +29,38 @@ export const MODELS: Record<string, ModelConfig> = {
     costPer1kTokens: 0.002,
     maxTokens: 4096,
     capabilities: ['simple-tasks', 'extraction', 'summarization', 'classification']
+  },
+  'gpt-4.1': {
+    name: 'gpt-4.1',
+    costPer1kTokens: 0.0035,
+    inputCostPer1kTokens: 0.002,
+    outputCostPer1kTokens: 0.008,
+    maxTokens: 32768,
+    capabilities: ['complex-reasoning', 'architecture', 'comprehensive-analysis', 'creative']
+  },
+  'gpt-4.1-mini': {
+    name: 'gpt-4.1-mini',
+    costPer1kTokens: 0.0007,
+    inputCostPer1kTokens: 0.0004,
+    outputCostPer1kTokens: 0.0016,
+    maxTokens: 32768,
+    capabilities: ['simple-tasks', 'extraction', 'summarization', 'classification']
+  },
+  'gpt-4o': {
+    name: 'gpt-4o',
+    costPer1kTokens: 0.0044,
+    inputCostPer1kTokens: 0.0025,
+    outputCostPer1kTokens: 0.01,
+    maxTokens: 16384,
+    capabilities: ['complex-reasoning', 'architecture', 'comprehensive-analysis', 'creative']
+  },
+  'gpt-4o-mini': {
+    name: 'gpt-4o-mini',
+    costPer1kTokens: 0.00026,
+    inputCostPer1kTokens: 0.00015,
+    outputCostPer1kTokens: 0.0006,
+    maxTokens: 16384,
+    capabilities: ['simple-tasks', 'extraction', 'summarization', 'classification']
   }
 };
 
@@ -213,6 +248,32 @@ export class ModelSelector {
     return MODELS[modelName];
   }
 
+  /**
+   * Resolve a model or deployment name to its configuration. Azure reports
+   * versioned names (e.g. gpt-4o-2024-08-06), so the longest matching prefix wins.
+   */
+  resolveModelConfig(name: string): ModelConfig | undefined {
+    const normalized = name.toLowerCase();
+    const candidates = Object.values(MODELS).filter(model =>
+      normalized.startsWith(model.name) ||
+      (model.deploymentName !== undefined && normalized === model.deploymentName.toLowerCase())
+    );
+    return candidates.sort((a, b) => b.name.length - a.name.length)[0];
+  }
+
+  /**
+   * Price a call in USD, or undefined when the model has no pricing entry
+   */
+  calculateCallCost(modelName: string, promptTokens: number, completionTokens: number): number | undefined {
+    const model = this.resolveModelConfig(modelName);
+    if (!model) return undefined;
+
+    if (model.inputCostPer1kTokens !== undefined && model.outputCostPer1kTokens !== undefined) {
+      return (promptTokens / 1000) * model.inputCostPer1kTokens + (completionTokens / 1000) * model.outputCostPer1kTokens;
+    }
+    return ((promptTokens + completionTokens) / 1000) * model.costPer1kTokens;
+  }
+
   /**
    * Check if model supports a capability
    */
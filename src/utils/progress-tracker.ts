@@ -1,80 +1,130 @@
 /**
  * Enhanced Progress Tracker for Multi-Agent Analysis
- * Provides real-time progress updates with beautiful animations
+ * Renders the progress event feed as a live step tree - which steps and
+ * research/WAF pillar agents are running, done, timed out or on fallback -
+ * and can tail the streamed tokens of the current step
  */
 
-import ora from 'ora';
+import ora, { Ora } from 'ora';
 import chalk from 'chalk';
+import { progressEvents, ProgressEventBus, ProgressEventMap } from '../core/progress-events.js';
+import type { StepStatus } from '../core/workflow-engine.js';
+
+type AgentStatus = 'running' | 'done' | 'failed' | 'timeout' | 'fallback';
+
+interface AgentNode {
+  name: string;
+  status: AgentStatus;
+  inFlight: number;
+  calls: number;
+  tokens: number;
+  retries: number;
+}
+
+interface StepNode {
+  id: string;
+  name: string;
+  agent: string;
+  icon?: string;
+  status: StepStatus;
+  timedOut: boolean;
+  startedAt?: number;
+  durationMs?: number;
+  calls: number;
+  tokens: number;
+  // Sub-agents working on behalf of the step (research tasks, WAF pillars, extraction)
+  agents: Map<string, AgentNode>;
+}
+
+export interface ProgressTrackerOptions {
+  // Tail the tokens streamed by the most recently active agent
+  verboseStream?: boolean;
+  events?: ProgressEventBus;
+}
+
+const STEP_SYMBOLS: Record<StepStatus, string> = {
+  pending: chalk.gray('○'),
+  running: chalk.cyan('◐'),
+  completed: chalk.green('✔'),
+  fallback: chalk.yellow('↩'),
+  skipped: chalk.gray('⊘'),
+  failed: chalk.red('✖')
+};
+
+const AGENT_SYMBOLS: Record<AgentStatus, string> = {
+  running: chalk.cyan('◐'),
+  done: chalk.green('✔'),
+  failed: chalk.red('✖'),
+  timeout: chalk.yellow('⏱'),
+  fallback: chalk.yellow('↩')
+};
+
+const TAIL_LINES = 4;
+const TAIL_SWITCH_MS = 1000;
+const RENDER_INTERVAL_MS = 100;
 
 export class ProgressTracker {
-  private currentStep = 0;
-  private totalSteps = 5;
-  private spinner: any;
+  private spinner?: Ora;
   private startTime: number;
-  
-  private steps = [
-    { name: 'Requirements Analysis', icon: '📋', color: 'blue' },
-    { name: 'Architecture Design', icon: '🏗️', color: 'cyan' },
-    { name: 'Visual Diagrams', icon: '🎨', color: 'magenta' },
-    { name: 'Parallel Analysis', icon: '⚡', color: 'yellow' },
-    { name: 'Report Generation', icon: '📝', color: 'green' }
-  ];
-
-  constructor() {
+  private options: ProgressTrackerOptions;
+  private events: ProgressEventBus;
+  private steps: Map<string, StepNode> = new Map();
+  private unsubscribers: Array<() => void> = [];
+  private renderTimer?: NodeJS.Timeout;
+  private dirty = false;
+  private title = '';
+  // Streamed text per step/agent; the tail follows one source until it goes quiet
+  private streams: Map<string, { text: string; lastTokenAt: number }> = new Map();
+  private tailSource?: string;
+  private restoreConsole?: () => void;
+  // Whether the tree is drawn in place (interactive terminal)
+  private live = false;
+
+  constructor(options: ProgressTrackerOptions = {}) {
     this.startTime = Date.now();
+    this.options = options;
+    this.events = options.events || progressEvents;
   }
 
   start(message: string = 'Initializing Azure Architecture Blueprint Generator...') {
+    this.startTime = Date.now();
+    this.title = message;
     this.spinner = ora({
       text: message,
       spinner: 'aesthetic',
       color: 'blue'
     }).start();
-  }
 
-  nextStep(stepMessage?: string) {
-    this.currentStep++;
-    const step = this.steps[this.currentStep - 1];
-    
-    if (step) {
-      const progress = `[${this.currentStep}/${this.totalSteps}]`;
-      const message = stepMessage || step.name;
-      
-      this.spinner.text = `${step.icon} ${chalk.cyan(progress)} ${message}...`;
-      this.spinner.color = step.color as any;
-    }
+    // Without a TTY the spinner does not animate and the engine's own step
+    // lines are the progress output
+    this.live = this.spinner.isSpinning;
+    if (!this.live) return;
+
+    this.subscribe();
+    this.interceptConsole();
+    this.renderTimer = setInterval(() => this.refresh(), RENDER_INTERVAL_MS);
   }
 
   updateStep(message: string) {
-    if (this.spinner) {
-      const step = this.steps[this.currentStep - 1];
-      const progress = `[${this.currentStep}/${this.totalSteps}]`;
-      this.spinner.text = `${step?.icon || '⚙️'} ${chalk.cyan(progress)} ${message}...`;
+    this.title = message;
+    this.dirty = true;
+    if (this.spinner && !this.live) {
+      this.spinner.text = message;
     }
   }
 
   succeed(message?: string) {
     const elapsed = Math.round((Date.now() - this.startTime) / 1000);
-    const finalMessage = message || `Analysis completed successfully in ${elapsed}s`;
-    
-    if (this.spinner) {
-      this.spinner.succeed(chalk.green(`🎉 ${finalMessage}`));
-    }
+    this.stop()?.succeed(chalk.green(`🎉 ${message || `Analysis completed successfully in ${elapsed}s`}`));
   }
 
   fail(message?: string) {
     const elapsed = Math.round((Date.now() - this.startTime) / 1000);
-    const finalMessage = message || `Analysis failed after ${elapsed}s`;
-    
-    if (this.spinner) {
-      this.spinner.fail(chalk.red(`❌ ${finalMessage}`));
-    }
+    this.stop()?.fail(chalk.red(`❌ ${message || `Analysis failed after ${elapsed}s`}`));
   }
 
   warn(message: string) {
-    if (this.spinner) {
-      this.spinner.warn(chalk.yellow(`⚠️ ${message}`));
-    }
+    this.stop()?.warn(chalk.yellow(`⚠️ ${message}`));
   }
 
   getElapsedTime(): number {
@@ -82,11 +132,241 @@ export class ProgressTracker {
   }
 
   getProgressPercentage(): number {
-    return Math.round((this.currentStep / this.totalSteps) * 100);
+    const steps = [...this.steps.values()];
+    if (steps.length === 0) return 0;
+    const done = steps.filter(step => step.status !== 'pending' && step.status !== 'running').length;
+    return Math.round((done / steps.length) * 100);
   }
 
   getCurrentStep(): string {
-    const step = this.steps[this.currentStep - 1];
-    return step ? step.name : 'Unknown';
+    const running = [...this.steps.values()].filter(step => step.status === 'running');
+    return running.length > 0 ? running.map(step => step.name).join(', ') : 'Unknown';
   }
-}
\ No newline at end of file
+
+  private stop(): Ora | undefined {
+    if (this.renderTimer) {
+      clearInterval(this.renderTimer);
+      this.renderTimer = undefined;
+    }
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.restoreConsole?.();
+    this.restoreConsole = undefined;
+
+    // Leave the final tree in the scrollback
+    if (this.spinner && this.live && this.steps.size > 0) {
+      this.spinner.stop();
+      console.log(this.renderTree(false));
+    }
+    this.live = false;
+    return this.spinner;
+  }
+
+  private subscribe(): void {
+    const on = <K extends keyof ProgressEventMap>(event: K, listener: (payload: ProgressEventMap[K]) => void) => {
+      this.unsubscribers.push(this.events.subscribe(event, payload => {
+        listener(payload);
+        this.dirty = true;
+      }));
+    };
+
+    on('workflow:start', ({ steps }) => {
+      this.steps.clear();
+      for (const step of steps) {
+        this.steps.set(step.id, {
+          ...step,
+          timedOut: false,
+          calls: 0,
+          tokens: 0,
+          agents: new Map()
+        });
+      }
+    });
+
+    on('step:start', ({ step }) => {
+      const node = this.steps.get(step);
+      if (!node) return;
+      node.status = 'running';
+      node.startedAt = Date.now();
+    });
+
+    on('step:end', ({ step, status, durationMs, timedOut }) => {
+      for (const source of this.streams.keys()) {
+        if (source.startsWith(`${step}/`)) this.streams.delete(source);
+      }
+      const node = this.steps.get(step);
+      if (!node) return;
+      node.status = status;
+      node.durationMs = durationMs;
+      node.timedOut = timedOut;
+    });
+
+    on('call:start', payload => {
+      const agent = this.agentNode(payload);
+      if (!agent) return;
+      agent.inFlight++;
+      if (agent.status !== 'timeout' && agent.status !== 'fallback') agent.status = 'running';
+    });
+
+    on('call:end', payload => {
+      const step = this.steps.get(payload.step);
+      if (step) {
+        step.calls++;
+        step.tokens += payload.totalTokens;
+      }
+
+      const agent = this.agentNode(payload);
+      if (!agent) return;
+      agent.inFlight = Math.max(0, agent.inFlight - 1);
+      agent.calls++;
+      agent.tokens += payload.totalTokens;
+      if (agent.status === 'fallback') return;
+      if (payload.status === 'timeout') {
+        agent.status = 'timeout';
+      } else if (agent.inFlight === 0 && agent.status === 'running') {
+        agent.status = payload.status === 'success' ? 'done' : 'failed';
+      }
+    });
+
+    on('agent:retry', payload => {
+      const agent = this.agentNode(payload);
+      if (agent) agent.retries++;
+    });
+
+    on('agent:timeout', payload => {
+      const agent = this.agentNode(payload);
+      if (agent && agent.status !== 'fallback') agent.status = 'timeout';
+    });
+
+    on('agent:fallback', payload => {
+      const agent = this.agentNode(payload);
+      if (agent) agent.status = 'fallback';
+    });
+
+    on('token', ({ step, agent, delta }) => {
+      if (!this.options.verboseStream) return;
+      const source = `${step}/${agent}`;
+      const stream = this.streams.get(source) || { text: '', lastTokenAt: 0 };
+      // Only the last few lines are ever shown
+      stream.text = (stream.text + delta).slice(-4000);
+      stream.lastTokenAt = Date.now();
+      this.streams.set(source, stream);
+
+      const current = this.tailSource ? this.streams.get(this.tailSource) : undefined;
+      if (!current || Date.now() - current.lastTokenAt > TAIL_SWITCH_MS) {
+        this.tailSource = source;
+      }
+    });
+  }
+
+  // Sub-agent node, or undefined when the event belongs to the step's own agent
+  private agentNode({ step, agent }: { step: string; agent: string }): AgentNode | undefined {
+    const node = this.steps.get(step);
+    if (!node || agent === node.agent) return undefined;
+
+    if (!node.agents.has(agent)) {
+      node.agents.set(agent, { name: agent, status: 'running', inFlight: 0, calls: 0, tokens: 0, retries: 0 });
+    }
+    return node.agents.get(agent);
+  }
+
+  private refresh(): void {
+    // Running steps show elapsed time, so they redraw even without new events
+    const running = [...this.steps.values()].some(step => step.status === 'running');
+    if (!this.spinner || (!this.dirty && !running)) return;
+    this.dirty = false;
+    this.spinner.text = this.renderTree(true);
+  }
+
+  private renderTree(live: boolean): string {
+    const steps = [...this.steps.values()];
+    const calls = steps.reduce((total, step) => total + step.calls, 0);
+    const tokens = steps.reduce((total, step) => total + step.tokens, 0);
+    const elapsed = Math.round((Date.now() - this.startTime) / 1000);
+
+    const lines = [
+      `${chalk.bold(live ? this.title : 'Workflow')} ${chalk.gray(`${elapsed}s · ${calls} LLM calls · ${formatTokens(tokens)} tokens`)}`
+    ];
+
+    for (const step of steps) {
+      lines.push(`  ${STEP_SYMBOLS[step.status]} ${step.icon ? `${step.icon} ` : ''}${step.name}${chalk.gray(this.stepDetail(step))}`);
+      // Finished steps only keep the agents that need attention
+      const agents = [...step.agents.values()].filter(agent => step.status === 'running' || agent.status !== 'done');
+      for (const agent of agents) {
+        lines.push(`      ${AGENT_SYMBOLS[agent.status]} ${agent.name}${chalk.gray(agentDetail(agent))}`);
+      }
+    }
+
+    const tail = this.tailSource ? this.streams.get(this.tailSource) : undefined;
+    if (live && this.options.verboseStream && tail) {
+      const width = Math.max(20, (process.stderr.columns || 80) - 8);
+      lines.push(chalk.gray(`  ── ${this.tailSource} ${'─'.repeat(Math.max(0, width - this.tailSource!.length - 4))}`));
+      const tailLines = tail.text.split('\n').filter(line => line.trim()).slice(-TAIL_LINES);
+      for (const line of tailLines) {
+        lines.push(chalk.dim(`  │ ${truncate(line, width)}`));
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private stepDetail(step: StepNode): string {
+    const usage = step.calls > 0 ? ` · ${formatCalls(step.calls)} · ${formatTokens(step.tokens)} tokens` : '';
+    switch (step.status) {
+      case 'running':
+        return ` (${Math.round((Date.now() - (step.startedAt || Date.now())) / 1000)}s${usage})`;
+      case 'pending':
+        return '';
+      case 'fallback':
+        return ` (fallback${step.timedOut ? ' after timeout' : ''}${usage})`;
+      case 'skipped':
+        return ' (skipped)';
+      default:
+        return step.durationMs !== undefined ? ` (${(step.durationMs / 1000).toFixed(1)}s${usage})` : '';
+    }
+  }
+
+  /**
+   * Route console output above the live tree instead of through it
+   */
+  private interceptConsole(): void {
+    const methods = ['log', 'info', 'warn', 'error'] as const;
+    const originals = methods.map(method => console[method]);
+
+    methods.forEach((method, index) => {
+      console[method] = (...args: any[]) => {
+        this.spinner?.clear();
+        originals[index].apply(console, args);
+        this.spinner?.render();
+      };
+    });
+
+    this.restoreConsole = () => {
+      methods.forEach((method, index) => {
+        console[method] = originals[index];
+      });
+    };
+  }
+}
+
+function agentDetail(agent: AgentNode): string {
+  const parts = [
+    agent.calls > 0 ? `${formatCalls(agent.calls)} · ${formatTokens(agent.tokens)} tokens` : '',
+    agent.retries > 0 ? `${agent.retries} retries` : '',
+    agent.status === 'timeout' ? 'timed out' : '',
+    agent.status === 'fallback' ? 'fallback' : ''
+  ].filter(Boolean);
+  return parts.length > 0 ? ` (${parts.join(' · ')})` : '';
+}
+
+function formatCalls(calls: number): string {
+  return `${calls} ${calls === 1 ? 'call' : 'calls'}`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, Math.max(0, width - 1))}…` : text;
+}
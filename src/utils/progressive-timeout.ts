@@ -10,6 +10,13 @@ export interface TimeoutConfig {
   enableFallback?: boolean;
 }
 
+// Outer limit on all attempts, e.g. the workflow step the call is made for
+export interface TimeoutBudget {
+  signal?: AbortSignal;
+  // Epoch ms after which no attempt may run
+  deadline?: number;
+}
+
 export interface TimeoutResult<T> {
   result: T;
   timeoutLevel: 'fast' | 'normal' | 'slow' | 'fallback';
@@ -26,15 +33,21 @@ export class ProgressiveTimeout {
     };
   }
 
+  /**
+   * Run `fn` with increasing time limits. Each abandoned attempt is aborted
+   * through the signal passed to `fn` before the next one starts. Attempts
+   * are cut to what is left of the budget and stop when its signal aborts.
+   */
   async execute<T>(
-    fn: () => Promise<T>,
-    fallbackFn?: () => T
+    fn: (signal: AbortSignal) => Promise<T>,
+    fallbackFn?: () => T,
+    budget: TimeoutBudget = {}
   ): Promise<TimeoutResult<T>> {
     const startTime = Date.now();
 
     // Try fast timeout first
     try {
-      const result = await this.executeWithTimeout(fn, this.config.fast);
+      const result = await this.executeWithTimeout(fn, this.config.fast, budget);
       return {
         result,
         timeoutLevel: 'fast',
@@ -49,7 +62,7 @@ export class ProgressiveTimeout {
 
     // Try normal timeout
     try {
-      const result = await this.executeWithTimeout(fn, this.config.normal);
+      const result = await this.executeWithTimeout(fn, this.config.normal, budget);
       return {
         result,
         timeoutLevel: 'normal',
@@ -64,7 +77,7 @@ export class ProgressiveTimeout {
 
     // Try slow timeout (last attempt)
     try {
-      const result = await this.executeWithTimeout(fn, this.config.slow);
+      const result = await this.executeWithTimeout(fn, this.config.slow, budget);
       return {
         result,
         timeoutLevel: 'slow',
@@ -92,15 +105,35 @@ export class ProgressiveTimeout {
   }
 
   private async executeWithTimeout<T>(
-    fn: () => Promise<T>,
-    timeoutMs: number
+    fn: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number,
+    budget: TimeoutBudget
   ): Promise<T> {
+    budget.signal?.throwIfAborted();
+    const remaining = budget.deadline !== undefined ? budget.deadline - Date.now() : Infinity;
+    if (remaining <= 0) throw new Error('Budget timeout reached before the call could start');
+
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    let cancel: (() => void) | undefined;
+
     return Promise.race([
-      fn(),
-      new Promise<T>((_, reject) =>
-        setTimeout(() => reject(new Error('Timeout')), timeoutMs)
-      )
-    ]);
+      fn(controller.signal),
+      new Promise<T>((_, reject) => {
+        timer = setTimeout(() => {
+          controller.abort();
+          reject(new Error('Timeout'));
+        }, Math.min(timeoutMs, remaining));
+        cancel = () => {
+          controller.abort();
+          reject(budget.signal!.reason);
+        };
+        budget.signal?.addEventListener('abort', cancel, { once: true });
+      })
+    ]).finally(() => {
+      clearTimeout(timer);
+      if (cancel) budget.signal?.removeEventListener('abort', cancel);
+    });
   }
 
   private isTimeoutError(error: any): boolean {
@@ -109,9 +142,12 @@ export class ProgressiveTimeout {
 }
 
 // Pre-configured timeout strategies for different agent types
+// Limits apply to a single LLM call (see LLMGateway), so they leave room for
+// long completions rather than whole agent tasks; the gateway cuts them to
+// what is left of the calling workflow step's timeout
 export const researchTimeout = new ProgressiveTimeout({
-  fast: 30000,    // 30s
-  normal: 60000,  // 1m
+  fast: 45000,    // 45s
+  normal: 90000,  // 1.5m
   slow: 120000,   // 2m
   enableFallback: true
 });
@@ -124,8 +160,8 @@ export const wafTimeout = new ProgressiveTimeout({
 });
 
 export const analysisTimeout = new ProgressiveTimeout({
-  fast: 15000,    // 15s
-  normal: 30000,  // 30s
-  slow: 45000,    // 45s
+  fast: 60000,    // 1m
+  normal: 120000, // 2m
+  slow: 180000,   // 3m
   enableFallback: true
 });
\ No newline at end of file
@@ -0,0 +1,136 @@
+/**
+ * Schema Validator
+ * Lightweight JSON-schema subset used to validate structured agent output
+ */
+
+export type SchemaType = 'object' | 'array' | 'string' | 'number' | 'boolean';
+
+export interface SchemaDefinition {
+  type: SchemaType;
+  description?: string;
+  properties?: Record<string, SchemaDefinition>;
+  required?: string[];
+  items?: SchemaDefinition;
+  enum?: string[];
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+/**
+ * Validate a value against a schema definition.
+ * Errors are reported with a JSON path so they can be fed back to the model.
+ */
+export function validateSchema(value: any, schema: SchemaDefinition, path: string = '$'): ValidationResult {
+  const errors: string[] = [];
+  collectErrors(value, schema, path, errors);
+  return { valid: errors.length === 0, errors };
+}
+
+function collectErrors(value: any, schema: SchemaDefinition, path: string, errors: string[]): void {
+  if (value === undefined || value === null) {
+    errors.push(`${path}: expected ${schema.type}, got ${value === null ? 'null' : 'nothing'}`);
+    return;
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${path}: expected object, got ${describeType(value)}`);
+        return;
+      }
+      for (const key of schema.required || []) {
+        if (value[key] === undefined || value[key] === null) {
+          errors.push(`${path}.${key}: required property is missing`);
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (value[key] !== undefined && value[key] !== null) {
+          collectErrors(value[key], propertySchema, `${path}.${key}`, errors);
+        }
+      }
+      return;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        errors.push(`${path}: expected array, got ${describeType(value)}`);
+        return;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path}: expected at least ${schema.minItems} item(s), got ${value.length}`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => collectErrors(item, schema.items!, `${path}[${index}]`, errors));
+      }
+      return;
+    }
+
+    case 'string': {
+      if (typeof value !== 'string') {
+        errors.push(`${path}: expected string, got ${describeType(value)}`);
+        return;
+      }
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        errors.push(`${path}: expected at least ${schema.minLength} character(s)`);
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${path}: expected one of ${schema.enum.join(', ')}, got "${value}"`);
+      }
+      return;
+    }
+
+    case 'number': {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        errors.push(`${path}: expected number, got ${describeType(value)}`);
+        return;
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path}: expected a value >= ${schema.minimum}, got ${value}`);
+      }
+      return;
+    }
+
+    case 'boolean': {
+      if (typeof value !== 'boolean') {
+        errors.push(`${path}: expected boolean, got ${describeType(value)}`);
+      }
+      return;
+    }
+  }
+}
+
+function describeType(value: any): string {
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Render a schema as a compact JSON skeleton for inclusion in prompts
+ */
+export function describeSchema(schema: SchemaDefinition): any {
+  switch (schema.type) {
+    case 'object': {
+      const result: Record<string, any> = {};
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        const optional = !(schema.required || []).includes(key);
+        result[optional ? `${key}?` : key] = describeSchema(propertySchema);
+      }
+      return result;
+    }
+    case 'array':
+      return schema.items ? [describeSchema(schema.items)] : [];
+    case 'string':
+      if (schema.enum) return schema.enum.join(' | ');
+      return schema.description ? `string (${schema.description})` : 'string';
+    case 'number':
+      return schema.description ? `number (${schema.description})` : 'number';
+    case 'boolean':
+      return 'boolean';
+  }
+}
@@ -33,15 +33,6 @@ export class TokenOptimizer {
     const inputLength = inputText.length;
     const wordCount = inputText.split(/\s+/).length;
 
-    // Simple tasks: requirements extraction, cost summaries, risk lists
-    if (this.isSimpleTask(taskType, agentType)) {
-      return {
-        level: 'simple',
-        estimatedTokens: this.config.simple.default,
-        justification: 'Straightforward analysis with structured output'
-      };
-    }
-
     // Complex tasks: architecture design, WAF assessment, comprehensive reports
     if (this.isComplexTask(taskType, agentType)) {
       // Further analyze input size
@@ -59,6 +50,16 @@ export class TokenOptimizer {
       };
     }
 
+    // Simple tasks: requirements extraction, cost summaries, risk lists.
+    // Checked after complex tasks so e.g. "waf-cost" or "cost-aware-refinement" stay complex.
+    if (this.isSimpleTask(taskType, agentType)) {
+      return {
+        level: 'simple',
+        estimatedTokens: this.config.simple.default,
+        justification: 'Straightforward analysis with structured output'
+      };
+    }
+
     // Moderate complexity by default
     const adjustedTokens = Math.min(
       this.config.moderate.max,
@@ -133,7 +134,8 @@ export class TokenOptimizer {
       'comprehensive',
       'report',
       'documentation',
-      'review'
+      'review',
+      'refinement'
     ];
 
     const complexAgents = [
@@ -142,7 +144,8 @@ export class TokenOptimizer {
       'documentation',
       'waf',
       'visual',
-      'reviewer'
+      'reviewer',
+      'refinement'
     ];
 
     return (
@@ -3,31 +3,83 @@
  * 
  * PURPOSE: Extract and format Well-Architected Framework checklist items from agent responses
  * Enhance result files with structured WAF checklist information
+ *
+ * An item counts as covered when the report's passages give evidence for its
+ * keyFocus concepts (policy pack items: keyFocus and detection keywords), found
+ * with a BM25 index over the report sections; printing the item ID alone earns
+ * nothing. Concepts are matched on their distinctive terms ("redundancy" in
+ * "redundancy design"), and how much of them the evidence covers sets the confidence.
  */
 
 import { promises as fs } from 'fs';
 import { existsSync } from 'fs';
+import { PolicyPack, PolicyPackItem } from '../waf/policy-pack.js';
+import { Bm25Index, stem, tokenize } from './bm25-index.js';
+
+export type EvidenceConfidence = 'high' | 'medium' | 'low';
 
 export interface WAFChecklistItem {
   id: string;           // e.g., "SE:01", "RE:02"
   pillar: string;       // e.g., "Security", "Reliability" 
   title: string;
   description: string;
+  keyFocus: string[];   // Concepts the report has to address, e.g. "multi-level redundancy"
   recommendation: string;
   azureServices: string[];
-  found: boolean;       // Whether this item was referenced in agent response
+  found: boolean;       // Whether the agent response gives evidence for this item
+  confidence?: EvidenceConfidence;
+  evidence?: string;    // Quoted sentence of the best matching passage
+  evidencedConcepts?: string[];
+  section?: string;     // Heading of the passage the evidence comes from
+  policyPack?: string;  // Name of the organisational policy pack the item comes from
 }
 
 export interface WAFChecklistSummary {
   totalItems: number;
-  referencedItems: number;
+  referencedItems: number;  // Items with evidence in the response
   coverage: number;     // percentage
+  confidence: Record<EvidenceConfidence, number>;
   itemsByPillar: Record<string, WAFChecklistItem[]>;
   recommendations: string[];
 }
 
+interface ReportPassage {
+  heading: string;
+  text: string;
+}
+
+interface ConceptMatch {
+  concept: string;
+  passage: number;
+  // IDF-weighted share of the concept's terms found in the passage, 0-1
+  coverage: number;
+  score: number;
+  terms: string[];
+  // Whether a distinctive (not generic) term of the concept was found
+  distinctive: boolean;
+}
+
+// A concept is evidenced when the passage holds at least this share of its (IDF-weighted) terms
+const MIN_CONCEPT_COVERAGE = 0.6;
+// Mean concept coverage from which an item's evidence is rated high or medium
+const HIGH_CONFIDENCE = 0.67;
+const MEDIUM_CONFIDENCE = 0.34;
+// Passages ranked by BM25 whose concept coverage is compared
+const CANDIDATE_PASSAGES = 5;
+
+// Words that qualify a concept rather than name it ("redundancy design",
+// "encryption standards"); next to a distinctive term they weigh a fifth
+const GENERIC_TERMS = new Set([
+  'alignment', 'analysis', 'application', 'approach', 'data', 'design', 'efficiency', 'improvement', 'influence',
+  'level', 'management', 'measures', 'mindset', 'multi', 'optimization', 'planning', 'platform', 'practices',
+  'prioritization', 'priority', 'procedures', 'processes', 'protection', 'resource', 'review', 'selection', 'service',
+  'standards', 'strategy', 'understanding'
+].map(stem));
+const GENERIC_WEIGHT = 0.2;
+
 export class WAFChecklistExtractor {
   private wafKnowledge: Record<string, any> = {};
+  private policyPack?: PolicyPack;
   private initialized = false;
 
   constructor() {
@@ -41,6 +93,14 @@ export class WAFChecklistExtractor {
     }
   }
 
+  /**
+   * Organisational policy pack whose items are reported alongside the built-in
+   * WAF items (undefined to report the WAF items only)
+   */
+  setPolicyPack(pack: PolicyPack | undefined): void {
+    this.policyPack = pack;
+  }
+
   /**
    * Load all WAF knowledge bases
    */
@@ -68,83 +128,123 @@ export class WAFChecklistExtractor {
   }
 
   /**
-   * Extract WAF checklist items referenced in agent responses
+   * Match every checklist item against the passages of an agent response
    */
   async extractChecklistFromResponse(responseText: string): Promise<WAFChecklistSummary> {
     await this.ensureInitialized();
-    const checklistItems: WAFChecklistItem[] = [];
-    const referencedIds: string[] = [];
+    const passages = this.splitPassages(responseText);
+    const index = new Bm25Index(passages.map(passage => `${passage.heading}\n${passage.text}`));
 
-    // Extract checklist IDs from response (SE:01, RE:02, etc.)
-    const checklistPattern = /([A-Z]{2}:\d{2})/g;
-    const matches = responseText.match(checklistPattern) || [];
-    
-    for (const match of matches) {
-      if (!referencedIds.includes(match)) {
-        referencedIds.push(match);
-      }
-    }
+    const checklistItems = this.getAllChecklistItems().map(item => this.matchEvidence(item, passages, index));
+    return this.generateSummary(checklistItems);
+  }
 
-    // Get detailed information for each referenced item
-    for (const id of referencedIds) {
-      const item = this.getChecklistItemDetails(id, responseText);
-      if (item) {
-        checklistItems.push(item);
-      }
-    }
+  /**
+   * Markdown blocks (paragraphs, lists, tables) with the heading they stand under
+   */
+  private splitPassages(text: string): ReportPassage[] {
+    const passages: ReportPassage[] = [];
+    let heading = '';
+    let block: string[] = [];
+    const flush = () => {
+      const body = block.join('\n').trim();
+      if (body) passages.push({ heading, text: body });
+      block = [];
+    };
 
-    // Also get all available checklist items to show coverage
-    const allItems = this.getAllChecklistItems();
-    
-    // Mark which items were found
-    for (const item of allItems) {
-      item.found = referencedIds.includes(item.id);
-      if (!checklistItems.find(ci => ci.id === item.id)) {
-        checklistItems.push(item);
+    for (const line of text.split('\n')) {
+      const match = line.match(/^#{1,6}\s+(.*)/);
+      if (match) {
+        flush();
+        heading = match[1].replace(/[*_`]/g, '').trim();
+      } else if (line.trim() === '') {
+        flush();
+      } else {
+        block.push(line);
       }
     }
-
-    return this.generateSummary(checklistItems);
+    flush();
+    return passages;
   }
 
   /**
-   * Get detailed information for a specific checklist item
+   * Evidence for the item's concepts; confidence is the mean coverage over all
+   * its concepts, the quote comes from the passage of the best matched concept.
+   * Concepts made of generic words only ("efficiency") support an item but
+   * cannot establish it on their own.
    */
-  private getChecklistItemDetails(id: string, responseText: string): WAFChecklistItem | null {
-    const pillarPrefix = id.split(':')[0];
-    const pillarMap: Record<string, string> = {
-      'SE': 'security',
-      'RE': 'reliability', 
-      'CO': 'cost-optimization',
-      'PE': 'performance-efficiency',
-      'OE': 'operational-excellence'
-    };
+  private matchEvidence(item: WAFChecklistItem, passages: ReportPassage[], index: Bm25Index): WAFChecklistItem {
+    // Concepts with the same stems (e.g. "customer-managed key" and "customer-managed keys") count once
+    const concepts = [...new Map((item.keyFocus.length > 0 ? item.keyFocus : [item.title])
+      .map(concept => [tokenize(concept).join(' '), concept])).values()];
+    const matches = concepts
+      .map(concept => this.matchConcept(concept, index))
+      .filter((match): match is ConceptMatch => match !== undefined && match.coverage >= MIN_CONCEPT_COVERAGE);
+    if (!matches.some(match => match.distinctive)) return item;
+
+    const strength = matches.reduce((total, match) => total + match.coverage, 0) / concepts.length;
+    const best = matches.reduce((top, match) =>
+      match.coverage > top.coverage || (match.coverage === top.coverage && match.score > top.score) ? match : top);
+    const passage = passages[best.passage];
+    const terms = new Set(matches.filter(match => match.passage === best.passage).flatMap(match => match.terms));
 
-    const pillarKey = pillarMap[pillarPrefix];
-    const pillarData = this.wafKnowledge[pillarKey];
+    return {
+      ...item,
+      found: true,
+      confidence: strength >= HIGH_CONFIDENCE ? 'high' : strength >= MEDIUM_CONFIDENCE ? 'medium' : 'low',
+      evidence: this.quoteEvidence(passage.text, terms),
+      evidencedConcepts: matches.map(match => match.concept),
+      section: passage.heading || undefined,
+      recommendation: passage.text.substring(0, 500),
+      azureServices: this.extractAzureServices(passage.text)
+    };
+  }
 
-    if (!pillarData || !pillarData.checklistItems) {
-      return null;
+  /**
+   * Passage among the best BM25 hits for the concept's distinctive terms that
+   * covers most of its IDF-weighted terms, generic ones weighted down
+   */
+  private matchConcept(concept: string, index: Bm25Index): ConceptMatch | undefined {
+    const conceptTerms = [...new Set(tokenize(concept))];
+    const distinctTerms = conceptTerms.filter(term => !GENERIC_TERMS.has(term));
+    const termWeight = (term: string) =>
+      index.idf(term) * (distinctTerms.length > 0 && GENERIC_TERMS.has(term) ? GENERIC_WEIGHT : 1);
+    const weight = conceptTerms.reduce((total, term) => total + termWeight(term), 0);
+    if (weight === 0) return undefined;
+
+    let best: ConceptMatch | undefined;
+    const query = (distinctTerms.length > 0 ? distinctTerms : conceptTerms).join(' ');
+    for (const hit of index.search(query, CANDIDATE_PASSAGES)) {
+      const terms = conceptTerms.filter(term => index.contains(hit.document, term));
+      const coverage = terms.reduce((total, term) => total + termWeight(term), 0) / weight;
+      if (!best || coverage > best.coverage) {
+        best = {
+          concept, passage: hit.document, coverage, score: hit.score, terms,
+          distinctive: terms.some(term => distinctTerms.includes(term))
+        };
+      }
     }
+    return best;
+  }
 
-    const item = pillarData.checklistItems.find((item: any) => item.id === id);
-    if (!item) {
-      return null;
+  /**
+   * Sentence of the passage with the most matched terms, stripped of markdown
+   */
+  private quoteEvidence(text: string, terms: Set<string>): string {
+    const sentences = text
+      .split(/(?<=[.!?])\s+|\n+/)
+      .map(sentence => sentence.replace(/^[\s>*#|\-\d.)]+/, '').replace(/\*\*|__|`/g, '').replace(/\s*\|\s*/g, ' | ').trim())
+      .filter(sentence => sentence.length > 0);
+    let quote = sentences[0] ?? '';
+    let bestCount = -1;
+    for (const sentence of sentences) {
+      const count = new Set(tokenize(sentence).filter(term => terms.has(term))).size;
+      if (count > bestCount) {
+        quote = sentence;
+        bestCount = count;
+      }
     }
-
-    // Extract context around the checklist ID in the response
-    const recommendation = this.extractRecommendationContext(id, responseText);
-    const azureServices = this.extractAzureServices(recommendation);
-
-    return {
-      id: item.id,
-      pillar: this.pillarDisplayName(pillarKey),
-      title: item.title || item.description?.split('.')[0] || `Checklist item ${id}`,
-      description: item.description || '',
-      recommendation,
-      azureServices,
-      found: true
-    };
+    return quote.length > 240 ? `${quote.substring(0, 239).trimEnd()}…` : quote;
   }
 
   /**
@@ -161,6 +261,7 @@ export class WAFChecklistExtractor {
             pillar: this.pillarDisplayName(pillarKey),
             title: item.title || item.description?.split('.')[0] || `Checklist item ${item.id}`,
             description: item.description || '',
+            keyFocus: item.keyFocus ?? [],
             recommendation: '',
             azureServices: [],
             found: false
@@ -169,28 +270,25 @@ export class WAFChecklistExtractor {
       }
     }
 
+    for (const item of this.policyPack?.items ?? []) {
+      allItems.push(this.policyChecklistItem(item));
+    }
+
     return allItems;
   }
 
-  /**
-   * Extract recommendation context around a checklist ID
-   */
-  private extractRecommendationContext(id: string, text: string): string {
-    const lines = text.split('\n');
-    
-    for (let i = 0; i < lines.length; i++) {
-      if (lines[i].includes(id)) {
-        // Get 2 lines before and after the match
-        const start = Math.max(0, i - 2);
-        const end = Math.min(lines.length, i + 3);
-        const context = lines.slice(start, end).join('\n').trim();
-        
-        // Clean up and return meaningful recommendation
-        return context.replace(/^\W+/, '').substring(0, 500);
-      }
-    }
-
-    return 'Referenced in agent analysis';
+  private policyChecklistItem(item: PolicyPackItem): WAFChecklistItem {
+    return {
+      id: item.id,
+      pillar: item.pillar,
+      title: item.title,
+      description: item.description,
+      keyFocus: [...(item.keyFocus ?? []), ...(item.detection?.keywords ?? [])],
+      recommendation: '',
+      azureServices: [],
+      found: false,
+      policyPack: this.policyPack?.name
+    };
   }
 
   /**
@@ -246,7 +344,7 @@ export class WAFChecklistExtractor {
     const recommendations: string[] = [];
     
     if (coverage < 30) {
-      recommendations.push('Low WAF checklist coverage - enhance agent prompts to reference specific checklist items');
+      recommendations.push('Low WAF checklist coverage - enhance agent prompts to address the focus areas of each checklist item');
     } else if (coverage < 60) {
       recommendations.push('Moderate WAF checklist coverage - consider expanding analysis depth');
     } else {
@@ -265,6 +363,11 @@ export class WAFChecklistExtractor {
       totalItems,
       referencedItems: referencedItems.length,
       coverage,
+      confidence: {
+        high: referencedItems.filter(item => item.confidence === 'high').length,
+        medium: referencedItems.filter(item => item.confidence === 'medium').length,
+        low: referencedItems.filter(item => item.confidence === 'low').length
+      },
       itemsByPillar,
       recommendations
     };
@@ -294,11 +397,12 @@ export class WAFChecklistExtractor {
     output.push('## Well-Architected Framework Checklist Analysis');
     output.push('');
     output.push(`📊 **Coverage Summary**`);
-    output.push(`- Referenced Items: ${summary.referencedItems}/${summary.totalItems}`);
+    output.push(`- Evidenced Items: ${summary.referencedItems}/${summary.totalItems}`);
     output.push(`- Coverage Percentage: ${summary.coverage}%`);
+    output.push(`- Evidence Confidence: ${summary.confidence.high} high, ${summary.confidence.medium} medium, ${summary.confidence.low} low`);
     output.push('');
 
-    // Referenced items by pillar
+    // Evidenced items by pillar
     for (const [pillar, items] of Object.entries(summary.itemsByPillar)) {
       const referencedItems = items.filter(item => item.found);
       if (referencedItems.length > 0) {
@@ -306,9 +410,12 @@ export class WAFChecklistExtractor {
         output.push('');
         
         for (const item of referencedItems) {
-          output.push(`**${item.id}: ${item.title}**`);
-          if (item.recommendation) {
-            output.push(`- ${item.recommendation.substring(0, 200)}...`);
+          output.push(`**${item.id}: ${item.title}** (${item.confidence} confidence)${item.policyPack ? ` _(policy pack: ${item.policyPack})_` : ''}`);
+          if (item.evidence) {
+            output.push(`> "${item.evidence}"`);
+          }
+          if (item.evidencedConcepts) {
+            output.push(`- Evidence for: ${item.evidencedConcepts.join(', ')}${item.section ? ` (section: ${item.section})` : ''}`);
           }
           if (item.azureServices.length > 0) {
             output.push(`- Azure Services: ${item.azureServices.join(', ')}`);
@@ -61,7 +61,7 @@ class WAFKnowledgeDownloader {
       },
       {
         pillar: 'Cost Optimization',
-        agent: 'CostOptimizerAgent',
+        agent: 'WellArchitectedCostOptimizationAgent',
         checklistItems: this.getCostOptimizationChecklist()
       }
     ];
@@ -126,7 +126,7 @@ class WAFKnowledgeDownloader {
         'WellArchitectedReliabilityAgent': 'reliability-knowledge.json', 
         'WellArchitectedPerformanceAgent': 'performance-efficiency-knowledge.json',
         'WellArchitectedOperationalExcellenceAgent': 'operational-excellence-knowledge.json',
-        'CostOptimizerAgent': 'cost-optimization-knowledge.json'
+        'WellArchitectedCostOptimizationAgent': 'cost-optimization-knowledge.json'
       }
     };
 
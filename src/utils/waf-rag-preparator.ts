@@ -274,7 +274,7 @@ All content derived from official Microsoft Learn documentation and Well-Archite
           'WellArchitectedReliabilityAgent': ['waf-reliability-pillar'],
           'WellArchitectedPerformanceAgent': ['waf-performance-pillar'],
           'WellArchitectedOperationalExcellenceAgent': ['waf-operational-pillar'],
-          'CostOptimizerAgent': ['waf-cost-pillar']
+          'WellArchitectedCostOptimizationAgent': ['waf-cost-pillar']
         }
       }
     };
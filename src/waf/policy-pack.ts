@@ -0,0 +1,216 @@
+/**
+ * Policy Packs
+ * Organisational guardrails on top of the Microsoft WAF checklists (FINMA
+ * outsourcing rules, Swiss data residency, mandatory customer-managed keys,
+ * ...), loaded from a YAML or JSON file selected with --policy-pack or
+ * WAF_POLICY_PACK. Each item maps to a pillar and is assessed like the built-in
+ * SE/RE/PE/OE/CO items: the pillar agents evaluate it, the checklist section
+ * reports it, and items with graph detection hints become deterministic rules
+ * that count towards the pillar score.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ArchitectureGraph, ArchitectureNode, azureNodes } from '../core/architecture-graph.js';
+import { ServiceCategory, getServiceType } from '../core/azure-service-catalog.js';
+import { SchemaDefinition, validateSchema, ValidationResult } from '../utils/schema-validator.js';
+import { RuleOutcome, RuleSeverity, WAF_PILLARS, WafPillar, WafRule, regionKey } from './waf-rules.js';
+
+export interface PolicyDetection {
+  // Catalog services (e.g. "key-vault") of which the architecture needs at least one
+  services?: string[];
+  // Regions every in-scope Azure service has to run in
+  regions?: string[];
+  // Service categories the item applies to; without such services it is not applicable
+  appliesTo?: ServiceCategory[];
+  // Terms showing that a report addresses the item
+  keywords?: string[];
+}
+
+export interface PolicyPackItem {
+  // Same form as the built-in items, with an organisation prefix, e.g. "FS:01"
+  id: string;
+  pillar: WafPillar;
+  title: string;
+  description: string;
+  severity: RuleSeverity;
+  keyFocus?: string[];
+  detection?: PolicyDetection;
+}
+
+export interface PolicyPack {
+  name: string;
+  version: string;
+  description?: string;
+  items: PolicyPackItem[];
+}
+
+const POLICY_PACK_SCHEMA: SchemaDefinition = {
+  type: 'object',
+  required: ['name', 'version', 'items'],
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    version: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    items: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['id', 'pillar', 'title', 'description', 'severity'],
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          pillar: { type: 'string', enum: WAF_PILLARS },
+          title: { type: 'string', minLength: 1 },
+          description: { type: 'string', minLength: 1 },
+          severity: { type: 'string', enum: ['high', 'medium', 'low'] },
+          keyFocus: { type: 'array', items: { type: 'string', minLength: 1 } },
+          detection: {
+            type: 'object',
+            properties: {
+              services: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+              regions: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+              appliesTo: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+              keywords: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+// Checklist item IDs; the WAF prefixes are reserved for the built-in items
+const ITEM_ID = /^[A-Z]{2,6}:\d{2}$/;
+const BUILT_IN_PREFIXES = ['SE', 'RE', 'PE', 'OE', 'CO'];
+
+const CATEGORIES: ServiceCategory[] = ['compute', 'data', 'networking', 'security', 'integration', 'ai', 'monitoring', 'identity', 'storage'];
+
+/**
+ * Load and validate a policy pack; .yaml/.yml files are parsed as YAML,
+ * anything else as JSON (relative paths resolve from the working directory)
+ */
+export function loadPolicyPack(filePath: string): PolicyPack {
+  const resolved = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+  let pack: PolicyPack;
+  try {
+    const content = readFileSync(resolved, 'utf-8');
+    pack = /\.ya?ml$/i.test(resolved) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Could not load policy pack ${resolved}: ${error instanceof Error ? error.message : error}`);
+  }
+  const validation = validatePolicyPack(pack);
+  if (!validation.valid) {
+    throw new Error(`Invalid policy pack ${resolved}:\n${validation.errors.map(e => `  - ${e}`).join('\n')}`);
+  }
+  return pack;
+}
+
+/**
+ * Schema check plus well-formed, unique item IDs outside the built-in
+ * prefixes, known catalog services and service categories
+ */
+export function validatePolicyPack(pack: PolicyPack): ValidationResult {
+  const schema = validateSchema(pack, POLICY_PACK_SCHEMA);
+  if (!schema.valid) return schema;
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  pack.items.forEach((item, index) => {
+    const at = `$.items[${index}]`;
+    if (!ITEM_ID.test(item.id)) {
+      errors.push(`${at}.id: "${item.id}" is not a checklist ID such as FS:01`);
+    } else if (BUILT_IN_PREFIXES.includes(item.id.split(':')[0])) {
+      errors.push(`${at}.id: prefix of "${item.id}" is reserved for the built-in WAF items`);
+    }
+    if (ids.has(item.id)) errors.push(`${at}.id: duplicate item "${item.id}"`);
+    ids.add(item.id);
+
+    item.detection?.services?.forEach((service, serviceIndex) => {
+      if (!getServiceType(service)) errors.push(`${at}.detection.services[${serviceIndex}]: unknown catalog service "${service}"`);
+    });
+    item.detection?.regions?.forEach((region, regionIndex) => {
+      if (!regionKey(region)) errors.push(`${at}.detection.regions[${regionIndex}]: "${region}" is not a region`);
+    });
+    item.detection?.appliesTo?.forEach((category, categoryIndex) => {
+      if (!CATEGORIES.includes(category)) errors.push(`${at}.detection.appliesTo[${categoryIndex}]: unknown service category "${category}"`);
+    });
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+export function policyItemsForPillar(pack: PolicyPack | undefined, pillar: WafPillar): PolicyPackItem[] {
+  return pack?.items.filter(item => item.pillar === pillar) ?? [];
+}
+
+/**
+ * Rules for the items whose detection hints can be checked on the graph
+ * (required services, allowed regions); keyword-only items are left to the
+ * pillar agents
+ */
+export function policyPackRules(pack: PolicyPack): WafRule[] {
+  return pack.items
+    .filter(item => item.detection?.services || item.detection?.regions)
+    .map(item => ({
+      id: `${pack.name}/${item.id}`,
+      checklistId: item.id,
+      pillar: item.pillar,
+      title: item.title,
+      severity: item.severity,
+      recommendation: item.description,
+      evaluate: graph => evaluateDetection(graph, item.detection!)
+    }));
+}
+
+/**
+ * Prompt section listing the pack items of a pillar, appended to the pillar
+ * agent's instructions
+ */
+export function formatPolicyItemsForPrompt(items: PolicyPackItem[] | undefined): string {
+  if (!items || items.length === 0) return '';
+  return `**ORGANISATIONAL POLICY ITEMS:**
+Assess these items exactly like the official checklist items, reference them by ID, and count them toward the score:
+${items.map(item => `- **${item.id} ${item.title}** (${item.severity} severity): ${item.description}` +
+    (item.detection?.keywords ? ` Look for: ${item.detection.keywords.join(', ')}.` : '')).join('\n')}
+`;
+}
+
+/**
+ * Check services, regions and scope of detection hints on the graph (keywords
+ * are not checked here)
+ */
+export function evaluateDetection(graph: ArchitectureGraph, detection: PolicyDetection): RuleOutcome {
+  const inScope = detection.appliesTo
+    ? azureNodes(graph).filter(node => detection.appliesTo!.includes(node.category))
+    : azureNodes(graph);
+  if (inScope.length === 0) {
+    return { status: 'not-applicable', evidence: [`No ${detection.appliesTo?.join('/') ?? 'Azure'} services`] };
+  }
+
+  const evidence: string[] = [];
+  let passed = true;
+  if (detection.services) {
+    const found = azureNodes(graph).filter(node => detection.services!.includes(node.type));
+    passed = found.length > 0;
+    evidence.push(found.length > 0
+      ? `Found: ${found.map(node => node.name).join(', ')}`
+      : `None of ${detection.services.map(service => getServiceType(service)?.name ?? service).join(', ')}`);
+  }
+  if (detection.regions) {
+    const allowed = new Set(detection.regions.map(region => regionKey(region)));
+    const outside = inScope.filter(node => isOutside(node, allowed));
+    passed = passed && outside.length === 0;
+    evidence.push(outside.length === 0
+      ? `${inScope.length} service(s) in ${detection.regions.join(', ')}`
+      : `Outside ${detection.regions.join(', ')}: ${outside.map(node => `${node.name} (${node.region})`).join(', ')}`);
+  }
+  return { status: passed ? 'pass' : 'fail', evidence };
+}
+
+// Services without a region (global, n/a) are not placed anywhere and do not count
+function isOutside(node: ArchitectureNode, allowed: Set<string | undefined>): boolean {
+  const key = regionKey(node.region);
+  return key !== undefined && !allowed.has(key);
+}
@@ -0,0 +1,315 @@
+/**
+ * WAF Rules
+ * Deterministic checks of the architecture graph against WAF checklist items:
+ * each rule looks at the services, regions and flows, passes or fails with the
+ * evidence it found, and counts towards its pillar by severity. The rule score
+ * of a pillar is blended with the LLM pillar score, so the same graph always
+ * moves the score the same way and every point can be traced to a rule.
+ */
+
+import { ArchitectureGraph, ArchitectureNode, azureNodes, groupAncestors } from '../core/architecture-graph.js';
+
+export type WafPillar = 'Reliability' | 'Security' | 'Performance Efficiency' | 'Operational Excellence' | 'Cost Optimization';
+
+export const WAF_PILLARS: WafPillar[] = ['Reliability', 'Security', 'Performance Efficiency', 'Operational Excellence', 'Cost Optimization'];
+
+export type RuleSeverity = 'high' | 'medium' | 'low';
+
+export type RuleStatus = 'pass' | 'fail' | 'not-applicable';
+
+export interface RuleOutcome {
+  status: RuleStatus;
+  // What the rule found in the graph, e.g. "Regions: Switzerland North"
+  evidence: string[];
+}
+
+export interface WafRule {
+  id: string;
+  // WAF checklist item the rule checks, e.g. "RE:05"
+  checklistId: string;
+  pillar: WafPillar;
+  title: string;
+  severity: RuleSeverity;
+  // Shown when the rule fails
+  recommendation: string;
+  evaluate(graph: ArchitectureGraph): RuleOutcome;
+}
+
+export interface WafRuleResult extends RuleOutcome {
+  ruleId: string;
+  checklistId: string;
+  pillar: WafPillar;
+  title: string;
+  severity: RuleSeverity;
+  recommendation: string;
+}
+
+export interface RuleAssessment {
+  results: WafRuleResult[];
+  // 0-10 per pillar; missing when no rule of the pillar applies
+  pillarScores: Partial<Record<WafPillar, number>>;
+}
+
+const SEVERITY_WEIGHT: Record<RuleSeverity, number> = { high: 3, medium: 2, low: 1 };
+
+// Region values that do not place a service in an Azure region
+const NON_REGIONAL = /^(global|n\/a|none|multi-region|-)?$/i;
+
+// Tiers without an SLA or with fixed capacity limits
+const NON_PRODUCTION_TIER = /\b(free|developer|dev\/test)\b/i;
+
+export const WAF_RULES: WafRule[] = [
+  {
+    id: 'multi-region-dr',
+    checklistId: 'RE:05',
+    pillar: 'Reliability',
+    title: 'Workload has a disaster recovery region',
+    severity: 'high',
+    recommendation: 'Add a secondary (paired) region with geo-replicated data and a failover path for the critical flows',
+    evaluate: graph => {
+      const regions = distinctRegions(graph.regions);
+      const services = distinctRegions(azureNodes(graph).map(node => node.region));
+      if (regions.length === 0 && services.length === 0) return { status: 'not-applicable', evidence: ['No service names an Azure region'] };
+
+      // A service in a second region is not a DR pair on its own (e.g. a model only offered elsewhere):
+      // the architecture has to name two regions, or run the same service in both
+      const replicated = [...new Set(azureNodes(graph).map(node => node.type))]
+        .map(type => ({ type, nodes: azureNodes(graph).filter(node => node.type === type) }))
+        .filter(({ nodes }) => distinctRegions(nodes.map(node => node.region)).length > 1);
+      return {
+        status: regions.length > 1 || replicated.length > 0 ? 'pass' : 'fail',
+        evidence: [
+          `Architecture regions: ${regions.join(', ') || 'none stated'}`,
+          `Service regions: ${services.join(', ') || 'none stated'}`,
+          ...replicated.map(({ nodes }) => `${nodes[0].name} in ${distinctRegions(nodes.map(node => node.region)).join(', ')}`)
+        ]
+      };
+    }
+  },
+  {
+    id: 'health-monitoring',
+    checklistId: 'RE:10',
+    pillar: 'Reliability',
+    title: 'Application health is monitored',
+    severity: 'medium',
+    recommendation: 'Add Application Insights / Azure Monitor with availability tests and health alerts',
+    evaluate: graph => presence(graph, ['monitor'], 'Azure Monitor / Application Insights')
+  },
+  {
+    id: 'key-vault',
+    checklistId: 'SE:09',
+    pillar: 'Security',
+    title: 'Secrets, keys and certificates are kept in Key Vault',
+    severity: 'high',
+    recommendation: 'Add Azure Key Vault and load connection strings, keys and certificates from it through managed identities',
+    evaluate: graph => presence(graph, ['key-vault'], 'Key Vault')
+  },
+  {
+    id: 'edge-protection',
+    checklistId: 'SE:06',
+    pillar: 'Security',
+    title: 'Public endpoints sit behind a web application firewall',
+    severity: 'high',
+    recommendation: 'Route public traffic through Azure Front Door Premium or Application Gateway WAF v2 and restrict the origins to it',
+    evaluate: graph => {
+      const edges = ofTypes(graph, ['front-door', 'application-gateway']);
+      const entries = publicEntryPoints(graph);
+      if (entries.length === 0) return { status: 'not-applicable', evidence: ['No flow from users or external systems into Azure'] };
+
+      // An entry point is protected when it is the edge service or only reached through one
+      const unprotected = entries.filter(entry => !edges.includes(entry) &&
+        !graph.flows.some(flow => flow.to === entry.id && edges.some(edge => edge.id === flow.from)));
+      return {
+        status: unprotected.length === 0 ? 'pass' : 'fail',
+        evidence: [
+          `Public entry points: ${entries.map(node => node.name).join(', ')}`,
+          edges.length > 0 ? `Edge protection: ${edges.map(node => node.name).join(', ')}` : 'No Front Door or Application Gateway',
+          ...(unprotected.length > 0 ? [`Reached directly: ${unprotected.map(node => node.name).join(', ')}`] : [])
+        ]
+      };
+    }
+  },
+  {
+    id: 'network-isolation',
+    checklistId: 'SE:04',
+    pillar: 'Security',
+    title: 'Data services are isolated in a private network',
+    severity: 'medium',
+    recommendation: 'Place the workload in a virtual network and reach data services through private endpoints',
+    evaluate: graph => {
+      const data = azureNodes(graph).filter(node => ['data', 'storage', 'ai'].includes(node.category));
+      if (data.length === 0) return { status: 'not-applicable', evidence: ['No data, storage or AI services'] };
+      // VNets and subnets are usually recorded as groups around the services rather than as nodes
+      const networks = ofTypes(graph, ['virtual-network', 'private-link']);
+      const enclosed = data.map(node => ({ node, network: enclosingNetwork(graph, node) })).filter(({ network }) => network);
+      const outside = networks.length > 0 ? [] : data.filter(node => !enclosed.some(entry => entry.node === node));
+      return {
+        status: outside.length === 0 ? 'pass' : 'fail',
+        evidence: [
+          `Data services: ${data.map(node => node.name).join(', ')}`,
+          ...(networks.length > 0 ? [`Private networking: ${networks.map(node => node.name).join(', ')}`] : []),
+          ...(enclosed.length > 0 ? [`In virtual networks: ${enclosed.map(({ node, network }) => `${node.name} (${network})`).join(', ')}`] : []),
+          ...(networks.length === 0 && enclosed.length === 0 ? ['No virtual network or private endpoints'] : []),
+          ...(outside.length > 0 && enclosed.length > 0 ? [`Outside a virtual network: ${outside.map(node => node.name).join(', ')}`] : [])
+        ]
+      };
+    }
+  },
+  {
+    id: 'central-identity',
+    checklistId: 'SE:05',
+    pillar: 'Security',
+    title: 'Access goes through a central identity provider',
+    severity: 'medium',
+    recommendation: 'Authenticate users and services with Microsoft Entra ID and managed identities',
+    evaluate: graph => presence(graph, ['entra-id'], 'Microsoft Entra ID')
+  },
+  {
+    id: 'threat-detection',
+    checklistId: 'SE:10',
+    pillar: 'Security',
+    title: 'Threats are detected and monitored',
+    severity: 'medium',
+    recommendation: 'Enable Microsoft Defender for Cloud plans for the workload resources and forward alerts to Sentinel',
+    evaluate: graph => presence(graph, ['defender-for-cloud', 'sentinel'], 'Defender for Cloud or Sentinel')
+  },
+  {
+    id: 'production-tiers',
+    checklistId: 'PE:03',
+    pillar: 'Performance Efficiency',
+    title: 'Services run on tiers with an SLA and production capacity',
+    severity: 'medium',
+    recommendation: 'Move Free and Developer tiers to a production tier before go-live',
+    evaluate: graph => {
+      const nodes = azureNodes(graph);
+      if (nodes.length === 0) return { status: 'not-applicable', evidence: ['No Azure services'] };
+      const limited = nodes.filter(node => NON_PRODUCTION_TIER.test(`${node.sku} ${node.tier ?? ''}`));
+      return {
+        status: limited.length === 0 ? 'pass' : 'fail',
+        evidence: limited.length === 0
+          ? [`${nodes.length} service(s) on production tiers`]
+          : limited.map(node => `${node.name}: ${node.sku}`)
+      };
+    }
+  },
+  {
+    id: 'log-analytics',
+    checklistId: 'OE:07',
+    pillar: 'Operational Excellence',
+    title: 'Logs and metrics are collected centrally',
+    severity: 'high',
+    recommendation: 'Add a Log Analytics workspace and send diagnostic settings of every resource to it',
+    evaluate: graph => presence(graph, ['log-analytics'], 'Log Analytics')
+  }
+];
+
+/**
+ * Run the rules over the graph and score each pillar from its applicable rules
+ */
+export function evaluateWafRules(graph: ArchitectureGraph, rules: WafRule[] = WAF_RULES): RuleAssessment {
+  const results: WafRuleResult[] = rules.map(rule => ({
+    ruleId: rule.id,
+    checklistId: rule.checklistId,
+    pillar: rule.pillar,
+    title: rule.title,
+    severity: rule.severity,
+    recommendation: rule.recommendation,
+    ...rule.evaluate(graph)
+  }));
+
+  const pillarScores: Partial<Record<WafPillar, number>> = {};
+  for (const pillar of WAF_PILLARS) {
+    const applicable = results.filter(result => result.pillar === pillar && result.status !== 'not-applicable');
+    if (applicable.length === 0) continue;
+    const total = applicable.reduce((sum, result) => sum + SEVERITY_WEIGHT[result.severity], 0);
+    const passed = applicable.filter(result => result.status === 'pass').reduce((sum, result) => sum + SEVERITY_WEIGHT[result.severity], 0);
+    pillarScores[pillar] = Math.round(passed / total * 100) / 10;
+  }
+  return { results, pillarScores };
+}
+
+/**
+ * Blend an LLM pillar score with the rule score (both 0-10). Without an LLM
+ * score (timeout, failure) the rule score stands alone.
+ */
+export function blendPillarScore(llmScore: number | undefined, ruleScore: number | undefined, ruleWeight: number): number {
+  if (ruleScore === undefined) return llmScore ?? 7;
+  if (llmScore === undefined) return ruleScore;
+  return Math.round(((1 - ruleWeight) * llmScore + ruleWeight * ruleScore) * 10) / 10;
+}
+
+/**
+ * Markdown table of the rule results with their evidence
+ */
+export function formatRuleAssessment(assessment: RuleAssessment): string {
+  const icon: Record<RuleStatus, string> = { pass: '✅', fail: '❌', 'not-applicable': '➖' };
+  const lines = [
+    '## Deterministic Checks',
+    '',
+    '| Item | Check | Severity | Result | Evidence |',
+    '|------|-------|----------|--------|----------|',
+    ...assessment.results.map(result =>
+      `| ${result.checklistId} | ${result.title} | ${result.severity} | ${icon[result.status]} ${result.status} | ${result.evidence.join('; ').replace(/\|/g, '\\|')} |`),
+    ''
+  ];
+  const failed = assessment.results.filter(result => result.status === 'fail');
+  if (failed.length > 0) {
+    lines.push('**To fix:**', '', ...failed.map(result => `- ${result.checklistId}: ${result.recommendation}`), '');
+  }
+  return lines.join('\n');
+}
+
+function ofTypes(graph: ArchitectureGraph, types: string[]): ArchitectureNode[] {
+  return azureNodes(graph).filter(node => types.includes(node.type));
+}
+
+/**
+ * Name of the innermost VNet or subnet group around a node, if any
+ */
+function enclosingNetwork(graph: ArchitectureGraph, node: ArchitectureNode): string | undefined {
+  for (const groupId of node.groups) {
+    const network = [groupId, ...groupAncestors(graph, groupId)]
+      .map(id => graph.groups.find(group => group.id === id))
+      .find(group => group?.kind === 'vnet' || group?.kind === 'subnet');
+    if (network) return network.name;
+  }
+  return undefined;
+}
+
+function presence(graph: ArchitectureGraph, types: string[], label: string): RuleOutcome {
+  const found = ofTypes(graph, types);
+  return found.length > 0
+    ? { status: 'pass', evidence: [`${label}: ${found.map(node => node.name).join(', ')}`] }
+    : { status: 'fail', evidence: [`No ${label} among ${azureNodes(graph).length} Azure service(s)`] };
+}
+
+/**
+ * Comparable form of a region name ("Switzerland North" and "switzerlandnorth"
+ * match); undefined for values that do not place a service in a region
+ */
+export function regionKey(region: string): string | undefined {
+  const trimmed = region.trim();
+  return NON_REGIONAL.test(trimmed) ? undefined : trimmed.toLowerCase().replace(/[\s-]/g, '');
+}
+
+function distinctRegions(values: string[]): string[] {
+  const byKey = new Map<string, string>();
+  for (const region of values) {
+    const key = regionKey(region);
+    if (key && !byKey.has(key)) byKey.set(key, region.trim());
+  }
+  return [...byKey.values()];
+}
+
+/**
+ * Azure services receiving a flow from users or external systems
+ */
+function publicEntryPoints(graph: ArchitectureGraph): ArchitectureNode[] {
+  const external = new Set(graph.nodes.filter(node => node.category === 'external').map(node => node.id));
+  const entries = new Set<string>();
+  for (const flow of graph.flows) {
+    if (external.has(flow.from) && !external.has(flow.to)) entries.add(flow.to);
+    if (flow.direction === 'bidirectional' && external.has(flow.to) && !external.has(flow.from)) entries.add(flow.from);
+  }
+  return azureNodes(graph).filter(node => entries.has(node.id));
+}
@@ -0,0 +1,50 @@
+/**
+ * Architecture Graph tests
+ * Costs taken over from the cost artifact's breakdown
+ * Run: npx tsx --test tests/architecture-graph.test.ts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CostArtifact } from '../src/core/pipeline-artifacts.js';
+import { ArchitectureGraph } from '../src/core/architecture-graph.js';
+import { sampleGraph } from './fixtures/sample-architecture.js';
+
+const EXCHANGE_RATES = { USD: 1, EUR: 0.86, CHF: 0.8 };
+
+function breakdown(currency: string): CostArtifact {
+  return {
+    currency,
+    totalMonthly: 500,
+    breakdown: [
+      { service: 'Azure App Service', sku: 'P1v3', monthlyCost: 100 },
+      { service: 'Azure SQL Database', sku: 'GP Gen5 4 vCore', monthlyCost: 400 }
+    ],
+    optimizations: []
+  };
+}
+
+function cost(graph: ArchitectureGraph, id: string): number | undefined {
+  return graph.nodes.find(node => node.id === id)?.monthlyCost;
+}
+
+test('USD breakdowns fill the node costs as they are', () => {
+  const graph = sampleGraph(breakdown('USD'));
+  assert.equal(cost(graph, 'web'), 100);
+  assert.equal(cost(graph, 'sql'), 400);
+  assert.equal(graph.totalMonthlyCost, 500);
+  assert.equal(graph.nodes.find(node => node.id === 'web')?.costSource, 'cost-analysis');
+});
+
+test('breakdowns in another currency are converted to USD', () => {
+  const graph = sampleGraph(breakdown('CHF'), { exchangeRates: EXCHANGE_RATES });
+  assert.equal(cost(graph, 'web'), 125);
+  assert.equal(cost(graph, 'sql'), 500);
+  assert.equal(graph.currency, 'USD');
+  assert.equal(graph.totalMonthlyCost, 625);
+});
+
+test('breakdowns in a currency without an exchange rate are left out', () => {
+  assert.equal(cost(sampleGraph(breakdown('CHF')), 'web'), undefined);
+  assert.equal(sampleGraph(breakdown('GBP'), { exchangeRates: EXCHANGE_RATES }).totalMonthlyCost, 0);
+});
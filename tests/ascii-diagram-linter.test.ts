@@ -0,0 +1,103 @@
+/**
+ * ASCII Diagram Linter tests
+ * Defects found in box-drawing diagrams and the mechanical repairs
+ * Run: npx tsx --test tests/ascii-diagram-linter.test.ts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ASCII_MAX_WIDTH, lintAsciiDiagrams, repairAsciiDiagrams } from '../src/diagrams/ascii-diagram-linter.js';
+
+const CLEAN = [
+  '┌───────────┐     ┌───────────┐',
+  '│ App       │────►│ SQL       │',
+  '└───────────┘     └───────────┘'
+].join('\n');
+
+function rules(text: string): string[] {
+  return lintAsciiDiagrams(text).defects.map(defect => defect.rule);
+}
+
+test('a well-formed diagram has no defects', () => {
+  const result = lintAsciiDiagrams(CLEAN);
+  assert.equal(result.diagrams, 1);
+  assert.deepEqual(result.defects, []);
+});
+
+test('emoji and CJK glyphs count as two columns', () => {
+  const wide = [
+    '┌──────────────┐   ┌──────────┐',
+    '│ 🔒 Key Vault │──►│ 数据库   │',
+    '└──────────────┘   └──────────┘'
+  ].join('\n');
+  assert.deepEqual(lintAsciiDiagrams(wide).defects, []);
+  assert.equal(repairAsciiDiagrams(wide).text, wide);
+});
+
+test('a misaligned wall next to a wide glyph is repaired around it', () => {
+  const shifted = [
+    '┌──────────────┐',
+    '│ 🔒 Key Vault  │',
+    '└──────────────┘'
+  ].join('\n');
+  const result = repairAsciiDiagrams(shifted);
+  assert.deepEqual(result.fixed.map(defect => defect.rule), ['misaligned-column']);
+  assert.equal(result.text.split('\n')[1], '│ 🔒 Key Vault │');
+  assert.deepEqual(result.remaining, []);
+});
+
+test('a gap in a border is reported and closed', () => {
+  const gap = ['┌───── ────┐', '│ App      │', '└──────────┘'].join('\n');
+  const defects = lintAsciiDiagrams(gap).defects;
+  assert.deepEqual(defects.map(defect => [defect.rule, defect.line, defect.column]), [['broken-border', 1, 7]]);
+  assert.equal(repairAsciiDiagrams(gap).text.split('\n')[0], '┌──────────┐');
+});
+
+test('a missing right wall cannot be repaired mechanically', () => {
+  const open = ['┌──────────┐', '│ App       ', '└──────────┘'].join('\n');
+  const result = repairAsciiDiagrams(open);
+  assert.deepEqual(result.remaining.map(defect => defect.rule), ['broken-border']);
+});
+
+test('a shifted bottom-right corner is moved under the top one', () => {
+  const corner = ['┌──────────┐', '│ App      │', '└────────┘'].join('\n');
+  assert.deepEqual(rules(corner), ['misaligned-column']);
+  assert.equal(repairAsciiDiagrams(corner).text.split('\n')[2], '└──────────┘');
+});
+
+test('a box without a closing corner is unterminated', () => {
+  assert.deepEqual(rules(['┌──────────', '│ App      │', '└──────────┘'].join('\n')), ['unterminated-box']);
+});
+
+test('arrows need a shaft and a target', () => {
+  const dangling = [
+    '┌─────┐      ┌─────┐',
+    '│ App │ ►    │ SQL │',
+    '└─────┘──►   └─────┘'
+  ].join('\n');
+  const defects = lintAsciiDiagrams(dangling).defects.filter(defect => defect.rule === 'dangling-arrow');
+  assert.deepEqual(defects.map(defect => [defect.line, defect.column]), [[2, 9], [3, 10]]);
+  assert.match(defects[0].message, /no line leading into it/);
+  assert.match(defects[1].message, /does not point at a box or label/);
+  assert.equal(defects.every(defect => !defect.fixable), true);
+});
+
+test('an unclosed security boundary is closed', () => {
+  assert.deepEqual(rules(['[═════] Spoke VNet', '┌─────┐', '│ App │', '└─────┘'].join('\n')), []);
+
+  const inline = ['┌─────┐ [══════ ', '│ App │', '└─────┘'].join('\n');
+  assert.deepEqual(rules(inline), ['unterminated-boundary']);
+  assert.equal(repairAsciiDiagrams(inline).text.split('\n')[0], '┌─────┐ [══════]');
+});
+
+test('over-width lines are measured in columns and trimmed when only padding overflows', () => {
+  const padded = `${CLEAN.split('\n')[0]}${' '.repeat(ASCII_MAX_WIDTH)}\n${CLEAN.split('\n').slice(1).join('\n')}`;
+  assert.deepEqual(rules(padded), ['over-width']);
+  assert.equal(repairAsciiDiagrams(padded).text, CLEAN);
+
+  // 40 emoji are 80 columns: within the limit although the line is more than 85 code units
+  const emoji = ['┌' + '─'.repeat(82) + '┐', `│ ${'🔒'.repeat(40)} │`, '└' + '─'.repeat(82) + '┘'].join('\n');
+  assert.deepEqual(rules(emoji), []);
+  const tooWide = ['┌' + '─'.repeat(86) + '┐', `│ ${'🔒'.repeat(42)} │`, '└' + '─'.repeat(86) + '┘'].join('\n');
+  assert.deepEqual(lintAsciiDiagrams(tooWide).defects.filter(defect => !defect.fixable).map(defect => defect.rule), ['over-width', 'over-width', 'over-width']);
+});
@@ -0,0 +1,95 @@
+/**
+ * Chargeback tests
+ * Business unit allocation of the estimate under each shared-service rule, and the CSV it is written as
+ * Run: npx tsx --test tests/chargeback.test.ts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CostArtifact } from '../src/core/pipeline-artifacts.js';
+import { estimateArchitectureCosts } from '../src/cost/cost-calculator.js';
+import { loadPricingCatalog } from '../src/cost/pricing-catalog.js';
+import { ChargebackAllocation, allocateChargeback } from '../src/finops/chargeback.js';
+import { FinopsModel, SharedAllocation, loadFinopsModel } from '../src/finops/finops-model.js';
+import { formatChargebackCsv } from '../src/finops/finops-writer.js';
+import { sampleGraph } from './fixtures/sample-architecture.js';
+
+const model = loadFinopsModel();
+const graph = sampleGraph();
+const estimate = estimateArchitectureCosts(graph, { catalog: loadPricingCatalog(), currency: 'CHF' });
+
+function withAllocation(allocation: SharedAllocation): FinopsModel {
+  return { ...model, sharedServices: { ...model.sharedServices, allocation } };
+}
+
+function sum(amounts: number[]): number {
+  return amounts.reduce((total, amount) => total + amount, 0);
+}
+
+// Allocations are rounded to cents, so sums may drift by a cent per service
+function assertClose(actual: number, expected: number, message?: string): void {
+  assert.ok(Math.abs(actual - expected) <= 0.01 * estimate.lines.length, `${message ?? ''} ${actual} is not ${expected}`);
+}
+
+function assertBalanced(chargeback: ChargebackAllocation): void {
+  assertClose(chargeback.total, estimate.totals.payg, 'total');
+  assertClose(sum(chargeback.units.map(unit => unit.total)), chargeback.total, 'units');
+  for (const service of chargeback.services) {
+    assertClose(sum(Object.values(service.allocations)), service.monthly, service.service);
+  }
+}
+
+test('the business units are charged the whole pay-as-you-go estimate under every allocation rule', () => {
+  for (const allocation of ['proportional', 'even', 'platform'] as SharedAllocation[]) {
+    const chargeback = allocateChargeback(graph, withAllocation(allocation), estimate);
+    assert.equal(chargeback.source, 'calculated');
+    assert.equal(chargeback.currency, 'CHF');
+    assert.deepEqual(chargeback.uncosted, []);
+    assertBalanced(chargeback);
+  }
+});
+
+test('workload services follow the usage shares, shared services the allocation rule', () => {
+  const web = estimate.lines.find(line => line.nodeId === 'web')!.monthly.payg;
+  const keyVault = estimate.lines.find(line => line.nodeId === 'key-vault')!.monthly.payg;
+
+  const proportional = allocateChargeback(graph, model, estimate);
+  const webCharge = proportional.services.find(service => service.nodeId === 'web')!;
+  assert.equal(webCharge.shared, false);
+  assertClose(webCharge.allocations['CC-1100'], web * 0.5);
+
+  const even = allocateChargeback(graph, withAllocation('even'), estimate);
+  assertClose(even.services.find(service => service.nodeId === 'key-vault')!.allocations['CC-1300'], keyVault / 3);
+
+  const platform = allocateChargeback(graph, withAllocation('platform'), estimate);
+  assert.deepEqual(platform.services.find(service => service.nodeId === 'key-vault')!.allocations, { 'CC-9000': keyVault });
+  const platformUnit = platform.units.find(unit => unit.costCenter === 'CC-9000')!;
+  assertClose(platformUnit.total, sum(platform.services.filter(service => service.shared).map(service => service.monthly)));
+  assert.ok(platform.units.filter(unit => unit !== platformUnit).every(unit => unit.shared === 0));
+});
+
+test('without an estimate the graph costs are charged and the rest listed as uncosted', () => {
+  const cost: CostArtifact = {
+    currency: 'USD',
+    totalMonthly: 500,
+    breakdown: [
+      { service: 'Azure App Service', sku: 'P1v3', monthlyCost: 100 },
+      { service: 'Azure SQL Database', sku: 'GP Gen5 4 vCore', monthlyCost: 400 }
+    ],
+    optimizations: []
+  };
+  const chargeback = allocateChargeback(sampleGraph(cost), model);
+  assert.equal(chargeback.source, 'architecture');
+  assert.equal(chargeback.total, 500);
+  assert.deepEqual(chargeback.units.map(unit => unit.total), [250, 150, 100]);
+  assert.ok(chargeback.uncosted.includes('Azure Key Vault'));
+});
+
+test('the chargeback CSV adds up to the estimate per month and per year', () => {
+  const chargeback = allocateChargeback(graph, model, estimate);
+  const [header, ...rows] = formatChargebackCsv(chargeback).trim().split('\n').map(row => row.split(','));
+  const column = (name: string) => rows.map(row => Number(row[header.indexOf(name)]));
+  assert.deepEqual(rows.map(row => row[1]), ['CC-1100', 'CC-1200', 'CC-1300']);
+  assertClose(sum(column('total_monthly')), estimate.totals.payg, 'monthly');
+  assertClose(sum(column('total_annual')) / 12, estimate.totals.payg, 'annual');
+});
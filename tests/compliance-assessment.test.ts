@@ -0,0 +1,82 @@
+/**
+ * Compliance Assessment tests
+ * Control statuses of the framework catalog on the architecture graph, the scores and framework selection
+ * Run: npx tsx --test tests/compliance-assessment.test.ts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ArchitectureGraph, buildArchitectureGraph } from '../src/core/architecture-graph.js';
+import { ControlStatus, assessCompliance, formatComplianceMatrix } from '../src/compliance/compliance-assessment.js';
+import { loadComplianceCatalog, selectFrameworks } from '../src/compliance/compliance-catalog.js';
+import { sampleArchitecture, sampleGraph } from './fixtures/sample-architecture.js';
+
+const catalog = loadComplianceCatalog();
+
+function statuses(graph: ArchitectureGraph, frameworkId: string): Record<string, ControlStatus> {
+  const [framework] = assessCompliance(graph, catalog, selectFrameworks(catalog, [frameworkId], [])).frameworks;
+  return Object.fromEntries(framework.controls.map(control => [control.control.id, control.status]));
+}
+
+test('FINMA controls on the sample architecture', () => {
+  assert.deepEqual(statuses(sampleGraph(), 'finma'), {
+    '2023/1 CID': 'satisfied',
+    '2023/1 ICT-Access': 'satisfied',
+    // No Defender for Cloud or Sentinel; Front Door covers the WAF check
+    '2023/1 Cyber': 'partial',
+    '2023/1 ICT-Ops': 'satisfied',
+    // Single region and zone-redundant storage only
+    '2023/1 BCM': 'gap',
+    '2018/3 Outsourcing': 'satisfied'
+  });
+});
+
+test('a second region and geo-redundant storage close the recovery gap, a data service abroad opens a residency one', () => {
+  const architecture = sampleArchitecture();
+  const graph = buildArchitectureGraph({
+    ...architecture,
+    regions: ['Switzerland North', 'Switzerland West'],
+    services: architecture.services.map(service => {
+      if (service.id === 'storage') return { ...service, sku: 'Standard RA-GZRS' };
+      if (service.id === 'sql') return { ...service, region: 'West Europe' };
+      return service;
+    })
+  });
+  const finma = statuses(graph, 'finma');
+  assert.equal(finma['2023/1 BCM'], 'satisfied');
+  assert.equal(finma['2023/1 CID'], 'partial');
+  assert.equal(finma['2018/3 Outsourcing'], 'partial');
+  // The EU is an adequate destination under GDPR
+  assert.equal(statuses(graph, 'gdpr')['Art. 44'], 'satisfied');
+});
+
+test('controls whose checks find nothing to check are not applicable', () => {
+  const architecture = sampleArchitecture();
+  const graph = buildArchitectureGraph({ ...architecture, services: architecture.services.filter(service => !['sql', 'storage'].includes(service.id)) });
+  const iso = statuses(graph, 'iso27001');
+  assert.equal(iso['A.8.13'], 'not-applicable');
+  // A control stays assessed by the checks that still apply
+  assert.equal(iso['A.8.20'], 'satisfied');
+  assert.match(formatComplianceMatrix(assessCompliance(graph, catalog, selectFrameworks(catalog, ['iso27001'], []))), /\| A\.8\.13 \| .* \| ➖ N\/A \|/);
+});
+
+test('scores credit satisfied controls fully and partial ones half', () => {
+  const { frameworks, status } = assessCompliance(sampleGraph(), catalog, selectFrameworks(catalog, ['finma', 'gdpr'], []));
+  const credit = (controls: { status: ControlStatus }[]) =>
+    controls.filter(control => control.status === 'satisfied').length + controls.filter(control => control.status === 'partial').length / 2;
+  const applicable = frameworks.map(framework => framework.controls.filter(control => control.status !== 'not-applicable'));
+
+  applicable.forEach((controls, index) => {
+    assert.equal(frameworks[index].score, Math.round(credit(controls) / controls.length * 100), frameworks[index].framework.id);
+  });
+  // FINMA: 4 satisfied, 1 partial, 1 gap
+  assert.deepEqual(status.frameworks[0], { id: 'finma', name: 'FINMA', score: 75, satisfied: 4, partial: 1, gaps: 1, notApplicable: 0 });
+  // The overall score weighs every applicable control of both frameworks alike
+  assert.equal(status.score, Math.round(credit(applicable.flat()) / applicable.flat().length * 100));
+});
+
+test('frameworks are selected by configured ID or by name and alias in the requirements', () => {
+  assert.deepEqual(selectFrameworks(catalog, [], ['Customer data falls under the DSGVO and FINMA-RS 2023/1']).map(framework => framework.id).sort(), ['finma', 'gdpr']);
+  assert.deepEqual(selectFrameworks(catalog, [], ['No regulatory obligations']), []);
+  assert.throws(() => selectFrameworks(catalog, ['sox'], []), /Unknown compliance framework "sox"/);
+});
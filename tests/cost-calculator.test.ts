@@ -0,0 +1,76 @@
+/**
+ * Cost Calculator tests
+ * Totals of the offline estimate per pricing model and currency, and how they are formatted
+ * Run: npx tsx --test tests/cost-calculator.test.ts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildArchitectureGraph } from '../src/core/architecture-graph.js';
+import {
+  CostEstimate, PRICING_MODELS, estimateArchitectureCosts, formatCostAmount, formatCostEstimate
+} from '../src/cost/cost-calculator.js';
+import { CostCurrency, loadPricingCatalog } from '../src/cost/pricing-catalog.js';
+import { sampleArchitecture, sampleGraph } from './fixtures/sample-architecture.js';
+
+const catalog = loadPricingCatalog();
+
+function estimate(currency: CostCurrency): CostEstimate {
+  return estimateArchitectureCosts(sampleGraph(), { catalog, currency });
+}
+
+// Lines and totals are rounded to cents, so sums may drift by a cent per line
+function assertClose(actual: number, expected: number, lines: number, message?: string): void {
+  assert.ok(Math.abs(actual - expected) <= 0.01 * lines, `${message ?? ''} ${actual} is not ${expected}`);
+}
+
+test('every pricing model totals the monthly cost of its lines', () => {
+  for (const currency of ['USD', 'EUR', 'CHF'] as CostCurrency[]) {
+    const result = estimate(currency);
+    assert.equal(result.lines.length, 8);
+    for (const model of PRICING_MODELS) {
+      assertClose(result.totals[model], result.lines.reduce((total, line) => total + line.monthly[model], 0), 1, `${currency} ${model}`);
+      assert.ok(result.totals[model] <= result.totals.payg, `${currency} ${model} is not above pay-as-you-go`);
+    }
+  }
+});
+
+test('EUR and CHF totals are the USD totals at the catalog exchange rate', () => {
+  const usd = estimate('USD');
+  for (const currency of ['EUR', 'CHF'] as CostCurrency[]) {
+    const converted = estimate(currency);
+    assert.equal(converted.currency, currency);
+    assert.equal(converted.exchangeRate, catalog.exchangeRates[currency]);
+    for (const model of PRICING_MODELS) {
+      assertClose(converted.totals[model], usd.totals[model] * catalog.exchangeRates[currency], usd.lines.length, `${currency} ${model}`);
+    }
+  }
+});
+
+test('amounts are whole units with the currency symbol or code', () => {
+  assert.equal(formatCostAmount(1249.5, 'USD'), '$1,250');
+  assert.equal(formatCostAmount(1981.96, 'CHF'), 'CHF 1,982');
+  assert.equal(formatCostAmount(0.4, 'EUR'), 'EUR 0');
+
+  const chf = estimate('CHF');
+  const table = formatCostEstimate(chf);
+  assert.match(table, /CHF at 0\.80 per USD/);
+  assert.ok(table.includes(`| **Total per month** | | | **${formatCostAmount(chf.totals.payg, 'CHF')}** |`));
+  assert.ok(table.includes(`| **Total per year** | | | **${formatCostAmount(chf.totals.payg * 12, 'CHF')}** |`));
+});
+
+test('unpriced services stay out of the totals and unknown SKUs are priced at the default', () => {
+  const architecture = sampleArchitecture();
+  const graph = buildArchitectureGraph({
+    ...architecture,
+    services: [
+      ...architecture.services.map(service => service.id === 'key-vault' ? { ...service, sku: 'Ultra' } : service),
+      { id: 'mainframe', name: 'Core Banking Mainframe', category: 'compute', sku: 'z15', region: 'Switzerland North', purpose: 'Ledger' }
+    ]
+  });
+  const result = estimateArchitectureCosts(graph, { catalog, currency: 'USD' });
+  assert.deepEqual(result.unpriced.map(service => service.nodeId), ['mainframe']);
+  assert.equal(result.lines.find(line => line.nodeId === 'key-vault')?.skuMatched, false);
+  assert.ok(result.notes.some(note => note.startsWith('Azure Key Vault: SKU "Ultra" is not in the pricing catalog')));
+  assertClose(result.totals.payg, result.lines.reduce((total, line) => total + line.monthly.payg, 0), 1);
+});
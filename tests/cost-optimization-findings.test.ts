@@ -0,0 +1,63 @@
+/**
+ * Cost Optimization findings tests
+ * Checklist table rows of the Cost Optimization agent and the score they give
+ * Run: npx tsx --test tests/cost-optimization-findings.test.ts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CostOptimizationFinding, parseFindingRow, scoreChecklistFindings
+} from '../src/agents/well-architected-cost-optimization-agent.js';
+
+function finding(checklistId: string, status: CostOptimizationFinding['status']): CostOptimizationFinding {
+  return { checklistId, title: checklistId, status, finding: '', recommendation: '' };
+}
+
+test('a table row gives the item, its status, finding and recommendation', () => {
+  assert.deepEqual(parseFindingRow('| CO:05 | Partial | Reservations for SQL only | Add a savings plan for App Service |'), {
+    checklistId: 'CO:05',
+    status: 'partial',
+    finding: 'Reservations for SQL only',
+    recommendation: 'Add a savings plan for App Service'
+  });
+});
+
+test('bold cells, missing outer pipes and indentation are accepted', () => {
+  const row = parseFindingRow('  **CO:03** | **Gap** | No budgets | Create Cost Management budgets  ');
+  assert.equal(row?.checklistId, 'CO:03');
+  assert.equal(row?.status, 'gap');
+  assert.equal(row?.recommendation, 'Create Cost Management budgets');
+});
+
+test('N/A and "not applicable" both mark an item not applicable, a dash means no recommendation', () => {
+  assert.equal(parseFindingRow('| CO:11 | N/A | No code-level costs | - |')?.status, 'not-applicable');
+  assert.equal(parseFindingRow('| CO:11 | not applicable | No code-level costs | – |')?.recommendation, '');
+  assert.equal(parseFindingRow('| FS:02 | Met | Keys in the customer HSM | - |')?.checklistId, 'FS:02');
+});
+
+test('header, separator and prose lines are not findings', () => {
+  for (const line of [
+    '| Item | Status | Finding | Recommendation |',
+    '|------|--------|---------|----------------|',
+    '| CO:01 | Met / Partial / Gap / N/A | What the architecture does | What to change |',
+    '| CO:04 | Unknown | Not rated | - |',
+    '| CO:04 | Met | Only a finding |',
+    'CO:04 is met because budgets exist',
+    'Cost optimization score: 85'
+  ]) {
+    assert.equal(parseFindingRow(line), undefined, line);
+  }
+});
+
+test('the score credits met items fully and partial items half, ignoring N/A', () => {
+  assert.equal(scoreChecklistFindings([
+    finding('CO:01', 'met'), finding('CO:02', 'partial'), finding('CO:03', 'gap'), finding('CO:04', 'not-applicable')
+  ]), 50);
+  assert.equal(scoreChecklistFindings([finding('CO:01', 'met'), finding('CO:02', 'met'), finding('CO:03', 'partial')]), 83);
+});
+
+test('without an applicable item there is no score', () => {
+  assert.equal(scoreChecklistFindings([]), undefined);
+  assert.equal(scoreChecklistFindings([finding('CO:11', 'not-applicable')]), undefined);
+});
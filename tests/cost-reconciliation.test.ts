@@ -0,0 +1,104 @@
+/**
+ * Cost Reconciliation tests
+ * Cost claims of the report sections checked against the calculated baseline and each other
+ * Run: npx tsx --test tests/cost-reconciliation.test.ts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildArchitectureGraph } from '../src/core/architecture-graph.js';
+import { estimateArchitectureCosts } from '../src/cost/cost-calculator.js';
+import { ReconciliationOptions, ReportSection, formatCostConsistency, reconcileCostClaims } from '../src/cost/cost-reconciliation.js';
+import { loadPricingCatalog } from '../src/cost/pricing-catalog.js';
+import { sampleArchitecture, sampleGraph } from './fixtures/sample-architecture.js';
+
+const catalog = loadPricingCatalog();
+const graph = sampleGraph();
+const estimate = estimateArchitectureCosts(graph, { catalog, currency: 'USD' });
+const OPTIONS: ReconciliationOptions = { catalog, estimate, mode: 'flag', tolerance: 0.15 };
+
+function baseline(nodeId: string): number {
+  return estimate.lines.find(line => line.nodeId === nodeId)!.monthly.payg;
+}
+
+function section(key: string, ...lines: string[]): ReportSection {
+  return { key, title: key, text: lines.join('\n') };
+}
+
+test('claims within the tolerance of any pricing model are consistent', () => {
+  const sql = estimate.lines.find(line => line.nodeId === 'sql')!;
+  const report = reconcileCostClaims(graph, [
+    section('architecture', `Azure App Service (P1v3) runs at about $${Math.round(baseline('web') * 1.1)}/month.`),
+    section('costs', `Azure SQL Database on a 3-year reservation: $${Math.round(sql.monthly['reserved-3y'])} per month`),
+    section('tco', `Azure SQL Database: CHF ${Math.round(sql.monthly.payg * 0.8 * 12).toLocaleString('en-US')} per year`)
+  ], OPTIONS);
+  assert.equal(report.claims.length, 3);
+  assert.deepEqual(report.inconsistencies, []);
+  assert.ok(report.services.every(service => service.consistent));
+});
+
+test('overstated and understated claims are flagged against pay-as-you-go', () => {
+  const report = reconcileCostClaims(graph, [
+    section('architecture', 'Azure App Service (P1v3): $400/month', 'Azure SQL Database costs $200 per month')
+  ], OPTIONS);
+  const found = new Map(report.inconsistencies.map(inconsistency => [inconsistency.claim.nodeId, inconsistency]));
+
+  const over = found.get('web')!;
+  assert.equal(over.reference, 'baseline');
+  assert.equal(over.expected, baseline('web'));
+  assert.ok(over.deviation > 0.15);
+
+  const under = found.get('sql')!;
+  assert.equal(under.expected, baseline('sql'));
+  assert.ok(under.deviation < -0.15);
+
+  const markdown = formatCostConsistency(report);
+  assert.match(markdown, /Azure App Service "\$400" per month is \d+% above the calculated/);
+  assert.match(markdown, /Azure SQL Database "\$200" per month is \d+% below the calculated/);
+});
+
+test('rewrite mode replaces both with the calculated amount and keeps diagram lines aligned', () => {
+  const diagram = [
+    '```',
+    '┌──────────────────────┐',
+    '│ Azure App Service    │',
+    '│ $400/month           │',
+    '└──────────────────────┘',
+    '```'
+  ];
+  const report = reconcileCostClaims(graph, [
+    section('diagrams', ...diagram),
+    section('costs', 'Azure SQL Database: $12,000 per year')
+  ], { ...OPTIONS, mode: 'rewrite' });
+
+  assert.ok(report.inconsistencies.every(inconsistency => inconsistency.rewritten));
+  const rewrittenLine = report.rewritten.diagrams.split('\n')[3];
+  assert.equal(rewrittenLine, `│ $${Math.round(baseline('web'))}/month           │`);
+  assert.equal(rewrittenLine.length, diagram[3].length);
+  assert.equal(report.rewritten.costs, `Azure SQL Database: $${Math.round(baseline('sql') * 12).toLocaleString('en-US')} per year`);
+});
+
+test('savings and budgets are not read as prices', () => {
+  const report = reconcileCostClaims(graph, [
+    section('costs', 'Reserving Azure SQL Database saves $300/month; the Azure App Service budget is $1,000 per month')
+  ], OPTIONS);
+  assert.deepEqual(report.claims, []);
+  assert.match(formatCostConsistency(report), /No section of the report states a monthly or annual cost/);
+});
+
+test('services without a baseline are compared with the other sections', () => {
+  const architecture = sampleArchitecture();
+  const withMainframe = buildArchitectureGraph({
+    ...architecture,
+    services: [...architecture.services, { id: 'mainframe', name: 'Core Banking Mainframe', category: 'compute', sku: 'z15', region: 'Switzerland North', purpose: 'Ledger' }]
+  });
+  const report = reconcileCostClaims(withMainframe, [
+    section('architecture', 'Core Banking Mainframe: $9,000/month'),
+    section('costs', 'Core Banking Mainframe: $10,000/month'),
+    section('tco', 'Core Banking Mainframe: $30,000/month')
+  ], { catalog, mode: 'rewrite', tolerance: 0.15, currency: 'USD' });
+
+  assert.deepEqual(report.inconsistencies.map(({ claim, reference, expected }) => [claim.section, reference, expected]), [['tco', 'consensus', 10000]]);
+  // Only baseline inconsistencies are rewritten
+  assert.deepEqual(report.rewritten, {});
+});
@@ -0,0 +1,44 @@
+/**
+ * Sample architecture shared by the tests: a zone-redundant web workload in
+ * Switzerland North with its data services inside a spoke VNet
+ */
+
+import { ArchitectureArtifact, CostArtifact } from '../../src/core/pipeline-artifacts.js';
+import { ArchitectureGraph, GraphBuildOptions, buildArchitectureGraph } from '../../src/core/architecture-graph.js';
+
+export function sampleArchitecture(): ArchitectureArtifact {
+  return {
+    name: 'Client Portal',
+    summary: 'Customer portal on App Service with Azure SQL and Blob Storage behind Front Door',
+    regions: ['Switzerland North'],
+    services: [
+      { id: 'customers', name: 'Customers', category: 'external', sku: 'n/a', region: 'n/a', purpose: 'Portal users' },
+      { id: 'front-door', name: 'Azure Front Door', category: 'networking', sku: 'Premium', region: 'Global', purpose: 'Edge routing and WAF' },
+      { id: 'web', name: 'Azure App Service', category: 'compute', sku: 'Premium P1v3', region: 'Switzerland North', zone: 'zone-redundant', purpose: 'Portal frontend and API', groups: ['app-subnet'] },
+      { id: 'sql', name: 'Azure SQL Database', category: 'data', sku: 'General Purpose Gen5 4 vCore', region: 'Switzerland North', zone: 'zone-redundant', purpose: 'Customer records', groups: ['data-subnet'] },
+      { id: 'storage', name: 'Azure Blob Storage', category: 'storage', sku: 'Standard ZRS', region: 'Switzerland North', purpose: 'Documents', groups: ['data-subnet'] },
+      { id: 'key-vault', name: 'Azure Key Vault', category: 'security', sku: 'Standard', region: 'Switzerland North', purpose: 'Secrets and certificates' },
+      { id: 'entra', name: 'Microsoft Entra ID', category: 'security', sku: 'P1', region: 'Global', purpose: 'Customer and staff sign-in' },
+      { id: 'monitor', name: 'Application Insights', category: 'monitoring', sku: 'Pay-as-you-go', region: 'Switzerland North', purpose: 'Telemetry' },
+      { id: 'logs', name: 'Log Analytics', category: 'monitoring', sku: 'Pay-as-you-go', region: 'Switzerland North', purpose: 'Central logs' }
+    ],
+    edges: [
+      { from: 'customers', to: 'front-door', description: 'Portal traffic', protocol: 'HTTPS' },
+      { from: 'front-door', to: 'web', description: 'Origin requests', protocol: 'HTTPS' },
+      { from: 'web', to: 'sql', description: 'Customer records', protocol: 'TDS' },
+      { from: 'web', to: 'storage', description: 'Documents', protocol: 'HTTPS' },
+      { from: 'web', to: 'key-vault', description: 'Secrets', protocol: 'HTTPS' }
+    ],
+    groups: [
+      { id: 'spoke', name: 'Spoke VNet', kind: 'vnet' },
+      { id: 'app-subnet', name: 'App subnet', kind: 'subnet', parent: 'spoke' },
+      { id: 'data-subnet', name: 'Data subnet', kind: 'subnet', parent: 'spoke' }
+    ],
+    pros: ['Zone-redundant'],
+    cons: ['Single region']
+  };
+}
+
+export function sampleGraph(cost?: CostArtifact, options?: GraphBuildOptions): ArchitectureGraph {
+  return buildArchitectureGraph(sampleArchitecture(), cost, options);
+}
@@ -0,0 +1,107 @@
+/**
+ * IaC generation tests
+ * Bicep and Terraform projects generated from the architecture graph, their edge modules, and the offline validators
+ * Run: npx tsx --test tests/iac-generation.test.ts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ArchitectureGraph, buildArchitectureGraph } from '../src/core/architecture-graph.js';
+import { BICEP_MAIN_FILE, generateBicep } from '../src/iac/bicep-generator.js';
+import { validateBicepProject } from '../src/iac/bicep-validator.js';
+import { planInfrastructure } from '../src/iac/iac-plan.js';
+import { TERRAFORM_MAIN_FILE, TERRAFORM_TFVARS_FILE, generateTerraform } from '../src/iac/terraform-generator.js';
+import { validateTerraformProject } from '../src/iac/terraform-validator.js';
+import { sampleArchitecture, sampleGraph } from './fixtures/sample-architecture.js';
+
+// The sample with Application Gateway WAF v2 in the spoke instead of Front Door
+function applicationGatewayGraph(): ArchitectureGraph {
+  const architecture = sampleArchitecture();
+  return buildArchitectureGraph({
+    ...architecture,
+    services: architecture.services.map(service => service.id === 'front-door'
+      ? { ...service, name: 'Azure Application Gateway', sku: 'WAF v2', region: 'Switzerland North' }
+      : service)
+  });
+}
+
+test('the sample architecture generates a valid Bicep project', () => {
+  const project = generateBicep(sampleGraph());
+  assert.deepEqual(validateBicepProject(project.files), { valid: true, errors: [] });
+  assert.deepEqual(project.plan.resources.map(resource => resource.module).sort(), [
+    'app-service', 'front-door', 'key-vault', 'sql-database', 'storage-account'
+  ]);
+  assert.deepEqual(project.plan.skipped.map(({ node }) => node.id), ['entra', 'monitor', 'logs']);
+});
+
+test('Front Door routes to the services its flows lead to, private ones over Private Link', () => {
+  const plan = planInfrastructure(sampleGraph());
+  const frontDoor = plan.resources.find(resource => resource.module === 'front-door');
+  assert.deepEqual(frontDoor?.origins, ['web']);
+  assert.equal(frontDoor?.sku.skuName, 'Premium_AzureFrontDoor');
+  assert.ok(plan.notes.includes('Azure Front Door: approve its private endpoint connection on Azure App Service after deployment'));
+
+  const main = generateBicep(sampleGraph(), plan).files[BICEP_MAIN_FILE];
+  assert.match(main, /hostName: web\.outputs\.hostName/);
+  assert.match(main, /privateLinkResourceId: web\.outputs\.id/);
+});
+
+test('Standard Front Door in front of a private origin is raised to Premium', () => {
+  const architecture = sampleArchitecture();
+  const graph = buildArchitectureGraph({
+    ...architecture,
+    services: architecture.services.map(service => service.id === 'front-door' ? { ...service, sku: 'Standard' } : service)
+  });
+  const plan = planInfrastructure(graph);
+  assert.equal(plan.resources.find(resource => resource.module === 'front-door')?.sku.skuName, 'Premium_AzureFrontDoor');
+  assert.ok(plan.notes.some(note => note.startsWith('Azure Front Door:') && /Premium/.test(note)));
+});
+
+test('Application Gateway gets its own subnet and a valid Bicep module', () => {
+  const project = generateBicep(applicationGatewayGraph());
+  assert.deepEqual(validateBicepProject(project.files), { valid: true, errors: [] });
+
+  const gateway = project.plan.resources.find(resource => resource.module === 'application-gateway');
+  assert.deepEqual(gateway?.origins, ['web']);
+  assert.equal(gateway?.sku.skuName, 'WAF_v2');
+  assert.equal(project.plan.subnets.applicationGateway, true);
+  assert.match(project.files[BICEP_MAIN_FILE], /backendHostName: web\.outputs\.hostName/);
+  assert.ok(project.plan.notes.some(note => /HTTPS listener before go-live/.test(note)));
+});
+
+test('an edge service without a flow to a routable service is planned without origins', () => {
+  const architecture = sampleArchitecture();
+  const graph = buildArchitectureGraph({ ...architecture, edges: architecture.edges.filter(edge => edge.from !== 'front-door') });
+  const project = generateBicep(graph);
+  assert.deepEqual(project.plan.resources.find(resource => resource.module === 'front-door')?.origins, []);
+  assert.deepEqual(validateBicepProject(project.files), { valid: true, errors: [] });
+});
+
+test('the sample architecture generates a valid Terraform project with one module per tier in use', () => {
+  const project = generateTerraform(sampleGraph());
+  assert.deepEqual(validateTerraformProject(project.files), { valid: true, errors: [] });
+  const modules = [...new Set(Object.keys(project.files).filter(file => file.startsWith('modules/')).map(file => file.split('/')[1]))];
+  assert.deepEqual(modules, ['monitoring', 'network', 'security', 'data', 'compute', 'edge']);
+  assert.match(project.files[TERRAFORM_MAIN_FILE], /host_name\s+= module\.compute\.app_services\["web"\]\.host_name/);
+});
+
+test('Application Gateway generates a valid Terraform project wired to its subnet', () => {
+  const project = generateTerraform(applicationGatewayGraph());
+  assert.deepEqual(validateTerraformProject(project.files), { valid: true, errors: [] });
+  const main = project.files[TERRAFORM_MAIN_FILE];
+  assert.match(main, /include_application_gateway_subnet = true/);
+  assert.match(main, /application_gateway_subnet_id = module\.network\.application_gateway_subnet_id/);
+  assert.match(main, /backend_host_name = module\.compute\.app_services\["web"\]\.host_name/);
+});
+
+test('the Terraform validator reports missing arguments, unknown outputs and stray tfvars', () => {
+  const { files } = generateTerraform(sampleGraph());
+  const missingArgument = { ...files, 'modules/data/main.tf': files['modules/data/main.tf'].replace(/^  version\s+= "12\.0"\n/m, '') };
+  assert.ok(validateTerraformProject(missingArgument).errors.some(error => /azurerm_mssql_server.*version/.test(error)));
+
+  const unknownOutput = { ...files, [TERRAFORM_MAIN_FILE]: files[TERRAFORM_MAIN_FILE].replace('module.monitoring.workspace_id', 'module.monitoring.workspace') };
+  assert.match(validateTerraformProject(unknownOutput).errors.join('\n'), /^main\.tf line \d+: module "monitoring" has no output "workspace"$/m);
+
+  const strayTfvars = { ...files, [TERRAFORM_TFVARS_FILE]: `${files[TERRAFORM_TFVARS_FILE]}\nunknown = "x"\n` };
+  assert.match(validateTerraformProject(strayTfvars).errors.join('\n'), /^terraform\.tfvars line \d+: "unknown" is not a variable of the root module$/m);
+});
@@ -0,0 +1,90 @@
+/**
+ * LLM Transport tests
+ * Cassette keys and the order in which replay serves recorded responses
+ * Run: npx tsx --test tests/llm-transport.test.ts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  ChatCompletionRequest, ChatCompletionResponse, LLMTransport, RecordingTransport, ReplayTransport, cassetteKey
+} from '../src/core/llm-transport.js';
+
+function request(content: string, overrides: Partial<ChatCompletionRequest> = {}): ChatCompletionRequest {
+  return {
+    model: 'gpt-4o',
+    messages: [{ role: 'system', content: 'You are an Azure architect.' }, { role: 'user', content }],
+    max_tokens: 1000,
+    ...overrides
+  };
+}
+
+function response(content: string): ChatCompletionResponse {
+  return {
+    id: `chatcmpl-${content}`,
+    object: 'chat.completion',
+    created: 0,
+    model: 'gpt-4o',
+    choices: [{ index: 0, message: { role: 'assistant', content, refusal: null }, finish_reason: 'stop', logprobs: null }]
+  };
+}
+
+// Live stand-in that answers each call with the next scripted response
+function scripted(answers: string[]): LLMTransport {
+  let call = 0;
+  return { mode: 'live', send: async () => response(answers[call++]) };
+}
+
+function withCassettes(run: (directory: string) => Promise<void>): () => Promise<void> {
+  return async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'cassettes-'));
+    try {
+      await run(directory);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  };
+}
+
+test('cassette key ignores the deployment and masks timestamps and workflow folders', () => {
+  const key = cassetteKey(request('Analyze run workflow-1700000000000 started 2026-10-19T08:42:02.123Z'));
+  assert.match(key, /^[0-9a-f]{32}$/);
+  assert.equal(cassetteKey(request('Analyze run workflow-1760000000000 started 2026-10-20T09:00:00Z', { model: 'gpt-4o-mini' })), key);
+});
+
+test('cassette key changes with the prompt and generation settings', () => {
+  const key = cassetteKey(request('Design a landing zone'));
+  assert.notEqual(cassetteKey(request('Design a hub-spoke network')), key);
+  assert.notEqual(cassetteKey(request('Design a landing zone', { max_tokens: 2000 })), key);
+  assert.notEqual(cassetteKey(request('Design a landing zone', { temperature: 0.2 })), key);
+  assert.notEqual(cassetteKey(request('Design a landing zone', { messages: [{ role: 'user', content: 'Design a landing zone' }] })), key);
+});
+
+test('replay serves a repeated prompt in recorded order, then repeats the last answer', withCassettes(async directory => {
+  const recorder = new RecordingTransport(scripted(['first', 'second', 'other']), directory);
+  await recorder.send(request('Refine the architecture'));
+  await recorder.send(request('Refine the architecture'));
+  await recorder.send(request('Estimate the cost'));
+
+  const replay = new ReplayTransport(directory);
+  const answers = [];
+  for (let i = 0; i < 3; i++) answers.push((await replay.send(request('Refine the architecture'))).choices[0].message.content);
+  assert.deepEqual(answers, ['first', 'second', 'second']);
+  assert.equal((await replay.send(request('Estimate the cost'))).choices[0].message.content, 'other');
+}));
+
+test('a new recording run replaces the older cassette of the same prompt', withCassettes(async directory => {
+  await new RecordingTransport(scripted(['old']), directory).send(request('Assess security'));
+  await new RecordingTransport(scripted(['new']), directory).send(request('Assess security'));
+
+  const replay = new ReplayTransport(directory);
+  assert.equal((await replay.send(request('Assess security'))).choices[0].message.content, 'new');
+  assert.equal((await replay.send(request('Assess security'))).choices[0].message.content, 'new');
+}));
+
+test('replay fails on a prompt that was never recorded', withCassettes(async directory => {
+  await assert.rejects(new ReplayTransport(directory).send(request('Unrecorded prompt')), /No recorded response for prompt [0-9a-f]{32}/);
+}));
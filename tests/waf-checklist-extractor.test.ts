@@ -0,0 +1,51 @@
+/**
+ * WAF Checklist Extractor tests
+ * Evidence matching of checklist items against report passages
+ * Run: npx tsx --test tests/waf-checklist-extractor.test.ts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WAFChecklistExtractor, WAFChecklistSummary, WAFChecklistItem } from '../src/utils/waf-checklist-extractor.js';
+
+const ZONE_REDUNDANCY = `## Reliability
+
+App Service runs zone-redundant across three availability zones in Switzerland North, Azure SQL Database uses
+zone redundancy, and geo-replication keeps a readable secondary in Switzerland West.
+`;
+
+const SECRETS = `## Security
+
+Connection strings and certificates are stored in Azure Key Vault and read through managed identities, so no
+secrets live in application settings. All traffic uses TLS 1.2 encryption and data is encrypted at rest.
+`;
+
+function item(summary: WAFChecklistSummary, id: string): WAFChecklistItem {
+  const found = Object.values(summary.itemsByPillar).flat().find(candidate => candidate.id === id);
+  assert.ok(found, `${id} is in the checklist`);
+  return found;
+}
+
+test('zone redundancy counts for RE:05 without naming the item', async () => {
+  const summary = await new WAFChecklistExtractor().extractChecklistFromResponse(ZONE_REDUNDANCY);
+  const redundancy = item(summary, 'RE:05');
+  assert.equal(redundancy.found, true);
+  assert.notEqual(redundancy.confidence, 'low');
+  assert.ok(redundancy.evidencedConcepts?.includes('redundancy design'));
+  assert.match(redundancy.evidence ?? '', /zone/);
+});
+
+test('secrets in Key Vault and TLS encryption count for SE:09 and SE:07', async () => {
+  const summary = await new WAFChecklistExtractor().extractChecklistFromResponse(SECRETS);
+  const secrets = item(summary, 'SE:09');
+  assert.equal(secrets.found, true);
+  assert.ok(secrets.evidencedConcepts?.includes('secret storage'));
+  assert.match(secrets.evidence ?? '', /Key Vault/);
+  assert.equal(item(summary, 'SE:07').found, true);
+});
+
+test('listing checklist IDs is no evidence', async () => {
+  const summary = await new WAFChecklistExtractor().extractChecklistFromResponse('RE:05 SE:01');
+  assert.equal(summary.referencedItems, 0);
+  assert.equal(summary.coverage, 0);
+});
@@ -0,0 +1,120 @@
+/**
+ * WAF Rules tests
+ * Deterministic checks of the architecture graph and the pillar scores they give
+ * Run: npx tsx --test tests/waf-rules.test.ts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ArchitectureGraph, buildArchitectureGraph } from '../src/core/architecture-graph.js';
+import { WafRuleResult, blendPillarScore, evaluateWafRules } from '../src/waf/waf-rules.js';
+import { sampleArchitecture, sampleGraph } from './fixtures/sample-architecture.js';
+
+function rule(graph: ArchitectureGraph, checklistId: string): WafRuleResult {
+  const result = evaluateWafRules(graph).results.find(candidate => candidate.checklistId === checklistId);
+  assert.ok(result, `a rule checks ${checklistId}`);
+  return result;
+}
+
+function withoutGroups(): ArchitectureGraph {
+  const architecture = sampleArchitecture();
+  return buildArchitectureGraph({
+    ...architecture,
+    services: architecture.services.map(({ groups, ...service }) => service),
+    groups: []
+  });
+}
+
+test('data services inside a VNet or subnet group are isolated', () => {
+  const result = rule(sampleGraph(), 'SE:04');
+  assert.equal(result.status, 'pass');
+  assert.ok(result.evidence.includes('In virtual networks: Azure SQL Database (Data subnet), Azure Blob Storage (Data subnet)'));
+});
+
+test('data services outside any private network fail SE:04', () => {
+  const result = rule(withoutGroups(), 'SE:04');
+  assert.equal(result.status, 'fail');
+  assert.ok(result.evidence.includes('No virtual network or private endpoints'));
+});
+
+test('a data service left outside the VNet fails SE:04 and is named', () => {
+  const architecture = sampleArchitecture();
+  const graph = buildArchitectureGraph({
+    ...architecture,
+    services: architecture.services.map(service => service.id === 'storage' ? { ...service, groups: [] } : service)
+  });
+  const result = rule(graph, 'SE:04');
+  assert.equal(result.status, 'fail');
+  assert.ok(result.evidence.includes('Outside a virtual network: Azure Blob Storage'));
+});
+
+test('a private endpoint node isolates the data services without groups', () => {
+  const architecture = sampleArchitecture();
+  const graph = buildArchitectureGraph({
+    ...architecture,
+    services: [
+      ...architecture.services.map(({ groups, ...service }) => service),
+      { id: 'pe', name: 'Azure Private Link', category: 'networking', sku: 'Standard', region: 'Switzerland North', purpose: 'Private endpoints' }
+    ],
+    groups: []
+  });
+  assert.equal(rule(graph, 'SE:04').status, 'pass');
+});
+
+test('public entry points behind Front Door pass edge protection, direct ones fail', () => {
+  assert.equal(rule(sampleGraph(), 'SE:06').status, 'pass');
+
+  const architecture = sampleArchitecture();
+  const direct = buildArchitectureGraph({
+    ...architecture,
+    edges: [...architecture.edges, { from: 'customers', to: 'storage', description: 'Document downloads', protocol: 'HTTPS' }]
+  });
+  const result = rule(direct, 'SE:06');
+  assert.equal(result.status, 'fail');
+  assert.ok(result.evidence.includes('Reached directly: Azure Blob Storage'));
+});
+
+test('one region fails disaster recovery, a second architecture region passes it', () => {
+  assert.equal(rule(sampleGraph(), 'RE:05').status, 'fail');
+  const architecture = sampleArchitecture();
+  const paired = buildArchitectureGraph({ ...architecture, regions: ['Switzerland North', 'Switzerland West'] });
+  assert.equal(rule(paired, 'RE:05').status, 'pass');
+});
+
+test('presence rules and tiers follow the services in the graph', () => {
+  const graph = sampleGraph();
+  assert.equal(rule(graph, 'SE:09').status, 'pass');
+  assert.equal(rule(graph, 'SE:10').status, 'fail');
+  assert.equal(rule(graph, 'OE:07').status, 'pass');
+  assert.equal(rule(graph, 'PE:03').status, 'pass');
+
+  const architecture = sampleArchitecture();
+  const free = buildArchitectureGraph({
+    ...architecture,
+    services: architecture.services.map(service => service.id === 'web' ? { ...service, sku: 'Free F1' } : service)
+  });
+  assert.deepEqual(rule(free, 'PE:03').evidence, ['Azure App Service: Free F1']);
+});
+
+test('pillar scores weigh the applicable rules by severity', () => {
+  const { pillarScores } = evaluateWafRules(sampleGraph());
+  // Reliability: RE:05 (high) fails, RE:10 (medium) passes
+  assert.equal(pillarScores.Reliability, 4);
+  // Security: only SE:10 (medium) of 3 + 3 + 2 + 2 + 2 fails
+  assert.equal(pillarScores.Security, 8.3);
+  assert.equal(pillarScores['Cost Optimization'], undefined);
+});
+
+test('rules without anything to check are not applicable', () => {
+  const empty: ArchitectureGraph = { ...sampleGraph(), regions: [], nodes: [], flows: [], groups: [] };
+  for (const checklistId of ['RE:05', 'SE:06', 'SE:04', 'PE:03']) {
+    assert.equal(rule(empty, checklistId).status, 'not-applicable', checklistId);
+  }
+});
+
+test('blending keeps the rule score alone when the LLM gave none', () => {
+  assert.equal(blendPillarScore(8, 4, 0.4), 6.4);
+  assert.equal(blendPillarScore(undefined, 4, 0.4), 4);
+  assert.equal(blendPillarScore(8, undefined, 0.4), 8);
+  assert.equal(blendPillarScore(undefined, undefined, 0.4), 7);
+});
@@ -0,0 +1,90 @@
+/**
+ * Workflow resume tests
+ * Loading definitions, which checkpointed steps a resumed run keeps, and the order it re-runs the rest in
+ * Run: npx tsx --test tests/workflow-resume.test.ts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { stringify as stringifyYaml } from 'yaml';
+import {
+  StepResult, WorkflowDefinition, WorkflowEngine, getExecutionOrder, getRestorableSteps, loadWorkflowDefinition
+} from '../src/core/workflow-engine.js';
+
+const pipeline = loadWorkflowDefinition();
+const allSteps = getExecutionOrder(pipeline);
+
+test('YAML workflow definitions load like their JSON form', () => {
+  const directory = mkdtempSync(path.join(tmpdir(), 'workflow-'));
+  try {
+    for (const file of ['workflow.yaml', 'workflow.yml']) {
+      const yamlFile = path.join(directory, file);
+      writeFileSync(yamlFile, stringifyYaml(pipeline));
+      assert.deepEqual(loadWorkflowDefinition(yamlFile), pipeline);
+    }
+    const invalid = path.join(directory, 'invalid.yaml');
+    writeFileSync(invalid, stringifyYaml({ ...pipeline, result: '' }));
+    assert.throws(() => loadWorkflowDefinition(invalid), /Invalid workflow definition .*\n  - workflow must declare the "result" output key/);
+  } finally {
+    rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+test('a step that fell back invalidates everything built from its output', () => {
+  // Research timed out and used its canned fallback, so it is not restored
+  const restorable = getRestorableSteps(pipeline, allSteps.filter(id => id !== 'research'));
+  assert.deepEqual([...restorable], []);
+});
+
+test('a re-run step keeps its unrelated siblings', () => {
+  const restorable = getRestorableSteps(pipeline, allSteps.filter(id => id !== 'risk-assessment'));
+  assert.deepEqual(
+    allSteps.filter(id => !restorable.has(id)),
+    ['risk-assessment', 'cost-aware-refinement', 'infrastructure-as-code', 'finops', 'cost-reconciliation', 'documentation']
+  );
+  assert.ok(restorable.has('waf-assessment') && restorable.has('change-management'));
+});
+
+test('disabled steps do not invalidate their dependents', () => {
+  const definition: WorkflowDefinition = {
+    ...pipeline,
+    steps: pipeline.steps.map(step => step.id === 'diagrams' ? { ...step, enabled: false } : step)
+  };
+  const restorable = getRestorableSteps(definition, allSteps.filter(id => id !== 'diagrams'));
+  assert.ok(restorable.has('cost-aware-refinement'));
+  assert.ok(restorable.has('documentation'));
+});
+
+test('resume re-runs the invalidated steps in dependency order and leaves restored ones alone', async () => {
+  const definition: WorkflowDefinition = {
+    name: 'resume',
+    version: '1.0.0',
+    result: 'report',
+    steps: [
+      { id: 'research', name: 'Research', handler: 'record', output: 'research' },
+      { id: 'requirements', name: 'Requirements', handler: 'record', dependsOn: ['research'], output: 'requirements' },
+      { id: 'risks', name: 'Risks', handler: 'record', output: 'risks' },
+      { id: 'report', name: 'Report', handler: 'record', dependsOn: ['requirements', 'risks'], output: 'report' }
+    ]
+  };
+  // Checkpoint: research fell back, everything else completed
+  const restorable = getRestorableSteps(definition, ['requirements', 'risks', 'report']);
+  assert.deepEqual([...restorable], ['risks']);
+
+  const ran: string[] = [];
+  const engine = new WorkflowEngine(definition).registerHandler('record', async (context, step) => {
+    ran.push(step.id);
+    return `${step.id} from ${Object.keys(context.values).sort().join(', ')}`;
+  });
+  const restored = new Map<string, StepResult>([...restorable].map(id => [id, { id, status: 'completed' }]));
+  const context = { caseStudyText: '', values: { risks: 'restored risks' } as Record<string, any> };
+  const results = await engine.run(context, {}, restored);
+
+  assert.deepEqual(ran, ['research', 'requirements', 'report']);
+  assert.equal(context.values.risks, 'restored risks');
+  assert.equal(context.values.report, 'report from requirements, research, risks');
+  assert.ok([...results.values()].every(result => result.status === 'completed'));
+});